@@ -0,0 +1,193 @@
+/**
+ * TechLedger Action Revision Queries
+ * History of changes to an action's documented content
+ */
+
+import { PoolClient } from 'pg';
+import pool from './connection';
+import {
+  Action,
+  ActionRevision,
+  ActionRevisionField,
+  ActionRevisionSummary,
+  ActionSnapshot,
+  PaginatedResult,
+  QueryOptions,
+  RevisionContext,
+} from '../types/models';
+import {
+  NotFoundError,
+  handleDatabaseError,
+  assertExists,
+  safeJSONParse,
+} from '../utils/errors';
+import { returnToDraft } from './workflowQueries';
+
+export const ACTION_REVISION_FIELDS: ActionRevisionField[] = [
+  'title',
+  'description',
+  'steps',
+  'screenshots',
+  'frequency',
+  'average_duration_minutes',
+  'trigger_event',
+  'responsible_role_id',
+  'systems_touched',
+];
+
+/**
+ * The revision-tracked fields of an action
+ */
+export function toActionSnapshot(action: Action): ActionSnapshot {
+  const snapshot = {} as Record<ActionRevisionField, unknown>;
+  for (const field of ACTION_REVISION_FIELDS) {
+    snapshot[field] = action[field] ?? null;
+  }
+  return snapshot as ActionSnapshot;
+}
+
+/**
+ * Fields whose values differ between two snapshots
+ */
+export function getChangedFields(before: ActionSnapshot, after: ActionSnapshot): ActionRevisionField[] {
+  return ACTION_REVISION_FIELDS.filter(
+    (field) => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null)
+  );
+}
+
+/**
+ * Parse JSONB fields on an action revision row
+ */
+function parseActionRevision(row: any): ActionRevision {
+  row.snapshot = safeJSONParse<ActionSnapshot>(row.snapshot);
+  return row;
+}
+
+/**
+ * Record the state of an action after a change, inside the caller's transaction.
+ * The caller must already hold the action's row lock (any UPDATE of the row
+ * does) so revision numbers don't collide. Nothing is recorded when no
+ * tracked field changed since the last revision.
+ * A recorded change also sends a non-draft action back to draft; `action`
+ * is updated to match.
+ * @param action - The action row as written, with JSONB fields parsed
+ * @returns The new revision, or null if nothing changed
+ */
+export async function recordActionRevision(
+  client: PoolClient,
+  action: Action,
+  context: RevisionContext = {}
+): Promise<ActionRevision | null> {
+  const latestResult = await client.query(
+    `SELECT revision_number, snapshot FROM action_revisions
+     WHERE action_id = $1
+     ORDER BY revision_number DESC
+     LIMIT 1`,
+    [action.id]
+  );
+  const latest = latestResult.rows[0];
+
+  const snapshot = toActionSnapshot(action);
+  const changedFields = latest
+    ? getChangedFields(safeJSONParse<ActionSnapshot>(latest.snapshot)!, snapshot)
+    : [];
+
+  if (latest && changedFields.length === 0) {
+    return null;
+  }
+
+  const summary = context.summary
+    || (latest ? `Updated ${changedFields.join(', ')}` : 'Created');
+
+  const result = await client.query(
+    `INSERT INTO action_revisions
+       (action_id, revision_number, snapshot, changed_fields, summary, restored_from_revision, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING *`,
+    [
+      action.id,
+      latest ? latest.revision_number + 1 : 1,
+      JSON.stringify(snapshot),
+      changedFields,
+      summary,
+      context.restoredFrom ?? null,
+      context.authorId ?? null,
+    ]
+  );
+
+  if (await returnToDraft(client, 'action', action.id)) {
+    action.status = 'draft';
+  }
+
+  return parseActionRevision(result.rows[0]);
+}
+
+/**
+ * List an action's revisions, newest first (snapshots omitted)
+ */
+export async function getActionRevisions(
+  actionId: number,
+  options: QueryOptions = {}
+): Promise<PaginatedResult<ActionRevisionSummary>> {
+  const limit = options.limit || 50;
+  const offset = options.offset || 0;
+
+  const countQuery = 'SELECT COUNT(*) FROM action_revisions WHERE action_id = $1';
+  const dataQuery = `
+    SELECT id, action_id, revision_number, changed_fields, summary,
+           restored_from_revision, created_by, created_at
+    FROM action_revisions
+    WHERE action_id = $1
+    ORDER BY revision_number DESC
+    LIMIT $2 OFFSET $3
+  `;
+
+  try {
+    const [countResult, dataResult] = await Promise.all([
+      pool.query(countQuery, [actionId]),
+      pool.query(dataQuery, [actionId, limit, offset]),
+    ]);
+
+    return {
+      data: dataResult.rows,
+      total: parseInt(countResult.rows[0].count),
+      limit,
+      offset,
+    };
+  } catch (error) {
+    handleDatabaseError(error, 'Get action revisions');
+  }
+}
+
+/**
+ * Get one revision of an action, with its snapshot
+ */
+export async function getActionRevision(
+  actionId: number,
+  revisionNumber: number
+): Promise<ActionRevision> {
+  const query = 'SELECT * FROM action_revisions WHERE action_id = $1 AND revision_number = $2';
+
+  try {
+    const result = await pool.query(query, [actionId, revisionNumber]);
+    assertExists(result.rows[0], 'Action Revision', revisionNumber);
+    return parseActionRevision(result.rows[0]);
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Get action revision');
+  }
+}
+
+/**
+ * IDs of the screenshots that still exist for an action
+ */
+export async function getActionScreenshotIds(actionId: number): Promise<Set<number>> {
+  const query = 'SELECT id FROM screenshots WHERE action_id = $1';
+
+  try {
+    const result = await pool.query(query, [actionId]);
+    return new Set(result.rows.map((row) => row.id));
+  } catch (error) {
+    handleDatabaseError(error, 'Get action screenshot IDs');
+  }
+}
@@ -0,0 +1,377 @@
+/**
+ * TechLedger Analytics Queries
+ * Read-only roll-ups of documented actions for operational reporting
+ */
+
+import pool from './connection';
+import {
+  PUBLISHED_ACTION_ROWS,
+  PUBLISHED_SEQUENCE_ACTION_ROWS,
+  PUBLISHED_SEQUENCE_ROWS,
+} from './workflowQueries';
+import { ActionFrequency, OperationsSummary } from '../types/models';
+import { NotFoundError, handleDatabaseError, assertExists } from '../utils/errors';
+
+// ============================================================================
+// OPERATIONS SUMMARY
+// ============================================================================
+
+/**
+ * Expected occurrences per month for each scheduled frequency
+ * (daily counts working days). Ad hoc work has no predictable volume.
+ */
+export const OCCURRENCES_PER_MONTH: Record<Exclude<ActionFrequency, 'ad_hoc'>, number> = {
+  daily: 21,
+  weekly: 4.33,
+  monthly: 1,
+  quarterly: 1 / 3,
+  yearly: 1 / 12,
+};
+
+const MONTHLY_MINUTES_SQL = `
+  CASE a.frequency
+    ${Object.entries(OCCURRENCES_PER_MONTH)
+      .map(([frequency, perMonth]) => `WHEN '${frequency}' THEN ${perMonth}`)
+      .join('\n    ')}
+  END * a.average_duration_minutes
+`;
+
+// Where actions and sequences are read from: as they stand, or as
+// published (what viewers see)
+const actionsTable = (publishedOnly: boolean) => publishedOnly ? PUBLISHED_ACTION_ROWS : 'actions';
+const sequencesTable = (publishedOnly: boolean) => publishedOnly ? PUBLISHED_SEQUENCE_ROWS : 'action_sequences';
+const sequenceActionsTable = (publishedOnly: boolean) =>
+  publishedOnly ? PUBLISHED_SEQUENCE_ACTION_ROWS : 'sequence_actions';
+
+/**
+ * Actions in scope, each with the system and practice group it belongs to
+ * and its estimated monthly minutes (NULL when not estimable).
+ * $1 is the practice group or system ID.
+ */
+const scopedActions = (scopeCondition: string, publishedOnly: boolean) => `
+  WITH scoped AS (
+    SELECT
+      a.*,
+      COALESCE(a.system_id, d.system_id) AS owning_system_id,
+      ${MONTHLY_MINUTES_SQL} AS monthly_minutes
+    FROM ${actionsTable(publishedOnly)} a
+    LEFT JOIN practice_groups pg ON pg.id = a.practice_group_id
+    LEFT JOIN departments d ON d.id = pg.department_id
+    WHERE ${scopeCondition}
+  )
+`;
+
+const SCOPES = {
+  practice_group: {
+    resource: 'Practice Group',
+    nameQuery: 'SELECT name FROM practice_groups WHERE id = $1',
+    condition: 'a.practice_group_id = $1',
+  },
+  system: {
+    resource: 'System',
+    nameQuery: 'SELECT name FROM systems WHERE id = $1',
+    condition: 'COALESCE(a.system_id, d.system_id) = $1',
+  },
+};
+
+const toMinutes = (value: string | null): number =>
+  value === null ? 0 : Math.round(parseFloat(value));
+
+/**
+ * Roll up frequency, duration, responsible role, systems touched and
+ * triggers for every action in a practice group or system
+ * @param publishedOnly - Only published actions, as published
+ */
+async function getOperationsSummary(
+  type: 'practice_group' | 'system',
+  id: number,
+  publishedOnly: boolean
+): Promise<OperationsSummary> {
+  const scope = SCOPES[type];
+  const cte = scopedActions(scope.condition, publishedOnly);
+
+  try {
+    const nameResult = await pool.query(scope.nameQuery, [id]);
+    assertExists(nameResult.rows[0], scope.resource, id);
+
+    const [totals, frequencies, roles, systems, triggers, groups] = await Promise.all([
+      pool.query(`${cte}
+        SELECT
+          COUNT(*) AS action_count,
+          COUNT(*) FILTER (WHERE frequency IS NOT NULL AND average_duration_minutes IS NOT NULL) AS actions_with_metadata,
+          AVG(average_duration_minutes) AS average_duration_minutes,
+          SUM(monthly_minutes) AS monthly_minutes
+        FROM scoped`, [id]),
+      pool.query(`${cte}
+        SELECT COALESCE(frequency, 'unspecified') AS frequency, COUNT(*) AS action_count
+        FROM scoped
+        GROUP BY 1`, [id]),
+      pool.query(`${cte}
+        SELECT r.id AS role_id, r.name AS role_name,
+               COUNT(*) AS action_count, SUM(monthly_minutes) AS monthly_minutes
+        FROM scoped
+        LEFT JOIN roles r ON r.id = scoped.responsible_role_id
+        GROUP BY r.id, r.name
+        ORDER BY SUM(monthly_minutes) DESC NULLS LAST, COUNT(*) DESC`, [id]),
+      pool.query(`${cte}
+        SELECT t.system_id, s.name AS system_name, COUNT(*) AS action_count
+        FROM scoped
+        CROSS JOIN LATERAL unnest(scoped.systems_touched) AS t(system_id)
+        LEFT JOIN systems s ON s.id = t.system_id
+        GROUP BY t.system_id, s.name
+        ORDER BY COUNT(*) DESC, t.system_id`, [id]),
+      pool.query(`${cte}
+        SELECT trigger_event, COUNT(*) AS action_count
+        FROM scoped
+        WHERE trigger_event IS NOT NULL
+        GROUP BY trigger_event
+        ORDER BY COUNT(*) DESC, trigger_event
+        LIMIT 25`, [id]),
+      type === 'system'
+        ? pool.query(`${cte}
+            SELECT pg.id AS practice_group_id, pg.name AS practice_group_name,
+                   COUNT(*) AS action_count, SUM(monthly_minutes) AS monthly_minutes
+            FROM scoped
+            LEFT JOIN practice_groups pg ON pg.id = scoped.practice_group_id
+            GROUP BY pg.id, pg.name
+            ORDER BY SUM(monthly_minutes) DESC NULLS LAST, COUNT(*) DESC`, [id])
+        : Promise.resolve(null),
+    ]);
+
+    const frequencyBreakdown: OperationsSummary['frequency_breakdown'] = {
+      ad_hoc: 0, daily: 0, weekly: 0, monthly: 0, quarterly: 0, yearly: 0, unspecified: 0,
+    };
+    for (const row of frequencies.rows) {
+      frequencyBreakdown[row.frequency as keyof typeof frequencyBreakdown] = parseInt(row.action_count);
+    }
+
+    const total = totals.rows[0];
+
+    return {
+      scope: { type, id, name: nameResult.rows[0].name },
+      action_count: parseInt(total.action_count),
+      actions_with_metadata: parseInt(total.actions_with_metadata),
+      estimated_minutes_per_month: toMinutes(total.monthly_minutes),
+      frequency_breakdown: frequencyBreakdown,
+      average_duration_minutes: total.average_duration_minutes === null
+        ? null
+        : Math.round(parseFloat(total.average_duration_minutes)),
+      by_role: roles.rows.map((row) => ({
+        role_id: row.role_id,
+        role_name: row.role_name,
+        action_count: parseInt(row.action_count),
+        estimated_minutes_per_month: toMinutes(row.monthly_minutes),
+      })),
+      systems_touched: systems.rows.map((row) => ({
+        system_id: row.system_id,
+        system_name: row.system_name,
+        action_count: parseInt(row.action_count),
+      })),
+      triggers: triggers.rows.map((row) => ({
+        trigger_event: row.trigger_event,
+        action_count: parseInt(row.action_count),
+      })),
+      ...(groups && {
+        by_practice_group: groups.rows.map((row) => ({
+          practice_group_id: row.practice_group_id,
+          practice_group_name: row.practice_group_name,
+          action_count: parseInt(row.action_count),
+          estimated_minutes_per_month: toMinutes(row.monthly_minutes),
+        })),
+      }),
+    };
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, `Get ${scope.resource.toLowerCase()} operations summary`);
+  }
+}
+
+/**
+ * Operations summary for one practice group
+ */
+export async function getPracticeGroupOperationsSummary(
+  practiceGroupId: number,
+  publishedOnly: boolean
+): Promise<OperationsSummary> {
+  return getOperationsSummary('practice_group', practiceGroupId, publishedOnly);
+}
+
+/**
+ * Operations summary for a system, across all its practice groups
+ * (and legacy actions attached directly to the system)
+ */
+export async function getSystemOperationsSummary(
+  systemId: number,
+  publishedOnly: boolean
+): Promise<OperationsSummary> {
+  return getOperationsSummary('system', systemId, publishedOnly);
+}
+
+// ============================================================================
+// RISK REPORT INPUTS
+// ============================================================================
+
+/**
+ * Where an action, task or sequence sits: its system and department
+ */
+export interface RiskScope {
+  system_id: number | null;
+  system_name: string | null;
+  department_id: number | null;
+  department_name: string | null;
+}
+
+export interface ActionRiskRow extends RiskScope {
+  action_id: number;
+  title: string;
+  frequency: ActionFrequency | null;
+  step_count: number;
+  role_names: string[];  // Roles performing it (through tasks or as responsible role)
+}
+
+export interface UnassignedTaskRow extends RiskScope {
+  task_id: number;
+  name: string;
+  action_count: number;  // Actions of the task within this scope
+}
+
+export interface SequenceStepRow extends RiskScope {
+  sequence_id: number;
+  sequence_name: string;
+  order_number: number;
+  action_id: number;
+  action_title: string;
+  action_system_id: number | null;
+  systems_touched: number[];
+  responsible_role_id: number | null;
+}
+
+/**
+ * Action → owning system and department (legacy actions have no department)
+ */
+const ACTION_SCOPE_JOIN = `
+  LEFT JOIN practice_groups pg ON pg.id = a.practice_group_id
+  LEFT JOIN departments d ON d.id = pg.department_id
+  INNER JOIN systems s ON s.id = COALESCE(a.system_id, d.system_id)
+`;
+
+const SCOPE_COLUMNS = `
+  s.id AS system_id, s.name AS system_name,
+  d.id AS department_id, d.name AS department_name
+`;
+
+/**
+ * Every action in the workspace (or one system) with its step count and
+ * the distinct roles that perform it
+ * @param publishedOnly - Read actions and sequences as published
+ */
+export async function getActionRiskRows(
+  workspaceId: number,
+  systemId: number | null,
+  publishedOnly: boolean
+): Promise<ActionRiskRow[]> {
+  const query = `
+    SELECT
+      a.id AS action_id, a.title, a.frequency,
+      CASE WHEN jsonb_typeof(a.steps) = 'array' THEN jsonb_array_length(a.steps) ELSE 0 END AS step_count,
+      ${SCOPE_COLUMNS},
+      COALESCE(performers.role_names, ARRAY[]::VARCHAR[]) AS role_names
+    FROM ${actionsTable(publishedOnly)} a
+    ${ACTION_SCOPE_JOIN}
+    LEFT JOIN LATERAL (
+      SELECT array_agg(DISTINCT r.name ORDER BY r.name) AS role_names
+      FROM roles r
+      WHERE r.id = a.responsible_role_id
+         OR r.id IN (
+           SELECT rt.role_id
+           FROM task_actions ta
+           INNER JOIN role_tasks rt ON rt.task_id = ta.task_id
+           WHERE ta.action_id = a.id
+         )
+    ) performers ON TRUE
+    WHERE s.workspace_id = $1 AND ($2::INTEGER IS NULL OR s.id = $2)
+    ORDER BY s.id, d.id, a.id
+  `;
+
+  try {
+    const result = await pool.query(query, [workspaceId, systemId]);
+    return result.rows;
+  } catch (error) {
+    handleDatabaseError(error, 'Get action risk rows');
+  }
+}
+
+/**
+ * Tasks no role is assigned to, once per system/department their actions
+ * live in. Tasks without actions come back once with no scope (and are
+ * left out when the report is limited to one system).
+ * @param publishedOnly - Read actions and sequences as published
+ */
+export async function getUnassignedTaskRows(
+  workspaceId: number,
+  systemId: number | null,
+  publishedOnly: boolean
+): Promise<UnassignedTaskRow[]> {
+  const query = `
+    SELECT
+      t.id AS task_id, t.name,
+      ${SCOPE_COLUMNS},
+      COUNT(a.id) AS action_count
+    FROM tasks t
+    LEFT JOIN task_actions ta ON ta.task_id = t.id
+    LEFT JOIN ${actionsTable(publishedOnly)} a ON a.id = ta.action_id
+    LEFT JOIN practice_groups pg ON pg.id = a.practice_group_id
+    LEFT JOIN departments d ON d.id = pg.department_id
+    LEFT JOIN systems s ON s.id = COALESCE(a.system_id, d.system_id)
+    WHERE t.workspace_id = $1
+      AND NOT EXISTS (SELECT 1 FROM role_tasks rt WHERE rt.task_id = t.id)
+      AND ($2::INTEGER IS NULL OR s.id = $2)
+    GROUP BY t.id, t.name, s.id, s.name, d.id, d.name
+    ORDER BY s.id NULLS LAST, d.id, t.id
+  `;
+
+  try {
+    const result = await pool.query(query, [workspaceId, systemId]);
+    return result.rows.map((row) => ({ ...row, action_count: parseInt(row.action_count) }));
+  } catch (error) {
+    handleDatabaseError(error, 'Get unassigned task rows');
+  }
+}
+
+/**
+ * Every step of every sequence, in order, with the system each step's
+ * action belongs to and the other systems it touches
+ * @param publishedOnly - Read actions and sequences as published
+ */
+export async function getSequenceStepRows(
+  workspaceId: number,
+  systemId: number | null,
+  publishedOnly: boolean
+): Promise<SequenceStepRow[]> {
+  const query = `
+    SELECT
+      seq.id AS sequence_id, seq.name AS sequence_name,
+      ${SCOPE_COLUMNS},
+      sa.order_number,
+      a.id AS action_id, a.title AS action_title,
+      COALESCE(a.system_id, ad.system_id) AS action_system_id,
+      a.systems_touched, a.responsible_role_id
+    FROM ${sequencesTable(publishedOnly)} seq
+    INNER JOIN practice_groups pg ON pg.id = seq.practice_group_id
+    INNER JOIN departments d ON d.id = pg.department_id
+    INNER JOIN systems s ON s.id = d.system_id
+    INNER JOIN ${sequenceActionsTable(publishedOnly)} sa ON sa.sequence_id = seq.id
+    INNER JOIN ${actionsTable(publishedOnly)} a ON a.id = sa.action_id
+    LEFT JOIN practice_groups apg ON apg.id = a.practice_group_id
+    LEFT JOIN departments ad ON ad.id = apg.department_id
+    WHERE s.workspace_id = $1 AND ($2::INTEGER IS NULL OR s.id = $2)
+    ORDER BY seq.id, sa.order_number
+  `;
+
+  try {
+    const result = await pool.query(query, [workspaceId, systemId]);
+    return result.rows;
+  } catch (error) {
+    handleDatabaseError(error, 'Get sequence step rows');
+  }
+}
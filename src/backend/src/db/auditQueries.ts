@@ -0,0 +1,127 @@
+/**
+ * TechLedger Audit Log Queries
+ * Append-only record of API mutations (the table rejects updates and deletes)
+ */
+
+import pool from './connection';
+import {
+  AuditLogEntry,
+  AuditLogFilters,
+  CreateAuditLogInput,
+  PaginatedResult,
+  QueryOptions,
+} from '../types/models';
+import { handleDatabaseError, safeJSONParse } from '../utils/errors';
+
+/**
+ * Parse JSONB fields on an audit log row
+ */
+function parseAuditLogEntry(row: any): AuditLogEntry {
+  row.id = parseInt(row.id);  // BIGSERIAL comes back as a string
+  row.before_state = safeJSONParse(row.before_state);
+  row.after_state = safeJSONParse(row.after_state);
+  return row;
+}
+
+/**
+ * Append an entry to the audit log
+ */
+export async function createAuditEntry(input: CreateAuditLogInput): Promise<AuditLogEntry> {
+  const query = `
+    INSERT INTO audit_log (
+      workspace_id, actor_user_id, actor_clerk_id, operation, entity_type, entity_id,
+      before_state, after_state, request_method, request_path
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+    RETURNING *
+  `;
+
+  try {
+    const result = await pool.query(query, [
+      input.workspace_id,
+      input.actor_user_id,
+      input.actor_clerk_id,
+      input.operation,
+      input.entity_type,
+      input.entity_id,
+      JSON.stringify(input.before_state ?? null),
+      JSON.stringify(input.after_state ?? null),
+      input.request_method,
+      input.request_path,
+    ]);
+    return parseAuditLogEntry(result.rows[0]);
+  } catch (error) {
+    handleDatabaseError(error, 'Audit log entry creation');
+  }
+}
+
+/**
+ * Get a workspace's audit log, newest first
+ */
+export async function getAuditLog(
+  workspaceId: number,
+  filters: AuditLogFilters = {},
+  options: QueryOptions = {}
+): Promise<PaginatedResult<AuditLogEntry>> {
+  const limit = options.limit || 50;
+  const offset = options.offset || 0;
+
+  const conditions = ['workspace_id = $1'];
+  const values: any[] = [workspaceId];
+  let paramCount = 2;
+
+  if (filters.entity_type) {
+    conditions.push(`entity_type = $${paramCount++}`);
+    values.push(filters.entity_type);
+  }
+
+  if (filters.entity_id !== undefined) {
+    conditions.push(`entity_id = $${paramCount++}`);
+    values.push(filters.entity_id);
+  }
+
+  if (filters.actor_user_id !== undefined) {
+    conditions.push(`actor_user_id = $${paramCount++}`);
+    values.push(filters.actor_user_id);
+  }
+
+  if (filters.operation) {
+    conditions.push(`operation = $${paramCount++}`);
+    values.push(filters.operation);
+  }
+
+  if (filters.from) {
+    conditions.push(`created_at >= $${paramCount++}`);
+    values.push(filters.from);
+  }
+
+  if (filters.to) {
+    conditions.push(`created_at < $${paramCount++}`);
+    values.push(filters.to);
+  }
+
+  const where = conditions.join(' AND ');
+  const countQuery = `SELECT COUNT(*) FROM audit_log WHERE ${where}`;
+  const dataQuery = `
+    SELECT * FROM audit_log
+    WHERE ${where}
+    ORDER BY created_at DESC, id DESC
+    LIMIT $${paramCount} OFFSET $${paramCount + 1}
+  `;
+
+  try {
+    const [countResult, dataResult] = await Promise.all([
+      pool.query(countQuery, values),
+      pool.query(dataQuery, [...values, limit, offset]),
+    ]);
+
+    return {
+      data: dataResult.rows.map(parseAuditLogEntry),
+      total: parseInt(countResult.rows[0].count),
+      limit,
+      offset,
+    };
+  } catch (error) {
+    handleDatabaseError(error, 'Get audit log');
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * TechLedger Automation Queries
+ * Business rules documented against a system, and the actions linked to them
+ */
+
+import pool from './connection';
+import { PaginatedResult, QueryOptions } from '../types/models';
+import {
+  ActionAutomation,
+  Automation,
+  AutomationFilters,
+  AutomationWithActions,
+  CreateActionAutomationInput,
+  CreateAutomationInput,
+  UpdateAutomationInput,
+} from '../types/automation';
+import {
+  NotFoundError,
+  handleDatabaseError,
+  assertExists,
+  safeJSONParse,
+} from '../utils/errors';
+
+// JSONB columns, written as JSON text
+const AUTOMATION_JSON_COLUMNS = ['trigger', 'conditions', 'actions', 'schedule'] as const;
+const AUTOMATION_COLUMNS = ['name', 'description', 'condition_match', 'is_active', ...AUTOMATION_JSON_COLUMNS] as const;
+
+/**
+ * Parse JSONB fields on an automation row
+ */
+function parseAutomation(row: any): Automation {
+  row.trigger = safeJSONParse(row.trigger);
+  row.conditions = safeJSONParse(row.conditions) || [];
+  row.actions = safeJSONParse(row.actions) || [];
+  row.schedule = safeJSONParse(row.schedule);
+  return row;
+}
+
+const toColumnValue = (column: string, value: any): any =>
+  (AUTOMATION_JSON_COLUMNS as readonly string[]).includes(column) && value !== null
+    ? JSON.stringify(value)
+    : value;
+
+/**
+ * Create an automation
+ */
+export async function createAutomation(input: CreateAutomationInput): Promise<Automation> {
+  const query = `
+    INSERT INTO automations (
+      system_id, name, description, trigger, conditions, condition_match,
+      actions, schedule, is_active, created_by
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+    RETURNING *
+  `;
+
+  try {
+    const result = await pool.query(query, [
+      input.system_id,
+      input.name,
+      input.description || null,
+      JSON.stringify(input.trigger),
+      JSON.stringify(input.conditions || []),
+      input.condition_match || 'all',
+      JSON.stringify(input.actions),
+      input.schedule ? JSON.stringify(input.schedule) : null,
+      input.is_active ?? true,
+      input.created_by || null,
+    ]);
+    return parseAutomation(result.rows[0]);
+  } catch (error) {
+    handleDatabaseError(error, 'Create automation');
+  }
+}
+
+/**
+ * Get an automation by ID
+ * @throws NotFoundError if not found
+ */
+export async function getAutomationById(id: number): Promise<Automation> {
+  try {
+    const result = await pool.query('SELECT * FROM automations WHERE id = $1', [id]);
+    assertExists(result.rows[0], 'Automation', id);
+    return parseAutomation(result.rows[0]);
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Get automation');
+  }
+}
+
+/**
+ * Get an automation with the actions linked to it, by action title
+ * @throws NotFoundError if not found
+ */
+export async function getAutomationWithActions(id: number): Promise<AutomationWithActions> {
+  const automation = await getAutomationById(id);
+
+  try {
+    const result = await pool.query(
+      `SELECT aa.action_id, a.title, aa.relationship, aa.notes
+       FROM action_automations aa
+       INNER JOIN actions a ON a.id = aa.action_id
+       WHERE aa.automation_id = $1
+       ORDER BY a.title, a.id`,
+      [id]
+    );
+    return { ...automation, linked_actions: result.rows };
+  } catch (error) {
+    handleDatabaseError(error, 'Get automation actions');
+  }
+}
+
+/**
+ * List a system's automations by name, optionally only one kind of trigger
+ * or only active (or inactive) ones
+ */
+export async function getAutomationsBySystemId(
+  systemId: number,
+  filters: AutomationFilters = {},
+  options: QueryOptions = {}
+): Promise<PaginatedResult<Automation>> {
+  const limit = options.limit || 50;
+  const offset = options.offset || 0;
+
+  const conditions = ['system_id = $1'];
+  const values: any[] = [systemId];
+  let paramCount = 2;
+
+  if (filters.trigger_type) {
+    conditions.push(`trigger->>'type' = $${paramCount++}`);
+    values.push(filters.trigger_type);
+  }
+
+  if (filters.is_active !== undefined) {
+    conditions.push(`is_active = $${paramCount++}`);
+    values.push(filters.is_active);
+  }
+
+  const where = conditions.join(' AND ');
+  const countQuery = `SELECT COUNT(*) FROM automations WHERE ${where}`;
+  const dataQuery = `
+    SELECT * FROM automations
+    WHERE ${where}
+    ORDER BY name, id
+    LIMIT $${paramCount} OFFSET $${paramCount + 1}
+  `;
+
+  try {
+    const [countResult, dataResult] = await Promise.all([
+      pool.query(countQuery, values),
+      pool.query(dataQuery, [...values, limit, offset]),
+    ]);
+
+    return {
+      data: dataResult.rows.map(parseAutomation),
+      total: parseInt(countResult.rows[0].count),
+      limit,
+      offset,
+    };
+  } catch (error) {
+    handleDatabaseError(error, 'Get automations');
+  }
+}
+
+/**
+ * Automations a documented action is linked to, by name
+ */
+export async function getAutomationsForAction(
+  actionId: number
+): Promise<Array<Automation & Pick<ActionAutomation, 'relationship' | 'notes'>>> {
+  const query = `
+    SELECT au.*, aa.relationship, aa.notes AS link_notes
+    FROM automations au
+    INNER JOIN action_automations aa ON aa.automation_id = au.id
+    WHERE aa.action_id = $1
+    ORDER BY au.name, au.id
+  `;
+
+  try {
+    const result = await pool.query(query, [actionId]);
+    return result.rows.map(({ relationship, link_notes, ...row }: any) => ({
+      ...parseAutomation(row),
+      relationship,
+      notes: link_notes,
+    }));
+  } catch (error) {
+    handleDatabaseError(error, 'Get automations for action');
+  }
+}
+
+/**
+ * Update an automation by ID; only the given fields change
+ */
+export async function updateAutomation(id: number, input: UpdateAutomationInput): Promise<Automation> {
+  const updates: string[] = [];
+  const values: any[] = [];
+  let paramCount = 1;
+
+  for (const column of AUTOMATION_COLUMNS) {
+    if (input[column] !== undefined) {
+      updates.push(`${column} = $${paramCount++}`);
+      values.push(toColumnValue(column, input[column]));
+    }
+  }
+
+  updates.push('updated_at = CURRENT_TIMESTAMP');
+
+  const query = `
+    UPDATE automations
+    SET ${updates.join(', ')}
+    WHERE id = $${paramCount}
+    RETURNING *
+  `;
+  values.push(id);
+
+  try {
+    const result = await pool.query(query, values);
+    assertExists(result.rows[0], 'Automation', id);
+    return parseAutomation(result.rows[0]);
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Update automation');
+  }
+}
+
+// ============================================================================
+// ACTION-AUTOMATION JUNCTION QUERIES
+// ============================================================================
+
+/**
+ * Link an action to an automation, or change how an existing link relates them
+ */
+export async function linkActionToAutomation(input: CreateActionAutomationInput): Promise<ActionAutomation> {
+  const query = `
+    INSERT INTO action_automations (action_id, automation_id, relationship, notes)
+    VALUES ($1, $2, $3, $4)
+    ON CONFLICT (action_id, automation_id) DO UPDATE SET
+      relationship = EXCLUDED.relationship,
+      notes = EXCLUDED.notes
+    RETURNING *
+  `;
+
+  try {
+    const result = await pool.query(query, [
+      input.action_id,
+      input.automation_id,
+      input.relationship || 'affects',
+      input.notes || null,
+    ]);
+    return result.rows[0];
+  } catch (error) {
+    handleDatabaseError(error, 'Link action to automation');
+  }
+}
+
+/**
+ * Unlink an action from an automation
+ */
+export async function unlinkActionFromAutomation(automationId: number, actionId: number): Promise<boolean> {
+  const query = 'DELETE FROM action_automations WHERE automation_id = $1 AND action_id = $2 RETURNING id';
+
+  try {
+    const result = await pool.query(query, [automationId, actionId]);
+    assertExists(result.rows[0], 'ActionAutomation link', `automation_id=${automationId}, action_id=${actionId}`);
+    return true;
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Unlink action from automation');
+  }
+}
@@ -0,0 +1,293 @@
+/**
+ * TechLedger Capture Session Queries
+ * Clarifying-question sessions held while documenting an action or sequence
+ */
+
+import pool from './connection';
+import {
+  CaptureField,
+  CaptureQuestion,
+  CaptureSession,
+  CaptureSessionStatus,
+  CaptureSessionWithQuestions,
+  CaptureTargetType,
+  CreateCaptureSessionInput,
+} from '../types/models';
+import {
+  NotFoundError,
+  handleDatabaseError,
+  assertExists,
+  safeJSONParse,
+} from '../utils/errors';
+import { recordActionRevision } from './actionRevisionQueries';
+import { returnToDraft } from './workflowQueries';
+
+/**
+ * Table and session column for each kind of capture target
+ */
+const CAPTURE_TARGETS: Record<CaptureTargetType, { table: string; column: string; resource: string }> = {
+  action: { table: 'actions', column: 'action_id', resource: 'Action' },
+  sequence: { table: 'action_sequences', column: 'sequence_id', resource: 'Action Sequence' },
+};
+
+/**
+ * The fields a capture session can fill in, plus a display name
+ */
+export interface CaptureTargetFields {
+  name: string;
+  frequency: string | null;
+  average_duration_minutes: number | null;
+  trigger_event: string | null;
+  responsible_role_id: number | null;
+}
+
+/**
+ * Parse JSONB fields on a capture question row
+ */
+function parseCaptureQuestion(row: any): CaptureQuestion {
+  row.answer_value = safeJSONParse(row.answer_value);
+  return row;
+}
+
+/**
+ * Which target a session is about
+ */
+export function getCaptureSessionTarget(
+  session: CaptureSession
+): { type: CaptureTargetType; id: number } {
+  return session.action_id !== null
+    ? { type: 'action', id: session.action_id }
+    : { type: 'sequence', id: session.sequence_id as number };
+}
+
+/**
+ * Get the current values of the fields a session can fill in
+ */
+export async function getCaptureTargetFields(
+  type: CaptureTargetType,
+  id: number
+): Promise<CaptureTargetFields> {
+  const target = CAPTURE_TARGETS[type];
+  const nameColumn = type === 'action' ? 'title' : 'name';
+  const query = `
+    SELECT ${nameColumn} AS name, frequency, average_duration_minutes, trigger_event, responsible_role_id
+    FROM ${target.table}
+    WHERE id = $1
+  `;
+
+  try {
+    const result = await pool.query(query, [id]);
+    assertExists(result.rows[0], target.resource, id);
+    return result.rows[0];
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Get capture target fields');
+  }
+}
+
+/**
+ * Create a session and its questions in one transaction
+ */
+export async function createCaptureSession(
+  input: CreateCaptureSessionInput
+): Promise<CaptureSessionWithQuestions> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const sessionResult = await client.query(
+      `INSERT INTO capture_sessions (action_id, sequence_id, created_by)
+       VALUES ($1, $2, $3)
+       RETURNING *`,
+      [input.action_id || null, input.sequence_id || null, input.created_by]
+    );
+    const session = sessionResult.rows[0];
+
+    const questions: CaptureQuestion[] = [];
+    for (const [index, question] of input.questions.entries()) {
+      const questionResult = await client.query(
+        `INSERT INTO capture_questions (session_id, question_key, prompt, display_order)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [session.id, question.question_key, question.prompt, index + 1]
+      );
+      questions.push(parseCaptureQuestion(questionResult.rows[0]));
+    }
+
+    await client.query('COMMIT');
+
+    return { ...session, questions };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    handleDatabaseError(error, 'Capture session creation');
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get a capture session with its questions in asking order
+ */
+export async function getCaptureSessionById(id: number): Promise<CaptureSessionWithQuestions> {
+  try {
+    const sessionResult = await pool.query('SELECT * FROM capture_sessions WHERE id = $1', [id]);
+    assertExists(sessionResult.rows[0], 'Capture Session', id);
+
+    const questionResult = await pool.query(
+      'SELECT * FROM capture_questions WHERE session_id = $1 ORDER BY display_order ASC, id ASC',
+      [id]
+    );
+
+    return {
+      ...sessionResult.rows[0],
+      questions: questionResult.rows.map(parseCaptureQuestion),
+    };
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Get capture session by ID');
+  }
+}
+
+/**
+ * Get all sessions for an action or sequence (newest first, without questions)
+ */
+export async function getCaptureSessionsByTarget(
+  type: CaptureTargetType,
+  id: number
+): Promise<CaptureSession[]> {
+  const query = `
+    SELECT * FROM capture_sessions
+    WHERE ${CAPTURE_TARGETS[type].column} = $1
+    ORDER BY created_at DESC, id DESC
+  `;
+
+  try {
+    const result = await pool.query(query, [id]);
+    return result.rows;
+  } catch (error) {
+    handleDatabaseError(error, 'Get capture sessions by target');
+  }
+}
+
+/**
+ * Get the open session for an action or sequence, if there is one
+ */
+export async function getOpenCaptureSession(
+  type: CaptureTargetType,
+  id: number
+): Promise<CaptureSession | null> {
+  const query = `
+    SELECT * FROM capture_sessions
+    WHERE ${CAPTURE_TARGETS[type].column} = $1 AND status = 'open'
+    ORDER BY created_at DESC, id DESC
+    LIMIT 1
+  `;
+
+  try {
+    const result = await pool.query(query, [id]);
+    return result.rows[0] || null;
+  } catch (error) {
+    handleDatabaseError(error, 'Get open capture session');
+  }
+}
+
+/**
+ * Record an answer and, when it mapped to a structured field, write the
+ * value to the session's action or sequence. Both happen in one transaction.
+ * @param field - Column to write `value` to, or null to store the answer only
+ * @param authorId - User answering; recorded on the action's revision
+ */
+export async function answerCaptureQuestion(
+  sessionId: number,
+  questionId: number,
+  answer: string,
+  value: unknown,
+  field: CaptureField | null,
+  authorId: number
+): Promise<CaptureQuestion> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const questionResult = await client.query(
+      `UPDATE capture_questions
+       SET answer = $1, answer_value = $2, applied_field = $3, answered_at = CURRENT_TIMESTAMP
+       WHERE id = $4 AND session_id = $5
+       RETURNING *`,
+      [answer, JSON.stringify(value ?? null), field, questionId, sessionId]
+    );
+    assertExists(questionResult.rows[0], 'Capture Question', questionId);
+
+    const sessionResult = await client.query(
+      `UPDATE capture_sessions SET updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1
+       RETURNING *`,
+      [sessionId]
+    );
+
+    if (field) {
+      const target = CAPTURE_TARGETS[getCaptureSessionTarget(sessionResult.rows[0]).type];
+      const targetId = sessionResult.rows[0][target.column];
+
+      const targetResult = await client.query(
+        `UPDATE ${target.table}
+         SET ${field} = $1, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2
+         RETURNING *`,
+        [value, targetId]
+      );
+
+      // Sequences have no revision history
+      if (target.table === 'actions' && targetResult.rows[0]) {
+        const action = targetResult.rows[0];
+        action.steps = safeJSONParse(action.steps);
+        action.screenshots = safeJSONParse(action.screenshots);
+
+        await recordActionRevision(client, action, {
+          authorId,
+          summary: `Capture session ${sessionId}: ${field}`,
+        });
+      } else {
+        await returnToDraft(client, 'action_sequence', targetId);
+      }
+    }
+
+    await client.query('COMMIT');
+
+    return parseCaptureQuestion(questionResult.rows[0]);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Answer capture question');
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Close a session as completed or abandoned
+ */
+export async function setCaptureSessionStatus(
+  id: number,
+  status: Exclude<CaptureSessionStatus, 'open'>
+): Promise<CaptureSession> {
+  const query = `
+    UPDATE capture_sessions
+    SET status = $1,
+        completed_at = CASE WHEN $1 = 'completed' THEN CURRENT_TIMESTAMP ELSE completed_at END,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = $2
+    RETURNING *
+  `;
+
+  try {
+    const result = await pool.query(query, [status, id]);
+    assertExists(result.rows[0], 'Capture Session', id);
+    return result.rows[0];
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Update capture session status');
+  }
+}
@@ -26,6 +26,7 @@ import {
   handleDatabaseError,
   assertExists,
 } from '../utils/errors';
+import { returnToDraft } from './workflowQueries';
 
 // ============================================================================
 // DEPARTMENT QUERIES
@@ -157,7 +158,8 @@ export async function updateDepartment(
 
 /**
  * Delete department by ID
- * Cascades to practice groups, actions, sequences
+ * Cascades to practice groups, actions, sequences. Permanent; use
+ * trashQueries.moveToTrash for a delete that can be undone.
  */
 export async function deleteDepartment(id: number): Promise<boolean> {
   const query = 'DELETE FROM departments WHERE id = $1 RETURNING id';
@@ -438,6 +440,7 @@ export async function getActionSequencesByPracticeGroupId(
 
 /**
  * Update action sequence by ID
+ * Like any change to the sequence or its actions, sends it back to draft
  */
 export async function updateActionSequence(
   id: number,
@@ -470,7 +473,12 @@ export async function updateActionSequence(
   try {
     const result = await pool.query(query, values);
     assertExists(result.rows[0], 'Action Sequence', id);
-    return result.rows[0];
+
+    const sequence = result.rows[0];
+    if (await returnToDraft(pool, 'action_sequence', id)) {
+      sequence.status = 'draft';
+    }
+    return sequence;
   } catch (error) {
     if (error instanceof NotFoundError) throw error;
     handleDatabaseError(error, 'Update action sequence');
@@ -517,6 +525,7 @@ export async function addActionToSequence(
       input.order_number,
       input.notes || null,
     ]);
+    await returnToDraft(pool, 'action_sequence', input.sequence_id);
     return result.rows[0];
   } catch (error) {
     handleDatabaseError(error, 'Add action to sequence');
@@ -555,6 +564,7 @@ export async function updateSequenceAction(
   try {
     const result = await pool.query(query, values);
     assertExists(result.rows[0], 'Sequence Action', id);
+    await returnToDraft(pool, 'action_sequence', result.rows[0].sequence_id);
     return result.rows[0];
   } catch (error) {
     if (error instanceof NotFoundError) throw error;
@@ -566,11 +576,12 @@ export async function updateSequenceAction(
  * Remove action from sequence
  */
 export async function removeActionFromSequence(id: number): Promise<boolean> {
-  const query = 'DELETE FROM sequence_actions WHERE id = $1 RETURNING id';
+  const query = 'DELETE FROM sequence_actions WHERE id = $1 RETURNING id, sequence_id';
 
   try {
     const result = await pool.query(query, [id]);
     assertExists(result.rows[0], 'Sequence Action', id);
+    await returnToDraft(pool, 'action_sequence', result.rows[0].sequence_id);
     return true;
   } catch (error) {
     if (error instanceof NotFoundError) throw error;
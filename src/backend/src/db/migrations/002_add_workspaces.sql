@@ -0,0 +1,97 @@
+-- Migration: Add workspaces (organizations) above users
+-- Systems, roles, tasks and links now belong to a workspace so a team can
+-- share one body of documentation. Departments, practice groups, actions,
+-- sequences and screenshots inherit their workspace through their system.
+
+-- ============================================================================
+-- WORKSPACES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS workspaces (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Workspace memberships (many-to-many between users and workspaces)
+CREATE TABLE IF NOT EXISTS workspace_members (
+    id SERIAL PRIMARY KEY,
+    workspace_id INTEGER NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    joined_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(workspace_id, user_id)
+);
+
+-- ============================================================================
+-- WORKSPACE OWNERSHIP COLUMNS
+-- ============================================================================
+
+-- user_id stays on these tables as "created by"; workspace_id decides access
+ALTER TABLE systems
+ADD COLUMN IF NOT EXISTS workspace_id INTEGER REFERENCES workspaces(id) ON DELETE CASCADE;
+
+ALTER TABLE roles
+ADD COLUMN IF NOT EXISTS workspace_id INTEGER REFERENCES workspaces(id) ON DELETE CASCADE;
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS workspace_id INTEGER REFERENCES workspaces(id) ON DELETE CASCADE;
+
+ALTER TABLE links
+ADD COLUMN IF NOT EXISTS workspace_id INTEGER REFERENCES workspaces(id) ON DELETE CASCADE;
+
+-- ============================================================================
+-- BACKFILL: one personal workspace per existing user
+-- ============================================================================
+
+INSERT INTO workspaces (name, created_by)
+SELECT u.name || '''s Workspace', u.id
+FROM users u
+WHERE NOT EXISTS (
+    SELECT 1 FROM workspace_members wm WHERE wm.user_id = u.id
+);
+
+INSERT INTO workspace_members (workspace_id, user_id)
+SELECT w.id, w.created_by
+FROM workspaces w
+WHERE w.created_by IS NOT NULL
+ON CONFLICT (workspace_id, user_id) DO NOTHING;
+
+UPDATE systems s
+SET workspace_id = w.id
+FROM workspaces w
+WHERE w.created_by = s.user_id AND s.workspace_id IS NULL;
+
+UPDATE roles r
+SET workspace_id = w.id
+FROM workspaces w
+WHERE w.created_by = r.user_id AND r.workspace_id IS NULL;
+
+UPDATE tasks t
+SET workspace_id = w.id
+FROM workspaces w
+WHERE w.created_by = t.user_id AND t.workspace_id IS NULL;
+
+UPDATE links l
+SET workspace_id = w.id
+FROM workspaces w
+WHERE w.created_by = l.created_by AND l.workspace_id IS NULL;
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON workspace_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_systems_workspace_id ON systems(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_roles_workspace_id ON roles(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_workspace_id ON tasks(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_links_workspace_id ON links(workspace_id);
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE workspaces IS 'Organization/team that owns a shared body of documentation';
+COMMENT ON TABLE workspace_members IS 'Users who belong to a workspace';
+COMMENT ON COLUMN systems.workspace_id IS 'Owning workspace - departments, practice groups and actions inherit it';
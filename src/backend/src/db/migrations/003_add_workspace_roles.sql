@@ -0,0 +1,42 @@
+-- Migration: Add workspace roles and per-system permission overrides
+-- Every member gets a role (owner, editor, viewer). A system can override a
+-- member's role for everything inside that system (e.g. an editor who may
+-- only view "Payroll", or a viewer who may edit "QuickBooks").
+
+-- ============================================================================
+-- WORKSPACE MEMBER ROLES
+-- ============================================================================
+
+ALTER TABLE workspace_members
+ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'viewer';
+
+ALTER TABLE workspace_members
+ADD CONSTRAINT valid_workspace_role CHECK (role IN ('owner', 'editor', 'viewer'));
+
+-- Workspace creators own their workspace
+UPDATE workspace_members wm
+SET role = 'owner'
+FROM workspaces w
+WHERE w.id = wm.workspace_id AND w.created_by = wm.user_id;
+
+-- ============================================================================
+-- PER-SYSTEM OVERRIDES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS system_permissions (
+    id SERIAL PRIMARY KEY,
+    system_id INTEGER NOT NULL REFERENCES systems(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    role VARCHAR(20) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(system_id, user_id),
+    -- Ownership is workspace-wide; overrides only grant or restrict editing
+    CONSTRAINT valid_system_role CHECK (role IN ('editor', 'viewer'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_system_permissions_user_id ON system_permissions(user_id);
+
+COMMENT ON COLUMN workspace_members.role IS 'owner: manage workspace and members; editor: create/edit docs; viewer: read only';
+COMMENT ON TABLE system_permissions IS 'Per-system role overrides for workspace members (ignored for owners)';
@@ -0,0 +1,23 @@
+-- Migration: Store screenshot files behind opaque storage keys
+-- Files now live in a pluggable storage backend (local disk or S3-compatible).
+-- file_path held server paths; new uploads use storage_key instead.
+
+ALTER TABLE screenshots
+ADD COLUMN IF NOT EXISTS storage_key VARCHAR(500),
+ADD COLUMN IF NOT EXISTS content_type VARCHAR(100),
+ADD COLUMN IF NOT EXISTS file_size INTEGER;
+
+ALTER TABLE screenshots
+ALTER COLUMN file_path DROP NOT NULL;
+
+-- Legacy uploads sit directly in the uploads directory, which is the local
+-- backend's default root, so the file name is their key
+UPDATE screenshots
+SET storage_key = regexp_replace(file_path, '^.*/uploads/', '')
+WHERE storage_key IS NULL AND file_path LIKE '%/uploads/%';
+
+ALTER TABLE screenshots
+ADD CONSTRAINT screenshot_has_file CHECK (storage_key IS NOT NULL OR file_path IS NOT NULL);
+
+COMMENT ON COLUMN screenshots.storage_key IS 'Opaque key in the configured storage backend';
+COMMENT ON COLUMN screenshots.file_path IS 'Deprecated: server path for screenshots registered before storage keys';
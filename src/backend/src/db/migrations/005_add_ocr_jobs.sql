@@ -0,0 +1,29 @@
+-- Migration: Add OCR job queue
+-- OCR runs in a background worker instead of inside the upload request.
+-- Workers claim jobs with FOR UPDATE SKIP LOCKED, so several can run at once.
+
+CREATE TABLE IF NOT EXISTS ocr_jobs (
+    id SERIAL PRIMARY KEY,
+    screenshot_id INTEGER NOT NULL REFERENCES screenshots(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'queued',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    run_after TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,  -- Backoff: not claimable before this
+    locked_at TIMESTAMP,                                     -- When a worker claimed it
+    last_error TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP,
+
+    CONSTRAINT valid_ocr_job_status CHECK (status IN ('queued', 'running', 'succeeded', 'failed'))
+);
+
+-- Workers look for due queued jobs
+CREATE INDEX IF NOT EXISTS idx_ocr_jobs_claim ON ocr_jobs(status, run_after);
+CREATE INDEX IF NOT EXISTS idx_ocr_jobs_screenshot_id ON ocr_jobs(screenshot_id);
+
+-- At most one pending job per screenshot, so re-running OCR is idempotent
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ocr_jobs_one_active
+ON ocr_jobs(screenshot_id) WHERE status IN ('queued', 'running');
+
+COMMENT ON TABLE ocr_jobs IS 'Background OCR work for screenshots, with retry and backoff';
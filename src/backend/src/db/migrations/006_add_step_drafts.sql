@@ -0,0 +1,22 @@
+-- Migration: Add AI-drafted step proposals
+-- A draft holds proposed steps for an action. Authors accept, edit or reject
+-- each step; applying the draft writes the accepted steps to actions.steps.
+
+CREATE TABLE IF NOT EXISTS step_drafts (
+    id SERIAL PRIMARY KEY,
+    action_id INTEGER NOT NULL REFERENCES actions(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    steps JSONB NOT NULL DEFAULT '[]',   -- DraftStep[]: proposed step + review decision
+    provider VARCHAR(50) NOT NULL,       -- LLM backend that produced the draft
+    model VARCHAR(100),
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    applied_at TIMESTAMP,
+
+    CONSTRAINT valid_step_draft_status CHECK (status IN ('pending', 'applied', 'discarded'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_step_drafts_action_id ON step_drafts(action_id);
+
+COMMENT ON TABLE step_drafts IS 'LLM-proposed action steps awaiting step-by-step review';
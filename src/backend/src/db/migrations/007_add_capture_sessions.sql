@@ -0,0 +1,72 @@
+-- Migration: Add capture sessions (clarifying questions while documenting)
+-- A session asks the author contextual questions about an action or sequence
+-- (who does this, how often, how long, what triggers it). Answers are kept
+-- verbatim and, where they map to a structured field, written back to it.
+
+-- ============================================================================
+-- STRUCTURED FIELDS FILLED FROM ANSWERS
+-- ============================================================================
+
+ALTER TABLE actions ADD COLUMN IF NOT EXISTS frequency VARCHAR(20);
+ALTER TABLE actions ADD COLUMN IF NOT EXISTS average_duration_minutes INTEGER;
+ALTER TABLE actions ADD COLUMN IF NOT EXISTS responsible_role_id INTEGER REFERENCES roles(id) ON DELETE SET NULL;
+
+ALTER TABLE action_sequences ADD COLUMN IF NOT EXISTS frequency VARCHAR(20);
+ALTER TABLE action_sequences ADD COLUMN IF NOT EXISTS average_duration_minutes INTEGER;
+ALTER TABLE action_sequences ADD COLUMN IF NOT EXISTS responsible_role_id INTEGER REFERENCES roles(id) ON DELETE SET NULL;
+
+ALTER TABLE actions ADD CONSTRAINT valid_action_frequency
+    CHECK (frequency IN ('ad_hoc', 'daily', 'weekly', 'monthly', 'quarterly', 'yearly'));
+ALTER TABLE actions ADD CONSTRAINT valid_action_duration
+    CHECK (average_duration_minutes >= 0);
+
+ALTER TABLE action_sequences ADD CONSTRAINT valid_sequence_frequency
+    CHECK (frequency IN ('ad_hoc', 'daily', 'weekly', 'monthly', 'quarterly', 'yearly'));
+ALTER TABLE action_sequences ADD CONSTRAINT valid_sequence_duration
+    CHECK (average_duration_minutes >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_actions_responsible_role_id ON actions(responsible_role_id);
+CREATE INDEX IF NOT EXISTS idx_action_sequences_responsible_role_id ON action_sequences(responsible_role_id);
+
+-- ============================================================================
+-- CAPTURE SESSIONS
+-- ============================================================================
+
+-- Exactly one of action_id / sequence_id is set
+CREATE TABLE IF NOT EXISTS capture_sessions (
+    id SERIAL PRIMARY KEY,
+    action_id INTEGER REFERENCES actions(id) ON DELETE CASCADE,
+    sequence_id INTEGER REFERENCES action_sequences(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'open',
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP,
+
+    CONSTRAINT capture_session_has_one_target CHECK ((action_id IS NULL) <> (sequence_id IS NULL)),
+    CONSTRAINT valid_capture_session_status CHECK (status IN ('open', 'completed', 'abandoned'))
+);
+
+-- Questions asked in a session and the author's answers
+CREATE TABLE IF NOT EXISTS capture_questions (
+    id SERIAL PRIMARY KEY,
+    session_id INTEGER NOT NULL REFERENCES capture_sessions(id) ON DELETE CASCADE,
+    question_key VARCHAR(50) NOT NULL,   -- owner_role, frequency, duration, trigger...
+    prompt TEXT NOT NULL,
+    display_order INTEGER NOT NULL DEFAULT 0,
+    answer TEXT,                          -- Verbatim answer
+    answer_value JSONB,                   -- Structured value parsed from the answer
+    applied_field VARCHAR(50),            -- Column the value was written to, if any
+    answered_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(session_id, question_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_capture_sessions_action_id ON capture_sessions(action_id);
+CREATE INDEX IF NOT EXISTS idx_capture_sessions_sequence_id ON capture_sessions(sequence_id);
+CREATE INDEX IF NOT EXISTS idx_capture_questions_session_id ON capture_questions(session_id);
+CREATE INDEX IF NOT EXISTS idx_capture_questions_key ON capture_questions(question_key);
+
+COMMENT ON TABLE capture_sessions IS 'Clarifying-question dialogues held while documenting an action or sequence';
+COMMENT ON TABLE capture_questions IS 'Questions asked in a capture session, with verbatim and structured answers';
@@ -0,0 +1,19 @@
+-- Migration: Add operational metadata to actions
+-- frequency, average_duration_minutes and responsible_role_id were added with
+-- capture sessions (007); this adds what triggers the work and which systems
+-- it touches, so workload can be rolled up per practice group and system.
+
+ALTER TABLE actions ADD COLUMN IF NOT EXISTS trigger_event TEXT;
+ALTER TABLE actions ADD COLUMN IF NOT EXISTS systems_touched INTEGER[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE action_sequences ADD COLUMN IF NOT EXISTS trigger_event TEXT;
+
+-- Lookups like "which actions touch system X"
+CREATE INDEX IF NOT EXISTS idx_actions_systems_touched ON actions USING GIN (systems_touched);
+CREATE INDEX IF NOT EXISTS idx_actions_frequency ON actions(frequency);
+
+COMMENT ON COLUMN actions.frequency IS 'How often the action is performed: ad_hoc, daily, weekly, monthly, quarterly or yearly';
+COMMENT ON COLUMN actions.average_duration_minutes IS 'Typical time to perform the action once';
+COMMENT ON COLUMN actions.trigger_event IS 'What starts the action (an event, request or schedule)';
+COMMENT ON COLUMN actions.responsible_role_id IS 'Role that usually performs the action';
+COMMENT ON COLUMN actions.systems_touched IS 'IDs of systems used while performing the action (besides its own)';
@@ -0,0 +1,47 @@
+-- Migration: Add full-text search indexes
+-- Expression indexes backing GET /api/search. Each expression must match the
+-- search vector in db/searchQueries.ts exactly or Postgres won't use the index.
+-- Weights: A = name/title, B = description/body text, C = secondary text.
+
+CREATE INDEX IF NOT EXISTS idx_systems_search ON systems USING GIN ((
+    setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B')
+));
+
+CREATE INDEX IF NOT EXISTS idx_departments_search ON departments USING GIN ((
+    setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B')
+));
+
+CREATE INDEX IF NOT EXISTS idx_practice_groups_search ON practice_groups USING GIN ((
+    setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B')
+));
+
+-- Step instructions and notes are indexed from the steps JSONB
+CREATE INDEX IF NOT EXISTS idx_actions_search ON actions USING GIN ((
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+    setweight(jsonb_to_tsvector('english', coalesce(steps, '[]'::jsonb), '["string"]'), 'C')
+));
+
+CREATE INDEX IF NOT EXISTS idx_screenshots_search ON screenshots USING GIN ((
+    setweight(to_tsvector('english', coalesce(original_filename, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(ocr_data->>'full_text', '')), 'B')
+));
+
+CREATE INDEX IF NOT EXISTS idx_roles_search ON roles USING GIN ((
+    setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B')
+));
+
+CREATE INDEX IF NOT EXISTS idx_tasks_search ON tasks USING GIN ((
+    setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B')
+));
+
+CREATE INDEX IF NOT EXISTS idx_links_search ON links USING GIN ((
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '') || ' ' || coalesce(notes, '')), 'B') ||
+    setweight(to_tsvector('english', url), 'C')
+));
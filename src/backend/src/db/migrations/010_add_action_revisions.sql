@@ -0,0 +1,42 @@
+-- Migration: Add action revision history
+-- Every change to an action's documented content (title, description, steps,
+-- screenshots, operational attributes) records a snapshot of the new state
+-- with its author, so a broken procedure can be compared with and restored
+-- to an earlier version.
+
+CREATE TABLE IF NOT EXISTS action_revisions (
+    id SERIAL PRIMARY KEY,
+    action_id INTEGER NOT NULL REFERENCES actions(id) ON DELETE CASCADE,
+    revision_number INTEGER NOT NULL,
+    snapshot JSONB NOT NULL,                         -- ActionSnapshot after the change
+    changed_fields TEXT[] NOT NULL DEFAULT '{}',     -- Compared with the previous revision
+    summary VARCHAR(255),
+    restored_from_revision INTEGER,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT unique_action_revision UNIQUE (action_id, revision_number)
+);
+
+-- Existing actions start their history from their current state
+INSERT INTO action_revisions (action_id, revision_number, snapshot, summary, created_at)
+SELECT
+    id,
+    1,
+    jsonb_build_object(
+        'title', title,
+        'description', description,
+        'steps', steps,
+        'screenshots', screenshots,
+        'frequency', frequency,
+        'average_duration_minutes', average_duration_minutes,
+        'trigger_event', trigger_event,
+        'responsible_role_id', responsible_role_id,
+        'systems_touched', to_jsonb(systems_touched)
+    ),
+    'History starts here',
+    updated_at
+FROM actions
+ON CONFLICT (action_id, revision_number) DO NOTHING;
+
+COMMENT ON TABLE action_revisions IS 'Snapshots of action content after each change, for history, diff and restore';
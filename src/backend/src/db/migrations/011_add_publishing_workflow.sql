@@ -0,0 +1,68 @@
+-- Migration: Add draft / review / publish workflow
+-- Actions and sequences move through draft → in_review → published (or back
+-- to draft with requested changes), and can be archived. Viewers see the
+-- last published version while editors keep working on the current one:
+-- for actions that is a revision (010); sequences have no revision history,
+-- so their published content is kept as a snapshot.
+
+ALTER TABLE actions ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'draft';
+ALTER TABLE actions ADD COLUMN IF NOT EXISTS reviewer_id INTEGER REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE actions ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMP;
+ALTER TABLE actions ADD COLUMN IF NOT EXISTS reviewed_by INTEGER REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE actions ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP;
+ALTER TABLE actions ADD COLUMN IF NOT EXISTS review_notes TEXT;
+ALTER TABLE actions ADD COLUMN IF NOT EXISTS published_revision INTEGER;
+ALTER TABLE actions ADD COLUMN IF NOT EXISTS published_at TIMESTAMP;
+
+ALTER TABLE action_sequences ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'draft';
+ALTER TABLE action_sequences ADD COLUMN IF NOT EXISTS reviewer_id INTEGER REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE action_sequences ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMP;
+ALTER TABLE action_sequences ADD COLUMN IF NOT EXISTS reviewed_by INTEGER REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE action_sequences ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP;
+ALTER TABLE action_sequences ADD COLUMN IF NOT EXISTS review_notes TEXT;
+ALTER TABLE action_sequences ADD COLUMN IF NOT EXISTS published_snapshot JSONB;
+ALTER TABLE action_sequences ADD COLUMN IF NOT EXISTS published_at TIMESTAMP;
+
+ALTER TABLE actions DROP CONSTRAINT IF EXISTS valid_action_status;
+ALTER TABLE actions ADD CONSTRAINT valid_action_status
+    CHECK (status IN ('draft', 'in_review', 'published', 'archived'));
+
+ALTER TABLE action_sequences DROP CONSTRAINT IF EXISTS valid_sequence_status;
+ALTER TABLE action_sequences ADD CONSTRAINT valid_sequence_status
+    CHECK (status IN ('draft', 'in_review', 'published', 'archived'));
+
+-- Review queues
+CREATE INDEX IF NOT EXISTS idx_actions_reviewer ON actions(reviewer_id) WHERE status = 'in_review';
+CREATE INDEX IF NOT EXISTS idx_action_sequences_reviewer ON action_sequences(reviewer_id) WHERE status = 'in_review';
+
+-- Everything documented before this migration was already live: publish it as it stands
+UPDATE actions a
+SET status = 'published',
+    published_revision = (SELECT MAX(r.revision_number) FROM action_revisions r WHERE r.action_id = a.id),
+    published_at = a.updated_at
+WHERE a.published_revision IS NULL AND a.status = 'draft';
+
+UPDATE action_sequences seq
+SET status = 'published',
+    published_snapshot = jsonb_build_object(
+        'name', seq.name,
+        'description', seq.description,
+        'frequency', seq.frequency,
+        'average_duration_minutes', seq.average_duration_minutes,
+        'trigger_event', seq.trigger_event,
+        'responsible_role_id', seq.responsible_role_id,
+        'actions', COALESCE((
+            SELECT jsonb_agg(
+                jsonb_build_object('action_id', sa.action_id, 'order_number', sa.order_number, 'notes', sa.notes)
+                ORDER BY sa.order_number
+            )
+            FROM sequence_actions sa
+            WHERE sa.sequence_id = seq.id
+        ), '[]'::jsonb)
+    ),
+    published_at = seq.updated_at
+WHERE seq.published_snapshot IS NULL AND seq.status = 'draft';
+
+COMMENT ON COLUMN actions.status IS 'Lifecycle: draft, in_review, published or archived';
+COMMENT ON COLUMN actions.published_revision IS 'action_revisions.revision_number viewers see; NULL = not published';
+COMMENT ON COLUMN action_sequences.published_snapshot IS 'Sequence content as of its last approval; NULL = not published';
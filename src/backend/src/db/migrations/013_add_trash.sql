@@ -0,0 +1,30 @@
+-- Migration: Add trash
+-- Deleting an entity through the API moves it here instead of losing it to
+-- the ON DELETE CASCADE chain. Each item holds every row the delete removed
+-- (the entity, its subtree and the junction rows pointing at them), keyed by
+-- table, so a restore can put them back with their original IDs. Items are
+-- purged once older than the retention period (TRASH_RETENTION_DAYS).
+
+CREATE TABLE IF NOT EXISTS trash (
+    id SERIAL PRIMARY KEY,
+    workspace_id INTEGER REFERENCES workspaces(id) ON DELETE CASCADE,
+    system_id INTEGER,                    -- System the entity lived in, if any (may itself be gone)
+    entity_type VARCHAR(50) NOT NULL,
+    entity_id INTEGER NOT NULL,
+    label VARCHAR(255),                   -- Name or title at the time of deletion
+    contents JSONB NOT NULL,              -- { table: [row, ...] }
+    row_counts JSONB NOT NULL,            -- { table: count }
+    nullified JSONB NOT NULL DEFAULT '[]', -- References outside the subtree the delete set to NULL
+    deleted_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    deleted_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT valid_trash_entity_type CHECK (entity_type IN (
+        'system', 'department', 'practice_group', 'action', 'action_sequence',
+        'screenshot', 'role', 'task', 'link'
+    ))
+);
+
+CREATE INDEX IF NOT EXISTS idx_trash_workspace_deleted ON trash(workspace_id, deleted_at DESC);
+CREATE INDEX IF NOT EXISTS idx_trash_deleted_at ON trash(deleted_at);
+
+COMMENT ON TABLE trash IS 'Deleted entities with their subtrees, restorable until purged';
@@ -0,0 +1,41 @@
+-- Migration: Add Zoho CRM workflows
+-- Workflow rules imported from Zoho CRM (in the format described in
+-- docs/sort-these-files/zoho-workflow-json-schema.md) and documented against
+-- the system they run in. The rule is kept as imported; the fields it reads
+-- and writes and the functions it calls are extracted so rules can be found
+-- by what they touch.
+
+CREATE TABLE IF NOT EXISTS zoho_workflows (
+    id SERIAL PRIMARY KEY,
+    system_id INTEGER NOT NULL REFERENCES systems(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    module VARCHAR(100) NOT NULL,
+    trigger_type VARCHAR(30) NOT NULL,
+    definition JSONB NOT NULL,
+    fields_read TEXT[] NOT NULL DEFAULT '{}',
+    fields_written TEXT[] NOT NULL DEFAULT '{}',
+    functions_called TEXT[] NOT NULL DEFAULT '{}',
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    -- Re-importing a rule replaces it
+    CONSTRAINT unique_zoho_workflow_name UNIQUE (system_id, name),
+    CONSTRAINT valid_zoho_workflow_trigger_type CHECK (trigger_type IN (
+        'on_create', 'on_edit', 'on_create_or_edit', 'on_field_modify', 'other'
+    ))
+);
+
+CREATE INDEX IF NOT EXISTS idx_zoho_workflows_system_id ON zoho_workflows(system_id);
+CREATE INDEX IF NOT EXISTS idx_zoho_workflows_fields_read ON zoho_workflows USING GIN (fields_read);
+CREATE INDEX IF NOT EXISTS idx_zoho_workflows_fields_written ON zoho_workflows USING GIN (fields_written);
+
+-- Workflows can be deleted to the trash like other documentation
+ALTER TABLE trash DROP CONSTRAINT IF EXISTS valid_trash_entity_type;
+ALTER TABLE trash ADD CONSTRAINT valid_trash_entity_type CHECK (entity_type IN (
+    'system', 'department', 'practice_group', 'action', 'action_sequence',
+    'screenshot', 'role', 'task', 'link', 'zoho_workflow'
+));
+
+COMMENT ON TABLE zoho_workflows IS 'Zoho CRM workflow rules documented against a system';
+COMMENT ON COLUMN zoho_workflows.definition IS 'The rule as imported: trigger, conditions with criteria, actions';
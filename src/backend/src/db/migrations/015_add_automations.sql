@@ -0,0 +1,56 @@
+-- Migration: Add automations
+-- Business rules a system runs by itself (workflow rules, scheduled jobs,
+-- webhooks...), documented against that system: what sets them off, what
+-- they check, what they do and, for scheduled ones, when. Documented actions
+-- link to the automations they set off or are affected by.
+
+CREATE TABLE IF NOT EXISTS automations (
+    id SERIAL PRIMARY KEY,
+    system_id INTEGER NOT NULL REFERENCES systems(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    trigger JSONB NOT NULL,
+    conditions JSONB NOT NULL DEFAULT '[]',
+    condition_match VARCHAR(3) NOT NULL DEFAULT 'all',
+    actions JSONB NOT NULL DEFAULT '[]',
+    schedule JSONB,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT valid_automation_condition_match CHECK (condition_match IN ('all', 'any')),
+    -- A schedule goes with a schedule trigger, and only with one
+    CONSTRAINT automation_schedule_matches_trigger CHECK (
+        (trigger->>'type' = 'schedule') = (schedule IS NOT NULL)
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_automations_system_id ON automations(system_id);
+CREATE INDEX IF NOT EXISTS idx_automations_trigger_type ON automations((trigger->>'type'));
+
+CREATE TABLE IF NOT EXISTS action_automations (
+    id SERIAL PRIMARY KEY,
+    action_id INTEGER NOT NULL REFERENCES actions(id) ON DELETE CASCADE,
+    automation_id INTEGER NOT NULL REFERENCES automations(id) ON DELETE CASCADE,
+    relationship VARCHAR(20) NOT NULL DEFAULT 'affects',
+    notes TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT unique_action_automation UNIQUE (action_id, automation_id),
+    CONSTRAINT valid_action_automation_relationship CHECK (relationship IN ('triggers', 'affects'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_action_automations_automation_id ON action_automations(automation_id);
+
+-- Automations can be deleted to the trash like other documentation
+ALTER TABLE trash DROP CONSTRAINT IF EXISTS valid_trash_entity_type;
+ALTER TABLE trash ADD CONSTRAINT valid_trash_entity_type CHECK (entity_type IN (
+    'system', 'department', 'practice_group', 'action', 'action_sequence',
+    'screenshot', 'role', 'task', 'link', 'zoho_workflow', 'automation'
+));
+
+COMMENT ON TABLE automations IS 'Business rules a system runs by itself, documented against that system';
+COMMENT ON COLUMN automations.trigger IS 'What sets it off: type (record_created, field_changed, schedule...), record type, fields';
+COMMENT ON COLUMN automations.actions IS 'What it does, in order: field updates, emails, function calls...';
+COMMENT ON TABLE action_automations IS 'Documented actions that set off (triggers) or are affected by (affects) an automation';
@@ -0,0 +1,46 @@
+-- Migration: Add screenshot drift checks
+-- When a vendor changes its UI the screenshots (and the steps written
+-- against them) go stale without anyone noticing. A drift check takes a
+-- fresh capture of the same screen, OCRs it and compares its labels and
+-- layout with the stored screenshot's ocr_data. If anything was added,
+-- removed or moved, every action showing the screenshot is flagged as
+-- possibly outdated until someone accepts the new capture or dismisses
+-- the check.
+
+CREATE TABLE IF NOT EXISTS screenshot_drift_checks (
+    id SERIAL PRIMARY KEY,
+    screenshot_id INTEGER NOT NULL REFERENCES screenshots(id) ON DELETE CASCADE,
+    -- The fresh capture; after an accept, the capture it replaced (NULL if
+    -- that one only had a legacy file_path, which is left where it is)
+    storage_key TEXT,
+    content_type VARCHAR(100),
+    file_size INTEGER,
+    original_filename VARCHAR(255),
+    ocr_data JSONB NOT NULL,
+    report JSONB NOT NULL,
+    has_drift BOOLEAN NOT NULL,
+    affected_action_ids INTEGER[] NOT NULL DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'open',
+    checked_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    checked_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    resolved_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    resolved_at TIMESTAMP,
+
+    CONSTRAINT valid_drift_check_status CHECK (status IN ('open', 'accepted', 'dismissed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_drift_checks_screenshot_id ON screenshot_drift_checks(screenshot_id);
+CREATE INDEX IF NOT EXISTS idx_drift_checks_open_affected
+    ON screenshot_drift_checks USING GIN (affected_action_ids)
+    WHERE status = 'open' AND has_drift;
+
+-- Set while any open check with drift covers the action
+ALTER TABLE actions ADD COLUMN IF NOT EXISTS possibly_outdated_since TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_actions_possibly_outdated
+    ON actions(possibly_outdated_since) WHERE possibly_outdated_since IS NOT NULL;
+
+COMMENT ON TABLE screenshot_drift_checks IS 'Fresh captures of a screenshot''s screen, compared with its stored OCR';
+COMMENT ON COLUMN screenshot_drift_checks.report IS 'Labels added, removed and moved since the stored capture';
+COMMENT ON COLUMN screenshot_drift_checks.affected_action_ids IS 'Actions showing the screenshot when the check ran';
+COMMENT ON COLUMN actions.possibly_outdated_since IS 'When a drift check first found its screenshots changed; NULL = not flagged';
@@ -0,0 +1,42 @@
+-- Migration: Add screenshot annotations
+-- Screenshots only carried an optional caption in the action's screenshot
+-- list. Annotations are marks drawn over the image: numbered callouts
+-- pointing at the control each step uses, arrows, highlight rectangles, and
+-- blur or redaction boxes hiding what shouldn't be shared. The stored image
+-- is never changed; exports render an annotated copy.
+
+CREATE TABLE IF NOT EXISTS screenshot_annotations (
+    id SERIAL PRIMARY KEY,
+    screenshot_id INTEGER NOT NULL REFERENCES screenshots(id) ON DELETE CASCADE,
+    type VARCHAR(20) NOT NULL,
+    step_number INTEGER,
+    -- Image pixels: the callout's centre, the arrow's tail, or the
+    -- rectangle's top-left corner
+    x INTEGER NOT NULL,
+    y INTEGER NOT NULL,
+    width INTEGER,
+    height INTEGER,
+    end_x INTEGER,
+    end_y INTEGER,
+    color VARCHAR(7),
+    note TEXT,
+    display_order INTEGER NOT NULL DEFAULT 0,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT valid_annotation_type CHECK (type IN ('callout', 'arrow', 'highlight', 'blur', 'redact')),
+    CONSTRAINT valid_annotation_color CHECK (color IS NULL OR color ~ '^#[0-9A-Fa-f]{6}$'),
+    CONSTRAINT callout_has_step CHECK ((type = 'callout') = (step_number IS NOT NULL)),
+    CONSTRAINT arrow_has_end CHECK ((type = 'arrow') = (end_x IS NOT NULL AND end_y IS NOT NULL)),
+    CONSTRAINT box_has_size CHECK (
+        (type IN ('highlight', 'blur', 'redact')) = (width IS NOT NULL AND height IS NOT NULL)
+    ),
+    CONSTRAINT positive_annotation_size CHECK (width IS NULL OR (width > 0 AND height > 0))
+);
+
+CREATE INDEX IF NOT EXISTS idx_screenshot_annotations_screenshot_id
+    ON screenshot_annotations(screenshot_id, display_order);
+
+COMMENT ON TABLE screenshot_annotations IS 'Callouts, arrows, highlights and blur/redaction boxes drawn over a screenshot';
+COMMENT ON COLUMN screenshot_annotations.step_number IS 'Callouts only: the ActionStep.step_number the marker shows';
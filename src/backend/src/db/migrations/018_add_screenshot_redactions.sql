@@ -0,0 +1,41 @@
+-- Migration: Add screenshot redactions
+-- Screenshots of CRMs and accounting tools routinely show customer emails,
+-- phone numbers, card numbers and API keys. Once OCR has run, its word
+-- boxes are scanned for these and each match is stored as a region. A copy
+-- of the image with the regions blacked out is what gets served and
+-- exported; the original stays in storage for workspace owners.
+
+CREATE TABLE IF NOT EXISTS screenshot_redactions (
+    id SERIAL PRIMARY KEY,
+    screenshot_id INTEGER NOT NULL REFERENCES screenshots(id) ON DELETE CASCADE,
+    kind VARCHAR(20) NOT NULL,
+    x INTEGER NOT NULL,
+    y INTEGER NOT NULL,
+    width INTEGER NOT NULL,
+    height INTEGER NOT NULL,
+    preview VARCHAR(100) NOT NULL,
+    -- Set when someone marks the match as a false positive; the region is
+    -- then left visible, and stays so when the screenshot is scanned again
+    dismissed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    dismissed_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT valid_redaction_kind CHECK (kind IN ('email', 'phone', 'card', 'token')),
+    CONSTRAINT positive_redaction_size CHECK (width > 0 AND height > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_screenshot_redactions_screenshot_id ON screenshot_redactions(screenshot_id);
+
+-- NULL until the screenshot has been scanned (OCR still pending, or the
+-- image just changed)
+ALTER TABLE screenshots ADD COLUMN IF NOT EXISTS redaction_status VARCHAR(20);
+ALTER TABLE screenshots ADD COLUMN IF NOT EXISTS redacted_storage_key TEXT;
+ALTER TABLE screenshots ADD COLUMN IF NOT EXISTS redacted_at TIMESTAMP;
+
+ALTER TABLE screenshots ADD CONSTRAINT valid_redaction_status
+    CHECK (redaction_status IS NULL OR redaction_status IN ('clean', 'redacted', 'unrenderable'));
+
+COMMENT ON TABLE screenshot_redactions IS 'Sensitive text found in a screenshot by scanning its OCR words';
+COMMENT ON COLUMN screenshot_redactions.preview IS 'The match with most of it masked, e.g. jo•••••••om';
+COMMENT ON COLUMN screenshots.redaction_status IS 'clean = nothing found, redacted = redacted_storage_key hides it, unrenderable = found but the format can''t be drawn on';
+COMMENT ON COLUMN screenshots.redacted_storage_key IS 'Copy of the image with sensitive regions blacked out (PNG)';
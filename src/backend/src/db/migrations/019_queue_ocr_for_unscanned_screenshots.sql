@@ -0,0 +1,13 @@
+-- Migration: Queue OCR for screenshots that can't be scanned yet
+-- Screenshots are only shown to non-owners once they've been scanned for
+-- sensitive text, and scanning needs OCR data. Screenshots from before
+-- OCR ran on every upload have none, so they get OCR now and are scanned
+-- when it finishes. Ones that already have OCR data are scanned by the
+-- server at startup.
+
+INSERT INTO ocr_jobs (screenshot_id)
+SELECT id FROM screenshots
+WHERE redaction_status IS NULL
+  AND (ocr_data IS NULL OR ocr_data = 'null'::jsonb)
+ON CONFLICT (screenshot_id) WHERE status IN ('queued', 'running')
+DO NOTHING;
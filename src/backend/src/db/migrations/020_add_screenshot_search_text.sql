@@ -0,0 +1,21 @@
+-- Migration: Search screenshots by their masked OCR text
+-- Search indexed the raw OCR text, so searching for an email or card number
+-- found the screenshots showing it, and snippets quoted it. Screenshots are
+-- now searched by a copy of the text with sensitive text masked, written
+-- when the screenshot is scanned; until then it isn't searchable by text.
+
+ALTER TABLE screenshots ADD COLUMN IF NOT EXISTS ocr_search_text TEXT;
+
+DROP INDEX IF EXISTS idx_screenshots_search;
+
+CREATE INDEX IF NOT EXISTS idx_screenshots_search ON screenshots USING GIN ((
+    setweight(to_tsvector('english', coalesce(original_filename, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(ocr_search_text, '')), 'B')
+));
+
+-- Scanned again (by the server at startup, or when next shown) to fill it in
+UPDATE screenshots
+SET redaction_status = NULL
+WHERE ocr_data IS NOT NULL AND ocr_data <> 'null'::jsonb;
+
+COMMENT ON COLUMN screenshots.ocr_search_text IS 'OCR full text with sensitive text masked; what search indexes and quotes';
@@ -0,0 +1,220 @@
+/**
+ * TechLedger OCR Job Queries
+ * Postgres-backed queue for background OCR work
+ */
+
+import pool from './connection';
+import { OcrJob } from '../types/models';
+import {
+  NotFoundError,
+  DatabaseError,
+  handleDatabaseError,
+  assertExists,
+} from '../utils/errors';
+
+// ============================================================================
+// ENQUEUE
+// ============================================================================
+
+// Tries at queueing before giving up; each retry means an active job
+// finished between the insert and the lookup
+const ENQUEUE_ATTEMPTS = 3;
+
+/**
+ * Queue OCR for a screenshot
+ * If the screenshot already has a queued or running job, that job is
+ * returned instead of creating a second one
+ */
+export async function enqueueOcrJob(screenshotId: number): Promise<OcrJob> {
+  const insertQuery = `
+    INSERT INTO ocr_jobs (screenshot_id)
+    VALUES ($1)
+    ON CONFLICT (screenshot_id) WHERE status IN ('queued', 'running')
+    DO NOTHING
+    RETURNING *
+  `;
+  const activeQuery = `
+    SELECT * FROM ocr_jobs
+    WHERE screenshot_id = $1 AND status IN ('queued', 'running')
+  `;
+
+  try {
+    for (let attempt = 0; attempt < ENQUEUE_ATTEMPTS; attempt++) {
+      const inserted = await pool.query(insertQuery, [screenshotId]);
+      if (inserted.rows[0]) {
+        return inserted.rows[0];
+      }
+
+      // The job that blocked the insert may have finished since
+      const active = await pool.query(activeQuery, [screenshotId]);
+      if (active.rows[0]) {
+        return active.rows[0];
+      }
+    }
+
+    throw new DatabaseError(`Could not queue OCR for screenshot ${screenshotId}`);
+  } catch (error) {
+    handleDatabaseError(error, 'OCR job');
+  }
+}
+
+/**
+ * Queue OCR for every screenshot of an action
+ */
+export async function enqueueOcrJobsForAction(actionId: number): Promise<OcrJob[]> {
+  const query = 'SELECT id FROM screenshots WHERE action_id = $1 ORDER BY id';
+
+  try {
+    const result = await pool.query(query, [actionId]);
+    const jobs: OcrJob[] = [];
+
+    for (const row of result.rows) {
+      jobs.push(await enqueueOcrJob(row.id));
+    }
+
+    return jobs;
+  } catch (error) {
+    handleDatabaseError(error, 'Queue OCR for action');
+  }
+}
+
+// ============================================================================
+// WORKER OPERATIONS
+// ============================================================================
+
+/**
+ * Claim the next due job, marking it running
+ * SKIP LOCKED lets several workers poll without handing out the same job
+ * @returns The claimed job, or null if none are due
+ */
+export async function claimNextOcrJob(): Promise<OcrJob | null> {
+  const query = `
+    UPDATE ocr_jobs
+    SET status = 'running',
+        attempts = attempts + 1,
+        locked_at = CURRENT_TIMESTAMP,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = (
+      SELECT id FROM ocr_jobs
+      WHERE status = 'queued' AND run_after <= CURRENT_TIMESTAMP
+      ORDER BY run_after ASC, id ASC
+      FOR UPDATE SKIP LOCKED
+      LIMIT 1
+    )
+    RETURNING *
+  `;
+
+  try {
+    const result = await pool.query(query);
+    return result.rows[0] || null;
+  } catch (error) {
+    handleDatabaseError(error, 'Claim OCR job');
+  }
+}
+
+/**
+ * Mark a job as succeeded
+ */
+export async function completeOcrJob(id: number): Promise<OcrJob> {
+  const query = `
+    UPDATE ocr_jobs
+    SET status = 'succeeded',
+        locked_at = NULL,
+        last_error = NULL,
+        completed_at = CURRENT_TIMESTAMP,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = $1
+    RETURNING *
+  `;
+
+  try {
+    const result = await pool.query(query, [id]);
+    assertExists(result.rows[0], 'OCR job', id);
+    return result.rows[0];
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Complete OCR job');
+  }
+}
+
+/**
+ * Record a failed attempt
+ * The job is re-queued after `retryDelaySeconds` until it runs out of
+ * attempts, then marked failed for good
+ */
+export async function failOcrJob(
+  id: number,
+  errorMessage: string,
+  retryDelaySeconds: number
+): Promise<OcrJob> {
+  const query = `
+    UPDATE ocr_jobs
+    SET status = CASE WHEN attempts >= max_attempts THEN 'failed' ELSE 'queued' END,
+        completed_at = CASE WHEN attempts >= max_attempts THEN CURRENT_TIMESTAMP ELSE NULL END,
+        run_after = CURRENT_TIMESTAMP + make_interval(secs => $3),
+        last_error = $2,
+        locked_at = NULL,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = $1
+    RETURNING *
+  `;
+
+  try {
+    const result = await pool.query(query, [id, errorMessage, retryDelaySeconds]);
+    assertExists(result.rows[0], 'OCR job', id);
+    return result.rows[0];
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Fail OCR job');
+  }
+}
+
+/**
+ * Put back jobs whose worker died mid-run (e.g. the server restarted)
+ * @returns Number of jobs recovered
+ */
+export async function requeueStaleOcrJobs(staleAfterSeconds: number): Promise<number> {
+  const query = `
+    UPDATE ocr_jobs
+    SET status = CASE WHEN attempts >= max_attempts THEN 'failed' ELSE 'queued' END,
+        completed_at = CASE WHEN attempts >= max_attempts THEN CURRENT_TIMESTAMP ELSE NULL END,
+        last_error = COALESCE(last_error, 'Worker stopped before finishing'),
+        locked_at = NULL,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE status = 'running'
+      AND locked_at < CURRENT_TIMESTAMP - make_interval(secs => $1)
+  `;
+
+  try {
+    const result = await pool.query(query, [staleAfterSeconds]);
+    return result.rowCount ?? 0;
+  } catch (error) {
+    handleDatabaseError(error, 'Requeue stale OCR jobs');
+  }
+}
+
+// ============================================================================
+// STATUS
+// ============================================================================
+
+/**
+ * Get the most recent OCR job for a screenshot
+ * @returns Job or null if OCR was never queued for it
+ */
+export async function getLatestOcrJobForScreenshot(
+  screenshotId: number
+): Promise<OcrJob | null> {
+  const query = `
+    SELECT * FROM ocr_jobs
+    WHERE screenshot_id = $1
+    ORDER BY created_at DESC, id DESC
+    LIMIT 1
+  `;
+
+  try {
+    const result = await pool.query(query, [screenshotId]);
+    return result.rows[0] || null;
+  } catch (error) {
+    handleDatabaseError(error, 'Get OCR job for screenshot');
+  }
+}
@@ -10,6 +10,7 @@
  */
 
 import pool from '../db/connection';
+import { getStorage } from '../services/storage';
 import {
   User,
   CreateUserInput,
@@ -20,6 +21,7 @@ import {
   Action,
   CreateActionInput,
   UpdateActionInput,
+  ActionScreenshotRef,
   Screenshot,
   CreateScreenshotInput,
   UpdateScreenshotInput,
@@ -36,7 +38,9 @@ import {
   TaskAction,
   CreateTaskActionInput,
   UpdateTaskActionInput,
+  RevisionContext,
 } from '../types/models';
+import { recordActionRevision } from './actionRevisionQueries';
 
 import {
   NotFoundError,
@@ -258,13 +262,14 @@ export async function deleteUser(id: number): Promise<boolean> {
  */
 export async function createSystem(input: CreateSystemInput): Promise<System> {
   const query = `
-    INSERT INTO systems (user_id, name, description)
-    VALUES ($1, $2, $3)
+    INSERT INTO systems (workspace_id, user_id, name, description)
+    VALUES ($1, $2, $3, $4)
     RETURNING *
   `;
 
   try {
     const result = await pool.query(query, [
+      input.workspace_id,
       input.user_id,
       input.name,
       input.description || null,
@@ -291,6 +296,43 @@ export async function getSystemById(id: number): Promise<System> {
   }
 }
 
+/**
+ * Get all systems for a workspace
+ */
+export async function getSystemsByWorkspaceId(
+  workspaceId: number,
+  options: QueryOptions = {}
+): Promise<PaginatedResult<System>> {
+  const limit = options.limit || 50;
+  const offset = options.offset || 0;
+  const orderBy = options.orderBy || 'created_at';
+  const orderDirection = options.orderDirection || 'DESC';
+
+  const countQuery = 'SELECT COUNT(*) FROM systems WHERE workspace_id = $1';
+  const dataQuery = `
+    SELECT * FROM systems
+    WHERE workspace_id = $1
+    ORDER BY ${orderBy} ${orderDirection}
+    LIMIT $2 OFFSET $3
+  `;
+
+  try {
+    const [countResult, dataResult] = await Promise.all([
+      pool.query(countQuery, [workspaceId]),
+      pool.query(dataQuery, [workspaceId, limit, offset]),
+    ]);
+
+    return {
+      data: dataResult.rows,
+      total: parseInt(countResult.rows[0].count),
+      limit,
+      offset,
+    };
+  } catch (error) {
+    handleDatabaseError(error, 'Get systems by workspace');
+  }
+}
+
 /**
  * Get all systems for a user
  */
@@ -371,7 +413,9 @@ export async function updateSystem(
 
 /**
  * Delete system by ID
- * NOTE: This will cascade delete all associated actions and screenshots
+ * NOTE: This will cascade delete all associated actions and screenshots.
+ * Permanent - the API's deletes go through trashQueries.moveToTrash so they
+ * can be undone; the same applies to the other delete functions here.
  */
 export async function deleteSystem(id: number): Promise<boolean> {
   const query = 'DELETE FROM systems WHERE id = $1 RETURNING id';
@@ -391,19 +435,29 @@ export async function deleteSystem(id: number): Promise<boolean> {
 // ============================================================================
 
 /**
- * Create a new action
+ * Create a new action and record its first revision
  * NOTE: JSONB fields are automatically serialized by pg library
  * NOTE: Must have either system_id OR practice_group_id
  */
-export async function createAction(input: CreateActionInput): Promise<Action> {
+export async function createAction(
+  input: CreateActionInput,
+  revision: RevisionContext = {}
+): Promise<Action> {
   const query = `
-    INSERT INTO actions (system_id, practice_group_id, title, description, steps, screenshots, display_order)
-    VALUES ($1, $2, $3, $4, $5, $6, $7)
+    INSERT INTO actions (
+      system_id, practice_group_id, title, description, steps, screenshots, display_order,
+      frequency, average_duration_minutes, trigger_event, responsible_role_id, systems_touched
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
     RETURNING *
   `;
 
+  const client = await pool.connect();
+
   try {
-    const result = await pool.query(query, [
+    await client.query('BEGIN');
+
+    const result = await client.query(query, [
       input.system_id || null,
       input.practice_group_id || null,
       input.title,
@@ -411,16 +465,28 @@ export async function createAction(input: CreateActionInput): Promise<Action> {
       JSON.stringify(input.steps || null),
       JSON.stringify(input.screenshots || null),
       input.display_order || 0,
+      input.frequency || null,
+      input.average_duration_minutes ?? null,
+      input.trigger_event || null,
+      input.responsible_role_id || null,
+      input.systems_touched || [],
     ]);
     
     const action = result.rows[0];
     // Parse JSONB fields
     action.steps = safeJSONParse(action.steps);
     action.screenshots = safeJSONParse(action.screenshots);
+
+    await recordActionRevision(client, action, revision);
+
+    await client.query('COMMIT');
     
     return action;
   } catch (error) {
+    await client.query('ROLLBACK');
     handleDatabaseError(error, 'Action creation');
+  } finally {
+    client.release();
   }
 }
 
@@ -491,11 +557,55 @@ export async function getActionsBySystemId(
 }
 
 /**
- * Update action by ID
+ * Get all actions in a practice group, in display order
+ */
+export async function getActionsByPracticeGroupId(
+  practiceGroupId: number,
+  options: QueryOptions = {}
+): Promise<PaginatedResult<Action>> {
+  const limit = options.limit || 50;
+  const offset = options.offset || 0;
+  const orderBy = options.orderBy || 'display_order';
+  const orderDirection = options.orderDirection || 'ASC';
+
+  const countQuery = 'SELECT COUNT(*) FROM actions WHERE practice_group_id = $1';
+  const dataQuery = `
+    SELECT * FROM actions
+    WHERE practice_group_id = $1
+    ORDER BY ${orderBy} ${orderDirection}, id ASC
+    LIMIT $2 OFFSET $3
+  `;
+
+  try {
+    const [countResult, dataResult] = await Promise.all([
+      pool.query(countQuery, [practiceGroupId]),
+      pool.query(dataQuery, [practiceGroupId, limit, offset]),
+    ]);
+
+    const actions = dataResult.rows.map((action: any) => ({
+      ...action,
+      steps: safeJSONParse(action.steps),
+      screenshots: safeJSONParse(action.screenshots),
+    }));
+
+    return {
+      data: actions,
+      total: parseInt(countResult.rows[0].count),
+      limit,
+      offset,
+    };
+  } catch (error) {
+    handleDatabaseError(error, 'Get actions by practice group');
+  }
+}
+
+/**
+ * Update action by ID and record the change in its revision history
  */
 export async function updateAction(
   id: number,
-  input: UpdateActionInput
+  input: UpdateActionInput,
+  revision: RevisionContext = {}
 ): Promise<Action> {
   const updates: string[] = [];
   const values: any[] = [];
@@ -521,6 +631,32 @@ export async function updateAction(
     values.push(JSON.stringify(input.screenshots));
   }
 
+  // Operational attributes (null clears them)
+  if (input.frequency !== undefined) {
+    updates.push(`frequency = $${paramCount++}`);
+    values.push(input.frequency);
+  }
+
+  if (input.average_duration_minutes !== undefined) {
+    updates.push(`average_duration_minutes = $${paramCount++}`);
+    values.push(input.average_duration_minutes);
+  }
+
+  if (input.trigger_event !== undefined) {
+    updates.push(`trigger_event = $${paramCount++}`);
+    values.push(input.trigger_event);
+  }
+
+  if (input.responsible_role_id !== undefined) {
+    updates.push(`responsible_role_id = $${paramCount++}`);
+    values.push(input.responsible_role_id);
+  }
+
+  if (input.systems_touched !== undefined) {
+    updates.push(`systems_touched = $${paramCount++}`);
+    values.push(input.systems_touched);
+  }
+
   updates.push(`updated_at = CURRENT_TIMESTAMP`);
 
   const query = `
@@ -531,19 +667,30 @@ export async function updateAction(
   `;
   values.push(id);
 
+  const client = await pool.connect();
+
   try {
-    const result = await pool.query(query, values);
+    await client.query('BEGIN');
+
+    const result = await client.query(query, values);
     assertExists(result.rows[0], 'Action', id);
     
     const action = result.rows[0];
     // Parse JSONB fields
     action.steps = safeJSONParse(action.steps);
     action.screenshots = safeJSONParse(action.screenshots);
+
+    await recordActionRevision(client, action, revision);
+
+    await client.query('COMMIT');
     
     return action;
   } catch (error) {
+    await client.query('ROLLBACK');
     if (error instanceof NotFoundError) throw error;
     handleDatabaseError(error, 'Update action');
+  } finally {
+    client.release();
   }
 }
 
@@ -575,15 +722,18 @@ export async function createScreenshot(
   input: CreateScreenshotInput
 ): Promise<Screenshot> {
   const query = `
-    INSERT INTO screenshots (action_id, file_path, original_filename, ocr_data, vision_data)
-    VALUES ($1, $2, $3, $4, $5)
+    INSERT INTO screenshots
+      (action_id, storage_key, content_type, file_size, original_filename, ocr_data, vision_data)
+    VALUES ($1, $2, $3, $4, $5, $6, $7)
     RETURNING *
   `;
 
   try {
     const result = await pool.query(query, [
       input.action_id,
-      input.file_path,
+      input.storage_key || null,
+      input.content_type || null,
+      input.file_size || null,
       input.original_filename || null,
       JSON.stringify(input.ocr_data || null),
       JSON.stringify(input.vision_data || null),
@@ -600,6 +750,36 @@ export async function createScreenshot(
   }
 }
 
+/**
+ * Check whether a stored file already belongs to something: a screenshot
+ * (or its redacted copy), a drift check capture, or a screenshot in the
+ * trash. Files from an upload belong to nothing until registered.
+ */
+export async function isStorageKeyInUse(storageKey: string): Promise<boolean> {
+  const query = `
+    SELECT EXISTS (
+      SELECT 1 FROM screenshots WHERE storage_key = $1 OR redacted_storage_key = $1
+      UNION ALL
+      SELECT 1 FROM screenshot_drift_checks WHERE storage_key = $1
+      UNION ALL
+      SELECT 1
+      FROM trash,
+        jsonb_array_elements(
+          COALESCE(contents->'screenshots', '[]'::jsonb)
+          || COALESCE(contents->'screenshot_drift_checks', '[]'::jsonb)
+        ) file
+      WHERE file->>'storage_key' = $1 OR file->>'redacted_storage_key' = $1
+    ) AS in_use
+  `;
+
+  try {
+    const result = await pool.query(query, [storageKey]);
+    return result.rows[0].in_use;
+  } catch (error) {
+    handleDatabaseError(error, 'Check storage key');
+  }
+}
+
 /**
  * Get screenshot by ID
  */
@@ -623,29 +803,35 @@ export async function getScreenshotById(id: number): Promise<Screenshot> {
 }
 
 /**
- * Get all screenshots for an action
+ * Get all screenshots for an action, or only those with the given IDs
  */
 export async function getScreenshotsByActionId(
   actionId: number,
-  options: QueryOptions = {}
+  options: QueryOptions = {},
+  onlyIds?: number[]
 ): Promise<PaginatedResult<Screenshot>> {
   const limit = options.limit || 50;
   const offset = options.offset || 0;
   const orderBy = options.orderBy || 'uploaded_at';
   const orderDirection = options.orderDirection || 'DESC';
 
-  const countQuery = 'SELECT COUNT(*) FROM screenshots WHERE action_id = $1';
+  const where = onlyIds
+    ? 'WHERE action_id = $1 AND id = ANY($2::INTEGER[])'
+    : 'WHERE action_id = $1';
+  const params: any[] = onlyIds ? [actionId, onlyIds] : [actionId];
+
+  const countQuery = `SELECT COUNT(*) FROM screenshots ${where}`;
   const dataQuery = `
     SELECT * FROM screenshots
-    WHERE action_id = $1
+    ${where}
     ORDER BY ${orderBy} ${orderDirection}
-    LIMIT $2 OFFSET $3
+    LIMIT $${params.length + 1} OFFSET $${params.length + 2}
   `;
 
   try {
     const [countResult, dataResult] = await Promise.all([
-      pool.query(countQuery, [actionId]),
-      pool.query(dataQuery, [actionId, limit, offset]),
+      pool.query(countQuery, params),
+      pool.query(dataQuery, [...params, limit, offset]),
     ]);
 
     // Parse JSONB fields for all screenshots
@@ -714,18 +900,109 @@ export async function updateScreenshot(
 
 /**
  * Delete screenshot by ID
+ * Also removes the stored file; a failed blob delete is logged rather than
+ * thrown since the record is already gone
  */
 export async function deleteScreenshot(id: number): Promise<boolean> {
-  const query = 'DELETE FROM screenshots WHERE id = $1 RETURNING id';
+  const query = 'DELETE FROM screenshots WHERE id = $1 RETURNING id, storage_key';
+
+  let storageKey: string | null;
 
   try {
     const result = await pool.query(query, [id]);
     assertExists(result.rows[0], 'Screenshot', id);
-    return true;
+    storageKey = result.rows[0].storage_key;
   } catch (error) {
     if (error instanceof NotFoundError) throw error;
     handleDatabaseError(error, 'Delete screenshot');
   }
+
+  if (storageKey) {
+    await getStorage().delete(storageKey).catch((error) => {
+      console.error(`Failed to delete stored file '${storageKey}':`, error);
+    });
+  }
+
+  return true;
+}
+
+/**
+ * Create a screenshot and append it to its action's screenshot list
+ * Both writes happen in one transaction so an action never references a
+ * missing screenshot (and no screenshot is left unattached)
+ * @returns The new screenshot and the updated action
+ */
+export async function attachScreenshotToAction(
+  input: CreateScreenshotInput,
+  caption?: string,
+  authorId?: number
+): Promise<{ screenshot: Screenshot; action: Action }> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    // Lock the action so concurrent uploads don't overwrite each other's refs
+    const actionResult = await client.query(
+      'SELECT screenshots FROM actions WHERE id = $1 FOR UPDATE',
+      [input.action_id]
+    );
+    assertExists(actionResult.rows[0], 'Action', input.action_id);
+
+    const screenshotResult = await client.query(
+      `INSERT INTO screenshots
+         (action_id, storage_key, content_type, file_size, original_filename, ocr_data, vision_data)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [
+        input.action_id,
+        input.storage_key || null,
+        input.content_type || null,
+        input.file_size || null,
+        input.original_filename || null,
+        JSON.stringify(input.ocr_data || null),
+        JSON.stringify(input.vision_data || null),
+      ]
+    );
+    const screenshot = screenshotResult.rows[0];
+
+    const refs: ActionScreenshotRef[] =
+      safeJSONParse<ActionScreenshotRef[]>(actionResult.rows[0].screenshots) || [];
+    const nextOrder = refs.reduce((max, ref) => Math.max(max, ref.order), 0) + 1;
+    const ref: ActionScreenshotRef = { screenshot_id: screenshot.id, order: nextOrder };
+    if (caption) ref.caption = caption;
+
+    const updatedResult = await client.query(
+      `UPDATE actions
+       SET screenshots = $1, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $2
+       RETURNING *`,
+      [JSON.stringify([...refs, ref]), input.action_id]
+    );
+
+    const action = updatedResult.rows[0];
+    action.steps = safeJSONParse(action.steps);
+    action.screenshots = safeJSONParse(action.screenshots);
+
+    await recordActionRevision(client, action, {
+      authorId,
+      summary: `Attached screenshot ${screenshot.id}`,
+    });
+
+    await client.query('COMMIT');
+
+    // Parse JSONB fields
+    screenshot.ocr_data = safeJSONParse(screenshot.ocr_data);
+    screenshot.vision_data = safeJSONParse(screenshot.vision_data);
+
+    return { screenshot, action };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Attach screenshot to action');
+  } finally {
+    client.release();
+  }
 }
 
 // ============================================================================
@@ -737,13 +1014,14 @@ export async function deleteScreenshot(id: number): Promise<boolean> {
  */
 export async function createRole(input: CreateRoleInput): Promise<Role> {
   const query = `
-    INSERT INTO roles (user_id, name, description, display_order)
-    VALUES ($1, $2, $3, $4)
+    INSERT INTO roles (workspace_id, user_id, name, description, display_order)
+    VALUES ($1, $2, $3, $4, $5)
     RETURNING *
   `;
 
   try {
     const result = await pool.query(query, [
+      input.workspace_id,
       input.user_id,
       input.name,
       input.description || null,
@@ -771,6 +1049,43 @@ export async function getRoleById(id: number): Promise<Role> {
   }
 }
 
+/**
+ * Get all roles for a workspace
+ */
+export async function getRolesByWorkspaceId(
+  workspaceId: number,
+  options: QueryOptions = {}
+): Promise<PaginatedResult<Role>> {
+  const limit = options.limit || 50;
+  const offset = options.offset || 0;
+  const orderBy = options.orderBy || 'display_order';
+  const orderDirection = options.orderDirection || 'ASC';
+
+  const countQuery = 'SELECT COUNT(*) FROM roles WHERE workspace_id = $1';
+  const dataQuery = `
+    SELECT * FROM roles
+    WHERE workspace_id = $1
+    ORDER BY ${orderBy} ${orderDirection}
+    LIMIT $2 OFFSET $3
+  `;
+
+  try {
+    const [countResult, dataResult] = await Promise.all([
+      pool.query(countQuery, [workspaceId]),
+      pool.query(dataQuery, [workspaceId, limit, offset]),
+    ]);
+
+    return {
+      data: dataResult.rows,
+      total: parseInt(countResult.rows[0].count),
+      limit,
+      offset,
+    };
+  } catch (error) {
+    handleDatabaseError(error, 'Get roles by workspace');
+  }
+}
+
 /**
  * Get all roles for a user
  */
@@ -878,13 +1193,14 @@ export async function deleteRole(id: number): Promise<boolean> {
  */
 export async function createTask(input: CreateTaskInput): Promise<Task> {
   const query = `
-    INSERT INTO tasks (user_id, name, description, display_order)
-    VALUES ($1, $2, $3, $4)
+    INSERT INTO tasks (workspace_id, user_id, name, description, display_order)
+    VALUES ($1, $2, $3, $4, $5)
     RETURNING *
   `;
 
   try {
     const result = await pool.query(query, [
+      input.workspace_id,
       input.user_id,
       input.name,
       input.description || null,
@@ -912,6 +1228,43 @@ export async function getTaskById(id: number): Promise<Task> {
   }
 }
 
+/**
+ * Get all tasks for a workspace
+ */
+export async function getTasksByWorkspaceId(
+  workspaceId: number,
+  options: QueryOptions = {}
+): Promise<PaginatedResult<Task>> {
+  const limit = options.limit || 50;
+  const offset = options.offset || 0;
+  const orderBy = options.orderBy || 'display_order';
+  const orderDirection = options.orderDirection || 'ASC';
+
+  const countQuery = 'SELECT COUNT(*) FROM tasks WHERE workspace_id = $1';
+  const dataQuery = `
+    SELECT * FROM tasks
+    WHERE workspace_id = $1
+    ORDER BY ${orderBy} ${orderDirection}
+    LIMIT $2 OFFSET $3
+  `;
+
+  try {
+    const [countResult, dataResult] = await Promise.all([
+      pool.query(countQuery, [workspaceId]),
+      pool.query(dataQuery, [workspaceId, limit, offset]),
+    ]);
+
+    return {
+      data: dataResult.rows,
+      total: parseInt(countResult.rows[0].count),
+      limit,
+      offset,
+    };
+  } catch (error) {
+    handleDatabaseError(error, 'Get tasks by workspace');
+  }
+}
+
 /**
  * Get all tasks for a user
  */
@@ -1384,6 +1737,7 @@ export async function getActionWithSystem(id: number): Promise<Action & { system
       a.*,
       jsonb_build_object(
         'id', s.id,
+        'workspace_id', s.workspace_id,
         'user_id', s.user_id,
         'name', s.name,
         'description', s.description,
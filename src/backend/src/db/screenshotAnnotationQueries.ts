@@ -0,0 +1,184 @@
+/**
+ * TechLedger Screenshot Annotation Queries
+ * Callouts, arrows, highlights and blur/redaction boxes drawn over a
+ * screenshot. Annotations are always looked up through their screenshot, so
+ * an ID from one screenshot can't reach another's.
+ */
+
+import pool from './connection';
+import {
+  CreateScreenshotAnnotationInput,
+  ScreenshotAnnotation,
+  UpdateScreenshotAnnotationInput,
+} from '../types/models';
+import {
+  NotFoundError,
+  handleDatabaseError,
+  assertExists,
+} from '../utils/errors';
+
+const ANNOTATION_COLUMNS = [
+  'step_number', 'x', 'y', 'width', 'height', 'end_x', 'end_y', 'color', 'note', 'display_order',
+] as const;
+
+/**
+ * Create an annotation. Without a display order it goes after the
+ * screenshot's other annotations.
+ */
+export async function createScreenshotAnnotation(input: CreateScreenshotAnnotationInput): Promise<ScreenshotAnnotation> {
+  const query = `
+    INSERT INTO screenshot_annotations (
+      screenshot_id, type, step_number, x, y, width, height, end_x, end_y,
+      color, note, display_order, created_by
+    )
+    VALUES (
+      $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11,
+      COALESCE($12, (SELECT COALESCE(MAX(display_order) + 1, 0) FROM screenshot_annotations WHERE screenshot_id = $1)),
+      $13
+    )
+    RETURNING *
+  `;
+
+  try {
+    const result = await pool.query(query, [
+      input.screenshot_id,
+      input.type,
+      input.step_number ?? null,
+      input.x,
+      input.y,
+      input.width ?? null,
+      input.height ?? null,
+      input.end_x ?? null,
+      input.end_y ?? null,
+      input.color || null,
+      input.note || null,
+      input.display_order ?? null,
+      input.created_by || null,
+    ]);
+    return result.rows[0];
+  } catch (error) {
+    handleDatabaseError(error, 'Create screenshot annotation');
+  }
+}
+
+/**
+ * Get one of a screenshot's annotations
+ * @throws NotFoundError if the screenshot has no annotation with that ID
+ */
+export async function getScreenshotAnnotation(screenshotId: number, id: number): Promise<ScreenshotAnnotation> {
+  try {
+    const result = await pool.query(
+      'SELECT * FROM screenshot_annotations WHERE id = $1 AND screenshot_id = $2',
+      [id, screenshotId]
+    );
+    assertExists(result.rows[0], 'Screenshot annotation', id);
+    return result.rows[0];
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Get screenshot annotation');
+  }
+}
+
+/**
+ * Get a screenshot's annotations in display order
+ */
+export async function getAnnotationsByScreenshotId(screenshotId: number): Promise<ScreenshotAnnotation[]> {
+  try {
+    const result = await pool.query(
+      'SELECT * FROM screenshot_annotations WHERE screenshot_id = $1 ORDER BY display_order, id',
+      [screenshotId]
+    );
+    return result.rows;
+  } catch (error) {
+    handleDatabaseError(error, 'Get screenshot annotations');
+  }
+}
+
+/**
+ * Get the annotations of several screenshots at once, in display order
+ * @returns Annotations by screenshot ID; screenshots without any are left out
+ */
+export async function getAnnotationsByScreenshotIds(
+  screenshotIds: number[]
+): Promise<Map<number, ScreenshotAnnotation[]>> {
+  const annotations = new Map<number, ScreenshotAnnotation[]>();
+  if (screenshotIds.length === 0) return annotations;
+
+  try {
+    const result = await pool.query(
+      `SELECT * FROM screenshot_annotations
+       WHERE screenshot_id = ANY($1)
+       ORDER BY screenshot_id, display_order, id`,
+      [screenshotIds]
+    );
+
+    for (const row of result.rows as ScreenshotAnnotation[]) {
+      const list = annotations.get(row.screenshot_id) || [];
+      list.push(row);
+      annotations.set(row.screenshot_id, list);
+    }
+
+    return annotations;
+  } catch (error) {
+    handleDatabaseError(error, 'Get screenshot annotations');
+  }
+}
+
+/**
+ * Update one of a screenshot's annotations; only the given fields change
+ * (null clears an optional one)
+ * @throws NotFoundError if the screenshot has no annotation with that ID
+ */
+export async function updateScreenshotAnnotation(
+  screenshotId: number,
+  id: number,
+  input: UpdateScreenshotAnnotationInput
+): Promise<ScreenshotAnnotation> {
+  const updates: string[] = [];
+  const values: any[] = [];
+  let paramCount = 1;
+
+  for (const column of ANNOTATION_COLUMNS) {
+    if (input[column] !== undefined) {
+      updates.push(`${column} = $${paramCount++}`);
+      values.push(input[column]);
+    }
+  }
+
+  updates.push('updated_at = CURRENT_TIMESTAMP');
+
+  const query = `
+    UPDATE screenshot_annotations
+    SET ${updates.join(', ')}
+    WHERE id = $${paramCount} AND screenshot_id = $${paramCount + 1}
+    RETURNING *
+  `;
+  values.push(id, screenshotId);
+
+  try {
+    const result = await pool.query(query, values);
+    assertExists(result.rows[0], 'Screenshot annotation', id);
+    return result.rows[0];
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Update screenshot annotation');
+  }
+}
+
+/**
+ * Delete one of a screenshot's annotations
+ * @throws NotFoundError if the screenshot has no annotation with that ID
+ */
+export async function deleteScreenshotAnnotation(screenshotId: number, id: number): Promise<boolean> {
+  try {
+    const result = await pool.query(
+      'DELETE FROM screenshot_annotations WHERE id = $1 AND screenshot_id = $2 RETURNING id',
+      [id, screenshotId]
+    );
+    assertExists(result.rows[0], 'Screenshot annotation', id);
+    return true;
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Delete screenshot annotation');
+  }
+}
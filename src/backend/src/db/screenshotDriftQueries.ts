@@ -0,0 +1,350 @@
+/**
+ * TechLedger Screenshot Drift Queries
+ * Fresh captures compared against stored screenshots, and the "possibly
+ * outdated" flag they put on the actions showing them
+ */
+
+import { PoolClient } from 'pg';
+import pool from './connection';
+import {
+  CreateDriftCheckInput,
+  DriftCheckStatus,
+  PaginatedResult,
+  PossiblyOutdatedAction,
+  QueryOptions,
+  Screenshot,
+  ScreenshotDriftCheck,
+  ScreenshotDriftCheckWithActions,
+} from '../types/models';
+import {
+  ConflictError,
+  NotFoundError,
+  handleDatabaseError,
+  assertExists,
+  safeJSONParse,
+} from '../utils/errors';
+
+/**
+ * Parse JSONB fields on a drift check row
+ */
+function parseDriftCheck(row: any): ScreenshotDriftCheck {
+  row.ocr_data = safeJSONParse(row.ocr_data);
+  row.report = safeJSONParse(row.report);
+  return row;
+}
+
+// Actions showing a screenshot: its own action, plus any that reference it
+// from their screenshot list or a step
+const AFFECTED_ACTIONS_QUERY = `
+  SELECT id FROM actions
+  WHERE id = (SELECT action_id FROM screenshots WHERE id = $1)
+     OR screenshots @> jsonb_build_array(jsonb_build_object('screenshot_id', $1::INTEGER))
+     OR steps @> jsonb_build_array(jsonb_build_object('screenshot_id', $1::INTEGER))
+  ORDER BY id
+`;
+
+// Clear the flag on actions no open check with drift covers any more
+const clearOutdatedFlags = async (client: PoolClient, actionIds: number[]): Promise<void> => {
+  await client.query(
+    `UPDATE actions a
+     SET possibly_outdated_since = NULL
+     WHERE a.id = ANY($1)
+       AND a.possibly_outdated_since IS NOT NULL
+       AND NOT EXISTS (
+         SELECT 1 FROM screenshot_drift_checks dc
+         WHERE dc.status = 'open' AND dc.has_drift AND a.id = ANY(dc.affected_action_ids)
+       )`,
+    [actionIds]
+  );
+};
+
+/**
+ * Record a drift check. If it found drift, every action showing the
+ * screenshot is flagged as possibly outdated (keeping the earlier date if
+ * it already was).
+ * @throws NotFoundError if the screenshot doesn't exist
+ */
+export async function createDriftCheck(input: CreateDriftCheckInput): Promise<ScreenshotDriftCheck> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const screenshotResult = await client.query(
+      'SELECT id FROM screenshots WHERE id = $1 FOR UPDATE',
+      [input.screenshot_id]
+    );
+    assertExists(screenshotResult.rows[0], 'Screenshot', input.screenshot_id);
+
+    const affectedResult = await client.query(AFFECTED_ACTIONS_QUERY, [input.screenshot_id]);
+    const affectedActionIds: number[] = affectedResult.rows.map((row) => row.id);
+
+    const result = await client.query(
+      `INSERT INTO screenshot_drift_checks (
+         screenshot_id, storage_key, content_type, file_size, original_filename,
+         ocr_data, report, has_drift, affected_action_ids, checked_by
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING *`,
+      [
+        input.screenshot_id,
+        input.storage_key,
+        input.content_type || null,
+        input.file_size || null,
+        input.original_filename || null,
+        JSON.stringify(input.ocr_data),
+        JSON.stringify(input.report),
+        input.has_drift,
+        affectedActionIds,
+        input.checked_by || null,
+      ]
+    );
+
+    if (input.has_drift && affectedActionIds.length > 0) {
+      await client.query(
+        `UPDATE actions
+         SET possibly_outdated_since = COALESCE(possibly_outdated_since, CURRENT_TIMESTAMP)
+         WHERE id = ANY($1)`,
+        [affectedActionIds]
+      );
+    }
+
+    await client.query('COMMIT');
+
+    return parseDriftCheck(result.rows[0]);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Create drift check');
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get a drift check by ID
+ * @throws NotFoundError if not found
+ */
+export async function getDriftCheckById(id: number): Promise<ScreenshotDriftCheck> {
+  try {
+    const result = await pool.query('SELECT * FROM screenshot_drift_checks WHERE id = $1', [id]);
+    assertExists(result.rows[0], 'Drift check', id);
+    return parseDriftCheck(result.rows[0]);
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Get drift check');
+  }
+}
+
+/**
+ * Get a drift check with the actions it covers and, for each, the numbers
+ * of the steps showing the screenshot. Actions deleted since are left out.
+ * @throws NotFoundError if not found
+ */
+export async function getDriftCheckWithActions(id: number): Promise<ScreenshotDriftCheckWithActions> {
+  const check = await getDriftCheckById(id);
+
+  try {
+    const result = await pool.query(
+      `SELECT id, title, steps, possibly_outdated_since
+       FROM actions
+       WHERE id = ANY($1)
+       ORDER BY id`,
+      [check.affected_action_ids]
+    );
+
+    return {
+      ...check,
+      affected_actions: result.rows.map((row) => ({
+        id: row.id,
+        title: row.title,
+        step_numbers: (safeJSONParse<any[]>(row.steps) || [])
+          .filter((step) => step.screenshot_id === check.screenshot_id)
+          .map((step) => step.step_number),
+        possibly_outdated_since: row.possibly_outdated_since,
+      })),
+    };
+  } catch (error) {
+    handleDatabaseError(error, 'Get drift check actions');
+  }
+}
+
+/**
+ * Get a screenshot's drift checks, most recent first
+ */
+export async function getDriftChecksByScreenshotId(
+  screenshotId: number,
+  options: QueryOptions = {}
+): Promise<PaginatedResult<ScreenshotDriftCheck>> {
+  const limit = options.limit || 50;
+  const offset = options.offset || 0;
+
+  const countQuery = 'SELECT COUNT(*) FROM screenshot_drift_checks WHERE screenshot_id = $1';
+  const dataQuery = `
+    SELECT * FROM screenshot_drift_checks
+    WHERE screenshot_id = $1
+    ORDER BY checked_at DESC, id DESC
+    LIMIT $2 OFFSET $3
+  `;
+
+  try {
+    const [countResult, dataResult] = await Promise.all([
+      pool.query(countQuery, [screenshotId]),
+      pool.query(dataQuery, [screenshotId, limit, offset]),
+    ]);
+
+    return {
+      data: dataResult.rows.map(parseDriftCheck),
+      total: parseInt(countResult.rows[0].count),
+      limit,
+      offset,
+    };
+  } catch (error) {
+    handleDatabaseError(error, 'Get drift checks');
+  }
+}
+
+/**
+ * Close an open drift check, and unflag the actions no other open check
+ * with drift still covers.
+ *
+ * Accepting swaps the fresh capture and its OCR onto the screenshot; the
+ * check keeps the capture it replaced. The screenshot's other open checks
+ * were compared against that replaced capture, so they are dismissed.
+ *
+ * @returns The resolved check and, when accepted, the updated screenshot
+ * @throws NotFoundError if the check doesn't exist
+ * @throws ConflictError if it was already resolved
+ */
+export async function resolveDriftCheck(
+  id: number,
+  status: Exclude<DriftCheckStatus, 'open'>,
+  userId: number
+): Promise<{ check: ScreenshotDriftCheck; screenshot: Screenshot | null }> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const checkResult = await client.query(
+      'SELECT * FROM screenshot_drift_checks WHERE id = $1 FOR UPDATE',
+      [id]
+    );
+    assertExists(checkResult.rows[0], 'Drift check', id);
+    const check = parseDriftCheck(checkResult.rows[0]);
+
+    if (check.status !== 'open') {
+      throw new ConflictError(`Drift check ${id} was already ${check.status}`);
+    }
+
+    const closed: ScreenshotDriftCheck[] = [check];
+    let screenshot: Screenshot | null = null;
+    let replaced: Pick<Screenshot, 'storage_key' | 'content_type' | 'file_size' | 'original_filename'> = check;
+
+    if (status === 'accepted') {
+      const previousResult = await client.query(
+        `SELECT storage_key, content_type, file_size, original_filename
+         FROM screenshots WHERE id = $1 FOR UPDATE`,
+        [check.screenshot_id]
+      );
+      replaced = previousResult.rows[0];
+
+      // The new image needs scanning before it's shown. The old image's
+      // redacted copy stays until the scan replaces it (and removes its file).
+      const screenshotResult = await client.query(
+        `UPDATE screenshots
+         SET storage_key = $1, file_path = NULL, content_type = $2, file_size = $3,
+             original_filename = $4, ocr_data = $5, vision_data = NULL,
+             redaction_status = NULL
+         WHERE id = $6
+         RETURNING *`,
+        [
+          check.storage_key,
+          check.content_type,
+          check.file_size,
+          check.original_filename,
+          JSON.stringify(check.ocr_data),
+          check.screenshot_id,
+        ]
+      );
+      screenshot = screenshotResult.rows[0];
+      screenshot!.ocr_data = safeJSONParse(screenshot!.ocr_data);
+      screenshot!.vision_data = safeJSONParse(screenshot!.vision_data);
+
+      const staleResult = await client.query(
+        `UPDATE screenshot_drift_checks
+         SET status = 'dismissed', resolved_by = $1, resolved_at = CURRENT_TIMESTAMP
+         WHERE screenshot_id = $2 AND status = 'open' AND id <> $3
+         RETURNING *`,
+        [userId, check.screenshot_id, id]
+      );
+      closed.push(...staleResult.rows.map(parseDriftCheck));
+    }
+
+    const result = await client.query(
+      `UPDATE screenshot_drift_checks
+       SET status = $1, storage_key = $2, content_type = $3, file_size = $4, original_filename = $5,
+           resolved_by = $6, resolved_at = CURRENT_TIMESTAMP
+       WHERE id = $7
+       RETURNING *`,
+      [
+        status,
+        replaced.storage_key,
+        replaced.content_type,
+        replaced.file_size,
+        replaced.original_filename,
+        userId,
+        id,
+      ]
+    );
+
+    await clearOutdatedFlags(client, [...new Set(closed.flatMap((c) => c.affected_action_ids))]);
+
+    await client.query('COMMIT');
+
+    return { check: parseDriftCheck(result.rows[0]), screenshot };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error instanceof NotFoundError || error instanceof ConflictError) throw error;
+    handleDatabaseError(error, 'Resolve drift check');
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Actions in a workspace flagged as possibly outdated, longest-flagged
+ * first, optionally only those in one system
+ */
+export async function getPossiblyOutdatedActions(
+  workspaceId: number,
+  systemId?: number
+): Promise<PossiblyOutdatedAction[]> {
+  const query = `
+    SELECT
+      a.id, a.title, a.possibly_outdated_since,
+      COALESCE(ls.id, ps.id) AS system_id,
+      COALESCE(ls.name, ps.name) AS system_name,
+      ARRAY(
+        SELECT dc.id FROM screenshot_drift_checks dc
+        WHERE dc.status = 'open' AND dc.has_drift AND a.id = ANY(dc.affected_action_ids)
+        ORDER BY dc.id
+      ) AS open_check_ids
+    FROM actions a
+    LEFT JOIN systems ls ON ls.id = a.system_id
+    LEFT JOIN practice_groups pg ON pg.id = a.practice_group_id
+    LEFT JOIN departments d ON d.id = pg.department_id
+    LEFT JOIN systems ps ON ps.id = d.system_id
+    WHERE a.possibly_outdated_since IS NOT NULL
+      AND COALESCE(ls.workspace_id, ps.workspace_id) = $1
+      AND ($2::INTEGER IS NULL OR COALESCE(ls.id, ps.id) = $2)
+    ORDER BY a.possibly_outdated_since, a.id
+  `;
+
+  try {
+    const result = await pool.query(query, [workspaceId, systemId ?? null]);
+    return result.rows;
+  } catch (error) {
+    handleDatabaseError(error, 'Get possibly outdated actions');
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * TechLedger Screenshot Redaction Queries
+ * Sensitive text found in screenshots, and the redacted copies of their
+ * images that are served in place of the originals
+ */
+
+import pool from './connection';
+import {
+  RedactionStatus,
+  Screenshot,
+  ScreenshotRedaction,
+  SensitiveTextMatch,
+} from '../types/models';
+import {
+  NotFoundError,
+  handleDatabaseError,
+  assertExists,
+  safeJSONParse,
+} from '../utils/errors';
+
+// A match is the same one again if it's the same kind in the same place
+const regionKey = (match: { kind: string; x: number; y: number; width: number; height: number }): string =>
+  [match.kind, match.x, match.y, match.width, match.height].join(':');
+
+/**
+ * Replace a screenshot's redactions with a fresh scan's matches. Matches
+ * that were dismissed as false positives before stay dismissed.
+ * @returns The screenshot's redactions, top to bottom
+ * @throws NotFoundError if the screenshot doesn't exist
+ */
+export async function replaceScreenshotRedactions(
+  screenshotId: number,
+  matches: SensitiveTextMatch[]
+): Promise<ScreenshotRedaction[]> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const screenshotResult = await client.query(
+      'SELECT id FROM screenshots WHERE id = $1 FOR UPDATE',
+      [screenshotId]
+    );
+    assertExists(screenshotResult.rows[0], 'Screenshot', screenshotId);
+
+    const removed = await client.query(
+      'DELETE FROM screenshot_redactions WHERE screenshot_id = $1 RETURNING *',
+      [screenshotId]
+    );
+    const dismissed = new Map<string, ScreenshotRedaction>(
+      removed.rows
+        .filter((row: ScreenshotRedaction) => row.dismissed_at !== null)
+        .map((row: ScreenshotRedaction) => [regionKey(row), row])
+    );
+
+    for (const match of matches) {
+      const previous = dismissed.get(regionKey({ kind: match.kind, ...match.region }));
+
+      await client.query(
+        `INSERT INTO screenshot_redactions (
+           screenshot_id, kind, x, y, width, height, preview, dismissed_by, dismissed_at
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        [
+          screenshotId,
+          match.kind,
+          match.region.x,
+          match.region.y,
+          match.region.width,
+          match.region.height,
+          match.preview,
+          previous?.dismissed_by ?? null,
+          previous?.dismissed_at ?? null,
+        ]
+      );
+    }
+
+    const result = await client.query(
+      'SELECT * FROM screenshot_redactions WHERE screenshot_id = $1 ORDER BY y, x, id',
+      [screenshotId]
+    );
+
+    await client.query('COMMIT');
+
+    return result.rows;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Replace screenshot redactions');
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get a screenshot's redactions, top to bottom
+ */
+export async function getRedactionsByScreenshotId(screenshotId: number): Promise<ScreenshotRedaction[]> {
+  try {
+    const result = await pool.query(
+      'SELECT * FROM screenshot_redactions WHERE screenshot_id = $1 ORDER BY y, x, id',
+      [screenshotId]
+    );
+    return result.rows;
+  } catch (error) {
+    handleDatabaseError(error, 'Get screenshot redactions');
+  }
+}
+
+/**
+ * Mark one of a screenshot's redactions as a false positive (userId given)
+ * or as sensitive again (null)
+ * @throws NotFoundError if the screenshot has no redaction with that ID
+ */
+export async function setRedactionDismissed(
+  screenshotId: number,
+  id: number,
+  userId: number | null
+): Promise<ScreenshotRedaction> {
+  const query = `
+    UPDATE screenshot_redactions
+    SET dismissed_by = $1,
+        dismissed_at = CASE WHEN $2::BOOLEAN THEN COALESCE(dismissed_at, CURRENT_TIMESTAMP) END
+    WHERE id = $3 AND screenshot_id = $4
+    RETURNING *
+  `;
+
+  try {
+    const result = await pool.query(query, [userId, userId !== null, id, screenshotId]);
+    assertExists(result.rows[0], 'Screenshot redaction', id);
+    return result.rows[0];
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Update screenshot redaction');
+  }
+}
+
+/**
+ * Record the outcome of redacting a screenshot
+ * @param storageKey - The redacted copy, when status is 'redacted'
+ * @param searchText - Its OCR text with sensitive text masked
+ * @returns The updated screenshot, and the redacted copy it had before so
+ *   its file can be removed
+ * @throws NotFoundError if the screenshot doesn't exist
+ */
+export async function setScreenshotRedaction(
+  screenshotId: number,
+  status: RedactionStatus,
+  storageKey: string | null,
+  searchText: string | null
+): Promise<{ screenshot: Screenshot; previousKey: string | null }> {
+  // The subquery reads the row as it was before this update
+  const query = `
+    UPDATE screenshots s
+    SET redaction_status = $1, redacted_storage_key = $2, redacted_at = CURRENT_TIMESTAMP, ocr_search_text = $4
+    FROM (SELECT id, redacted_storage_key FROM screenshots WHERE id = $3 FOR UPDATE) previous
+    WHERE s.id = previous.id
+    RETURNING s.*, previous.redacted_storage_key AS previous_key
+  `;
+
+  try {
+    const result = await pool.query(query, [status, storageKey, screenshotId, searchText]);
+    assertExists(result.rows[0], 'Screenshot', screenshotId);
+
+    const { previous_key: previousKey, ...screenshot } = result.rows[0];
+    screenshot.ocr_data = safeJSONParse(screenshot.ocr_data);
+    screenshot.vision_data = safeJSONParse(screenshot.vision_data);
+
+    return { screenshot, previousKey };
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Update screenshot redaction');
+  }
+}
+
+/**
+ * IDs of screenshots with OCR data that haven't been scanned, in order
+ * @param afterId - Continue after this ID
+ */
+export async function getUnscannedScreenshotIds(afterId: number, limit: number): Promise<number[]> {
+  const query = `
+    SELECT id FROM screenshots
+    WHERE redaction_status IS NULL
+      AND ocr_data IS NOT NULL AND ocr_data <> 'null'::jsonb
+      AND id > $1
+    ORDER BY id
+    LIMIT $2
+  `;
+
+  try {
+    const result = await pool.query(query, [afterId, limit]);
+    return result.rows.map((row) => row.id);
+  } catch (error) {
+    handleDatabaseError(error, 'Get unscanned screenshots');
+  }
+}
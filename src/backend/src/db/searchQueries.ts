@@ -0,0 +1,351 @@
+/**
+ * TechLedger Search Queries
+ * Postgres full-text search across the documentation graph
+ */
+
+import pool from './connection';
+import { PUBLISHED_ACTION_ROWS, publishedActionShows } from './workflowQueries';
+import { OCRWord, SearchEntityType, SearchResponse, SearchResult } from '../types/models';
+import { handleDatabaseError, safeJSONParse } from '../utils/errors';
+
+/**
+ * How to search one entity type
+ * `vector` must match the expression index in migrations/009_add_search_indexes.sql
+ */
+interface SearchSource {
+  from: string;         // FROM clause with the joins the other columns need
+  where?: string;       // Extra condition on the rows found
+  id: string;
+  vector: string;       // Weighted tsvector
+  title: string;
+  body: string;         // Plain text the snippet is cut from
+  workspaceId: string;
+  systemId: string;
+  systemName: string;
+  actionId: string;
+}
+
+const weighted = (name: string, description: string) => `(
+  setweight(to_tsvector('english', coalesce(${name}, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(${description}, '')), 'B')
+)`;
+
+// Action → system, through its legacy system_id or its practice group
+const ACTION_SYSTEM_JOIN = `
+  LEFT JOIN systems ls ON ls.id = a.system_id
+  LEFT JOIN practice_groups pg ON pg.id = a.practice_group_id
+  LEFT JOIN departments d ON d.id = pg.department_id
+  LEFT JOIN systems ps ON ps.id = d.system_id
+`;
+
+const STEP_INSTRUCTIONS = `(
+  SELECT string_agg(step->>'instruction', ' ')
+  FROM jsonb_array_elements(CASE WHEN jsonb_typeof(a.steps) = 'array' THEN a.steps ELSE '[]'::jsonb END) step
+)`;
+
+const SEARCH_SOURCES: Record<SearchEntityType, SearchSource> = {
+  system: {
+    from: 'systems s',
+    id: 's.id',
+    vector: weighted('s.name', 's.description'),
+    title: 's.name',
+    body: "coalesce(s.description, '')",
+    workspaceId: 's.workspace_id',
+    systemId: 's.id',
+    systemName: 's.name',
+    actionId: 'NULL::INTEGER',
+  },
+  department: {
+    from: 'departments d INNER JOIN systems s ON s.id = d.system_id',
+    id: 'd.id',
+    vector: weighted('d.name', 'd.description'),
+    title: 'd.name',
+    body: "coalesce(d.description, '')",
+    workspaceId: 's.workspace_id',
+    systemId: 's.id',
+    systemName: 's.name',
+    actionId: 'NULL::INTEGER',
+  },
+  practice_group: {
+    from: `practice_groups pg
+      INNER JOIN departments d ON d.id = pg.department_id
+      INNER JOIN systems s ON s.id = d.system_id`,
+    id: 'pg.id',
+    vector: weighted('pg.name', 'pg.description'),
+    title: 'pg.name',
+    body: "coalesce(pg.description, '')",
+    workspaceId: 's.workspace_id',
+    systemId: 's.id',
+    systemName: 's.name',
+    actionId: 'NULL::INTEGER',
+  },
+  action: {
+    from: `actions a ${ACTION_SYSTEM_JOIN}`,
+    id: 'a.id',
+    vector: `(
+      setweight(to_tsvector('english', coalesce(a.title, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(a.description, '')), 'B') ||
+      setweight(jsonb_to_tsvector('english', coalesce(a.steps, '[]'::jsonb), '["string"]'), 'C')
+    )`,
+    title: 'a.title',
+    body: `concat_ws(' ', a.description, ${STEP_INSTRUCTIONS})`,
+    workspaceId: 'COALESCE(ls.workspace_id, ps.workspace_id)',
+    systemId: 'COALESCE(ls.id, ps.id)',
+    systemName: 'COALESCE(ls.name, ps.name)',
+    actionId: 'a.id',
+  },
+  screenshot: {
+    from: `screenshots sc
+      INNER JOIN actions a ON a.id = sc.action_id
+      ${ACTION_SYSTEM_JOIN}`,
+    id: 'sc.id',
+    // OCR text with sensitive text masked (see migration 020)
+    vector: weighted('sc.original_filename', 'sc.ocr_search_text'),
+    title: "COALESCE(sc.original_filename, 'Screenshot ' || sc.id)",
+    body: "coalesce(sc.ocr_search_text, '')",
+    workspaceId: 'COALESCE(ls.workspace_id, ps.workspace_id)',
+    systemId: 'COALESCE(ls.id, ps.id)',
+    systemName: 'COALESCE(ls.name, ps.name)',
+    actionId: 'a.id',
+  },
+  role: {
+    from: 'roles r',
+    id: 'r.id',
+    vector: weighted('r.name', 'r.description'),
+    title: 'r.name',
+    body: "coalesce(r.description, '')",
+    workspaceId: 'r.workspace_id',
+    systemId: 'NULL::INTEGER',
+    systemName: 'NULL::VARCHAR',
+    actionId: 'NULL::INTEGER',
+  },
+  task: {
+    from: 'tasks t',
+    id: 't.id',
+    vector: weighted('t.name', 't.description'),
+    title: 't.name',
+    body: "coalesce(t.description, '')",
+    workspaceId: 't.workspace_id',
+    systemId: 'NULL::INTEGER',
+    systemName: 'NULL::VARCHAR',
+    actionId: 'NULL::INTEGER',
+  },
+  link: {
+    from: 'links l',
+    id: 'l.id',
+    vector: `(
+      setweight(to_tsvector('english', coalesce(l.title, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(l.description, '') || ' ' || coalesce(l.notes, '')), 'B') ||
+      setweight(to_tsvector('english', l.url), 'C')
+    )`,
+    title: 'l.title',
+    body: "concat_ws(' ', l.description, l.notes, l.url)",
+    workspaceId: 'l.workspace_id',
+    systemId: 'NULL::INTEGER',
+    systemName: 'NULL::VARCHAR',
+    actionId: 'NULL::INTEGER',
+  },
+};
+
+export const SEARCH_ENTITY_TYPES = Object.keys(SEARCH_SOURCES) as SearchEntityType[];
+
+/**
+ * What viewers search: actions as published, and only the screenshots their
+ * published version shows. Drafts and screenshots added since aren't found.
+ * These can't use the expression indexes.
+ */
+const PUBLISHED_SEARCH_SOURCES: Record<SearchEntityType, SearchSource> = {
+  ...SEARCH_SOURCES,
+  action: {
+    ...SEARCH_SOURCES.action,
+    from: `${PUBLISHED_ACTION_ROWS} a ${ACTION_SYSTEM_JOIN}`,
+  },
+  screenshot: {
+    ...SEARCH_SOURCES.screenshot,
+    from: `screenshots sc
+      INNER JOIN ${PUBLISHED_ACTION_ROWS} a ON a.id = sc.action_id
+      ${ACTION_SYSTEM_JOIN}`,
+    where: publishedActionShows('a', 'sc.id'),
+  },
+};
+
+// ts_headline wraps matches in these control characters; they are turned
+// into <mark> tags after the text is HTML-escaped
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+const HEADLINE_OPTIONS = `'StartSel=' || chr(2) || ', StopSel=' || chr(3) ||
+  ', MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'`;
+const TITLE_HEADLINE_OPTIONS = `'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', HighlightAll=true'`;
+
+/**
+ * HTML-escape a ts_headline result and mark its matches
+ */
+export function toHighlightHtml(headline: string): string {
+  return headline
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .split(MATCH_START).join('<mark>')
+    .split(MATCH_END).join('</mark>');
+}
+
+/**
+ * Matches of one entity type; $1 = workspace ID, query text is in CTE q
+ */
+const matchesFor = (type: SearchEntityType, publishedOnly: boolean): string => {
+  const source = (publishedOnly ? PUBLISHED_SEARCH_SOURCES : SEARCH_SOURCES)[type];
+
+  return `
+    SELECT
+      '${type}' AS type,
+      ${source.id} AS id,
+      ${source.title} AS title,
+      ${source.body} AS body,
+      ts_rank(${source.vector}, q.query) AS rank,
+      ${source.systemId} AS system_id,
+      ${source.systemName} AS system_name,
+      ${source.actionId} AS action_id
+    FROM ${source.from}, q
+    WHERE ${source.vector} @@ q.query
+      AND ${source.workspaceId} = $1
+      ${source.where ? `AND ${source.where}` : ''}
+  `;
+};
+
+/**
+ * Ranked, highlighted full-text search over the given entity types
+ * Query text uses web search syntax: "quoted phrases", OR, -excluded
+ * @param publishedOnly - Search actions as published, as viewers see them
+ */
+export async function searchWorkspace(
+  workspaceId: number,
+  text: string,
+  types: SearchEntityType[],
+  limit: number,
+  offset: number,
+  publishedOnly: boolean
+): Promise<SearchResponse> {
+  const matches = `
+    WITH q AS (SELECT websearch_to_tsquery('english', $2) AS query),
+    matches AS (
+      ${types.map((type) => matchesFor(type, publishedOnly)).join('\nUNION ALL\n')}
+    )
+  `;
+
+  const dataQuery = `
+    ${matches}
+    SELECT
+      page.type, page.id, page.title, page.rank,
+      page.system_id, page.system_name, page.action_id,
+      ts_headline('english', page.title, q.query, ${TITLE_HEADLINE_OPTIONS}) AS title_highlight,
+      ts_headline('english', page.body, q.query, ${HEADLINE_OPTIONS}) AS snippet
+    FROM (
+      SELECT * FROM matches
+      ORDER BY rank DESC, type, id
+      LIMIT $3 OFFSET $4
+    ) page, q
+    ORDER BY page.rank DESC, page.type, page.id
+  `;
+
+  const countQuery = `
+    ${matches}
+    SELECT type, COUNT(*) AS count FROM matches GROUP BY type
+  `;
+
+  try {
+    const [dataResult, countResult] = await Promise.all([
+      pool.query(dataQuery, [workspaceId, text, limit, offset]),
+      pool.query(countQuery, [workspaceId, text]),
+    ]);
+
+    const countsByType: SearchResponse['counts_by_type'] = {};
+    let total = 0;
+    for (const row of countResult.rows) {
+      countsByType[row.type as SearchEntityType] = parseInt(row.count);
+      total += parseInt(row.count);
+    }
+
+    const results: SearchResult[] = dataResult.rows.map((row) => ({
+      type: row.type,
+      id: row.id,
+      title: row.title,
+      title_highlight: toHighlightHtml(row.title_highlight || ''),
+      snippet: toHighlightHtml(row.snippet || ''),
+      rank: parseFloat(row.rank),
+      system_id: row.system_id,
+      system_name: row.system_name,
+      action_id: row.action_id,
+    }));
+
+    return { query: text, results, total, counts_by_type: countsByType, limit, offset };
+  } catch (error) {
+    handleDatabaseError(error, 'Search');
+  }
+}
+
+// ============================================================================
+// SCREENSHOT TEXT CANDIDATES
+// ============================================================================
+
+export interface ScreenshotTextCandidate {
+  screenshot_id: number;
+  action_id: number;
+  action_title: string;
+  system_id: number | null;
+  system_name: string | null;
+  original_filename: string | null;
+  words: OCRWord[];
+}
+
+/**
+ * Screenshots whose OCR text contains a phrase, with their OCR words.
+ * Uses the screenshot search index (so stemmed variants also come back);
+ * phrases made only of stop words fall back to a substring match. Both
+ * search the masked text; the words are as OCR read them.
+ * @param systemId - Optionally limit to one system
+ * @param publishedOnly - Only screenshots published actions show
+ */
+export async function getScreenshotTextCandidates(
+  workspaceId: number,
+  phrase: string,
+  systemId: number | null,
+  maxCandidates: number,
+  publishedOnly: boolean
+): Promise<ScreenshotTextCandidate[]> {
+  const source = (publishedOnly ? PUBLISHED_SEARCH_SOURCES : SEARCH_SOURCES).screenshot;
+  const query = `
+    WITH q AS (SELECT phraseto_tsquery('english', $2) AS query)
+    SELECT
+      sc.id AS screenshot_id,
+      a.id AS action_id,
+      a.title AS action_title,
+      ${source.systemId} AS system_id,
+      ${source.systemName} AS system_name,
+      sc.original_filename,
+      COALESCE(sc.ocr_data->'words', '[]'::jsonb) AS words
+    FROM ${source.from}, q
+    WHERE ${source.workspaceId} = $1
+      AND ($3::INTEGER IS NULL OR ${source.systemId} = $3)
+      AND CASE
+        WHEN numnode(q.query) = 0
+          THEN sc.ocr_search_text ILIKE $5
+        ELSE ${source.vector} @@ q.query
+      END
+      ${source.where ? `AND ${source.where}` : ''}
+    ORDER BY sc.id
+    LIMIT $4
+  `;
+
+  try {
+    const likePattern = `%${phrase.replace(/[\\%_]/g, '\\$&')}%`;
+    const result = await pool.query(query, [workspaceId, phrase, systemId, maxCandidates, likePattern]);
+    return result.rows.map((row) => ({
+      ...row,
+      words: safeJSONParse<OCRWord[]>(row.words) || [],
+    }));
+  } catch (error) {
+    handleDatabaseError(error, 'Get screenshot text candidates');
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * TechLedger Step Draft Queries
+ * CRUD operations for LLM-proposed action steps awaiting review
+ */
+
+import pool from './connection';
+import {
+  Action,
+  ActionStep,
+  DraftStep,
+  StepDraft,
+  StepDraftStatus,
+  CreateStepDraftInput,
+} from '../types/models';
+import {
+  NotFoundError,
+  handleDatabaseError,
+  assertExists,
+  safeJSONParse,
+} from '../utils/errors';
+import { recordActionRevision } from './actionRevisionQueries';
+
+/**
+ * Parse JSONB fields on a step draft row
+ */
+function parseStepDraft(row: any): StepDraft {
+  row.steps = safeJSONParse<DraftStep[]>(row.steps) || [];
+  return row;
+}
+
+/**
+ * Create a new step draft
+ */
+export async function createStepDraft(input: CreateStepDraftInput): Promise<StepDraft> {
+  const query = `
+    INSERT INTO step_drafts (action_id, steps, provider, model, created_by)
+    VALUES ($1, $2, $3, $4, $5)
+    RETURNING *
+  `;
+
+  try {
+    const result = await pool.query(query, [
+      input.action_id,
+      JSON.stringify(input.steps),
+      input.provider,
+      input.model || null,
+      input.created_by,
+    ]);
+    return parseStepDraft(result.rows[0]);
+  } catch (error) {
+    handleDatabaseError(error, 'Step draft creation');
+  }
+}
+
+/**
+ * Get step draft by ID
+ */
+export async function getStepDraftById(id: number): Promise<StepDraft> {
+  const query = 'SELECT * FROM step_drafts WHERE id = $1';
+
+  try {
+    const result = await pool.query(query, [id]);
+    assertExists(result.rows[0], 'Step Draft', id);
+    return parseStepDraft(result.rows[0]);
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Get step draft by ID');
+  }
+}
+
+/**
+ * Get all drafts for an action (newest first)
+ */
+export async function getStepDraftsByActionId(actionId: number): Promise<StepDraft[]> {
+  const query = `
+    SELECT * FROM step_drafts
+    WHERE action_id = $1
+    ORDER BY created_at DESC, id DESC
+  `;
+
+  try {
+    const result = await pool.query(query, [actionId]);
+    return result.rows.map(parseStepDraft);
+  } catch (error) {
+    handleDatabaseError(error, 'Get step drafts by action ID');
+  }
+}
+
+/**
+ * Replace a draft's steps (after the author reviews one)
+ */
+export async function updateStepDraftSteps(
+  id: number,
+  steps: DraftStep[]
+): Promise<StepDraft> {
+  const query = `
+    UPDATE step_drafts
+    SET steps = $1, updated_at = CURRENT_TIMESTAMP
+    WHERE id = $2
+    RETURNING *
+  `;
+
+  try {
+    const result = await pool.query(query, [JSON.stringify(steps), id]);
+    assertExists(result.rows[0], 'Step Draft', id);
+    return parseStepDraft(result.rows[0]);
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Update step draft');
+  }
+}
+
+/**
+ * Set a draft's status
+ */
+export async function setStepDraftStatus(
+  id: number,
+  status: StepDraftStatus
+): Promise<StepDraft> {
+  const query = `
+    UPDATE step_drafts
+    SET status = $1, updated_at = CURRENT_TIMESTAMP
+    WHERE id = $2
+    RETURNING *
+  `;
+
+  try {
+    const result = await pool.query(query, [status, id]);
+    assertExists(result.rows[0], 'Step Draft', id);
+    return parseStepDraft(result.rows[0]);
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Update step draft status');
+  }
+}
+
+/**
+ * Write steps to the draft's action and mark the draft applied
+ * Both happen in one transaction, along with the action's revision
+ * @returns The updated action and draft
+ */
+export async function applyStepDraft(
+  id: number,
+  steps: ActionStep[],
+  authorId: number
+): Promise<{ action: Action; draft: StepDraft }> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const draftResult = await client.query(
+      `UPDATE step_drafts
+       SET status = 'applied', applied_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1
+       RETURNING *`,
+      [id]
+    );
+    assertExists(draftResult.rows[0], 'Step Draft', id);
+
+    const actionResult = await client.query(
+      `UPDATE actions
+       SET steps = $1, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $2
+       RETURNING *`,
+      [JSON.stringify(steps), draftResult.rows[0].action_id]
+    );
+
+    const action = actionResult.rows[0];
+    action.steps = safeJSONParse(action.steps);
+    action.screenshots = safeJSONParse(action.screenshots);
+
+    await recordActionRevision(client, action, {
+      authorId,
+      summary: `Applied step draft ${id}`,
+    });
+
+    await client.query('COMMIT');
+
+    return { action, draft: parseStepDraft(draftResult.rows[0]) };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Apply step draft');
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,543 @@
+/**
+ * TechLedger Trash Queries
+ * Deleting an entity moves it, its subtree and every junction row that
+ * pointed at them into the trash table; restoring puts the rows back with
+ * their original IDs. Nothing outside this file needs to filter out
+ * deleted rows, since they really are gone from their tables.
+ */
+
+import { PoolClient } from 'pg';
+import pool from './connection';
+import { getEntityScope } from './workspaceQueries';
+import {
+  NullifiedReference,
+  PaginatedResult,
+  QueryOptions,
+  TrashEntityType,
+  TrashItem,
+  TrashRestoreResult,
+} from '../types/models';
+import {
+  ConflictError,
+  NotFoundError,
+  handleDatabaseError,
+  assertExists,
+} from '../utils/errors';
+
+type Queryable = Pick<PoolClient, 'query'>;
+type TrashRows = Record<string, Record<string, any>[]>;
+
+const TRASH_ENTITIES: Record<TrashEntityType, { table: string; resource: string; label: string }> = {
+  system: { table: 'systems', resource: 'System', label: 'name' },
+  department: { table: 'departments', resource: 'Department', label: 'name' },
+  practice_group: { table: 'practice_groups', resource: 'Practice Group', label: 'name' },
+  action: { table: 'actions', resource: 'Action', label: 'title' },
+  action_sequence: { table: 'action_sequences', resource: 'Action Sequence', label: 'name' },
+  screenshot: { table: 'screenshots', resource: 'Screenshot', label: 'original_filename' },
+  role: { table: 'roles', resource: 'Role', label: 'name' },
+  task: { table: 'tasks', resource: 'Task', label: 'name' },
+  link: { table: 'links', resource: 'Link', label: 'title' },
+  zoho_workflow: { table: 'zoho_workflows', resource: 'Zoho Workflow', label: 'name' },
+  automation: { table: 'automations', resource: 'Automation', label: 'name' },
+};
+
+/**
+ * Every table a delete can reach, in the order rows are restored (referenced
+ * tables first). For each foreign key:
+ * - parents: ON DELETE CASCADE - rows go to the trash with what they point
+ *   at, and can't come back without it
+ * - optional: ON DELETE SET NULL - restored as NULL if the target is gone
+ * Entity tables reached through `children` are part of the subtree; the
+ * rest are captured when any of their parents is.
+ */
+interface TrashTable {
+  parents?: Record<string, string>;
+  optional?: Record<string, string>;
+  children?: { table: string; column: string }[];
+  entity?: boolean;
+}
+
+const TRASH_TABLES: Record<string, TrashTable> = {
+  systems: {
+    entity: true,
+    optional: { user_id: 'users' },
+    children: [
+      { table: 'departments', column: 'system_id' },
+      { table: 'actions', column: 'system_id' },
+      { table: 'zoho_workflows', column: 'system_id' },
+      { table: 'automations', column: 'system_id' },
+    ],
+  },
+  departments: {
+    entity: true,
+    parents: { system_id: 'systems' },
+    children: [{ table: 'practice_groups', column: 'department_id' }],
+  },
+  practice_groups: {
+    entity: true,
+    parents: { department_id: 'departments' },
+    children: [
+      { table: 'actions', column: 'practice_group_id' },
+      { table: 'action_sequences', column: 'practice_group_id' },
+    ],
+  },
+  roles: { entity: true, optional: { user_id: 'users' } },
+  tasks: { entity: true, optional: { user_id: 'users' } },
+  links: { entity: true, optional: { created_by: 'users' } },
+  actions: {
+    entity: true,
+    parents: { system_id: 'systems', practice_group_id: 'practice_groups' },
+    optional: { responsible_role_id: 'roles', reviewer_id: 'users', reviewed_by: 'users' },
+    children: [{ table: 'screenshots', column: 'action_id' }],
+  },
+  action_sequences: {
+    entity: true,
+    parents: { practice_group_id: 'practice_groups' },
+    optional: { responsible_role_id: 'roles', reviewer_id: 'users', reviewed_by: 'users' },
+  },
+  screenshots: { entity: true, parents: { action_id: 'actions' } },
+  zoho_workflows: { entity: true, parents: { system_id: 'systems' }, optional: { created_by: 'users' } },
+  automations: { entity: true, parents: { system_id: 'systems' }, optional: { created_by: 'users' } },
+  sequence_actions: { parents: { sequence_id: 'action_sequences', action_id: 'actions' } },
+  task_actions: { parents: { task_id: 'tasks', action_id: 'actions' } },
+  action_automations: { parents: { action_id: 'actions', automation_id: 'automations' } },
+  role_tasks: { parents: { role_id: 'roles', task_id: 'tasks' } },
+  system_links: { parents: { system_id: 'systems', link_id: 'links' } },
+  action_links: { parents: { action_id: 'actions', link_id: 'links' } },
+  role_links: { parents: { role_id: 'roles', link_id: 'links' } },
+  task_links: { parents: { task_id: 'tasks', link_id: 'links' } },
+  system_permissions: { parents: { system_id: 'systems', user_id: 'users' } },
+  action_revisions: { parents: { action_id: 'actions' }, optional: { created_by: 'users' } },
+  step_drafts: { parents: { action_id: 'actions' }, optional: { created_by: 'users' } },
+  ocr_jobs: { parents: { screenshot_id: 'screenshots' } },
+  screenshot_drift_checks: {
+    parents: { screenshot_id: 'screenshots' },
+    optional: { checked_by: 'users', resolved_by: 'users' },
+  },
+  screenshot_annotations: { parents: { screenshot_id: 'screenshots' }, optional: { created_by: 'users' } },
+  screenshot_redactions: { parents: { screenshot_id: 'screenshots' }, optional: { dismissed_by: 'users' } },
+  capture_sessions: {
+    parents: { action_id: 'actions', sequence_id: 'action_sequences' },
+    optional: { created_by: 'users' },
+  },
+  capture_questions: { parents: { session_id: 'capture_sessions' } },
+};
+
+const TRASH_TABLE_ORDER = Object.keys(TRASH_TABLES);
+
+// ON DELETE SET NULL references from rows that stay behind; the delete
+// clears them, the restore fills them back in
+const NULLABLE_REFERENCES = [
+  { table: 'actions', column: 'responsible_role_id', references: 'roles' },
+  { table: 'action_sequences', column: 'responsible_role_id', references: 'roles' },
+];
+
+/**
+ * Parse a trash row (without its stored rows)
+ */
+function parseTrashItem(row: any): TrashItem {
+  delete row.contents;
+  delete row.nullified;
+  return row;
+}
+
+const addIds = (ids: Record<string, number[]>, table: string, found: number[]): number[] => {
+  const existing = new Set(ids[table] || []);
+  const added = found.filter((id) => !existing.has(id));
+  ids[table] = [...(ids[table] || []), ...added];
+  return added;
+};
+
+/**
+ * Collect every row deleting an entity would remove: the entity, its
+ * subtree, and the dependent rows of each
+ */
+async function collectTrashRows(
+  client: Queryable,
+  entityType: TrashEntityType,
+  id: number
+): Promise<{ rows: TrashRows; nullified: NullifiedReference[] }> {
+  const { table, resource } = TRASH_ENTITIES[entityType];
+
+  const root = await client.query(`SELECT id FROM ${table} WHERE id = $1 FOR UPDATE`, [id]);
+  assertExists(root.rows[0], resource, id);
+
+  // Walk down the hierarchy
+  const ids: Record<string, number[]> = { [table]: [id] };
+  const pending: { table: string; ids: number[] }[] = [{ table, ids: [id] }];
+
+  while (pending.length > 0) {
+    const parent = pending.shift()!;
+
+    for (const child of TRASH_TABLES[parent.table].children || []) {
+      const result = await client.query(
+        `SELECT id FROM ${child.table} WHERE ${child.column} = ANY($1)`,
+        [parent.ids]
+      );
+      const added = addIds(ids, child.table, result.rows.map((row) => row.id));
+
+      if (added.length > 0) {
+        pending.push({ table: child.table, ids: added });
+      }
+    }
+  }
+
+  // Snapshot the subtree, then anything hanging off it
+  const rows: TrashRows = {};
+
+  for (const name of TRASH_TABLE_ORDER) {
+    const spec = TRASH_TABLES[name];
+    let result;
+
+    if (spec.entity) {
+      if (!ids[name]) continue;
+      result = await client.query(
+        `SELECT to_jsonb(t) AS row FROM ${name} t WHERE id = ANY($1) ORDER BY id`,
+        [ids[name]]
+      );
+    } else {
+      const conditions: string[] = [];
+      const values: number[][] = [];
+
+      for (const [column, parentTable] of Object.entries(spec.parents || {})) {
+        if (ids[parentTable]) {
+          values.push(ids[parentTable]);
+          conditions.push(`${column} = ANY($${values.length})`);
+        }
+      }
+
+      if (conditions.length === 0) continue;
+      result = await client.query(
+        `SELECT to_jsonb(t) AS row FROM ${name} t WHERE ${conditions.join(' OR ')} ORDER BY id`,
+        values
+      );
+      // Dependents can have dependents of their own (capture questions)
+      addIds(ids, name, result.rows.map((row) => row.row.id));
+    }
+
+    if (result.rows.length > 0) {
+      rows[name] = result.rows.map((row) => row.row);
+    }
+  }
+
+  const nullified: NullifiedReference[] = [];
+
+  for (const reference of NULLABLE_REFERENCES) {
+    if (!ids[reference.references]) continue;
+
+    const result = await client.query(
+      `SELECT ${reference.column} AS value, array_agg(id ORDER BY id) AS ids
+       FROM ${reference.table}
+       WHERE ${reference.column} = ANY($1) AND NOT (id = ANY($2))
+       GROUP BY ${reference.column}`,
+      [ids[reference.references], ids[reference.table] || []]
+    );
+
+    for (const row of result.rows) {
+      nullified.push({ table: reference.table, column: reference.column, value: row.value, ids: row.ids });
+    }
+  }
+
+  return { rows, nullified };
+}
+
+/**
+ * Delete an entity by moving it and everything that cascades from it to
+ * the trash
+ * @returns The new trash item
+ * @throws NotFoundError if the entity doesn't exist
+ */
+export async function moveToTrash(
+  entityType: TrashEntityType,
+  id: number,
+  deletedBy: number | null
+): Promise<TrashItem> {
+  const { table, label } = TRASH_ENTITIES[entityType];
+  const scope = await getEntityScope(entityType, id);
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const { rows, nullified } = await collectTrashRows(client, entityType, id);
+    const rowCounts = Object.fromEntries(
+      Object.entries(rows).map(([name, tableRows]) => [name, tableRows.length])
+    );
+    const rootRow = rows[table].find((row) => row.id === id);
+
+    const result = await client.query(
+      `INSERT INTO trash (
+         workspace_id, system_id, entity_type, entity_id, label, contents, row_counts, nullified, deleted_by
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING *`,
+      [
+        scope.workspace_id,
+        entityType === 'system' ? id : scope.system_id,
+        entityType,
+        id,
+        rootRow?.[label] ?? null,
+        JSON.stringify(rows),
+        JSON.stringify(rowCounts),
+        JSON.stringify(nullified),
+        deletedBy,
+      ]
+    );
+
+    // ON DELETE CASCADE takes care of the rest
+    await client.query(`DELETE FROM ${table} WHERE id = $1`, [id]);
+
+    await client.query('COMMIT');
+    return parseTrashItem(result.rows[0]);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Move to trash');
+  } finally {
+    client.release();
+  }
+}
+
+async function getExistingIds(client: Queryable, table: string, ids: number[]): Promise<Set<number>> {
+  if (ids.length === 0) return new Set();
+  const result = await client.query(`SELECT id FROM ${table} WHERE id = ANY($1)`, [ids]);
+  return new Set(result.rows.map((row) => row.id));
+}
+
+const referencedIds = (rows: Record<string, any>[], column: string): number[] =>
+  [...new Set(rows.map((row) => row[column]).filter((value) => value !== null && value !== undefined))];
+
+/**
+ * Put a trash item's rows back and remove it from the trash. Junction rows
+ * whose other side has since been deleted are skipped.
+ * @throws NotFoundError if the item doesn't exist
+ * @throws ConflictError if the entity's parent no longer exists
+ */
+export async function restoreTrashItem(trashId: number): Promise<TrashRestoreResult> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const itemResult = await client.query('SELECT * FROM trash WHERE id = $1 FOR UPDATE', [trashId]);
+    assertExists(itemResult.rows[0], 'Trash item', trashId);
+
+    const item = itemResult.rows[0];
+    const stored: TrashRows = item.contents;
+    const restored: Record<string, number> = {};
+    const skipped: Record<string, number> = {};
+
+    for (const name of TRASH_TABLE_ORDER) {
+      const spec = TRASH_TABLES[name];
+      let rows = stored[name] || [];
+      if (rows.length === 0) continue;
+
+      for (const [column, parentTable] of Object.entries(spec.parents || {})) {
+        const existing = await getExistingIds(client, parentTable, referencedIds(rows, column));
+        const kept = rows.filter((row) => row[column] === null || existing.has(row[column]));
+
+        if (kept.length < rows.length && spec.entity) {
+          const { resource } = TRASH_ENTITIES[item.entity_type as TrashEntityType];
+          throw new ConflictError(
+            `Cannot restore ${resource.toLowerCase()}: the ${column.replace(/_id$/, '').replace(/_/g, ' ')} it belonged to no longer exists. Restore that first.`
+          );
+        }
+
+        if (kept.length < rows.length) {
+          skipped[name] = (skipped[name] || 0) + rows.length - kept.length;
+        }
+        rows = kept;
+      }
+
+      for (const [column, targetTable] of Object.entries(spec.optional || {})) {
+        const existing = await getExistingIds(client, targetTable, referencedIds(rows, column));
+        rows = rows.map((row) =>
+          row[column] === null || existing.has(row[column]) ? row : { ...row, [column]: null }
+        );
+      }
+
+      if (rows.length === 0) continue;
+
+      const result = await client.query(
+        `INSERT INTO ${name}
+         SELECT * FROM jsonb_populate_recordset(NULL::${name}, $1::jsonb)
+         ON CONFLICT DO NOTHING`,
+        [JSON.stringify(rows)]
+      );
+      restored[name] = result.rowCount || 0;
+
+      if (restored[name] < rows.length) {
+        skipped[name] = (skipped[name] || 0) + rows.length - restored[name];
+      }
+    }
+
+    for (const reference of item.nullified as NullifiedReference[]) {
+      await client.query(
+        `UPDATE ${reference.table} SET ${reference.column} = $1
+         WHERE id = ANY($2) AND ${reference.column} IS NULL`,
+        [reference.value, reference.ids]
+      );
+    }
+
+    await client.query('DELETE FROM trash WHERE id = $1', [trashId]);
+
+    await client.query('COMMIT');
+
+    return {
+      entity_type: item.entity_type,
+      entity_id: item.entity_id,
+      restored,
+      skipped,
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error instanceof NotFoundError || error instanceof ConflictError) throw error;
+    handleDatabaseError(error, 'Restore from trash');
+  } finally {
+    client.release();
+  }
+}
+
+// Storage keys of the screenshots (their redacted copies, and their drift
+// check captures) a trash item holds, for purging their files
+const TRASH_STORAGE_KEYS = `ARRAY(
+  SELECT key
+  FROM jsonb_array_elements(
+    COALESCE(contents->'screenshots', '[]'::jsonb)
+    || COALESCE(contents->'screenshot_drift_checks', '[]'::jsonb)
+  ) file,
+  LATERAL (VALUES (file->>'storage_key'), (file->>'redacted_storage_key')) keys(key)
+  WHERE key IS NOT NULL
+) AS storage_keys`;
+
+/**
+ * Get a trash item by ID
+ * @param retentionDays - Used to work out when it will be purged
+ */
+export async function getTrashItem(id: number, retentionDays: number): Promise<TrashItem> {
+  const query = `
+    SELECT *, deleted_at + make_interval(days => $2) AS purge_at
+    FROM trash
+    WHERE id = $1
+  `;
+
+  try {
+    const result = await pool.query(query, [id, retentionDays]);
+    assertExists(result.rows[0], 'Trash item', id);
+    return parseTrashItem(result.rows[0]);
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Get trash item');
+  }
+}
+
+/**
+ * Get a trash item with the rows it holds, as recorded when it's purged
+ * @throws NotFoundError if the item doesn't exist
+ */
+export async function getTrashItemSnapshot(id: number): Promise<{ contents: Record<string, any[]> }> {
+  try {
+    const result = await pool.query('SELECT * FROM trash WHERE id = $1', [id]);
+    assertExists(result.rows[0], 'Trash item', id);
+    return result.rows[0];
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Get trash item');
+  }
+}
+
+/**
+ * Get a workspace's trash, most recently deleted first
+ * @param retentionDays - Used to work out when each item will be purged
+ */
+export async function getTrashItems(
+  workspaceId: number,
+  retentionDays: number,
+  entityType?: TrashEntityType,
+  options: QueryOptions = {}
+): Promise<PaginatedResult<TrashItem>> {
+  const limit = options.limit || 50;
+  const offset = options.offset || 0;
+
+  const conditions = ['workspace_id = $1'];
+  const values: any[] = [workspaceId];
+
+  if (entityType) {
+    values.push(entityType);
+    conditions.push(`entity_type = $${values.length}`);
+  }
+
+  const where = conditions.join(' AND ');
+  const countQuery = `SELECT COUNT(*) FROM trash WHERE ${where}`;
+  const dataQuery = `
+    SELECT
+      id, workspace_id, system_id, entity_type, entity_id, label, row_counts, deleted_by, deleted_at,
+      deleted_at + make_interval(days => $${values.length + 1}) AS purge_at
+    FROM trash
+    WHERE ${where}
+    ORDER BY deleted_at DESC, id DESC
+    LIMIT $${values.length + 2} OFFSET $${values.length + 3}
+  `;
+
+  try {
+    const [countResult, dataResult] = await Promise.all([
+      pool.query(countQuery, values),
+      pool.query(dataQuery, [...values, retentionDays, limit, offset]),
+    ]);
+
+    return {
+      data: dataResult.rows.map(parseTrashItem),
+      total: parseInt(countResult.rows[0].count),
+      limit,
+      offset,
+    };
+  } catch (error) {
+    handleDatabaseError(error, 'Get trash');
+  }
+}
+
+/**
+ * Permanently delete a trash item
+ * @returns Storage keys of the screenshot files it held
+ * @throws NotFoundError if the item doesn't exist
+ */
+export async function purgeTrashItem(id: number): Promise<string[]> {
+  const query = `DELETE FROM trash WHERE id = $1 RETURNING id, ${TRASH_STORAGE_KEYS}`;
+
+  try {
+    const result = await pool.query(query, [id]);
+    assertExists(result.rows[0], 'Trash item', id);
+    return result.rows[0].storage_keys;
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Purge trash item');
+  }
+}
+
+/**
+ * Permanently delete every trash item older than the retention period
+ * @returns The purged items with the rows they held, and the storage keys
+ *   of their files
+ */
+export async function purgeExpiredTrash(
+  retentionDays: number
+): Promise<{
+  items: Array<{ id: number; workspace_id: number | null; contents: Record<string, any[]> }>;
+  storageKeys: string[];
+}> {
+  const query = `
+    DELETE FROM trash
+    WHERE deleted_at < NOW() - make_interval(days => $1)
+    RETURNING *, ${TRASH_STORAGE_KEYS}
+  `;
+
+  try {
+    const result = await pool.query(query, [retentionDays]);
+    return {
+      items: result.rows.map(({ storage_keys, ...item }) => item),
+      storageKeys: result.rows.flatMap((row) => row.storage_keys),
+    };
+  } catch (error) {
+    handleDatabaseError(error, 'Purge expired trash');
+  }
+}
@@ -0,0 +1,494 @@
+/**
+ * TechLedger Publishing Workflow Queries
+ * Review state of actions and sequences, and the published versions viewers see
+ */
+
+import { PoolClient } from 'pg';
+import pool from './connection';
+import {
+  Action,
+  ActionSequence,
+  ActionSequenceWithActions,
+  ActionSnapshot,
+  PaginatedResult,
+  PublicationStatus,
+  PublishedSequenceSnapshot,
+  QueryOptions,
+  ReviewQueueItem,
+  WorkflowEntityType,
+} from '../types/models';
+import {
+  ConflictError,
+  NotFoundError,
+  handleDatabaseError,
+  assertExists,
+  safeJSONParse,
+} from '../utils/errors';
+
+type Queryable = Pick<PoolClient, 'query'>;
+
+const WORKFLOW_TABLES: Record<WorkflowEntityType, { table: string; resource: string }> = {
+  action: { table: 'actions', resource: 'Action' },
+  action_sequence: { table: 'action_sequences', resource: 'Action Sequence' },
+};
+
+// Sequence content as it stands, for action_sequences.published_snapshot
+// (same shape as the backfill in migrations/011_add_publishing_workflow.sql)
+const SEQUENCE_SNAPSHOT = `jsonb_build_object(
+  'name', name,
+  'description', description,
+  'frequency', frequency,
+  'average_duration_minutes', average_duration_minutes,
+  'trigger_event', trigger_event,
+  'responsible_role_id', responsible_role_id,
+  'actions', COALESCE((
+    SELECT jsonb_agg(
+      jsonb_build_object('action_id', sa.action_id, 'order_number', sa.order_number, 'notes', sa.notes)
+      ORDER BY sa.order_number
+    )
+    FROM sequence_actions sa
+    WHERE sa.sequence_id = action_sequences.id
+  ), '[]'::jsonb)
+)`;
+
+// Set when an item is approved: its current content becomes what viewers see
+const PUBLISH_COLUMNS: Record<WorkflowEntityType, string> = {
+  action: `published_revision = (
+      SELECT MAX(revision_number) FROM action_revisions WHERE action_id = actions.id
+    ),
+    published_at = CURRENT_TIMESTAMP`,
+  action_sequence: `published_snapshot = ${SEQUENCE_SNAPSHOT},
+    published_at = CURRENT_TIMESTAMP`,
+};
+
+// Set when an item is archived: viewers stop seeing any version
+const UNPUBLISH_COLUMNS: Record<WorkflowEntityType, string> = {
+  action: 'published_revision = NULL, published_at = NULL',
+  action_sequence: 'published_snapshot = NULL, published_at = NULL',
+};
+
+export interface WorkflowTransition {
+  to: PublicationStatus;
+  from: PublicationStatus[];
+  reviewerId?: number;   // Submission: who reviews
+  reviewedBy?: number;   // Approval / change request: who reviewed
+  notes?: string | null;
+  publish?: boolean;     // Make the current content what viewers see
+  unpublish?: boolean;   // Stop showing any version to viewers
+}
+
+const statusLabel = (status: PublicationStatus): string => status.replace('_', ' ');
+
+/**
+ * Parse JSONB fields on an action or sequence row
+ */
+function parseWorkflowRow(entityType: WorkflowEntityType, row: any): any {
+  if (entityType === 'action') {
+    row.steps = safeJSONParse(row.steps);
+    row.screenshots = safeJSONParse(row.screenshots);
+  } else {
+    row.published_snapshot = safeJSONParse(row.published_snapshot);
+  }
+  return row;
+}
+
+/**
+ * Move an action or sequence to a new status, only if it is currently in one
+ * of `transition.from` (checked in the UPDATE, so concurrent edits can't slip in)
+ * @throws ConflictError if the item's status doesn't allow the transition
+ */
+export async function transitionWorkflow(
+  entityType: WorkflowEntityType,
+  id: number,
+  transition: WorkflowTransition
+): Promise<Action | ActionSequence> {
+  const { table, resource } = WORKFLOW_TABLES[entityType];
+  const sets = ['status = $2', 'updated_at = CURRENT_TIMESTAMP'];
+  const values: any[] = [id, transition.to, transition.from];
+  let paramCount = 4;
+
+  if (transition.reviewerId !== undefined) {
+    sets.push(`reviewer_id = $${paramCount++}`, 'submitted_at = CURRENT_TIMESTAMP');
+    values.push(transition.reviewerId);
+  }
+
+  if (transition.reviewedBy !== undefined) {
+    sets.push(`reviewed_by = $${paramCount++}`, 'reviewed_at = CURRENT_TIMESTAMP');
+    values.push(transition.reviewedBy);
+  }
+
+  if (transition.notes !== undefined) {
+    sets.push(`review_notes = $${paramCount++}`);
+    values.push(transition.notes);
+  }
+
+  if (transition.publish) sets.push(PUBLISH_COLUMNS[entityType]);
+  if (transition.unpublish) sets.push(UNPUBLISH_COLUMNS[entityType]);
+
+  const query = `
+    UPDATE ${table}
+    SET ${sets.join(', ')}
+    WHERE id = $1 AND status = ANY($3::VARCHAR[])
+    RETURNING *
+  `;
+
+  try {
+    const result = await pool.query(query, values);
+
+    if (!result.rows[0]) {
+      const current = await pool.query(`SELECT status FROM ${table} WHERE id = $1`, [id]);
+      assertExists(current.rows[0], resource, id);
+      throw new ConflictError(
+        `${resource} ${id} is ${statusLabel(current.rows[0].status)}; it must be ` +
+        `${transition.from.map(statusLabel).join(' or ')} to move to ${statusLabel(transition.to)}`
+      );
+    }
+
+    return parseWorkflowRow(entityType, result.rows[0]);
+  } catch (error) {
+    if (error instanceof NotFoundError || error instanceof ConflictError) throw error;
+    handleDatabaseError(error, `Move ${resource.toLowerCase()} to ${transition.to}`);
+  }
+}
+
+/**
+ * An edit to an item that isn't a draft sends it back to draft: a pending
+ * review no longer matches what was submitted, and the published version
+ * stays as it was until the edit is approved. Runs inside the caller's
+ * transaction when given a client.
+ * @returns Whether the status changed
+ */
+export async function returnToDraft(
+  db: Queryable,
+  entityType: WorkflowEntityType,
+  id: number
+): Promise<boolean> {
+  const result = await db.query(
+    `UPDATE ${WORKFLOW_TABLES[entityType].table}
+     SET status = 'draft'
+     WHERE id = $1 AND status <> 'draft'
+     RETURNING id`,
+    [id]
+  );
+  return result.rows.length > 0;
+}
+
+// ============================================================================
+// PUBLISHED VERSIONS
+// ============================================================================
+
+/**
+ * An action with its content replaced by the published revision's snapshot
+ */
+function toPublishedAction(row: any): Action {
+  const { published_snapshot, ...action } = row;
+  return {
+    ...parseWorkflowRow('action', action),
+    ...safeJSONParse<ActionSnapshot>(published_snapshot),
+    status: 'published',
+  };
+}
+
+const PUBLISHED_ACTIONS = `
+  SELECT a.*, r.snapshot AS published_snapshot
+  FROM actions a
+  INNER JOIN action_revisions r
+    ON r.action_id = a.id AND r.revision_number = a.published_revision
+`;
+
+const jsonArrayElements = (value: string) =>
+  `jsonb_array_elements(CASE WHEN jsonb_typeof(${value}) = 'array' THEN ${value} ELSE '[]'::jsonb END)`;
+
+/**
+ * Published actions as a table, for reports and search that read actions
+ * the way viewers see them: the content columns hold the published
+ * revision's. Archived and never-published actions aren't in it.
+ * Use in place of `actions` in a FROM clause.
+ */
+export const PUBLISHED_ACTION_ROWS = `(
+  SELECT pa.id, pa.system_id, pa.practice_group_id, pa.display_order,
+    pr.snapshot->>'title' AS title,
+    pr.snapshot->>'description' AS description,
+    pr.snapshot->'steps' AS steps,
+    pr.snapshot->'screenshots' AS screenshots,
+    pr.snapshot->>'frequency' AS frequency,
+    (pr.snapshot->>'average_duration_minutes')::INTEGER AS average_duration_minutes,
+    pr.snapshot->>'trigger_event' AS trigger_event,
+    (pr.snapshot->>'responsible_role_id')::INTEGER AS responsible_role_id,
+    ARRAY(
+      SELECT (system_id #>> '{}')::INTEGER FROM ${jsonArrayElements("pr.snapshot->'systems_touched'")} system_id
+    ) AS systems_touched
+  FROM actions pa
+  INNER JOIN action_revisions pr
+    ON pr.action_id = pa.id AND pr.revision_number = pa.published_revision
+)`;
+
+/**
+ * SQL condition: the screenshot is one a row of PUBLISHED_ACTION_ROWS shows,
+ * in its screenshot list or a step
+ */
+export const publishedActionShows = (action: string, screenshotId: string) => `${screenshotId}::text IN (
+  SELECT ref->>'screenshot_id' FROM ${jsonArrayElements(`${action}.screenshots`)} ref
+  UNION ALL
+  SELECT step->>'screenshot_id' FROM ${jsonArrayElements(`${action}.steps`)} step
+)`;
+
+/**
+ * Whether the published version of the screenshot's action shows it
+ */
+export async function isScreenshotPublished(screenshotId: number): Promise<boolean> {
+  const query = `
+    SELECT 1
+    FROM screenshots sc
+    INNER JOIN ${PUBLISHED_ACTION_ROWS} a ON a.id = sc.action_id
+    WHERE sc.id = $1 AND ${publishedActionShows('a', 'sc.id')}
+  `;
+
+  try {
+    const result = await pool.query(query, [screenshotId]);
+    return result.rows.length > 0;
+  } catch (error) {
+    handleDatabaseError(error, 'Check screenshot is published');
+  }
+}
+
+/**
+ * Published sequences as a table, like PUBLISHED_ACTION_ROWS
+ */
+export const PUBLISHED_SEQUENCE_ROWS = `(
+  SELECT ps.id, ps.practice_group_id,
+    ps.published_snapshot->>'name' AS name,
+    ps.published_snapshot->>'description' AS description
+  FROM action_sequences ps
+  WHERE ps.published_snapshot IS NOT NULL
+)`;
+
+/**
+ * The steps of published sequences as they were published; use in place
+ * of `sequence_actions`. Steps whose action isn't published are included.
+ */
+export const PUBLISHED_SEQUENCE_ACTION_ROWS = `(
+  SELECT ps.id AS sequence_id,
+    (entry->>'action_id')::INTEGER AS action_id,
+    (entry->>'order_number')::INTEGER AS order_number,
+    entry->>'notes' AS notes
+  FROM action_sequences ps,
+    ${jsonArrayElements("ps.published_snapshot->'actions'")} entry
+  WHERE ps.published_snapshot IS NOT NULL
+)`;
+
+/**
+ * The published version of an action
+ * @throws NotFoundError if it has never been published (or is archived)
+ */
+export async function getPublishedAction(id: number): Promise<Action> {
+  const query = `${PUBLISHED_ACTIONS} WHERE a.id = $1`;
+
+  try {
+    const result = await pool.query(query, [id]);
+    assertExists(result.rows[0], 'Published action', id);
+    return toPublishedAction(result.rows[0]);
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Get published action');
+  }
+}
+
+/**
+ * Published versions of the given actions, in the order given;
+ * actions without one are left out
+ */
+export async function getPublishedActions(ids: number[]): Promise<Action[]> {
+  if (ids.length === 0) return [];
+
+  const query = `${PUBLISHED_ACTIONS} WHERE a.id = ANY($1::INTEGER[])`;
+
+  try {
+    const result = await pool.query(query, [ids]);
+    const byId = new Map<number, Action>(
+      result.rows.map((row) => [row.id, toPublishedAction(row)])
+    );
+    return ids.filter((id) => byId.has(id)).map((id) => byId.get(id)!);
+  } catch (error) {
+    handleDatabaseError(error, 'Get published actions');
+  }
+}
+
+/**
+ * Published actions for a system, paginated like getActionsBySystemId
+ */
+export async function getPublishedActionsBySystemId(
+  systemId: number,
+  options: QueryOptions = {}
+): Promise<PaginatedResult<Action>> {
+  const limit = options.limit || 50;
+  const offset = options.offset || 0;
+  const orderBy = options.orderBy || 'created_at';
+  const orderDirection = options.orderDirection || 'DESC';
+
+  const countQuery = `
+    SELECT COUNT(*) FROM actions
+    WHERE system_id = $1 AND published_revision IS NOT NULL
+  `;
+  const dataQuery = `
+    ${PUBLISHED_ACTIONS}
+    WHERE a.system_id = $1
+    ORDER BY a.${orderBy} ${orderDirection}
+    LIMIT $2 OFFSET $3
+  `;
+
+  try {
+    const [countResult, dataResult] = await Promise.all([
+      pool.query(countQuery, [systemId]),
+      pool.query(dataQuery, [systemId, limit, offset]),
+    ]);
+
+    return {
+      data: dataResult.rows.map(toPublishedAction),
+      total: parseInt(countResult.rows[0].count),
+      limit,
+      offset,
+    };
+  } catch (error) {
+    handleDatabaseError(error, 'Get published actions by system');
+  }
+}
+
+/**
+ * Published actions linked to a task, paginated like getActionsForTask
+ */
+export async function getPublishedActionsForTask(
+  taskId: number,
+  options: QueryOptions = {}
+): Promise<PaginatedResult<Action & { display_order: number; notes: string | null }>> {
+  const limit = options.limit || 50;
+  const offset = options.offset || 0;
+
+  const countQuery = `
+    SELECT COUNT(*)
+    FROM actions a
+    INNER JOIN task_actions ta ON a.id = ta.action_id
+    WHERE ta.task_id = $1 AND a.published_revision IS NOT NULL
+  `;
+  // task_actions.display_order replaces the action's own display_order
+  const dataQuery = `
+    SELECT a.*, r.snapshot AS published_snapshot, ta.display_order, ta.notes
+    FROM actions a
+    INNER JOIN action_revisions r
+      ON r.action_id = a.id AND r.revision_number = a.published_revision
+    INNER JOIN task_actions ta ON a.id = ta.action_id
+    WHERE ta.task_id = $1
+    ORDER BY ta.display_order ASC
+    LIMIT $2 OFFSET $3
+  `;
+
+  try {
+    const [countResult, dataResult] = await Promise.all([
+      pool.query(countQuery, [taskId]),
+      pool.query(dataQuery, [taskId, limit, offset]),
+    ]);
+
+    return {
+      data: dataResult.rows.map((row: any) => ({
+        ...toPublishedAction(row),
+        display_order: row.display_order,
+        notes: row.notes,
+      })),
+      total: parseInt(countResult.rows[0].count),
+      limit,
+      offset,
+    };
+  } catch (error) {
+    handleDatabaseError(error, 'Get published actions for task');
+  }
+}
+
+/**
+ * The published version of a sequence, with the published version of each
+ * of its actions (actions that aren't published are left out)
+ * @throws NotFoundError if the sequence has never been published (or is archived)
+ */
+export async function getPublishedSequence(id: number): Promise<ActionSequenceWithActions> {
+  const query = 'SELECT * FROM action_sequences WHERE id = $1 AND published_snapshot IS NOT NULL';
+
+  let sequence: ActionSequence;
+  let snapshot: PublishedSequenceSnapshot;
+
+  try {
+    const result = await pool.query(query, [id]);
+    assertExists(result.rows[0], 'Published action sequence', id);
+    sequence = parseWorkflowRow('action_sequence', result.rows[0]);
+    snapshot = sequence.published_snapshot!;
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Get published action sequence');
+  }
+
+  const { actions: entries, ...content } = snapshot;
+  const actions = await getPublishedActions(entries.map((entry) => entry.action_id));
+  const actionsById = new Map(actions.map((action) => [action.id, action]));
+
+  return {
+    ...sequence,
+    ...content,
+    status: 'published',
+    actions: entries
+      .filter((entry) => actionsById.has(entry.action_id))
+      .map((entry) => ({
+        action: actionsById.get(entry.action_id)!,
+        order_number: entry.order_number,
+        notes: entry.notes,
+      })),
+  };
+}
+
+// ============================================================================
+// REVIEW QUEUE
+// ============================================================================
+
+/**
+ * Actions and sequences in a workspace waiting on a reviewer, oldest first
+ */
+export async function getReviewQueue(
+  workspaceId: number,
+  reviewerId: number
+): Promise<ReviewQueueItem[]> {
+  const query = `
+    SELECT * FROM (
+      SELECT
+        'action' AS entity_type, a.id, a.title, a.reviewer_id, a.submitted_at,
+        COALESCE(ls.id, ps.id) AS system_id,
+        COALESCE(ls.name, ps.name) AS system_name
+      FROM actions a
+      LEFT JOIN systems ls ON ls.id = a.system_id
+      LEFT JOIN practice_groups pg ON pg.id = a.practice_group_id
+      LEFT JOIN departments d ON d.id = pg.department_id
+      LEFT JOIN systems ps ON ps.id = d.system_id
+      WHERE a.status = 'in_review'
+        AND a.reviewer_id = $2
+        AND COALESCE(ls.workspace_id, ps.workspace_id) = $1
+
+      UNION ALL
+
+      SELECT
+        'action_sequence' AS entity_type, seq.id, seq.name AS title, seq.reviewer_id, seq.submitted_at,
+        s.id AS system_id,
+        s.name AS system_name
+      FROM action_sequences seq
+      INNER JOIN practice_groups pg ON pg.id = seq.practice_group_id
+      INNER JOIN departments d ON d.id = pg.department_id
+      INNER JOIN systems s ON s.id = d.system_id
+      WHERE seq.status = 'in_review'
+        AND seq.reviewer_id = $2
+        AND s.workspace_id = $1
+    ) queue
+    ORDER BY submitted_at ASC, entity_type, id
+  `;
+
+  try {
+    const result = await pool.query(query, [workspaceId, reviewerId]);
+    return result.rows;
+  } catch (error) {
+    handleDatabaseError(error, 'Get review queue');
+  }
+}
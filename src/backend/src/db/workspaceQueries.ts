@@ -0,0 +1,642 @@
+/**
+ * TechLedger Workspace Queries
+ * CRUD operations for: Workspaces, Workspace Members, System Permissions
+ * Plus lookups that resolve which workspace (and system) an entity belongs to
+ */
+
+import pool from './connection';
+import {
+  User,
+  Workspace,
+  CreateWorkspaceInput,
+  UpdateWorkspaceInput,
+  WorkspaceMember,
+  CreateWorkspaceMemberInput,
+  WorkspaceMemberWithUser,
+  WorkspaceRole,
+  SystemPermission,
+  SetSystemPermissionInput,
+  SystemPermissionWithUser,
+  WorkspaceEntityType,
+  EntityScope,
+} from '../types/models';
+import {
+  NotFoundError,
+  handleDatabaseError,
+  assertExists,
+} from '../utils/errors';
+
+// ============================================================================
+// WORKSPACE QUERIES
+// ============================================================================
+
+/**
+ * Create a new workspace
+ * The creator is added as its owner in the same transaction
+ */
+export async function createWorkspace(
+  input: CreateWorkspaceInput
+): Promise<Workspace> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const result = await client.query(
+      `INSERT INTO workspaces (name, created_by)
+       VALUES ($1, $2)
+       RETURNING *`,
+      [input.name, input.created_by]
+    );
+    const workspace = result.rows[0];
+
+    await client.query(
+      `INSERT INTO workspace_members (workspace_id, user_id, role)
+       VALUES ($1, $2, 'owner')`,
+      [workspace.id, input.created_by]
+    );
+
+    await client.query('COMMIT');
+    return workspace;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    handleDatabaseError(error, 'Workspace creation');
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get workspace by ID
+ */
+export async function getWorkspaceById(id: number): Promise<Workspace> {
+  const query = 'SELECT * FROM workspaces WHERE id = $1';
+
+  try {
+    const result = await pool.query(query, [id]);
+    assertExists(result.rows[0], 'Workspace', id);
+    return result.rows[0];
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Get workspace by ID');
+  }
+}
+
+/**
+ * Get all workspaces a user is a member of (oldest membership first)
+ */
+export async function getWorkspacesForUser(userId: number): Promise<Workspace[]> {
+  const query = `
+    SELECT w.*
+    FROM workspaces w
+    INNER JOIN workspace_members wm ON wm.workspace_id = w.id
+    WHERE wm.user_id = $1
+    ORDER BY wm.joined_at ASC, w.id ASC
+  `;
+
+  try {
+    const result = await pool.query(query, [userId]);
+    return result.rows;
+  } catch (error) {
+    handleDatabaseError(error, 'Get workspaces for user');
+  }
+}
+
+/**
+ * Get the workspace a user lands in when they don't pick one
+ * @returns The user's oldest workspace, or null if they have none
+ */
+export async function getDefaultWorkspaceForUser(
+  userId: number
+): Promise<Workspace | null> {
+  const workspaces = await getWorkspacesForUser(userId);
+  return workspaces[0] || null;
+}
+
+/**
+ * Get the user's default workspace, creating a personal one if needed
+ * Called on first sign-in so every user always has somewhere to work
+ */
+export async function getOrCreatePersonalWorkspace(user: User): Promise<Workspace> {
+  const existing = await getDefaultWorkspaceForUser(user.id);
+
+  if (existing) {
+    return existing;
+  }
+
+  return createWorkspace({
+    name: `${user.name}'s Workspace`,
+    created_by: user.id,
+  });
+}
+
+/**
+ * Update workspace by ID
+ */
+export async function updateWorkspace(
+  id: number,
+  input: UpdateWorkspaceInput
+): Promise<Workspace> {
+  const updates: string[] = [];
+  const values: any[] = [];
+  let paramCount = 1;
+
+  if (input.name !== undefined) {
+    updates.push(`name = $${paramCount++}`);
+    values.push(input.name);
+  }
+
+  updates.push(`updated_at = CURRENT_TIMESTAMP`);
+
+  const query = `
+    UPDATE workspaces
+    SET ${updates.join(', ')}
+    WHERE id = $${paramCount}
+    RETURNING *
+  `;
+  values.push(id);
+
+  try {
+    const result = await pool.query(query, values);
+    assertExists(result.rows[0], 'Workspace', id);
+    return result.rows[0];
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Update workspace');
+  }
+}
+
+// ============================================================================
+// WORKSPACE MEMBER QUERIES
+// ============================================================================
+
+/**
+ * Add a user to a workspace
+ */
+export async function addWorkspaceMember(
+  input: CreateWorkspaceMemberInput
+): Promise<WorkspaceMember> {
+  const query = `
+    INSERT INTO workspace_members (workspace_id, user_id, role)
+    VALUES ($1, $2, $3)
+    RETURNING *
+  `;
+
+  try {
+    const result = await pool.query(query, [
+      input.workspace_id,
+      input.user_id,
+      input.role || 'viewer',
+    ]);
+    return result.rows[0];
+  } catch (error) {
+    handleDatabaseError(error, 'Workspace membership');
+  }
+}
+
+/**
+ * Remove a user from a workspace
+ */
+export async function removeWorkspaceMember(
+  workspaceId: number,
+  userId: number
+): Promise<boolean> {
+  const query = `
+    DELETE FROM workspace_members
+    WHERE workspace_id = $1 AND user_id = $2
+    RETURNING id
+  `;
+
+  try {
+    const result = await pool.query(query, [workspaceId, userId]);
+    assertExists(
+      result.rows[0],
+      'Workspace member',
+      `workspace_id=${workspaceId}, user_id=${userId}`
+    );
+    return true;
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Remove workspace member');
+  }
+}
+
+/**
+ * Change a member's workspace role
+ */
+export async function updateWorkspaceMemberRole(
+  workspaceId: number,
+  userId: number,
+  role: WorkspaceRole
+): Promise<WorkspaceMember> {
+  const query = `
+    UPDATE workspace_members
+    SET role = $3
+    WHERE workspace_id = $1 AND user_id = $2
+    RETURNING *
+  `;
+
+  try {
+    const result = await pool.query(query, [workspaceId, userId, role]);
+    assertExists(
+      result.rows[0],
+      'Workspace member',
+      `workspace_id=${workspaceId}, user_id=${userId}`
+    );
+    return result.rows[0];
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Update workspace member role');
+  }
+}
+
+/**
+ * Count the owners of a workspace
+ * Used to stop the last owner from being removed or demoted
+ */
+export async function countWorkspaceOwners(workspaceId: number): Promise<number> {
+  const query = `
+    SELECT COUNT(*) FROM workspace_members
+    WHERE workspace_id = $1 AND role = 'owner'
+  `;
+
+  try {
+    const result = await pool.query(query, [workspaceId]);
+    return parseInt(result.rows[0].count);
+  } catch (error) {
+    handleDatabaseError(error, 'Count workspace owners');
+  }
+}
+
+/**
+ * Get a user's membership in a workspace
+ * @returns Membership or null if the user is not a member
+ */
+export async function getWorkspaceMembership(
+  workspaceId: number,
+  userId: number
+): Promise<WorkspaceMember | null> {
+  const query = `
+    SELECT * FROM workspace_members
+    WHERE workspace_id = $1 AND user_id = $2
+  `;
+
+  try {
+    const result = await pool.query(query, [workspaceId, userId]);
+    return result.rows[0] || null;
+  } catch (error) {
+    handleDatabaseError(error, 'Get workspace membership');
+  }
+}
+
+/**
+ * Get a membership by ID, with the member's user profile
+ */
+export async function getWorkspaceMemberById(id: number): Promise<WorkspaceMemberWithUser> {
+  const query = `
+    SELECT wm.*, u.name, u.email
+    FROM workspace_members wm
+    INNER JOIN users u ON u.id = wm.user_id
+    WHERE wm.id = $1
+  `;
+
+  try {
+    const result = await pool.query(query, [id]);
+    assertExists(result.rows[0], 'Workspace member', id);
+    return result.rows[0];
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Get workspace member by ID');
+  }
+}
+
+/**
+ * Get all members of a workspace with their user profiles
+ */
+export async function getWorkspaceMembers(
+  workspaceId: number
+): Promise<WorkspaceMemberWithUser[]> {
+  const query = `
+    SELECT wm.*, u.name, u.email
+    FROM workspace_members wm
+    INNER JOIN users u ON u.id = wm.user_id
+    WHERE wm.workspace_id = $1
+    ORDER BY wm.joined_at ASC
+  `;
+
+  try {
+    const result = await pool.query(query, [workspaceId]);
+    return result.rows;
+  } catch (error) {
+    handleDatabaseError(error, 'Get workspace members');
+  }
+}
+
+// ============================================================================
+// SYSTEM PERMISSION QUERIES
+// ============================================================================
+
+/**
+ * Set a member's role override for a system (insert or replace)
+ */
+export async function setSystemPermission(
+  input: SetSystemPermissionInput
+): Promise<SystemPermission> {
+  const query = `
+    INSERT INTO system_permissions (system_id, user_id, role)
+    VALUES ($1, $2, $3)
+    ON CONFLICT (system_id, user_id)
+    DO UPDATE SET role = EXCLUDED.role, updated_at = CURRENT_TIMESTAMP
+    RETURNING *
+  `;
+
+  try {
+    const result = await pool.query(query, [input.system_id, input.user_id, input.role]);
+    return result.rows[0];
+  } catch (error) {
+    handleDatabaseError(error, 'System permission');
+  }
+}
+
+/**
+ * Remove a member's role override for a system
+ */
+export async function removeSystemPermission(
+  systemId: number,
+  userId: number
+): Promise<boolean> {
+  const query = `
+    DELETE FROM system_permissions
+    WHERE system_id = $1 AND user_id = $2
+    RETURNING id
+  `;
+
+  try {
+    const result = await pool.query(query, [systemId, userId]);
+    assertExists(
+      result.rows[0],
+      'System permission',
+      `system_id=${systemId}, user_id=${userId}`
+    );
+    return true;
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Remove system permission');
+  }
+}
+
+/**
+ * Get all role overrides for a system with the users' profiles
+ */
+export async function getSystemPermissions(
+  systemId: number
+): Promise<SystemPermissionWithUser[]> {
+  const query = `
+    SELECT sp.*, u.name, u.email
+    FROM system_permissions sp
+    INNER JOIN users u ON u.id = sp.user_id
+    WHERE sp.system_id = $1
+    ORDER BY u.name ASC
+  `;
+
+  try {
+    const result = await pool.query(query, [systemId]);
+    return result.rows;
+  } catch (error) {
+    handleDatabaseError(error, 'Get system permissions');
+  }
+}
+
+/**
+ * Resolve the role a member effectively has, optionally inside a system
+ * Owners keep their role everywhere; anyone else gets the system's
+ * override if one exists, otherwise their workspace role
+ * @returns The role, or null if the user isn't a member of the workspace
+ */
+export async function getEffectiveRole(
+  workspaceId: number,
+  userId: number,
+  systemId: number | null
+): Promise<WorkspaceRole | null> {
+  const query = `
+    SELECT
+      CASE
+        WHEN wm.role = 'owner' THEN wm.role
+        ELSE COALESCE(sp.role, wm.role)
+      END AS role
+    FROM workspace_members wm
+    LEFT JOIN system_permissions sp
+      ON sp.user_id = wm.user_id AND sp.system_id = $3
+    WHERE wm.workspace_id = $1 AND wm.user_id = $2
+  `;
+
+  try {
+    const result = await pool.query(query, [workspaceId, userId, systemId]);
+    return result.rows[0]?.role || null;
+  } catch (error) {
+    handleDatabaseError(error, 'Get effective role');
+  }
+}
+
+// ============================================================================
+// OWNERSHIP LOOKUPS
+// ============================================================================
+
+/**
+ * Action → system, through either its legacy system_id or its practice group
+ */
+const ACTION_WORKSPACE_JOIN = `
+  LEFT JOIN systems s ON s.id = a.system_id
+  LEFT JOIN practice_groups pg ON pg.id = a.practice_group_id
+  LEFT JOIN departments d ON d.id = pg.department_id
+  LEFT JOIN systems ps ON ps.id = d.system_id
+`;
+
+/**
+ * One query per entity type; each returns workspace_id and system_id
+ * (system_id is NULL for entities that don't live inside a system)
+ */
+const WORKSPACE_LOOKUPS: Record<WorkspaceEntityType, { resource: string; query: string }> = {
+  system: {
+    resource: 'System',
+    query: 'SELECT workspace_id, id AS system_id FROM systems WHERE id = $1',
+  },
+  department: {
+    resource: 'Department',
+    query: `
+      SELECT s.workspace_id, s.id AS system_id
+      FROM departments d
+      INNER JOIN systems s ON s.id = d.system_id
+      WHERE d.id = $1
+    `,
+  },
+  practice_group: {
+    resource: 'Practice Group',
+    query: `
+      SELECT s.workspace_id, s.id AS system_id
+      FROM practice_groups pg
+      INNER JOIN departments d ON d.id = pg.department_id
+      INNER JOIN systems s ON s.id = d.system_id
+      WHERE pg.id = $1
+    `,
+  },
+  action: {
+    resource: 'Action',
+    query: `
+      SELECT
+        COALESCE(s.workspace_id, ps.workspace_id) AS workspace_id,
+        COALESCE(s.id, ps.id) AS system_id
+      FROM actions a
+      ${ACTION_WORKSPACE_JOIN}
+      WHERE a.id = $1
+    `,
+  },
+  action_sequence: {
+    resource: 'Action Sequence',
+    query: `
+      SELECT s.workspace_id, s.id AS system_id
+      FROM action_sequences seq
+      INNER JOIN practice_groups pg ON pg.id = seq.practice_group_id
+      INNER JOIN departments d ON d.id = pg.department_id
+      INNER JOIN systems s ON s.id = d.system_id
+      WHERE seq.id = $1
+    `,
+  },
+  screenshot: {
+    resource: 'Screenshot',
+    query: `
+      SELECT
+        COALESCE(s.workspace_id, ps.workspace_id) AS workspace_id,
+        COALESCE(s.id, ps.id) AS system_id
+      FROM screenshots sc
+      INNER JOIN actions a ON a.id = sc.action_id
+      ${ACTION_WORKSPACE_JOIN}
+      WHERE sc.id = $1
+    `,
+  },
+  role: {
+    resource: 'Role',
+    query: 'SELECT workspace_id, NULL::INTEGER AS system_id FROM roles WHERE id = $1',
+  },
+  task: {
+    resource: 'Task',
+    query: 'SELECT workspace_id, NULL::INTEGER AS system_id FROM tasks WHERE id = $1',
+  },
+  step_draft: {
+    resource: 'Step Draft',
+    query: `
+      SELECT
+        COALESCE(s.workspace_id, ps.workspace_id) AS workspace_id,
+        COALESCE(s.id, ps.id) AS system_id
+      FROM step_drafts sd
+      INNER JOIN actions a ON a.id = sd.action_id
+      ${ACTION_WORKSPACE_JOIN}
+      WHERE sd.id = $1
+    `,
+  },
+  capture_session: {
+    resource: 'Capture Session',
+    query: `
+      SELECT
+        COALESCE(s.workspace_id, ps.workspace_id, qs.workspace_id) AS workspace_id,
+        COALESCE(s.id, ps.id, qs.id) AS system_id
+      FROM capture_sessions cs
+      LEFT JOIN actions a ON a.id = cs.action_id
+      ${ACTION_WORKSPACE_JOIN}
+      LEFT JOIN action_sequences seq ON seq.id = cs.sequence_id
+      LEFT JOIN practice_groups qpg ON qpg.id = seq.practice_group_id
+      LEFT JOIN departments qd ON qd.id = qpg.department_id
+      LEFT JOIN systems qs ON qs.id = qd.system_id
+      WHERE cs.id = $1
+    `,
+  },
+  link: {
+    resource: 'Link',
+    query: 'SELECT workspace_id, NULL::INTEGER AS system_id FROM links WHERE id = $1',
+  },
+  zoho_workflow: {
+    resource: 'Zoho Workflow',
+    query: `
+      SELECT s.workspace_id, s.id AS system_id
+      FROM zoho_workflows zw
+      INNER JOIN systems s ON s.id = zw.system_id
+      WHERE zw.id = $1
+    `,
+  },
+  automation: {
+    resource: 'Automation',
+    query: `
+      SELECT s.workspace_id, s.id AS system_id
+      FROM automations au
+      INNER JOIN systems s ON s.id = au.system_id
+      WHERE au.id = $1
+    `,
+  },
+  drift_check: {
+    resource: 'Drift Check',
+    query: `
+      SELECT
+        COALESCE(s.workspace_id, ps.workspace_id) AS workspace_id,
+        COALESCE(s.id, ps.id) AS system_id
+      FROM screenshot_drift_checks dc
+      INNER JOIN screenshots sc ON sc.id = dc.screenshot_id
+      INNER JOIN actions a ON a.id = sc.action_id
+      ${ACTION_WORKSPACE_JOIN}
+      WHERE dc.id = $1
+    `,
+  },
+};
+
+/**
+ * Resolve which workspace and system an entity belongs to
+ * @throws NotFoundError if the entity doesn't exist
+ */
+export async function getEntityScope(
+  entityType: WorkspaceEntityType,
+  id: number
+): Promise<EntityScope> {
+  const lookup = WORKSPACE_LOOKUPS[entityType];
+
+  try {
+    const result = await pool.query(lookup.query, [id]);
+    assertExists(result.rows[0], lookup.resource, id);
+    return result.rows[0];
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, `Get ${lookup.resource.toLowerCase()} workspace`);
+  }
+}
+
+/**
+ * Resolve which workspace an entity belongs to
+ * @returns The workspace ID (null for legacy rows that were never backfilled)
+ * @throws NotFoundError if the entity doesn't exist
+ */
+export async function getEntityWorkspaceId(
+  entityType: WorkspaceEntityType,
+  id: number
+): Promise<number | null> {
+  const scope = await getEntityScope(entityType, id);
+  return scope.workspace_id;
+}
+
+/**
+ * Assert that an entity belongs to the given workspace
+ * Entities in other workspaces are reported as not found so their
+ * existence isn't leaked across tenants
+ * @returns The entity's scope, including the system it lives in
+ * @throws NotFoundError if the entity doesn't exist or lives elsewhere
+ */
+export async function assertEntityInWorkspace(
+  entityType: WorkspaceEntityType,
+  id: number,
+  workspaceId: number
+): Promise<EntityScope> {
+  const scope = await getEntityScope(entityType, id);
+
+  if (scope.workspace_id !== workspaceId) {
+    throw new NotFoundError(WORKSPACE_LOOKUPS[entityType].resource, id);
+  }
+
+  return scope;
+}
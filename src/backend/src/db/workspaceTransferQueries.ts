@@ -0,0 +1,624 @@
+/**
+ * TechLedger Workspace Transfer Queries
+ * Reading a workspace's whole graph out as rows, and writing an export back
+ * into a workspace under new IDs in a single transaction
+ */
+
+import { PoolClient } from 'pg';
+import pool from './connection';
+import { toActionSnapshot, getChangedFields } from './actionRevisionQueries';
+import {
+  Action,
+  ActionSnapshot,
+  ImportConflictStrategy,
+  PublishedSequenceSnapshot,
+  WorkspaceExport,
+  WorkspaceExportTable,
+  WorkspaceImportConflict,
+  WorkspaceImportResult,
+} from '../types/models';
+import {
+  ValidationError,
+  handleDatabaseError,
+  safeJSONParse,
+} from '../utils/errors';
+
+type ExportData = WorkspaceExport['data'];
+type ExportRow = Record<string, any>;
+
+// Rows belonging to a workspace ($1), for the scopes below
+const WORKSPACE_SYSTEMS = 'SELECT id FROM systems WHERE workspace_id = $1';
+const WORKSPACE_DEPARTMENTS = `SELECT id FROM departments WHERE system_id IN (${WORKSPACE_SYSTEMS})`;
+const WORKSPACE_PRACTICE_GROUPS = `SELECT id FROM practice_groups WHERE department_id IN (${WORKSPACE_DEPARTMENTS})`;
+const WORKSPACE_ACTIONS = `SELECT id FROM actions
+  WHERE system_id IN (${WORKSPACE_SYSTEMS}) OR practice_group_id IN (${WORKSPACE_PRACTICE_GROUPS})`;
+const WORKSPACE_SEQUENCES = `SELECT id FROM action_sequences WHERE practice_group_id IN (${WORKSPACE_PRACTICE_GROUPS})`;
+
+/**
+ * How each table is exported and imported. References:
+ * - parents: the row can't be imported without the row it points at
+ * - optional: cleared if the row it points at isn't imported
+ * Junction tables skip rows that already exist, which happens when both
+ * sides were matched to existing rows by a conflict resolution.
+ */
+interface TransferTable {
+  columns: string[];                   // Copied as they are
+  json?: string[];                     // JSONB columns among them
+  parents?: Record<string, WorkspaceExportTable>;
+  optional?: Record<string, WorkspaceExportTable>;
+  owner?: 'user_id' | 'created_by';    // Set to the importing user
+  workspace?: boolean;                 // Has its own workspace_id
+  junction?: boolean;
+  computed?: Record<string, string>;   // Exported only: name -> SQL expression
+  scope: string;                       // WHERE clause selecting the workspace's rows
+}
+
+const LINK_JUNCTION_COLUMNS = ['display_order', 'context_notes', 'created_at'];
+
+const TRANSFER_TABLES: Record<WorkspaceExportTable, TransferTable> = {
+  systems: {
+    columns: ['name', 'description', 'created_at', 'updated_at'],
+    owner: 'user_id',
+    workspace: true,
+    scope: 'workspace_id = $1',
+  },
+  departments: {
+    columns: ['name', 'description', 'display_order', 'created_at', 'updated_at'],
+    parents: { system_id: 'systems' },
+    scope: `system_id IN (${WORKSPACE_SYSTEMS})`,
+  },
+  practice_groups: {
+    columns: ['name', 'description', 'display_order', 'created_at', 'updated_at'],
+    parents: { department_id: 'departments' },
+    scope: `department_id IN (${WORKSPACE_DEPARTMENTS})`,
+  },
+  roles: {
+    columns: ['name', 'description', 'display_order', 'created_at'],
+    owner: 'user_id',
+    workspace: true,
+    scope: 'workspace_id = $1',
+  },
+  tasks: {
+    columns: ['name', 'description', 'display_order', 'created_at'],
+    owner: 'user_id',
+    workspace: true,
+    scope: 'workspace_id = $1',
+  },
+  links: {
+    columns: [
+      'url', 'title', 'description', 'link_type', 'auth_required', 'access_notes', 'status',
+      'verified_at', 'notes', 'thumbnail_url', 'open_in_new_tab', 'created_at', 'updated_at',
+    ],
+    owner: 'created_by',
+    workspace: true,
+    scope: 'workspace_id = $1',
+  },
+  actions: {
+    columns: [
+      'title', 'description', 'steps', 'screenshots', 'display_order', 'frequency',
+      'average_duration_minutes', 'trigger_event', 'systems_touched', 'status', 'published_at',
+      'created_at', 'updated_at',
+    ],
+    json: ['steps', 'screenshots'],
+    parents: { system_id: 'systems', practice_group_id: 'practice_groups' },
+    optional: { responsible_role_id: 'roles' },
+    computed: {
+      published_snapshot: `(SELECT r.snapshot FROM action_revisions r
+        WHERE r.action_id = actions.id AND r.revision_number = actions.published_revision)`,
+    },
+    scope: `id IN (${WORKSPACE_ACTIONS})`,
+  },
+  screenshots: {
+    columns: [
+      'storage_key', 'file_path', 'content_type', 'file_size', 'original_filename',
+      'ocr_data', 'vision_data', 'uploaded_at',
+    ],
+    json: ['ocr_data', 'vision_data'],
+    parents: { action_id: 'actions' },
+    // Whether its redactions are complete; the import can't scan masked text
+    computed: { scanned: '(redaction_status IS NOT NULL)' },
+    scope: `action_id IN (${WORKSPACE_ACTIONS})`,
+  },
+  action_sequences: {
+    columns: [
+      'name', 'description', 'frequency', 'average_duration_minutes', 'trigger_event', 'status',
+      'published_snapshot', 'published_at', 'created_at', 'updated_at',
+    ],
+    json: ['published_snapshot'],
+    parents: { practice_group_id: 'practice_groups' },
+    optional: { responsible_role_id: 'roles' },
+    scope: `practice_group_id IN (${WORKSPACE_PRACTICE_GROUPS})`,
+  },
+  sequence_actions: {
+    columns: ['order_number', 'notes'],
+    parents: { sequence_id: 'action_sequences', action_id: 'actions' },
+    junction: true,
+    scope: `sequence_id IN (${WORKSPACE_SEQUENCES})`,
+  },
+  task_actions: {
+    columns: ['display_order', 'notes'],
+    parents: { task_id: 'tasks', action_id: 'actions' },
+    junction: true,
+    scope: 'task_id IN (SELECT id FROM tasks WHERE workspace_id = $1)',
+  },
+  role_tasks: {
+    columns: ['display_order'],
+    parents: { role_id: 'roles', task_id: 'tasks' },
+    junction: true,
+    scope: 'role_id IN (SELECT id FROM roles WHERE workspace_id = $1)',
+  },
+  system_links: {
+    columns: LINK_JUNCTION_COLUMNS,
+    parents: { system_id: 'systems', link_id: 'links' },
+    junction: true,
+    scope: 'link_id IN (SELECT id FROM links WHERE workspace_id = $1)',
+  },
+  action_links: {
+    columns: LINK_JUNCTION_COLUMNS,
+    parents: { action_id: 'actions', link_id: 'links' },
+    junction: true,
+    scope: 'link_id IN (SELECT id FROM links WHERE workspace_id = $1)',
+  },
+  role_links: {
+    columns: LINK_JUNCTION_COLUMNS,
+    parents: { role_id: 'roles', link_id: 'links' },
+    junction: true,
+    scope: 'link_id IN (SELECT id FROM links WHERE workspace_id = $1)',
+  },
+  task_links: {
+    columns: LINK_JUNCTION_COLUMNS,
+    parents: { task_id: 'tasks', link_id: 'links' },
+    junction: true,
+    scope: 'link_id IN (SELECT id FROM links WHERE workspace_id = $1)',
+  },
+  zoho_workflows: {
+    columns: [
+      'name', 'module', 'trigger_type', 'definition', 'fields_read', 'fields_written',
+      'functions_called', 'created_at', 'updated_at',
+    ],
+    json: ['definition'],
+    parents: { system_id: 'systems' },
+    owner: 'created_by',
+    scope: `system_id IN (${WORKSPACE_SYSTEMS})`,
+  },
+  automations: {
+    columns: [
+      'name', 'description', 'trigger', 'conditions', 'condition_match', 'actions', 'schedule',
+      'is_active', 'created_at', 'updated_at',
+    ],
+    json: ['trigger', 'conditions', 'actions', 'schedule'],
+    parents: { system_id: 'systems' },
+    owner: 'created_by',
+    scope: `system_id IN (${WORKSPACE_SYSTEMS})`,
+  },
+  action_automations: {
+    columns: ['relationship', 'notes', 'created_at'],
+    parents: { action_id: 'actions', automation_id: 'automations' },
+    junction: true,
+    scope: `automation_id IN (SELECT id FROM automations WHERE system_id IN (${WORKSPACE_SYSTEMS}))`,
+  },
+  screenshot_annotations: {
+    columns: [
+      'type', 'step_number', 'x', 'y', 'width', 'height', 'end_x', 'end_y', 'color', 'note',
+      'display_order', 'created_at', 'updated_at',
+    ],
+    parents: { screenshot_id: 'screenshots' },
+    owner: 'created_by',
+    scope: `screenshot_id IN (SELECT id FROM screenshots WHERE action_id IN (${WORKSPACE_ACTIONS}))`,
+  },
+  // Kept so dismissed matches stay dismissed when imported screenshots are
+  // scanned; who dismissed them is a user of the other workspace
+  screenshot_redactions: {
+    columns: ['kind', 'x', 'y', 'width', 'height', 'preview', 'dismissed_at', 'created_at'],
+    parents: { screenshot_id: 'screenshots' },
+    scope: `screenshot_id IN (SELECT id FROM screenshots WHERE action_id IN (${WORKSPACE_ACTIONS}))`,
+  },
+};
+
+export const WORKSPACE_EXPORT_TABLES = Object.keys(TRANSFER_TABLES) as WorkspaceExportTable[];
+
+// Entities matched against what's already in the workspace, and by what
+const CONFLICT_KEYS: Partial<Record<WorkspaceExportTable, { entityType: WorkspaceImportConflict['entity_type']; column: string }>> = {
+  systems: { entityType: 'system', column: 'name' },
+  roles: { entityType: 'role', column: 'name' },
+  tasks: { entityType: 'task', column: 'name' },
+  links: { entityType: 'link', column: 'url' },
+};
+
+// Names compare case- and whitespace-insensitively; URLs exactly
+const conflictKey = (column: string, value: string): string =>
+  column === 'url' ? value : value.trim().toLowerCase();
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Every row of a workspace's graph, table by table, read from one consistent
+ * snapshot of the database
+ */
+export async function getWorkspaceExportData(workspaceId: number): Promise<ExportData> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY');
+
+    const data = {} as ExportData;
+
+    for (const table of WORKSPACE_EXPORT_TABLES) {
+      const spec = TRANSFER_TABLES[table];
+      const columns = [
+        'id',
+        ...Object.keys(spec.parents || {}),
+        ...Object.keys(spec.optional || {}),
+        ...spec.columns,
+        ...Object.entries(spec.computed || {}).map(([name, expression]) => `${expression} AS ${name}`),
+      ];
+
+      const result = await client.query(
+        `SELECT ${columns.join(', ')} FROM ${table} WHERE ${spec.scope} ORDER BY id`,
+        [workspaceId]
+      );
+
+      const json = [...(spec.json || []), ...Object.keys(spec.computed || {})];
+      data[table] = result.rows.map((row: ExportRow) => {
+        json.forEach((column) => { row[column] = safeJSONParse(row[column]); });
+        return row;
+      });
+    }
+
+    await client.query('COMMIT');
+    return data;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    handleDatabaseError(error, 'Export workspace');
+  } finally {
+    client.release();
+  }
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * Check that every parent reference points at a row in the export
+ * @throws ValidationError listing each dangling reference
+ */
+function assertReferencesResolve(data: ExportData): void {
+  const present = Object.fromEntries(
+    WORKSPACE_EXPORT_TABLES.map((table) => [table, new Set((data[table] || []).map((row) => row.id))])
+  ) as Record<WorkspaceExportTable, Set<number>>;
+  const errors: Record<string, string> = {};
+
+  for (const table of WORKSPACE_EXPORT_TABLES) {
+    (data[table] || []).forEach((row, index) => {
+      for (const [column, target] of Object.entries(TRANSFER_TABLES[table].parents || {})) {
+        const value = row[column];
+        if (value !== null && value !== undefined && !present[target].has(value)) {
+          errors[`${table}[${index}].${column}`] = `${target} ${value} is not in the export`;
+        }
+      }
+    });
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError('Invalid workspace export', errors);
+  }
+}
+
+// Screenshot, role and system references inside an action's content
+const remapActionContent = <T extends Partial<ActionSnapshot>>(
+  content: T,
+  ids: Record<WorkspaceExportTable, Map<number, number>>
+): T => ({
+  ...content,
+  steps: content.steps
+    ? content.steps.map(({ screenshot_id, ...step }) =>
+      screenshot_id !== undefined && ids.screenshots.has(screenshot_id)
+        ? { ...step, screenshot_id: ids.screenshots.get(screenshot_id)! }
+        : step)
+    : content.steps,
+  screenshots: content.screenshots
+    ? content.screenshots
+      .filter((ref) => ids.screenshots.has(ref.screenshot_id))
+      .map((ref) => ({ ...ref, screenshot_id: ids.screenshots.get(ref.screenshot_id)! }))
+    : content.screenshots,
+  responsible_role_id: content.responsible_role_id != null
+    ? ids.roles.get(content.responsible_role_id) ?? null
+    : content.responsible_role_id,
+  systems_touched: content.systems_touched
+    ? content.systems_touched.filter((id) => ids.systems.has(id)).map((id) => ids.systems.get(id)!)
+    : content.systems_touched,
+});
+
+const remapSequenceSnapshot = (
+  snapshot: PublishedSequenceSnapshot,
+  ids: Record<WorkspaceExportTable, Map<number, number>>
+): PublishedSequenceSnapshot => ({
+  ...snapshot,
+  responsible_role_id: snapshot.responsible_role_id !== null
+    ? ids.roles.get(snapshot.responsible_role_id) ?? null
+    : null,
+  actions: (snapshot.actions || [])
+    .filter((entry) => ids.actions.has(entry.action_id))
+    .map((entry) => ({ ...entry, action_id: ids.actions.get(entry.action_id)! })),
+});
+
+// A review in progress can't move between environments (the reviewer may
+// not exist there), so it comes back as a draft
+const importedStatus = (status: string | null): string =>
+  !status || status === 'in_review' ? 'draft' : status;
+
+/**
+ * Find the rows that clash with what's already in the workspace
+ */
+async function findConflicts(
+  client: PoolClient,
+  workspaceId: number,
+  data: ExportData,
+  onConflict: ImportConflictStrategy
+): Promise<{ conflicts: WorkspaceImportConflict[]; taken: Map<WorkspaceExportTable, Set<string>> }> {
+  const conflicts: WorkspaceImportConflict[] = [];
+  const taken = new Map<WorkspaceExportTable, Set<string>>();
+
+  for (const [table, { entityType, column }] of Object.entries(CONFLICT_KEYS) as Array<[WorkspaceExportTable, { entityType: WorkspaceImportConflict['entity_type']; column: string }]>) {
+    const existing = await client.query(
+      `SELECT id, ${column} AS value FROM ${table} WHERE workspace_id = $1`,
+      [workspaceId]
+    );
+    const byKey = new Map(existing.rows.map((row: any) => [conflictKey(column, row.value), row.id as number]));
+    taken.set(table, new Set(byKey.keys()));
+
+    for (const row of data[table] || []) {
+      const existingId = byKey.get(conflictKey(column, row[column]));
+      if (existingId === undefined) continue;
+
+      conflicts.push({
+        entity_type: entityType,
+        source_id: row.id,
+        name: row[column],
+        existing_id: existingId,
+        resolution: onConflict === 'fail'
+          ? null
+          : onConflict === 'rename'
+            ? 'renamed'
+            : table === 'systems' ? 'skipped' : 'reused',
+      });
+    }
+  }
+
+  return { conflicts, taken };
+}
+
+// Next free "<name> (imported)", "<name> (imported 2)"...
+const importedName = (name: string, taken: Set<string>): string => {
+  for (let n = 1; ; n++) {
+    const candidate = `${name} (imported${n > 1 ? ` ${n}` : ''})`;
+    if (!taken.has(conflictKey('name', candidate))) {
+      taken.add(conflictKey('name', candidate));
+      return candidate;
+    }
+  }
+};
+
+/**
+ * Write an export into a workspace with new IDs, in one transaction: either
+ * everything is imported or nothing is. Imported rows belong to `userId`.
+ * Actions get a fresh revision history: their published version (if it
+ * differs) and their current content.
+ * @param data - Validated export rows; screenshot rows must already point
+ *   at files in this environment's storage
+ * @param options.dryRun - Do everything, report it, then roll back
+ * @returns What was (or would be) created; when conflicts stop the import,
+ *   `imported` is false and nothing is written
+ * @throws ValidationError if a row references one the export doesn't contain
+ */
+export async function importWorkspaceData(
+  workspaceId: number,
+  userId: number,
+  data: ExportData,
+  options: { onConflict: ImportConflictStrategy; dryRun: boolean }
+): Promise<Omit<WorkspaceImportResult, 'source'>> {
+  assertReferencesResolve(data);
+
+  const ids = Object.fromEntries(
+    WORKSPACE_EXPORT_TABLES.map((table) => [table, new Map<number, number>()])
+  ) as Record<WorkspaceExportTable, Map<number, number>>;
+  const skippedIds = Object.fromEntries(
+    WORKSPACE_EXPORT_TABLES.map((table) => [table, new Set<number>()])
+  ) as Record<WorkspaceExportTable, Set<number>>;
+  const result: Omit<WorkspaceImportResult, 'source'> = {
+    imported: false,
+    dry_run: options.dryRun,
+    on_conflict: options.onConflict,
+    created: {},
+    skipped: {},
+    conflicts: [],
+    warnings: [],
+    id_map: {},
+  };
+  const count = (counts: WorkspaceImportResult['created'], table: WorkspaceExportTable) => {
+    counts[table] = (counts[table] || 0) + 1;
+  };
+
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const { conflicts, taken } = await findConflicts(client, workspaceId, data, options.onConflict);
+    result.conflicts = conflicts;
+
+    if (conflicts.length > 0 && options.onConflict === 'fail') {
+      await client.query('ROLLBACK');
+      return result;
+    }
+
+    const conflictFor = new Map(conflicts.map((conflict) => [`${conflict.entity_type}:${conflict.source_id}`, conflict]));
+    const importedActions: ExportRow[] = [];
+
+    for (const table of WORKSPACE_EXPORT_TABLES) {
+      const spec = TRANSFER_TABLES[table];
+      const conflictKeys = CONFLICT_KEYS[table];
+
+      for (const row of data[table] || []) {
+        const conflict = conflictKeys && conflictFor.get(`${conflictKeys.entityType}:${row.id}`);
+        const values: Record<string, any> = {};
+
+        if (conflict?.resolution === 'skipped') {
+          skippedIds[table].add(row.id);
+          count(result.skipped, table);
+          continue;
+        }
+        if (conflict?.resolution === 'reused') {
+          ids[table].set(row.id, conflict.existing_id);
+          continue;
+        }
+
+        // Parents: everything under a skipped row is skipped with it
+        let orphaned = false;
+        for (const [column, target] of Object.entries(spec.parents || {})) {
+          const value = row[column];
+          if (value === null || value === undefined) {
+            values[column] = null;
+          } else if (ids[target].has(value)) {
+            values[column] = ids[target].get(value);
+          } else {
+            orphaned = true;
+          }
+        }
+        if (orphaned) {
+          skippedIds[table].add(row.id);
+          count(result.skipped, table);
+          continue;
+        }
+
+        for (const [column, target] of Object.entries(spec.optional || {})) {
+          const value = row[column];
+          values[column] = value != null ? ids[target].get(value) ?? null : null;
+          if (value != null && values[column] === null) {
+            result.warnings.push(`${table} ${row.id}: ${column} ${value} is not in the export and was cleared`);
+          }
+        }
+
+        for (const column of spec.columns) {
+          values[column] = row[column] ?? null;
+        }
+        if (spec.owner) values[spec.owner] = userId;
+        if (spec.workspace) values.workspace_id = workspaceId;
+
+        if (conflict?.resolution === 'renamed') {
+          const nameColumn = table === 'links' ? 'title' : 'name';
+          values[nameColumn] = importedName(values[nameColumn], taken.get(table)!);
+        }
+
+        if (table === 'actions') {
+          values.status = importedStatus(values.status);
+          values.systems_touched = (values.systems_touched || [])
+            .filter((id: number) => ids.systems.has(id))
+            .map((id: number) => ids.systems.get(id));
+        }
+
+        if (table === 'action_sequences') {
+          values.status = importedStatus(values.status);
+          if (values.published_snapshot) {
+            values.published_snapshot = remapSequenceSnapshot(values.published_snapshot, ids);
+          } else if (values.status === 'published') {
+            values.status = 'draft';
+          }
+        }
+
+        for (const column of spec.json || []) {
+          values[column] = values[column] === null ? null : JSON.stringify(values[column]);
+        }
+
+        const columns = Object.keys(values);
+        const inserted = await client.query(
+          `INSERT INTO ${table} (${columns.join(', ')})
+           VALUES (${columns.map((_, i) => `$${i + 1}`).join(', ')})
+           ${spec.junction ? 'ON CONFLICT DO NOTHING' : ''}
+           RETURNING id`,
+          Object.values(values)
+        );
+
+        if (!inserted.rows[0]) {
+          count(result.skipped, table);  // Association already there
+          continue;
+        }
+
+        ids[table].set(row.id, inserted.rows[0].id);
+        count(result.created, table);
+
+        if (table === 'actions') {
+          importedActions.push(row);
+        }
+      }
+    }
+
+    // Screenshot IDs in action content are only known now that screenshots
+    // are in; then each action gets its revision history
+    for (const row of importedActions) {
+      const id = ids.actions.get(row.id)!;
+      const current = toActionSnapshot(remapActionContent({
+        ...row,
+        responsible_role_id: row.responsible_role_id,
+        systems_touched: row.systems_touched || [],
+      }, ids) as Action);
+      const published = row.published_snapshot
+        ? remapActionContent(row.published_snapshot as ActionSnapshot, ids)
+        : null;
+
+      const revisions: Array<{ snapshot: ActionSnapshot; changed: string[]; summary: string }> = [];
+      if (published && getChangedFields(published, current).length > 0) {
+        revisions.push({ snapshot: published, changed: [], summary: 'Imported (published version)' });
+        revisions.push({ snapshot: current, changed: getChangedFields(published, current), summary: 'Imported' });
+      } else {
+        revisions.push({ snapshot: current, changed: [], summary: 'Imported' });
+      }
+
+      for (const [index, revision] of revisions.entries()) {
+        await client.query(
+          `INSERT INTO action_revisions
+             (action_id, revision_number, snapshot, changed_fields, summary, created_by)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [id, index + 1, JSON.stringify(revision.snapshot), revision.changed, revision.summary, userId]
+        );
+      }
+
+      const status = importedStatus(row.status);
+      await client.query(
+        `UPDATE actions
+         SET steps = $2, screenshots = $3, published_revision = $4, status = $5
+         WHERE id = $1`,
+        [
+          id,
+          JSON.stringify(current.steps),
+          JSON.stringify(current.screenshots),
+          published ? 1 : null,
+          published || status !== 'published' ? status : 'draft',
+        ]
+      );
+    }
+
+    result.id_map = Object.fromEntries(
+      WORKSPACE_EXPORT_TABLES
+        .filter((table) => ids[table].size > 0)
+        .map((table) => [table, Object.fromEntries(ids[table])])
+    );
+
+    if (options.dryRun) {
+      await client.query('ROLLBACK');
+    } else {
+      await client.query('COMMIT');
+      result.imported = true;
+    }
+
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    handleDatabaseError(error, 'Import workspace');
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * TechLedger Zoho Workflow Queries
+ * Zoho CRM workflow rules documented against a system
+ */
+
+import pool from './connection';
+import {
+  PaginatedResult,
+  QueryOptions,
+  ZohoWorkflowFilters,
+  ZohoWorkflowRecord,
+  ZohoWorkflowTriggerType,
+} from '../types/models';
+import { ZohoWorkflow } from '../types/zohoWorkflow';
+import {
+  NotFoundError,
+  handleDatabaseError,
+  assertExists,
+  safeJSONParse,
+} from '../utils/errors';
+
+/**
+ * A rule ready to store, with what was extracted from it
+ */
+export interface ZohoWorkflowInput {
+  definition: ZohoWorkflow;
+  trigger_type: ZohoWorkflowTriggerType;
+  fields_read: string[];
+  fields_written: string[];
+  functions_called: string[];
+}
+
+/**
+ * Parse JSONB fields on a Zoho workflow row
+ */
+function parseZohoWorkflow(row: any): ZohoWorkflowRecord {
+  row.definition = safeJSONParse<ZohoWorkflow>(row.definition);
+  return row;
+}
+
+/**
+ * Get a Zoho workflow by ID
+ * @throws NotFoundError if not found
+ */
+export async function getZohoWorkflowById(id: number): Promise<ZohoWorkflowRecord> {
+  try {
+    const result = await pool.query('SELECT * FROM zoho_workflows WHERE id = $1', [id]);
+    assertExists(result.rows[0], 'Zoho Workflow', id);
+    return parseZohoWorkflow(result.rows[0]);
+  } catch (error) {
+    if (error instanceof NotFoundError) throw error;
+    handleDatabaseError(error, 'Get Zoho workflow');
+  }
+}
+
+/**
+ * List a system's Zoho workflows by name, optionally only those in a module,
+ * touching a field or calling a function
+ */
+export async function getZohoWorkflowsForSystem(
+  systemId: number,
+  filters: ZohoWorkflowFilters = {},
+  options: QueryOptions = {}
+): Promise<PaginatedResult<ZohoWorkflowRecord>> {
+  const limit = options.limit || 50;
+  const offset = options.offset || 0;
+
+  const conditions = ['system_id = $1'];
+  const values: any[] = [systemId];
+  let paramCount = 2;
+
+  if (filters.module) {
+    conditions.push(`LOWER(module) = LOWER($${paramCount++})`);
+    values.push(filters.module);
+  }
+
+  if (filters.field) {
+    conditions.push(`($${paramCount} = ANY(fields_read) OR $${paramCount} = ANY(fields_written))`);
+    paramCount++;
+    values.push(filters.field);
+  }
+
+  if (filters.function) {
+    conditions.push(`$${paramCount++} = ANY(functions_called)`);
+    values.push(filters.function);
+  }
+
+  const where = conditions.join(' AND ');
+  const countQuery = `SELECT COUNT(*) FROM zoho_workflows WHERE ${where}`;
+  const dataQuery = `
+    SELECT * FROM zoho_workflows
+    WHERE ${where}
+    ORDER BY name, id
+    LIMIT $${paramCount} OFFSET $${paramCount + 1}
+  `;
+
+  try {
+    const [countResult, dataResult] = await Promise.all([
+      pool.query(countQuery, values),
+      pool.query(dataQuery, [...values, limit, offset]),
+    ]);
+
+    return {
+      data: dataResult.rows.map(parseZohoWorkflow),
+      total: parseInt(countResult.rows[0].count),
+      limit,
+      offset,
+    };
+  } catch (error) {
+    handleDatabaseError(error, 'Get Zoho workflows');
+  }
+}
+
+/**
+ * IDs of a system's workflows with any of the given names
+ */
+export async function getZohoWorkflowIdsByName(systemId: number, names: string[]): Promise<number[]> {
+  try {
+    const result = await pool.query(
+      'SELECT id FROM zoho_workflows WHERE system_id = $1 AND name = ANY($2::TEXT[]) ORDER BY id',
+      [systemId, names]
+    );
+    return result.rows.map((row) => row.id);
+  } catch (error) {
+    handleDatabaseError(error, 'Get Zoho workflow IDs by name');
+  }
+}
+
+/**
+ * Store workflows against a system in one transaction. A workflow with the
+ * same name as one already documented replaces it.
+ * @returns The stored rows, split by whether they were new
+ */
+export async function saveZohoWorkflows(
+  systemId: number,
+  workflows: ZohoWorkflowInput[],
+  userId: number | null
+): Promise<{ created: ZohoWorkflowRecord[]; updated: ZohoWorkflowRecord[] }> {
+  const client = await pool.connect();
+  const created: ZohoWorkflowRecord[] = [];
+  const updated: ZohoWorkflowRecord[] = [];
+
+  try {
+    await client.query('BEGIN');
+
+    for (const workflow of workflows) {
+      const result = await client.query(
+        `INSERT INTO zoho_workflows (
+           system_id, name, module, trigger_type, definition,
+           fields_read, fields_written, functions_called, created_by
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         ON CONFLICT (system_id, name) DO UPDATE SET
+           module = EXCLUDED.module,
+           trigger_type = EXCLUDED.trigger_type,
+           definition = EXCLUDED.definition,
+           fields_read = EXCLUDED.fields_read,
+           fields_written = EXCLUDED.fields_written,
+           functions_called = EXCLUDED.functions_called,
+           updated_at = CURRENT_TIMESTAMP
+         RETURNING *, (xmax = 0) AS inserted`,
+        [
+          systemId,
+          workflow.definition.workflow_name.trim(),
+          workflow.definition.module.trim(),
+          workflow.trigger_type,
+          JSON.stringify(workflow.definition),
+          workflow.fields_read,
+          workflow.fields_written,
+          workflow.functions_called,
+          userId,
+        ]
+      );
+
+      // xmax is 0 for a freshly inserted row and set on one that was updated
+      const { inserted, ...row } = result.rows[0];
+      (inserted ? created : updated).push(parseZohoWorkflow(row));
+    }
+
+    await client.query('COMMIT');
+    return { created, updated };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    handleDatabaseError(error, 'Save Zoho workflows');
+  } finally {
+    client.release();
+  }
+}
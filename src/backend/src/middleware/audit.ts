@@ -0,0 +1,113 @@
+import { Request, Response, NextFunction } from 'express';
+import { createAuditEntry } from '../db/auditQueries';
+import { loadEntitySnapshot } from '../services/auditService';
+import { AuditEntityType, AuditOperation } from '../types/models';
+
+export interface AuditOptions {
+  // Where the entity ID is for updates and deletes: a route param
+  // (default 'id') or a lookup, e.g. a draft's action. A lookup can name
+  // several entities (e.g. a bulk write); each gets its own entry.
+  entityId?: string | ((req: Request) => Promise<number | number[]>);
+  // Where a created entity's ID is in the response body (default data.id
+  // or id); several IDs give an entry each
+  createdId?: (body: any) => number | number[] | undefined;
+  // What to record as the state (default the entity itself); routes that
+  // change a junction record the parent's list instead
+  snapshot?: (id: number) => Promise<unknown>;
+  // What to record as the state after, taken from the response body instead
+  // of reading the entity again; undefined records nothing (e.g. a dry run)
+  result?: (body: any) => unknown;
+  // Which workspace the entry belongs to (default the request's); routes
+  // under /workspaces/:id name it in the URL instead
+  workspaceId?: (req: Request) => number;
+}
+
+async function resolveEntityIds(req: Request, source: AuditOptions['entityId'] = 'id'): Promise<number[] | undefined> {
+  if (typeof source === 'function') {
+    return [(await source(req))].flat();
+  }
+
+  const id = parseInt(req.params[source] as string);
+  return isNaN(id) ? undefined : [id];
+}
+
+// Middleware factory to record a mutation in the audit log. Must run after
+// resolveWorkspace (and authorize, so rejected requests cost nothing).
+// The state before is read up front; the state after is read and the entry
+// written once a successful response has been sent. Audit failures are
+// logged, never surfaced to the caller.
+export const audit = (
+  entityType: AuditEntityType,
+  operation: AuditOperation,
+  options: AuditOptions = {}
+) => {
+  const snapshot = options.snapshot
+    || ((id: number) => loadEntitySnapshot(entityType, id));
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    let entityIds: number[] | undefined;
+    const before = new Map<number, unknown>();
+
+    try {
+      if (operation !== 'create') {
+        entityIds = await resolveEntityIds(req, options.entityId);
+        for (const id of entityIds || []) {
+          before.set(id, await snapshot(id).catch(() => null));
+        }
+      }
+    } catch (error) {
+      // The route reports a missing entity itself
+      entityIds = undefined;
+    }
+
+    let responseBody: any;
+    const json = res.json.bind(res);
+    res.json = (body: any) => {
+      responseBody = body;
+      return json(body);
+    };
+
+    res.on('finish', async () => {
+      if (res.statusCode >= 400) return;
+
+      try {
+        const created = options.createdId
+          ? options.createdId(responseBody)
+          : responseBody?.data?.id ?? responseBody?.id;
+        const ids = entityIds ?? (created === undefined ? undefined : [created].flat());
+
+        if (ids === undefined) {
+          console.error(`❌ Audit: no ${entityType} ID for ${req.method} ${req.originalUrl}`);
+          return;
+        }
+
+        for (const id of ids) {
+          let after: unknown = null;
+          if (options.result) {
+            after = options.result(responseBody);
+            if (after === undefined) return;
+          } else if (operation !== 'delete') {
+            after = await snapshot(id).catch(() => null);
+          }
+
+          await createAuditEntry({
+            workspace_id: options.workspaceId?.(req) ?? req.workspace?.id ?? null,
+            actor_user_id: req.workspace?.userId ?? null,
+            actor_clerk_id: req.auth?.userId ?? null,
+            operation,
+            entity_type: entityType,
+            entity_id: id,
+            before_state: before.get(id) ?? null,
+            after_state: after,
+            request_method: req.method,
+            request_path: req.originalUrl.split('?')[0],
+          });
+        }
+      } catch (error) {
+        console.error(`❌ Failed to write audit entry for ${req.method} ${req.originalUrl}:`, error);
+      }
+    });
+
+    next();
+  };
+};
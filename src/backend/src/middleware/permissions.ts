@@ -0,0 +1,206 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  assertEntityInWorkspace,
+  getEffectiveRole,
+  getWorkspaceMembership,
+} from '../db/workspaceQueries';
+import { isScreenshotPublished } from '../db/workflowQueries';
+import { WorkspaceEntityType, WorkspaceRole } from '../types/models';
+import { NotFoundError, ForbiddenError } from '../utils/errors';
+
+// What a request needs to do
+// - read: view documentation
+// - write: create, edit or delete documentation
+// - admin: manage the workspace, its members and system overrides
+export type Permission = 'read' | 'write' | 'admin';
+
+const ROLE_PERMISSIONS: Record<WorkspaceRole, Permission[]> = {
+  owner: ['read', 'write', 'admin'],
+  editor: ['read', 'write'],
+  viewer: ['read'],
+};
+
+const PERMISSION_VERBS: Record<Permission, string> = {
+  read: 'view',
+  write: 'modify',
+  admin: 'manage',
+};
+
+export function roleAllows(role: WorkspaceRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// Check that the caller may act on an entity (or on the workspace as a whole
+// when no entity is given). Per-system overrides apply to entities that live
+// inside a system. Throws NotFoundError for entities outside the caller's
+// workspace and ForbiddenError when their role isn't enough.
+export async function assertPermission(
+  req: Request,
+  permission: Permission,
+  entityType?: WorkspaceEntityType,
+  id?: number
+): Promise<void> {
+  const workspace = req.workspace!;
+  let role: WorkspaceRole | null = workspace.role;
+  let target = 'this workspace';
+
+  if (entityType && id !== undefined) {
+    const scope = await assertEntityInWorkspace(entityType, id, workspace.id);
+
+    if (scope.system_id !== null) {
+      role = await getEffectiveRole(workspace.id, workspace.userId, scope.system_id);
+      target = 'this system';
+    }
+  }
+
+  if (!role || !roleAllows(role, permission)) {
+    throw new ForbiddenError(
+      `Your ${role || 'current'} role does not allow you to ${PERMISSION_VERBS[permission]} ${target}`
+    );
+  }
+}
+
+// Like assertPermission, but answers instead of throwing on a missing role
+export async function hasPermission(
+  req: Request,
+  permission: Permission,
+  entityType?: WorkspaceEntityType,
+  id?: number
+): Promise<boolean> {
+  try {
+    await assertPermission(req, permission, entityType, id);
+    return true;
+  } catch (error) {
+    if (error instanceof ForbiddenError) return false;
+    throw error;
+  }
+}
+
+// Whether a read should return the published version of documentation.
+// Viewers only ever see what has been published; editors see the version
+// they are working on unless they ask for ?version=published. Without an
+// entity (e.g. for search) the caller's workspace role decides.
+export async function readsPublishedVersion(
+  req: Request,
+  entityType?: WorkspaceEntityType,
+  id?: number
+): Promise<boolean> {
+  if (req.query.version === 'published') return true;
+  return !(await hasPermission(req, 'write', entityType, id));
+}
+
+// Send the response for a failed permission check
+function sendPermissionError(res: Response, error: any) {
+  if (error instanceof NotFoundError || error instanceof ForbiddenError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+    });
+  }
+
+  console.error('❌ Permission check error:', error);
+  return res.status(500).json({
+    success: false,
+    error: error.message || 'Failed to verify permissions',
+  });
+}
+
+// Middleware factory to enforce a permission. Must run after resolveWorkspace.
+// Without an entity the caller's workspace role is checked; with one, the
+// entity must belong to the caller's workspace and their role for it (after
+// per-system overrides) must allow the permission.
+// Missing body/query values are left for the route's own validation.
+export const authorize = (
+  permission: Permission,
+  entityType?: WorkspaceEntityType,
+  field?: string,
+  source: 'params' | 'body' | 'query' = 'params'
+) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!entityType || !field) {
+        await assertPermission(req, permission);
+        return next();
+      }
+
+      const container: any = req[source] || {};
+      const rawValue = container[field];
+
+      if (source !== 'params' && (rawValue === undefined || rawValue === null)) {
+        return next();
+      }
+
+      const id = parseInt(rawValue);
+
+      if (isNaN(id)) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid ${field}`,
+        });
+      }
+
+      await assertPermission(req, permission, entityType, id);
+
+      next();
+    } catch (error: any) {
+      return sendPermissionError(res, error);
+    }
+  };
+};
+
+// Middleware factory for /workspaces/:id routes, where the workspace comes
+// from the URL rather than X-Workspace-Id. Non-members get a 404.
+// Must run after resolveWorkspace.
+export const authorizeWorkspace = (permission: Permission, paramName: string = 'id') => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const workspaceId = parseInt(req.params[paramName] as string);
+
+      if (isNaN(workspaceId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid workspace ID',
+        });
+      }
+
+      const membership = await getWorkspaceMembership(workspaceId, req.workspace!.userId);
+
+      if (!membership) {
+        throw new NotFoundError('Workspace', workspaceId);
+      }
+
+      if (!roleAllows(membership.role, permission)) {
+        throw new ForbiddenError(
+          `Your ${membership.role} role does not allow you to ${PERMISSION_VERBS[permission]} this workspace`
+        );
+      }
+
+      next();
+    } catch (error: any) {
+      return sendPermissionError(res, error);
+    }
+  };
+};
+
+// Middleware for reading a screenshot by ID. Callers who read the published
+// version (see readsPublishedVersion) only see screenshots the published
+// version of their action shows; others are a 404, as a draft action is.
+// Must run after authorize(..., 'screenshot', paramName).
+export const authorizePublishedScreenshot = (paramName: string = 'id') => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const screenshotId = parseInt(req.params[paramName] as string);
+
+      if (
+        await readsPublishedVersion(req, 'screenshot', screenshotId)
+        && !(await isScreenshotPublished(screenshotId))
+      ) {
+        throw new NotFoundError('Published screenshot', screenshotId);
+      }
+
+      next();
+    } catch (error: any) {
+      return sendPermissionError(res, error);
+    }
+  };
+};
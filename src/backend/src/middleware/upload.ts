@@ -0,0 +1,39 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import path from 'path';
+
+// Files are kept in memory and handed to the storage backend,
+// so nothing touches the API server's disk unless the local backend is used
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB
+  },
+  fileFilter: (req, file, cb) => {
+    const allowedTypes = /jpeg|jpg|png|gif/;
+    const extname = allowedTypes.test(
+      path.extname(file.originalname).toLowerCase()
+    );
+    const mimetype = allowedTypes.test(file.mimetype);
+
+    if (mimetype && extname) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only image files are allowed'));
+    }
+  },
+});
+
+// Accept a single 'screenshot' file, turning multer errors (wrong type,
+// too large) into 400s instead of unhandled errors
+export const receiveScreenshot = (req: Request, res: Response, next: NextFunction) => {
+  upload.single('screenshot')(req, res, (error: any) => {
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+    next();
+  });
+};
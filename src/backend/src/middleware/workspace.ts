@@ -0,0 +1,76 @@
+import { Request, Response, NextFunction } from 'express';
+import { getUserByClerkId } from '../db/queries';
+import {
+  getWorkspaceMembership,
+  getOrCreatePersonalWorkspace,
+} from '../db/workspaceQueries';
+import { ForbiddenError } from '../utils/errors';
+
+// Middleware to resolve the caller's workspace
+// Must run after requireAuth. Clients pick a workspace with the
+// X-Workspace-Id header; without it the user's default workspace is used.
+export const resolveWorkspace = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const clerkUserId = req.auth?.userId;
+
+    if (!clerkUserId) {
+      return res.status(401).json({
+        success: false,
+        error: 'Not authenticated',
+      });
+    }
+
+    const user = await getUserByClerkId(clerkUserId);
+
+    if (!user) {
+      return res.status(403).json({
+        success: false,
+        error: 'No TechLedger profile for this account. Call GET /api/users/me first',
+      });
+    }
+
+    const requestedWorkspace = req.header('X-Workspace-Id');
+    let workspaceId: number;
+
+    if (requestedWorkspace) {
+      workspaceId = parseInt(requestedWorkspace);
+
+      if (isNaN(workspaceId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid X-Workspace-Id header',
+        });
+      }
+    } else {
+      const workspace = await getOrCreatePersonalWorkspace(user);
+      workspaceId = workspace.id;
+    }
+
+    const membership = await getWorkspaceMembership(workspaceId, user.id);
+
+    if (!membership) {
+      throw new ForbiddenError('You are not a member of this workspace');
+    }
+
+    req.workspace = { id: workspaceId, userId: user.id, role: membership.role };
+
+    next();
+  } catch (error: any) {
+    if (error instanceof ForbiddenError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('❌ Workspace middleware error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to resolve workspace',
+    });
+  }
+};
@@ -4,6 +4,7 @@ import {
   createAction,
   getActionsBySystemId 
 } from './db';
+import { getOrCreatePersonalWorkspace } from './db/workspaceQueries';
 
 async function quickDemo() {
   try {
@@ -15,9 +16,11 @@ async function quickDemo() {
     });
     console.log('✅ User created:', user.id);
 
-    // 2. Create a system for that user
+    // 2. Create a system in that user's workspace
     console.log('\nCreating system...');
+    const workspace = await getOrCreatePersonalWorkspace(user);
     const system = await createSystem({
+      workspace_id: workspace.id,
       user_id: user.id,
       name: 'Salesforce',
       description: 'Our CRM system'
@@ -0,0 +1,219 @@
+/**
+ * Action Revision Routes
+ *
+ * REST API endpoints for an action's change history: list revisions,
+ * view one, compare two step by step, and restore an earlier one.
+ * Revisions include unpublished drafts, so only editors can see them.
+ * Base path: /api/actions/:actionId/revisions
+ */
+
+import express, { Request, Response } from 'express';
+import * as actionRevisionQueries from '../db/actionRevisionQueries';
+import { diffActionRevisions, restoreActionRevision } from '../services/actionRevisionService';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { requireAuth } from '../middleware/auth';
+import { resolveWorkspace } from '../middleware/workspace';
+import { authorize } from '../middleware/permissions';
+import { audit } from '../middleware/audit';
+
+const router = express.Router();
+
+// ============================================================================
+// ACTION REVISION ENDPOINTS
+// ============================================================================
+
+/**
+ * GET /api/actions/:actionId/revisions
+ * List an action's revisions, newest first, with who made each change
+ * and which fields it touched
+ *
+ * Query params:
+ * - limit: number (default: 50)
+ * - offset: number (default: 0)
+ */
+router.get('/actions/:actionId/revisions', requireAuth, resolveWorkspace, authorize('write', 'action', 'actionId'), async (req: Request, res: Response) => {
+  try {
+    const actionId = parseInt(req.params.actionId as string);
+
+    if (isNaN(actionId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid action ID',
+      });
+    }
+
+    const options = {
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
+    };
+
+    const result = await actionRevisionQueries.getActionRevisions(actionId, options);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    console.error(`GET /api/actions/${req.params.actionId}/revisions error:`, error);
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch revisions',
+    });
+  }
+});
+
+/**
+ * GET /api/actions/:actionId/revisions/diff
+ * Structured diff between two revisions: changed fields, plus each step
+ * marked added, removed, modified or unchanged
+ *
+ * Query params:
+ * - from: number (required) - revision number to compare from
+ * - to: number (optional, default latest) - revision number to compare to
+ */
+router.get('/actions/:actionId/revisions/diff', requireAuth, resolveWorkspace, authorize('write', 'action', 'actionId'), async (req: Request, res: Response) => {
+  try {
+    const actionId = parseInt(req.params.actionId as string);
+    const from = parseInt(req.query.from as string);
+
+    if (isNaN(actionId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid action ID',
+      });
+    }
+
+    if (isNaN(from)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Query parameter from must be a revision number',
+      });
+    }
+
+    let to: number;
+    if (req.query.to) {
+      to = parseInt(req.query.to as string);
+
+      if (isNaN(to)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Query parameter to must be a revision number',
+        });
+      }
+    } else {
+      const latest = await actionRevisionQueries.getActionRevisions(actionId, { limit: 1 });
+      to = latest.data[0]?.revision_number ?? from;
+    }
+
+    const diff = await diffActionRevisions(actionId, from, to);
+
+    res.json({
+      success: true,
+      data: diff,
+    });
+  } catch (error: any) {
+    console.error(`GET /api/actions/${req.params.actionId}/revisions/diff error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to compare revisions',
+    });
+  }
+});
+
+/**
+ * GET /api/actions/:actionId/revisions/:revisionNumber
+ * Get one revision, including the action's content as of that revision
+ */
+router.get('/actions/:actionId/revisions/:revisionNumber', requireAuth, resolveWorkspace, authorize('write', 'action', 'actionId'), async (req: Request, res: Response) => {
+  try {
+    const actionId = parseInt(req.params.actionId as string);
+    const revisionNumber = parseInt(req.params.revisionNumber as string);
+
+    if (isNaN(actionId) || isNaN(revisionNumber)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid action ID or revision number',
+      });
+    }
+
+    const revision = await actionRevisionQueries.getActionRevision(actionId, revisionNumber);
+
+    res.json({
+      success: true,
+      data: revision,
+    });
+  } catch (error: any) {
+    console.error(`GET /api/actions/${req.params.actionId}/revisions/${req.params.revisionNumber} error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch revision',
+    });
+  }
+});
+
+/**
+ * POST /api/actions/:actionId/revisions/:revisionNumber/restore
+ * Put the action back to an earlier revision. Recorded as a new revision,
+ * so the restore itself can be undone.
+ */
+router.post('/actions/:actionId/revisions/:revisionNumber/restore', requireAuth, resolveWorkspace, authorize('write', 'action', 'actionId'), audit('action', 'update', { entityId: 'actionId' }), async (req: Request, res: Response) => {
+  try {
+    const actionId = parseInt(req.params.actionId as string);
+    const revisionNumber = parseInt(req.params.revisionNumber as string);
+
+    if (isNaN(actionId) || isNaN(revisionNumber)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid action ID or revision number',
+      });
+    }
+
+    const action = await restoreActionRevision(actionId, revisionNumber, req.workspace!.userId);
+
+    res.json({
+      success: true,
+      data: action,
+      message: `Action restored to revision ${revisionNumber}`,
+    });
+  } catch (error: any) {
+    console.error(`POST /api/actions/${req.params.actionId}/revisions/${req.params.revisionNumber}/restore error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to restore revision',
+    });
+  }
+});
+
+export default router;
@@ -7,20 +7,45 @@
 
 import express, { Request, Response } from 'express';
 import * as queries from '../db/queries';
-import { validateRequired, validatePositiveInteger } from '../utils/validation';
-import { NotFoundError, ValidationError } from '../utils/errors';
+import * as trashQueries from '../db/trashQueries';
+import * as ocrJobQueries from '../db/ocrJobQueries';
+import * as workflowQueries from '../db/workflowQueries';
+import { maskScreenshot } from '../services/screenshotRedactionService';
+import {
+  validateRequired,
+  validatePositiveInteger,
+  validateCreateAction,
+  validateUpdateAction,
+} from '../utils/validation';
+import { NotFoundError, ValidationError, ForbiddenError } from '../utils/errors';
+import { requireAuth } from '../middleware/auth';
+import { resolveWorkspace } from '../middleware/workspace';
+import { authorize, assertPermission, readsPublishedVersion } from '../middleware/permissions';
+import { audit } from '../middleware/audit';
 
 const router = express.Router();
 
+// Every system listed in systems_touched must be visible to the caller
+async function assertSystemsTouchedVisible(req: Request, systemIds: unknown): Promise<void> {
+  if (!Array.isArray(systemIds)) return;  // Shape is checked by validation
+
+  for (const systemId of systemIds) {
+    if (validatePositiveInteger(systemId)) {
+      await assertPermission(req, 'read', 'system', systemId);
+    }
+  }
+}
+
 // ============================================================================
 // ACTION ENDPOINTS
 // ============================================================================
 
 /**
  * GET /api/actions/:id
- * Get a single action by ID
+ * Get a single action by ID. Viewers get the published version; editors get
+ * the version they are working on unless they pass ?version=published.
  */
-router.get('/actions/:id', async (req: Request, res: Response) => {
+router.get('/actions/:id', requireAuth, resolveWorkspace, authorize('read', 'action', 'id'), async (req: Request, res: Response) => {
   try {
     const actionId = parseInt(req.params.id);
 
@@ -31,7 +56,9 @@ router.get('/actions/:id', async (req: Request, res: Response) => {
       });
     }
 
-    const action = await queries.getActionById(actionId);
+    const action = await readsPublishedVersion(req, 'action', actionId)
+      ? await workflowQueries.getPublishedAction(actionId)
+      : await queries.getActionById(actionId);
 
     res.json({
       success: true,
@@ -57,8 +84,9 @@ router.get('/actions/:id', async (req: Request, res: Response) => {
 /**
  * GET /api/actions/:id/with-system
  * Get an action with its system information (JOIN query)
+ * Published or working version as for GET /api/actions/:id
  */
-router.get('/actions/:id/with-system', async (req: Request, res: Response) => {
+router.get('/actions/:id/with-system', requireAuth, resolveWorkspace, authorize('read', 'action', 'id'), async (req: Request, res: Response) => {
   try {
     const actionId = parseInt(req.params.id);
 
@@ -69,7 +97,12 @@ router.get('/actions/:id/with-system', async (req: Request, res: Response) => {
       });
     }
 
-    const actionWithSystem = await queries.getActionWithSystem(actionId);
+    let actionWithSystem = await queries.getActionWithSystem(actionId);
+
+    if (await readsPublishedVersion(req, 'action', actionId)) {
+      const published = await workflowQueries.getPublishedAction(actionId);
+      actionWithSystem = { ...published, system: actionWithSystem.system };
+    }
 
     res.json({
       success: true,
@@ -94,7 +127,7 @@ router.get('/actions/:id/with-system', async (req: Request, res: Response) => {
 
 /**
  * POST /api/actions
- * Create a new action
+ * Create a new action (as a draft; viewers see it once it is published)
  * 
  * Body:
  * - system_id: number (required for now, optional in schema v2)
@@ -104,112 +137,151 @@ router.get('/actions/:id/with-system', async (req: Request, res: Response) => {
  * - steps: ActionStep[] (optional JSONB)
  * - screenshots: ActionScreenshotRef[] (optional JSONB)
  * - display_order: number (optional)
+ * - frequency: 'ad_hoc' | 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly' (optional)
+ * - average_duration_minutes: number (optional)
+ * - trigger_event: string (optional)
+ * - responsible_role_id: number (optional)
+ * - systems_touched: number[] (optional) - IDs of other systems used
  */
-router.post('/actions', async (req: Request, res: Response) => {
-  try {
-    const {
-      system_id,
-      practice_group_id,
-      title,
-      description,
-      steps,
-      screenshots,
-      display_order,
-    } = req.body;
-
-    // Validate required fields
-    validateRequired(['title'], req.body);
-
-    // Must have at least one parent (system_id or practice_group_id)
-    if (!system_id && !practice_group_id) {
-      return res.status(400).json({
-        success: false,
-        error: 'Either system_id or practice_group_id must be provided',
-      });
-    }
+router.post(
+  '/actions',
+  requireAuth,
+  resolveWorkspace,
+  authorize('write', 'system', 'system_id', 'body'),
+  authorize('write', 'practice_group', 'practice_group_id', 'body'),
+  authorize('read', 'role', 'responsible_role_id', 'body'),
+  audit('action', 'create'),
+  async (req: Request, res: Response) => {
+    try {
+      const {
+        system_id,
+        practice_group_id,
+        title,
+        description,
+        steps,
+        screenshots,
+        display_order,
+        frequency,
+        average_duration_minutes,
+        trigger_event,
+        responsible_role_id,
+        systems_touched,
+      } = req.body;
+
+      // Validate required fields
+      validateRequired(['title'], req.body);
+
+      // Must have at least one parent (system_id or practice_group_id)
+      if (!system_id && !practice_group_id) {
+        return res.status(400).json({
+          success: false,
+          error: 'Either system_id or practice_group_id must be provided',
+        });
+      }
 
-    // Validate IDs if provided
-    if (system_id && !validatePositiveInteger(system_id)) {
-      return res.status(400).json({
-        success: false,
-        error: 'system_id must be a positive integer',
-      });
-    }
+      // Validate IDs if provided
+      if (system_id && !validatePositiveInteger(system_id)) {
+        return res.status(400).json({
+          success: false,
+          error: 'system_id must be a positive integer',
+        });
+      }
 
-    if (practice_group_id && !validatePositiveInteger(practice_group_id)) {
-      return res.status(400).json({
-        success: false,
-        error: 'practice_group_id must be a positive integer',
-      });
-    }
+      if (practice_group_id && !validatePositiveInteger(practice_group_id)) {
+        return res.status(400).json({
+          success: false,
+          error: 'practice_group_id must be a positive integer',
+        });
+      }
 
-    // Verify system exists if provided
-    if (system_id) {
-      try {
-        await queries.getSystemById(system_id);
-      } catch (error) {
-        if (error instanceof NotFoundError) {
-          return res.status(404).json({
-            success: false,
-            error: 'System not found',
-          });
+      // Verify system exists if provided
+      if (system_id) {
+        try {
+          await queries.getSystemById(system_id);
+        } catch (error) {
+          if (error instanceof NotFoundError) {
+            return res.status(404).json({
+              success: false,
+              error: 'System not found',
+            });
+          }
+          throw error;
         }
-        throw error;
       }
-    }
 
-    // Validate steps format if provided
-    if (steps && !Array.isArray(steps)) {
-      return res.status(400).json({
-        success: false,
-        error: 'steps must be an array',
-      });
-    }
+      // Validate steps format if provided
+      if (steps && !Array.isArray(steps)) {
+        return res.status(400).json({
+          success: false,
+          error: 'steps must be an array',
+        });
+      }
 
-    // Validate screenshots format if provided
-    if (screenshots && !Array.isArray(screenshots)) {
-      return res.status(400).json({
-        success: false,
-        error: 'screenshots must be an array',
-      });
-    }
+      // Validate screenshots format if provided
+      if (screenshots && !Array.isArray(screenshots)) {
+        return res.status(400).json({
+          success: false,
+          error: 'screenshots must be an array',
+        });
+      }
 
-    // Create action
-    const action = await queries.createAction({
-      system_id,
-      practice_group_id,
-      title,
-      description,
-      steps,
-      screenshots,
-      display_order,
-    });
+      const input = {
+        system_id,
+        practice_group_id,
+        title,
+        description,
+        steps,
+        screenshots,
+        display_order,
+        frequency,
+        average_duration_minutes,
+        trigger_event,
+        responsible_role_id,
+        systems_touched,
+      };
+
+      validateCreateAction(input);
+      await assertSystemsTouchedVisible(req, systems_touched);
+
+      // Create action
+      const action = await queries.createAction(input, { authorId: req.workspace!.userId });
+
+      res.status(201).json({
+        success: true,
+        data: action,
+        message: 'Action created successfully',
+      });
+    } catch (error: any) {
+      console.error('POST /api/actions error:', error);
+
+      if (error instanceof ValidationError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+          errors: error.errors,
+        });
+      }
 
-    res.status(201).json({
-      success: true,
-      data: action,
-      message: 'Action created successfully',
-    });
-  } catch (error: any) {
-    console.error('POST /api/actions error:', error);
+      if (error instanceof NotFoundError || error instanceof ForbiddenError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      }
 
-    if (error instanceof ValidationError) {
-      return res.status(400).json({
+      res.status(500).json({
         success: false,
-        error: error.message,
+        error: error.message || 'Failed to create action',
       });
     }
-
-    res.status(500).json({
-      success: false,
-      error: error.message || 'Failed to create action',
-    });
   }
-});
+);
 
 /**
  * PUT /api/actions/:id
- * Update an action
+ * Update an action. The change is recorded as a revision; an action that was
+ * in review or published goes back to draft (viewers keep seeing the
+ * published version until the change is approved).
  * 
  * Body:
  * - title: string (optional)
@@ -217,86 +289,138 @@ router.post('/actions', async (req: Request, res: Response) => {
  * - steps: ActionStep[] (optional)
  * - screenshots: ActionScreenshotRef[] (optional)
  * - display_order: number (optional)
+ * - frequency, average_duration_minutes, trigger_event, responsible_role_id
+ *   (optional, null clears)
+ * - systems_touched: number[] (optional)
  */
-router.put('/actions/:id', async (req: Request, res: Response) => {
-  try {
-    const actionId = parseInt(req.params.id);
-
-    if (isNaN(actionId)) {
-      return res.status(400).json({
-        success: false,
-        error: 'Invalid action ID',
-      });
-    }
+router.put(
+  '/actions/:id',
+  requireAuth,
+  resolveWorkspace,
+  authorize('write', 'action', 'id'),
+  authorize('read', 'role', 'responsible_role_id', 'body'),
+  audit('action', 'update'),
+  async (req: Request, res: Response) => {
+    try {
+      const actionId = parseInt(req.params.id);
+
+      if (isNaN(actionId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid action ID',
+        });
+      }
 
-    const { title, description, steps, screenshots, display_order } = req.body;
+      const {
+        title,
+        description,
+        steps,
+        screenshots,
+        display_order,
+        frequency,
+        average_duration_minutes,
+        trigger_event,
+        responsible_role_id,
+        systems_touched,
+      } = req.body;
+
+      // Validate at least one field is provided
+      if (
+        title === undefined &&
+        description === undefined &&
+        steps === undefined &&
+        screenshots === undefined &&
+        display_order === undefined &&
+        frequency === undefined &&
+        average_duration_minutes === undefined &&
+        trigger_event === undefined &&
+        responsible_role_id === undefined &&
+        systems_touched === undefined
+      ) {
+        return res.status(400).json({
+          success: false,
+          error: 'At least one field must be provided for update',
+        });
+      }
 
-    // Validate at least one field is provided
-    if (
-      title === undefined &&
-      description === undefined &&
-      steps === undefined &&
-      screenshots === undefined &&
-      display_order === undefined
-    ) {
-      return res.status(400).json({
-        success: false,
-        error: 'At least one field must be provided for update',
-      });
-    }
+      // Validate steps format if provided
+      if (steps !== undefined && steps !== null && !Array.isArray(steps)) {
+        return res.status(400).json({
+          success: false,
+          error: 'steps must be an array or null',
+        });
+      }
 
-    // Validate steps format if provided
-    if (steps !== undefined && steps !== null && !Array.isArray(steps)) {
-      return res.status(400).json({
-        success: false,
-        error: 'steps must be an array or null',
-      });
-    }
+      // Validate screenshots format if provided
+      if (screenshots !== undefined && screenshots !== null && !Array.isArray(screenshots)) {
+        return res.status(400).json({
+          success: false,
+          error: 'screenshots must be an array or null',
+        });
+      }
 
-    // Validate screenshots format if provided
-    if (screenshots !== undefined && screenshots !== null && !Array.isArray(screenshots)) {
-      return res.status(400).json({
-        success: false,
-        error: 'screenshots must be an array or null',
+      const input = {
+        title,
+        description,
+        steps,
+        screenshots,
+        display_order,
+        frequency,
+        average_duration_minutes,
+        trigger_event,
+        responsible_role_id,
+        systems_touched,
+      };
+
+      validateUpdateAction(input);
+      await assertSystemsTouchedVisible(req, systems_touched);
+
+      // Update action
+      const updatedAction = await queries.updateAction(actionId, input, { authorId: req.workspace!.userId });
+
+      res.json({
+        success: true,
+        data: updatedAction,
+        message: 'Action updated successfully',
       });
-    }
+    } catch (error: any) {
+      console.error(`PUT /api/actions/${req.params.id} error:`, error);
+
+      if (error instanceof NotFoundError) {
+        return res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      }
 
-    // Update action
-    const updatedAction = await queries.updateAction(actionId, {
-      title,
-      description,
-      steps,
-      screenshots,
-      display_order,
-    });
+      if (error instanceof ForbiddenError) {
+        return res.status(403).json({
+          success: false,
+          error: error.message,
+        });
+      }
 
-    res.json({
-      success: true,
-      data: updatedAction,
-      message: 'Action updated successfully',
-    });
-  } catch (error: any) {
-    console.error(`PUT /api/actions/${req.params.id} error:`, error);
+      if (error instanceof ValidationError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+          errors: error.errors,
+        });
+      }
 
-    if (error instanceof NotFoundError) {
-      return res.status(404).json({
+      res.status(500).json({
         success: false,
-        error: error.message,
+        error: error.message || 'Failed to update action',
       });
     }
-
-    res.status(500).json({
-      success: false,
-      error: error.message || 'Failed to update action',
-    });
   }
-});
+);
 
 /**
  * DELETE /api/actions/:id
- * Delete an action (and all associated screenshots via CASCADE)
+ * Move an action and its screenshots to the trash
  */
-router.delete('/actions/:id', async (req: Request, res: Response) => {
+router.delete('/actions/:id', requireAuth, resolveWorkspace, authorize('write', 'action', 'id'), audit('action', 'delete'), async (req: Request, res: Response) => {
   try {
     const actionId = parseInt(req.params.id);
 
@@ -307,11 +431,12 @@ router.delete('/actions/:id', async (req: Request, res: Response) => {
       });
     }
 
-    await queries.deleteAction(actionId);
+    const trashItem = await trashQueries.moveToTrash('action', actionId, req.workspace!.userId);
 
     res.json({
       success: true,
-      message: 'Action and all associated screenshots deleted successfully',
+      data: trashItem,
+      message: 'Action and all associated screenshots moved to trash',
     });
   } catch (error: any) {
     console.error(`DELETE /api/actions/${req.params.id} error:`, error);
@@ -332,7 +457,9 @@ router.delete('/actions/:id', async (req: Request, res: Response) => {
 
 /**
  * GET /api/actions/:actionId/screenshots
- * Get all screenshots for a specific action
+ * Get all screenshots for a specific action, with sensitive OCR text masked.
+ * Viewers (or ?version=published) get only those the published version
+ * shows.
  * 
  * Query params:
  * - limit: number (default: 50)
@@ -340,7 +467,7 @@ router.delete('/actions/:id', async (req: Request, res: Response) => {
  * - orderBy: string (default: 'uploaded_at')
  * - orderDirection: 'ASC' | 'DESC' (default: 'DESC')
  */
-router.get('/actions/:actionId/screenshots', async (req: Request, res: Response) => {
+router.get('/actions/:actionId/screenshots', requireAuth, resolveWorkspace, authorize('read', 'action', 'actionId'), async (req: Request, res: Response) => {
   try {
     const actionId = parseInt(req.params.actionId);
 
@@ -358,14 +485,33 @@ router.get('/actions/:actionId/screenshots', async (req: Request, res: Response)
       orderDirection: req.query.orderDirection as 'ASC' | 'DESC' | undefined,
     };
 
-    const result = await queries.getScreenshotsByActionId(actionId, options);
+    let shownIds: number[] | undefined;
+
+    if (await readsPublishedVersion(req, 'action', actionId)) {
+      const published = await workflowQueries.getPublishedAction(actionId);
+      shownIds = [
+        ...(published.screenshots || []).map((ref) => ref.screenshot_id),
+        ...(published.steps || []).flatMap((step) => step.screenshot_id ? [step.screenshot_id] : []),
+      ];
+    }
+
+    const result = await queries.getScreenshotsByActionId(actionId, options, shownIds);
 
     res.json({
       success: true,
       ...result,
+      data: result.data.map(maskScreenshot),
     });
   } catch (error: any) {
     console.error(`GET /api/actions/${req.params.actionId}/screenshots error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
     res.status(500).json({
       success: false,
       error: error.message || 'Failed to fetch screenshots',
@@ -373,4 +519,36 @@ router.get('/actions/:actionId/screenshots', async (req: Request, res: Response)
   }
 });
 
+/**
+ * POST /api/actions/:actionId/ocr
+ * Re-run OCR for every screenshot of an action
+ * Screenshots that already have a pending job keep it
+ */
+router.post('/actions/:actionId/ocr', requireAuth, resolveWorkspace, authorize('write', 'action', 'actionId'), async (req: Request, res: Response) => {
+  try {
+    const actionId = parseInt(req.params.actionId);
+
+    if (isNaN(actionId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid action ID',
+      });
+    }
+
+    const jobs = await ocrJobQueries.enqueueOcrJobsForAction(actionId);
+
+    res.status(202).json({
+      success: true,
+      data: jobs,
+      message: `OCR queued for ${jobs.length} screenshot(s)`,
+    });
+  } catch (error: any) {
+    console.error(`POST /api/actions/${req.params.actionId}/ocr error:`, error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to queue OCR',
+    });
+  }
+});
+
 export default router;
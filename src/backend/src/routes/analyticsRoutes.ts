@@ -0,0 +1,181 @@
+/**
+ * Analytics Routes
+ *
+ * Read-only operational reports built from documented actions:
+ * workload roll-ups and the bottleneck / single-point-of-failure report
+ * Base path: /api
+ */
+
+import express, { Request, Response } from 'express';
+import * as analyticsQueries from '../db/analyticsQueries';
+import { buildRiskReport, riskReportToCsv } from '../services/riskReportService';
+import { NotFoundError } from '../utils/errors';
+import { requireAuth } from '../middleware/auth';
+import { resolveWorkspace } from '../middleware/workspace';
+import { authorize, readsPublishedVersion } from '../middleware/permissions';
+
+const router = express.Router();
+
+// ============================================================================
+// OPERATIONS SUMMARY ENDPOINTS
+// ============================================================================
+
+/**
+ * GET /api/practice-groups/:id/operations-summary
+ * Roll up frequency, duration, responsible roles, systems touched and
+ * triggers for the actions in a practice group. Viewers (or
+ * ?version=published) get the roll-up of published actions as published.
+ */
+router.get('/practice-groups/:id/operations-summary', requireAuth, resolveWorkspace, authorize('read', 'practice_group', 'id'), async (req: Request, res: Response) => {
+  try {
+    const practiceGroupId = parseInt(req.params.id as string);
+
+    if (isNaN(practiceGroupId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid practice group ID',
+      });
+    }
+
+    const summary = await analyticsQueries.getPracticeGroupOperationsSummary(
+      practiceGroupId,
+      await readsPublishedVersion(req, 'practice_group', practiceGroupId)
+    );
+
+    res.json({
+      success: true,
+      data: summary,
+    });
+  } catch (error: any) {
+    console.error(`GET /api/practice-groups/${req.params.id}/operations-summary error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to build operations summary',
+    });
+  }
+});
+
+/**
+ * GET /api/systems/:id/operations-summary
+ * Same roll-up for a whole system, plus a breakdown per practice group.
+ * Published or working version as for the practice group summary.
+ */
+router.get('/systems/:id/operations-summary', requireAuth, resolveWorkspace, authorize('read', 'system', 'id'), async (req: Request, res: Response) => {
+  try {
+    const systemId = parseInt(req.params.id as string);
+
+    if (isNaN(systemId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid system ID',
+      });
+    }
+
+    const summary = await analyticsQueries.getSystemOperationsSummary(
+      systemId,
+      await readsPublishedVersion(req, 'system', systemId)
+    );
+
+    res.json({
+      success: true,
+      data: summary,
+    });
+  } catch (error: any) {
+    console.error(`GET /api/systems/${req.params.id}/operations-summary error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to build operations summary',
+    });
+  }
+});
+
+// ============================================================================
+// RISK REPORT
+// ============================================================================
+
+/**
+ * GET /api/analytics/risk-report
+ * Bottleneck / single-point-of-failure report for the workspace: actions
+ * only one role performs, tasks with no role, sequences spanning many
+ * systems with hand-offs, and actions with no steps. Scored per system
+ * and department. Viewers (or ?version=published) get the report on
+ * published actions and sequences as published.
+ *
+ * Query params:
+ * - system_id: number (optional) - limit the report to one system
+ * - min_sequence_systems: number (optional, default 3) - systems a sequence
+ *   must span to be flagged
+ * - format: 'json' | 'csv' (optional, default json) - csv has one row per finding
+ */
+router.get(
+  '/analytics/risk-report',
+  requireAuth,
+  resolveWorkspace,
+  authorize('read'),
+  authorize('read', 'system', 'system_id', 'query'),
+  async (req: Request, res: Response) => {
+    try {
+      const systemId = req.query.system_id ? parseInt(req.query.system_id as string) : undefined;
+      const minSequenceSystems = req.query.min_sequence_systems
+        ? parseInt(req.query.min_sequence_systems as string)
+        : undefined;
+      const format = (req.query.format as string) || 'json';
+
+      if (minSequenceSystems !== undefined && (isNaN(minSequenceSystems) || minSequenceSystems < 2)) {
+        return res.status(400).json({
+          success: false,
+          error: 'min_sequence_systems must be an integer of at least 2',
+        });
+      }
+
+      if (format !== 'json' && format !== 'csv') {
+        return res.status(400).json({
+          success: false,
+          error: "format must be 'json' or 'csv'",
+        });
+      }
+
+      const publishedOnly = systemId === undefined
+        ? await readsPublishedVersion(req)
+        : await readsPublishedVersion(req, 'system', systemId);
+      const report = await buildRiskReport(req.workspace!.id, { systemId, minSequenceSystems, publishedOnly });
+
+      if (format === 'csv') {
+        const date = report.generated_at.slice(0, 10);
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="risk-report-${date}.csv"`);
+        return res.send(riskReportToCsv(report));
+      }
+
+      res.json({
+        success: true,
+        data: report,
+      });
+    } catch (error: any) {
+      console.error('GET /api/analytics/risk-report error:', error);
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to build risk report',
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,127 @@
+/**
+ * Audit Routes
+ *
+ * Read access to the workspace's audit log: who created, changed or
+ * deleted what, with the state before and after
+ * Base path: /api/audit
+ */
+
+import express, { Request, Response } from 'express';
+import { getAuditLog } from '../db/auditQueries';
+import { AUDIT_ENTITY_TYPES, auditLogToCsv } from '../services/auditService';
+import { AuditLogFilters, AuditEntityType, AuditOperation } from '../types/models';
+import { validateQueryOptions } from '../utils/validation';
+import { requireAuth } from '../middleware/auth';
+import { resolveWorkspace } from '../middleware/workspace';
+import { authorize } from '../middleware/permissions';
+
+const router = express.Router();
+
+const AUDIT_OPERATIONS: AuditOperation[] = ['create', 'update', 'delete'];
+
+// CSV exports ignore limit/offset and return up to this many entries
+const MAX_CSV_ENTRIES = 10000;
+
+// Parse the filter query params; returns an error message if one is invalid
+function parseAuditFilters(query: Request['query']): { filters: AuditLogFilters; error?: string } {
+  const filters: AuditLogFilters = {};
+
+  if (query.entity_type) {
+    if (!AUDIT_ENTITY_TYPES.includes(query.entity_type as AuditEntityType)) {
+      return { filters, error: `entity_type must be one of: ${AUDIT_ENTITY_TYPES.join(', ')}` };
+    }
+    filters.entity_type = query.entity_type as AuditEntityType;
+  }
+
+  if (query.operation) {
+    if (!AUDIT_OPERATIONS.includes(query.operation as AuditOperation)) {
+      return { filters, error: `operation must be one of: ${AUDIT_OPERATIONS.join(', ')}` };
+    }
+    filters.operation = query.operation as AuditOperation;
+  }
+
+  for (const param of ['entity_id', 'actor_user_id'] as const) {
+    if (query[param]) {
+      const value = parseInt(query[param] as string);
+      if (isNaN(value)) {
+        return { filters, error: `Invalid ${param}` };
+      }
+      filters[param] = value;
+    }
+  }
+
+  for (const param of ['from', 'to'] as const) {
+    if (query[param]) {
+      const value = new Date(query[param] as string);
+      if (isNaN(value.getTime())) {
+        return { filters, error: `${param} must be an ISO 8601 date` };
+      }
+      filters[param] = value;
+    }
+  }
+
+  return { filters };
+}
+
+// ============================================================================
+// AUDIT LOG ENDPOINTS
+// ============================================================================
+
+/**
+ * GET /api/audit
+ * The workspace's audit log, newest first. Workspace owners only.
+ *
+ * Query params:
+ * - entity_type: string (optional) - system, action, screenshot, link, ...
+ * - entity_id: number (optional)
+ * - actor_user_id: number (optional) - who made the change
+ * - operation: 'create' | 'update' | 'delete' (optional)
+ * - from, to: ISO 8601 date (optional) - from is inclusive, to exclusive
+ * - limit, offset: number (optional) - ignored for csv
+ * - format: 'json' | 'csv' (optional, default json) - csv has one row per entry
+ */
+router.get('/audit', requireAuth, resolveWorkspace, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const { filters, error } = parseAuditFilters(req.query);
+    const format = (req.query.format as string) || 'json';
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error,
+      });
+    }
+
+    if (format !== 'json' && format !== 'csv') {
+      return res.status(400).json({
+        success: false,
+        error: "format must be 'json' or 'csv'",
+      });
+    }
+
+    if (format === 'csv') {
+      const log = await getAuditLog(req.workspace!.id, filters, { limit: MAX_CSV_ENTRIES });
+      const date = new Date().toISOString().slice(0, 10);
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="audit-log-${date}.csv"`);
+      return res.send(auditLogToCsv(log.data));
+    }
+
+    const { limit, offset } = validateQueryOptions(req.query);
+    const log = await getAuditLog(req.workspace!.id, filters, { limit, offset });
+
+    res.json({
+      success: true,
+      data: log,
+    });
+  } catch (error: any) {
+    console.error('GET /api/audit error:', error);
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch audit log',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,386 @@
+/**
+ * Automation Routes
+ *
+ * Document the business rules a system runs by itself, link them to the
+ * actions they affect, and read them back in plain language
+ * Base paths: /api/systems/:id/automations, /api/automations
+ */
+
+import express, { Request, Response } from 'express';
+import * as automationQueries from '../db/automationQueries';
+import * as trashQueries from '../db/trashQueries';
+import { createAutomation, explainAutomation, updateAutomation } from '../services/automationService';
+import { automationActionsSnapshot } from '../services/auditService';
+import { isAutomationTriggerType } from '../types/automation';
+import { validateLinkActionToAutomation, validateQueryOptions } from '../utils/validation';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { requireAuth } from '../middleware/auth';
+import { resolveWorkspace } from '../middleware/workspace';
+import { authorize } from '../middleware/permissions';
+import { audit } from '../middleware/audit';
+
+const router = express.Router();
+
+// ============================================================================
+// AUTOMATION CRUD ENDPOINTS
+// ============================================================================
+
+/**
+ * POST /api/systems/:id/automations
+ * Document an automation the system runs
+ *
+ * Body:
+ * - name: string (required)
+ * - description: string (optional)
+ * - trigger: { type, record_type?, fields?, description? } (required)
+ * - conditions: [{ field, operator, value? }] (optional) - none: applies every time
+ * - condition_match: 'all' | 'any' (default: 'all')
+ * - actions: [{ type, target?, value?, description?, delay? }] (required, at least one)
+ * - schedule: { frequency, interval?, time?, day_of_week?, day_of_month?, timezone? } - schedule triggers only
+ * - is_active: boolean (default: true)
+ */
+router.post('/systems/:id/automations', requireAuth, resolveWorkspace, authorize('write', 'system', 'id'), audit('automation', 'create'), async (req: Request, res: Response) => {
+  try {
+    const systemId = parseInt(req.params.id as string);
+    const { name, description, trigger, conditions, condition_match, actions, schedule, is_active } = req.body;
+
+    const automation = await createAutomation({
+      system_id: systemId,
+      name,
+      description,
+      trigger,
+      conditions,
+      condition_match,
+      actions,
+      schedule,
+      is_active,
+      created_by: req.workspace!.userId,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: automation,
+      message: 'Automation created successfully',
+    });
+  } catch (error: any) {
+    console.error(`POST /api/systems/${req.params.id}/automations error:`, error);
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+        errors: error.errors,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to create automation',
+    });
+  }
+});
+
+/**
+ * GET /api/systems/:id/automations
+ * A system's automations, by name
+ *
+ * Query params:
+ * - trigger_type: string (optional) - e.g. schedule
+ * - active: 'true' | 'false' (optional)
+ * - limit: number (default: 50)
+ * - offset: number (default: 0)
+ */
+router.get('/systems/:id/automations', requireAuth, resolveWorkspace, authorize('read', 'system', 'id'), async (req: Request, res: Response) => {
+  try {
+    const systemId = parseInt(req.params.id as string);
+    const { limit, offset } = validateQueryOptions(req.query);
+    const triggerType = req.query.trigger_type as string | undefined;
+    const active = req.query.active as string | undefined;
+
+    if (triggerType !== undefined && !isAutomationTriggerType(triggerType)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid trigger_type '${triggerType}'`,
+      });
+    }
+
+    if (active !== undefined && active !== 'true' && active !== 'false') {
+      return res.status(400).json({
+        success: false,
+        error: "active must be 'true' or 'false'",
+      });
+    }
+
+    const automations = await automationQueries.getAutomationsBySystemId(
+      systemId,
+      {
+        trigger_type: triggerType,
+        is_active: active === undefined ? undefined : active === 'true',
+      },
+      { limit, offset }
+    );
+
+    res.json({
+      success: true,
+      data: automations,
+    });
+  } catch (error: any) {
+    console.error(`GET /api/systems/${req.params.id}/automations error:`, error);
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch automations',
+    });
+  }
+});
+
+/**
+ * GET /api/automations/:id
+ * Get an automation with its linked actions and `explanation`: what
+ * happens when it fires, in plain language
+ *
+ * Query params:
+ * - format: 'text' to get just the explanation as text/plain
+ */
+router.get('/automations/:id', requireAuth, resolveWorkspace, authorize('read', 'automation', 'id'), async (req: Request, res: Response) => {
+  try {
+    const automationId = parseInt(req.params.id as string);
+    const automation = await automationQueries.getAutomationWithActions(automationId);
+    const explanation = explainAutomation(automation);
+
+    if (req.query.format === 'text') {
+      res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+      return res.send(explanation);
+    }
+
+    res.json({
+      success: true,
+      data: { ...automation, explanation },
+    });
+  } catch (error: any) {
+    console.error(`GET /api/automations/${req.params.id} error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch automation',
+    });
+  }
+});
+
+/**
+ * PUT /api/automations/:id
+ * Update an automation; only the fields given change (see POST for them)
+ */
+router.put('/automations/:id', requireAuth, resolveWorkspace, authorize('write', 'automation', 'id'), audit('automation', 'update'), async (req: Request, res: Response) => {
+  try {
+    const automationId = parseInt(req.params.id as string);
+    const { name, description, trigger, conditions, condition_match, actions, schedule, is_active } = req.body;
+
+    const automation = await updateAutomation(automationId, {
+      name,
+      description,
+      trigger,
+      conditions,
+      condition_match,
+      actions,
+      schedule,
+      is_active,
+    });
+
+    res.json({
+      success: true,
+      data: automation,
+      message: 'Automation updated successfully',
+    });
+  } catch (error: any) {
+    console.error(`PUT /api/automations/${req.params.id} error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+        errors: error.errors,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to update automation',
+    });
+  }
+});
+
+/**
+ * DELETE /api/automations/:id
+ * Move an automation, with its action links, to the trash
+ */
+router.delete('/automations/:id', requireAuth, resolveWorkspace, authorize('write', 'automation', 'id'), audit('automation', 'delete'), async (req: Request, res: Response) => {
+  try {
+    const automationId = parseInt(req.params.id as string);
+    const trashItem = await trashQueries.moveToTrash('automation', automationId, req.workspace!.userId);
+
+    res.json({
+      success: true,
+      data: trashItem,
+      message: 'Automation moved to trash',
+    });
+  } catch (error: any) {
+    console.error(`DELETE /api/automations/${req.params.id} error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to delete automation',
+    });
+  }
+});
+
+// ============================================================================
+// ACTION-AUTOMATION LINK ENDPOINTS
+// ============================================================================
+
+/**
+ * POST /api/automations/:id/actions
+ * Link a documented action to an automation, or change an existing link
+ *
+ * Body:
+ * - action_id: number (required)
+ * - relationship: 'triggers' | 'affects' (default: 'affects') - doing the
+ *   action sets the automation off, or the automation changes what it works with
+ * - notes: string (optional)
+ */
+router.post(
+  '/automations/:id/actions',
+  requireAuth,
+  resolveWorkspace,
+  authorize('write', 'automation', 'id'),
+  authorize('read', 'action', 'action_id', 'body'),
+  audit('automation', 'update', { snapshot: automationActionsSnapshot }),
+  async (req: Request, res: Response) => {
+    try {
+      const automationId = parseInt(req.params.id as string);
+      const { action_id, relationship, notes } = req.body;
+
+      validateLinkActionToAutomation(req.body);
+
+      const link = await automationQueries.linkActionToAutomation({
+        automation_id: automationId,
+        action_id,
+        relationship,
+        notes,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: link,
+        message: 'Action linked to automation successfully',
+      });
+    } catch (error: any) {
+      console.error(`POST /api/automations/${req.params.id}/actions error:`, error);
+
+      if (error instanceof ValidationError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+          errors: error.errors,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to link action to automation',
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/automations/:id/actions/:actionId
+ * Unlink an action from an automation
+ */
+router.delete('/automations/:id/actions/:actionId', requireAuth, resolveWorkspace, authorize('write', 'automation', 'id'), audit('automation', 'update', { snapshot: automationActionsSnapshot }), async (req: Request, res: Response) => {
+  try {
+    const automationId = parseInt(req.params.id as string);
+    const actionId = parseInt(req.params.actionId as string);
+
+    if (isNaN(actionId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid action ID',
+      });
+    }
+
+    await automationQueries.unlinkActionFromAutomation(automationId, actionId);
+
+    res.json({
+      success: true,
+      message: 'Action unlinked from automation successfully',
+    });
+  } catch (error: any) {
+    console.error(`DELETE /api/automations/${req.params.id}/actions/${req.params.actionId} error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: 'Link not found',
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to unlink action from automation',
+    });
+  }
+});
+
+/**
+ * GET /api/actions/:actionId/automations
+ * The automations an action sets off or is affected by, by name
+ */
+router.get('/actions/:actionId/automations', requireAuth, resolveWorkspace, authorize('read', 'action', 'actionId'), async (req: Request, res: Response) => {
+  try {
+    const actionId = parseInt(req.params.actionId as string);
+    const automations = await automationQueries.getAutomationsForAction(actionId);
+
+    res.json({
+      success: true,
+      data: automations,
+    });
+  } catch (error: any) {
+    console.error(`GET /api/actions/${req.params.actionId}/automations error:`, error);
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch automations',
+    });
+  }
+});
+
+export default router;
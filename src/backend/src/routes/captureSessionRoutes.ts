@@ -0,0 +1,366 @@
+/**
+ * Capture Session Routes
+ *
+ * REST API endpoints for clarifying-question sessions held while
+ * documenting an action or sequence. Answers are written back to the
+ * structured field they map to (owner role, frequency, duration, trigger).
+ * Base path: /api/capture-sessions
+ */
+
+import express, { Request, Response } from 'express';
+import * as captureSessionQueries from '../db/captureSessionQueries';
+import {
+  startCaptureSession,
+  answerQuestion,
+  closeCaptureSession,
+  getNextQuestion,
+} from '../services/captureSessionService';
+import { CaptureTargetType } from '../types/models';
+import { NotFoundError, ValidationError, ConflictError } from '../utils/errors';
+import { requireAuth } from '../middleware/auth';
+import { resolveWorkspace } from '../middleware/workspace';
+import { authorize } from '../middleware/permissions';
+import { audit } from '../middleware/audit';
+
+const router = express.Router();
+
+// ============================================================================
+// STARTING AND LISTING SESSIONS
+// ============================================================================
+
+/**
+ * Handler for starting a session on an action or a sequence
+ */
+const startSession = (type: CaptureTargetType, paramName: string) =>
+  async (req: Request, res: Response) => {
+    try {
+      const targetId = parseInt(req.params[paramName] as string);
+
+      if (isNaN(targetId)) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid ${type} ID`,
+        });
+      }
+
+      const { session, created } = await startCaptureSession(type, targetId, req.workspace!.userId);
+
+      res.status(created ? 201 : 200).json({
+        success: true,
+        data: { ...session, next_question: getNextQuestion(session) },
+        message: created ? 'Capture session started' : 'Resumed open capture session',
+      });
+    } catch (error: any) {
+      console.error(`POST ${req.originalUrl} error:`, error);
+
+      if (error instanceof NotFoundError) {
+        return res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to start capture session',
+      });
+    }
+  };
+
+/**
+ * Handler for listing the sessions held on an action or a sequence
+ */
+const listSessions = (type: CaptureTargetType, paramName: string) =>
+  async (req: Request, res: Response) => {
+    try {
+      const targetId = parseInt(req.params[paramName] as string);
+
+      if (isNaN(targetId)) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid ${type} ID`,
+        });
+      }
+
+      const sessions = await captureSessionQueries.getCaptureSessionsByTarget(type, targetId);
+
+      res.json({
+        success: true,
+        data: sessions,
+      });
+    } catch (error: any) {
+      console.error(`GET ${req.originalUrl} error:`, error);
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to fetch capture sessions',
+      });
+    }
+  };
+
+/**
+ * POST /api/actions/:actionId/capture-sessions
+ * Start (or resume) a capture session for an action. Only fields that are
+ * still empty are asked about.
+ */
+router.post(
+  '/actions/:actionId/capture-sessions',
+  requireAuth,
+  resolveWorkspace,
+  authorize('write', 'action', 'actionId'),
+  audit('capture_session', 'create'),
+  startSession('action', 'actionId')
+);
+
+/**
+ * GET /api/actions/:actionId/capture-sessions
+ * List an action's capture sessions, newest first
+ */
+router.get(
+  '/actions/:actionId/capture-sessions',
+  requireAuth,
+  resolveWorkspace,
+  authorize('read', 'action', 'actionId'),
+  listSessions('action', 'actionId')
+);
+
+/**
+ * POST /api/action-sequences/:sequenceId/capture-sessions
+ * Start (or resume) a capture session for a sequence
+ */
+router.post(
+  '/action-sequences/:sequenceId/capture-sessions',
+  requireAuth,
+  resolveWorkspace,
+  authorize('write', 'action_sequence', 'sequenceId'),
+  audit('capture_session', 'create'),
+  startSession('sequence', 'sequenceId')
+);
+
+/**
+ * GET /api/action-sequences/:sequenceId/capture-sessions
+ * List a sequence's capture sessions, newest first
+ */
+router.get(
+  '/action-sequences/:sequenceId/capture-sessions',
+  requireAuth,
+  resolveWorkspace,
+  authorize('read', 'action_sequence', 'sequenceId'),
+  listSessions('sequence', 'sequenceId')
+);
+
+// ============================================================================
+// SESSION ENDPOINTS
+// ============================================================================
+
+/**
+ * GET /api/capture-sessions/:id
+ * Get a session with its questions, answers and the next unanswered question
+ */
+router.get('/capture-sessions/:id', requireAuth, resolveWorkspace, authorize('read', 'capture_session', 'id'), async (req: Request, res: Response) => {
+  try {
+    const sessionId = parseInt(req.params.id as string);
+
+    if (isNaN(sessionId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid capture session ID',
+      });
+    }
+
+    const session = await captureSessionQueries.getCaptureSessionById(sessionId);
+
+    res.json({
+      success: true,
+      data: { ...session, next_question: getNextQuestion(session) },
+    });
+  } catch (error: any) {
+    console.error(`GET /api/capture-sessions/${req.params.id} error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch capture session',
+    });
+  }
+});
+
+/**
+ * PUT /api/capture-sessions/:id/questions/:questionId
+ * Answer a question. The answer is stored verbatim; if it can be read as a
+ * value for the question's field (a role, frequency, duration or trigger),
+ * that value is written to the action/sequence.
+ *
+ * Body:
+ * - answer: string (required) - the author's answer in their own words
+ * - value: any (optional) - explicit structured value, skipping parsing
+ *   (role ID, frequency such as 'weekly', minutes, or trigger text)
+ */
+router.put('/capture-sessions/:id/questions/:questionId', requireAuth, resolveWorkspace, authorize('write', 'capture_session', 'id'), audit('capture_session', 'update'), async (req: Request, res: Response) => {
+  try {
+    const sessionId = parseInt(req.params.id as string);
+    const questionId = parseInt(req.params.questionId as string);
+
+    if (isNaN(sessionId) || isNaN(questionId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid capture session or question ID',
+      });
+    }
+
+    const { answer, value } = req.body;
+
+    if (typeof answer !== 'string' || answer.trim() === '') {
+      return res.status(400).json({
+        success: false,
+        error: 'answer is required',
+      });
+    }
+
+    const result = await answerQuestion(
+      sessionId,
+      questionId,
+      req.workspace!.id,
+      req.workspace!.userId,
+      answer,
+      value
+    );
+
+    res.json({
+      success: true,
+      data: result,
+      message: result.applied
+        ? `Answer saved to ${result.question.applied_field}`
+        : 'Answer saved',
+    });
+  } catch (error: any) {
+    console.error(`PUT /api/capture-sessions/${req.params.id}/questions/${req.params.questionId} error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    if (error instanceof ConflictError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to save answer',
+    });
+  }
+});
+
+/**
+ * POST /api/capture-sessions/:id/complete
+ * Mark an open session completed (unanswered questions stay unanswered)
+ */
+router.post('/capture-sessions/:id/complete', requireAuth, resolveWorkspace, authorize('write', 'capture_session', 'id'), audit('capture_session', 'update'), async (req: Request, res: Response) => {
+  try {
+    const sessionId = parseInt(req.params.id as string);
+
+    if (isNaN(sessionId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid capture session ID',
+      });
+    }
+
+    const session = await closeCaptureSession(sessionId, 'completed');
+
+    res.json({
+      success: true,
+      data: session,
+      message: 'Capture session completed',
+    });
+  } catch (error: any) {
+    console.error(`POST /api/capture-sessions/${req.params.id}/complete error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    if (error instanceof ConflictError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to complete capture session',
+    });
+  }
+});
+
+/**
+ * DELETE /api/capture-sessions/:id
+ * Abandon an open session. Answers already given (and fields already
+ * written) are kept.
+ */
+router.delete('/capture-sessions/:id', requireAuth, resolveWorkspace, authorize('write', 'capture_session', 'id'), audit('capture_session', 'update'), async (req: Request, res: Response) => {
+  try {
+    const sessionId = parseInt(req.params.id as string);
+
+    if (isNaN(sessionId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid capture session ID',
+      });
+    }
+
+    const session = await closeCaptureSession(sessionId, 'abandoned');
+
+    res.json({
+      success: true,
+      data: session,
+      message: 'Capture session abandoned',
+    });
+  } catch (error: any) {
+    console.error(`DELETE /api/capture-sessions/${req.params.id} error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    if (error instanceof ConflictError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to abandon capture session',
+    });
+  }
+});
+
+export default router;
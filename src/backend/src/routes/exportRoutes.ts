@@ -0,0 +1,153 @@
+/**
+ * Export Routes
+ *
+ * Download documentation to host, print or read offline: a system as a
+ * static site (Markdown and HTML with its screenshots), a sequence or a
+ * role's tasks as a PDF runbook
+ * Base paths: /api/systems/:id/export, /api/action-sequences/:id/runbook,
+ * /api/roles/:id/runbook
+ */
+
+import express, { Request, Response } from 'express';
+import { loadSystemDocumentation } from '../services/documentationService';
+import { loadRoleRunbook, loadSequenceRunbook, Runbook } from '../services/runbookService';
+import { renderRunbookPdf } from '../services/runbookPdf';
+import { buildSiteExport, slugify } from '../services/siteExport';
+import { NotFoundError } from '../utils/errors';
+import { requireAuth } from '../middleware/auth';
+import { resolveWorkspace } from '../middleware/workspace';
+import { authorize, readsPublishedVersion } from '../middleware/permissions';
+
+const router = express.Router();
+
+// Send a runbook as a PDF download
+async function sendRunbook(res: Response, runbook: Runbook) {
+  const pdf = await renderRunbookPdf(runbook);
+  const date = runbook.generated_at.slice(0, 10);
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${slugify(runbook.title)}-runbook-${date}.pdf"`);
+  res.send(pdf);
+}
+
+// ============================================================================
+// EXPORT ENDPOINTS
+// ============================================================================
+
+/**
+ * GET /api/systems/:id/export
+ * Zip of the system's documentation site: departments, practice groups,
+ * actions with their steps and screenshots, sequences and links
+ *
+ * Editors get the version they are working on and viewers the published
+ * one, as when reading actions; ?version=published asks for it explicitly.
+ */
+router.get('/systems/:id/export', requireAuth, resolveWorkspace, authorize('read', 'system', 'id'), async (req: Request, res: Response) => {
+  try {
+    const systemId = parseInt(req.params.id as string);
+
+    if (isNaN(systemId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid system ID',
+      });
+    }
+
+    const published = await readsPublishedVersion(req, 'system', systemId);
+    const doc = await loadSystemDocumentation(systemId, published);
+    const zip = await buildSiteExport(doc);
+
+    const date = doc.generated_at.slice(0, 10);
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${slugify(doc.system.name)}-docs-${date}.zip"`);
+    res.send(zip);
+  } catch (error: any) {
+    console.error(`GET /api/systems/${req.params.id}/export error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to export documentation',
+    });
+  }
+});
+
+/**
+ * GET /api/action-sequences/:id/runbook
+ * PDF runbook of a sequence: its actions in order with their numbered
+ * steps, screenshots and captions, and a table of related links
+ *
+ * Published or working version as for the site export
+ */
+router.get('/action-sequences/:id/runbook', requireAuth, resolveWorkspace, authorize('read', 'action_sequence', 'id'), async (req: Request, res: Response) => {
+  try {
+    const sequenceId = parseInt(req.params.id as string);
+
+    if (isNaN(sequenceId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid action sequence ID',
+      });
+    }
+
+    const published = await readsPublishedVersion(req, 'action_sequence', sequenceId);
+    await sendRunbook(res, await loadSequenceRunbook(sequenceId, published));
+  } catch (error: any) {
+    console.error(`GET /api/action-sequences/${req.params.id}/runbook error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to generate runbook',
+    });
+  }
+});
+
+/**
+ * GET /api/roles/:id/runbook
+ * PDF runbook of a role: each of its tasks in order, with the task's
+ * actions laid out as for a sequence
+ */
+router.get('/roles/:id/runbook', requireAuth, resolveWorkspace, authorize('read', 'role', 'id'), async (req: Request, res: Response) => {
+  try {
+    const roleId = parseInt(req.params.id as string);
+
+    if (isNaN(roleId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid role ID',
+      });
+    }
+
+    const published = await readsPublishedVersion(req, 'role', roleId);
+    await sendRunbook(res, await loadRoleRunbook(roleId, published));
+  } catch (error: any) {
+    console.error(`GET /api/roles/${req.params.id}/runbook error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to generate runbook',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,148 @@
+/**
+ * Importer Routes
+ *
+ * Run an importer plugin over an action's screenshots to turn a platform's
+ * configuration screens into structured data and draft steps
+ * Base path: /api/importers
+ */
+
+import express, { NextFunction, Request, Response } from 'express';
+import { getActionById } from '../db/queries';
+import { createStepDraft } from '../db/stepDraftQueries';
+import { getImporter, listImporters, loadImporterInput, runImporter } from '../services/importers';
+import { toDraftSteps } from '../services/stepDraftService';
+import { ExtractionError, NotFoundError, ValidationError } from '../utils/errors';
+import { requireAuth } from '../middleware/auth';
+import { resolveWorkspace } from '../middleware/workspace';
+import { authorize } from '../middleware/permissions';
+import { audit } from '../middleware/audit';
+
+const router = express.Router();
+
+// Only a run that saves a draft creates anything worth auditing
+const auditDraft = (req: Request, res: Response, next: NextFunction) =>
+  req.body?.draft === true
+    ? audit('step_draft', 'create', { createdId: (body) => body?.data?.draft?.id })(req, res, next)
+    : next();
+
+// ============================================================================
+// IMPORTER ENDPOINTS
+// ============================================================================
+
+/**
+ * GET /api/importers
+ * The available importers, with the platform each handles and the JSON
+ * schema of its output
+ */
+router.get('/importers', requireAuth, resolveWorkspace, authorize('read'), async (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: listImporters().map((importer) => ({
+        name: importer.name,
+        platform: importer.platform,
+        description: importer.description,
+        output_schema: importer.outputSchema,
+      })),
+    });
+  } catch (error: any) {
+    console.error('GET /api/importers error:', error);
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch importers',
+    });
+  }
+});
+
+/**
+ * POST /api/importers/:name/run
+ * Run an importer over an action's screenshots. Returns its structured
+ * output, the steps it renders that into, and any warnings.
+ *
+ * Body:
+ * - action_id: number (required)
+ * - screenshot_ids: number[] (optional) - which of the action's screenshots, in order (default all)
+ * - draft: boolean (optional) - also save the steps as a pending step draft for review
+ *
+ * Output the importer can't stand behind (not matching its schema, or
+ * failing its own checks) gets a 502 with each problem keyed by its path.
+ */
+router.post('/importers/:name/run', requireAuth, resolveWorkspace, authorize('write', 'action', 'action_id', 'body'), auditDraft, async (req: Request, res: Response) => {
+  try {
+    const actionId = parseInt(req.body?.action_id);
+    const screenshotIds = req.body?.screenshot_ids;
+
+    if (isNaN(actionId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'action_id is required',
+      });
+    }
+
+    if (screenshotIds !== undefined && (!Array.isArray(screenshotIds) || !screenshotIds.every(Number.isInteger))) {
+      return res.status(400).json({
+        success: false,
+        error: 'screenshot_ids must be an array of screenshot IDs',
+      });
+    }
+
+    const importer = getImporter(req.params.name as string);
+    const action = await getActionById(actionId);
+    const run = await runImporter(importer, await loadImporterInput(action, screenshotIds));
+
+    const draft = req.body.draft === true
+      ? await createStepDraft({
+        action_id: actionId,
+        steps: toDraftSteps(run.rendering.steps),
+        provider: run.provider,
+        model: run.model || undefined,
+        created_by: req.workspace!.userId,
+      })
+      : undefined;
+
+    res.json({
+      success: true,
+      data: {
+        importer: run.importer,
+        output: run.output,
+        rendering: run.rendering,
+        warnings: run.warnings,
+        ...(draft && { draft }),
+      },
+      message: draft ? `Drafted ${draft.steps.length} step(s) for review` : undefined,
+    });
+  } catch (error: any) {
+    console.error(`POST /api/importers/${req.params.name}/run error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+        errors: error.errors,
+      });
+    }
+
+    if (error instanceof ExtractionError) {
+      return res.status(502).json({
+        success: false,
+        error: error.message,
+        errors: error.errors,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to run importer',
+    });
+  }
+});
+
+export default router;
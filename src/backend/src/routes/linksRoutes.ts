@@ -6,7 +6,14 @@
 import express, { Request, Response } from 'express';
 import { body, param, query, validationResult } from 'express-validator';
 import * as linksService from '../services/linksService';
-import { isValidUrl, isValidLinkType, isValidAuthRequired } from '../types/links';
+import * as trashQueries from '../db/trashQueries';
+import { isValidUrl, isValidLinkType, isValidAuthRequired, isValidLinkObjectType } from '../types/links';
+import { requireAuth } from '../middleware/auth';
+import { resolveWorkspace } from '../middleware/workspace';
+import { authorize, assertPermission } from '../middleware/permissions';
+import { audit } from '../middleware/audit';
+import { LINK_LIST_SNAPSHOTS } from '../services/auditService';
+import { NotFoundError, ForbiddenError } from '../utils/errors';
 
 const router = express.Router();
 
@@ -22,6 +29,21 @@ const handleValidationErrors = (req: Request, res: Response, next: any) => {
   next();
 };
 
+// Bulk routes take the object type from the path, so they are audited
+// against whichever object they name
+const auditObjectLinks = (req: Request, res: Response, next: any) => {
+  const objectType = req.params.objectType as string;
+
+  if (!isValidLinkObjectType(objectType)) {
+    return next();
+  }
+
+  return audit(objectType, 'update', {
+    entityId: 'objectId',
+    snapshot: LINK_LIST_SNAPSHOTS[objectType],
+  })(req, res, next);
+};
+
 // ============================================
 // Core Link Routes
 // ============================================
@@ -30,18 +52,23 @@ const handleValidationErrors = (req: Request, res: Response, next: any) => {
 router.post(
   '/links',
   [
+    requireAuth,
+    resolveWorkspace,
+    authorize('write'),
     body('url').custom(isValidUrl).withMessage('Must be a valid HTTP(S) URL'),
     body('title').trim().notEmpty().withMessage('Title is required'),
     body('link_type').optional().custom(isValidLinkType),
     body('auth_required').optional().custom(isValidAuthRequired),
     handleValidationErrors,
+    audit('link', 'create'),
   ],
   async (req: Request, res: Response) => {
     try {
-      // TODO: Get userId from authenticated session
-      const userId = 2; // Placeholder
-
-      const link = await linksService.createLink(req.body, userId);
+      const link = await linksService.createLink(
+        req.body,
+        req.workspace!.userId,
+        req.workspace!.id
+      );
       res.status(201).json(link);
     } catch (error: any) {
       console.error('Error creating link:', error);
@@ -51,7 +78,7 @@ router.post(
 );
 
 // Get all links (with optional filters)
-router.get('/links', async (req: Request, res: Response) => {
+router.get('/links', requireAuth, resolveWorkspace, authorize('read'), async (req: Request, res: Response) => {
   try {
     const filters = {
       status: req.query.status as string | undefined,
@@ -60,7 +87,7 @@ router.get('/links', async (req: Request, res: Response) => {
       offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
     };
 
-    const result = await linksService.getAllLinks(filters);
+    const result = await linksService.getAllLinks(req.workspace!.id, filters);
     
     res.json({
       links: result.links,
@@ -77,7 +104,13 @@ router.get('/links', async (req: Request, res: Response) => {
 // Get single link by ID
 router.get(
   '/links/:id',
-  [param('id').isInt().toInt(), handleValidationErrors],
+  [
+    requireAuth,
+    resolveWorkspace,
+    param('id').isInt().toInt(),
+    handleValidationErrors,
+    authorize('read', 'link', 'id'),
+  ],
   async (req: Request, res: Response) => {
     try {
       const link = await linksService.getLinkById(req.params.id as any);
@@ -98,12 +131,16 @@ router.get(
 router.put(
   '/links/:id',
   [
+    requireAuth,
+    resolveWorkspace,
     param('id').isInt().toInt(),
     body('url').optional().custom(isValidUrl),
     body('title').optional().trim().notEmpty(),
     body('link_type').optional().custom(isValidLinkType),
     body('auth_required').optional().custom(isValidAuthRequired),
     handleValidationErrors,
+    authorize('write', 'link', 'id'),
+    audit('link', 'update'),
   ],
   async (req: Request, res: Response) => {
     try {
@@ -121,20 +158,31 @@ router.put(
   }
 );
 
-// Delete a link
+// Delete a link (moves it and its associations to the trash)
 router.delete(
   '/links/:id',
-  [param('id').isInt().toInt(), handleValidationErrors],
+  [
+    requireAuth,
+    resolveWorkspace,
+    param('id').isInt().toInt(),
+    handleValidationErrors,
+    authorize('write', 'link', 'id'),
+    audit('link', 'delete'),
+  ],
   async (req: Request, res: Response) => {
     try {
-      const deleted = await linksService.deleteLink(req.params.id as any);
-      
-      if (!deleted) {
-        return res.status(404).json({ error: 'Link not found' });
+      const linkId = parseInt(req.params.id as string);
+
+      if (isNaN(linkId)) {
+        return res.status(400).json({ error: 'Invalid link ID' });
       }
 
+      await trashQueries.moveToTrash('link', linkId, req.workspace!.userId);
       res.status(204).send();
     } catch (error: any) {
+      if (error instanceof NotFoundError) {
+        return res.status(404).json({ error: 'Link not found' });
+      }
       console.error('Error deleting link:', error);
       res.status(500).json({ error: 'Failed to delete link', message: error.message });
     }
@@ -144,7 +192,14 @@ router.delete(
 // Verify a link (updates verified_at timestamp)
 router.post(
   '/links/:id/verify',
-  [param('id').isInt().toInt(), handleValidationErrors],
+  [
+    requireAuth,
+    resolveWorkspace,
+    param('id').isInt().toInt(),
+    handleValidationErrors,
+    authorize('write', 'link', 'id'),
+    audit('link', 'update'),
+  ],
   async (req: Request, res: Response) => {
     try {
       const link = await linksService.verifyLink(req.params.id as any);
@@ -166,10 +221,10 @@ router.post(
 // ============================================
 
 // Get link usage statistics
-router.get('/links/stats/usage', async (req: Request, res: Response) => {
+router.get('/links/stats/usage', requireAuth, resolveWorkspace, authorize('read'), async (req: Request, res: Response) => {
   try {
     const linkId = req.query.link_id ? parseInt(req.query.link_id as string) : undefined;
-    const stats = await linksService.getLinkUsageStats(linkId);
+    const stats = await linksService.getLinkUsageStats(req.workspace!.id, linkId);
     res.json(stats);
   } catch (error: any) {
     console.error('Error fetching link stats:', error);
@@ -178,9 +233,9 @@ router.get('/links/stats/usage', async (req: Request, res: Response) => {
 });
 
 // Get orphaned links (not associated with any object)
-router.get('/links/maintenance/orphaned', async (req: Request, res: Response) => {
+router.get('/links/maintenance/orphaned', requireAuth, resolveWorkspace, authorize('read'), async (req: Request, res: Response) => {
   try {
-    const links = await linksService.getOrphanedLinks();
+    const links = await linksService.getOrphanedLinks(req.workspace!.id);
     res.json({ links, count: links.length });
   } catch (error: any) {
     console.error('Error fetching orphaned links:', error);
@@ -189,9 +244,9 @@ router.get('/links/maintenance/orphaned', async (req: Request, res: Response) =>
 });
 
 // Get links needing verification
-router.get('/links/maintenance/needs-verification', async (req: Request, res: Response) => {
+router.get('/links/maintenance/needs-verification', requireAuth, resolveWorkspace, authorize('read'), async (req: Request, res: Response) => {
   try {
-    const links = await linksService.getLinksNeedingVerification();
+    const links = await linksService.getLinksNeedingVerification(req.workspace!.id);
     res.json({ links, count: links.length });
   } catch (error: any) {
     console.error('Error fetching links needing verification:', error);
@@ -206,9 +261,14 @@ router.get('/links/maintenance/needs-verification', async (req: Request, res: Re
 router.post(
   '/systems/:systemId/links',
   [
+    requireAuth,
+    resolveWorkspace,
     param('systemId').isInt().toInt(),
     body('link_id').isInt(),
     handleValidationErrors,
+    authorize('write', 'system', 'systemId'),
+    authorize('read', 'link', 'link_id', 'body'),
+    audit('system', 'update', { entityId: 'systemId', snapshot: LINK_LIST_SNAPSHOTS.system }),
   ],
   async (req: Request, res: Response) => {
     try {
@@ -223,7 +283,13 @@ router.post(
 
 router.get(
   '/systems/:systemId/links',
-  [param('systemId').isInt().toInt(), handleValidationErrors],
+  [
+    requireAuth,
+    resolveWorkspace,
+    param('systemId').isInt().toInt(),
+    handleValidationErrors,
+    authorize('read', 'system', 'systemId'),
+  ],
   async (req: Request, res: Response) => {
     try {
       const links = await linksService.getSystemLinks(req.params.systemId as any);
@@ -238,9 +304,13 @@ router.get(
 router.delete(
   '/systems/:systemId/links/:linkId',
   [
+    requireAuth,
+    resolveWorkspace,
     param('systemId').isInt().toInt(),
     param('linkId').isInt().toInt(),
     handleValidationErrors,
+    authorize('write', 'system', 'systemId'),
+    audit('system', 'update', { entityId: 'systemId', snapshot: LINK_LIST_SNAPSHOTS.system }),
   ],
   async (req: Request, res: Response) => {
     try {
@@ -268,9 +338,14 @@ router.delete(
 router.post(
   '/actions/:actionId/links',
   [
+    requireAuth,
+    resolveWorkspace,
     param('actionId').isInt().toInt(),
     body('link_id').isInt(),
     handleValidationErrors,
+    authorize('write', 'action', 'actionId'),
+    authorize('read', 'link', 'link_id', 'body'),
+    audit('action', 'update', { entityId: 'actionId', snapshot: LINK_LIST_SNAPSHOTS.action }),
   ],
   async (req: Request, res: Response) => {
     try {
@@ -285,7 +360,13 @@ router.post(
 
 router.get(
   '/actions/:actionId/links',
-  [param('actionId').isInt().toInt(), handleValidationErrors],
+  [
+    requireAuth,
+    resolveWorkspace,
+    param('actionId').isInt().toInt(),
+    handleValidationErrors,
+    authorize('read', 'action', 'actionId'),
+  ],
   async (req: Request, res: Response) => {
     try {
       const links = await linksService.getActionLinks(req.params.actionId as any);
@@ -300,9 +381,13 @@ router.get(
 router.delete(
   '/actions/:actionId/links/:linkId',
   [
+    requireAuth,
+    resolveWorkspace,
     param('actionId').isInt().toInt(),
     param('linkId').isInt().toInt(),
     handleValidationErrors,
+    authorize('write', 'action', 'actionId'),
+    audit('action', 'update', { entityId: 'actionId', snapshot: LINK_LIST_SNAPSHOTS.action }),
   ],
   async (req: Request, res: Response) => {
     try {
@@ -327,16 +412,24 @@ router.delete(
 // Role Links Routes (similar pattern)
 // ============================================
 
-router.post('/roles/:roleId/links', async (req: Request, res: Response) => {
-  try {
-    await linksService.addLinkToRole(req.params.roleId as any, req.body);
-    res.status(201).json({ message: 'Link added to role' });
-  } catch (error: any) {
-    res.status(500).json({ error: 'Failed to add link', message: error.message });
+router.post(
+  '/roles/:roleId/links',
+  requireAuth,
+  resolveWorkspace,
+  authorize('write', 'role', 'roleId'),
+  authorize('read', 'link', 'link_id', 'body'),
+  audit('role', 'update', { entityId: 'roleId', snapshot: LINK_LIST_SNAPSHOTS.role }),
+  async (req: Request, res: Response) => {
+    try {
+      await linksService.addLinkToRole(req.params.roleId as any, req.body);
+      res.status(201).json({ message: 'Link added to role' });
+    } catch (error: any) {
+      res.status(500).json({ error: 'Failed to add link', message: error.message });
+    }
   }
-});
+);
 
-router.get('/roles/:roleId/links', async (req: Request, res: Response) => {
+router.get('/roles/:roleId/links', requireAuth, resolveWorkspace, authorize('read', 'role', 'roleId'), async (req: Request, res: Response) => {
   try {
     const links = await linksService.getRoleLinks(req.params.roleId as any);
     res.json({ links, object_type: 'role', object_id: req.params.roleId });
@@ -345,7 +438,7 @@ router.get('/roles/:roleId/links', async (req: Request, res: Response) => {
   }
 });
 
-router.delete('/roles/:roleId/links/:linkId', async (req: Request, res: Response) => {
+router.delete('/roles/:roleId/links/:linkId', requireAuth, resolveWorkspace, authorize('write', 'role', 'roleId'), audit('role', 'update', { entityId: 'roleId', snapshot: LINK_LIST_SNAPSHOTS.role }), async (req: Request, res: Response) => {
   try {
     await linksService.removeLinkFromRole(req.params.roleId as any, req.params.linkId as any);
     res.status(204).send();
@@ -358,16 +451,24 @@ router.delete('/roles/:roleId/links/:linkId', async (req: Request, res: Response
 // Task Links Routes (similar pattern)
 // ============================================
 
-router.post('/tasks/:taskId/links', async (req: Request, res: Response) => {
-  try {
-    await linksService.addLinkToTask(req.params.taskId as any, req.body);
-    res.status(201).json({ message: 'Link added to task' });
-  } catch (error: any) {
-    res.status(500).json({ error: 'Failed to add link', message: error.message });
+router.post(
+  '/tasks/:taskId/links',
+  requireAuth,
+  resolveWorkspace,
+  authorize('write', 'task', 'taskId'),
+  authorize('read', 'link', 'link_id', 'body'),
+  audit('task', 'update', { entityId: 'taskId', snapshot: LINK_LIST_SNAPSHOTS.task }),
+  async (req: Request, res: Response) => {
+    try {
+      await linksService.addLinkToTask(req.params.taskId as any, req.body);
+      res.status(201).json({ message: 'Link added to task' });
+    } catch (error: any) {
+      res.status(500).json({ error: 'Failed to add link', message: error.message });
+    }
   }
-});
+);
 
-router.get('/tasks/:taskId/links', async (req: Request, res: Response) => {
+router.get('/tasks/:taskId/links', requireAuth, resolveWorkspace, authorize('read', 'task', 'taskId'), async (req: Request, res: Response) => {
   try {
     const links = await linksService.getTaskLinks(req.params.taskId as any);
     res.json({ links, object_type: 'task', object_id: req.params.taskId });
@@ -376,7 +477,7 @@ router.get('/tasks/:taskId/links', async (req: Request, res: Response) => {
   }
 });
 
-router.delete('/tasks/:taskId/links/:linkId', async (req: Request, res: Response) => {
+router.delete('/tasks/:taskId/links/:linkId', requireAuth, resolveWorkspace, authorize('write', 'task', 'taskId'), audit('task', 'update', { entityId: 'taskId', snapshot: LINK_LIST_SNAPSHOTS.task }), async (req: Request, res: Response) => {
   try {
     await linksService.removeLinkFromTask(req.params.taskId as any, req.params.linkId as any);
     res.status(204).send();
@@ -391,23 +492,41 @@ router.delete('/tasks/:taskId/links/:linkId', async (req: Request, res: Response
 
 router.post(
   '/:objectType/:objectId/links/bulk',
+  requireAuth,
+  resolveWorkspace,
+  auditObjectLinks,
   async (req: Request, res: Response) => {
     try {
-      const { objectType, objectId } = req.params;
+      const objectType = req.params.objectType as string;
+      const objectId = parseInt(req.params.objectId as string);
       const { links } = req.body;
 
-      if (!['system', 'action', 'role', 'task'].includes(objectType)) {
+      if (!isValidLinkObjectType(objectType)) {
         return res.status(400).json({ error: 'Invalid object type' });
       }
 
-      await linksService.bulkAddLinks(
-        objectType as any,
-        parseInt(objectId),
-        links
-      );
+      if (isNaN(objectId)) {
+        return res.status(400).json({ error: 'Invalid object ID' });
+      }
+
+      if (!Array.isArray(links) || links.some((link) => !Number.isInteger(link?.link_id))) {
+        return res.status(400).json({ error: 'links must be an array of objects with an integer link_id' });
+      }
+
+      // Object type is only known at runtime, so check permissions here:
+      // the caller must be able to edit the object and see every link
+      await assertPermission(req, 'write', objectType, objectId);
+      for (const link of links) {
+        await assertPermission(req, 'read', 'link', link.link_id);
+      }
+
+      await linksService.bulkAddLinks(objectType, objectId, links);
 
       res.status(201).json({ message: 'Links added successfully' });
     } catch (error: any) {
+      if (error instanceof NotFoundError || error instanceof ForbiddenError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
       console.error('Error adding bulk links:', error);
       res.status(500).json({ error: 'Failed to add links', message: error.message });
     }
@@ -416,23 +535,38 @@ router.post(
 
 router.put(
   '/:objectType/:objectId/links/reorder',
+  requireAuth,
+  resolveWorkspace,
+  auditObjectLinks,
   async (req: Request, res: Response) => {
     try {
-      const { objectType, objectId } = req.params;
+      const objectType = req.params.objectType as string;
+      const objectId = parseInt(req.params.objectId as string);
       const { link_orders } = req.body;
 
-      if (!['system', 'action', 'role', 'task'].includes(objectType)) {
+      if (!isValidLinkObjectType(objectType)) {
         return res.status(400).json({ error: 'Invalid object type' });
       }
 
-      await linksService.reorderLinks(
-        objectType as any,
-        parseInt(objectId),
-        link_orders
-      );
+      if (isNaN(objectId)) {
+        return res.status(400).json({ error: 'Invalid object ID' });
+      }
+
+      if (!Array.isArray(link_orders) || link_orders.some((order) =>
+        !Number.isInteger(order?.link_id) || !Number.isInteger(order?.display_order)
+      )) {
+        return res.status(400).json({ error: 'link_orders must be an array of { link_id, display_order } integers' });
+      }
+
+      await assertPermission(req, 'write', objectType, objectId);
+
+      await linksService.reorderLinks(objectType, objectId, link_orders);
 
       res.json({ message: 'Links reordered successfully' });
     } catch (error: any) {
+      if (error instanceof NotFoundError || error instanceof ForbiddenError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
       console.error('Error reordering links:', error);
       res.status(500).json({ error: 'Failed to reorder links', message: error.message });
     }
@@ -0,0 +1,284 @@
+/**
+ * Publishing Routes
+ *
+ * Draft → review → publish workflow for actions and sequences. Editors work
+ * on drafts and submit them to a reviewer; approving publishes the content
+ * for viewers, requesting changes sends it back to draft.
+ * Base paths: /api/actions/:id, /api/action-sequences/:id, /api/reviews
+ */
+
+import express, { Request, Response } from 'express';
+import * as hierarchyQueries from '../db/hierarchyQueries';
+import * as workflowQueries from '../db/workflowQueries';
+import {
+  submitForReview,
+  approveReview,
+  requestChanges,
+  archiveItem,
+} from '../services/publishingService';
+import { WorkflowEntityType } from '../types/models';
+import { validatePositiveInteger } from '../utils/validation';
+import { NotFoundError, ValidationError, ConflictError, ForbiddenError } from '../utils/errors';
+import { requireAuth } from '../middleware/auth';
+import { resolveWorkspace } from '../middleware/workspace';
+import { authorize, readsPublishedVersion } from '../middleware/permissions';
+import { audit } from '../middleware/audit';
+
+const router = express.Router();
+
+const ENTITY_LABELS: Record<WorkflowEntityType, { name: string; path: string }> = {
+  action: { name: 'action', path: 'actions' },
+  action_sequence: { name: 'sequence', path: 'action-sequences' },
+};
+
+// Map a workflow error to its response
+function sendWorkflowError(res: Response, error: any, fallback: string) {
+  if (error instanceof NotFoundError) {
+    return res.status(404).json({
+      success: false,
+      error: error.message,
+    });
+  }
+
+  if (error instanceof ValidationError) {
+    return res.status(400).json({
+      success: false,
+      error: error.message,
+      errors: error.errors,
+    });
+  }
+
+  if (error instanceof ForbiddenError) {
+    return res.status(403).json({
+      success: false,
+      error: error.message,
+    });
+  }
+
+  if (error instanceof ConflictError) {
+    return res.status(409).json({
+      success: false,
+      error: error.message,
+    });
+  }
+
+  res.status(500).json({
+    success: false,
+    error: error.message || fallback,
+  });
+}
+
+// ============================================================================
+// WORKFLOW HANDLERS (shared by actions and sequences)
+// ============================================================================
+
+/**
+ * POST /api/{actions|action-sequences}/:id/submit-review
+ * Submit a draft (or archived item) for review
+ *
+ * Body:
+ * - reviewer_id: number (required) - a workspace member who can edit the item
+ */
+const submitHandler = (entityType: WorkflowEntityType) => async (req: Request, res: Response) => {
+  const { name, path } = ENTITY_LABELS[entityType];
+
+  try {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid ${name} ID`,
+      });
+    }
+
+    if (!validatePositiveInteger(req.body.reviewer_id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'reviewer_id is required',
+      });
+    }
+
+    const item = await submitForReview(entityType, id, req.workspace!.id, req.body.reviewer_id);
+
+    res.json({
+      success: true,
+      data: item,
+      message: `Submitted ${name} for review`,
+    });
+  } catch (error: any) {
+    console.error(`POST /api/${path}/${req.params.id}/submit-review error:`, error);
+    sendWorkflowError(res, error, `Failed to submit ${name} for review`);
+  }
+};
+
+/**
+ * POST /api/{actions|action-sequences}/:id/approve
+ * Approve an item under review and publish it. Assigned reviewer or owner only.
+ *
+ * Body:
+ * - notes: string (optional)
+ */
+const approveHandler = (entityType: WorkflowEntityType) => async (req: Request, res: Response) => {
+  const { name, path } = ENTITY_LABELS[entityType];
+
+  try {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid ${name} ID`,
+      });
+    }
+
+    const notes = typeof req.body.notes === 'string' ? req.body.notes.trim() : undefined;
+    const item = await approveReview(entityType, id, req.workspace!.userId, req.workspace!.role, notes);
+
+    res.json({
+      success: true,
+      data: item,
+      message: `Approved and published ${name}`,
+    });
+  } catch (error: any) {
+    console.error(`POST /api/${path}/${req.params.id}/approve error:`, error);
+    sendWorkflowError(res, error, `Failed to approve ${name}`);
+  }
+};
+
+/**
+ * POST /api/{actions|action-sequences}/:id/request-changes
+ * Send an item under review back to draft. Assigned reviewer or owner only.
+ *
+ * Body:
+ * - notes: string (required) - what needs to change
+ */
+const requestChangesHandler = (entityType: WorkflowEntityType) => async (req: Request, res: Response) => {
+  const { name, path } = ENTITY_LABELS[entityType];
+
+  try {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid ${name} ID`,
+      });
+    }
+
+    const notes = typeof req.body.notes === 'string' ? req.body.notes : '';
+    const item = await requestChanges(entityType, id, req.workspace!.userId, req.workspace!.role, notes);
+
+    res.json({
+      success: true,
+      data: item,
+      message: `Requested changes to ${name}`,
+    });
+  } catch (error: any) {
+    console.error(`POST /api/${path}/${req.params.id}/request-changes error:`, error);
+    sendWorkflowError(res, error, `Failed to request changes to ${name}`);
+  }
+};
+
+/**
+ * POST /api/{actions|action-sequences}/:id/archive
+ * Archive an item; viewers stop seeing its published version
+ */
+const archiveHandler = (entityType: WorkflowEntityType) => async (req: Request, res: Response) => {
+  const { name, path } = ENTITY_LABELS[entityType];
+
+  try {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid ${name} ID`,
+      });
+    }
+
+    const item = await archiveItem(entityType, id);
+
+    res.json({
+      success: true,
+      data: item,
+      message: `Archived ${name}`,
+    });
+  } catch (error: any) {
+    console.error(`POST /api/${path}/${req.params.id}/archive error:`, error);
+    sendWorkflowError(res, error, `Failed to archive ${name}`);
+  }
+};
+
+// ============================================================================
+// ACTION WORKFLOW ENDPOINTS
+// ============================================================================
+
+router.post('/actions/:id/submit-review', requireAuth, resolveWorkspace, authorize('write', 'action', 'id'), audit('action', 'update'), submitHandler('action'));
+router.post('/actions/:id/approve', requireAuth, resolveWorkspace, authorize('write', 'action', 'id'), audit('action', 'update'), approveHandler('action'));
+router.post('/actions/:id/request-changes', requireAuth, resolveWorkspace, authorize('write', 'action', 'id'), audit('action', 'update'), requestChangesHandler('action'));
+router.post('/actions/:id/archive', requireAuth, resolveWorkspace, authorize('write', 'action', 'id'), audit('action', 'update'), archiveHandler('action'));
+
+// ============================================================================
+// SEQUENCE WORKFLOW ENDPOINTS
+// ============================================================================
+
+/**
+ * GET /api/action-sequences/:id
+ * Get a sequence with its actions in order. Viewers get the published
+ * version (with the published version of each action); editors get the
+ * version they are working on unless they pass ?version=published.
+ */
+router.get('/action-sequences/:id', requireAuth, resolveWorkspace, authorize('read', 'action_sequence', 'id'), async (req: Request, res: Response) => {
+  try {
+    const sequenceId = parseInt(req.params.id as string);
+
+    if (isNaN(sequenceId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid sequence ID',
+      });
+    }
+
+    const sequence = await readsPublishedVersion(req, 'action_sequence', sequenceId)
+      ? await workflowQueries.getPublishedSequence(sequenceId)
+      : await hierarchyQueries.getActionSequenceWithActions(sequenceId);
+
+    res.json({
+      success: true,
+      data: sequence,
+    });
+  } catch (error: any) {
+    console.error(`GET /api/action-sequences/${req.params.id} error:`, error);
+    sendWorkflowError(res, error, 'Failed to fetch sequence');
+  }
+});
+
+router.post('/action-sequences/:id/submit-review', requireAuth, resolveWorkspace, authorize('write', 'action_sequence', 'id'), audit('action_sequence', 'update'), submitHandler('action_sequence'));
+router.post('/action-sequences/:id/approve', requireAuth, resolveWorkspace, authorize('write', 'action_sequence', 'id'), audit('action_sequence', 'update'), approveHandler('action_sequence'));
+router.post('/action-sequences/:id/request-changes', requireAuth, resolveWorkspace, authorize('write', 'action_sequence', 'id'), audit('action_sequence', 'update'), requestChangesHandler('action_sequence'));
+router.post('/action-sequences/:id/archive', requireAuth, resolveWorkspace, authorize('write', 'action_sequence', 'id'), audit('action_sequence', 'update'), archiveHandler('action_sequence'));
+
+// ============================================================================
+// REVIEW QUEUE
+// ============================================================================
+
+/**
+ * GET /api/reviews
+ * Actions and sequences in the current workspace waiting on the caller's review
+ */
+router.get('/reviews', requireAuth, resolveWorkspace, authorize('read'), async (req: Request, res: Response) => {
+  try {
+    const queue = await workflowQueries.getReviewQueue(req.workspace!.id, req.workspace!.userId);
+
+    res.json({
+      success: true,
+      data: queue,
+    });
+  } catch (error: any) {
+    console.error('GET /api/reviews error:', error);
+    sendWorkflowError(res, error, 'Failed to fetch review queue');
+  }
+});
+
+export default router;
@@ -7,8 +7,14 @@
 
 import express, { Request, Response } from 'express';
 import * as queries from '../db/queries';
+import * as trashQueries from '../db/trashQueries';
 import { validateRequired, validatePositiveInteger } from '../utils/validation';
 import { NotFoundError, ValidationError } from '../utils/errors';
+import { requireAuth } from '../middleware/auth';
+import { resolveWorkspace } from '../middleware/workspace';
+import { authorize } from '../middleware/permissions';
+import { audit } from '../middleware/audit';
+import { roleTasksSnapshot } from '../services/auditService';
 
 const router = express.Router();
 
@@ -18,26 +24,16 @@ const router = express.Router();
 
 /**
  * GET /api/roles
- * Get all roles for a specific user
+ * Get all roles in the caller's workspace
  * 
  * Query params:
- * - user_id: number (required)
  * - limit: number (default: 50)
  * - offset: number (default: 0)
  * - orderBy: string (default: 'display_order')
  * - orderDirection: 'ASC' | 'DESC' (default: 'ASC')
  */
-router.get('/roles', async (req: Request, res: Response) => {
+router.get('/roles', requireAuth, resolveWorkspace, authorize('read'), async (req: Request, res: Response) => {
   try {
-    const userId = parseInt(req.query.user_id as string);
-
-    if (isNaN(userId) || !validatePositiveInteger(userId)) {
-      return res.status(400).json({
-        success: false,
-        error: 'Valid user_id is required',
-      });
-    }
-
     const options = {
       limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
       offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
@@ -45,7 +41,7 @@ router.get('/roles', async (req: Request, res: Response) => {
       orderDirection: req.query.orderDirection as 'ASC' | 'DESC' | undefined,
     };
 
-    const result = await queries.getRolesByUserId(userId, options);
+    const result = await queries.getRolesByWorkspaceId(req.workspace!.id, options);
 
     res.json({
       success: true,
@@ -62,45 +58,24 @@ router.get('/roles', async (req: Request, res: Response) => {
 
 /**
  * POST /api/roles
- * Create a new role
+ * Create a new role in the caller's workspace
  * 
  * Body:
- * - user_id: number (required)
  * - name: string (required)
  * - description: string (optional)
  * - display_order: number (optional)
  */
-router.post('/roles', async (req: Request, res: Response) => {
+router.post('/roles', requireAuth, resolveWorkspace, authorize('write'), audit('role', 'create'), async (req: Request, res: Response) => {
   try {
-    const { user_id, name, description, display_order } = req.body;
+    const { name, description, display_order } = req.body;
 
     // Validate required fields
-    validateRequired(['user_id', 'name'], req.body);
-
-    // Validate user_id
-    if (!validatePositiveInteger(user_id)) {
-      return res.status(400).json({
-        success: false,
-        error: 'user_id must be a positive integer',
-      });
-    }
-
-    // Verify user exists
-    try {
-      await queries.getUserById(user_id);
-    } catch (error) {
-      if (error instanceof NotFoundError) {
-        return res.status(404).json({
-          success: false,
-          error: 'User not found',
-        });
-      }
-      throw error;
-    }
+    validateRequired(['name'], req.body);
 
     // Create role
     const role = await queries.createRole({
-      user_id,
+      workspace_id: req.workspace!.id,
+      user_id: req.workspace!.userId,
       name,
       description,
       display_order,
@@ -132,7 +107,7 @@ router.post('/roles', async (req: Request, res: Response) => {
  * GET /api/roles/:id
  * Get a single role by ID
  */
-router.get('/roles/:id', async (req: Request, res: Response) => {
+router.get('/roles/:id', requireAuth, resolveWorkspace, authorize('read', 'role', 'id'), async (req: Request, res: Response) => {
   try {
     const roleId = parseInt(req.params.id);
 
@@ -175,7 +150,7 @@ router.get('/roles/:id', async (req: Request, res: Response) => {
  * - description: string (optional)
  * - display_order: number (optional)
  */
-router.put('/roles/:id', async (req: Request, res: Response) => {
+router.put('/roles/:id', requireAuth, resolveWorkspace, authorize('write', 'role', 'id'), audit('role', 'update'), async (req: Request, res: Response) => {
   try {
     const roleId = parseInt(req.params.id);
 
@@ -227,9 +202,9 @@ router.put('/roles/:id', async (req: Request, res: Response) => {
 
 /**
  * DELETE /api/roles/:id
- * Delete a role (and all associated role_tasks via CASCADE)
+ * Move a role, with its task and link associations, to the trash
  */
-router.delete('/roles/:id', async (req: Request, res: Response) => {
+router.delete('/roles/:id', requireAuth, resolveWorkspace, authorize('write', 'role', 'id'), audit('role', 'delete'), async (req: Request, res: Response) => {
   try {
     const roleId = parseInt(req.params.id);
 
@@ -240,11 +215,12 @@ router.delete('/roles/:id', async (req: Request, res: Response) => {
       });
     }
 
-    await queries.deleteRole(roleId);
+    const trashItem = await trashQueries.moveToTrash('role', roleId, req.workspace!.userId);
 
     res.json({
       success: true,
-      message: 'Role deleted successfully',
+      data: trashItem,
+      message: 'Role moved to trash',
     });
   } catch (error: any) {
     console.error(`DELETE /api/roles/${req.params.id} error:`, error);
@@ -275,7 +251,7 @@ router.delete('/roles/:id', async (req: Request, res: Response) => {
  * - limit: number (default: 50)
  * - offset: number (default: 0)
  */
-router.get('/roles/:roleId/tasks', async (req: Request, res: Response) => {
+router.get('/roles/:roleId/tasks', requireAuth, resolveWorkspace, authorize('read', 'role', 'roleId'), async (req: Request, res: Response) => {
   try {
     const roleId = parseInt(req.params.roleId);
 
@@ -327,85 +303,93 @@ router.get('/roles/:roleId/tasks', async (req: Request, res: Response) => {
  * - task_id: number (required)
  * - display_order: number (optional, defaults to 0)
  */
-router.post('/roles/:roleId/tasks', async (req: Request, res: Response) => {
-  try {
-    const roleId = parseInt(req.params.roleId);
-    const { task_id, display_order } = req.body;
-
-    if (isNaN(roleId)) {
-      return res.status(400).json({
-        success: false,
-        error: 'Invalid role ID',
-      });
-    }
+router.post(
+  '/roles/:roleId/tasks',
+  requireAuth,
+  resolveWorkspace,
+  authorize('write', 'role', 'roleId'),
+  authorize('read', 'task', 'task_id', 'body'),
+  audit('role', 'update', { entityId: 'roleId', snapshot: roleTasksSnapshot }),
+  async (req: Request, res: Response) => {
+    try {
+      const roleId = parseInt(req.params.roleId);
+      const { task_id, display_order } = req.body;
 
-    // Validate required fields
-    validateRequired(['task_id'], req.body);
+      if (isNaN(roleId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid role ID',
+        });
+      }
 
-    // Validate task_id
-    if (!validatePositiveInteger(task_id)) {
-      return res.status(400).json({
-        success: false,
-        error: 'task_id must be a positive integer',
-      });
-    }
+      // Validate required fields
+      validateRequired(['task_id'], req.body);
 
-    // Verify role and task exist
-    try {
-      await queries.getRoleById(roleId);
-      await queries.getTaskById(task_id);
-    } catch (error) {
-      if (error instanceof NotFoundError) {
-        return res.status(404).json({
+      // Validate task_id
+      if (!validatePositiveInteger(task_id)) {
+        return res.status(400).json({
           success: false,
-          error: error.message,
+          error: 'task_id must be a positive integer',
         });
       }
-      throw error;
-    }
 
-    // Link task to role
-    const roleTask = await queries.linkTaskToRole({
-      role_id: roleId,
-      task_id,
-      display_order,
-    });
+      // Verify role and task exist
+      try {
+        await queries.getRoleById(roleId);
+        await queries.getTaskById(task_id);
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          return res.status(404).json({
+            success: false,
+            error: error.message,
+          });
+        }
+        throw error;
+      }
 
-    res.status(201).json({
-      success: true,
-      data: roleTask,
-      message: 'Task linked to role successfully',
-    });
-  } catch (error: any) {
-    console.error(`POST /api/roles/${req.params.roleId}/tasks error:`, error);
+      // Link task to role
+      const roleTask = await queries.linkTaskToRole({
+        role_id: roleId,
+        task_id,
+        display_order,
+      });
 
-    if (error instanceof ValidationError) {
-      return res.status(400).json({
-        success: false,
-        error: error.message,
+      res.status(201).json({
+        success: true,
+        data: roleTask,
+        message: 'Task linked to role successfully',
       });
-    }
+    } catch (error: any) {
+      console.error(`POST /api/roles/${req.params.roleId}/tasks error:`, error);
+
+      if (error instanceof ValidationError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
 
-    // Check for unique constraint violation (task already linked to role)
-    if (error.code === '23505') {
-      return res.status(409).json({
+      // Check for unique constraint violation (task already linked to role)
+      if (error.code === '23505') {
+        return res.status(409).json({
+          success: false,
+          error: 'Task is already linked to this role',
+        });
+      }
+
+      res.status(500).json({
         success: false,
-        error: 'Task is already linked to this role',
+        error: error.message || 'Failed to link task to role',
       });
     }
-
-    res.status(500).json({
-      success: false,
-      error: error.message || 'Failed to link task to role',
-    });
   }
-});
+);
 
 /**
  * DELETE /api/roles/:roleId/tasks/:taskId
  * Unlink a task from a role
  */
-router.delete('/roles/:roleId/tasks/:taskId', async (req: Request, res: Response) => {
+router.delete('/roles/:roleId/tasks/:taskId', requireAuth, resolveWorkspace, authorize('write', 'role', 'roleId'), audit('role', 'update', { entityId: 'roleId', snapshot: roleTasksSnapshot }), async (req: Request, res: Response) => {
   try {
     const roleId = parseInt(req.params.roleId);
     const taskId = parseInt(req.params.taskId);
@@ -447,7 +431,7 @@ router.delete('/roles/:roleId/tasks/:taskId', async (req: Request, res: Response
  * Body:
  * - display_order: number (required)
  */
-router.put('/roles/:roleId/tasks/:taskId/order', async (req: Request, res: Response) => {
+router.put('/roles/:roleId/tasks/:taskId/order', requireAuth, resolveWorkspace, authorize('write', 'role', 'roleId'), audit('role', 'update', { entityId: 'roleId', snapshot: roleTasksSnapshot }), async (req: Request, res: Response) => {
   try {
     const roleId = parseInt(req.params.roleId);
     const taskId = parseInt(req.params.taskId);
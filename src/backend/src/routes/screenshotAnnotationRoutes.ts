@@ -0,0 +1,271 @@
+/**
+ * Screenshot Annotation Routes
+ *
+ * Numbered callouts, arrows, highlights and blur/redaction boxes drawn over
+ * a screenshot, and the annotated image exports use
+ * Base path: /api/screenshots/:id/annotations, /api/screenshots/:id/annotated
+ */
+
+import express, { Request, Response } from 'express';
+import * as annotationQueries from '../db/screenshotAnnotationQueries';
+import * as annotationService from '../services/screenshotAnnotationService';
+import { screenshotAnnotationsSnapshot } from '../services/auditService';
+import { NotFoundError, ValidationError, ForbiddenError, ConflictError } from '../utils/errors';
+import { requireAuth } from '../middleware/auth';
+import { resolveWorkspace } from '../middleware/workspace';
+import { authorize, authorizePublishedScreenshot } from '../middleware/permissions';
+import { audit } from '../middleware/audit';
+
+const router = express.Router();
+
+// Annotations are part of their screenshot; changes are logged against it
+const auditAnnotations = audit('screenshot', 'update', { snapshot: screenshotAnnotationsSnapshot });
+
+/**
+ * GET /api/screenshots/:id/annotations
+ * A screenshot's annotations in display order
+ */
+router.get('/screenshots/:id/annotations', requireAuth, resolveWorkspace, authorize('read', 'screenshot', 'id'), authorizePublishedScreenshot(), async (req: Request, res: Response) => {
+  try {
+    const screenshotId = parseInt(req.params.id as string);
+    const annotations = await annotationQueries.getAnnotationsByScreenshotId(screenshotId);
+
+    res.json({
+      success: true,
+      data: annotations,
+    });
+  } catch (error: any) {
+    console.error(`GET /api/screenshots/${req.params.id}/annotations error:`, error);
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch annotations',
+    });
+  }
+});
+
+/**
+ * POST /api/screenshots/:id/annotations
+ * Add an annotation. Coordinates are image pixels.
+ *
+ * Body:
+ * - type: 'callout' | 'arrow' | 'highlight' | 'blur' | 'redact' (required)
+ * - x, y: number (required) - callout centre, arrow tail, or box top-left
+ * - step_number: number (callouts only) - one of the action's steps
+ * - end_x, end_y: number (arrows only) - where the arrow points
+ * - width, height: number (highlight, blur and redact only)
+ * - color: '#RRGGBB' (optional)
+ * - note: string (optional)
+ * - display_order: number (optional, default: after the others)
+ */
+router.post(
+  '/screenshots/:id/annotations',
+  requireAuth,
+  resolveWorkspace,
+  authorize('write', 'screenshot', 'id'),
+  auditAnnotations,
+  async (req: Request, res: Response) => {
+    try {
+      const screenshotId = parseInt(req.params.id as string);
+      const { type, step_number, x, y, width, height, end_x, end_y, color, note, display_order } = req.body;
+
+      const annotation = await annotationService.createScreenshotAnnotation({
+        screenshot_id: screenshotId,
+        type,
+        step_number,
+        x,
+        y,
+        width,
+        height,
+        end_x,
+        end_y,
+        color,
+        note,
+        display_order,
+        created_by: req.workspace!.userId,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: annotation,
+        message: 'Annotation added',
+      });
+    } catch (error: any) {
+      console.error(`POST /api/screenshots/${req.params.id}/annotations error:`, error);
+
+      if (error instanceof NotFoundError) {
+        return res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      if (error instanceof ValidationError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+          errors: error.errors,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to add annotation',
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/screenshots/:id/annotations/:annotationId
+ * Change an annotation; only the given fields change, and null clears an
+ * optional one. The type can't be changed.
+ */
+router.put(
+  '/screenshots/:id/annotations/:annotationId',
+  requireAuth,
+  resolveWorkspace,
+  authorize('write', 'screenshot', 'id'),
+  auditAnnotations,
+  async (req: Request, res: Response) => {
+    try {
+      const screenshotId = parseInt(req.params.id as string);
+      const annotationId = parseInt(req.params.annotationId as string);
+      const { type, step_number, x, y, width, height, end_x, end_y, color, note, display_order } = req.body;
+
+      const annotation = await annotationService.updateScreenshotAnnotation(screenshotId, annotationId, {
+        type,
+        step_number,
+        x,
+        y,
+        width,
+        height,
+        end_x,
+        end_y,
+        color,
+        note,
+        display_order,
+      });
+
+      res.json({
+        success: true,
+        data: annotation,
+        message: 'Annotation updated',
+      });
+    } catch (error: any) {
+      console.error(`PUT /api/screenshots/${req.params.id}/annotations/${req.params.annotationId} error:`, error);
+
+      if (error instanceof NotFoundError) {
+        return res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      if (error instanceof ValidationError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+          errors: error.errors,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to update annotation',
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/screenshots/:id/annotations/:annotationId
+ * Remove an annotation
+ */
+router.delete(
+  '/screenshots/:id/annotations/:annotationId',
+  requireAuth,
+  resolveWorkspace,
+  authorize('write', 'screenshot', 'id'),
+  auditAnnotations,
+  async (req: Request, res: Response) => {
+    try {
+      const screenshotId = parseInt(req.params.id as string);
+      const annotationId = parseInt(req.params.annotationId as string);
+
+      await annotationQueries.deleteScreenshotAnnotation(screenshotId, annotationId);
+
+      res.json({
+        success: true,
+        message: 'Annotation removed',
+      });
+    } catch (error: any) {
+      console.error(`DELETE /api/screenshots/${req.params.id}/annotations/${req.params.annotationId} error:`, error);
+
+      if (error instanceof NotFoundError) {
+        return res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to remove annotation',
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/screenshots/:id/annotated
+ * The screenshot as PNG with its annotations drawn over it, as exports
+ * show it, with any sensitive text redacted (409 until it can be scanned).
+ * Only PNG and non-progressive JPEG screenshots can be drawn on.
+ */
+router.get('/screenshots/:id/annotated', requireAuth, resolveWorkspace, authorize('read', 'screenshot', 'id'), authorizePublishedScreenshot(), async (req: Request, res: Response) => {
+  try {
+    const screenshotId = parseInt(req.params.id as string);
+    const image = await annotationService.renderAnnotatedScreenshot(screenshotId);
+
+    res.setHeader('Cache-Control', 'private, no-cache');
+    res.type('image/png').send(image);
+  } catch (error: any) {
+    console.error(`GET /api/screenshots/${req.params.id}/annotated error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    if (error instanceof ForbiddenError) {
+      return res.status(403).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    if (error instanceof ConflictError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to render annotated screenshot',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,361 @@
+/**
+ * Screenshot Drift Routes
+ *
+ * Compare a fresh capture of a screen with its stored screenshot, flag the
+ * actions showing it as possibly outdated when the UI has changed, and
+ * accept or dismiss the change
+ * Base paths: /api/screenshots/:id/drift-checks, /api/drift-checks
+ */
+
+import express, { Request, Response } from 'express';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import * as driftQueries from '../db/screenshotDriftQueries';
+import { checkScreenshotDrift, maskDriftCheck } from '../services/screenshotDriftService';
+import { maskScreenshot, scanChangedScreenshot } from '../services/screenshotRedactionService';
+import { getStorage, SIGNED_URL_EXPIRY_SECONDS } from '../services/storage';
+import { validateQueryOptions } from '../utils/validation';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { requireAuth } from '../middleware/auth';
+import { resolveWorkspace } from '../middleware/workspace';
+import { authorize, authorizePublishedScreenshot } from '../middleware/permissions';
+import { audit } from '../middleware/audit';
+import { receiveScreenshot } from '../middleware/upload';
+
+const router = express.Router();
+
+// Accepting a check changes its screenshot; that's what the audit log records
+const driftCheckScreenshotId = async (req: Request): Promise<number> =>
+  (await driftQueries.getDriftCheckById(parseInt(req.params.id as string))).screenshot_id;
+
+// ============================================================================
+// DRIFT CHECK ENDPOINTS
+// ============================================================================
+
+/**
+ * POST /api/screenshots/:id/drift-checks
+ * Upload a fresh capture of the screenshot's screen and compare it with the
+ * stored one. OCR runs before responding. The report lists labels added,
+ * removed and moved; if there are any, the actions showing the screenshot
+ * are flagged as possibly outdated.
+ *
+ * Body (multipart/form-data):
+ * - screenshot: image file (required, jpeg/png/gif, max 10MB)
+ */
+router.post(
+  '/screenshots/:id/drift-checks',
+  requireAuth,
+  resolveWorkspace,
+  authorize('write', 'screenshot', 'id'),
+  receiveScreenshot,
+  audit('drift_check', 'create'),
+  async (req: Request, res: Response) => {
+    try {
+      const screenshotId = parseInt(req.params.id as string);
+
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          error: 'No file uploaded',
+        });
+      }
+
+      const check = await checkScreenshotDrift(screenshotId, req.file, req.workspace!.userId);
+
+      res.status(201).json({
+        success: true,
+        data: maskDriftCheck(check),
+        message: check.has_drift
+          ? `Screen has changed; ${check.affected_actions.length} action(s) flagged as possibly outdated`
+          : 'No changes found',
+      });
+    } catch (error: any) {
+      console.error(`POST /api/screenshots/${req.params.id}/drift-checks error:`, error);
+
+      if (error instanceof NotFoundError) {
+        return res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      if (error instanceof ConflictError) {
+        return res.status(409).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to check screenshot for drift',
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/screenshots/:id/drift-checks
+ * A screenshot's drift checks, most recent first
+ *
+ * Query params:
+ * - limit: number (default: 50)
+ * - offset: number (default: 0)
+ */
+router.get('/screenshots/:id/drift-checks', requireAuth, resolveWorkspace, authorize('read', 'screenshot', 'id'), authorizePublishedScreenshot(), async (req: Request, res: Response) => {
+  try {
+    const screenshotId = parseInt(req.params.id as string);
+    const { limit, offset } = validateQueryOptions(req.query);
+
+    const checks = await driftQueries.getDriftChecksByScreenshotId(screenshotId, { limit, offset });
+
+    res.json({
+      success: true,
+      data: { ...checks, data: checks.data.map(maskDriftCheck) },
+    });
+  } catch (error: any) {
+    console.error(`GET /api/screenshots/${req.params.id}/drift-checks error:`, error);
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch drift checks',
+    });
+  }
+});
+
+/**
+ * GET /api/drift-checks/:id
+ * Get a drift check with its report, and the actions it covers with the
+ * steps in them that show the screenshot. Sensitive text is masked in the
+ * report and OCR data, as in every drift check response.
+ */
+router.get('/drift-checks/:id', requireAuth, resolveWorkspace, authorize('read', 'drift_check', 'id'), async (req: Request, res: Response) => {
+  try {
+    const checkId = parseInt(req.params.id as string);
+    const check = await driftQueries.getDriftCheckWithActions(checkId);
+
+    res.json({
+      success: true,
+      data: maskDriftCheck(check),
+    });
+  } catch (error: any) {
+    console.error(`GET /api/drift-checks/${req.params.id} error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch drift check',
+    });
+  }
+});
+
+/**
+ * GET /api/drift-checks/:id/file
+ * Download the check's capture: the fresh one, or once accepted, the one
+ * it replaced. Neither is scanned for sensitive text, so like a
+ * screenshot's original, only workspace owners can download them.
+ * Redirects to a signed URL where the backend supports it.
+ *
+ * Query params:
+ * - stream: 'true' to always stream through the API
+ */
+router.get('/drift-checks/:id/file', requireAuth, resolveWorkspace, authorize('admin', 'drift_check', 'id'), async (req: Request, res: Response) => {
+  try {
+    const checkId = parseInt(req.params.id as string);
+    const check = await driftQueries.getDriftCheckById(checkId);
+
+    if (!check.storage_key) {
+      return res.status(404).json({
+        success: false,
+        error: 'Drift check has no stored file',
+      });
+    }
+
+    const storage = getStorage();
+
+    if (req.query.stream !== 'true') {
+      const signedUrl = await storage.getSignedUrl(check.storage_key, SIGNED_URL_EXPIRY_SECONDS);
+      if (signedUrl) {
+        return res.redirect(302, signedUrl);
+      }
+    }
+
+    const file = await storage.get(check.storage_key);
+
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    if (file.size !== null) {
+      res.setHeader('Content-Length', file.size);
+    }
+    res.type(check.content_type || file.contentType || path.extname(check.storage_key));
+
+    await pipeline(file.stream, res);
+  } catch (error: any) {
+    console.error(`GET /api/drift-checks/${req.params.id}/file error:`, error);
+
+    // Nothing more we can send once streaming has started
+    if (res.headersSent) {
+      return;
+    }
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to download capture',
+    });
+  }
+});
+
+/**
+ * POST /api/drift-checks/:id/accept
+ * Make the fresh capture the screenshot's image, with its OCR. The
+ * screenshot's other open checks are dismissed, and actions no longer
+ * covered by an open check with drift are unflagged. The new image is
+ * scanned for sensitive text like any other, and isn't shown until it has
+ * been.
+ */
+router.post(
+  '/drift-checks/:id/accept',
+  requireAuth,
+  resolveWorkspace,
+  authorize('write', 'drift_check', 'id'),
+  audit('drift_check', 'update'),
+  audit('screenshot', 'update', { entityId: driftCheckScreenshotId }),
+  async (req: Request, res: Response) => {
+    try {
+      const checkId = parseInt(req.params.id as string);
+      const result = await driftQueries.resolveDriftCheck(checkId, 'accepted', req.workspace!.userId);
+
+      result.screenshot = await scanChangedScreenshot(result.screenshot!.id) ?? result.screenshot;
+
+      res.json({
+        success: true,
+        data: {
+          check: maskDriftCheck(result.check),
+          screenshot: result.screenshot && maskScreenshot(result.screenshot),
+        },
+        message: 'Fresh capture accepted',
+      });
+    } catch (error: any) {
+      console.error(`POST /api/drift-checks/${req.params.id}/accept error:`, error);
+
+      if (error instanceof NotFoundError) {
+        return res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      if (error instanceof ConflictError) {
+        return res.status(409).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to accept drift check',
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/drift-checks/:id/dismiss
+ * Close a check without changing the screenshot, e.g. when the change
+ * doesn't affect the documentation. Actions no longer covered by an open
+ * check with drift are unflagged.
+ */
+router.post('/drift-checks/:id/dismiss', requireAuth, resolveWorkspace, authorize('write', 'drift_check', 'id'), audit('drift_check', 'update'), async (req: Request, res: Response) => {
+  try {
+    const checkId = parseInt(req.params.id as string);
+    const { check } = await driftQueries.resolveDriftCheck(checkId, 'dismissed', req.workspace!.userId);
+
+    res.json({
+      success: true,
+      data: maskDriftCheck(check),
+      message: 'Drift check dismissed',
+    });
+  } catch (error: any) {
+    console.error(`POST /api/drift-checks/${req.params.id}/dismiss error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    if (error instanceof ConflictError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to dismiss drift check',
+    });
+  }
+});
+
+// ============================================================================
+// POSSIBLY OUTDATED ACTIONS
+// ============================================================================
+
+/**
+ * GET /api/outdated-actions
+ * Actions in the current workspace flagged as possibly outdated, with the
+ * open drift checks behind each flag, longest-flagged first
+ *
+ * Query params:
+ * - system_id: number (optional)
+ */
+router.get('/outdated-actions', requireAuth, resolveWorkspace, authorize('read'), async (req: Request, res: Response) => {
+  try {
+    const systemId = req.query.system_id ? parseInt(req.query.system_id as string) : undefined;
+
+    if (systemId !== undefined && isNaN(systemId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid system_id',
+      });
+    }
+
+    const actions = await driftQueries.getPossiblyOutdatedActions(req.workspace!.id, systemId);
+
+    res.json({
+      success: true,
+      data: actions,
+    });
+  } catch (error: any) {
+    console.error('GET /api/outdated-actions error:', error);
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch possibly outdated actions',
+    });
+  }
+});
+
+export default router;
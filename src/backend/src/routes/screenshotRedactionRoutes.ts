@@ -0,0 +1,155 @@
+/**
+ * Screenshot Redaction Routes
+ *
+ * Emails, phone numbers, card numbers and API keys found in a screenshot's
+ * OCR text. The screenshot's file is served with them blacked out.
+ * Base path: /api/screenshots/:id/redactions
+ */
+
+import express, { Request, Response } from 'express';
+import * as redactionQueries from '../db/screenshotRedactionQueries';
+import * as redactionService from '../services/screenshotRedactionService';
+import { screenshotRedactionsSnapshot } from '../services/auditService';
+import { validateUpdateScreenshotRedaction } from '../utils/validation';
+import { NotFoundError, ValidationError, ConflictError } from '../utils/errors';
+import { requireAuth } from '../middleware/auth';
+import { resolveWorkspace } from '../middleware/workspace';
+import { authorize, authorizePublishedScreenshot } from '../middleware/permissions';
+import { audit } from '../middleware/audit';
+
+const router = express.Router();
+
+// Redactions are part of their screenshot; changes are logged against it
+const auditRedactions = audit('screenshot', 'update', { snapshot: screenshotRedactionsSnapshot });
+
+/**
+ * GET /api/screenshots/:id/redactions
+ * Sensitive text found in a screenshot, top to bottom. Previews are masked.
+ */
+router.get('/screenshots/:id/redactions', requireAuth, resolveWorkspace, authorize('read', 'screenshot', 'id'), authorizePublishedScreenshot(), async (req: Request, res: Response) => {
+  try {
+    const screenshotId = parseInt(req.params.id as string);
+    const redactions = await redactionQueries.getRedactionsByScreenshotId(screenshotId);
+
+    res.json({
+      success: true,
+      data: redactions,
+    });
+  } catch (error: any) {
+    console.error(`GET /api/screenshots/${req.params.id}/redactions error:`, error);
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch redactions',
+    });
+  }
+});
+
+/**
+ * POST /api/screenshots/:id/redactions/scan
+ * Scan the screenshot's OCR text again and remake its redacted copy.
+ * Screenshots are scanned automatically when OCR finishes; matches
+ * dismissed before stay dismissed.
+ */
+router.post(
+  '/screenshots/:id/redactions/scan',
+  requireAuth,
+  resolveWorkspace,
+  authorize('write', 'screenshot', 'id'),
+  auditRedactions,
+  async (req: Request, res: Response) => {
+    try {
+      const screenshotId = parseInt(req.params.id as string);
+      const result = await redactionService.scanScreenshotForSensitiveText(screenshotId);
+
+      res.json({
+        success: true,
+        data: { ...result, screenshot: redactionService.maskScreenshot(result.screenshot) },
+        message: `Found ${result.redactions.length} sensitive item(s)`,
+      });
+    } catch (error: any) {
+      console.error(`POST /api/screenshots/${req.params.id}/redactions/scan error:`, error);
+
+      if (error instanceof NotFoundError) {
+        return res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      if (error instanceof ConflictError) {
+        return res.status(409).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to scan screenshot',
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/screenshots/:id/redactions/:redactionId
+ * Dismiss a match as a false positive so it's left visible, or restore it.
+ * Only workspace owners, who can see the original, can decide this.
+ *
+ * Body:
+ * - dismissed: boolean (required)
+ */
+router.put(
+  '/screenshots/:id/redactions/:redactionId',
+  requireAuth,
+  resolveWorkspace,
+  authorize('admin', 'screenshot', 'id'),
+  auditRedactions,
+  async (req: Request, res: Response) => {
+    try {
+      const screenshotId = parseInt(req.params.id as string);
+      const redactionId = parseInt(req.params.redactionId as string);
+      const { dismissed } = req.body;
+
+      validateUpdateScreenshotRedaction({ dismissed });
+
+      const result = await redactionService.setRedactionDismissed(
+        screenshotId,
+        redactionId,
+        dismissed,
+        req.workspace!.userId
+      );
+
+      res.json({
+        success: true,
+        data: { ...result, screenshot: redactionService.maskScreenshot(result.screenshot) },
+        message: dismissed ? 'Redaction dismissed' : 'Redaction restored',
+      });
+    } catch (error: any) {
+      console.error(`PUT /api/screenshots/${req.params.id}/redactions/${req.params.redactionId} error:`, error);
+
+      if (error instanceof NotFoundError) {
+        return res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      if (error instanceof ValidationError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+          errors: error.errors,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to update redaction',
+      });
+    }
+  }
+);
+
+export default router;
@@ -6,9 +6,19 @@
  */
 
 import express, { Request, Response } from 'express';
+import path from 'path';
+import { pipeline } from 'stream/promises';
 import * as queries from '../db/queries';
-import { validateRequired, validatePositiveInteger } from '../utils/validation';
-import { NotFoundError, ValidationError } from '../utils/errors';
+import * as trashQueries from '../db/trashQueries';
+import * as ocrJobQueries from '../db/ocrJobQueries';
+import { getStorage, SIGNED_URL_EXPIRY_SECONDS } from '../services/storage';
+import { displayStorageKey, maskScreenshot, scanChangedScreenshot } from '../services/screenshotRedactionService';
+import { validateRequired, validatePositiveInteger, validateCreateScreenshot } from '../utils/validation';
+import { NotFoundError, ValidationError, ForbiddenError, ConflictError } from '../utils/errors';
+import { requireAuth } from '../middleware/auth';
+import { resolveWorkspace } from '../middleware/workspace';
+import { authorize, assertPermission, authorizePublishedScreenshot } from '../middleware/permissions';
+import { audit } from '../middleware/audit';
 
 const router = express.Router();
 
@@ -18,9 +28,11 @@ const router = express.Router();
 
 /**
  * GET /api/screenshots/:id
- * Get a single screenshot by ID
+ * Get a single screenshot by ID. Sensitive text in its OCR data is masked,
+ * as it is wherever screenshots are returned. Viewers (or ?version=published)
+ * only get screenshots the published version of their action shows.
  */
-router.get('/screenshots/:id', async (req: Request, res: Response) => {
+router.get('/screenshots/:id', requireAuth, resolveWorkspace, authorize('read', 'screenshot', 'id'), authorizePublishedScreenshot(), async (req: Request, res: Response) => {
   try {
     const screenshotId = parseInt(req.params.id);
 
@@ -35,7 +47,7 @@ router.get('/screenshots/:id', async (req: Request, res: Response) => {
 
     res.json({
       success: true,
-      data: screenshot,
+      data: maskScreenshot(screenshot),
     });
   } catch (error: any) {
     console.error(`GET /api/screenshots/${req.params.id} error:`, error);
@@ -54,26 +66,226 @@ router.get('/screenshots/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/screenshots/:id/file
+ * Download the screenshot image
+ *
+ * Backends that can sign URLs (S3) redirect to a short-lived signed URL;
+ * otherwise the file is streamed through the API
+ *
+ * Screenshots with sensitive text found in them are served as their redacted
+ * copy (PNG). If the text couldn't be blacked out, only workspace owners can
+ * download the screenshot, as the original. A screenshot not scanned yet is
+ * scanned first; until its OCR has finished it responds 409 (owners can
+ * still download the original). Viewers only get screenshots published, as
+ * for GET /api/screenshots/:id.
+ *
+ * Query params:
+ * - stream: 'true' to always stream through the API
+ * - original: 'true' for the unredacted original (workspace owners only)
+ */
+router.get('/screenshots/:id/file', requireAuth, resolveWorkspace, authorize('read', 'screenshot', 'id'), authorizePublishedScreenshot(), async (req: Request, res: Response) => {
+  try {
+    const screenshotId = parseInt(req.params.id);
+
+    if (isNaN(screenshotId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid screenshot ID',
+      });
+    }
+
+    const screenshot = await queries.getScreenshotById(screenshotId);
+
+    if (req.query.original === 'true') {
+      await assertPermission(req, 'admin', 'screenshot', screenshotId);
+    }
+
+    const storageKey = req.query.original === 'true' ? screenshot.storage_key : await displayStorageKey(screenshot);
+
+    if (!storageKey) {
+      return res.status(404).json({
+        success: false,
+        error: 'Screenshot has no stored file',
+      });
+    }
+
+    const storage = getStorage();
+
+    if (req.query.stream !== 'true') {
+      const signedUrl = await storage.getSignedUrl(storageKey, SIGNED_URL_EXPIRY_SECONDS);
+      if (signedUrl) {
+        return res.redirect(302, signedUrl);
+      }
+    }
+
+    const file = await storage.get(storageKey);
+    const contentType = storageKey === screenshot.storage_key ? screenshot.content_type : 'image/png';
+
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    if (file.size !== null) {
+      res.setHeader('Content-Length', file.size);
+    }
+    res.type(contentType || file.contentType || path.extname(storageKey));
+
+    await pipeline(file.stream, res);
+  } catch (error: any) {
+    console.error(`GET /api/screenshots/${req.params.id}/file error:`, error);
+
+    // Nothing more we can send once streaming has started
+    if (res.headersSent) {
+      return;
+    }
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    if (error instanceof ForbiddenError) {
+      return res.status(403).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    if (error instanceof ConflictError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to download screenshot',
+    });
+  }
+});
+
+/**
+ * GET /api/screenshots/:id/ocr-status
+ * Get the state of OCR for a screenshot
+ *
+ * status is the latest job's state, or 'not_queued' if OCR was never
+ * queued (e.g. screenshots registered with ocr_data directly)
+ */
+router.get('/screenshots/:id/ocr-status', requireAuth, resolveWorkspace, authorize('read', 'screenshot', 'id'), authorizePublishedScreenshot(), async (req: Request, res: Response) => {
+  try {
+    const screenshotId = parseInt(req.params.id);
+
+    if (isNaN(screenshotId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid screenshot ID',
+      });
+    }
+
+    const screenshot = await queries.getScreenshotById(screenshotId);
+    const job = await ocrJobQueries.getLatestOcrJobForScreenshot(screenshotId);
+
+    res.json({
+      success: true,
+      data: {
+        screenshot_id: screenshotId,
+        status: job ? job.status : 'not_queued',
+        has_ocr_data: screenshot.ocr_data !== null,
+        job,
+      },
+    });
+  } catch (error: any) {
+    console.error(`GET /api/screenshots/${req.params.id}/ocr-status error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch OCR status',
+    });
+  }
+});
+
+/**
+ * POST /api/screenshots/:id/ocr
+ * Re-run OCR for a screenshot
+ * Returns the existing job if one is already queued or running
+ */
+router.post('/screenshots/:id/ocr', requireAuth, resolveWorkspace, authorize('write', 'screenshot', 'id'), async (req: Request, res: Response) => {
+  try {
+    const screenshotId = parseInt(req.params.id);
+
+    if (isNaN(screenshotId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid screenshot ID',
+      });
+    }
+
+    const job = await ocrJobQueries.enqueueOcrJob(screenshotId);
+
+    res.status(202).json({
+      success: true,
+      data: job,
+      message: 'OCR queued',
+    });
+  } catch (error: any) {
+    console.error(`POST /api/screenshots/${req.params.id}/ocr error:`, error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to queue OCR',
+    });
+  }
+});
+
 /**
  * POST /api/screenshots
  * Create a new screenshot record
  * 
  * Body:
  * - action_id: number (required)
- * - file_path: string (required) - Path to uploaded file
+ * - storage_key: string (required) - Key returned by POST /api/upload that
+ *   no other screenshot uses (queues OCR unless ocr_data is given)
  * - original_filename: string (optional)
  * - ocr_data: OCRData (optional JSONB)
  * - vision_data: VisionData (optional JSONB)
  * 
  * Note: This is typically called after a file upload
- * For file uploads with automatic OCR, see /api/upload endpoint
+ * To upload and attach a file in one step, see
+ * POST /api/actions/:actionId/screenshots
  */
-router.post('/screenshots', async (req: Request, res: Response) => {
+router.post('/screenshots', requireAuth, resolveWorkspace, authorize('write', 'action', 'action_id', 'body'), audit('screenshot', 'create'), async (req: Request, res: Response) => {
   try {
-    const { action_id, file_path, original_filename, ocr_data, vision_data } = req.body;
+    const { action_id, storage_key, original_filename, ocr_data, vision_data } = req.body;
 
     // Validate required fields
-    validateRequired(['action_id', 'file_path'], req.body);
+    validateRequired(['action_id', 'storage_key'], req.body);
+
+    // Server paths could name any file on the server; files only come in
+    // through uploads
+    if (req.body.file_path !== undefined) {
+      return res.status(400).json({
+        success: false,
+        error: 'file_path is not accepted; upload the file with POST /api/upload and pass its storage_key',
+      });
+    }
+
+    validateCreateScreenshot({ action_id, storage_key, original_filename });
+
+    // An upload's key belongs to nothing yet; one that does is someone
+    // else's file (or the original behind a redacted copy)
+    if (await queries.isStorageKeyInUse(storage_key)) {
+      return res.status(409).json({
+        success: false,
+        error: 'This file is already registered; upload it again to use it here',
+      });
+    }
 
     // Validate action_id
     if (!validatePositiveInteger(action_id)) {
@@ -113,17 +325,25 @@ router.post('/screenshots', async (req: Request, res: Response) => {
     }
 
     // Create screenshot
-    const screenshot = await queries.createScreenshot({
+    let screenshot = await queries.createScreenshot({
       action_id,
-      file_path,
+      storage_key,
       original_filename,
       ocr_data,
       vision_data,
     });
 
+    // OCR data given here is scanned for sensitive text now; without it the
+    // file gets OCR in the background, and the worker scans the result
+    if (ocr_data) {
+      screenshot = await scanChangedScreenshot(screenshot.id) ?? screenshot;
+    } else {
+      await ocrJobQueries.enqueueOcrJob(screenshot.id);
+    }
+
     res.status(201).json({
       success: true,
-      data: screenshot,
+      data: maskScreenshot(screenshot),
       message: 'Screenshot created successfully',
     });
   } catch (error: any) {
@@ -133,6 +353,7 @@ router.post('/screenshots', async (req: Request, res: Response) => {
       return res.status(400).json({
         success: false,
         error: error.message,
+        errors: error.errors,
       });
     }
 
@@ -151,7 +372,7 @@ router.post('/screenshots', async (req: Request, res: Response) => {
  * - ocr_data: OCRData (optional)
  * - vision_data: VisionData (optional)
  */
-router.put('/screenshots/:id', async (req: Request, res: Response) => {
+router.put('/screenshots/:id', requireAuth, resolveWorkspace, authorize('write', 'screenshot', 'id'), audit('screenshot', 'update'), async (req: Request, res: Response) => {
   try {
     const screenshotId = parseInt(req.params.id);
 
@@ -189,14 +410,19 @@ router.put('/screenshots/:id', async (req: Request, res: Response) => {
     }
 
     // Update screenshot
-    const updatedScreenshot = await queries.updateScreenshot(screenshotId, {
+    let updatedScreenshot = await queries.updateScreenshot(screenshotId, {
       ocr_data,
       vision_data,
     });
 
+    // New OCR words may reveal sensitive text the old ones didn't
+    if (ocr_data) {
+      updatedScreenshot = await scanChangedScreenshot(screenshotId) ?? updatedScreenshot;
+    }
+
     res.json({
       success: true,
-      data: updatedScreenshot,
+      data: maskScreenshot(updatedScreenshot),
       message: 'Screenshot updated successfully',
     });
   } catch (error: any) {
@@ -218,12 +444,10 @@ router.put('/screenshots/:id', async (req: Request, res: Response) => {
 
 /**
  * DELETE /api/screenshots/:id
- * Delete a screenshot
- * 
- * Note: This only deletes the database record.
- * The actual file on disk is not deleted automatically.
+ * Move a screenshot to the trash; its stored file is kept until the trash
+ * item is purged
  */
-router.delete('/screenshots/:id', async (req: Request, res: Response) => {
+router.delete('/screenshots/:id', requireAuth, resolveWorkspace, authorize('write', 'screenshot', 'id'), audit('screenshot', 'delete'), async (req: Request, res: Response) => {
   try {
     const screenshotId = parseInt(req.params.id);
 
@@ -234,16 +458,12 @@ router.delete('/screenshots/:id', async (req: Request, res: Response) => {
       });
     }
 
-    // Get screenshot to check file path (for future file deletion)
-    const screenshot = await queries.getScreenshotById(screenshotId);
-
-    // Delete from database
-    await queries.deleteScreenshot(screenshotId);
+    const trashItem = await trashQueries.moveToTrash('screenshot', screenshotId, req.workspace!.userId);
 
     res.json({
       success: true,
-      message: 'Screenshot deleted successfully',
-      note: `File at ${screenshot.file_path} was not deleted from disk`,
+      data: trashItem,
+      message: 'Screenshot moved to trash',
     });
   } catch (error: any) {
     console.error(`DELETE /api/screenshots/${req.params.id} error:`, error);
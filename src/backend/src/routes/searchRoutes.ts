@@ -0,0 +1,173 @@
+/**
+ * Search Routes
+ *
+ * Full-text search across the caller's workspace, and search for UI
+ * labels inside screenshots by their OCR'd position
+ * Base path: /api/search
+ */
+
+import express, { Request, Response } from 'express';
+import * as searchQueries from '../db/searchQueries';
+import { searchScreenshotText } from '../services/screenshotTextSearchService';
+import { SearchEntityType } from '../types/models';
+import { requireAuth } from '../middleware/auth';
+import { resolveWorkspace } from '../middleware/workspace';
+import { authorize, readsPublishedVersion } from '../middleware/permissions';
+
+const router = express.Router();
+
+const MAX_QUERY_LENGTH = 200;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/**
+ * GET /api/search
+ * Ranked full-text search over systems, departments, practice groups,
+ * actions (title, description, step instructions), screenshot OCR text,
+ * roles, tasks and links. Highlights wrap matches in <mark> tags.
+ * Viewers (or ?version=published) search actions as published, and only
+ * the screenshots published actions show.
+ *
+ * Query params:
+ * - q: string (required) - supports "quoted phrases", OR and -excluded words
+ * - types: comma-separated entity types (optional, default all)
+ *   e.g. types=action,screenshot
+ * - limit: number (optional, default 20, max 100)
+ * - offset: number (optional, default 0)
+ */
+router.get('/search', requireAuth, resolveWorkspace, authorize('read'), async (req: Request, res: Response) => {
+  try {
+    const text = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+
+    if (!text) {
+      return res.status(400).json({
+        success: false,
+        error: 'Query parameter q is required',
+      });
+    }
+
+    if (text.length > MAX_QUERY_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        error: `Query must not exceed ${MAX_QUERY_LENGTH} characters`,
+      });
+    }
+
+    const requestedTypes = typeof req.query.types === 'string' && req.query.types.trim()
+      ? req.query.types.split(',').map((type) => type.trim())
+      : searchQueries.SEARCH_ENTITY_TYPES;
+    const unknownTypes = requestedTypes.filter(
+      (type) => !searchQueries.SEARCH_ENTITY_TYPES.includes(type as SearchEntityType)
+    );
+
+    if (unknownTypes.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown type(s): ${unknownTypes.join(', ')}. Expected: ${searchQueries.SEARCH_ENTITY_TYPES.join(', ')}`,
+      });
+    }
+
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : DEFAULT_LIMIT;
+    const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
+
+    if (isNaN(limit) || limit < 1 || limit > MAX_LIMIT || isNaN(offset) || offset < 0) {
+      return res.status(400).json({
+        success: false,
+        error: `limit must be between 1 and ${MAX_LIMIT} and offset must not be negative`,
+      });
+    }
+
+    const results = await searchQueries.searchWorkspace(
+      req.workspace!.id,
+      text,
+      [...new Set(requestedTypes)] as SearchEntityType[],
+      limit,
+      offset,
+      await readsPublishedVersion(req)
+    );
+
+    res.json({
+      success: true,
+      data: results,
+    });
+  } catch (error: any) {
+    console.error('GET /api/search error:', error);
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Search failed',
+    });
+  }
+});
+
+/**
+ * GET /api/search/screenshot-text
+ * Find every screenshot where a UI label appears, with the pixel regions
+ * of each occurrence (from OCR word bounding boxes). Useful when a vendor
+ * renames a button and every procedure showing it needs updating.
+ * Viewers (or ?version=published) only find screenshots published actions
+ * show.
+ *
+ * Query params:
+ * - label: string (required) - e.g. "Save and Close"; matched word by word,
+ *   case-insensitively, on one line
+ * - system_id: number (optional) - limit to one system
+ * - limit: number (optional, default 20, max 100) - screenshots per page
+ * - offset: number (optional, default 0)
+ */
+router.get(
+  '/search/screenshot-text',
+  requireAuth,
+  resolveWorkspace,
+  authorize('read'),
+  authorize('read', 'system', 'system_id', 'query'),
+  async (req: Request, res: Response) => {
+    try {
+      const label = typeof req.query.label === 'string' ? req.query.label.trim() : '';
+
+      if (!label) {
+        return res.status(400).json({
+          success: false,
+          error: 'Query parameter label is required',
+        });
+      }
+
+      if (label.length > MAX_QUERY_LENGTH) {
+        return res.status(400).json({
+          success: false,
+          error: `Label must not exceed ${MAX_QUERY_LENGTH} characters`,
+        });
+      }
+
+      const systemId = req.query.system_id ? parseInt(req.query.system_id as string) : undefined;
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : DEFAULT_LIMIT;
+      const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
+
+      if (isNaN(limit) || limit < 1 || limit > MAX_LIMIT || isNaN(offset) || offset < 0) {
+        return res.status(400).json({
+          success: false,
+          error: `limit must be between 1 and ${MAX_LIMIT} and offset must not be negative`,
+        });
+      }
+
+      const publishedOnly = systemId === undefined
+        ? await readsPublishedVersion(req)
+        : await readsPublishedVersion(req, 'system', systemId);
+      const results = await searchScreenshotText(req.workspace!.id, label, { systemId, limit, offset, publishedOnly });
+
+      res.json({
+        success: true,
+        data: results,
+      });
+    } catch (error: any) {
+      console.error('GET /api/search/screenshot-text error:', error);
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Screenshot text search failed',
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,345 @@
+/**
+ * Step Draft Routes
+ *
+ * REST API endpoints for LLM-drafted action steps. A draft is generated
+ * from an action's screenshots, reviewed step by step, then applied to
+ * the action (or discarded). Drafts are unpublished content, so only
+ * editors can see them.
+ * Base path: /api/step-drafts
+ */
+
+import express, { Request, Response } from 'express';
+import * as stepDraftQueries from '../db/stepDraftQueries';
+import {
+  generateStepDraft,
+  reviewDraftStep,
+  applyDraft,
+  discardDraft,
+} from '../services/stepDraftService';
+import { NotFoundError, ValidationError, ConflictError, ExtractionError } from '../utils/errors';
+import { requireAuth } from '../middleware/auth';
+import { resolveWorkspace } from '../middleware/workspace';
+import { authorize } from '../middleware/permissions';
+import { audit } from '../middleware/audit';
+
+const router = express.Router();
+
+// Applying a draft changes its action, so that is what gets audited
+const draftActionId = async (req: Request): Promise<number> =>
+  (await stepDraftQueries.getStepDraftById(parseInt(req.params.id as string))).action_id;
+
+// ============================================================================
+// STEP DRAFT ENDPOINTS
+// ============================================================================
+
+/**
+ * POST /api/actions/:actionId/step-drafts
+ * Draft steps for an action from its screenshots and their OCR text.
+ * The draft is saved as pending; nothing changes on the action until it is applied.
+ */
+router.post('/actions/:actionId/step-drafts', requireAuth, resolveWorkspace, authorize('write', 'action', 'actionId'), audit('step_draft', 'create'), async (req: Request, res: Response) => {
+  try {
+    const actionId = parseInt(req.params.actionId as string);
+
+    if (isNaN(actionId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid action ID',
+      });
+    }
+
+    const draft = await generateStepDraft(actionId, req.workspace!.userId);
+
+    res.status(201).json({
+      success: true,
+      data: draft,
+      message: `Drafted ${draft.steps.length} step(s) for review`,
+    });
+  } catch (error: any) {
+    console.error(`POST /api/actions/${req.params.actionId}/step-drafts error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    if (error instanceof ExtractionError) {
+      return res.status(502).json({
+        success: false,
+        error: error.message,
+        errors: error.errors,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to draft steps',
+    });
+  }
+});
+
+/**
+ * GET /api/actions/:actionId/step-drafts
+ * List an action's step drafts, newest first
+ */
+router.get('/actions/:actionId/step-drafts', requireAuth, resolveWorkspace, authorize('write', 'action', 'actionId'), async (req: Request, res: Response) => {
+  try {
+    const actionId = parseInt(req.params.actionId as string);
+
+    if (isNaN(actionId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid action ID',
+      });
+    }
+
+    const drafts = await stepDraftQueries.getStepDraftsByActionId(actionId);
+
+    res.json({
+      success: true,
+      data: drafts,
+    });
+  } catch (error: any) {
+    console.error(`GET /api/actions/${req.params.actionId}/step-drafts error:`, error);
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch step drafts',
+    });
+  }
+});
+
+/**
+ * GET /api/step-drafts/:id
+ * Get a single step draft by ID
+ */
+router.get('/step-drafts/:id', requireAuth, resolveWorkspace, authorize('write', 'step_draft', 'id'), async (req: Request, res: Response) => {
+  try {
+    const draftId = parseInt(req.params.id as string);
+
+    if (isNaN(draftId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid step draft ID',
+      });
+    }
+
+    const draft = await stepDraftQueries.getStepDraftById(draftId);
+
+    res.json({
+      success: true,
+      data: draft,
+    });
+  } catch (error: any) {
+    console.error(`GET /api/step-drafts/${req.params.id} error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch step draft',
+    });
+  }
+});
+
+/**
+ * PUT /api/step-drafts/:id/steps/:stepNumber
+ * Accept or reject one proposed step, optionally editing it
+ *
+ * Body:
+ * - decision: 'accepted' | 'rejected' (required)
+ * - instruction: string (optional) - replacement text
+ * - notes: string (optional)
+ */
+router.put('/step-drafts/:id/steps/:stepNumber', requireAuth, resolveWorkspace, authorize('write', 'step_draft', 'id'), audit('step_draft', 'update'), async (req: Request, res: Response) => {
+  try {
+    const draftId = parseInt(req.params.id as string);
+    const stepNumber = parseInt(req.params.stepNumber as string);
+
+    if (isNaN(draftId) || isNaN(stepNumber)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid step draft ID or step number',
+      });
+    }
+
+    const { decision, instruction, notes } = req.body;
+
+    if (decision !== 'accepted' && decision !== 'rejected') {
+      return res.status(400).json({
+        success: false,
+        error: "decision must be 'accepted' or 'rejected'",
+      });
+    }
+
+    if (instruction !== undefined && (typeof instruction !== 'string' || instruction.trim() === '')) {
+      return res.status(400).json({
+        success: false,
+        error: 'instruction must be a non-empty string',
+      });
+    }
+
+    if (notes !== undefined && typeof notes !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'notes must be a string',
+      });
+    }
+
+    const draft = await reviewDraftStep(draftId, stepNumber, { decision, instruction, notes });
+
+    res.json({
+      success: true,
+      data: draft,
+      message: `Step ${stepNumber} ${decision}`,
+    });
+  } catch (error: any) {
+    console.error(`PUT /api/step-drafts/${req.params.id}/steps/${req.params.stepNumber} error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    if (error instanceof ConflictError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to review step',
+    });
+  }
+});
+
+/**
+ * POST /api/step-drafts/:id/apply
+ * Save the accepted steps to the action. Every step must be reviewed first.
+ *
+ * Body:
+ * - mode: 'replace' | 'append' (optional, default 'replace')
+ */
+router.post('/step-drafts/:id/apply', requireAuth, resolveWorkspace, authorize('write', 'step_draft', 'id'), audit('action', 'update', { entityId: draftActionId }), async (req: Request, res: Response) => {
+  try {
+    const draftId = parseInt(req.params.id as string);
+
+    if (isNaN(draftId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid step draft ID',
+      });
+    }
+
+    const mode = req.body.mode || 'replace';
+
+    if (mode !== 'replace' && mode !== 'append') {
+      return res.status(400).json({
+        success: false,
+        error: "mode must be 'replace' or 'append'",
+      });
+    }
+
+    const result = await applyDraft(draftId, req.workspace!.userId, mode);
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'Step draft applied to action',
+    });
+  } catch (error: any) {
+    console.error(`POST /api/step-drafts/${req.params.id}/apply error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    if (error instanceof ConflictError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to apply step draft',
+    });
+  }
+});
+
+/**
+ * DELETE /api/step-drafts/:id
+ * Discard a pending step draft (kept for history, marked discarded)
+ */
+router.delete('/step-drafts/:id', requireAuth, resolveWorkspace, authorize('write', 'step_draft', 'id'), audit('step_draft', 'update'), async (req: Request, res: Response) => {
+  try {
+    const draftId = parseInt(req.params.id as string);
+
+    if (isNaN(draftId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid step draft ID',
+      });
+    }
+
+    const draft = await discardDraft(draftId);
+
+    res.json({
+      success: true,
+      data: draft,
+      message: 'Step draft discarded',
+    });
+  } catch (error: any) {
+    console.error(`DELETE /api/step-drafts/${req.params.id} error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    if (error instanceof ConflictError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to discard step draft',
+    });
+  }
+});
+
+export default router;
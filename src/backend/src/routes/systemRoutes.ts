@@ -7,8 +7,16 @@
 
 import express, { Request, Response } from 'express';
 import * as queries from '../db/queries';
-import { validateRequired, validatePositiveInteger } from '../utils/validation';
+import * as trashQueries from '../db/trashQueries';
+import * as workspaceQueries from '../db/workspaceQueries';
+import * as workflowQueries from '../db/workflowQueries';
+import { validateRequired, validateWorkspaceRole } from '../utils/validation';
 import { NotFoundError, ValidationError } from '../utils/errors';
+import { requireAuth } from '../middleware/auth';
+import { resolveWorkspace } from '../middleware/workspace';
+import { authorize, readsPublishedVersion } from '../middleware/permissions';
+import { audit } from '../middleware/audit';
+import { systemPermissionsSnapshot } from '../services/auditService';
 
 const router = express.Router();
 
@@ -20,7 +28,7 @@ const router = express.Router();
  * GET /api/systems/:id
  * Get a single system by ID
  */
-router.get('/systems/:id', async (req: Request, res: Response) => {
+router.get('/systems/:id', requireAuth, resolveWorkspace, authorize('read', 'system', 'id'), async (req: Request, res: Response) => {
   try {
     const systemId = parseInt(req.params.id);
 
@@ -55,8 +63,8 @@ router.get('/systems/:id', async (req: Request, res: Response) => {
 });
 
 /**
- * GET /api/users/:userId/systems
- * Get all systems for a specific user
+ * GET /api/systems
+ * Get all systems in the caller's workspace
  * 
  * Query params:
  * - limit: number (default: 50)
@@ -64,17 +72,8 @@ router.get('/systems/:id', async (req: Request, res: Response) => {
  * - orderBy: string (default: 'created_at')
  * - orderDirection: 'ASC' | 'DESC' (default: 'DESC')
  */
-router.get('/users/:userId/systems', async (req: Request, res: Response) => {
+router.get('/systems', requireAuth, resolveWorkspace, authorize('read'), async (req: Request, res: Response) => {
   try {
-    const userId = parseInt(req.params.userId);
-
-    if (isNaN(userId)) {
-      return res.status(400).json({
-        success: false,
-        error: 'Invalid user ID',
-      });
-    }
-
     const options = {
       limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
       offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
@@ -82,14 +81,14 @@ router.get('/users/:userId/systems', async (req: Request, res: Response) => {
       orderDirection: req.query.orderDirection as 'ASC' | 'DESC' | undefined,
     };
 
-    const result = await queries.getSystemsByUserId(userId, options);
+    const result = await queries.getSystemsByWorkspaceId(req.workspace!.id, options);
 
     res.json({
       success: true,
       ...result,
     });
   } catch (error: any) {
-    console.error(`GET /api/users/${req.params.userId}/systems error:`, error);
+    console.error('GET /api/systems error:', error);
     res.status(500).json({
       success: false,
       error: error.message || 'Failed to fetch systems',
@@ -99,44 +98,23 @@ router.get('/users/:userId/systems', async (req: Request, res: Response) => {
 
 /**
  * POST /api/systems
- * Create a new system
+ * Create a new system in the caller's workspace
  * 
  * Body:
- * - user_id: number (required)
  * - name: string (required)
  * - description: string (optional)
  */
-router.post('/systems', async (req: Request, res: Response) => {
+router.post('/systems', requireAuth, resolveWorkspace, authorize('write'), audit('system', 'create'), async (req: Request, res: Response) => {
   try {
-    const { user_id, name, description } = req.body;
+    const { name, description } = req.body;
 
     // Validate required fields
-    validateRequired(['user_id', 'name'], req.body);
-
-    // Validate user_id is a positive integer
-    if (!validatePositiveInteger(user_id)) {
-      return res.status(400).json({
-        success: false,
-        error: 'user_id must be a positive integer',
-      });
-    }
-
-    // Verify user exists
-    try {
-      await queries.getUserById(user_id);
-    } catch (error) {
-      if (error instanceof NotFoundError) {
-        return res.status(404).json({
-          success: false,
-          error: 'User not found',
-        });
-      }
-      throw error;
-    }
+    validateRequired(['name'], req.body);
 
     // Create system
     const system = await queries.createSystem({
-      user_id,
+      workspace_id: req.workspace!.id,
+      user_id: req.workspace!.userId,
       name,
       description,
     });
@@ -171,7 +149,7 @@ router.post('/systems', async (req: Request, res: Response) => {
  * - name: string (optional)
  * - description: string (optional)
  */
-router.put('/systems/:id', async (req: Request, res: Response) => {
+router.put('/systems/:id', requireAuth, resolveWorkspace, authorize('write', 'system', 'id'), audit('system', 'update'), async (req: Request, res: Response) => {
   try {
     const systemId = parseInt(req.params.id);
 
@@ -222,14 +200,10 @@ router.put('/systems/:id', async (req: Request, res: Response) => {
 
 /**
  * DELETE /api/systems/:id
- * Delete a system (and all associated data via CASCADE)
- * 
- * WARNING: This will delete:
- * - The system
- * - All actions in the system
- * - All screenshots in those actions
+ * Move a system, with its departments, practice groups, actions, sequences
+ * and screenshots, to the trash; owners only
  */
-router.delete('/systems/:id', async (req: Request, res: Response) => {
+router.delete('/systems/:id', requireAuth, resolveWorkspace, authorize('admin', 'system', 'id'), audit('system', 'delete'), async (req: Request, res: Response) => {
   try {
     const systemId = parseInt(req.params.id);
 
@@ -240,11 +214,12 @@ router.delete('/systems/:id', async (req: Request, res: Response) => {
       });
     }
 
-    await queries.deleteSystem(systemId);
+    const trashItem = await trashQueries.moveToTrash('system', systemId, req.workspace!.userId);
 
     res.json({
       success: true,
-      message: 'System and all associated data deleted successfully',
+      data: trashItem,
+      message: 'System and all associated data moved to trash',
     });
   } catch (error: any) {
     console.error(`DELETE /api/systems/${req.params.id} error:`, error);
@@ -266,14 +241,16 @@ router.delete('/systems/:id', async (req: Request, res: Response) => {
 /**
  * GET /api/systems/:systemId/actions
  * Get all actions for a specific system
+ * Viewers get only published actions, as published
  * 
  * Query params:
  * - limit: number (default: 50)
  * - offset: number (default: 0)
  * - orderBy: string (default: 'created_at')
  * - orderDirection: 'ASC' | 'DESC' (default: 'DESC')
+ * - version: 'published' (optional) - editors can ask for the published list too
  */
-router.get('/systems/:systemId/actions', async (req: Request, res: Response) => {
+router.get('/systems/:systemId/actions', requireAuth, resolveWorkspace, authorize('read', 'system', 'systemId'), async (req: Request, res: Response) => {
   try {
     const systemId = parseInt(req.params.systemId);
 
@@ -291,7 +268,10 @@ router.get('/systems/:systemId/actions', async (req: Request, res: Response) =>
       orderDirection: req.query.orderDirection as 'ASC' | 'DESC' | undefined,
     };
 
-    const result = await queries.getActionsBySystemId(systemId, options);
+    // Viewers see only published actions
+    const result = await readsPublishedVersion(req, 'system', systemId)
+      ? await workflowQueries.getPublishedActionsBySystemId(systemId, options)
+      : await queries.getActionsBySystemId(systemId, options);
 
     res.json({
       success: true,
@@ -306,4 +286,124 @@ router.get('/systems/:systemId/actions', async (req: Request, res: Response) =>
   }
 });
 
+// ============================================================================
+// SYSTEM PERMISSION ENDPOINTS
+// ============================================================================
+
+/**
+ * GET /api/systems/:id/permissions
+ * Get the per-system role overrides for a system
+ */
+router.get('/systems/:id/permissions', requireAuth, resolveWorkspace, authorize('read', 'system', 'id'), async (req: Request, res: Response) => {
+  try {
+    const permissions = await workspaceQueries.getSystemPermissions(parseInt(req.params.id));
+
+    res.json({
+      success: true,
+      data: permissions,
+    });
+  } catch (error: any) {
+    console.error(`GET /api/systems/${req.params.id}/permissions error:`, error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch system permissions',
+    });
+  }
+});
+
+/**
+ * PUT /api/systems/:id/permissions/:userId
+ * Override a workspace member's role for this system (owners only)
+ *
+ * Body:
+ * - role: 'editor' | 'viewer' (required)
+ */
+router.put('/systems/:id/permissions/:userId', requireAuth, resolveWorkspace, authorize('admin', 'system', 'id'), audit('system', 'update', { snapshot: systemPermissionsSnapshot }), async (req: Request, res: Response) => {
+  try {
+    const systemId = parseInt(req.params.id);
+    const userId = parseInt(req.params.userId);
+    const { role } = req.body;
+
+    if (isNaN(userId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid user ID',
+      });
+    }
+
+    if (!validateWorkspaceRole(role, false)) {
+      return res.status(400).json({
+        success: false,
+        error: 'role must be one of: editor, viewer',
+      });
+    }
+
+    // Overrides only apply to members of the system's workspace
+    const membership = await workspaceQueries.getWorkspaceMembership(req.workspace!.id, userId);
+
+    if (!membership) {
+      return res.status(404).json({
+        success: false,
+        error: 'Member not found',
+      });
+    }
+
+    const permission = await workspaceQueries.setSystemPermission({
+      system_id: systemId,
+      user_id: userId,
+      role,
+    });
+
+    res.json({
+      success: true,
+      data: permission,
+      message: 'System permission updated successfully',
+    });
+  } catch (error: any) {
+    console.error(`PUT /api/systems/${req.params.id}/permissions/${req.params.userId} error:`, error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to update system permission',
+    });
+  }
+});
+
+/**
+ * DELETE /api/systems/:id/permissions/:userId
+ * Remove a member's override so their workspace role applies again (owners only)
+ */
+router.delete('/systems/:id/permissions/:userId', requireAuth, resolveWorkspace, authorize('admin', 'system', 'id'), audit('system', 'update', { snapshot: systemPermissionsSnapshot }), async (req: Request, res: Response) => {
+  try {
+    const userId = parseInt(req.params.userId);
+
+    if (isNaN(userId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid user ID',
+      });
+    }
+
+    await workspaceQueries.removeSystemPermission(parseInt(req.params.id), userId);
+
+    res.json({
+      success: true,
+      message: 'System permission removed successfully',
+    });
+  } catch (error: any) {
+    console.error(`DELETE /api/systems/${req.params.id}/permissions/${req.params.userId} error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to remove system permission',
+    });
+  }
+});
+
 export default router;
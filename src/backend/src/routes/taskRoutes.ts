@@ -7,8 +7,15 @@
 
 import express, { Request, Response } from 'express';
 import * as queries from '../db/queries';
+import * as trashQueries from '../db/trashQueries';
+import * as workflowQueries from '../db/workflowQueries';
 import { validateRequired, validatePositiveInteger } from '../utils/validation';
 import { NotFoundError, ValidationError } from '../utils/errors';
+import { requireAuth } from '../middleware/auth';
+import { resolveWorkspace } from '../middleware/workspace';
+import { authorize, readsPublishedVersion } from '../middleware/permissions';
+import { audit } from '../middleware/audit';
+import { taskActionsSnapshot } from '../services/auditService';
 
 const router = express.Router();
 
@@ -18,26 +25,16 @@ const router = express.Router();
 
 /**
  * GET /api/tasks
- * Get all tasks for a specific user
+ * Get all tasks in the caller's workspace
  * 
  * Query params:
- * - user_id: number (required)
  * - limit: number (default: 50)
  * - offset: number (default: 0)
  * - orderBy: string (default: 'display_order')
  * - orderDirection: 'ASC' | 'DESC' (default: 'ASC')
  */
-router.get('/tasks', async (req: Request, res: Response) => {
+router.get('/tasks', requireAuth, resolveWorkspace, authorize('read'), async (req: Request, res: Response) => {
   try {
-    const userId = parseInt(req.query.user_id as string);
-
-    if (isNaN(userId) || !validatePositiveInteger(userId)) {
-      return res.status(400).json({
-        success: false,
-        error: 'Valid user_id is required',
-      });
-    }
-
     const options = {
       limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
       offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
@@ -45,7 +42,7 @@ router.get('/tasks', async (req: Request, res: Response) => {
       orderDirection: req.query.orderDirection as 'ASC' | 'DESC' | undefined,
     };
 
-    const result = await queries.getTasksByUserId(userId, options);
+    const result = await queries.getTasksByWorkspaceId(req.workspace!.id, options);
 
     res.json({
       success: true,
@@ -62,45 +59,24 @@ router.get('/tasks', async (req: Request, res: Response) => {
 
 /**
  * POST /api/tasks
- * Create a new task
+ * Create a new task in the caller's workspace
  * 
  * Body:
- * - user_id: number (required)
  * - name: string (required)
  * - description: string (optional)
  * - display_order: number (optional)
  */
-router.post('/tasks', async (req: Request, res: Response) => {
+router.post('/tasks', requireAuth, resolveWorkspace, authorize('write'), audit('task', 'create'), async (req: Request, res: Response) => {
   try {
-    const { user_id, name, description, display_order } = req.body;
+    const { name, description, display_order } = req.body;
 
     // Validate required fields
-    validateRequired(['user_id', 'name'], req.body);
-
-    // Validate user_id
-    if (!validatePositiveInteger(user_id)) {
-      return res.status(400).json({
-        success: false,
-        error: 'user_id must be a positive integer',
-      });
-    }
-
-    // Verify user exists
-    try {
-      await queries.getUserById(user_id);
-    } catch (error) {
-      if (error instanceof NotFoundError) {
-        return res.status(404).json({
-          success: false,
-          error: 'User not found',
-        });
-      }
-      throw error;
-    }
+    validateRequired(['name'], req.body);
 
     // Create task
     const task = await queries.createTask({
-      user_id,
+      workspace_id: req.workspace!.id,
+      user_id: req.workspace!.userId,
       name,
       description,
       display_order,
@@ -132,7 +108,7 @@ router.post('/tasks', async (req: Request, res: Response) => {
  * GET /api/tasks/:id
  * Get a single task by ID
  */
-router.get('/tasks/:id', async (req: Request, res: Response) => {
+router.get('/tasks/:id', requireAuth, resolveWorkspace, authorize('read', 'task', 'id'), async (req: Request, res: Response) => {
   try {
     const taskId = parseInt(req.params.id);
 
@@ -175,7 +151,7 @@ router.get('/tasks/:id', async (req: Request, res: Response) => {
  * - description: string (optional)
  * - display_order: number (optional)
  */
-router.put('/tasks/:id', async (req: Request, res: Response) => {
+router.put('/tasks/:id', requireAuth, resolveWorkspace, authorize('write', 'task', 'id'), audit('task', 'update'), async (req: Request, res: Response) => {
   try {
     const taskId = parseInt(req.params.id);
 
@@ -227,9 +203,9 @@ router.put('/tasks/:id', async (req: Request, res: Response) => {
 
 /**
  * DELETE /api/tasks/:id
- * Delete a task (and all associated role_tasks and task_actions via CASCADE)
+ * Move a task, with its role, action and link associations, to the trash
  */
-router.delete('/tasks/:id', async (req: Request, res: Response) => {
+router.delete('/tasks/:id', requireAuth, resolveWorkspace, authorize('write', 'task', 'id'), audit('task', 'delete'), async (req: Request, res: Response) => {
   try {
     const taskId = parseInt(req.params.id);
 
@@ -240,11 +216,12 @@ router.delete('/tasks/:id', async (req: Request, res: Response) => {
       });
     }
 
-    await queries.deleteTask(taskId);
+    const trashItem = await trashQueries.moveToTrash('task', taskId, req.workspace!.userId);
 
     res.json({
       success: true,
-      message: 'Task deleted successfully',
+      data: trashItem,
+      message: 'Task moved to trash',
     });
   } catch (error: any) {
     console.error(`DELETE /api/tasks/${req.params.id} error:`, error);
@@ -270,12 +247,14 @@ router.delete('/tasks/:id', async (req: Request, res: Response) => {
 /**
  * GET /api/tasks/:taskId/actions
  * Get all actions for a specific task (ordered)
+ * Viewers get only published actions, as published
  * 
  * Query params:
  * - limit: number (default: 50)
  * - offset: number (default: 0)
+ * - version: 'published' (optional) - editors can ask for the published list too
  */
-router.get('/tasks/:taskId/actions', async (req: Request, res: Response) => {
+router.get('/tasks/:taskId/actions', requireAuth, resolveWorkspace, authorize('read', 'task', 'taskId'), async (req: Request, res: Response) => {
   try {
     const taskId = parseInt(req.params.taskId);
 
@@ -304,7 +283,10 @@ router.get('/tasks/:taskId/actions', async (req: Request, res: Response) => {
       offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
     };
 
-    const result = await queries.getActionsForTask(taskId, options);
+    // Viewers see only published actions
+    const result = await readsPublishedVersion(req, 'task', taskId)
+      ? await workflowQueries.getPublishedActionsForTask(taskId, options)
+      : await queries.getActionsForTask(taskId, options);
 
     res.json({
       success: true,
@@ -328,86 +310,94 @@ router.get('/tasks/:taskId/actions', async (req: Request, res: Response) => {
  * - display_order: number (optional, defaults to 0)
  * - notes: string (optional)
  */
-router.post('/tasks/:taskId/actions', async (req: Request, res: Response) => {
-  try {
-    const taskId = parseInt(req.params.taskId);
-    const { action_id, display_order, notes } = req.body;
+router.post(
+  '/tasks/:taskId/actions',
+  requireAuth,
+  resolveWorkspace,
+  authorize('write', 'task', 'taskId'),
+  authorize('read', 'action', 'action_id', 'body'),
+  audit('task', 'update', { entityId: 'taskId', snapshot: taskActionsSnapshot }),
+  async (req: Request, res: Response) => {
+    try {
+      const taskId = parseInt(req.params.taskId);
+      const { action_id, display_order, notes } = req.body;
 
-    if (isNaN(taskId)) {
-      return res.status(400).json({
-        success: false,
-        error: 'Invalid task ID',
-      });
-    }
+      if (isNaN(taskId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid task ID',
+        });
+      }
 
-    // Validate required fields
-    validateRequired(['action_id'], req.body);
+      // Validate required fields
+      validateRequired(['action_id'], req.body);
 
-    // Validate action_id
-    if (!validatePositiveInteger(action_id)) {
-      return res.status(400).json({
-        success: false,
-        error: 'action_id must be a positive integer',
-      });
-    }
-
-    // Verify task and action exist
-    try {
-      await queries.getTaskById(taskId);
-      await queries.getActionById(action_id);
-    } catch (error) {
-      if (error instanceof NotFoundError) {
-        return res.status(404).json({
+      // Validate action_id
+      if (!validatePositiveInteger(action_id)) {
+        return res.status(400).json({
           success: false,
-          error: error.message,
+          error: 'action_id must be a positive integer',
         });
       }
-      throw error;
-    }
 
-    // Link action to task
-    const taskAction = await queries.linkActionToTask({
-      task_id: taskId,
-      action_id,
-      display_order,
-      notes,
-    });
+      // Verify task and action exist
+      try {
+        await queries.getTaskById(taskId);
+        await queries.getActionById(action_id);
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          return res.status(404).json({
+            success: false,
+            error: error.message,
+          });
+        }
+        throw error;
+      }
 
-    res.status(201).json({
-      success: true,
-      data: taskAction,
-      message: 'Action linked to task successfully',
-    });
-  } catch (error: any) {
-    console.error(`POST /api/tasks/${req.params.taskId}/actions error:`, error);
+      // Link action to task
+      const taskAction = await queries.linkActionToTask({
+        task_id: taskId,
+        action_id,
+        display_order,
+        notes,
+      });
 
-    if (error instanceof ValidationError) {
-      return res.status(400).json({
-        success: false,
-        error: error.message,
+      res.status(201).json({
+        success: true,
+        data: taskAction,
+        message: 'Action linked to task successfully',
       });
-    }
+    } catch (error: any) {
+      console.error(`POST /api/tasks/${req.params.taskId}/actions error:`, error);
+
+      if (error instanceof ValidationError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
 
-    // Check for unique constraint violation (action already linked to task)
-    if (error.code === '23505') {
-      return res.status(409).json({
+      // Check for unique constraint violation (action already linked to task)
+      if (error.code === '23505') {
+        return res.status(409).json({
+          success: false,
+          error: 'Action is already linked to this task',
+        });
+      }
+
+      res.status(500).json({
         success: false,
-        error: 'Action is already linked to this task',
+        error: error.message || 'Failed to link action to task',
       });
     }
-
-    res.status(500).json({
-      success: false,
-      error: error.message || 'Failed to link action to task',
-    });
   }
-});
+);
 
 /**
  * DELETE /api/tasks/:taskId/actions/:actionId
  * Unlink an action from a task
  */
-router.delete('/tasks/:taskId/actions/:actionId', async (req: Request, res: Response) => {
+router.delete('/tasks/:taskId/actions/:actionId', requireAuth, resolveWorkspace, authorize('write', 'task', 'taskId'), audit('task', 'update', { entityId: 'taskId', snapshot: taskActionsSnapshot }), async (req: Request, res: Response) => {
   try {
     const taskId = parseInt(req.params.taskId);
     const actionId = parseInt(req.params.actionId);
@@ -450,7 +440,7 @@ router.delete('/tasks/:taskId/actions/:actionId', async (req: Request, res: Resp
  * - display_order: number (optional)
  * - notes: string (optional)
  */
-router.put('/tasks/:taskId/actions/:actionId/order', async (req: Request, res: Response) => {
+router.put('/tasks/:taskId/actions/:actionId/order', requireAuth, resolveWorkspace, authorize('write', 'task', 'taskId'), audit('task', 'update', { entityId: 'taskId', snapshot: taskActionsSnapshot }), async (req: Request, res: Response) => {
   try {
     const taskId = parseInt(req.params.taskId);
     const actionId = parseInt(req.params.actionId);
@@ -0,0 +1,229 @@
+/**
+ * Trash Routes
+ *
+ * Deleted systems, actions, screenshots, roles, tasks and links wait here
+ * until restored or purged by the retention job (TRASH_RETENTION_DAYS)
+ * Base path: /api/trash
+ */
+
+import express, { Request, Response, NextFunction } from 'express';
+import { getTrashItems } from '../db/trashQueries';
+import {
+  TRASH_RETENTION_DAYS,
+  getWorkspaceTrashItem,
+  restoreFromTrash,
+  purgeFromTrash,
+} from '../services/trashService';
+import { AUDIT_ENTITY_TYPES } from '../services/auditService';
+import { AuditEntityType, TrashEntityType } from '../types/models';
+import { validateQueryOptions } from '../utils/validation';
+import { NotFoundError, ConflictError, ForbiddenError } from '../utils/errors';
+import { requireAuth } from '../middleware/auth';
+import { resolveWorkspace } from '../middleware/workspace';
+import { authorize } from '../middleware/permissions';
+import { audit } from '../middleware/audit';
+
+const router = express.Router();
+
+const TRASH_ENTITY_TYPES: TrashEntityType[] = [
+  'system', 'department', 'practice_group', 'action', 'action_sequence', 'screenshot', 'role', 'task', 'link',
+  'zoho_workflow',
+  'automation',
+];
+
+// A restore re-creates the entity, so audit it as a create of whatever the
+// item turns out to hold
+const auditRestore = async (req: Request, res: Response, next: NextFunction) => {
+  let entityType: TrashEntityType;
+  let entityId: number;
+
+  try {
+    const item = await getWorkspaceTrashItem(parseInt(req.params.id as string), req.workspace!.id);
+    entityType = item.entity_type;
+    entityId = item.entity_id;
+  } catch (error) {
+    // The route reports a missing item itself
+    return next();
+  }
+
+  if (!AUDIT_ENTITY_TYPES.includes(entityType as AuditEntityType)) {
+    return next();
+  }
+
+  return audit(entityType as AuditEntityType, 'create', { createdId: () => entityId })(req, res, next);
+};
+
+// ============================================================================
+// TRASH ENDPOINTS
+// ============================================================================
+
+/**
+ * GET /api/trash
+ * Deleted items in the current workspace, most recent first, with when
+ * each will be purged
+ *
+ * Query params:
+ * - entity_type: string (optional) - system, action, screenshot, role, task, link...
+ * - limit: number (default: 50)
+ * - offset: number (default: 0)
+ */
+router.get('/trash', requireAuth, resolveWorkspace, authorize('write'), async (req: Request, res: Response) => {
+  try {
+    const entityType = req.query.entity_type as TrashEntityType | undefined;
+
+    if (entityType && !TRASH_ENTITY_TYPES.includes(entityType)) {
+      return res.status(400).json({
+        success: false,
+        error: `entity_type must be one of: ${TRASH_ENTITY_TYPES.join(', ')}`,
+      });
+    }
+
+    const { limit, offset } = validateQueryOptions(req.query);
+    const trash = await getTrashItems(req.workspace!.id, TRASH_RETENTION_DAYS, entityType, { limit, offset });
+
+    res.json({
+      success: true,
+      data: trash,
+    });
+  } catch (error: any) {
+    console.error('GET /api/trash error:', error);
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch trash',
+    });
+  }
+});
+
+/**
+ * GET /api/trash/:id
+ * Get a single trash item
+ */
+router.get('/trash/:id', requireAuth, resolveWorkspace, authorize('write'), async (req: Request, res: Response) => {
+  try {
+    const trashId = parseInt(req.params.id as string);
+
+    if (isNaN(trashId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid trash item ID',
+      });
+    }
+
+    const item = await getWorkspaceTrashItem(trashId, req.workspace!.id);
+
+    res.json({
+      success: true,
+      data: item,
+    });
+  } catch (error: any) {
+    console.error(`GET /api/trash/${req.params.id} error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch trash item',
+    });
+  }
+});
+
+/**
+ * POST /api/trash/:id/restore
+ * Put a deleted item back, with its subtree and its links, task and
+ * sequence memberships. Associations with things deleted since are skipped.
+ */
+router.post('/trash/:id/restore', requireAuth, resolveWorkspace, authorize('write'), auditRestore, async (req: Request, res: Response) => {
+  try {
+    const trashId = parseInt(req.params.id as string);
+
+    if (isNaN(trashId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid trash item ID',
+      });
+    }
+
+    const result = await restoreFromTrash(trashId, req.workspace!);
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'Restored from trash',
+    });
+  } catch (error: any) {
+    console.error(`POST /api/trash/${req.params.id}/restore error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    if (error instanceof ForbiddenError) {
+      return res.status(403).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    if (error instanceof ConflictError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to restore from trash',
+    });
+  }
+});
+
+/**
+ * DELETE /api/trash/:id
+ * Permanently delete a trash item now rather than waiting for the
+ * retention period; owners only. The audit entry keeps what it held.
+ */
+router.delete('/trash/:id', requireAuth, resolveWorkspace, authorize('admin'), audit('trash_item', 'delete'), async (req: Request, res: Response) => {
+  try {
+    const trashId = parseInt(req.params.id as string);
+
+    if (isNaN(trashId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid trash item ID',
+      });
+    }
+
+    await purgeFromTrash(trashId, req.workspace!.id);
+
+    res.json({
+      success: true,
+      message: 'Permanently deleted',
+    });
+  } catch (error: any) {
+    console.error(`DELETE /api/trash/${req.params.id} error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to purge trash item',
+    });
+  }
+});
+
+export default router;
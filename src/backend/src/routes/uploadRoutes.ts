@@ -1,65 +1,102 @@
-import express from 'express';
-import multer from 'multer';
-import path from 'path';
-import { analyzeImage } from '../services/visionService';
+import express, { Request, Response } from 'express';
+import { uploadActionScreenshot } from '../services/screenshotService';
+import { getStorage, createStorageKey } from '../services/storage';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { requireAuth } from '../middleware/auth';
+import { resolveWorkspace } from '../middleware/workspace';
+import { authorize } from '../middleware/permissions';
+import { audit } from '../middleware/audit';
+import { receiveScreenshot } from '../middleware/upload';
 
 const router = express.Router();
 
-// Configure multer for file uploads
-const storage = multer.diskStorage({
-  destination: (req, file, cb) => {
-    cb(null, path.join(__dirname, '../../../../uploads'));
-  },
-  filename: (req, file, cb) => {
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
-    cb(null, uniqueSuffix + path.extname(file.originalname));
-  },
-});
+/**
+ * POST /api/actions/:actionId/screenshots
+ * Upload a screenshot for an action: stores the file, creates the screenshot
+ * record, appends it to the action's screenshot list and queues OCR.
+ * The stored file is removed if any step fails. Poll
+ * GET /api/screenshots/:id/ocr-status for OCR progress.
+ *
+ * Body (multipart/form-data):
+ * - screenshot: image file (required, jpeg/png/gif, max 10MB)
+ * - caption: string (optional) - saved on the action's screenshot ref
+ */
+router.post(
+  '/actions/:actionId/screenshots',
+  requireAuth,
+  resolveWorkspace,
+  authorize('write', 'action', 'actionId'),
+  receiveScreenshot,
+  audit('screenshot', 'create', { createdId: (body) => body?.data?.screenshot?.id }),
+  async (req: Request, res: Response) => {
+    try {
+      const actionId = parseInt(req.params.actionId as string);
+
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          error: 'No file uploaded',
+        });
+      }
+
+      const result = await uploadActionScreenshot(
+        actionId,
+        req.file,
+        req.body.caption || undefined,
+        req.workspace!.userId
+      );
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: 'Screenshot uploaded successfully',
+      });
+    } catch (error: any) {
+      console.error(`POST /api/actions/${req.params.actionId}/screenshots error:`, error);
 
-const upload = multer({
-  storage,
-  limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB
-  },
-  fileFilter: (req, file, cb) => {
-    const allowedTypes = /jpeg|jpg|png|gif/;
-    const extname = allowedTypes.test(
-      path.extname(file.originalname).toLowerCase()
-    );
-    const mimetype = allowedTypes.test(file.mimetype);
+      if (error instanceof NotFoundError) {
+        return res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      }
 
-    if (mimetype && extname) {
-      cb(null, true);
-    } else {
-      cb(new Error('Only image files are allowed'));
+      if (error instanceof ValidationError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to upload screenshot',
+      });
     }
-  },
-});
+  }
+);
 
-// Upload endpoint
-router.post('/upload', upload.single('screenshot'), async (req, res) => {
+// Upload endpoint (store only; does not create a screenshot record)
+// Pass the returned storageKey to POST /api/screenshots to register it,
+// which queues OCR
+router.post('/upload', requireAuth, resolveWorkspace, authorize('write'), receiveScreenshot, async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: 'No file uploaded' });
     }
 
-    console.log('📁 File uploaded:', req.file.filename);
+    const storageKey = createStorageKey(req.file.originalname);
+    await getStorage().put(storageKey, req.file.buffer, req.file.mimetype);
 
-    // Analyze with Vision API
-    console.log('🔍 Analyzing with Vision API...');
-    const ocrResult = await analyzeImage(req.file.path);
+    console.log('📁 File uploaded:', storageKey);
 
     res.json({
       success: true,
       file: {
-        filename: req.file.filename,
+        storageKey,
         originalName: req.file.originalname,
+        contentType: req.file.mimetype,
         size: req.file.size,
-        path: req.file.path,
-      },
-      ocr: {
-        fullText: ocrResult.fullText,
-        wordCount: ocrResult.words.length,
       },
     });
   } catch (error: any) {
@@ -10,6 +10,7 @@ import * as queries from '../db/queries';
 import { validateEmail, validateRequired } from '../utils/validation';
 import { NotFoundError, ValidationError } from '../utils/errors';
 import { requireAuth } from '../middleware/auth';
+import { getOrCreatePersonalWorkspace, getWorkspacesForUser } from '../db/workspaceQueries';
 
 const router = express.Router();
 
@@ -54,7 +55,8 @@ router.get('/users', requireAuth, async (req: Request, res: Response) => {
 /**
  * GET /api/users/me
  * Get current authenticated user profile
- * This automatically creates a database user record on first login
+ * This automatically creates a database user record (and a personal
+ * workspace) on first login
  * This must come BEFORE /users/:id to avoid route collision
  */
 router.get('/users/me', requireAuth, async (req: Request, res: Response) => {
@@ -81,12 +83,17 @@ router.get('/users/me', requireAuth, async (req: Request, res: Response) => {
         : clerkUser.firstName || clerkUser.lastName || clerkUser.username || 'User'
     );
 
+    // Make sure the user always has a workspace to land in
+    await getOrCreatePersonalWorkspace(user);
+    const workspaces = await getWorkspacesForUser(user.id);
+
     res.json({
       success: true,
       data: {
         ...user,
         clerkUserId,
         sessionId: req.auth?.sessionId,
+        workspaces,
       },
     });
   } catch (error: any) {
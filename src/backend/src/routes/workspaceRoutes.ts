@@ -0,0 +1,423 @@
+/**
+ * Workspace Routes
+ *
+ * REST API endpoints for workspaces and their memberships
+ * Base path: /api/workspaces
+ */
+
+import express, { Request, Response } from 'express';
+import * as queries from '../db/queries';
+import * as workspaceQueries from '../db/workspaceQueries';
+import { validateRequired, validatePositiveInteger, validateWorkspaceRole } from '../utils/validation';
+import { NotFoundError, ValidationError, ConflictError } from '../utils/errors';
+import { requireAuth } from '../middleware/auth';
+import { resolveWorkspace } from '../middleware/workspace';
+import { authorizeWorkspace } from '../middleware/permissions';
+import { audit } from '../middleware/audit';
+
+const router = express.Router();
+
+// The workspace a /workspaces/:id route changes, which needn't be the one
+// the request is made in
+const urlWorkspaceId = (req: Request): number => parseInt(req.params.id as string);
+
+// Memberships are addressed by workspace and user; the log records them by
+// membership ID
+const workspaceMemberId = async (req: Request): Promise<number> => {
+  const workspaceId = urlWorkspaceId(req);
+  const userId = parseInt(req.params.userId as string);
+  const membership = await workspaceQueries.getWorkspaceMembership(workspaceId, userId);
+
+  if (!membership) {
+    throw new NotFoundError('Workspace member', `workspace_id=${workspaceId}, user_id=${userId}`);
+  }
+
+  return membership.id;
+};
+
+// ============================================================================
+// WORKSPACE ENDPOINTS
+// ============================================================================
+
+/**
+ * GET /api/workspaces
+ * Get all workspaces the caller is a member of
+ */
+router.get('/workspaces', requireAuth, resolveWorkspace, async (req: Request, res: Response) => {
+  try {
+    const workspaces = await workspaceQueries.getWorkspacesForUser(req.workspace!.userId);
+
+    res.json({
+      success: true,
+      data: workspaces,
+      current_workspace_id: req.workspace!.id,
+    });
+  } catch (error: any) {
+    console.error('GET /api/workspaces error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch workspaces',
+    });
+  }
+});
+
+/**
+ * GET /api/workspaces/current
+ * Get the workspace this request resolved to (X-Workspace-Id or default)
+ * This must come BEFORE /workspaces/:id to avoid route collision
+ */
+router.get('/workspaces/current', requireAuth, resolveWorkspace, async (req: Request, res: Response) => {
+  try {
+    const workspace = await workspaceQueries.getWorkspaceById(req.workspace!.id);
+
+    res.json({
+      success: true,
+      data: workspace,
+    });
+  } catch (error: any) {
+    console.error('GET /api/workspaces/current error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch current workspace',
+    });
+  }
+});
+
+/**
+ * POST /api/workspaces
+ * Create a new workspace; the caller becomes its owner
+ *
+ * Body:
+ * - name: string (required)
+ */
+router.post('/workspaces', requireAuth, resolveWorkspace, async (req: Request, res: Response) => {
+  try {
+    const { name } = req.body;
+
+    // Validate required fields
+    validateRequired(['name'], req.body);
+
+    const workspace = await workspaceQueries.createWorkspace({
+      name,
+      created_by: req.workspace!.userId,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: workspace,
+      message: 'Workspace created successfully',
+    });
+  } catch (error: any) {
+    console.error('POST /api/workspaces error:', error);
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to create workspace',
+    });
+  }
+});
+
+/**
+ * GET /api/workspaces/:id
+ * Get a single workspace by ID
+ */
+router.get('/workspaces/:id', requireAuth, resolveWorkspace, authorizeWorkspace('read'), async (req: Request, res: Response) => {
+  try {
+    const workspace = await workspaceQueries.getWorkspaceById(parseInt(req.params.id));
+
+    res.json({
+      success: true,
+      data: workspace,
+    });
+  } catch (error: any) {
+    console.error(`GET /api/workspaces/${req.params.id} error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch workspace',
+    });
+  }
+});
+
+/**
+ * PUT /api/workspaces/:id
+ * Update a workspace (owners only)
+ *
+ * Body:
+ * - name: string (required)
+ */
+router.put('/workspaces/:id', requireAuth, resolveWorkspace, authorizeWorkspace('admin'), async (req: Request, res: Response) => {
+  try {
+    const { name } = req.body;
+
+    // Validate required fields
+    validateRequired(['name'], req.body);
+
+    const workspace = await workspaceQueries.updateWorkspace(parseInt(req.params.id), { name });
+
+    res.json({
+      success: true,
+      data: workspace,
+      message: 'Workspace updated successfully',
+    });
+  } catch (error: any) {
+    console.error(`PUT /api/workspaces/${req.params.id} error:`, error);
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to update workspace',
+    });
+  }
+});
+
+// ============================================================================
+// WORKSPACE MEMBER ENDPOINTS
+// ============================================================================
+
+/**
+ * GET /api/workspaces/:id/members
+ * Get all members of a workspace
+ */
+router.get('/workspaces/:id/members', requireAuth, resolveWorkspace, authorizeWorkspace('read'), async (req: Request, res: Response) => {
+  try {
+    const members = await workspaceQueries.getWorkspaceMembers(parseInt(req.params.id));
+
+    res.json({
+      success: true,
+      data: members,
+    });
+  } catch (error: any) {
+    console.error(`GET /api/workspaces/${req.params.id}/members error:`, error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch workspace members',
+    });
+  }
+});
+
+/**
+ * POST /api/workspaces/:id/members
+ * Add an existing user to a workspace (owners only)
+ *
+ * Body (one of):
+ * - user_id: number
+ * - email: string
+ * Optional:
+ * - role: 'owner' | 'editor' | 'viewer' (default: viewer)
+ */
+router.post('/workspaces/:id/members', requireAuth, resolveWorkspace, authorizeWorkspace('admin'), audit('workspace_member', 'create', { workspaceId: urlWorkspaceId }), async (req: Request, res: Response) => {
+  try {
+    const workspaceId = parseInt(req.params.id);
+    const { user_id, email, role } = req.body;
+
+    if (user_id === undefined && !email) {
+      return res.status(400).json({
+        success: false,
+        error: 'Either user_id or email must be provided',
+      });
+    }
+
+    if (user_id !== undefined && !validatePositiveInteger(user_id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'user_id must be a positive integer',
+      });
+    }
+
+    if (role !== undefined && !validateWorkspaceRole(role)) {
+      return res.status(400).json({
+        success: false,
+        error: 'role must be one of: owner, editor, viewer',
+      });
+    }
+
+    // Resolve the user being added
+    const user = user_id !== undefined
+      ? await queries.getUserById(user_id)
+      : await queries.getUserByEmail(email);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    const member = await workspaceQueries.addWorkspaceMember({
+      workspace_id: workspaceId,
+      user_id: user.id,
+      role,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: member,
+      message: 'Member added successfully',
+    });
+  } catch (error: any) {
+    console.error(`POST /api/workspaces/${req.params.id}/members error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    if (error instanceof ConflictError) {
+      return res.status(409).json({
+        success: false,
+        error: 'User is already a member of this workspace',
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to add member',
+    });
+  }
+});
+
+/**
+ * PUT /api/workspaces/:id/members/:userId
+ * Change a member's role (owners only)
+ *
+ * Body:
+ * - role: 'owner' | 'editor' | 'viewer' (required)
+ */
+router.put('/workspaces/:id/members/:userId', requireAuth, resolveWorkspace, authorizeWorkspace('admin'), audit('workspace_member', 'update', { entityId: workspaceMemberId, workspaceId: urlWorkspaceId }), async (req: Request, res: Response) => {
+  try {
+    const workspaceId = parseInt(req.params.id);
+    const userId = parseInt(req.params.userId);
+    const { role } = req.body;
+
+    if (isNaN(userId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid user ID',
+      });
+    }
+
+    if (!validateWorkspaceRole(role)) {
+      return res.status(400).json({
+        success: false,
+        error: 'role must be one of: owner, editor, viewer',
+      });
+    }
+
+    // A workspace must always keep at least one owner
+    const current = await workspaceQueries.getWorkspaceMembership(workspaceId, userId);
+    if (current?.role === 'owner' && role !== 'owner') {
+      const owners = await workspaceQueries.countWorkspaceOwners(workspaceId);
+      if (owners <= 1) {
+        return res.status(409).json({
+          success: false,
+          error: 'A workspace must have at least one owner',
+        });
+      }
+    }
+
+    const member = await workspaceQueries.updateWorkspaceMemberRole(workspaceId, userId, role);
+
+    res.json({
+      success: true,
+      data: member,
+      message: 'Member role updated successfully',
+    });
+  } catch (error: any) {
+    console.error(`PUT /api/workspaces/${req.params.id}/members/${req.params.userId} error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: 'Member not found',
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to update member role',
+    });
+  }
+});
+
+/**
+ * DELETE /api/workspaces/:id/members/:userId
+ * Remove a user from a workspace (owners only)
+ */
+router.delete('/workspaces/:id/members/:userId', requireAuth, resolveWorkspace, authorizeWorkspace('admin'), audit('workspace_member', 'delete', { entityId: workspaceMemberId, workspaceId: urlWorkspaceId }), async (req: Request, res: Response) => {
+  try {
+    const workspaceId = parseInt(req.params.id);
+    const userId = parseInt(req.params.userId);
+
+    if (isNaN(userId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid user ID',
+      });
+    }
+
+    // A workspace must always keep at least one owner
+    const current = await workspaceQueries.getWorkspaceMembership(workspaceId, userId);
+    if (current?.role === 'owner') {
+      const owners = await workspaceQueries.countWorkspaceOwners(workspaceId);
+      if (owners <= 1) {
+        return res.status(409).json({
+          success: false,
+          error: 'A workspace must have at least one owner',
+        });
+      }
+    }
+
+    await workspaceQueries.removeWorkspaceMember(workspaceId, userId);
+
+    res.json({
+      success: true,
+      message: 'Member removed successfully',
+    });
+  } catch (error: any) {
+    console.error(`DELETE /api/workspaces/${req.params.id}/members/${req.params.userId} error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: 'Member not found',
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to remove member',
+    });
+  }
+});
+
+export default router;
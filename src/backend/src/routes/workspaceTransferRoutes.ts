@@ -0,0 +1,192 @@
+/**
+ * Workspace Transfer Routes
+ *
+ * Back up a whole workspace as JSON, or move it to another workspace or
+ * environment: every system with its hierarchy, actions, screenshots,
+ * sequences, roles, tasks and links, and the associations between them
+ * Base path: /api/workspaces/:id
+ */
+
+import express, { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { exportWorkspace, importWorkspace } from '../services/workspaceTransferService';
+import { slugify } from '../services/siteExport';
+import { ImportConflictStrategy, WorkspaceImportResult } from '../types/models';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { requireAuth } from '../middleware/auth';
+import { resolveWorkspace } from '../middleware/workspace';
+import { authorizeWorkspace } from '../middleware/permissions';
+import { audit } from '../middleware/audit';
+
+const router = express.Router();
+
+const IMPORT_CONFLICT_STRATEGIES: ImportConflictStrategy[] = ['fail', 'skip', 'rename'];
+
+// Exports with embedded screenshots get large
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: parseInt(process.env.WORKSPACE_IMPORT_MAX_MB || '200') * 1024 * 1024,
+  },
+});
+
+// Accept an optional 'export' file, turning multer errors (too large) into
+// 400s instead of unhandled errors
+const receiveExport = (req: Request, res: Response, next: NextFunction) => {
+  upload.single('export')(req, res, (error: any) => {
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+    next();
+  });
+};
+
+// Imports are logged against the workspace with what went in; the ID map
+// is left out since it can run to thousands of rows
+const auditImport = audit('workspace', 'update', {
+  result: (body) => {
+    const result: WorkspaceImportResult | undefined = body?.data;
+    if (!result?.imported) return undefined;
+
+    return {
+      imported_from: result.source,
+      on_conflict: result.on_conflict,
+      created: result.created,
+      skipped: result.skipped,
+      conflicts: result.conflicts.length,
+      warnings: result.warnings,
+    };
+  },
+});
+
+// ============================================================================
+// WORKSPACE TRANSFER ENDPOINTS
+// ============================================================================
+
+/**
+ * GET /api/workspaces/:id/export
+ * Download the workspace as a versioned JSON document. Rows keep their IDs
+ * and reference each other by them; POST /api/workspaces/:id/import reads it.
+ *
+ * Query params:
+ * - files: 'false' to leave screenshot images out (a much smaller file, but
+ *   importing it restores no screenshots)
+ */
+router.get('/workspaces/:id/export', requireAuth, resolveWorkspace, authorizeWorkspace('admin'), async (req: Request, res: Response) => {
+  try {
+    const workspaceId = parseInt(req.params.id as string);
+    const document = await exportWorkspace(workspaceId, { includeFiles: req.query.files !== 'false' });
+
+    const date = document.exported_at.slice(0, 10);
+
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Content-Disposition', `attachment; filename="${slugify(document.workspace.name)}-workspace-${date}.json"`);
+    res.send(JSON.stringify(document));
+  } catch (error: any) {
+    console.error(`GET /api/workspaces/${req.params.id}/export error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to export workspace',
+    });
+  }
+});
+
+/**
+ * POST /api/workspaces/:id/import
+ * Import a workspace export into this workspace. Everything is created under
+ * new IDs, owned by the importing user, in one transaction. Imported actions
+ * and sequences keep their published version; ones in review come back as
+ * drafts.
+ *
+ * Body: multipart/form-data with the export as the 'export' file, or the
+ * export itself as JSON (small exports only; the JSON body limit is 100kb)
+ *
+ * Query params:
+ * - on_conflict: 'fail' (default) | 'skip' | 'rename' - what to do when a
+ *   system, role or task name (or link URL) is already in the workspace
+ * - dry_run: 'true' to validate and report what would be created, without
+ *   writing anything
+ *
+ * Responds 409 with the conflicts (and nothing imported) when on_conflict
+ * is 'fail' and there are any.
+ */
+router.post('/workspaces/:id/import', requireAuth, resolveWorkspace, authorizeWorkspace('admin'), receiveExport, auditImport, async (req: Request, res: Response) => {
+  try {
+    const workspaceId = parseInt(req.params.id as string);
+    const onConflict = (req.query.on_conflict as string | undefined) || 'fail';
+
+    if (!IMPORT_CONFLICT_STRATEGIES.includes(onConflict as ImportConflictStrategy)) {
+      return res.status(400).json({
+        success: false,
+        error: `on_conflict must be one of: ${IMPORT_CONFLICT_STRATEGIES.join(', ')}`,
+      });
+    }
+
+    let input: unknown = req.body;
+    if (req.file) {
+      try {
+        input = JSON.parse(req.file.buffer.toString('utf8'));
+      } catch {
+        return res.status(400).json({
+          success: false,
+          error: 'Export file is not valid JSON',
+        });
+      }
+    }
+
+    const result = await importWorkspace(
+      { workspaceId, userId: req.workspace!.userId },
+      input,
+      { onConflict: onConflict as ImportConflictStrategy, dryRun: req.query.dry_run === 'true' }
+    );
+
+    if (!result.dry_run && !result.imported) {
+      return res.status(409).json({
+        success: false,
+        error: `${result.conflicts.length} item(s) already exist in this workspace; retry with on_conflict=skip or on_conflict=rename`,
+        data: result,
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result,
+      message: result.dry_run ? 'Dry run complete; nothing was imported' : 'Workspace imported successfully',
+    });
+  } catch (error: any) {
+    console.error(`POST /api/workspaces/${req.params.id}/import error:`, error);
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+        errors: error.errors,
+      });
+    }
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to import workspace',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,215 @@
+/**
+ * Zoho Workflow Routes
+ *
+ * Import Zoho CRM workflow rules into a system's documentation and read
+ * them back as plain-language pages
+ * Base paths: /api/systems/:id/zoho-workflows, /api/zoho-workflows
+ */
+
+import express, { Request, Response } from 'express';
+import * as trashQueries from '../db/trashQueries';
+import {
+  getZohoWorkflowById,
+  getZohoWorkflowIdsByName,
+  getZohoWorkflowsForSystem,
+} from '../db/zohoWorkflowQueries';
+import {
+  importZohoWorkflows,
+  renderZohoWorkflowDocumentation,
+  zohoWorkflowsIn,
+} from '../services/zohoWorkflowService';
+import { validateQueryOptions } from '../utils/validation';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { requireAuth } from '../middleware/auth';
+import { resolveWorkspace } from '../middleware/workspace';
+import { authorize } from '../middleware/permissions';
+import { audit } from '../middleware/audit';
+
+const router = express.Router();
+
+// An import records each workflow it creates, and each it replaces with the
+// state before; those are found by name before the import runs
+const replacedZohoWorkflowIds = async (req: Request): Promise<number[]> => {
+  const names = zohoWorkflowsIn(req.body)
+    .map((workflow) => workflow?.workflow_name)
+    .filter((name): name is string => typeof name === 'string')
+    .map((name) => name.trim());
+
+  return getZohoWorkflowIdsByName(parseInt(req.params.id as string), names);
+};
+
+const auditImportCreated = audit('zoho_workflow', 'create', {
+  createdId: (body) => body?.data?.created?.map((workflow: { id: number }) => workflow.id),
+});
+const auditImportReplaced = audit('zoho_workflow', 'update', { entityId: replacedZohoWorkflowIds });
+
+// ============================================================================
+// ZOHO WORKFLOW ENDPOINTS
+// ============================================================================
+
+/**
+ * POST /api/systems/:id/zoho-workflows
+ * Import Zoho CRM workflow rules into a system. All are validated first and
+ * stored together, or none is; a rule with the same name as one already in
+ * the system replaces it.
+ *
+ * Body: one workflow, an array of them, or { workflows: [...] }, in the
+ * format of docs/sort-these-files/zoho-workflow-json-schema.md
+ *
+ * Invalid input gets a 400 with each problem keyed by its path, e.g.
+ * `workflows[1].conditions[0].criteria_pattern`. Likely transcription
+ * mistakes (truncated names, unused criteria) come back as warnings.
+ */
+router.post(
+  '/systems/:id/zoho-workflows',
+  requireAuth,
+  resolveWorkspace,
+  authorize('write', 'system', 'id'),
+  auditImportCreated,
+  auditImportReplaced,
+  async (req: Request, res: Response) => {
+    try {
+      const systemId = parseInt(req.params.id as string);
+      const result = await importZohoWorkflows(systemId, req.body, req.workspace!.userId);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: `Imported ${result.created.length} new and ${result.updated.length} updated workflow(s)`,
+      });
+    } catch (error: any) {
+      console.error(`POST /api/systems/${req.params.id}/zoho-workflows error:`, error);
+
+      if (error instanceof ValidationError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+          errors: error.errors,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to import Zoho workflows',
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/systems/:id/zoho-workflows
+ * A system's Zoho workflows, by name
+ *
+ * Query params:
+ * - module: string (optional) - e.g. Leads
+ * - field: string (optional) - only rules that read or write this field
+ * - function: string (optional) - only rules that call this function
+ * - limit: number (default: 50)
+ * - offset: number (default: 0)
+ */
+router.get('/systems/:id/zoho-workflows', requireAuth, resolveWorkspace, authorize('read', 'system', 'id'), async (req: Request, res: Response) => {
+  try {
+    const systemId = parseInt(req.params.id as string);
+    const { limit, offset } = validateQueryOptions(req.query);
+    const workflows = await getZohoWorkflowsForSystem(
+      systemId,
+      {
+        module: req.query.module as string | undefined,
+        field: req.query.field as string | undefined,
+        function: req.query.function as string | undefined,
+      },
+      { limit, offset }
+    );
+
+    res.json({
+      success: true,
+      data: workflows,
+    });
+  } catch (error: any) {
+    console.error(`GET /api/systems/${req.params.id}/zoho-workflows error:`, error);
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch Zoho workflows',
+    });
+  }
+});
+
+/**
+ * GET /api/zoho-workflows/:id
+ * Get a Zoho workflow, with `documentation`: the rule explained as Markdown
+ *
+ * Query params:
+ * - format: 'markdown' to get just the documentation as a text/markdown page
+ */
+router.get('/zoho-workflows/:id', requireAuth, resolveWorkspace, authorize('read', 'zoho_workflow', 'id'), async (req: Request, res: Response) => {
+  try {
+    const workflowId = parseInt(req.params.id as string);
+    const workflow = await getZohoWorkflowById(workflowId);
+    const documentation = renderZohoWorkflowDocumentation(workflow.definition);
+
+    if (req.query.format === 'markdown') {
+      res.setHeader('Content-Type', 'text/markdown; charset=utf-8');
+      return res.send(documentation);
+    }
+
+    res.json({
+      success: true,
+      data: { ...workflow, documentation },
+    });
+  } catch (error: any) {
+    console.error(`GET /api/zoho-workflows/${req.params.id} error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch Zoho workflow',
+    });
+  }
+});
+
+/**
+ * DELETE /api/zoho-workflows/:id
+ * Move a Zoho workflow to the trash
+ */
+router.delete('/zoho-workflows/:id', requireAuth, resolveWorkspace, authorize('write', 'zoho_workflow', 'id'), audit('zoho_workflow', 'delete'), async (req: Request, res: Response) => {
+  try {
+    const workflowId = parseInt(req.params.id as string);
+    const trashItem = await trashQueries.moveToTrash('zoho_workflow', workflowId, req.workspace!.userId);
+
+    res.json({
+      success: true,
+      data: trashItem,
+      message: 'Zoho workflow moved to trash',
+    });
+  } catch (error: any) {
+    console.error(`DELETE /api/zoho-workflows/${req.params.id} error:`, error);
+
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to delete Zoho workflow',
+    });
+  }
+});
+
+export default router;
@@ -1,7 +1,12 @@
+// Loaded before anything else is imported: some modules read settings
+// from the environment as they load
+import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
-import dotenv from 'dotenv';
-import { testVisionAPI } from './services/visionService';
+import { testOcrProvider } from './services/ocr';
+import { startOcrWorker } from './services/ocrWorker';
+import { startTrashPurger } from './services/trashService';
+import { scanUnscannedScreenshots } from './services/screenshotRedactionService';
 import uploadRoutes from './routes/uploadRoutes';
 import linksRoutes from './routes/linksRoutes';  
 import userRoutes from './routes/userRoutes';
@@ -10,9 +15,23 @@ import actionRoutes from './routes/actionRoutes';
 import screenshotRoutes from './routes/screenshotRoutes';
 import roleRoutes from './routes/roleRoutes';
 import taskRoutes from './routes/taskRoutes';
-
-
-dotenv.config();
+import workspaceRoutes from './routes/workspaceRoutes';
+import stepDraftRoutes from './routes/stepDraftRoutes';
+import captureSessionRoutes from './routes/captureSessionRoutes';
+import analyticsRoutes from './routes/analyticsRoutes';
+import searchRoutes from './routes/searchRoutes';
+import actionRevisionRoutes from './routes/actionRevisionRoutes';
+import publishingRoutes from './routes/publishingRoutes';
+import auditRoutes from './routes/auditRoutes';
+import trashRoutes from './routes/trashRoutes';
+import exportRoutes from './routes/exportRoutes';
+import workspaceTransferRoutes from './routes/workspaceTransferRoutes';
+import zohoWorkflowRoutes from './routes/zohoWorkflowRoutes';
+import importerRoutes from './routes/importerRoutes';
+import automationRoutes from './routes/automationRoutes';
+import screenshotDriftRoutes from './routes/screenshotDriftRoutes';
+import screenshotAnnotationRoutes from './routes/screenshotAnnotationRoutes';
+import screenshotRedactionRoutes from './routes/screenshotRedactionRoutes';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -34,6 +53,23 @@ app.use('/api', actionRoutes);
 app.use('/api', screenshotRoutes)
 app.use('/api', roleRoutes);
 app.use('/api', taskRoutes);
+app.use('/api', workspaceRoutes);
+app.use('/api', stepDraftRoutes);
+app.use('/api', captureSessionRoutes);
+app.use('/api', analyticsRoutes);
+app.use('/api', searchRoutes);
+app.use('/api', actionRevisionRoutes);
+app.use('/api', publishingRoutes);
+app.use('/api', auditRoutes);
+app.use('/api', trashRoutes);
+app.use('/api', exportRoutes);
+app.use('/api', workspaceTransferRoutes);
+app.use('/api', zohoWorkflowRoutes);
+app.use('/api', importerRoutes);
+app.use('/api', automationRoutes);
+app.use('/api', screenshotDriftRoutes);
+app.use('/api', screenshotAnnotationRoutes);
+app.use('/api', screenshotRedactionRoutes);
 
 // Health check route
 app.get('/health', (req, res) => {
@@ -44,15 +80,16 @@ app.get('/health', (req, res) => {
   });
 });
 
-// Test Vision API
-app.get('/api/vision/test', async (req, res) => {
+// Test the configured OCR provider
+app.get('/api/ocr/test', async (req, res) => {
   try {
-    const isConnected = await testVisionAPI();
+    const result = await testOcrProvider();
     res.json({
-      status: isConnected ? 'connected' : 'failed',
-      message: isConnected
-        ? 'Vision API is working'
-        : 'Vision API connection failed',
+      status: result.ok ? 'connected' : 'failed',
+      provider: result.provider,
+      message: result.ok
+        ? `${result.provider} OCR provider is working`
+        : `${result.provider} OCR provider check failed: ${result.error}`,
     });
   } catch (error: any) {
     res.status(500).json({
@@ -66,4 +103,24 @@ app.get('/api/vision/test', async (req, res) => {
 app.listen(PORT, () => {
   console.log(`🚀 Server running on http://localhost:${PORT}`);
   console.log(`📊 Environment: ${process.env.NODE_ENV}`);
+
+  // Set OCR_WORKER_ENABLED=false on instances that shouldn't process OCR jobs
+  if (process.env.OCR_WORKER_ENABLED !== 'false') {
+    startOcrWorker();
+
+    // Screenshots with OCR data but no sensitive text scan (older ones, or
+    // ones whose scan failed) aren't shown to non-owners until scanned
+    scanUnscannedScreenshots()
+      .then((scanned) => {
+        if (scanned > 0) {
+          console.log(`🔍 Scanned ${scanned} screenshot(s) for sensitive text`);
+        }
+      })
+      .catch((error) => console.error('❌ Sensitive text scan of existing screenshots failed:', error));
+  }
+
+  // Likewise TRASH_PURGER_ENABLED=false for the trash retention job
+  if (process.env.TRASH_PURGER_ENABLED !== 'false') {
+    startTrashPurger();
+  }
 });
\ No newline at end of file
@@ -0,0 +1,178 @@
+import {
+  ACTION_REVISION_FIELDS,
+  getActionRevision,
+  getActionScreenshotIds,
+} from '../db/actionRevisionQueries';
+import { getRoleById, updateAction } from '../db/queries';
+import {
+  Action,
+  ActionRevisionDiff,
+  ActionSnapshot,
+  ActionStep,
+  StepDiff,
+} from '../types/models';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+const STEP_KEYS: StepDiff['changed_keys'] = ['instruction', 'screenshot_id', 'notes'];
+
+// Step content without its number, so renumbered steps still match
+const stepContent = (step: ActionStep): string =>
+  JSON.stringify(STEP_KEYS.map((key) => step[key] ?? null));
+
+/**
+ * Step-level diff between two step lists. Unchanged steps are matched by
+ * content (longest common subsequence), so inserting a step doesn't mark
+ * every later step as changed. Between matched steps, removed and added
+ * steps at the same position pair up as modified.
+ */
+export const diffSteps = (before: ActionStep[], after: ActionStep[]): StepDiff[] => {
+  const beforeKeys = before.map(stepContent);
+  const afterKeys = after.map(stepContent);
+
+  // lcs[i][j] = length of the common subsequence of before[i..] and after[j..]
+  const lcs: number[][] = Array.from({ length: before.length + 1 }, () =>
+    new Array(after.length + 1).fill(0)
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] = beforeKeys[i] === afterKeys[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const diff: StepDiff[] = [];
+  let removed: ActionStep[] = [];
+  let added: ActionStep[] = [];
+
+  const flushGap = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      diff.push({
+        change: 'modified',
+        before: removed[k],
+        after: added[k],
+        changed_keys: STEP_KEYS.filter((key) => (removed[k][key] ?? null) !== (added[k][key] ?? null)),
+      });
+    }
+    for (const step of removed.slice(paired)) {
+      diff.push({ change: 'removed', before: step, after: null, changed_keys: [] });
+    }
+    for (const step of added.slice(paired)) {
+      diff.push({ change: 'added', before: null, after: step, changed_keys: [] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && beforeKeys[i] === afterKeys[j]) {
+      flushGap();
+      diff.push({ change: 'unchanged', before: before[i], after: after[j], changed_keys: [] });
+      i++;
+      j++;
+    } else if (j >= after.length || (i < before.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removed.push(before[i++]);
+    } else {
+      added.push(after[j++]);
+    }
+  }
+  flushGap();
+
+  return diff;
+};
+
+/**
+ * Field- and step-level differences between two snapshots
+ */
+export const diffSnapshots = (
+  before: ActionSnapshot,
+  after: ActionSnapshot
+): Pick<ActionRevisionDiff, 'fields' | 'steps'> => ({
+  fields: ACTION_REVISION_FIELDS
+    .filter((field) => field !== 'steps')
+    .filter((field) => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .map((field) => ({ field, before: before[field] ?? null, after: after[field] ?? null })),
+  steps: diffSteps(before.steps || [], after.steps || []),
+});
+
+/**
+ * Compare two revisions of an action
+ */
+export const diffActionRevisions = async (
+  actionId: number,
+  fromRevision: number,
+  toRevision: number
+): Promise<ActionRevisionDiff> => {
+  const [from, to] = await Promise.all([
+    getActionRevision(actionId, fromRevision),
+    getActionRevision(actionId, toRevision),
+  ]);
+
+  return {
+    action_id: actionId,
+    from_revision: fromRevision,
+    to_revision: toRevision,
+    ...diffSnapshots(from.snapshot, to.snapshot),
+  };
+};
+
+/**
+ * Put an action back to how it was at an earlier revision. This is itself
+ * a change, so it adds a new revision rather than rewriting history.
+ * References to screenshots or a role deleted since then are dropped.
+ */
+export const restoreActionRevision = async (
+  actionId: number,
+  revisionNumber: number,
+  userId: number
+): Promise<Action> => {
+  const revision = await getActionRevision(actionId, revisionNumber);
+  const { snapshot } = revision;
+
+  if (!snapshot.title) {
+    throw new ValidationError(`Revision ${revisionNumber} has no title and cannot be restored`);
+  }
+
+  const screenshotIds = await getActionScreenshotIds(actionId);
+
+  const steps = (snapshot.steps || []).map((step) => {
+    if (step.screenshot_id === undefined || screenshotIds.has(step.screenshot_id)) return step;
+    const { screenshot_id, ...rest } = step;
+    return rest;
+  });
+
+  const screenshots = (snapshot.screenshots || []).filter((ref) => screenshotIds.has(ref.screenshot_id));
+
+  let responsibleRoleId = snapshot.responsible_role_id;
+  if (responsibleRoleId !== null) {
+    responsibleRoleId = await getRoleById(responsibleRoleId)
+      .then((role) => role.id)
+      .catch((error) => {
+        if (error instanceof NotFoundError) return null;
+        throw error;
+      });
+  }
+
+  return updateAction(
+    actionId,
+    {
+      title: snapshot.title,
+      description: snapshot.description,
+      steps,
+      screenshots,
+      frequency: snapshot.frequency,
+      average_duration_minutes: snapshot.average_duration_minutes,
+      trigger_event: snapshot.trigger_event,
+      responsible_role_id: responsibleRoleId,
+      systems_touched: snapshot.systems_touched || [],
+    },
+    {
+      authorId: userId,
+      summary: `Restored revision ${revisionNumber}`,
+      restoredFrom: revisionNumber,
+    }
+  );
+};
@@ -0,0 +1,190 @@
+import * as queries from '../db/queries';
+import { getActionSequenceById } from '../db/hierarchyQueries';
+import { getStepDraftById } from '../db/stepDraftQueries';
+import { getCaptureSessionById } from '../db/captureSessionQueries';
+import { getZohoWorkflowById } from '../db/zohoWorkflowQueries';
+import { getAutomationById, getAutomationWithActions } from '../db/automationQueries';
+import { getSystemPermissions, getWorkspaceById, getWorkspaceMemberById } from '../db/workspaceQueries';
+import { getAnnotationsByScreenshotId } from '../db/screenshotAnnotationQueries';
+import { getRedactionsByScreenshotId } from '../db/screenshotRedactionQueries';
+import { getDriftCheckById } from '../db/screenshotDriftQueries';
+import { getTrashItemSnapshot } from '../db/trashQueries';
+import * as linksService from './linksService';
+import { maskScreenshot } from './screenshotRedactionService';
+import { maskDriftCheck } from './screenshotDriftService';
+import { AuditEntityType, AuditLogEntry } from '../types/models';
+import { LinkObjectType, LinkWithContext } from '../types/links';
+import { toCsv } from '../utils/csv';
+
+// Junction lists are recorded in full; no role, task or object has this many
+const MAX_LIST_SNAPSHOT = 1000;
+
+// ============================================================================
+// MASKED SNAPSHOTS
+// The log is append-only, so sensitive OCR text is masked before it's
+// recorded, as it is everywhere else it's shown
+// ============================================================================
+
+const screenshotSnapshot = async (id: number) => maskScreenshot(await queries.getScreenshotById(id));
+
+const driftCheckSnapshot = async (id: number) => maskDriftCheck(await getDriftCheckById(id));
+
+/**
+ * A trash item as the log records it, with the OCR text of the screenshots
+ * and drift checks it holds masked
+ */
+export const maskTrashItem = <T extends { contents?: Record<string, any[]> }>(item: T): T => ({
+  ...item,
+  contents: item.contents && {
+    ...item.contents,
+    screenshots: item.contents.screenshots?.map(maskScreenshot),
+    screenshot_drift_checks: item.contents.screenshot_drift_checks?.map(maskDriftCheck),
+  },
+});
+
+const trashItemSnapshot = async (id: number) => maskTrashItem(await getTrashItemSnapshot(id));
+
+/**
+ * How to read each audited entity's current state
+ */
+const ENTITY_SNAPSHOTS: Record<AuditEntityType, (id: number) => Promise<unknown>> = {
+  system: queries.getSystemById,
+  action_sequence: getActionSequenceById,
+  action: queries.getActionById,
+  screenshot: screenshotSnapshot,
+  drift_check: driftCheckSnapshot,
+  role: queries.getRoleById,
+  task: queries.getTaskById,
+  link: linksService.getLinkById,
+  step_draft: getStepDraftById,
+  capture_session: getCaptureSessionById,
+  zoho_workflow: getZohoWorkflowById,
+  automation: getAutomationById,
+  workspace_member: getWorkspaceMemberById,
+  workspace: getWorkspaceById,
+  trash_item: trashItemSnapshot,
+};
+
+export const AUDIT_ENTITY_TYPES = Object.keys(ENTITY_SNAPSHOTS) as AuditEntityType[];
+
+/**
+ * Current state of an audited entity, or null if it doesn't exist
+ */
+export const loadEntitySnapshot = async (
+  entityType: AuditEntityType,
+  id: number
+): Promise<unknown> => {
+  try {
+    return await ENTITY_SNAPSHOTS[entityType](id);
+  } catch {
+    return null;
+  }
+};
+
+// ============================================================================
+// JUNCTION SNAPSHOTS
+// Attaching a link or a task changes the parent's list, not any row of its
+// own, so these routes record the list before and after
+// ============================================================================
+
+const toLinkList = (links: LinkWithContext[]) => ({
+  links: links.map((link) => ({
+    link_id: link.id,
+    display_order: link.display_order ?? null,
+    context_notes: link.context_notes ?? null,
+  })),
+});
+
+export const LINK_LIST_SNAPSHOTS: Record<LinkObjectType, (id: number) => Promise<unknown>> = {
+  system: async (id) => toLinkList(await linksService.getSystemLinks(id)),
+  action: async (id) => toLinkList(await linksService.getActionLinks(id)),
+  role: async (id) => toLinkList(await linksService.getRoleLinks(id)),
+  task: async (id) => toLinkList(await linksService.getTaskLinks(id)),
+};
+
+export const roleTasksSnapshot = async (roleId: number): Promise<unknown> => {
+  const tasks = await queries.getTasksForRole(roleId, { limit: MAX_LIST_SNAPSHOT });
+  return {
+    tasks: tasks.data.map((task) => ({ task_id: task.id, display_order: task.display_order })),
+  };
+};
+
+export const taskActionsSnapshot = async (taskId: number): Promise<unknown> => {
+  const actions = await queries.getActionsForTask(taskId, { limit: MAX_LIST_SNAPSHOT });
+  return {
+    actions: actions.data.map((action) => ({
+      action_id: action.id,
+      display_order: action.display_order,
+      notes: action.notes,
+    })),
+  };
+};
+
+export const automationActionsSnapshot = async (automationId: number): Promise<unknown> => {
+  const automation = await getAutomationWithActions(automationId);
+  return {
+    linked_actions: automation.linked_actions.map((link) => ({
+      action_id: link.action_id,
+      relationship: link.relationship,
+      notes: link.notes,
+    })),
+  };
+};
+
+export const screenshotAnnotationsSnapshot = async (screenshotId: number): Promise<unknown> => {
+  const annotations = await getAnnotationsByScreenshotId(screenshotId);
+  return {
+    annotations: annotations.map(({ created_at, updated_at, ...annotation }) => annotation),
+  };
+};
+
+export const screenshotRedactionsSnapshot = async (screenshotId: number): Promise<unknown> => {
+  const redactions = await getRedactionsByScreenshotId(screenshotId);
+  return {
+    redactions: redactions.map(({ created_at, ...redaction }) => redaction),
+  };
+};
+
+export const systemPermissionsSnapshot = async (systemId: number): Promise<unknown> => {
+  const permissions = await getSystemPermissions(systemId);
+  return {
+    permissions: permissions.map((permission) => ({
+      user_id: permission.user_id,
+      role: permission.role,
+    })),
+  };
+};
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Top-level fields that differ between an entry's before and after state
+ */
+export const getChangedKeys = (entry: Pick<AuditLogEntry, 'before_state' | 'after_state'>): string[] => {
+  const before = (entry.before_state || {}) as Record<string, unknown>;
+  const after = (entry.after_state || {}) as Record<string, unknown>;
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  return [...keys].filter(
+    (key) => key !== 'updated_at' && JSON.stringify(before[key]) !== JSON.stringify(after[key])
+  );
+};
+
+/**
+ * One row per entry; states are written as JSON
+ */
+export const auditLogToCsv = (entries: AuditLogEntry[]): string =>
+  toCsv(
+    [
+      'id', 'created_at', 'actor_user_id', 'actor_clerk_id', 'operation', 'entity_type', 'entity_id',
+      'changed_fields', 'request_method', 'request_path', 'before_state', 'after_state',
+    ],
+    entries.map((entry) => ({
+      ...entry,
+      changed_fields: entry.operation === 'update' ? getChangedKeys(entry).join(' ') : '',
+      before_state: entry.before_state === null ? null : JSON.stringify(entry.before_state),
+      after_state: entry.after_state === null ? null : JSON.stringify(entry.after_state),
+    }))
+  );
@@ -0,0 +1,200 @@
+import * as automationQueries from '../db/automationQueries';
+import {
+  Automation,
+  AutomationAction,
+  AutomationCondition,
+  AutomationSchedule,
+  AutomationTrigger,
+  AutomationWithActions,
+  CreateAutomationInput,
+  UpdateAutomationInput,
+} from '../types/automation';
+import { validateCreateAutomation, validateUpdateAutomation } from '../utils/validation';
+
+// ============================================================================
+// EXPLANATION
+// ============================================================================
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// "a", "a or b", "a, b or c"
+const listOf = (items: string[], conjunction: string): string =>
+  items.length <= 1
+    ? items.join('')
+    : `${items.slice(0, -1).join(', ')} ${conjunction} ${items[items.length - 1]}`;
+
+const quote = (value: unknown): string => (typeof value === 'string' ? `"${value}"` : String(value));
+
+const ordinal = (day: number): string => {
+  const suffix = day % 10 === 1 && day !== 11 ? 'st' : day % 10 === 2 && day !== 12 ? 'nd' : day % 10 === 3 && day !== 13 ? 'rd' : 'th';
+  return `${day}${suffix}`;
+};
+
+// "every day at 09:00", "every 2 weeks on Monday", "every month on the 1st"
+const describeSchedule = (schedule: AutomationSchedule): string => {
+  const unit = { hourly: 'hour', daily: 'day', weekly: 'week', monthly: 'month' }[schedule.frequency];
+  const interval = schedule.interval || 1;
+  const parts = [interval === 1 ? `every ${unit}` : `every ${interval} ${unit}s`];
+
+  if (schedule.day_of_week !== undefined) parts.push(`on ${WEEKDAYS[schedule.day_of_week]}`);
+  if (schedule.day_of_month !== undefined) parts.push(`on the ${ordinal(schedule.day_of_month)}`);
+  if (schedule.time) parts.push(`at ${schedule.time}`);
+  if (schedule.timezone) parts.push(`(${schedule.timezone})`);
+
+  return parts.join(' ');
+};
+
+/**
+ * What sets an automation off, as the start of a sentence, e.g.
+ * "When a Lead is created"
+ */
+export const describeAutomationTrigger = (trigger: AutomationTrigger, schedule: AutomationSchedule | null): string => {
+  const record = trigger.record_type ? `a ${trigger.record_type}` : 'a record';
+
+  switch (trigger.type) {
+    case 'record_created':
+      return `When ${record} is created`;
+    case 'record_updated':
+      return `When ${record} is edited`;
+    case 'record_created_or_updated':
+      return `When ${record} is created or edited`;
+    case 'record_deleted':
+      return `When ${record} is deleted`;
+    case 'field_changed':
+      return `When ${listOf(trigger.fields || [], 'or')} changes on ${record}`;
+    case 'schedule': {
+      const every = schedule ? describeSchedule(schedule) : 'on a schedule';
+      return `${every.charAt(0).toUpperCase()}${every.slice(1)}`;
+    }
+    case 'webhook':
+      return 'When another system calls it';
+    case 'manual':
+      return 'When someone runs it';
+  }
+};
+
+/**
+ * A condition as a sentence fragment, e.g. Status is "New"
+ */
+export const describeAutomationCondition = (condition: AutomationCondition): string => {
+  const { field, value } = condition;
+
+  switch (condition.operator) {
+    case 'equals': return `${field} is ${quote(value)}`;
+    case 'not_equals': return `${field} is not ${quote(value)}`;
+    case 'contains': return `${field} contains ${quote(value)}`;
+    case 'not_contains': return `${field} doesn't contain ${quote(value)}`;
+    case 'starts_with': return `${field} starts with ${quote(value)}`;
+    case 'greater_than': return `${field} is more than ${quote(value)}`;
+    case 'less_than': return `${field} is less than ${quote(value)}`;
+    case 'is_empty': return `${field} is empty`;
+    case 'is_not_empty': return `${field} is not empty`;
+    case 'changed_to': return `${field} has just changed to ${quote(value)}`;
+  }
+};
+
+/**
+ * What an action does, e.g. Set Owner to "Sales queue"
+ */
+export const describeAutomationAction = (action: AutomationAction): string => {
+  const target = action.target || '';
+  let sentence: string;
+
+  switch (action.type) {
+    case 'update_field':
+      sentence = action.value === undefined || action.value === null
+        ? `Clear ${target}`
+        : `Set ${target} to ${quote(action.value)}`;
+      break;
+    case 'create_record': sentence = `Create a ${target}`; break;
+    case 'send_email': sentence = `Email ${target}`; break;
+    case 'send_notification': sentence = `Notify ${target}`; break;
+    case 'assign_owner': sentence = `Assign the record to ${target}`; break;
+    case 'call_function': sentence = `Run the function ${target}`; break;
+    case 'call_webhook': sentence = `Send the record to ${target}`; break;
+    case 'other': sentence = action.description || 'Do something not described'; break;
+  }
+
+  if (action.type !== 'other' && action.description) {
+    sentence += ` (${action.description})`;
+  }
+
+  if (action.delay) {
+    const { amount, unit } = action.delay;
+    sentence = `After ${amount} ${amount === 1 ? unit.replace(/s$/, '') : unit}, ${sentence.charAt(0).toLowerCase()}${sentence.slice(1)}`;
+  }
+
+  return sentence;
+};
+
+/**
+ * An automation in plain language: what sets it off, what it checks, what
+ * it then does, and the documented actions tied to it
+ */
+export const explainAutomation = (automation: Automation | AutomationWithActions): string => {
+  const conditions = automation.conditions.map(describeAutomationCondition);
+  let when = describeAutomationTrigger(automation.trigger, automation.schedule);
+
+  if (conditions.length === 1) {
+    when += `, if ${conditions[0]}`;
+  } else if (conditions.length > 1) {
+    when += `, if ${listOf(conditions, automation.condition_match === 'all' ? 'and' : 'or')}`;
+  }
+
+  const paragraphs = [
+    automation.actions.length === 1
+      ? `${when}, it will: ${describeAutomationAction(automation.actions[0])}.`
+      : [`${when}, it will:`, ...automation.actions.map((action, index) => `${index + 1}. ${describeAutomationAction(action)}.`)].join('\n'),
+  ];
+
+  if (automation.trigger.description) {
+    paragraphs.push(`As the system describes it: ${automation.trigger.description}`);
+  }
+
+  if ('linked_actions' in automation && automation.linked_actions.length > 0) {
+    const titles = (relationship: string) => automation.linked_actions
+      .filter((link) => link.relationship === relationship)
+      .map((link) => `"${link.title}"`);
+    const triggeredBy = titles('triggers');
+    const affects = titles('affects');
+
+    if (triggeredBy.length > 0) paragraphs.push(`Doing ${listOf(triggeredBy, 'or')} sets it off.`);
+    if (affects.length > 0) paragraphs.push(`It affects ${listOf(affects, 'and')}.`);
+  }
+
+  if (!automation.is_active) {
+    paragraphs.push('It is switched off, so none of this happens until it is turned back on.');
+  }
+
+  return paragraphs.join('\n\n');
+};
+
+// ============================================================================
+// CREATE / UPDATE
+// ============================================================================
+
+/**
+ * Validate and create an automation
+ * @throws ValidationError listing invalid fields by path, e.g. `actions[1].target`
+ */
+export const createAutomation = async (input: CreateAutomationInput): Promise<Automation> => {
+  validateCreateAutomation(input);
+  return automationQueries.createAutomation(input);
+};
+
+/**
+ * Validate and apply changes to an automation. Changing the trigger away
+ * from a schedule drops the schedule.
+ * @throws NotFoundError, ValidationError
+ */
+export const updateAutomation = async (id: number, input: UpdateAutomationInput): Promise<Automation> => {
+  const current = await automationQueries.getAutomationById(id);
+  const changes = { ...input };
+
+  if (changes.trigger?.type && changes.trigger.type !== 'schedule' && changes.schedule === undefined && current.schedule) {
+    changes.schedule = null;
+  }
+
+  validateUpdateAutomation(changes, current);
+  return automationQueries.updateAutomation(id, changes);
+};
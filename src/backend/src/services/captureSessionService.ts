@@ -0,0 +1,288 @@
+import { getRolesByWorkspaceId } from '../db/queries';
+import {
+  answerCaptureQuestion,
+  createCaptureSession,
+  getCaptureSessionById,
+  getCaptureTargetFields,
+  getOpenCaptureSession,
+  setCaptureSessionStatus,
+  CaptureTargetFields,
+} from '../db/captureSessionQueries';
+import {
+  ActionFrequency,
+  CaptureField,
+  CaptureQuestion,
+  CaptureQuestionKey,
+  CaptureSession,
+  CaptureSessionWithQuestions,
+  CaptureTargetType,
+  Role,
+} from '../types/models';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { ACTION_FREQUENCIES } from '../utils/validation';
+
+interface CaptureQuestionTemplate {
+  key: CaptureQuestionKey;
+  // Structured field the answer fills in
+  field: CaptureField;
+  prompt: (name: string, type: CaptureTargetType) => string;
+}
+
+// Asked in this order; questions whose field is already filled are skipped
+const CAPTURE_QUESTIONS: CaptureQuestionTemplate[] = [
+  {
+    key: 'owner_role',
+    field: 'responsible_role_id',
+    prompt: (name) => `Who usually does "${name}"? Name the role responsible for it.`,
+  },
+  {
+    key: 'frequency',
+    field: 'frequency',
+    prompt: (name) => `How often is "${name}" done (daily, weekly, monthly, quarterly, yearly or as needed)?`,
+  },
+  {
+    key: 'duration',
+    field: 'average_duration_minutes',
+    prompt: (name, type) => type === 'sequence'
+      ? `Roughly how long does "${name}" take from start to finish?`
+      : `Roughly how long does "${name}" take each time?`,
+  },
+  {
+    key: 'trigger',
+    field: 'trigger_event',
+    prompt: (name) => `What triggers "${name}"? (an event, a request, a schedule...)`,
+  },
+];
+
+const getTemplate = (key: CaptureQuestionKey): CaptureQuestionTemplate =>
+  CAPTURE_QUESTIONS.find((template) => template.key === key) as CaptureQuestionTemplate;
+
+// ============================================================================
+// ANSWER PARSING
+// ============================================================================
+
+// Checked in order, so "twice a week" is weekly rather than ad hoc
+const FREQUENCY_PATTERNS: Array<[ActionFrequency, RegExp]> = [
+  ['yearly', /\b(yearly|annual(ly)?|every year|per year|a year|once a year)\b/],
+  ['quarterly', /\b(quarterly|every quarter|per quarter|a quarter|every (three|3) months)\b/],
+  ['monthly', /\b(monthly|every month|per month|a month|month[- ]end|each month)\b/],
+  ['weekly', /\b(weekly|every week|per week|a week|each week|every (monday|tuesday|wednesday|thursday|friday|saturday|sunday))\b/],
+  ['daily', /\b(daily|every day|each day|per day|a day|every morning|every evening|hourly|every hour)\b/],
+  ['ad_hoc', /\b(ad[- ]?hoc|as needed|when needed|on demand|occasionally|whenever|rarely|irregular(ly)?)\b/],
+];
+
+/**
+ * Map a free-text answer to a frequency ("every Monday" → weekly)
+ */
+export const parseFrequency = (text: string): ActionFrequency | null => {
+  const normalized = text.toLowerCase().replace(/_/g, ' ');
+  const match = FREQUENCY_PATTERNS.find(([, pattern]) => pattern.test(normalized));
+  return match ? match[0] : null;
+};
+
+/**
+ * Map a free-text answer to whole minutes ("about 1.5 hours" → 90,
+ * "10-15 min" → 13, "half an hour" → 30). A bare number is minutes.
+ */
+export const parseDurationMinutes = (text: string): number | null => {
+  const normalized = text.toLowerCase()
+    .replace(/\bhalf an? hour\b/g, '30 minutes')
+    .replace(/\ban? hour\b/g, '1 hour')
+    // Ranges become their midpoint
+    .replace(/(\d+(?:\.\d+)?)\s*(?:-|–|to)\s*(\d+(?:\.\d+)?)/g,
+      (_, low, high) => String((parseFloat(low) + parseFloat(high)) / 2));
+
+  let minutes = 0;
+  let matched = false;
+
+  for (const match of normalized.matchAll(/(\d+(?:\.\d+)?)\s*(hours?|hrs?|h|minutes?|mins?|m|days?|d)\b/g)) {
+    const amount = parseFloat(match[1]);
+    const unit = match[2];
+    matched = true;
+
+    if (unit.startsWith('h')) minutes += amount * 60;
+    else if (unit.startsWith('d')) minutes += amount * 8 * 60;  // Working days
+    else minutes += amount;
+  }
+
+  if (!matched) {
+    const bare = normalized.match(/^\D*(\d+(?:\.\d+)?)\D*$/);
+    if (!bare) return null;
+    minutes = parseFloat(bare[1]);
+  }
+
+  return Math.round(minutes);
+};
+
+/**
+ * Find the workspace role an answer names: an exact name match wins,
+ * otherwise the longest role name mentioned in the answer
+ */
+export const matchRole = (text: string, roles: Role[]): Role | null => {
+  const normalized = text.toLowerCase().trim();
+  const exact = roles.find((role) => role.name.toLowerCase() === normalized);
+  if (exact) return exact;
+
+  const mentioned = roles
+    .filter((role) => normalized.includes(role.name.toLowerCase()))
+    .sort((a, b) => b.name.length - a.name.length);
+
+  return mentioned[0] || null;
+};
+
+const getWorkspaceRoles = async (workspaceId: number): Promise<Role[]> => {
+  const { data } = await getRolesByWorkspaceId(workspaceId, { limit: 1000 });
+  return data;
+};
+
+// Turn an answer (or an explicit value) into the value for the question's field
+const resolveAnswerValue = async (
+  key: CaptureQuestionKey,
+  answer: string,
+  explicitValue: unknown,
+  workspaceId: number
+): Promise<unknown> => {
+  const hasExplicit = explicitValue !== undefined && explicitValue !== null;
+
+  switch (key) {
+    case 'frequency':
+      if (hasExplicit) {
+        if (!ACTION_FREQUENCIES.includes(explicitValue as ActionFrequency)) {
+          throw new ValidationError(`value must be one of: ${ACTION_FREQUENCIES.join(', ')}`);
+        }
+        return explicitValue;
+      }
+      return parseFrequency(answer);
+
+    case 'duration':
+      if (hasExplicit) {
+        if (!Number.isInteger(explicitValue) || (explicitValue as number) < 0) {
+          throw new ValidationError('value must be a non-negative whole number of minutes');
+        }
+        return explicitValue;
+      }
+      return parseDurationMinutes(answer);
+
+    case 'owner_role': {
+      const roles = await getWorkspaceRoles(workspaceId);
+      if (hasExplicit) {
+        const role = roles.find((candidate) => candidate.id === explicitValue);
+        if (!role) {
+          throw new ValidationError('value must be the ID of a role in this workspace');
+        }
+        return role.id;
+      }
+      return matchRole(answer, roles)?.id ?? null;
+    }
+
+    case 'trigger':
+      if (hasExplicit) {
+        if (typeof explicitValue !== 'string' || explicitValue.trim() === '') {
+          throw new ValidationError('value must be a non-empty string');
+        }
+        return explicitValue.trim();
+      }
+      return answer.trim();
+  }
+};
+
+// ============================================================================
+// SESSIONS
+// ============================================================================
+
+const buildQuestions = (
+  type: CaptureTargetType,
+  fields: CaptureTargetFields
+): Array<{ question_key: CaptureQuestionKey; prompt: string }> =>
+  CAPTURE_QUESTIONS
+    .filter((template) => fields[template.field] === null)
+    .map((template) => ({
+      question_key: template.key,
+      prompt: template.prompt(fields.name, type),
+    }));
+
+/**
+ * Start a capture session for an action or sequence, asking only about
+ * fields that aren't filled in yet. An existing open session is returned
+ * instead of starting a second one.
+ */
+export const startCaptureSession = async (
+  type: CaptureTargetType,
+  id: number,
+  userId: number
+): Promise<{ session: CaptureSessionWithQuestions; created: boolean }> => {
+  const open = await getOpenCaptureSession(type, id);
+  if (open) {
+    return { session: await getCaptureSessionById(open.id), created: false };
+  }
+
+  const fields = await getCaptureTargetFields(type, id);
+  const session = await createCaptureSession({
+    ...(type === 'action' ? { action_id: id } : { sequence_id: id }),
+    created_by: userId,
+    questions: buildQuestions(type, fields),
+  });
+
+  return { session, created: true };
+};
+
+const getOpenSession = async (sessionId: number): Promise<CaptureSessionWithQuestions> => {
+  const session = await getCaptureSessionById(sessionId);
+
+  if (session.status !== 'open') {
+    throw new ConflictError(`Capture session is already ${session.status}`);
+  }
+
+  return session;
+};
+
+/**
+ * The first unanswered question, or null when every question is answered
+ */
+export const getNextQuestion = (session: CaptureSessionWithQuestions): CaptureQuestion | null =>
+  session.questions.find((question) => question.answered_at === null) || null;
+
+/**
+ * Record an answer. If it can be read as a value for the question's field
+ * (or an explicit value is given) the value is written to the action or sequence.
+ * Answering again overwrites the previous answer.
+ * @returns The answered question, whether a field was updated, and the next question
+ */
+export const answerQuestion = async (
+  sessionId: number,
+  questionId: number,
+  workspaceId: number,
+  userId: number,
+  answer: string,
+  explicitValue?: unknown
+): Promise<{ question: CaptureQuestion; applied: boolean; next_question: CaptureQuestion | null }> => {
+  const session = await getOpenSession(sessionId);
+  const question = session.questions.find((candidate) => candidate.id === questionId);
+
+  if (!question) {
+    throw new NotFoundError('Capture Question', questionId);
+  }
+
+  const value = await resolveAnswerValue(question.question_key, answer, explicitValue, workspaceId);
+  const field = value !== null ? getTemplate(question.question_key).field : null;
+
+  const answered = await answerCaptureQuestion(sessionId, questionId, answer.trim(), value, field, userId);
+  const refreshed = await getCaptureSessionById(sessionId);
+
+  return {
+    question: answered,
+    applied: field !== null,
+    next_question: getNextQuestion(refreshed),
+  };
+};
+
+/**
+ * Close an open session; unanswered questions are left unanswered
+ */
+export const closeCaptureSession = async (
+  sessionId: number,
+  status: 'completed' | 'abandoned'
+): Promise<CaptureSession> => {
+  await getOpenSession(sessionId);
+  return setCaptureSessionStatus(sessionId, status);
+};
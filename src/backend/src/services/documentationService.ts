@@ -0,0 +1,208 @@
+import * as queries from '../db/queries';
+import * as hierarchyQueries from '../db/hierarchyQueries';
+import * as workflowQueries from '../db/workflowQueries';
+import { getAnnotationsByScreenshotIds } from '../db/screenshotAnnotationQueries';
+import * as linksService from './linksService';
+import {
+  Action,
+  ActionSequenceWithActions,
+  PaginatedResult,
+  QueryOptions,
+  Role,
+  Screenshot,
+  ScreenshotAnnotation,
+  System,
+} from '../types/models';
+import { LinkWithContext } from '../types/links';
+import { NotFoundError } from '../utils/errors';
+
+// Page size used when walking paginated queries to the end
+const PAGE_SIZE = 100;
+
+export interface DocumentedScreenshot {
+  screenshot: Screenshot;
+  caption: string | null;
+  annotations: ScreenshotAnnotation[];  // Drawn over the image in exports
+}
+
+export interface DocumentedAction {
+  action: Action;
+  responsible_role: Role | null;
+  screenshots: DocumentedScreenshot[];  // In the order the action lists them
+  links: LinkWithContext[];
+}
+
+export interface DocumentedPracticeGroup {
+  id: number;
+  name: string;
+  description: string | null;
+  actions: DocumentedAction[];
+  sequences: ActionSequenceWithActions[];
+}
+
+export interface DocumentedDepartment {
+  id: number;
+  name: string;
+  practice_groups: DocumentedPracticeGroup[];
+}
+
+/**
+ * Everything written down about a system, ready to render
+ */
+export interface SystemDocumentation {
+  system: System;
+  version: 'published' | 'current';
+  generated_at: string;
+  departments: DocumentedDepartment[];
+  unassigned_actions: DocumentedAction[];  // Legacy actions attached straight to the system
+  links: LinkWithContext[];
+}
+
+// Walk a paginated query to the end
+export const fetchAll = async <T>(
+  fetchPage: (options: QueryOptions) => Promise<PaginatedResult<T>>
+): Promise<T[]> => {
+  const items: T[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await fetchPage({ limit: PAGE_SIZE, offset });
+    items.push(...page.data);
+    if (page.data.length < PAGE_SIZE || items.length >= page.total) {
+      return items;
+    }
+  }
+};
+
+const orNull = <T>(promise: Promise<T>): Promise<T | null> =>
+  promise.catch((error) => {
+    if (error instanceof NotFoundError) return null;
+    throw error;
+  });
+
+/**
+ * Loads actions with their screenshots, links and roles. Roles are cached
+ * since the same few are responsible for most actions.
+ */
+export const createActionLoader = () => {
+  const roles = new Map<number, Promise<Role | null>>();
+
+  const getRole = (id: number) => {
+    if (!roles.has(id)) {
+      roles.set(id, orNull(queries.getRoleById(id)));
+    }
+    return roles.get(id)!;
+  };
+
+  return async (actions: Action[]): Promise<DocumentedAction[]> =>
+    Promise.all(actions.map(async (action): Promise<DocumentedAction> => {
+      const [stored, links, responsibleRole] = await Promise.all([
+        fetchAll((options) => queries.getScreenshotsByActionId(action.id, {
+          ...options,
+          orderBy: 'uploaded_at',
+          orderDirection: 'ASC',
+        })),
+        linksService.getActionLinks(action.id),
+        action.responsible_role_id ? getRole(action.responsible_role_id) : Promise.resolve(null),
+      ]);
+
+      // Only screenshots this version of the action refers to; a screenshot
+      // uploaded after publishing isn't part of the published version
+      const byId = new Map(stored.map((screenshot) => [screenshot.id, screenshot]));
+      const refs = [...(action.screenshots || [])].sort((a, b) => a.order - b.order);
+      const screenshots: DocumentedScreenshot[] = [];
+      const seen = new Set<number>();
+
+      const add = (id: number | undefined, caption: string | null) => {
+        if (id === undefined || seen.has(id) || !byId.has(id)) return;
+        seen.add(id);
+        screenshots.push({ screenshot: byId.get(id)!, caption, annotations: [] });
+      };
+
+      refs.forEach((ref) => add(ref.screenshot_id, ref.caption || null));
+      (action.steps || []).forEach((step) => add(step.screenshot_id, null));
+
+      const annotations = await getAnnotationsByScreenshotIds([...seen]);
+      screenshots.forEach((documented) => {
+        documented.annotations = annotations.get(documented.screenshot.id) || [];
+      });
+
+      return { action, responsible_role: responsibleRole, screenshots, links };
+    }));
+};
+
+/**
+ * Load a system's documentation: departments, practice groups, their
+ * actions (with steps, screenshots and links) and sequences, and the links
+ * attached to the system itself.
+ * @param published - Use the published version of actions and sequences,
+ *   leaving out anything never published, as viewers see it
+ * @throws NotFoundError if the system doesn't exist
+ */
+export const loadSystemDocumentation = async (
+  systemId: number,
+  published: boolean
+): Promise<SystemDocumentation> => {
+  const system = await queries.getSystemById(systemId);
+  const hierarchy = await hierarchyQueries.getSystemHierarchy(systemId);
+  const documentActions = createActionLoader();
+
+  // Viewers' version: actions that were never published are left out
+  const loadActions = async (actions: Action[]) => documentActions(
+    published ? await workflowQueries.getPublishedActions(actions.map((action) => action.id)) : actions
+  );
+
+  const loadSequence = (id: number): Promise<ActionSequenceWithActions | null> =>
+    published
+      ? orNull(workflowQueries.getPublishedSequence(id))
+      : hierarchyQueries.getActionSequenceWithActions(id);
+
+  // A system with no departments comes back with a single all-null row
+  const departments = (hierarchy?.departments || []).filter((department: any) => department?.id !== null);
+
+  const documentedDepartments: DocumentedDepartment[] = [];
+
+  for (const department of departments) {
+    const practiceGroups: DocumentedPracticeGroup[] = [];
+
+    for (const practiceGroup of department.practice_groups || []) {
+      const [actions, sequences] = await Promise.all([
+        fetchAll((options) => queries.getActionsByPracticeGroupId(practiceGroup.id, options))
+          .then(loadActions),
+        fetchAll((options) => hierarchyQueries.getActionSequencesByPracticeGroupId(practiceGroup.id, {
+          ...options,
+          orderBy: 'name',
+          orderDirection: 'ASC',
+        })).then((rows) => Promise.all(rows.map((sequence) => loadSequence(sequence.id)))),
+      ]);
+
+      practiceGroups.push({
+        id: practiceGroup.id,
+        name: practiceGroup.name,
+        description: practiceGroup.description,
+        actions,
+        sequences: sequences.filter((sequence): sequence is ActionSequenceWithActions => sequence !== null),
+      });
+    }
+
+    documentedDepartments.push({
+      id: department.id,
+      name: department.name,
+      practice_groups: practiceGroups,
+    });
+  }
+
+  const legacyActions = (await fetchAll((options) => queries.getActionsBySystemId(systemId, {
+    ...options,
+    orderBy: 'display_order',
+    orderDirection: 'ASC',
+  }))).filter((action) => action.practice_group_id === null);
+
+  return {
+    system,
+    version: published ? 'published' : 'current',
+    generated_at: new Date().toISOString(),
+    departments: documentedDepartments,
+    unassigned_actions: await loadActions(legacyActions),
+    links: await linksService.getSystemLinks(systemId),
+  };
+};
@@ -0,0 +1,97 @@
+import { parseJsonResponse } from '../llm';
+import { ImporterInput, ImporterPlugin } from './index';
+
+const SYSTEM_PROMPT = `You write step-by-step how-to documentation for business software.
+You are given the ordered screenshots a user captured while performing a task, with the text
+read from each screenshot by OCR. Write the numbered steps someone would follow to repeat the task.
+Each step is one short imperative instruction (e.g. "Click Save"). Refer to on-screen labels exactly
+as they appear in the OCR text. Link each step to the screenshot that shows it.
+Reply with JSON only: {"steps": [{"instruction": string, "screenshot_id": number, "notes": string (optional)}]}`;
+
+export interface ProposedSteps {
+  steps: Array<{ instruction: string; screenshot_id?: number; notes?: string }>;
+}
+
+const buildPrompt = (input: ImporterInput): string => {
+  const sections = input.screenshots.map((screenshot) => [
+    `Screenshot ${screenshot.position} (screenshot_id ${screenshot.screenshot_id})`,
+    screenshot.caption ? `Caption: ${screenshot.caption}` : null,
+    `OCR text:\n${screenshot.ocr_text || '(no text detected)'}`,
+  ].filter(Boolean).join('\n'));
+
+  return [
+    `Task: ${input.title}`,
+    input.description ? `Description: ${input.description}` : null,
+    '',
+    ...sections.map((section) => `${section}\n`),
+  ].filter((line) => line !== null).join('\n');
+};
+
+// Keep only well-formed steps and references to the screenshots given
+const normalizeProposedSteps = (raw: any, screenshotIds: Set<number>): ProposedSteps => {
+  const proposed: any[] = Array.isArray(raw?.steps) ? raw.steps : [];
+
+  return {
+    steps: proposed
+      .filter((step) => typeof step?.instruction === 'string' && step.instruction.trim().length > 0)
+      .map((step) => ({
+        instruction: step.instruction.trim(),
+        ...(screenshotIds.has(step.screenshot_id) && { screenshot_id: step.screenshot_id }),
+        ...(typeof step.notes === 'string' && step.notes.trim() && { notes: step.notes.trim() }),
+      })),
+  };
+};
+
+/**
+ * Steps for any application, from the OCR text of each screenshot
+ */
+export const genericScreenshotImporter: ImporterPlugin<ProposedSteps> = {
+  name: 'generic-screenshot',
+  platform: 'Any',
+  description: 'Drafts how-to steps for any application from screenshots of each screen and their OCR text',
+
+  outputSchema: {
+    type: 'object',
+    required: ['steps'],
+    properties: {
+      steps: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          required: ['instruction'],
+          additionalProperties: false,
+          properties: {
+            instruction: { type: 'string', minLength: 1 },
+            screenshot_id: { type: 'integer' },
+            notes: { type: 'string' },
+          },
+        },
+      },
+    },
+  },
+
+  extract: async (input, llm) => {
+    const response = await llm.complete({
+      purpose: 'draft_steps',
+      system: SYSTEM_PROMPT,
+      prompt: buildPrompt(input),
+      data: { action_title: input.title, screenshots: input.screenshots },
+      json: true,
+    });
+
+    return {
+      output: normalizeProposedSteps(
+        parseJsonResponse(response.text),
+        new Set(input.screenshots.map((screenshot) => screenshot.screenshot_id))
+      ),
+      model: response.model,
+    };
+  },
+
+  render: (output, input) => ({
+    title: input.title,
+    description: input.description,
+    steps: output.steps.map((step, index) => ({ step_number: index + 1, ...step })),
+  }),
+};
@@ -0,0 +1,158 @@
+import { getLlmProvider, LlmProvider } from '../llm';
+import { getScreenshotsByActionId } from '../../db/queries';
+import { maskSensitiveText } from '../screenshotRedactionService';
+import { Action, ActionStep, Screenshot } from '../../types/models';
+import { JsonSchema, validateJsonSchema } from '../../utils/jsonSchema';
+import { ExtractionError, NotFoundError, ValidationError } from '../../utils/errors';
+import { genericScreenshotImporter } from './genericScreenshotImporter';
+import { zohoWorkflowImporter } from './zohoWorkflowImporter';
+
+// Keep prompts bounded when screenshots are full of text
+const MAX_OCR_CHARS_PER_SCREENSHOT = 2000;
+
+// One screenshot as an importer sees it: its place in the capture and the
+// text OCR read from it
+export interface ImporterScreenshot {
+  screenshot_id: number;
+  position: number;
+  caption: string | null;
+  ocr_text: string;
+}
+
+// What an importer reads: the action being documented and its screenshots, in order
+export interface ImporterInput {
+  title: string;
+  description: string | null;
+  screenshots: ImporterScreenshot[];
+}
+
+// What an importer's output looks like as documentation
+export interface ImporterRendering {
+  title: string;
+  description: string | null;
+  steps: ActionStep[];
+}
+
+// Turns screenshots of one platform's configuration screens into structured
+// data (checked against `outputSchema`), then into action steps
+export interface ImporterPlugin<T = unknown> {
+  readonly name: string;
+  readonly platform: string;
+  readonly description: string;
+  readonly outputSchema: JsonSchema;
+  // Read the structure out of the screenshots; the output is checked before use
+  extract(input: ImporterInput, llm: LlmProvider): Promise<{ output: unknown; model: string | null }>;
+  // Checks the schema can't express; throws ValidationError
+  validate?(output: T): void;
+  // Likely mistakes in valid output, worth a human look
+  warnings?(output: T): string[];
+  render(output: T, input: ImporterInput): ImporterRendering;
+}
+
+export interface ImporterRun<T = unknown> {
+  importer: string;
+  output: T;
+  rendering: ImporterRendering;
+  warnings: string[];
+  provider: LlmProvider['name'];
+  model: string | null;
+}
+
+const IMPORTERS: Record<string, ImporterPlugin<any>> = {
+  [genericScreenshotImporter.name]: genericScreenshotImporter,
+  [zohoWorkflowImporter.name]: zohoWorkflowImporter,
+};
+
+export const listImporters = (): ImporterPlugin[] => Object.values(IMPORTERS);
+
+export const getImporter = (name: string): ImporterPlugin => {
+  const importer = IMPORTERS[name];
+
+  if (!importer) {
+    throw new NotFoundError('Importer', name);
+  }
+
+  return importer;
+};
+
+/**
+ * An action's screenshots in the order the author arranged them; any not
+ * referenced by the action follow in upload order
+ * @param screenshotIds Only these (in this order); each must belong to the action
+ */
+export const loadImporterInput = async (action: Action, screenshotIds?: number[]): Promise<ImporterInput> => {
+  const { data } = await getScreenshotsByActionId(action.id, {
+    limit: 500,
+    orderBy: 'uploaded_at',
+    orderDirection: 'ASC',
+  });
+
+  const refs = [...(action.screenshots || [])].sort((a, b) => a.order - b.order);
+  const captions = new Map(refs.map((ref) => [ref.screenshot_id, ref.caption || null]));
+  const byId = new Map<number, Screenshot>(data.map((screenshot) => [screenshot.id, screenshot]));
+  let ordered: Screenshot[];
+
+  if (screenshotIds) {
+    const unknown = screenshotIds.filter((id) => !byId.has(id));
+    if (unknown.length > 0) {
+      throw new ValidationError('Screenshots must belong to the action', {
+        screenshot_ids: `Not on this action: ${unknown.join(', ')}`,
+      });
+    }
+    ordered = screenshotIds.map((id) => byId.get(id)!);
+  } else {
+    ordered = refs.filter((ref) => byId.has(ref.screenshot_id)).map((ref) => byId.get(ref.screenshot_id)!);
+    const referenced = new Set(ordered.map((screenshot) => screenshot.id));
+    ordered.push(...data.filter((screenshot) => !referenced.has(screenshot.id)));
+  }
+
+  return {
+    title: action.title,
+    description: action.description || null,
+    screenshots: ordered.map((screenshot, index) => ({
+      screenshot_id: screenshot.id,
+      position: index + 1,
+      caption: captions.get(screenshot.id) || null,
+      ocr_text: maskSensitiveText(screenshot.ocr_data?.full_text || '').slice(0, MAX_OCR_CHARS_PER_SCREENSHOT),
+    })),
+  };
+};
+
+/**
+ * Run an importer over some screenshots: extract, check the output against
+ * the plugin's schema and its own validation, then render it
+ * @throws ExtractionError when the extractor's output doesn't hold up, with
+ *   the problems keyed by path
+ */
+export const runImporter = async <T>(
+  importer: ImporterPlugin<T>,
+  input: ImporterInput,
+  llm: LlmProvider = getLlmProvider()
+): Promise<ImporterRun<T>> => {
+  if (input.screenshots.length === 0) {
+    throw new ValidationError('No screenshots to import from');
+  }
+
+  const { output, model } = await importer.extract(input, llm);
+  const schemaErrors = validateJsonSchema(importer.outputSchema, output);
+
+  if (Object.keys(schemaErrors).length > 0) {
+    throw new ExtractionError(`${importer.name} output does not match its schema`, schemaErrors);
+  }
+
+  try {
+    importer.validate?.(output as T);
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw error;
+    throw new ExtractionError(`${importer.name} output is invalid: ${error.message}`, error.errors);
+  }
+
+  return {
+    importer: importer.name,
+    output: output as T,
+    rendering: importer.render(output as T, input),
+    warnings: importer.warnings?.(output as T) || [],
+    provider: llm.name,
+    model,
+  };
+};
@@ -0,0 +1,206 @@
+import { parseJsonResponse } from '../llm';
+import {
+  PLAIN_TEXT_STYLE,
+  describeZohoConditionActions,
+  describeZohoCriterion,
+  getZohoWorkflowWarnings,
+} from '../zohoWorkflowService';
+import { ZOHO_ACTION_TYPES, ZOHO_TIME_UNITS, ZohoWorkflow } from '../../types/zohoWorkflow';
+import { ActionStep } from '../../types/models';
+import { JsonSchema } from '../../utils/jsonSchema';
+import { formatCriteriaExpression, parseCriteriaPattern } from '../../utils/criteriaPattern';
+import { validateZohoWorkflow } from '../../utils/validation';
+import { ImporterInput, ImporterPlugin } from './index';
+
+const SYSTEM_PROMPT = `You transcribe Zoho CRM workflow rules from screenshots of the rule editor.
+You are given the screenshots of one rule, in order, with the text read from each by OCR.
+Copy names, field labels and values exactly as they appear; don't guess text that was cut off.
+Reply with JSON only, in this format:
+{"workflow_name": string, "module": string,
+ "trigger": {"when": string, "modified_fields": [{"field": string, "modification": string}] (optional),
+             "repeat_on_modification": boolean (optional)},
+ "conditions": [{"condition_number": number, "criteria": [{"number": number, "field": string,
+   "operator": string, "value": string (optional)}], "criteria_pattern": string or null,
+   "note": string (optional), "actions": {"instant_actions": [action],
+   "scheduled_actions": [{"action": action, "schedule": {"delay": number, "unit": string}}] (optional)}}]}
+where an action is one of:
+ {"type": "Field Update", "updates": [{"name": string, "module": string, "field": string, "value": any, "set_as_empty": boolean}]}
+ {"type": "Function", "function_name": string}
+ {"type": "Assign Owner", "assignment_rule": string}
+ {"type": "Zoho Cliq Notification", "notification_name": string, "message": string, "users": [string]}`;
+
+const buildPrompt = (input: ImporterInput): string => [
+  `Rule: ${input.title}`,
+  input.description ? `Description: ${input.description}` : null,
+  '',
+  ...input.screenshots.map((screenshot) => [
+    `Screenshot ${screenshot.position}`,
+    screenshot.caption ? `Caption: ${screenshot.caption}` : null,
+    `OCR text:\n${screenshot.ocr_text || '(no text detected)'}`,
+    '',
+  ].filter((line) => line !== null).join('\n')),
+].filter((line) => line !== null).join('\n');
+
+const ACTION_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['type'],
+  properties: {
+    type: { type: 'string', enum: ZOHO_ACTION_TYPES },
+  },
+};
+
+// The shape of the import format; validateZohoWorkflow checks the rest
+// (per-type action fields, criteria patterns, numbering)
+const ZOHO_WORKFLOW_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['workflow_name', 'module', 'trigger', 'conditions'],
+  properties: {
+    workflow_name: { type: 'string', minLength: 1 },
+    module: { type: 'string', minLength: 1 },
+    trigger: {
+      type: 'object',
+      required: ['when'],
+      properties: {
+        when: { type: 'string', minLength: 1 },
+        modified_fields: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['field', 'modification'],
+            properties: {
+              field: { type: 'string', minLength: 1 },
+              modification: { type: 'string' },
+            },
+          },
+        },
+        repeat_on_modification: { type: 'boolean' },
+      },
+    },
+    conditions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['condition_number', 'criteria', 'criteria_pattern', 'actions'],
+        properties: {
+          condition_number: { type: 'integer', minimum: 1 },
+          criteria: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['number', 'field', 'operator'],
+              properties: {
+                number: { type: 'integer', minimum: 1 },
+                field: { type: 'string', minLength: 1 },
+                operator: { type: 'string', minLength: 1 },
+                value: { type: ['string', 'number', 'boolean', 'null'] },
+              },
+            },
+          },
+          criteria_pattern: { type: ['string', 'null'] },
+          note: { type: 'string' },
+          actions: {
+            type: 'object',
+            required: ['instant_actions'],
+            properties: {
+              instant_actions: { type: 'array', items: ACTION_SCHEMA },
+              scheduled_actions: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  required: ['action', 'schedule'],
+                  properties: {
+                    action: ACTION_SCHEMA,
+                    schedule: {
+                      type: 'object',
+                      required: ['delay', 'unit'],
+                      properties: {
+                        delay: { type: 'number', minimum: 0 },
+                        unit: { type: 'string', enum: ZOHO_TIME_UNITS },
+                        condition: { type: 'string' },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Zoho CRM workflow rules, transcribed from screenshots of the rule editor
+ * into the Zoho workflow import format, with steps for finding and checking
+ * the rule in Zoho
+ */
+export const zohoWorkflowImporter: ImporterPlugin<ZohoWorkflow> = {
+  name: 'zoho-workflow',
+  platform: 'Zoho CRM',
+  description: 'Transcribes a Zoho CRM workflow rule from screenshots of its editor: trigger, conditions and actions',
+  outputSchema: ZOHO_WORKFLOW_SCHEMA,
+
+  extract: async (input, llm) => {
+    const response = await llm.complete({
+      purpose: 'import_zoho_workflow',
+      system: SYSTEM_PROMPT,
+      prompt: buildPrompt(input),
+      data: { action_title: input.title, screenshots: input.screenshots },
+      json: true,
+    });
+
+    return { output: parseJsonResponse(response.text), model: response.model };
+  },
+
+  validate: validateZohoWorkflow,
+  warnings: getZohoWorkflowWarnings,
+
+  render: (workflow, input) => {
+    const steps: Array<Omit<ActionStep, 'step_number'>> = [{
+      instruction: `In Zoho CRM, open Setup > Automation > Workflow Rules and open "${workflow.workflow_name}" on ${workflow.module}`,
+      screenshot_id: input.screenshots[0]?.screenshot_id,
+    }];
+
+    const watched = (workflow.trigger.modified_fields || [])
+      .map((modified) => `${modified.field} ${modified.modification}`);
+
+    steps.push({
+      instruction: `Check when the rule runs: "${workflow.trigger.when}"`,
+      ...(watched.length > 0 && { notes: `Watches: ${watched.join('; ')}` }),
+    });
+
+    workflow.conditions.forEach((condition) => {
+      const byNumber = new Map(condition.criteria.map((criterion) => [criterion.number, criterion]));
+      const applies = condition.criteria.length === 0
+        ? 'every record'
+        : `records where ${formatCriteriaExpression(
+          condition.criteria_pattern
+            ? parseCriteriaPattern(condition.criteria_pattern)
+            : { type: 'criterion', number: condition.criteria[0].number },
+          (number) => describeZohoCriterion(byNumber.get(number)!, PLAIN_TEXT_STYLE)
+        )}`;
+      const { instant, scheduled } = describeZohoConditionActions(condition, workflow.module, PLAIN_TEXT_STYLE);
+      const actions = [...instant, ...scheduled];
+
+      steps.push({
+        instruction: `Check condition ${condition.condition_number} applies to ${applies}`,
+        notes: [
+          condition.note,
+          actions.length > 0 ? `Then: ${actions.join('; ')}` : 'Does nothing',
+        ].filter(Boolean).join('. '),
+      });
+    });
+
+    return {
+      title: input.title,
+      description: input.description,
+      steps: steps.map((step, index) => ({
+        step_number: index + 1,
+        instruction: step.instruction,
+        ...(step.screenshot_id !== undefined && { screenshot_id: step.screenshot_id }),
+        ...(step.notes && { notes: step.notes }),
+      })),
+    };
+  },
+};
@@ -11,6 +11,7 @@ import {
   LinkWithContext,
   LinkUsageStats,
   LinkAssociationInput,
+  LinkObjectType,
 } from '../types/links';
 
 // ============================================
@@ -19,7 +20,8 @@ import {
 
 export const createLink = async (
   input: CreateLinkInput,
-  userId: number
+  userId: number,
+  workspaceId: number
 ): Promise<Link> => {
   const {
     url,
@@ -36,8 +38,8 @@ export const createLink = async (
   const result = await pool.query(
     `INSERT INTO links (
       url, title, description, link_type, auth_required, 
-      access_notes, notes, thumbnail_url, open_in_new_tab, created_by
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      access_notes, notes, thumbnail_url, open_in_new_tab, created_by, workspace_id
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
     RETURNING *`,
     [
       url,
@@ -50,6 +52,7 @@ export const createLink = async (
       thumbnail_url,
       open_in_new_tab,
       userId,
+      workspaceId,
     ]
   );
 
@@ -61,15 +64,18 @@ export const getLinkById = async (linkId: number): Promise<Link | null> => {
   return result.rows[0] || null;
 };
 
-export const getAllLinks = async (filters?: {
-  status?: string;
-  link_type?: string;
-  limit?: number;
-  offset?: number;
-}): Promise<{ links: Link[]; total: number }> => {
-  let query = 'SELECT * FROM links WHERE 1=1';
-  const params: any[] = [];
-  let paramCount = 1;
+export const getAllLinks = async (
+  workspaceId: number,
+  filters?: {
+    status?: string;
+    link_type?: string;
+    limit?: number;
+    offset?: number;
+  }
+): Promise<{ links: Link[]; total: number }> => {
+  let query = 'SELECT * FROM links WHERE workspace_id = $1';
+  const params: any[] = [workspaceId];
+  let paramCount = 2;
 
   if (filters?.status) {
     query += ` AND status = $${paramCount}`;
@@ -99,7 +105,10 @@ export const getAllLinks = async (filters?: {
   const result = await pool.query(query, params);
 
   // Get total count
-  const countResult = await pool.query('SELECT COUNT(*) FROM links');
+  const countResult = await pool.query(
+    'SELECT COUNT(*) FROM links WHERE workspace_id = $1',
+    [workspaceId]
+  );
   const total = parseInt(countResult.rows[0].count);
 
   return {
@@ -162,25 +171,45 @@ export const verifyLink = async (linkId: number): Promise<Link | null> => {
 // Link Usage and Stats
 // ============================================
 
+// The views predate workspaces, so each query joins back to links to scope them
+
 export const getLinkUsageStats = async (
+  workspaceId: number,
   linkId?: number
 ): Promise<LinkUsageStats[]> => {
   const query = linkId
-    ? 'SELECT * FROM v_link_usage WHERE link_id = $1'
-    : 'SELECT * FROM v_link_usage ORDER BY created_at DESC';
-
-  const params = linkId ? [linkId] : [];
+    ? `SELECT v.* FROM v_link_usage v
+       JOIN links l ON l.id = v.link_id
+       WHERE l.workspace_id = $1 AND v.link_id = $2`
+    : `SELECT v.* FROM v_link_usage v
+       JOIN links l ON l.id = v.link_id
+       WHERE l.workspace_id = $1
+       ORDER BY v.created_at DESC`;
+
+  const params = linkId ? [workspaceId, linkId] : [workspaceId];
   const result = await pool.query(query, params);
   return result.rows;
 };
 
-export const getOrphanedLinks = async (): Promise<Link[]> => {
-  const result = await pool.query('SELECT * FROM v_orphaned_links');
+export const getOrphanedLinks = async (workspaceId: number): Promise<Link[]> => {
+  const result = await pool.query(
+    `SELECT v.* FROM v_orphaned_links v
+     JOIN links l ON l.id = v.id
+     WHERE l.workspace_id = $1`,
+    [workspaceId]
+  );
   return result.rows;
 };
 
-export const getLinksNeedingVerification = async (): Promise<Link[]> => {
-  const result = await pool.query('SELECT * FROM v_links_need_verification');
+export const getLinksNeedingVerification = async (
+  workspaceId: number
+): Promise<Link[]> => {
+  const result = await pool.query(
+    `SELECT v.* FROM v_links_need_verification v
+     JOIN links l ON l.id = v.id
+     WHERE l.workspace_id = $1`,
+    [workspaceId]
+  );
   return result.rows;
 };
 
@@ -361,7 +390,7 @@ export const getTaskLinks = async (taskId: number): Promise<LinkWithContext[]> =
 // ============================================
 
 export const bulkAddLinks = async (
-  objectType: 'system' | 'action' | 'role' | 'task',
+  objectType: LinkObjectType,
   objectId: number,
   linkInputs: LinkAssociationInput[]
 ): Promise<void> => {
@@ -396,7 +425,7 @@ export const bulkAddLinks = async (
 };
 
 export const reorderLinks = async (
-  objectType: 'system' | 'action' | 'role' | 'task',
+  objectType: LinkObjectType,
   objectId: number,
   linkOrders: Array<{ link_id: number; display_order: number }>
 ): Promise<void> => {
@@ -0,0 +1,66 @@
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { createStubProvider } from './stubProvider';
+
+// What a feature asks the model to do
+export interface LlmRequest {
+  // Identifies the feature (e.g. 'draft_steps'); the stub uses it to pick a canned response
+  purpose: string;
+  system: string;
+  prompt: string;
+  // The structured input the prompt was built from, for providers that
+  // don't read prose (the stub)
+  data?: unknown;
+  // Ask for a single JSON object back
+  json?: boolean;
+}
+
+export interface LlmResponse {
+  text: string;
+  model: string | null;
+}
+
+export interface LlmProvider {
+  readonly name: 'openai' | 'stub';
+  complete(request: LlmRequest): Promise<LlmResponse>;
+}
+
+let provider: LlmProvider | null = null;
+
+// Get the configured provider (LLM_PROVIDER=openai|stub, default stub)
+// 'openai' speaks the OpenAI chat completions API, which most hosted and
+// self-hosted servers (Ollama, vLLM, LM Studio...) also expose via LLM_BASE_URL
+export const getLlmProvider = (): LlmProvider => {
+  if (provider) {
+    return provider;
+  }
+
+  const name = process.env.LLM_PROVIDER || 'stub';
+
+  if (name === 'openai') {
+    provider = createOpenAiCompatibleProvider({
+      baseUrl: process.env.LLM_BASE_URL || 'https://api.openai.com/v1',
+      apiKey: process.env.LLM_API_KEY,
+      model: process.env.LLM_MODEL || 'gpt-4o-mini',
+      timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '60000'),
+    });
+  } else if (name === 'stub') {
+    provider = createStubProvider();
+  } else {
+    throw new Error(`Unknown LLM_PROVIDER '${name}' (expected 'openai' or 'stub')`);
+  }
+
+  console.log(`🤖 Using ${provider.name} LLM provider`);
+  return provider;
+};
+
+// Parse a JSON reply, tolerating models that wrap it in a ```json fence
+export const parseJsonResponse = <T>(text: string): T => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = (fenced ? fenced[1] : text).trim();
+
+  try {
+    return JSON.parse(body) as T;
+  } catch {
+    throw new Error(`LLM returned invalid JSON: ${body.slice(0, 200)}`);
+  }
+};
@@ -0,0 +1,47 @@
+import { LlmProvider } from './index';
+
+export interface OpenAiCompatibleConfig {
+  baseUrl: string;   // e.g. https://api.openai.com/v1 or http://localhost:11434/v1
+  apiKey?: string;   // Optional for local servers
+  model: string;
+  timeoutMs: number;
+}
+
+// Calls POST {baseUrl}/chat/completions
+export const createOpenAiCompatibleProvider = (config: OpenAiCompatibleConfig): LlmProvider => ({
+  name: 'openai',
+
+  complete: async (request) => {
+    const response = await fetch(`${config.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: config.model,
+        temperature: 0.2,
+        messages: [
+          { role: 'system', content: request.system },
+          { role: 'user', content: request.prompt },
+        ],
+        ...(request.json && { response_format: { type: 'json_object' } }),
+      }),
+      signal: AbortSignal.timeout(config.timeoutMs),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`LLM request failed with status ${response.status}: ${detail.slice(0, 200)}`);
+    }
+
+    const body: any = await response.json();
+    const text = body.choices?.[0]?.message?.content;
+
+    if (typeof text !== 'string') {
+      throw new Error('LLM response had no message content');
+    }
+
+    return { text, model: body.model || config.model };
+  },
+});
@@ -0,0 +1,49 @@
+import { LlmProvider } from './index';
+
+// Canned, deterministic answers per request purpose, built from the
+// request's structured data. Used for tests and for running without a model.
+const STUB_RESPONSES: Record<string, (data: any) => unknown> = {
+  // One step per screenshot, named after its caption or first line of OCR text
+  draft_steps: (data) => ({
+    steps: (data?.screenshots || []).map((screenshot: any, index: number) => {
+      const firstLine = (screenshot.ocr_text || '')
+        .split('\n')
+        .map((line: string) => line.trim())
+        .find((line: string) => line.length > 0);
+
+      return {
+        instruction: screenshot.caption || (firstLine
+          ? `Go to "${firstLine}"`
+          : `Complete the step shown in screenshot ${index + 1}`),
+        screenshot_id: screenshot.screenshot_id,
+      };
+    }),
+  }),
+  // A rule named after the action that runs on every new record and does nothing
+  import_zoho_workflow: (data) => ({
+    workflow_name: data?.action_title || 'Imported rule',
+    module: 'Leads',
+    trigger: { when: 'This rule will be executed when a lead is created.' },
+    conditions: [{
+      condition_number: 1,
+      criteria: [],
+      criteria_pattern: null,
+      note: 'This rule will be executed for all leads',
+      actions: { instant_actions: [] },
+    }],
+  }),
+};
+
+export const createStubProvider = (): LlmProvider => ({
+  name: 'stub',
+
+  complete: async (request) => {
+    const respond = STUB_RESPONSES[request.purpose];
+
+    if (request.json) {
+      return { text: JSON.stringify(respond ? respond(request.data) : {}), model: 'stub' };
+    }
+
+    return { text: `Stub response for ${request.purpose}`, model: 'stub' };
+  },
+});
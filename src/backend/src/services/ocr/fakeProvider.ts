@@ -0,0 +1,36 @@
+import crypto from 'crypto';
+import { OcrProvider } from './index';
+import { OCRData } from '../../types/models';
+
+// Deterministic stand-in for tests and offline development.
+// The same image always produces the same text: "Fake OCR <first 8 hex
+// chars of the image's SHA-256>", so results can be asserted exactly.
+export const createFakeProvider = (): OcrProvider => ({
+  name: 'fake',
+
+  recognize: async (image: Buffer): Promise<OCRData> => {
+    const fingerprint = crypto.createHash('sha256').update(image).digest('hex').slice(0, 8);
+    const tokens = ['Fake', 'OCR', fingerprint];
+
+    return {
+      full_text: tokens.join(' '),
+      words: tokens.map((text, index) => ({
+        text,
+        confidence: 1,
+        bounding_box: {
+          vertices: [
+            { x: index * 100, y: 0 },
+            { x: index * 100 + 90, y: 0 },
+            { x: index * 100 + 90, y: 20 },
+            { x: index * 100, y: 20 },
+          ],
+        },
+      })),
+      language: 'en',
+      // Fixed so repeated runs produce identical records
+      detected_at: new Date(0).toISOString(),
+    };
+  },
+
+  healthCheck: async () => {},
+});
@@ -0,0 +1,54 @@
+import vision from '@google-cloud/vision';
+import { OcrProvider } from './index';
+import { OCRData } from '../../types/models';
+
+// Google Cloud Vision text detection
+export const createGoogleVisionProvider = (keyFilename?: string): OcrProvider => {
+  // Created on first use so other providers don't need Google credentials
+  let client: InstanceType<typeof vision.ImageAnnotatorClient> | null = null;
+  const getClient = () => {
+    if (!client) {
+      client = new vision.ImageAnnotatorClient({ keyFilename });
+    }
+    return client;
+  };
+
+  return {
+    name: 'google',
+
+    recognize: async (image: Buffer): Promise<OCRData> => {
+      try {
+        const [result] = await getClient().textDetection({ image: { content: image } });
+        const detections = result.textAnnotations || [];
+
+        // First detection is the full text, the rest are individual words
+        return {
+          full_text: detections[0]?.description || '',
+          words: detections.slice(1).map((text) => ({
+            text: text.description || '',
+            confidence: text.confidence || 0,
+            ...(text.boundingPoly?.vertices && {
+              bounding_box: {
+                vertices: text.boundingPoly.vertices.map((vertex) => ({
+                  x: vertex.x || 0,
+                  y: vertex.y || 0,
+                })),
+              },
+            }),
+          })),
+          ...(detections[0]?.locale && { language: detections[0].locale }),
+          detected_at: new Date().toISOString(),
+        };
+      } catch (error) {
+        console.error('Vision API Error:', error);
+        throw error;
+      }
+    },
+
+    // Resolving the project ID loads and validates the credentials
+    // without sending an image anywhere
+    healthCheck: async () => {
+      await getClient().getProjectId();
+    },
+  };
+};
@@ -0,0 +1,58 @@
+import { OCRData } from '../../types/models';
+import { createGoogleVisionProvider } from './googleVisionProvider';
+import { createTesseractProvider } from './tesseractProvider';
+import { createFakeProvider } from './fakeProvider';
+
+// Turns image bytes into the OCRData shape stored on screenshots
+export interface OcrProvider {
+  readonly name: 'google' | 'tesseract' | 'fake';
+  recognize(image: Buffer): Promise<OCRData>;
+  // Throws if the provider can't be used (missing credentials, binary...)
+  healthCheck(): Promise<void>;
+}
+
+let provider: OcrProvider | null = null;
+
+// Get the configured provider (OCR_PROVIDER=google|tesseract|fake, default google)
+export const getOcrProvider = (): OcrProvider => {
+  if (provider) {
+    return provider;
+  }
+
+  const name = process.env.OCR_PROVIDER || 'google';
+
+  switch (name) {
+    case 'google':
+      provider = createGoogleVisionProvider(process.env.GOOGLE_APPLICATION_CREDENTIALS);
+      break;
+    case 'tesseract':
+      provider = createTesseractProvider({
+        binaryPath: process.env.TESSERACT_PATH || 'tesseract',
+        language: process.env.TESSERACT_LANGUAGE || 'eng',
+        timeoutMs: parseInt(process.env.OCR_TIMEOUT_MS || '60000'),
+      });
+      break;
+    case 'fake':
+      provider = createFakeProvider();
+      break;
+    default:
+      throw new Error(`Unknown OCR_PROVIDER '${name}' (expected 'google', 'tesseract' or 'fake')`);
+  }
+
+  console.log(`🔍 Using ${provider.name} OCR provider`);
+  return provider;
+};
+
+// Check the configured provider is usable
+export const testOcrProvider = async (): Promise<{ provider: string; ok: boolean; error?: string }> => {
+  const ocr = getOcrProvider();
+
+  try {
+    await ocr.healthCheck();
+    console.log(`✅ ${ocr.name} OCR provider is ready`);
+    return { provider: ocr.name, ok: true };
+  } catch (error: any) {
+    console.error(`❌ ${ocr.name} OCR provider check failed:`, error.message);
+    return { provider: ocr.name, ok: false, error: error.message };
+  }
+};
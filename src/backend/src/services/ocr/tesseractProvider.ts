@@ -0,0 +1,95 @@
+import { spawn } from 'child_process';
+import { OcrProvider } from './index';
+import { OCRData, OCRWord } from '../../types/models';
+
+export interface TesseractConfig {
+  binaryPath: string;  // The tesseract CLI (https://github.com/tesseract-ocr/tesseract)
+  language: string;    // Tesseract language code(s), e.g. 'eng' or 'eng+deu'
+  timeoutMs: number;
+}
+
+// Run the CLI, feeding `input` on stdin, and collect stdout
+const run = (config: TesseractConfig, args: string[], input?: Buffer): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const child = spawn(config.binaryPath, args, { timeout: config.timeoutMs });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+
+    child.stdout.on('data', (chunk) => stdout.push(chunk));
+    child.stderr.on('data', (chunk) => stderr.push(chunk));
+    child.on('error', reject);
+    child.on('close', (code, signal) => {
+      if (code === 0) {
+        resolve(Buffer.concat(stdout).toString('utf8'));
+      } else {
+        const detail = Buffer.concat(stderr).toString('utf8').trim();
+        reject(new Error(`tesseract exited with ${signal || code}: ${detail.slice(0, 200)}`));
+      }
+    });
+
+    child.stdin.on('error', () => {});  // Reported through 'close' instead
+    child.stdin.end(input);
+  });
+
+// Parse tesseract's TSV output (one row per page/block/paragraph/line/word)
+// Word rows are level 5; conf is 0-100, or -1 for non-word rows
+export const parseTesseractTsv = (tsv: string): { fullText: string; words: OCRWord[] } => {
+  const words: OCRWord[] = [];
+  const lines = new Map<string, string[]>();
+
+  for (const row of tsv.split('\n').slice(1)) {
+    const [level, page, block, paragraph, line, , left, top, width, height, conf, ...text] = row.split('\t');
+    const word = text.join('\t').trim();
+
+    if (level !== '5' || !word || parseFloat(conf) < 0) {
+      continue;
+    }
+
+    const x = parseInt(left);
+    const y = parseInt(top);
+    const w = parseInt(width);
+    const h = parseInt(height);
+
+    words.push({
+      text: word,
+      confidence: parseFloat(conf) / 100,
+      bounding_box: {
+        vertices: [
+          { x, y },
+          { x: x + w, y },
+          { x: x + w, y: y + h },
+          { x, y: y + h },
+        ],
+      },
+    });
+
+    const lineKey = [page, block, paragraph, line].join('.');
+    lines.set(lineKey, [...(lines.get(lineKey) || []), word]);
+  }
+
+  return {
+    fullText: [...lines.values()].map((lineWords) => lineWords.join(' ')).join('\n'),
+    words,
+  };
+};
+
+// Offline OCR using a locally installed tesseract binary
+export const createTesseractProvider = (config: TesseractConfig): OcrProvider => ({
+  name: 'tesseract',
+
+  recognize: async (image: Buffer): Promise<OCRData> => {
+    const tsv = await run(config, ['stdin', 'stdout', '-l', config.language, 'tsv'], image);
+    const { fullText, words } = parseTesseractTsv(tsv);
+
+    return {
+      full_text: fullText,
+      words,
+      language: config.language,
+      detected_at: new Date().toISOString(),
+    };
+  },
+
+  healthCheck: async () => {
+    await run(config, ['--version']);
+  },
+});
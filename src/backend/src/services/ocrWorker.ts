@@ -0,0 +1,89 @@
+import { getOcrProvider } from './ocr';
+import { loadScreenshotImage } from './screenshotService';
+import { scanChangedScreenshot } from './screenshotRedactionService';
+import { getScreenshotById, updateScreenshot } from '../db/queries';
+import {
+  claimNextOcrJob,
+  completeOcrJob,
+  failOcrJob,
+  requeueStaleOcrJobs,
+} from '../db/ocrJobQueries';
+import { OcrJob } from '../types/models';
+
+const POLL_INTERVAL_MS = parseInt(process.env.OCR_POLL_INTERVAL_MS || '5000');
+const RETRY_BASE_SECONDS = parseInt(process.env.OCR_RETRY_BASE_SECONDS || '30');
+const RETRY_MAX_SECONDS = 60 * 60;
+// A running job older than this is assumed to belong to a dead worker
+const STALE_JOB_SECONDS = 10 * 60;
+
+// Exponential backoff: 30s, 60s, 120s... capped at an hour
+export const retryDelaySeconds = (attempts: number): number =>
+  Math.min(RETRY_BASE_SECONDS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_SECONDS);
+
+// Run OCR for one claimed job and record the outcome
+export const processOcrJob = async (job: OcrJob): Promise<OcrJob> => {
+  try {
+    const screenshot = await getScreenshotById(job.screenshot_id);
+    const ocrData = await getOcrProvider().recognize(await loadScreenshotImage(screenshot));
+
+    await updateScreenshot(screenshot.id, { ocr_data: ocrData });
+    await scanChangedScreenshot(screenshot.id);
+
+    return await completeOcrJob(job.id);
+  } catch (error: any) {
+    console.error(`❌ OCR job ${job.id} (attempt ${job.attempts}) failed:`, error.message);
+    return failOcrJob(job.id, error.message || 'Unknown error', retryDelaySeconds(job.attempts));
+  }
+};
+
+// Process due jobs until the queue is empty
+// @returns Number of jobs processed
+export const drainOcrQueue = async (): Promise<number> => {
+  let processed = 0;
+  let job = await claimNextOcrJob();
+
+  while (job) {
+    await processOcrJob(job);
+    processed++;
+    job = await claimNextOcrJob();
+  }
+
+  return processed;
+};
+
+let timer: NodeJS.Timeout | null = null;
+
+// Poll the queue in the background until stopOcrWorker is called
+export const startOcrWorker = (pollIntervalMs: number = POLL_INTERVAL_MS) => {
+  if (timer) {
+    return;
+  }
+
+  const tick = async () => {
+    try {
+      const recovered = await requeueStaleOcrJobs(STALE_JOB_SECONDS);
+      if (recovered > 0) {
+        console.log(`🔁 Re-queued ${recovered} stale OCR job(s)`);
+      }
+
+      await drainOcrQueue();
+    } catch (error) {
+      console.error('❌ OCR worker error:', error);
+    }
+
+    // stopOcrWorker may have run while we were busy
+    if (timer) {
+      timer = setTimeout(tick, pollIntervalMs);
+    }
+  };
+
+  timer = setTimeout(tick, 0);
+  console.log(`🧾 OCR worker started (polling every ${pollIntervalMs}ms)`);
+};
+
+export const stopOcrWorker = () => {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+};
@@ -0,0 +1,126 @@
+import { getActionById } from '../db/queries';
+import { getActionSequenceById } from '../db/hierarchyQueries';
+import { transitionWorkflow } from '../db/workflowQueries';
+import { assertEntityInWorkspace, getEffectiveRole } from '../db/workspaceQueries';
+import { roleAllows } from '../middleware/permissions';
+import {
+  Action,
+  ActionSequence,
+  WorkflowEntityType,
+  WorkspaceRole,
+} from '../types/models';
+import { ForbiddenError, ValidationError } from '../utils/errors';
+
+const ENTITY_NAMES: Record<WorkflowEntityType, string> = {
+  action: 'action',
+  action_sequence: 'sequence',
+};
+
+const getWorkflowItem = (entityType: WorkflowEntityType, id: number): Promise<Action | ActionSequence> =>
+  entityType === 'action' ? getActionById(id) : getActionSequenceById(id);
+
+// Only the assigned reviewer, or a workspace owner, can decide on a review
+const assertCanReview = async (
+  entityType: WorkflowEntityType,
+  id: number,
+  userId: number,
+  workspaceRole: WorkspaceRole
+): Promise<void> => {
+  const item = await getWorkflowItem(entityType, id);
+
+  if (item.status === 'in_review' && item.reviewer_id !== userId && workspaceRole !== 'owner') {
+    throw new ForbiddenError(
+      `Only the assigned reviewer or a workspace owner can review this ${ENTITY_NAMES[entityType]}`
+    );
+  }
+};
+
+/**
+ * Submit a draft (or archived item) for review by another editor.
+ * The reviewer must be able to edit the item.
+ */
+export const submitForReview = async (
+  entityType: WorkflowEntityType,
+  id: number,
+  workspaceId: number,
+  reviewerId: number
+): Promise<Action | ActionSequence> => {
+  const scope = await assertEntityInWorkspace(entityType, id, workspaceId);
+  const reviewerRole = await getEffectiveRole(workspaceId, reviewerId, scope.system_id);
+
+  if (!reviewerRole || !roleAllows(reviewerRole, 'write')) {
+    throw new ValidationError('Invalid reviewer', {
+      reviewer_id: `Reviewer must be a workspace member who can edit this ${ENTITY_NAMES[entityType]}`,
+    });
+  }
+
+  return transitionWorkflow(entityType, id, {
+    from: ['draft', 'archived'],
+    to: 'in_review',
+    reviewerId,
+    notes: null,
+  });
+};
+
+/**
+ * Approve an item under review: its current content becomes the published
+ * version viewers see
+ */
+export const approveReview = async (
+  entityType: WorkflowEntityType,
+  id: number,
+  userId: number,
+  workspaceRole: WorkspaceRole,
+  notes?: string
+): Promise<Action | ActionSequence> => {
+  await assertCanReview(entityType, id, userId, workspaceRole);
+
+  return transitionWorkflow(entityType, id, {
+    from: ['in_review'],
+    to: 'published',
+    reviewedBy: userId,
+    notes: notes || null,
+    publish: true,
+  });
+};
+
+/**
+ * Send an item under review back to draft with the reviewer's comments.
+ * Any previously published version stays live.
+ */
+export const requestChanges = async (
+  entityType: WorkflowEntityType,
+  id: number,
+  userId: number,
+  workspaceRole: WorkspaceRole,
+  notes: string
+): Promise<Action | ActionSequence> => {
+  if (!notes.trim()) {
+    throw new ValidationError('Notes are required', {
+      notes: 'Describe the changes needed',
+    });
+  }
+
+  await assertCanReview(entityType, id, userId, workspaceRole);
+
+  return transitionWorkflow(entityType, id, {
+    from: ['in_review'],
+    to: 'draft',
+    reviewedBy: userId,
+    notes: notes.trim(),
+  });
+};
+
+/**
+ * Withdraw an item: viewers stop seeing it. Submitting it for review again
+ * brings it back.
+ */
+export const archiveItem = (
+  entityType: WorkflowEntityType,
+  id: number
+): Promise<Action | ActionSequence> =>
+  transitionWorkflow(entityType, id, {
+    from: ['draft', 'in_review', 'published'],
+    to: 'archived',
+    unpublish: true,
+  });
@@ -0,0 +1,303 @@
+import {
+  getActionRiskRows,
+  getUnassignedTaskRows,
+  getSequenceStepRows,
+  RiskScope,
+  SequenceStepRow,
+} from '../db/analyticsQueries';
+import {
+  ActionFrequency,
+  RiskFinding,
+  RiskFindingType,
+  RiskLevel,
+  RiskReport,
+  RiskReportSystem,
+} from '../types/models';
+import { toCsv } from '../utils/csv';
+
+// A sequence is flagged once its steps involve this many systems
+export const DEFAULT_MIN_SEQUENCE_SYSTEMS = 3;
+
+// Base score per finding; action findings are weighted by how often the action runs
+const BASE_SCORES: Record<RiskFindingType, number> = {
+  single_role_action: 3,
+  unassigned_task: 2,
+  multi_system_sequence: 1,  // Per system involved and per hand-off
+  undocumented_action: 2,
+};
+
+const FREQUENCY_WEIGHTS: Partial<Record<ActionFrequency, number>> = {
+  daily: 2,
+  weekly: 1.5,
+};
+
+const MAX_SEQUENCE_SCORE = 10;
+
+// Department/system score at which the risk level goes up
+const RISK_LEVEL_THRESHOLDS: Array<[RiskLevel, number]> = [
+  ['high', 20],
+  ['medium', 8],
+];
+
+const riskLevel = (score: number): RiskLevel =>
+  RISK_LEVEL_THRESHOLDS.find(([, threshold]) => score >= threshold)?.[0] || 'low';
+
+const round = (score: number): number => Math.round(score * 10) / 10;
+
+const frequencyWeight = (frequency: ActionFrequency | null): number =>
+  (frequency && FREQUENCY_WEIGHTS[frequency]) || 1;
+
+// ============================================================================
+// SEQUENCE ANALYSIS
+// ============================================================================
+
+interface SequenceAnalysis {
+  scope: RiskScope;
+  sequence_id: number;
+  name: string;
+  systems: Set<number>;
+  handoffs: number;
+}
+
+/**
+ * Count the systems a sequence's steps involve and its hand-offs: consecutive
+ * steps that switch system or change responsible role
+ */
+export const analyzeSequences = (rows: SequenceStepRow[]): SequenceAnalysis[] => {
+  const sequences = new Map<number, SequenceAnalysis>();
+  const previous = new Map<number, SequenceStepRow>();
+
+  for (const row of rows) {
+    let sequence = sequences.get(row.sequence_id);
+    if (!sequence) {
+      sequence = {
+        scope: {
+          system_id: row.system_id,
+          system_name: row.system_name,
+          department_id: row.department_id,
+          department_name: row.department_name,
+        },
+        sequence_id: row.sequence_id,
+        name: row.sequence_name,
+        systems: new Set(),
+        handoffs: 0,
+      };
+      sequences.set(row.sequence_id, sequence);
+    }
+
+    if (row.action_system_id !== null) sequence.systems.add(row.action_system_id);
+    for (const systemId of row.systems_touched || []) sequence.systems.add(systemId);
+
+    const prior = previous.get(row.sequence_id);
+    if (prior) {
+      const switchesSystem = prior.action_system_id !== row.action_system_id;
+      const switchesRole = prior.responsible_role_id !== null
+        && row.responsible_role_id !== null
+        && prior.responsible_role_id !== row.responsible_role_id;
+
+      if (switchesSystem || switchesRole) sequence.handoffs++;
+    }
+    previous.set(row.sequence_id, row);
+  }
+
+  return [...sequences.values()];
+};
+
+// ============================================================================
+// REPORT
+// ============================================================================
+
+export interface RiskReportOptions {
+  systemId?: number;
+  minSequenceSystems?: number;
+  publishedOnly?: boolean;  // Report on actions and sequences as published
+}
+
+/**
+ * Build the bottleneck / single-point-of-failure report for a workspace,
+ * grouped and scored per system and department
+ */
+export const buildRiskReport = async (
+  workspaceId: number,
+  options: RiskReportOptions = {}
+): Promise<RiskReport> => {
+  const systemId = options.systemId ?? null;
+  const minSequenceSystems = options.minSequenceSystems ?? DEFAULT_MIN_SEQUENCE_SYSTEMS;
+  const publishedOnly = options.publishedOnly ?? false;
+
+  const [actions, tasks, sequenceSteps] = await Promise.all([
+    getActionRiskRows(workspaceId, systemId, publishedOnly),
+    getUnassignedTaskRows(workspaceId, systemId, publishedOnly),
+    getSequenceStepRows(workspaceId, systemId, publishedOnly),
+  ]);
+
+  const scoped: Array<{ scope: RiskScope; finding: RiskFinding }> = [];
+  const unscoped: RiskFinding[] = [];
+
+  for (const action of actions) {
+    const weight = frequencyWeight(action.frequency);
+
+    if (action.role_names.length === 1) {
+      scoped.push({
+        scope: action,
+        finding: {
+          type: 'single_role_action',
+          entity_type: 'action',
+          entity_id: action.action_id,
+          title: action.title,
+          score: round(BASE_SCORES.single_role_action * weight),
+          detail: `Only performed by ${action.role_names[0]}`,
+        },
+      });
+    }
+
+    if (action.step_count === 0) {
+      scoped.push({
+        scope: action,
+        finding: {
+          type: 'undocumented_action',
+          entity_type: 'action',
+          entity_id: action.action_id,
+          title: action.title,
+          score: round(BASE_SCORES.undocumented_action * weight),
+          detail: 'No documentation steps',
+        },
+      });
+    }
+  }
+
+  for (const task of tasks) {
+    const finding: RiskFinding = {
+      type: 'unassigned_task',
+      entity_type: 'task',
+      entity_id: task.task_id,
+      title: task.name,
+      score: BASE_SCORES.unassigned_task,
+      detail: task.action_count > 0
+        ? `No role assigned (${task.action_count} action(s) here)`
+        : 'No role assigned and no actions linked',
+    };
+
+    if (task.system_id === null) {
+      unscoped.push(finding);
+    } else {
+      scoped.push({ scope: task, finding });
+    }
+  }
+
+  for (const sequence of analyzeSequences(sequenceSteps)) {
+    if (sequence.systems.size < minSequenceSystems || sequence.handoffs === 0) continue;
+
+    scoped.push({
+      scope: sequence.scope,
+      finding: {
+        type: 'multi_system_sequence',
+        entity_type: 'action_sequence',
+        entity_id: sequence.sequence_id,
+        title: sequence.name,
+        score: Math.min(
+          MAX_SEQUENCE_SCORE,
+          BASE_SCORES.multi_system_sequence * (sequence.systems.size + sequence.handoffs)
+        ),
+        detail: `Spans ${sequence.systems.size} systems with ${sequence.handoffs} hand-off(s)`,
+      },
+    });
+  }
+
+  // Group by system, then department
+  const systems = new Map<number, RiskReportSystem>();
+  for (const { scope, finding } of scoped) {
+    const scopeSystemId = scope.system_id as number;
+    let system = systems.get(scopeSystemId);
+    if (!system) {
+      system = {
+        system_id: scopeSystemId,
+        system_name: scope.system_name || '',
+        score: 0,
+        risk_level: 'low',
+        departments: [],
+      };
+      systems.set(scopeSystemId, system);
+    }
+
+    let department = system.departments.find((candidate) => candidate.department_id === scope.department_id);
+    if (!department) {
+      department = {
+        department_id: scope.department_id,
+        department_name: scope.department_name,
+        score: 0,
+        risk_level: 'low',
+        findings: [],
+      };
+      system.departments.push(department);
+    }
+
+    department.findings.push(finding);
+    department.score = round(department.score + finding.score);
+    system.score = round(system.score + finding.score);
+  }
+
+  const findingsByType: Record<RiskFindingType, number> = {
+    single_role_action: 0,
+    unassigned_task: 0,
+    multi_system_sequence: 0,
+    undocumented_action: 0,
+  };
+  for (const finding of [...scoped.map((item) => item.finding), ...unscoped]) {
+    findingsByType[finding.type]++;
+  }
+
+  const sortedSystems = [...systems.values()]
+    .map((system) => ({
+      ...system,
+      risk_level: riskLevel(system.score),
+      departments: system.departments
+        .map((department) => ({
+          ...department,
+          risk_level: riskLevel(department.score),
+          findings: department.findings.sort((a, b) => b.score - a.score),
+        }))
+        .sort((a, b) => b.score - a.score),
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  return {
+    workspace_id: workspaceId,
+    system_id: systemId,
+    generated_at: new Date().toISOString(),
+    score: round(sortedSystems.reduce((sum, system) => sum + system.score, 0)
+      + unscoped.reduce((sum, finding) => sum + finding.score, 0)),
+    findings_by_type: findingsByType,
+    systems: sortedSystems,
+    unscoped_findings: unscoped,
+  };
+};
+
+/**
+ * Flatten a report to one CSV row per finding
+ */
+export const riskReportToCsv = (report: RiskReport): string => {
+  const rows = [
+    ...report.systems.flatMap((system) =>
+      system.departments.flatMap((department) =>
+        department.findings.map((finding) => ({
+          system: system.system_name,
+          department: department.department_name,
+          department_risk_level: department.risk_level,
+          ...finding,
+        }))
+      )
+    ),
+    ...report.unscoped_findings.map((finding) => ({
+      system: null,
+      department: null,
+      department_risk_level: null,
+      ...finding,
+    })),
+  ];
+
+  return toCsv(
+    ['system', 'department', 'department_risk_level', 'type', 'entity_type', 'entity_id', 'title', 'score', 'detail'],
+    rows
+  );
+};
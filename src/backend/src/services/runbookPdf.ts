@@ -0,0 +1,345 @@
+import { Runbook, RunbookEntry } from './runbookService';
+import { DocumentedScreenshot } from './documentationService';
+import { loadExportImage } from './screenshotAnnotationService';
+import { operationalFacts } from './siteExport/layout';
+import { LinkWithContext, getAuthRequiredLabel } from '../types/links';
+import {
+  PdfDocument,
+  PdfFont,
+  PdfImage,
+  PdfPage,
+  Rgb,
+  createPdf,
+  loadPdfImage,
+  measureText,
+  wrapText,
+} from '../utils/pdf';
+
+const MARGIN = 56;
+const FOOTER_SPACE = 36;
+const LEADING = 1.35;
+const STEP_INDENT = 30;
+const MAX_IMAGE_HEIGHT = 340;
+const IMAGE_SCALE = 0.75;  // Screenshot pixels are CSS pixels: 96 per inch, PDF has 72
+
+const TEXT: Rgb = [0.12, 0.16, 0.2];
+const MUTED: Rgb = [0.42, 0.47, 0.53];
+const LINK: Rgb = [0.04, 0.41, 0.64];
+const RULE: Rgb = [0.85, 0.87, 0.9];
+const TABLE_HEADER: Rgb = [0.94, 0.95, 0.96];
+
+// ============================================================================
+// FLOW LAYOUT
+// ============================================================================
+
+/**
+ * Writes content top to bottom, starting a new page when the next piece
+ * doesn't fit
+ */
+const createFlow = (pdf: PdfDocument) => {
+  let page: PdfPage = pdf.addPage();
+  let y = MARGIN;
+  const width = page.width - MARGIN * 2;
+  const bottom = page.height - MARGIN - FOOTER_SPACE;
+
+  const newPage = () => {
+    page = pdf.addPage();
+    y = MARGIN;
+  };
+
+  // Start a new page unless `height` more points fit on this one
+  const ensure = (height: number) => {
+    if (y + height > bottom && y > MARGIN) newPage();
+  };
+
+  const text = (
+    content: string,
+    options: { font?: PdfFont; size?: number; fill?: Rgb; indent?: number; after?: number } = {}
+  ) => {
+    const { font = 'regular', size = 10.5, fill = TEXT, indent = 0, after = 4 } = options;
+    const lineHeight = size * LEADING;
+
+    for (const line of wrapText(content, font, size, width - indent)) {
+      ensure(lineHeight);
+      page.text(MARGIN + indent, y + size, line, font, size, fill);
+      y += lineHeight;
+    }
+    y += after;
+  };
+
+  const space = (height: number) => {
+    y += height;
+  };
+
+  const rule = () => {
+    ensure(12);
+    page.line(MARGIN, y + 4, MARGIN + width, y + 4, RULE);
+    y += 12;
+  };
+
+  const image = (pdfImage: PdfImage, indent: number) => {
+    const scale = Math.min(IMAGE_SCALE, (width - indent) / pdfImage.width, MAX_IMAGE_HEIGHT / pdfImage.height);
+    const imageWidth = pdfImage.width * scale;
+    const imageHeight = pdfImage.height * scale;
+
+    ensure(imageHeight + 4);
+    page.image(pdfImage, MARGIN + indent, y, imageWidth, imageHeight);
+    page.line(MARGIN + indent, y + imageHeight, MARGIN + indent + imageWidth, y + imageHeight, RULE);
+    y += imageHeight + 4;
+  };
+
+  return {
+    width,
+    bottom,
+    text,
+    space,
+    rule,
+    image,
+    ensure,
+    newPage,
+    get page() { return page; },
+    get y() { return y; },
+    set y(value: number) { y = value; },
+  };
+};
+
+type Flow = ReturnType<typeof createFlow>;
+
+// ============================================================================
+// RUNBOOK CONTENT
+// ============================================================================
+
+/**
+ * Loads each screenshot once, however many steps show it, with its
+ * annotations drawn over it
+ * @returns null (and logs why) when the file can't be read or isn't a
+ *   format PDF can embed
+ */
+const createImageLoader = () => {
+  const images = new Map<number, Promise<PdfImage | null>>();
+
+  return ({ screenshot, annotations }: DocumentedScreenshot): Promise<PdfImage | null> => {
+    if (!images.has(screenshot.id)) {
+      images.set(screenshot.id, loadExportImage(screenshot, annotations)
+        .then(loadPdfImage)
+        .catch((error) => {
+          console.error(`Failed to read screenshot ${screenshot.id} for runbook:`, error);
+          return null;
+        }));
+    }
+    return images.get(screenshot.id)!;
+  };
+};
+
+type ImageLoader = ReturnType<typeof createImageLoader>;
+
+const screenshotFigure = async (
+  flow: Flow,
+  loadImage: ImageLoader,
+  documented: DocumentedScreenshot,
+  indent: number
+) => {
+  const { screenshot, caption } = documented;
+  const pdfImage = await loadImage(documented);
+
+  if (pdfImage) {
+    flow.image(pdfImage, indent);
+  } else {
+    const name = screenshot.original_filename || `screenshot ${screenshot.id}`;
+    flow.text(`[${name} could not be included]`, { font: 'italic', size: 9, fill: MUTED, indent });
+  }
+
+  if (caption) flow.text(caption, { font: 'italic', size: 9, fill: MUTED, indent });
+  flow.space(6);
+};
+
+const renderEntry = async (flow: Flow, loadImage: ImageLoader, entry: RunbookEntry, number: number) => {
+  const { action, responsible_role, screenshots, notes } = entry;
+  const byId = new Map(screenshots.map((documented) => [documented.screenshot.id, documented]));
+  const shownInSteps = new Set<number>();
+
+  // Keep the heading with at least the start of what follows
+  flow.ensure(80);
+  flow.text(`${number}. ${action.title}`, { font: 'bold', size: 13, after: 4 });
+  if (notes) flow.text(`Note: ${notes}`, { font: 'italic', size: 10, fill: MUTED });
+  if (action.description) flow.text(action.description);
+
+  const facts = operationalFacts(action, responsible_role).map(([label, value]) => `${label}: ${value}`);
+  if (facts.length > 0) flow.text(facts.join('  ·  '), { size: 9, fill: MUTED });
+  flow.space(4);
+
+  const steps = [...(action.steps || [])].sort((a, b) => a.step_number - b.step_number);
+
+  if (steps.length === 0) {
+    flow.text('No steps documented.', { font: 'italic', size: 10, fill: MUTED });
+  }
+
+  for (const step of steps) {
+    const label = `${number}.${step.step_number}`;
+    const lines = wrapText(step.instruction, 'regular', 10.5, flow.width - STEP_INDENT);
+
+    flow.ensure(10.5 * LEADING * Math.min(lines.length, 2));
+    flow.page.text(MARGIN, flow.y + 10.5, label, 'bold', 10.5, TEXT);
+    flow.text(step.instruction, { indent: STEP_INDENT, after: 2 });
+    if (step.notes) flow.text(step.notes, { font: 'italic', size: 9.5, fill: MUTED, indent: STEP_INDENT });
+
+    const documented = step.screenshot_id !== undefined ? byId.get(step.screenshot_id) : undefined;
+    if (documented) {
+      shownInSteps.add(documented.screenshot.id);
+      flow.space(2);
+      await screenshotFigure(flow, loadImage, documented, STEP_INDENT);
+    } else {
+      flow.space(4);
+    }
+  }
+
+  const otherScreenshots = screenshots.filter(({ screenshot }) => !shownInSteps.has(screenshot.id));
+
+  if (otherScreenshots.length > 0) {
+    flow.ensure(60);
+    flow.text('Screenshots', { font: 'bold', size: 10.5, after: 4 });
+    for (const documented of otherScreenshots) {
+      await screenshotFigure(flow, loadImage, documented, 0);
+    }
+  }
+
+  flow.space(10);
+};
+
+// ============================================================================
+// RELATED LINKS TABLE
+// ============================================================================
+
+const LINK_COLUMNS = [
+  { title: 'Link', share: 0.28 },
+  { title: 'Address', share: 0.42 },
+  { title: 'Access', share: 0.15 },
+  { title: 'Used in', share: 0.15 },
+];
+const CELL_PADDING = 4;
+const TABLE_SIZE = 8.5;
+
+const renderLinksTable = (flow: Flow, links: Array<{ link: LinkWithContext; usedIn: number[] }>) => {
+  const widths = LINK_COLUMNS.map(({ share }) => share * flow.width);
+  const lineHeight = TABLE_SIZE * LEADING;
+
+  const row = (cells: string[], fonts: PdfFont[], fills: Rgb[], background?: Rgb, url?: string) => {
+    const wrapped = cells.map((cell, i) => wrapText(cell, fonts[i], TABLE_SIZE, widths[i] - CELL_PADDING * 2));
+    const height = Math.max(...wrapped.map((lines) => lines.length)) * lineHeight + CELL_PADDING * 2;
+
+    if (flow.y + height > flow.bottom) {
+      flow.newPage();
+      if (!background) header();
+    }
+
+    const top = flow.y;
+    if (background) flow.page.rect(MARGIN, top, flow.width, height, background);
+
+    let x = MARGIN;
+    wrapped.forEach((lines, i) => {
+      lines.forEach((line, n) => {
+        flow.page.text(x + CELL_PADDING, top + CELL_PADDING + n * lineHeight + TABLE_SIZE, line, fonts[i], TABLE_SIZE, fills[i]);
+      });
+      if (url && i === 1) flow.page.link(x, top, widths[i], height, url);
+      x += widths[i];
+    });
+
+    flow.page.line(MARGIN, top + height, MARGIN + flow.width, top + height, RULE);
+    flow.y = top + height;
+  };
+
+  const header = () => row(
+    LINK_COLUMNS.map(({ title }) => title),
+    ['bold', 'bold', 'bold', 'bold'],
+    [TEXT, TEXT, TEXT, TEXT],
+    TABLE_HEADER
+  );
+
+  flow.ensure(80);
+  flow.text('Related links', { font: 'bold', size: 15, after: 6 });
+  header();
+
+  for (const { link, usedIn } of links) {
+    const title = link.context_notes || link.description
+      ? `${link.title}\n${link.context_notes || link.description}`
+      : link.title;
+
+    row(
+      [title, link.url, getAuthRequiredLabel(link.auth_required), usedIn.join(', ')],
+      ['regular', 'regular', 'regular', 'regular'],
+      [TEXT, LINK, MUTED, MUTED],
+      undefined,
+      link.url
+    );
+  }
+};
+
+// ============================================================================
+// DOCUMENT
+// ============================================================================
+
+/**
+ * Render a runbook as a printable PDF: a title block, then each action
+ * numbered in order with its steps, screenshots and captions, and a table
+ * of every link the actions refer to at the end
+ */
+export const renderRunbookPdf = async (runbook: Runbook): Promise<Buffer> => {
+  const pdf = createPdf({ title: runbook.title });
+  const flow = createFlow(pdf);
+  const loadImage = createImageLoader();
+  const links = new Map<number, { link: LinkWithContext; usedIn: number[] }>();
+
+  flow.text(runbook.kind === 'sequence' ? 'ACTION SEQUENCE RUNBOOK' : 'ROLE RUNBOOK', { font: 'bold', size: 8.5, fill: MUTED, after: 2 });
+  flow.text(runbook.title, { font: 'bold', size: 22, after: 2 });
+  flow.text(
+    `${runbook.version === 'published' ? 'Published' : 'Current'} version, generated ${runbook.generated_at.slice(0, 10)}`,
+    { size: 9, fill: MUTED, after: 8 }
+  );
+  if (runbook.description) flow.text(runbook.description, { after: 6 });
+  for (const [label, value] of runbook.facts) {
+    flow.text(`${label}: ${value}`, { size: 9.5, after: 1 });
+  }
+  flow.space(4);
+  flow.rule();
+
+  let number = 0;
+
+  for (const section of runbook.sections) {
+    if (section.title) {
+      flow.ensure(100);
+      flow.text(section.title, { font: 'bold', size: 16, after: 2 });
+      if (section.description) flow.text(section.description, { fill: MUTED });
+      flow.space(6);
+    }
+
+    if (section.entries.length === 0) {
+      flow.text('No actions yet.', { font: 'italic', size: 10, fill: MUTED, after: 12 });
+    }
+
+    for (const entry of section.entries) {
+      number++;
+      await renderEntry(flow, loadImage, entry, number);
+
+      for (const link of entry.links) {
+        if (!links.has(link.id)) links.set(link.id, { link, usedIn: [] });
+        const usedIn = links.get(link.id)!.usedIn;
+        if (!usedIn.includes(number)) usedIn.push(number);
+      }
+    }
+  }
+
+  if (links.size > 0) {
+    flow.rule();
+    renderLinksTable(flow, [...links.values()]);
+  }
+
+  // Footers go on last, once the page count is known
+  pdf.pages.forEach((page, index) => {
+    const footerY = page.height - MARGIN + 10;
+    const pageLabel = `Page ${index + 1} of ${pdf.pages.length}`;
+    page.text(MARGIN, footerY, runbook.title, 'regular', 8, MUTED);
+    page.text(page.width - MARGIN - measureText(pageLabel, 'regular', 8), footerY, pageLabel, 'regular', 8, MUTED);
+  });
+
+  return pdf.toBuffer();
+};
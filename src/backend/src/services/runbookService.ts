@@ -0,0 +1,105 @@
+import * as queries from '../db/queries';
+import * as hierarchyQueries from '../db/hierarchyQueries';
+import * as workflowQueries from '../db/workflowQueries';
+import { DocumentedAction, createActionLoader, fetchAll } from './documentationService';
+import { operationalFacts } from './siteExport/layout';
+import { NotFoundError } from '../utils/errors';
+
+/**
+ * An action as it appears in a runbook, with the notes the sequence or task
+ * adds to it
+ */
+export interface RunbookEntry extends DocumentedAction {
+  notes: string | null;
+}
+
+export interface RunbookSection {
+  title: string | null;  // Task name; null for a sequence's single section
+  description: string | null;
+  entries: RunbookEntry[];
+}
+
+/**
+ * A printable, ordered walk through a sequence or a role's tasks
+ */
+export interface Runbook {
+  kind: 'sequence' | 'role';
+  title: string;
+  description: string | null;
+  facts: Array<[string, string]>;
+  sections: RunbookSection[];
+  version: 'published' | 'current';
+  generated_at: string;
+}
+
+/**
+ * Runbook for an action sequence: its actions in order, with the notes
+ * the sequence gives each one
+ * @param published - Use the published sequence and actions, as viewers see them
+ * @throws NotFoundError if the sequence doesn't exist (or, for the
+ *   published version, was never published)
+ */
+export const loadSequenceRunbook = async (sequenceId: number, published: boolean): Promise<Runbook> => {
+  const sequence = published
+    ? await workflowQueries.getPublishedSequence(sequenceId)
+    : await hierarchyQueries.getActionSequenceWithActions(sequenceId);
+
+  const responsibleRole = sequence.responsible_role_id
+    ? await queries.getRoleById(sequence.responsible_role_id).catch((error) => {
+      if (error instanceof NotFoundError) return null;
+      throw error;
+    })
+    : null;
+
+  const documented = await createActionLoader()(sequence.actions.map(({ action }) => action));
+
+  return {
+    kind: 'sequence',
+    title: sequence.name,
+    description: sequence.description,
+    facts: operationalFacts(sequence, responsibleRole),
+    sections: [{
+      title: null,
+      description: null,
+      entries: documented.map((entry, index) => ({ ...entry, notes: sequence.actions[index].notes })),
+    }],
+    version: published ? 'published' : 'current',
+    generated_at: new Date().toISOString(),
+  };
+};
+
+/**
+ * Runbook for a role: each of its tasks in order, with the task's actions
+ * @param published - Leave out actions that were never published and use
+ *   the published version of the rest
+ * @throws NotFoundError if the role doesn't exist
+ */
+export const loadRoleRunbook = async (roleId: number, published: boolean): Promise<Runbook> => {
+  const role = await queries.getRoleById(roleId);
+  const tasks = await fetchAll((options) => queries.getTasksForRole(roleId, options));
+  const documentActions = createActionLoader();
+  const sections: RunbookSection[] = [];
+
+  for (const task of tasks) {
+    const actions = await fetchAll((options) => published
+      ? workflowQueries.getPublishedActionsForTask(task.id, options)
+      : queries.getActionsForTask(task.id, options));
+    const documented = await documentActions(actions);
+
+    sections.push({
+      title: task.name,
+      description: task.description,
+      entries: documented.map((entry, index) => ({ ...entry, notes: actions[index].notes })),
+    });
+  }
+
+  return {
+    kind: 'role',
+    title: role.name,
+    description: role.description,
+    facts: [['Tasks', String(tasks.length)]],
+    sections,
+    version: published ? 'published' : 'current',
+    generated_at: new Date().toISOString(),
+  };
+};
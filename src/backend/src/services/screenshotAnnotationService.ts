@@ -0,0 +1,207 @@
+import * as annotationQueries from '../db/screenshotAnnotationQueries';
+import { getActionById, getScreenshotById } from '../db/queries';
+import { loadDisplayImage } from './screenshotRedactionService';
+import {
+  CreateScreenshotAnnotationInput,
+  Screenshot,
+  ScreenshotAnnotation,
+  ScreenshotAnnotationType,
+  UpdateScreenshotAnnotationInput,
+} from '../types/models';
+import {
+  blurRect,
+  decodeImage,
+  drawLine,
+  drawNumber,
+  encodePng,
+  fillCircle,
+  fillRect,
+  fillTriangle,
+  parseHexColor,
+  strokeRect,
+} from '../utils/raster';
+import { validateCreateScreenshotAnnotation, validateUpdateScreenshotAnnotation } from '../utils/validation';
+import { ValidationError } from '../utils/errors';
+
+// ============================================================================
+// CREATE / UPDATE
+// ============================================================================
+
+// A callout marks one of the steps of the screenshot's action
+const assertStepExists = async (screenshotId: number, stepNumber: number | null | undefined): Promise<void> => {
+  if (stepNumber === undefined || stepNumber === null) return;
+
+  const screenshot = await getScreenshotById(screenshotId);
+  const action = await getActionById(screenshot.action_id);
+
+  if (!(action.steps || []).some((step) => step.step_number === stepNumber)) {
+    throw new ValidationError('Invalid annotation data', {
+      step_number: `Action ${action.id} has no step ${stepNumber}`,
+    });
+  }
+};
+
+/**
+ * Validate and create an annotation on a screenshot
+ * @throws NotFoundError if the screenshot doesn't exist
+ * @throws ValidationError if a field is invalid, or a callout's step isn't
+ *   one of the action's steps
+ */
+export const createScreenshotAnnotation = async (
+  input: CreateScreenshotAnnotationInput
+): Promise<ScreenshotAnnotation> => {
+  validateCreateScreenshotAnnotation(input);
+  await assertStepExists(input.screenshot_id, input.step_number);
+  return annotationQueries.createScreenshotAnnotation(input);
+};
+
+/**
+ * Validate and apply changes to one of a screenshot's annotations. A type
+ * is accepted only to reject changing it.
+ * @throws NotFoundError, ValidationError
+ */
+export const updateScreenshotAnnotation = async (
+  screenshotId: number,
+  id: number,
+  { type, ...changes }: UpdateScreenshotAnnotationInput & { type?: ScreenshotAnnotationType }
+): Promise<ScreenshotAnnotation> => {
+  const current = await annotationQueries.getScreenshotAnnotation(screenshotId, id);
+
+  validateUpdateScreenshotAnnotation({ ...changes, type }, current);
+  if (changes.step_number !== current.step_number) {
+    await assertStepExists(screenshotId, changes.step_number);
+  }
+
+  return annotationQueries.updateScreenshotAnnotation(screenshotId, id, changes);
+};
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+const DEFAULT_COLORS: Record<ScreenshotAnnotationType, string> = {
+  callout: '#E53935',
+  arrow: '#E53935',
+  highlight: '#FDD835',
+  blur: '#000000',    // Unused: blurs have no colour
+  redact: '#000000',
+};
+
+// Hiding comes first so nothing drawn afterwards is blurred or covered;
+// callouts go on top of everything
+const DRAW_ORDER: ScreenshotAnnotationType[] = ['blur', 'redact', 'highlight', 'arrow', 'callout'];
+
+const WHITE = { r: 255, g: 255, b: 255 };
+
+/**
+ * Draw annotations over an image. Marks are sized relative to the image so
+ * they read the same on a phone capture and a wide-screen one.
+ * @returns The annotated image as PNG, or null if the image isn't a format
+ *   that can be drawn on (only PNG and baseline JPEG can)
+ */
+export const renderAnnotations = (image: Buffer, annotations: ScreenshotAnnotation[]): Buffer | null => {
+  const raster = decodeImage(image);
+  if (!raster) return null;
+
+  const scale = Math.min(raster.width, raster.height);
+  const thickness = Math.max(3, Math.round(scale * 0.005));
+  const calloutRadius = Math.max(12, Math.round(scale * 0.022));
+  const arrowHead = thickness * 4;
+
+  const ordered = DRAW_ORDER.flatMap((type) => annotations.filter((annotation) => annotation.type === type));
+
+  for (const annotation of ordered) {
+    const color = parseHexColor(annotation.color || DEFAULT_COLORS[annotation.type]);
+    const rect = { x: annotation.x, y: annotation.y, width: annotation.width || 0, height: annotation.height || 0 };
+
+    switch (annotation.type) {
+      case 'blur':
+        blurRect(raster, rect, Math.min(24, Math.max(6, Math.min(rect.width, rect.height) / 3)));
+        break;
+
+      case 'redact':
+        fillRect(raster, rect, color);
+        break;
+
+      case 'highlight':
+        fillRect(raster, rect, color, 0.2);
+        strokeRect(raster, rect, color, thickness);
+        break;
+
+      case 'arrow': {
+        const tip = { x: annotation.end_x!, y: annotation.end_y! };
+        const dx = tip.x - annotation.x;
+        const dy = tip.y - annotation.y;
+        const length = Math.hypot(dx, dy) || 1;
+        const ux = dx / length;
+        const uy = dy / length;
+        const head = Math.min(arrowHead, length);
+        const base = { x: tip.x - ux * head, y: tip.y - uy * head };
+
+        drawLine(raster, { x: annotation.x, y: annotation.y }, base, thickness, color);
+        fillTriangle(raster, [
+          tip,
+          { x: base.x - uy * head * 0.6, y: base.y + ux * head * 0.6 },
+          { x: base.x + uy * head * 0.6, y: base.y - ux * head * 0.6 },
+        ], color);
+        break;
+      }
+
+      case 'callout': {
+        const center = { x: annotation.x, y: annotation.y };
+        fillCircle(raster, center, calloutRadius + 2, WHITE);
+        fillCircle(raster, center, calloutRadius, color);
+        drawNumber(raster, annotation.step_number!, center, calloutRadius * 1.1, WHITE);
+        break;
+      }
+    }
+  }
+
+  return encodePng(raster);
+};
+
+/**
+ * Render a screenshot with its annotations drawn over it
+ * @returns The annotated image as PNG
+ * @throws NotFoundError if the screenshot doesn't exist
+ * @throws ForbiddenError if it has sensitive text that couldn't be redacted
+ * @throws ValidationError if its image format can't be drawn on
+ */
+export const renderAnnotatedScreenshot = async (screenshotId: number): Promise<Buffer> => {
+  const screenshot = await getScreenshotById(screenshotId);
+  const annotations = await annotationQueries.getAnnotationsByScreenshotId(screenshotId);
+  const rendered = renderAnnotations(await loadDisplayImage(screenshot), annotations);
+
+  if (!rendered) {
+    throw new ValidationError(
+      `Screenshot ${screenshotId} can't be annotated: only PNG and non-progressive JPEG images can be drawn on`
+    );
+  }
+
+  return rendered;
+};
+
+/**
+ * The image exports show for a screenshot: annotated when it has
+ * annotations, otherwise the stored file, with any sensitive text redacted
+ * either way. If the annotations can't be
+ * drawn, the original is used instead, unless some of them hide part of
+ * it; then nothing is, rather than showing what was meant to be hidden.
+ * @throws Error if the image can't be read, or can't be shown safely
+ */
+export const loadExportImage = async (
+  screenshot: Screenshot,
+  annotations: ScreenshotAnnotation[]
+): Promise<Buffer> => {
+  const image = await loadDisplayImage(screenshot);
+  if (annotations.length === 0) return image;
+
+  const rendered = renderAnnotations(image, annotations);
+  if (rendered) return rendered;
+
+  if (annotations.some((annotation) => annotation.type === 'blur' || annotation.type === 'redact')) {
+    throw new Error(`Screenshot ${screenshot.id} has areas to hide but its image format can't be drawn on`);
+  }
+
+  return image;
+};
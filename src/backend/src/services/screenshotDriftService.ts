@@ -0,0 +1,222 @@
+import { getOcrProvider } from './ocr';
+import { getStorage, createStorageKey } from './storage';
+import { loadScreenshotImage, UploadedScreenshotFile } from './screenshotService';
+import { groupWordsIntoLabels } from './screenshotTextSearchService';
+import { maskOcrData, maskSensitiveText } from './screenshotRedactionService';
+import { getScreenshotById } from '../db/queries';
+import { createDriftCheck, getDriftCheckWithActions } from '../db/screenshotDriftQueries';
+import {
+  DriftLabel,
+  OCRData,
+  ScreenshotDriftCheck,
+  ScreenshotDriftCheckWithActions,
+  ScreenshotDriftReport,
+  ScreenshotRegion,
+} from '../types/models';
+import { loadPdfImage } from '../utils/pdf';
+import { ConflictError } from '../utils/errors';
+
+// How far a label's centre can shift, as a share of the capture's width or
+// height, before it counts as moved rather than re-rendered slightly off
+const MOVE_TOLERANCE = 0.03;
+
+export interface CaptureSize {
+  width: number;
+  height: number;
+}
+
+interface PlacedLabel extends DriftLabel {
+  key: string;
+  center: { x: number; y: number } | null;  // As a share of the frame
+}
+
+// Labels are compared case-insensitively, ignoring spacing
+const labelKey = (text: string): string => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Dates, counts and amounts change between any two captures; only labels
+// with letters in them describe the UI
+const isUiLabel = (text: string): boolean => /\p{L}/u.test(text);
+
+const placeLabels = (ocrData: OCRData, frame: CaptureSize | null): PlacedLabel[] => {
+  const labels = groupWordsIntoLabels(ocrData.words)
+    .filter((label) => isUiLabel(label.text))
+    .map(({ text, region }) => ({ text, region }));
+
+  // Without the image size, the area the text covers stands in for it
+  const regions = labels.map((label) => label.region).filter((region): region is ScreenshotRegion => region !== null);
+  const left = frame ? 0 : Math.min(...regions.map((region) => region.x));
+  const top = frame ? 0 : Math.min(...regions.map((region) => region.y));
+  const width = frame ? frame.width : Math.max(...regions.map((region) => region.x + region.width)) - left;
+  const height = frame ? frame.height : Math.max(...regions.map((region) => region.y + region.height)) - top;
+
+  return labels.map((label) => ({
+    ...label,
+    key: labelKey(label.text),
+    center: label.region
+      ? {
+        x: (label.region.x + label.region.width / 2 - left) / Math.max(width, 1),
+        y: (label.region.y + label.region.height / 2 - top) / Math.max(height, 1),
+      }
+      : null,
+  }));
+};
+
+// Labels without a box can only be matched by text, so never count as moved
+const distance = (first: PlacedLabel, second: PlacedLabel): number =>
+  first.center && second.center
+    ? Math.max(Math.abs(first.center.x - second.center.x), Math.abs(first.center.y - second.center.y))
+    : 0;
+
+const toDriftLabel = ({ text, region }: PlacedLabel): DriftLabel => ({ text, region });
+
+/**
+ * Compare the labels in two OCR results of the same screen. Labels with the
+ * same text are paired up closest-first; whatever is left over was added or
+ * removed, and pairs further apart than MOVE_TOLERANCE moved.
+ *
+ * Positions are compared relative to each capture's frame, so a capture at
+ * another resolution doesn't read as everything moving. Pass both image
+ * sizes when known; otherwise the area each capture's text covers is used.
+ */
+export const diffOcrLabels = (
+  baseline: OCRData,
+  fresh: OCRData,
+  frames: { baseline: CaptureSize; fresh: CaptureSize } | null = null
+): ScreenshotDriftReport => {
+  const before = placeLabels(baseline, frames?.baseline ?? null);
+  const after = placeLabels(fresh, frames?.fresh ?? null);
+
+  const pairs: Array<{ before: number; after: number; distance: number }> = [];
+  before.forEach((label, i) => {
+    after.forEach((candidate, j) => {
+      if (label.key === candidate.key) {
+        pairs.push({ before: i, after: j, distance: distance(label, candidate) });
+      }
+    });
+  });
+  pairs.sort((a, b) => a.distance - b.distance || a.before - b.before || a.after - b.after);
+
+  const matchedBefore = new Set<number>();
+  const matchedAfter = new Set<number>();
+  const moved: ScreenshotDriftReport['moved'] = [];
+  let unchanged = 0;
+
+  for (const pair of pairs) {
+    if (matchedBefore.has(pair.before) || matchedAfter.has(pair.after)) continue;
+    matchedBefore.add(pair.before);
+    matchedAfter.add(pair.after);
+
+    const from = before[pair.before].region;
+    const to = after[pair.after].region;
+
+    if (pair.distance > MOVE_TOLERANCE && from && to) {
+      moved.push({ text: after[pair.after].text, from, to });
+    } else {
+      unchanged++;
+    }
+  }
+
+  const total = Math.max(before.length, after.length);
+
+  return {
+    added: after.filter((_, j) => !matchedAfter.has(j)).map(toDriftLabel),
+    removed: before.filter((_, i) => !matchedBefore.has(i)).map(toDriftLabel),
+    moved,
+    unchanged,
+    similarity: total === 0 ? 1 : Math.round((unchanged / total) * 1000) / 1000,
+  };
+};
+
+export const hasDrift = (report: ScreenshotDriftReport): boolean =>
+  report.added.length > 0 || report.removed.length > 0 || report.moved.length > 0;
+
+// Pixel size of a JPEG or PNG; null for other formats
+const readCaptureSize = (image: Buffer): CaptureSize | null => {
+  const parsed = loadPdfImage(image);
+  return parsed ? { width: parsed.width, height: parsed.height } : null;
+};
+
+/**
+ * Check a fresh capture of a screenshot's screen for drift: OCR it, compare
+ * its labels with the screenshot's stored OCR and record the result. If
+ * anything changed, the actions showing the screenshot are flagged as
+ * possibly outdated. The capture is stored with the check so it can later
+ * be accepted as the screenshot's new image.
+ * @throws NotFoundError if the screenshot doesn't exist
+ * @throws ConflictError if the screenshot has no OCR data to compare against yet
+ */
+export const checkScreenshotDrift = async (
+  screenshotId: number,
+  file: UploadedScreenshotFile,
+  userId?: number
+): Promise<ScreenshotDriftCheckWithActions> => {
+  const screenshot = await getScreenshotById(screenshotId);
+
+  if (!screenshot.ocr_data) {
+    throw new ConflictError(`Screenshot ${screenshotId} has no OCR data yet; check again once OCR has finished`);
+  }
+
+  const ocrData = await getOcrProvider().recognize(file.buffer);
+
+  // The stored image only matters for its size; without it, fall back to text extents
+  const baselineSize = await loadScreenshotImage(screenshot)
+    .then(readCaptureSize)
+    .catch(() => null);
+  const freshSize = readCaptureSize(file.buffer);
+
+  // Sensitive text is masked first, so reports never quote it (masked
+  // words have no letters, so they aren't compared at all)
+  const report = diffOcrLabels(
+    maskOcrData(screenshot.ocr_data)!,
+    maskOcrData(ocrData)!,
+    baselineSize && freshSize ? { baseline: baselineSize, fresh: freshSize } : null
+  );
+
+  const storage = getStorage();
+  const storageKey = createStorageKey(file.originalname);
+  await storage.put(storageKey, file.buffer, file.mimetype);
+
+  let checkId: number;
+
+  try {
+    const check = await createDriftCheck({
+      screenshot_id: screenshotId,
+      storage_key: storageKey,
+      content_type: file.mimetype,
+      file_size: file.size,
+      original_filename: file.originalname,
+      ocr_data: ocrData,
+      report,
+      has_drift: hasDrift(report),
+      checked_by: userId,
+    });
+    checkId = check.id;
+  } catch (error) {
+    await storage.delete(storageKey).catch((deleteError) => {
+      console.error(`Failed to clean up stored file '${storageKey}':`, deleteError);
+    });
+    throw error;
+  }
+
+  return getDriftCheckWithActions(checkId);
+};
+
+/**
+ * A drift check as the API returns it: sensitive text masked in its OCR
+ * data, and in its report's labels too, since reports made before masking
+ * may quote it
+ */
+export const maskDriftCheck = <T extends ScreenshotDriftCheck>(check: T): T => {
+  const maskLabel = <L extends { text: string }>(label: L): L => ({ ...label, text: maskSensitiveText(label.text) });
+
+  return {
+    ...check,
+    ocr_data: maskOcrData(check.ocr_data)!,
+    report: {
+      ...check.report,
+      added: check.report.added.map(maskLabel),
+      removed: check.report.removed.map(maskLabel),
+      moved: check.report.moved.map(maskLabel),
+    },
+  };
+};
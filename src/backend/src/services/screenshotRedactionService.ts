@@ -0,0 +1,437 @@
+import * as redactionQueries from '../db/screenshotRedactionQueries';
+import { getScreenshotById } from '../db/queries';
+import { getStorage, createStorageKey } from './storage';
+import { loadScreenshotImage } from './screenshotService';
+import { groupWordsIntoRuns, unionRegions } from './screenshotTextSearchService';
+import {
+  OCRData,
+  OCRWord,
+  RedactionStatus,
+  Screenshot,
+  ScreenshotRedaction,
+  SensitiveTextKind,
+  SensitiveTextMatch,
+} from '../types/models';
+import { decodeImage, encodePng, fillRect } from '../utils/raster';
+import { ConflictError, ForbiddenError } from '../utils/errors';
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+interface Detector {
+  kind: SensitiveTextKind;
+  pattern: RegExp;  // Global; matched against a line of text
+  accept?: (text: string) => boolean;
+  ignore?: RegExp;  // Global; text of this shape is never part of a match
+}
+
+const digitsOf = (text: string): string => text.replace(/\D/g, '');
+
+// Card numbers carry a Luhn check digit, which rules out most other long numbers
+const passesLuhn = (text: string): boolean => {
+  const digits = digitsOf(text);
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+// Dates (2024-01-15, 15.01.2024) and times of day (10:30, 10:30:45.123) are
+// digit runs with phone-like separators; next to each other they have enough
+// digits to pass for one
+const DATE_OR_TIME = new RegExp([
+  '(?<!\\d)(?:19|20)\\d{2}([-/.])(?:0?[1-9]|1[0-2])\\1(?:0?[1-9]|[12]\\d|3[01])(?!\\d)',
+  '(?<!\\d)(?:0?[1-9]|[12]\\d|3[01])([-/.])(?:0?[1-9]|1[0-2])\\2(?:19|20)\\d{2}(?!\\d)',
+  '(?<![\\d:])(?:[01]?\\d|2[0-3]):[0-5]\\d(?::[0-5]\\d(?:\\.\\d+)?)?(?![\\d:])',
+].join('|'), 'g');
+
+const isPhoneNumber = (text: string): boolean => {
+  const digits = digitsOf(text).length;
+  // IP addresses look like dotted numbers too
+  return digits >= 9 && digits <= 15 && !/^\d{1,3}(\.\d{1,3}){3}$/.test(text);
+};
+
+// Bits of entropy per character
+const entropy = (text: string): number => {
+  const counts = new Map<string, number>();
+  for (const char of text) counts.set(char, (counts.get(char) || 0) + 1);
+  return [...counts.values()].reduce((sum, count) => {
+    const p = count / text.length;
+    return sum - p * Math.log2(p);
+  }, 0);
+};
+
+// Long random-looking strings: mixed-case letters with digits, or long hex.
+// Lowercase paths, slugs and UUIDs don't qualify.
+const looksLikeSecret = (text: string): boolean =>
+  ((/[a-z]/.test(text) && /[A-Z]/.test(text) && /\d/.test(text)) || /^[0-9a-fA-F]{32,}$/.test(text))
+  && entropy(text) >= 3.5;
+
+// Formats of well-known API keys and tokens
+const KNOWN_TOKENS = [
+  '(?:sk|pk|rk)_(?:live|test)_[A-Za-z0-9]{10,}',  // Stripe
+  'sk-[A-Za-z0-9_-]{20,}',                       // OpenAI-style secret keys
+  'gh[pousr]_[A-Za-z0-9]{30,}',                  // GitHub
+  'xox[abposr]-[A-Za-z0-9-]{10,}',               // Slack
+  'AKIA[0-9A-Z]{16}',                            // AWS access key ID
+  'AIza[0-9A-Za-z_-]{35}',                       // Google API key
+  'eyJ[A-Za-z0-9_-]{8,}\\.[A-Za-z0-9_-]{8,}\\.[A-Za-z0-9_-]*',  // JWT
+];
+
+// In priority order: text claimed by one isn't matched by the ones after it
+const DETECTORS: Detector[] = [
+  { kind: 'token', pattern: new RegExp(`(?<![\\w-])(?:${KNOWN_TOKENS.join('|')})`, 'g') },
+  { kind: 'email', pattern: /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu },
+  { kind: 'card', pattern: /(?<![\d-])\d(?:[ -]?\d){12,18}(?![\d-])/g, accept: passesLuhn },
+  { kind: 'token', pattern: /(?<![\w+/=-])[A-Za-z0-9_+/=-]{24,}(?![\w+/=-])/g, accept: looksLikeSecret },
+  {
+    kind: 'phone',
+    pattern: /(?<![\w+.-])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,5}(?:[ .-]\d{2,5}){1,4}(?![\w-])|(?<![\w+])\+\d{8,15}(?!\w)/g,
+    accept: isPhoneNumber,
+    ignore: DATE_OR_TIME,
+  },
+];
+
+// Enough to tell matches apart when reviewing them, not to read them
+const maskText = (kind: SensitiveTextKind, text: string): string => {
+  if (kind === 'card') return `•••• ${digitsOf(text).slice(-4)}`;
+  if (text.length <= 6) return '•'.repeat(text.length);
+  return `${text.slice(0, 2)}${'•'.repeat(Math.min(text.length - 4, 12))}${text.slice(-2)}`;
+};
+
+// Sensitive text in a line, by position
+const findSensitiveSpans = (text: string): Array<{ kind: SensitiveTextKind; start: number; end: number }> => {
+  const spans: Array<{ kind: SensitiveTextKind; start: number; end: number }> = [];
+
+  for (const detector of DETECTORS) {
+    // Ignored text is blanked out with a character no pattern matches across,
+    // keeping positions the same
+    const searched = detector.ignore
+      ? text.replace(detector.ignore, (ignored) => '#'.repeat(ignored.length))
+      : text;
+
+    for (const found of searched.matchAll(detector.pattern)) {
+      const start = found.index!;
+      const end = start + found[0].length;
+
+      if (spans.some((span) => start < span.end && end > span.start)) continue;
+      if (detector.accept && !detector.accept(found[0])) continue;
+      spans.push({ kind: detector.kind, start, end });
+    }
+  }
+
+  return spans;
+};
+
+// A run of OCR words as one line of text, with where each word is in it.
+// Words OCR split without a visible gap ("jane", "@", "example.com") are
+// joined back together.
+const joinRun = (run: ReturnType<typeof groupWordsIntoRuns>[number]) => {
+  let text = '';
+  const words = run.map((entry, index) => {
+    const previous = run[index - 1]?.region;
+    const region = entry.region;
+    if (index > 0 && (!previous || !region || region.x - (previous.x + previous.width) > region.height * 0.25)) {
+      text += ' ';
+    }
+    const start = text.length;
+    text += entry.word.text;
+    return { start, end: text.length, entry };
+  });
+
+  return { text, words };
+};
+
+/**
+ * Find emails, phone numbers, card numbers and API keys or tokens in a
+ * screenshot's OCR words. Each line of words is matched as text; a match
+ * covers the boxes of every word it touches, padded a little since OCR boxes
+ * fit the glyphs tightly. Words without boxes can't be located and are
+ * skipped.
+ */
+export const detectSensitiveText = (words: OCRWord[]): SensitiveTextMatch[] => {
+  const matches: SensitiveTextMatch[] = [];
+
+  for (const run of groupWordsIntoRuns(words, true)) {
+    if (run.some((entry) => entry.region === null)) continue;
+
+    const line = joinRun(run);
+
+    for (const span of findSensitiveSpans(line.text)) {
+      const covered = unionRegions(line.words
+        .filter((word) => word.start < span.end && word.end > span.start)
+        .map((word) => word.entry.region!));
+      const padding = Math.max(2, Math.round(covered.height * 0.15));
+
+      matches.push({
+        kind: span.kind,
+        region: {
+          x: Math.max(0, covered.x - padding),
+          y: Math.max(0, covered.y - padding),
+          width: covered.width + padding * 2,
+          height: covered.height + padding * 2,
+        },
+        preview: maskText(span.kind, line.text.slice(span.start, span.end)),
+      });
+    }
+  }
+
+  return matches;
+};
+
+// ============================================================================
+// MASKED TEXT
+// OCR text goes out with sensitive text masked, wherever it's shown, stored
+// on the side or sent on; only the original image holds it. Masking follows
+// detection, so matches dismissed as false positives are masked too.
+// ============================================================================
+
+const MASK = '•';
+
+/**
+ * Text with every sensitive match replaced by bullets of the same length
+ */
+export const maskSensitiveText = (text: string): string => {
+  let masked = text;
+  for (const span of findSensitiveSpans(text)) {
+    masked = masked.slice(0, span.start) + MASK.repeat(span.end - span.start) + masked.slice(span.end);
+  }
+  return masked;
+};
+
+/**
+ * OCR words with every word that's part of a sensitive match masked
+ */
+export const maskOcrWords = (words: OCRWord[]): OCRWord[] => {
+  const masked = new Set<OCRWord>();
+
+  for (const run of groupWordsIntoRuns(words, true)) {
+    const line = joinRun(run);
+    for (const span of findSensitiveSpans(line.text)) {
+      line.words
+        .filter((word) => word.start < span.end && word.end > span.start)
+        .forEach((word) => masked.add(word.entry.word));
+    }
+  }
+
+  return words.map((word) => masked.has(word) ? { ...word, text: MASK.repeat(word.text.length) } : word);
+};
+
+/**
+ * OCR data with sensitive text masked in its full text and its words
+ */
+export const maskOcrData = (ocrData: OCRData | null): OCRData | null =>
+  ocrData && {
+    ...ocrData,
+    full_text: maskSensitiveText(ocrData.full_text || ''),
+    words: maskOcrWords(ocrData.words || []),
+  };
+
+/**
+ * A screenshot as the API returns it: its OCR data masked, and Vision's
+ * copy of the text too
+ */
+export const maskScreenshot = <T extends Screenshot>(screenshot: T): T => ({
+  ...screenshot,
+  ocr_data: maskOcrData(screenshot.ocr_data),
+  vision_data: screenshot.vision_data && {
+    ...screenshot.vision_data,
+    text_annotations: screenshot.vision_data.text_annotations?.map((annotation) =>
+      typeof annotation?.description === 'string'
+        ? { ...annotation, description: maskSensitiveText(annotation.description) }
+        : annotation),
+  },
+});
+
+// ============================================================================
+// REDACTED IMAGES
+// ============================================================================
+
+const UNSCANNED_BATCH_SIZE = 100;
+
+/**
+ * Make the screenshot's redacted copy from its redactions that haven't been
+ * dismissed, replacing any earlier copy. With nothing to hide there's no
+ * copy; if the image format can't be drawn on, there's none either and the
+ * screenshot is marked unrenderable. Its masked search text is updated too.
+ * @returns The updated screenshot
+ * @throws NotFoundError if the screenshot doesn't exist
+ */
+export const applyScreenshotRedactions = async (screenshotId: number): Promise<Screenshot> => {
+  const screenshot = await getScreenshotById(screenshotId);
+  const regions = (await redactionQueries.getRedactionsByScreenshotId(screenshotId))
+    .filter((redaction) => redaction.dismissed_at === null);
+
+  let status: RedactionStatus = 'clean';
+  let redacted: Buffer | null = null;
+
+  if (regions.length > 0) {
+    const raster = decodeImage(await loadScreenshotImage(screenshot));
+
+    if (raster) {
+      regions.forEach((region) => fillRect(raster, region, { r: 0, g: 0, b: 0 }));
+      redacted = encodePng(raster);
+      status = 'redacted';
+    } else {
+      status = 'unrenderable';
+    }
+  }
+
+  const storage = getStorage();
+  const storageKey = redacted ? createStorageKey('redacted.png', 'screenshots/redacted') : null;
+
+  if (storageKey && redacted) {
+    await storage.put(storageKey, redacted, 'image/png');
+  }
+
+  let result: Awaited<ReturnType<typeof redactionQueries.setScreenshotRedaction>>;
+
+  try {
+    result = await redactionQueries.setScreenshotRedaction(
+      screenshotId,
+      status,
+      storageKey,
+      screenshot.ocr_data ? maskSensitiveText(screenshot.ocr_data.full_text || '') : null
+    );
+  } catch (error) {
+    if (storageKey) {
+      await storage.delete(storageKey).catch((deleteError) => {
+        console.error(`Failed to clean up stored file '${storageKey}':`, deleteError);
+      });
+    }
+    throw error;
+  }
+
+  if (result.previousKey) {
+    await storage.delete(result.previousKey).catch((error) => {
+      console.error(`Failed to remove old redacted copy '${result.previousKey}':`, error);
+    });
+  }
+
+  return result.screenshot;
+};
+
+/**
+ * Scan a screenshot's OCR words for sensitive text, store what was found
+ * and make the redacted copy served in place of the image
+ * @throws NotFoundError if the screenshot doesn't exist
+ * @throws ConflictError if it has no OCR data yet
+ */
+export const scanScreenshotForSensitiveText = async (
+  screenshotId: number
+): Promise<{ screenshot: Screenshot; redactions: ScreenshotRedaction[] }> => {
+  const screenshot = await getScreenshotById(screenshotId);
+
+  if (!screenshot.ocr_data) {
+    throw new ConflictError(`Screenshot ${screenshotId} has no OCR data yet; scan it once OCR has finished`);
+  }
+
+  const redactions = await redactionQueries.replaceScreenshotRedactions(
+    screenshotId,
+    detectSensitiveText(screenshot.ocr_data.words || [])
+  );
+
+  return { screenshot: await applyScreenshotRedactions(screenshotId), redactions };
+};
+
+/**
+ * Scan a screenshot whose OCR data just changed. A failed scan is logged
+ * rather than thrown, since the change itself succeeded; the screenshot
+ * stays unscanned until it's scanned again.
+ * @returns The updated screenshot, or null if the scan failed
+ */
+export const scanChangedScreenshot = async (screenshotId: number): Promise<Screenshot | null> => {
+  try {
+    return (await scanScreenshotForSensitiveText(screenshotId)).screenshot;
+  } catch (error) {
+    console.error(`❌ Sensitive text scan of screenshot ${screenshotId} failed:`, error);
+    return null;
+  }
+};
+
+/**
+ * Mark a redaction as a false positive, or as sensitive again, and remake
+ * the redacted copy
+ * @throws NotFoundError if the screenshot has no redaction with that ID
+ */
+export const setRedactionDismissed = async (
+  screenshotId: number,
+  id: number,
+  dismissed: boolean,
+  userId: number
+): Promise<{ screenshot: Screenshot; redaction: ScreenshotRedaction }> => {
+  const redaction = await redactionQueries.setRedactionDismissed(screenshotId, id, dismissed ? userId : null);
+  return { screenshot: await applyScreenshotRedactions(screenshotId), redaction };
+};
+
+/**
+ * Scan every screenshot that has OCR data but hasn't been scanned, e.g.
+ * ones from before scanning existed or whose scan failed. Run at startup;
+ * screenshots still waiting for OCR are scanned when it finishes.
+ * @returns How many were scanned
+ */
+export const scanUnscannedScreenshots = async (): Promise<number> => {
+  let scanned = 0;
+  let afterId = 0;
+
+  for (;;) {
+    const ids = await redactionQueries.getUnscannedScreenshotIds(afterId, UNSCANNED_BATCH_SIZE);
+    if (ids.length === 0) return scanned;
+
+    for (const id of ids) {
+      if (await scanChangedScreenshot(id)) scanned++;
+    }
+    afterId = ids[ids.length - 1];
+  }
+};
+
+/**
+ * The storage key of the image everyone may see: the redacted copy if there
+ * is one, otherwise the original. A screenshot that hasn't been scanned is
+ * scanned first; nothing is shown until it has been.
+ * @throws ConflictError if it can't be scanned yet because OCR hasn't
+ *   finished
+ * @throws ForbiddenError if the screenshot has sensitive text that couldn't
+ *   be blacked out, so only the original exists
+ */
+export const displayStorageKey = async (screenshot: Screenshot): Promise<string | null> => {
+  if (screenshot.redaction_status === null) {
+    if (!screenshot.ocr_data) {
+      throw new ConflictError(
+        `Screenshot ${screenshot.id} hasn't been checked for sensitive text yet; try again once OCR has finished`
+      );
+    }
+    screenshot = (await scanScreenshotForSensitiveText(screenshot.id)).screenshot;
+  }
+
+  if (screenshot.redaction_status === 'unrenderable') {
+    throw new ForbiddenError(
+      `Screenshot ${screenshot.id} contains sensitive text that couldn't be blacked out in its image format`
+    );
+  }
+
+  return screenshot.redaction_status === 'redacted' && screenshot.redacted_storage_key
+    ? screenshot.redacted_storage_key
+    : screenshot.storage_key;
+};
+
+/**
+ * Load the image everyone may see (see displayStorageKey)
+ * @throws ConflictError if it hasn't been scanned and can't be yet
+ * @throws ForbiddenError if only the unredacted original exists
+ */
+export const loadDisplayImage = async (screenshot: Screenshot): Promise<Buffer> => {
+  const key = await displayStorageKey(screenshot);
+  return key === screenshot.storage_key
+    ? loadScreenshotImage(screenshot)
+    : loadScreenshotImage({ ...screenshot, storage_key: key, file_path: null });
+};
@@ -0,0 +1,82 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { getStorage, createStorageKey, LEGACY_UPLOADS_DIR } from './storage';
+import { attachScreenshotToAction } from '../db/queries';
+import { enqueueOcrJob } from '../db/ocrJobQueries';
+import { Action, Screenshot, OcrJob } from '../types/models';
+
+export interface UploadedScreenshotFile {
+  buffer: Buffer;
+  originalname: string;  // Name on the client's machine
+  mimetype: string;
+  size: number;
+}
+
+// Run the upload pipeline for a received file: store it, create the
+// screenshot record, append it to the action and queue OCR.
+// If storing or attaching fails the stored file is removed so no orphaned
+// blobs pile up. OCR runs later in the background worker.
+export const uploadActionScreenshot = async (
+  actionId: number,
+  file: UploadedScreenshotFile,
+  caption?: string,
+  userId?: number
+): Promise<{ screenshot: Screenshot; action: Action; ocr_job: OcrJob | null }> => {
+  const storage = getStorage();
+  const storageKey = createStorageKey(file.originalname);
+
+  await storage.put(storageKey, file.buffer, file.mimetype);
+
+  let result: { screenshot: Screenshot; action: Action };
+
+  try {
+    result = await attachScreenshotToAction(
+      {
+        action_id: actionId,
+        storage_key: storageKey,
+        content_type: file.mimetype,
+        file_size: file.size,
+        original_filename: file.originalname,
+      },
+      caption,
+      userId
+    );
+  } catch (error) {
+    await storage.delete(storageKey).catch((deleteError) => {
+      console.error(`Failed to clean up stored file '${storageKey}':`, deleteError);
+    });
+    throw error;
+  }
+
+  // The screenshot is saved either way; OCR can be re-run if queueing fails
+  const ocrJob = await enqueueOcrJob(result.screenshot.id).catch((error) => {
+    console.error(`Failed to queue OCR for screenshot ${result.screenshot.id}:`, error);
+    return null;
+  });
+
+  return { ...result, ocr_job: ocrJob };
+};
+
+// Load the image bytes for a screenshot (legacy rows only have a server path)
+export const loadScreenshotImage = async (screenshot: Screenshot): Promise<Buffer> => {
+  if (screenshot.storage_key) {
+    const { stream } = await getStorage().get(screenshot.storage_key);
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  if (screenshot.file_path) {
+    // The old upload route only wrote to the uploads directory; a path
+    // anywhere else isn't one of ours and isn't read
+    const filePath = path.resolve(screenshot.file_path);
+    if (!filePath.startsWith(LEGACY_UPLOADS_DIR + path.sep)) {
+      throw new Error(`Screenshot ${screenshot.id} has a file path outside the uploads directory`);
+    }
+    return fs.readFile(filePath);
+  }
+
+  throw new Error(`Screenshot ${screenshot.id} has no stored file`);
+};
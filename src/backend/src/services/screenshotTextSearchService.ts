@@ -0,0 +1,193 @@
+import { getScreenshotTextCandidates } from '../db/searchQueries';
+import { maskOcrWords } from './screenshotRedactionService';
+import { OCRWord, ScreenshotRegion, ScreenshotTextMatch } from '../types/models';
+
+// Screenshots checked word by word per search
+const MAX_CANDIDATES = 1000;
+
+interface Box {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// Lowercase and strip surrounding punctuation ("Save," → "save")
+const normalizeToken = (text: string): string =>
+  text.toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+
+const toBox = (word: OCRWord): Box | null => {
+  const vertices = word.bounding_box?.vertices;
+  if (!vertices || vertices.length === 0) return null;
+
+  const xs = vertices.map((vertex) => vertex.x);
+  const ys = vertices.map((vertex) => vertex.y);
+  return { left: Math.min(...xs), top: Math.min(...ys), right: Math.max(...xs), bottom: Math.max(...ys) };
+};
+
+// Two consecutive words belong to the same label if they sit on the same
+// line and close together; words without boxes are given the benefit of the doubt
+const areAdjacent = (first: Box | null, second: Box | null): boolean => {
+  if (!first || !second) return true;
+
+  const height = Math.max(first.bottom - first.top, second.bottom - second.top, 1);
+  const centerOffset = Math.abs((first.top + first.bottom) / 2 - (second.top + second.bottom) / 2);
+  const gap = second.left - first.right;
+
+  return centerOffset <= height * 0.6 && gap >= -height && gap <= height * 3;
+};
+
+const unionRegion = (boxes: Box[]): ScreenshotRegion => {
+  const left = Math.min(...boxes.map((box) => box.left));
+  const top = Math.min(...boxes.map((box) => box.top));
+  const right = Math.max(...boxes.map((box) => box.right));
+  const bottom = Math.max(...boxes.map((box) => box.bottom));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+/**
+ * The smallest region covering all of the given ones
+ */
+export const unionRegions = (regions: ScreenshotRegion[]): ScreenshotRegion =>
+  unionRegion(regions.map((region) => ({
+    left: region.x,
+    top: region.y,
+    right: region.x + region.width,
+    bottom: region.y + region.height,
+  })));
+
+/**
+ * Find every place a label (e.g. "Save and Close") appears in a screenshot's
+ * OCR words: consecutive words matching the label's words, case-insensitively,
+ * on the same line. Matches without any bounding boxes are skipped.
+ */
+export const findLabelRegions = (
+  words: OCRWord[],
+  label: string
+): ScreenshotTextMatch['regions'] => {
+  const labelTokens = label.split(/\s+/).map(normalizeToken).filter(Boolean);
+  if (labelTokens.length === 0) return [];
+
+  // Punctuation-only words ("|", "-") don't take part in matching
+  const tokens = words
+    .map((word) => ({ word, token: normalizeToken(word.text), box: toBox(word) }))
+    .filter((entry) => entry.token.length > 0);
+
+  const regions: ScreenshotTextMatch['regions'] = [];
+
+  for (let start = 0; start + labelTokens.length <= tokens.length; start++) {
+    const candidate = tokens.slice(start, start + labelTokens.length);
+
+    const matches = candidate.every((entry, index) =>
+      entry.token === labelTokens[index]
+      && (index === 0 || areAdjacent(candidate[index - 1].box, entry.box))
+    );
+    if (!matches) continue;
+
+    const boxes = candidate.map((entry) => entry.box).filter((box): box is Box => box !== null);
+    if (boxes.length === 0) continue;
+
+    regions.push({
+      text: candidate.map((entry) => entry.word.text).join(' '),
+      confidence: Math.min(...candidate.map((entry) => entry.word.confidence)),
+      region: unionRegion(boxes),
+    });
+
+    start += labelTokens.length - 1;  // Don't report overlapping matches
+  }
+
+  return regions;
+};
+
+/**
+ * Split a screenshot's OCR words into runs of consecutive words on the same
+ * line and close together, in OCR reading order, keeping each word's box.
+ * A word without a bounding box is a run on its own.
+ * @param keepPunctuation - Keep punctuation-only words ("@", "-"), which
+ *   are dropped by default
+ */
+export const groupWordsIntoRuns = (
+  words: OCRWord[],
+  keepPunctuation = false
+): Array<Array<{ word: OCRWord; region: ScreenshotRegion | null }>> => {
+  const entries = words
+    .map((word) => ({ word, box: toBox(word) }))
+    .filter((entry) => keepPunctuation ? entry.word.text.trim().length > 0 : normalizeToken(entry.word.text).length > 0);
+
+  const groups: Array<typeof entries> = [];
+  for (const entry of entries) {
+    const current = groups[groups.length - 1];
+    const previous = current?.[current.length - 1];
+
+    if (previous?.box && entry.box && areAdjacent(previous.box, entry.box)) {
+      current.push(entry);
+    } else {
+      groups.push([entry]);
+    }
+  }
+
+  return groups.map((group) => group.map(({ word, box }) => ({ word, region: box ? unionRegion([box]) : null })));
+};
+
+/**
+ * Split a screenshot's OCR words into labels: the runs of groupWordsIntoRuns
+ * as text, with the area they cover (null for a word without a box)
+ */
+export const groupWordsIntoLabels = (
+  words: OCRWord[]
+): Array<{ text: string; confidence: number; region: ScreenshotRegion | null }> =>
+  groupWordsIntoRuns(words).map((run) => {
+    const regions = run.map((entry) => entry.region).filter((region): region is ScreenshotRegion => region !== null);
+    return {
+      text: run.map((entry) => entry.word.text).join(' '),
+      confidence: Math.min(...run.map((entry) => entry.word.confidence)),
+      region: regions.length > 0 ? unionRegions(regions) : null,
+    };
+  });
+
+export interface ScreenshotTextSearchResult {
+  label: string;
+  results: ScreenshotTextMatch[];
+  total: number;
+  limit: number;
+  offset: number;
+  truncated: boolean;  // More screenshots matched the text index than were checked
+}
+
+/**
+ * Find the screenshots, and the pixel regions within them, where a UI label
+ * appears. Candidates come from the full-text index; each is then checked
+ * word by word against its OCR bounding boxes, with sensitive words masked
+ * so they can't be found. With publishedOnly, only screenshots published
+ * actions show are searched.
+ */
+export const searchScreenshotText = async (
+  workspaceId: number,
+  label: string,
+  options: { systemId?: number; limit: number; offset: number; publishedOnly: boolean }
+): Promise<ScreenshotTextSearchResult> => {
+  const candidates = await getScreenshotTextCandidates(
+    workspaceId,
+    label,
+    options.systemId ?? null,
+    MAX_CANDIDATES,
+    options.publishedOnly
+  );
+
+  const matches: ScreenshotTextMatch[] = [];
+  for (const { words, ...candidate } of candidates) {
+    const regions = findLabelRegions(maskOcrWords(words), label);
+    if (regions.length > 0) {
+      matches.push({ ...candidate, regions });
+    }
+  }
+
+  return {
+    label,
+    results: matches.slice(options.offset, options.offset + options.limit),
+    total: matches.length,
+    limit: options.limit,
+    offset: options.offset,
+    truncated: candidates.length === MAX_CANDIDATES,
+  };
+};
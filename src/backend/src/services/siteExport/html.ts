@@ -0,0 +1,294 @@
+import { DocumentedAction, DocumentedPracticeGroup, SystemDocumentation } from '../documentationService';
+import { ActionSequenceWithActions } from '../../types/models';
+import { LinkWithContext, getAuthRequiredLabel } from '../../types/links';
+import { INDEX_PAGE, SiteLayout, operationalFacts, relativeLink } from './layout';
+
+const TREE = 'html';
+
+export const STYLESHEET = 'style.css';
+
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const href = (from: string, toPage: string) => escapeHtml(encodeURI(`${relativeLink(TREE, from, toPage)}.html`));
+
+const link = (label: string, from: string, toPage: string) =>
+  `<a href="${href(from, toPage)}">${escapeHtml(label)}</a>`;
+
+const image = (alt: string, from: string, imagePath: string) =>
+  `<img src="${escapeHtml(encodeURI(relativeLink(TREE, from, imagePath, true)))}" alt="${escapeHtml(alt)}" loading="lazy">`;
+
+// Keep line breaks people typed into descriptions and notes
+const paragraph = (text: string, className?: string) =>
+  `<p${className ? ` class="${className}"` : ''}>${escapeHtml(text).replace(/\n/g, '<br>')}</p>`;
+
+const facts = (pairs: Array<[string, string]>): string =>
+  pairs.length === 0
+    ? ''
+    : `<dl class="facts">${pairs.map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`).join('')}</dl>`;
+
+const linkList = (links: LinkWithContext[]): string => {
+  if (links.length === 0) return '';
+
+  const items = links.map((item) => {
+    const details = [
+      item.context_notes || item.description,
+      item.auth_required !== 'none' ? getAuthRequiredLabel(item.auth_required) : null,
+    ].filter(Boolean).map((detail) => escapeHtml(detail!));
+
+    return `<li><a href="${escapeHtml(item.url)}" rel="noopener">${escapeHtml(item.title)}</a>`
+      + `${details.length ? ` <span class="muted">${details.join(' · ')}</span>` : ''}</li>`;
+  });
+
+  return `<h2>Links</h2><ul class="links">${items.join('')}</ul>`;
+};
+
+/**
+ * The whole site's contents, shown beside every page with the current
+ * page highlighted
+ */
+const navigation = (current: string, doc: SystemDocumentation, layout: SiteLayout): string => {
+  const item = (label: string, page: string, children = '') =>
+    `<li${page === current ? ' class="current"' : ''}>${link(label, current, page)}${children}</li>`;
+
+  const departments = doc.departments.map((department) => {
+    const groups = department.practice_groups.map((practiceGroup) => {
+      const children = [
+        ...practiceGroup.actions.map(({ action }) => item(action.title, layout.actionPages.get(action.id)!)),
+        ...practiceGroup.sequences.map((sequence) => item(`${sequence.name} (sequence)`, layout.sequencePages.get(sequence.id)!)),
+      ];
+      return item(
+        practiceGroup.name,
+        layout.practiceGroupPages.get(practiceGroup.id)!,
+        children.length ? `<ul>${children.join('')}</ul>` : ''
+      );
+    });
+
+    return `<li><span class="department">${escapeHtml(department.name)}</span><ul>${groups.join('')}</ul></li>`;
+  });
+
+  const unassigned = doc.unassigned_actions.length === 0
+    ? ''
+    : `<li><span class="department">Other actions</span><ul>${
+      doc.unassigned_actions.map(({ action }) => item(action.title, layout.actionPages.get(action.id)!)).join('')
+    }</ul></li>`;
+
+  return `<nav><ul>${item(doc.system.name, INDEX_PAGE)}${departments.join('')}${unassigned}</ul></nav>`;
+};
+
+const document = (
+  page: string,
+  title: string,
+  body: string,
+  doc: SystemDocumentation,
+  layout: SiteLayout
+): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title === doc.system.name ? title : `${title} - ${doc.system.name}`)}</title>
+<link rel="stylesheet" href="${escapeHtml(`${relativeLink(TREE, page, STYLESHEET)}`)}">
+</head>
+<body>
+${navigation(page, doc, layout)}
+<main>
+${body}
+</main>
+</body>
+</html>
+`;
+
+const renderAction = (
+  page: string,
+  { action, responsible_role, screenshots, links }: DocumentedAction,
+  layout: SiteLayout,
+  parent: { name: string; page: string } | null
+): string => {
+  const parts: string[] = [];
+  const stepScreenshots = new Set((action.steps || []).map((step) => step.screenshot_id));
+
+  if (parent) parts.push(`<p class="breadcrumb">Part of ${link(parent.name, page, parent.page)}</p>`);
+  parts.push(`<h1>${escapeHtml(action.title)}</h1>`);
+  if (action.description) parts.push(paragraph(action.description));
+  parts.push(facts(operationalFacts(action, responsible_role)));
+
+  if (action.steps && action.steps.length > 0) {
+    const steps = [...action.steps].sort((a, b) => a.step_number - b.step_number).map((step) => {
+      const imagePath = step.screenshot_id !== undefined && layout.images.get(step.screenshot_id);
+      return `<li value="${step.step_number}">${paragraph(step.instruction)}`
+        + `${step.notes ? paragraph(step.notes, 'note') : ''}`
+        + `${imagePath ? `<figure>${image(`Step ${step.step_number}`, page, imagePath)}</figure>` : ''}</li>`;
+    });
+    parts.push(`<h2>Steps</h2><ol class="steps">${steps.join('')}</ol>`);
+  }
+
+  const otherScreenshots = screenshots.filter(({ screenshot }) => !stepScreenshots.has(screenshot.id));
+
+  if (otherScreenshots.length > 0) {
+    const figures = otherScreenshots.map(({ screenshot, caption }) => {
+      const label = caption || screenshot.original_filename || `Screenshot ${screenshot.id}`;
+      return `<figure>${image(label, page, layout.images.get(screenshot.id)!)}`
+        + `${caption ? `<figcaption>${escapeHtml(caption)}</figcaption>` : ''}</figure>`;
+    });
+    parts.push(`<h2>Screenshots</h2>${figures.join('')}`);
+  }
+
+  parts.push(linkList(links));
+  return parts.filter(Boolean).join('\n');
+};
+
+const renderSequence = (
+  page: string,
+  sequence: ActionSequenceWithActions,
+  layout: SiteLayout,
+  parent: { name: string; page: string }
+): string => {
+  const parts: string[] = [
+    `<p class="breadcrumb">Sequence in ${link(parent.name, page, parent.page)}</p>`,
+    `<h1>${escapeHtml(sequence.name)}</h1>`,
+  ];
+
+  if (sequence.description) parts.push(paragraph(sequence.description));
+  parts.push(facts(operationalFacts(sequence)));
+
+  if (sequence.actions.length > 0) {
+    const steps = sequence.actions.map(({ action, notes }) => {
+      const actionPage = layout.actionPages.get(action.id);
+      const label = actionPage ? link(action.title, page, actionPage) : escapeHtml(action.title);
+      return `<li>${label}${notes ? paragraph(notes, 'note') : ''}</li>`;
+    });
+    parts.push(`<h2>Steps</h2><ol class="steps">${steps.join('')}</ol>`);
+  }
+
+  return parts.filter(Boolean).join('\n');
+};
+
+const renderPracticeGroup = (
+  page: string,
+  practiceGroup: DocumentedPracticeGroup,
+  departmentName: string,
+  layout: SiteLayout
+): string => {
+  const parts: string[] = [
+    `<p class="breadcrumb">${escapeHtml(departmentName)}</p>`,
+    `<h1>${escapeHtml(practiceGroup.name)}</h1>`,
+  ];
+
+  if (practiceGroup.description) parts.push(paragraph(practiceGroup.description));
+
+  if (practiceGroup.actions.length > 0) {
+    const items = practiceGroup.actions.map(({ action }) => `<li>${link(action.title, page, layout.actionPages.get(action.id)!)}</li>`);
+    parts.push(`<h2>Actions</h2><ul>${items.join('')}</ul>`);
+  }
+
+  if (practiceGroup.sequences.length > 0) {
+    const items = practiceGroup.sequences.map((sequence) => `<li>${link(sequence.name, page, layout.sequencePages.get(sequence.id)!)}</li>`);
+    parts.push(`<h2>Sequences</h2><ul>${items.join('')}</ul>`);
+  }
+
+  return parts.join('\n');
+};
+
+const renderIndex = (doc: SystemDocumentation, layout: SiteLayout): string => {
+  const page = INDEX_PAGE;
+  const parts: string[] = [`<h1>${escapeHtml(doc.system.name)}</h1>`];
+
+  if (doc.system.description) parts.push(paragraph(doc.system.description));
+  parts.push(paragraph(
+    `${doc.version === 'published' ? 'Published' : 'Current'} documentation, exported ${doc.generated_at}`,
+    'muted'
+  ));
+
+  for (const department of doc.departments) {
+    const items = department.practice_groups.map((practiceGroup) =>
+      `<li>${link(practiceGroup.name, page, layout.practiceGroupPages.get(practiceGroup.id)!)}</li>`);
+    parts.push(`<h2>${escapeHtml(department.name)}</h2><ul>${items.join('')}</ul>`);
+  }
+
+  if (doc.unassigned_actions.length > 0) {
+    const items = doc.unassigned_actions.map(({ action }) => `<li>${link(action.title, page, layout.actionPages.get(action.id)!)}</li>`);
+    parts.push(`<h2>Other actions</h2><ul>${items.join('')}</ul>`);
+  }
+
+  parts.push(linkList(doc.links));
+  return parts.filter(Boolean).join('\n');
+};
+
+/**
+ * Render every page of the site as a standalone HTML document
+ * @returns Page path -> HTML
+ */
+export const renderHtmlPages = (doc: SystemDocumentation, layout: SiteLayout): Map<string, string> => {
+  const pages = new Map<string, string>();
+  const add = (page: string, title: string, body: string) => pages.set(page, document(page, title, body, doc, layout));
+
+  add(INDEX_PAGE, doc.system.name, renderIndex(doc, layout));
+
+  for (const department of doc.departments) {
+    for (const practiceGroup of department.practice_groups) {
+      const groupPage = layout.practiceGroupPages.get(practiceGroup.id)!;
+      const parent = { name: practiceGroup.name, page: groupPage };
+
+      add(groupPage, practiceGroup.name, renderPracticeGroup(groupPage, practiceGroup, department.name, layout));
+
+      for (const documented of practiceGroup.actions) {
+        const page = layout.actionPages.get(documented.action.id)!;
+        add(page, documented.action.title, renderAction(page, documented, layout, parent));
+      }
+
+      for (const sequence of practiceGroup.sequences) {
+        const page = layout.sequencePages.get(sequence.id)!;
+        add(page, sequence.name, renderSequence(page, sequence, layout, parent));
+      }
+    }
+  }
+
+  for (const documented of doc.unassigned_actions) {
+    const page = layout.actionPages.get(documented.action.id)!;
+    add(page, documented.action.title, renderAction(page, documented, layout, null));
+  }
+
+  return pages;
+};
+
+export const STYLESHEET_CONTENT = `body {
+  margin: 0;
+  display: flex;
+  font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+  color: #1f2933;
+  line-height: 1.5;
+}
+nav {
+  flex: 0 0 280px;
+  min-height: 100vh;
+  padding: 1.5rem 1rem;
+  background: #f5f7fa;
+  border-right: 1px solid #e4e7eb;
+  font-size: 0.9rem;
+}
+nav ul { list-style: none; margin: 0; padding-left: 0.75rem; }
+nav > ul { padding-left: 0; }
+nav li { margin: 0.2rem 0; }
+nav a { color: #323f4b; text-decoration: none; }
+nav a:hover { text-decoration: underline; }
+nav li.current > a { font-weight: 600; color: #0b69a3; }
+nav .department { display: block; margin-top: 0.75rem; font-weight: 600; text-transform: uppercase; font-size: 0.75rem; color: #7b8794; }
+main { flex: 1; max-width: 860px; padding: 2rem 3rem; }
+a { color: #0b69a3; }
+.breadcrumb, .muted { color: #7b8794; font-size: 0.9rem; }
+.note { color: #52606d; font-style: italic; }
+dl.facts { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; }
+dl.facts dt { font-weight: 600; }
+dl.facts dd { margin: 0; }
+ol.steps > li { margin-bottom: 1.25rem; }
+ol.steps p { margin: 0.25rem 0; }
+figure { margin: 0.75rem 0; }
+figure img { max-width: 100%; border: 1px solid #e4e7eb; border-radius: 4px; }
+figcaption { color: #52606d; font-size: 0.9rem; }
+`;
@@ -0,0 +1,69 @@
+import { DocumentedScreenshot, SystemDocumentation } from '../documentationService';
+import { loadExportImage } from '../screenshotAnnotationService';
+import { ZipEntry, createZip } from '../../utils/zip';
+import { INDEX_PAGE, buildLayout, slugify } from './layout';
+import { renderMarkdownPages } from './markdown';
+import { STYLESHEET, STYLESHEET_CONTENT, renderHtmlPages } from './html';
+
+export { slugify } from './layout';
+
+// Opening the bundle's top-level index.html lands on the HTML site
+const REDIRECT_PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta http-equiv="refresh" content="0; url=html/${INDEX_PAGE}.html">
+<title>Documentation</title>
+</head>
+<body>
+<p><a href="html/${INDEX_PAGE}.html">Open the documentation</a> or browse the <a href="markdown/${INDEX_PAGE}.md">Markdown version</a>.</p>
+</body>
+</html>
+`;
+
+/**
+ * Build a system's documentation as a static site, zipped:
+ *
+ *   <system>/index.html          - redirects to html/index.html
+ *   <system>/html/...            - one page per practice group, action and sequence
+ *   <system>/markdown/...        - the same pages as Markdown
+ *   <system>/images/...          - screenshots, shared by both
+ *
+ * Screenshots with annotations are drawn with them. Ones whose files can't
+ * be read (or whose hidden areas can't be drawn) are left out, the page
+ * keeping a broken image, rather than failing the whole export.
+ */
+export const buildSiteExport = async (doc: SystemDocumentation): Promise<Buffer> => {
+  const layout = buildLayout(doc);
+  const root = `${slugify(doc.system.name)}/`;
+  const entries: ZipEntry[] = [{ path: `${root}index.html`, data: REDIRECT_PAGE }];
+
+  for (const [page, markdown] of renderMarkdownPages(doc, layout)) {
+    entries.push({ path: `${root}markdown/${page}.md`, data: markdown });
+  }
+
+  for (const [page, html] of renderHtmlPages(doc, layout)) {
+    entries.push({ path: `${root}html/${page}.html`, data: html });
+  }
+  entries.push({ path: `${root}html/${STYLESHEET}`, data: STYLESHEET_CONTENT });
+
+  const screenshots = new Map<number, DocumentedScreenshot>();
+  for (const documented of [
+    ...doc.departments.flatMap((department) => department.practice_groups.flatMap((group) => group.actions)),
+    ...doc.unassigned_actions,
+  ]) {
+    documented.screenshots.forEach((shown) => screenshots.set(shown.screenshot.id, shown));
+  }
+
+  // One at a time, so a big system doesn't hold every open storage stream at once
+  for (const [id, imagePath] of layout.images) {
+    const { screenshot, annotations } = screenshots.get(id)!;
+    try {
+      entries.push({ path: `${root}${imagePath}`, data: await loadExportImage(screenshot, annotations) });
+    } catch (error) {
+      console.error(`Failed to read screenshot ${id} for site export:`, error);
+    }
+  }
+
+  return createZip(entries);
+};
@@ -0,0 +1,131 @@
+import path from 'path';
+import {
+  DocumentedAction,
+  DocumentedDepartment,
+  DocumentedScreenshot,
+  SystemDocumentation,
+} from '../documentationService';
+import { Action, ActionFrequency, ActionSequenceWithActions, Role } from '../../types/models';
+
+/**
+ * Where everything goes in the bundle. Page paths have no extension and are
+ * relative to the markdown/ and html/ folders, which mirror each other;
+ * screenshots live once in images/ and both trees point at them.
+ */
+export interface SiteLayout {
+  actionPages: Map<number, string>;
+  sequencePages: Map<number, string>;
+  practiceGroupPages: Map<number, string>;
+  images: Map<number, string>;  // Screenshot ID -> path from the bundle root
+}
+
+export const INDEX_PAGE = 'index';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+};
+
+export const slugify = (text: string): string =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'untitled';
+
+// IDs keep names that slugify the same apart
+const pageName = (id: number, name: string) => `${id}-${slugify(name)}`;
+
+const imageExtension = ({ screenshot, annotations }: DocumentedScreenshot): string => {
+  // Annotated and redacted images are rendered as PNG
+  if (annotations.length > 0 || screenshot.redaction_status === 'redacted') return '.png';
+
+  const known = screenshot.content_type && IMAGE_EXTENSIONS[screenshot.content_type];
+  if (known) return known;
+
+  const source = screenshot.original_filename || screenshot.storage_key || screenshot.file_path || '';
+  return path.extname(source).toLowerCase() || '.png';
+};
+
+const departmentFolder = (department: DocumentedDepartment) => pageName(department.id, department.name);
+
+export const buildLayout = (doc: SystemDocumentation): SiteLayout => {
+  const layout: SiteLayout = {
+    actionPages: new Map(),
+    sequencePages: new Map(),
+    practiceGroupPages: new Map(),
+    images: new Map(),
+  };
+
+  const addActions = (actions: DocumentedAction[], folder: string) => {
+    for (const { action, screenshots } of actions) {
+      layout.actionPages.set(action.id, `${folder}/${pageName(action.id, action.title)}`);
+      for (const documented of screenshots) {
+        layout.images.set(documented.screenshot.id, `images/screenshot-${documented.screenshot.id}${imageExtension(documented)}`);
+      }
+    }
+  };
+
+  const addSequences = (sequences: ActionSequenceWithActions[], folder: string) => {
+    for (const sequence of sequences) {
+      layout.sequencePages.set(sequence.id, `${folder}/sequences/${pageName(sequence.id, sequence.name)}`);
+    }
+  };
+
+  for (const department of doc.departments) {
+    for (const practiceGroup of department.practice_groups) {
+      const folder = `${departmentFolder(department)}/${pageName(practiceGroup.id, practiceGroup.name)}`;
+      layout.practiceGroupPages.set(practiceGroup.id, `${folder}/${INDEX_PAGE}`);
+      addActions(practiceGroup.actions, folder);
+      addSequences(practiceGroup.sequences, folder);
+    }
+  }
+
+  addActions(doc.unassigned_actions, 'actions');
+
+  return layout;
+};
+
+/**
+ * Relative link from one page to another page (or, with `toRoot`, to a
+ * file at the bundle root such as an image)
+ * @param tree - 'markdown' or 'html', the folder pages are written to
+ */
+export const relativeLink = (tree: string, fromPage: string, target: string, toRoot = false): string => {
+  const from = path.posix.dirname(`${tree}/${fromPage}`);
+  const to = toRoot ? target : `${tree}/${target}`;
+  return path.posix.relative(from, to);
+};
+
+const FREQUENCY_LABELS: Record<ActionFrequency, string> = {
+  ad_hoc: 'As needed',
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+};
+
+/**
+ * The operational details shown under an action's or sequence's title,
+ * as label/value pairs (empty ones left out)
+ */
+export const operationalFacts = (
+  item: Pick<Action, 'frequency' | 'average_duration_minutes' | 'trigger_event'>,
+  responsibleRole?: Role | null
+): Array<[string, string]> => {
+  const facts: Array<[string, string]> = [];
+
+  if (item.frequency) facts.push(['Frequency', FREQUENCY_LABELS[item.frequency]]);
+  if (item.average_duration_minutes !== null && item.average_duration_minutes !== undefined) {
+    facts.push(['Average duration', `${item.average_duration_minutes} min`]);
+  }
+  if (responsibleRole) facts.push(['Responsible role', responsibleRole.name]);
+  if (item.trigger_event) facts.push(['Trigger', item.trigger_event]);
+
+  return facts;
+};
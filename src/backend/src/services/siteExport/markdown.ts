@@ -0,0 +1,210 @@
+import { DocumentedAction, DocumentedPracticeGroup, SystemDocumentation } from '../documentationService';
+import { ActionSequenceWithActions } from '../../types/models';
+import { LinkWithContext, getAuthRequiredLabel } from '../../types/links';
+import {
+  INDEX_PAGE,
+  SiteLayout,
+  operationalFacts,
+  relativeLink,
+} from './layout';
+
+const TREE = 'markdown';
+
+// Escape characters Markdown would treat as formatting
+export const escapeMarkdown = (text: string): string => text.replace(/([\\`*_{}\[\]<>#|])/g, '\\$1');
+
+const link = (label: string, from: string, toPage: string) =>
+  `[${escapeMarkdown(label)}](${encodeURI(relativeLink(TREE, from, toPage))}.md)`;
+
+const image = (alt: string, from: string, imagePath: string) =>
+  `![${escapeMarkdown(alt)}](${encodeURI(relativeLink(TREE, from, imagePath, true))})`;
+
+const facts = (pairs: Array<[string, string]>): string[] =>
+  pairs.length > 0 ? [pairs.map(([label, value]) => `**${label}:** ${escapeMarkdown(value)}`).join(' · '), ''] : [];
+
+const linkList = (links: LinkWithContext[]): string[] =>
+  links.length === 0
+    ? []
+    : [
+      '## Links',
+      '',
+      ...links.map((item) => {
+        const details = [
+          item.context_notes || item.description,
+          item.auth_required !== 'none' ? getAuthRequiredLabel(item.auth_required) : null,
+        ].filter(Boolean).map((detail) => escapeMarkdown(detail!));
+        return `- [${escapeMarkdown(item.title)}](<${item.url}>)${details.length ? ` - ${details.join('; ')}` : ''}`;
+      }),
+      '',
+    ];
+
+const renderAction = (
+  page: string,
+  { action, responsible_role, screenshots, links }: DocumentedAction,
+  layout: SiteLayout,
+  parent: { name: string; page: string } | null
+): string => {
+  const lines: string[] = [`# ${escapeMarkdown(action.title)}`, ''];
+  const stepScreenshots = new Set((action.steps || []).map((step) => step.screenshot_id));
+
+  if (parent) lines.push(`Part of ${link(parent.name, page, parent.page)}`, '');
+  if (action.description) lines.push(escapeMarkdown(action.description), '');
+  lines.push(...facts(operationalFacts(action, responsible_role)));
+
+  if (action.steps && action.steps.length > 0) {
+    lines.push('## Steps', '');
+
+    for (const step of [...action.steps].sort((a, b) => a.step_number - b.step_number)) {
+      lines.push(`${step.step_number}. ${escapeMarkdown(step.instruction)}`);
+      if (step.notes) lines.push('', `   *${escapeMarkdown(step.notes)}*`);
+
+      const imagePath = step.screenshot_id !== undefined && layout.images.get(step.screenshot_id);
+      if (imagePath) lines.push('', `   ${image(`Step ${step.step_number}`, page, imagePath)}`);
+      lines.push('');
+    }
+  }
+
+  const otherScreenshots = screenshots.filter(({ screenshot }) => !stepScreenshots.has(screenshot.id));
+
+  if (otherScreenshots.length > 0) {
+    lines.push('## Screenshots', '');
+
+    for (const { screenshot, caption } of otherScreenshots) {
+      const label = caption || screenshot.original_filename || `Screenshot ${screenshot.id}`;
+      lines.push(image(label, page, layout.images.get(screenshot.id)!), '');
+      if (caption) lines.push(`*${escapeMarkdown(caption)}*`, '');
+    }
+  }
+
+  lines.push(...linkList(links));
+  return lines.join('\n');
+};
+
+const renderSequence = (
+  page: string,
+  sequence: ActionSequenceWithActions,
+  layout: SiteLayout,
+  parent: { name: string; page: string }
+): string => {
+  const lines: string[] = [
+    `# ${escapeMarkdown(sequence.name)}`,
+    '',
+    `Sequence in ${link(parent.name, page, parent.page)}`,
+    '',
+  ];
+
+  if (sequence.description) lines.push(escapeMarkdown(sequence.description), '');
+  lines.push(...facts(operationalFacts(sequence)));
+
+  if (sequence.actions.length > 0) {
+    lines.push('## Steps', '');
+
+    sequence.actions.forEach(({ action, notes }, index) => {
+      const actionPage = layout.actionPages.get(action.id);
+      const label = actionPage ? link(action.title, page, actionPage) : escapeMarkdown(action.title);
+      lines.push(`${index + 1}. ${label}${notes ? ` - ${escapeMarkdown(notes)}` : ''}`);
+    });
+    lines.push('');
+  }
+
+  return lines.join('\n');
+};
+
+const renderPracticeGroup = (
+  page: string,
+  practiceGroup: DocumentedPracticeGroup,
+  departmentName: string,
+  layout: SiteLayout
+): string => {
+  const lines: string[] = [
+    `# ${escapeMarkdown(practiceGroup.name)}`,
+    '',
+    `${escapeMarkdown(departmentName)} · ${link('Contents', page, INDEX_PAGE)}`,
+    '',
+  ];
+
+  if (practiceGroup.description) lines.push(escapeMarkdown(practiceGroup.description), '');
+
+  if (practiceGroup.actions.length > 0) {
+    lines.push('## Actions', '');
+    for (const { action } of practiceGroup.actions) {
+      lines.push(`- ${link(action.title, page, layout.actionPages.get(action.id)!)}`);
+    }
+    lines.push('');
+  }
+
+  if (practiceGroup.sequences.length > 0) {
+    lines.push('## Sequences', '');
+    for (const sequence of practiceGroup.sequences) {
+      lines.push(`- ${link(sequence.name, page, layout.sequencePages.get(sequence.id)!)}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+};
+
+const renderIndex = (doc: SystemDocumentation, layout: SiteLayout): string => {
+  const page = INDEX_PAGE;
+  const lines: string[] = [`# ${escapeMarkdown(doc.system.name)}`, ''];
+
+  if (doc.system.description) lines.push(escapeMarkdown(doc.system.description), '');
+  lines.push(`*${doc.version === 'published' ? 'Published' : 'Current'} documentation, exported ${doc.generated_at}*`, '');
+
+  if (doc.departments.length > 0) {
+    lines.push('## Contents', '');
+
+    for (const department of doc.departments) {
+      lines.push(`### ${escapeMarkdown(department.name)}`, '');
+      for (const practiceGroup of department.practice_groups) {
+        lines.push(`- ${link(practiceGroup.name, page, layout.practiceGroupPages.get(practiceGroup.id)!)}`);
+      }
+      lines.push('');
+    }
+  }
+
+  if (doc.unassigned_actions.length > 0) {
+    lines.push('## Other actions', '');
+    for (const { action } of doc.unassigned_actions) {
+      lines.push(`- ${link(action.title, page, layout.actionPages.get(action.id)!)}`);
+    }
+    lines.push('');
+  }
+
+  lines.push(...linkList(doc.links));
+  return lines.join('\n');
+};
+
+/**
+ * Render every page of the site as Markdown
+ * @returns Page path -> Markdown
+ */
+export const renderMarkdownPages = (doc: SystemDocumentation, layout: SiteLayout): Map<string, string> => {
+  const pages = new Map<string, string>([[INDEX_PAGE, renderIndex(doc, layout)]]);
+
+  for (const department of doc.departments) {
+    for (const practiceGroup of department.practice_groups) {
+      const groupPage = layout.practiceGroupPages.get(practiceGroup.id)!;
+      const parent = { name: practiceGroup.name, page: groupPage };
+
+      pages.set(groupPage, renderPracticeGroup(groupPage, practiceGroup, department.name, layout));
+
+      for (const documented of practiceGroup.actions) {
+        const page = layout.actionPages.get(documented.action.id)!;
+        pages.set(page, renderAction(page, documented, layout, parent));
+      }
+
+      for (const sequence of practiceGroup.sequences) {
+        const page = layout.sequencePages.get(sequence.id)!;
+        pages.set(page, renderSequence(page, sequence, layout, parent));
+      }
+    }
+  }
+
+  for (const documented of doc.unassigned_actions) {
+    const page = layout.actionPages.get(documented.action.id)!;
+    pages.set(page, renderAction(page, documented, layout, null));
+  }
+
+  return pages;
+};
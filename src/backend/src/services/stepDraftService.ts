@@ -0,0 +1,117 @@
+import { getImporter, loadImporterInput, runImporter } from './importers';
+import { getActionById } from '../db/queries';
+import {
+  createStepDraft,
+  getStepDraftById,
+  updateStepDraftSteps,
+  applyStepDraft,
+  setStepDraftStatus,
+} from '../db/stepDraftQueries';
+import { Action, ActionStep, DraftStep, DraftStepDecision, StepDraft } from '../types/models';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+
+// Ask the LLM for proposed steps and save them as a pending draft
+export const generateStepDraft = async (actionId: number, userId: number): Promise<StepDraft> => {
+  const action = await getActionById(actionId);
+  const input = await loadImporterInput(action);
+
+  if (input.screenshots.length === 0) {
+    throw new ValidationError('Action has no screenshots to draft steps from');
+  }
+
+  const run = await runImporter(getImporter('generic-screenshot'), input);
+
+  return createStepDraft({
+    action_id: actionId,
+    steps: toDraftSteps(run.rendering.steps),
+    provider: run.provider,
+    model: run.model || undefined,
+    created_by: userId,
+  });
+};
+
+// Rendered steps as proposals awaiting review
+export const toDraftSteps = (steps: ActionStep[]): DraftStep[] =>
+  steps.map((step) => ({ ...step, decision: 'pending' as DraftStepDecision, edited: false }));
+
+const getPendingDraft = async (draftId: number): Promise<StepDraft> => {
+  const draft = await getStepDraftById(draftId);
+
+  if (draft.status !== 'pending') {
+    throw new ConflictError(`Step draft has already been ${draft.status}`);
+  }
+
+  return draft;
+};
+
+export interface StepReview {
+  decision: 'accepted' | 'rejected';
+  instruction?: string;  // Replacement text
+  notes?: string;        // Replacement notes; blank removes them
+}
+
+// Accept or reject one proposed step, applying any edits either way. The
+// step is marked edited once its text or notes differ from what was proposed.
+export const reviewDraftStep = async (
+  draftId: number,
+  stepNumber: number,
+  review: StepReview
+): Promise<StepDraft> => {
+  const draft = await getPendingDraft(draftId);
+  const index = draft.steps.findIndex((step) => step.step_number === stepNumber);
+
+  if (index === -1) {
+    throw new NotFoundError('Draft step', stepNumber);
+  }
+
+  const step = { ...draft.steps[index], decision: review.decision };
+
+  if (review.instruction !== undefined && review.instruction.trim() !== step.instruction) {
+    step.instruction = review.instruction.trim();
+    step.edited = true;
+  }
+  if (review.notes !== undefined && (review.notes.trim() || undefined) !== (step.notes || undefined)) {
+    step.notes = review.notes.trim() || undefined;
+    step.edited = true;
+  }
+
+  const steps = [...draft.steps];
+  steps[index] = step;
+
+  return updateStepDraftSteps(draftId, steps);
+};
+
+// Write the accepted steps to the action, replacing its steps or appending
+// after them. Every step must be reviewed first.
+export const applyDraft = async (
+  draftId: number,
+  userId: number,
+  mode: 'replace' | 'append' = 'replace'
+): Promise<{ action: Action; draft: StepDraft }> => {
+  const draft = await getPendingDraft(draftId);
+  const pending = draft.steps.filter((step) => step.decision === 'pending').length;
+
+  if (pending > 0) {
+    throw new ValidationError(`${pending} step(s) still need to be accepted or rejected`);
+  }
+
+  const existing = mode === 'append'
+    ? (await getActionById(draft.action_id)).steps || []
+    : [];
+
+  const accepted: ActionStep[] = draft.steps
+    .filter((step) => step.decision === 'accepted')
+    .map(({ decision, edited, ...step }) => step);
+
+  const steps = [...existing, ...accepted].map((step, index) => ({
+    ...step,
+    step_number: index + 1,
+  }));
+
+  return applyStepDraft(draftId, steps, userId);
+};
+
+export const discardDraft = async (draftId: number): Promise<StepDraft> => {
+  await getPendingDraft(draftId);
+  return setStepDraftStatus(draftId, 'discarded');
+};
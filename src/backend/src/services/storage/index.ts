@@ -0,0 +1,81 @@
+import crypto from 'crypto';
+import path from 'path';
+import { Readable } from 'stream';
+import { createLocalStorage } from './localStorage';
+import { createS3Storage } from './s3Storage';
+
+export interface StoredObject {
+  stream: Readable;
+  contentType: string | null;
+  size: number | null;
+}
+
+// A place to keep uploaded files. Keys are opaque strings chosen by
+// createStorageKey; callers never see filesystem paths or bucket URLs.
+export interface StorageBackend {
+  readonly name: 'local' | 's3';
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  // Throws NotFoundError if nothing is stored under the key
+  get(key: string): Promise<StoredObject>;
+  // Deleting a missing key is not an error
+  delete(key: string): Promise<void>;
+  // Time-limited direct download URL, or null if the backend can't sign
+  // (the caller should stream the file through the API instead)
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string | null>;
+}
+
+// Files written before storage keys existed live directly in this directory,
+// so the local backend keeps using it by default
+const DEFAULT_LOCAL_DIR = path.join(__dirname, '../../../../../uploads');
+
+// Where the legacy server paths in screenshots.file_path point
+export const LEGACY_UPLOADS_DIR = path.resolve(DEFAULT_LOCAL_DIR);
+
+export const SIGNED_URL_EXPIRY_SECONDS = parseInt(process.env.STORAGE_SIGNED_URL_EXPIRY || '300');
+
+// Generate a new opaque key, keeping only the file extension (if it's a
+// plain one)
+export const createStorageKey = (originalName: string, prefix: string = 'screenshots'): string => {
+  const extension = path.extname(originalName).toLowerCase();
+  return `${prefix}/${crypto.randomUUID()}${/^\.[a-z0-9]{1,10}$/.test(extension) ? extension : ''}`;
+};
+
+let storage: StorageBackend | null = null;
+
+// Get the configured backend (STORAGE_BACKEND=local|s3, default local)
+export const getStorage = (): StorageBackend => {
+  if (storage) {
+    return storage;
+  }
+
+  const backend = process.env.STORAGE_BACKEND || 'local';
+
+  if (backend === 's3') {
+    const bucket = process.env.S3_BUCKET;
+    const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+    const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+
+    if (!bucket || !accessKeyId || !secretAccessKey) {
+      throw new Error('S3 storage requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+
+    storage = createS3Storage({
+      bucket,
+      accessKeyId,
+      secretAccessKey,
+      region: process.env.S3_REGION || 'us-east-1',
+      // Set for MinIO and other S3-compatible servers, e.g. http://localhost:9000
+      endpoint: process.env.S3_ENDPOINT,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+        ? process.env.S3_FORCE_PATH_STYLE === 'true'
+        : Boolean(process.env.S3_ENDPOINT),
+    });
+  } else if (backend === 'local') {
+    storage = createLocalStorage(process.env.STORAGE_LOCAL_DIR || DEFAULT_LOCAL_DIR);
+  } else {
+    throw new Error(`Unknown STORAGE_BACKEND '${backend}' (expected 'local' or 's3')`);
+  }
+
+  console.log(`🗄️  Using ${storage.name} storage backend`);
+  return storage;
+};
@@ -0,0 +1,60 @@
+import fs from 'fs';
+import fsPromises from 'fs/promises';
+import path from 'path';
+import { StorageBackend } from './index';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+
+// Stores files under a directory on the API server's disk.
+// Local files are streamed through the API, so there are no signed URLs.
+export const createLocalStorage = (rootDir: string): StorageBackend => {
+  const root = path.resolve(rootDir);
+
+  // Map a key to a path, refusing anything that escapes the root directory
+  const resolveKey = (key: string): string => {
+    const filePath = path.resolve(root, key);
+
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new ValidationError(`Invalid storage key '${key}'`);
+    }
+
+    return filePath;
+  };
+
+  return {
+    name: 'local',
+
+    put: async (key, body) => {
+      const filePath = resolveKey(key);
+      await fsPromises.mkdir(path.dirname(filePath), { recursive: true });
+      await fsPromises.writeFile(filePath, body);
+    },
+
+    get: async (key) => {
+      const filePath = resolveKey(key);
+
+      try {
+        const stats = await fsPromises.stat(filePath);
+        return {
+          stream: fs.createReadStream(filePath),
+          contentType: null,
+          size: stats.size,
+        };
+      } catch (error: any) {
+        if (error.code === 'ENOENT') {
+          throw new NotFoundError('Stored file', key);
+        }
+        throw error;
+      }
+    },
+
+    delete: async (key) => {
+      try {
+        await fsPromises.unlink(resolveKey(key));
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') throw error;
+      }
+    },
+
+    getSignedUrl: async () => null,
+  };
+};
@@ -0,0 +1,215 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { StorageBackend } from './index';
+import { NotFoundError } from '../../utils/errors';
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  endpoint?: string;        // Custom endpoint for S3-compatible servers (MinIO etc.)
+  forcePathStyle: boolean;  // http://host/bucket/key instead of http://bucket.host/key
+}
+
+// ============================================
+// AWS Signature Version 4
+// ============================================
+
+const sha256Hex = (data: string | Buffer): string =>
+  crypto.createHash('sha256').update(data).digest('hex');
+
+const hmac = (key: string | Buffer, data: string): Buffer =>
+  crypto.createHmac('sha256', key).update(data).digest();
+
+// RFC 3986 encoding, as required by SigV4 (encodeURIComponent leaves !'()* alone)
+const encodeRfc3986 = (value: string): string =>
+  encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const encodeKey = (key: string): string => key.split('/').map(encodeRfc3986).join('/');
+
+// 20130524T000000Z
+const toAmzDate = (date: Date): string => date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+
+const canonicalQueryString = (params: Record<string, string>): string =>
+  Object.keys(params)
+    .sort()
+    .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(params[name])}`)
+    .join('&');
+
+interface SigningInput {
+  method: string;
+  url: URL;
+  query: Record<string, string>;
+  headers: Record<string, string>;  // Lowercase names, must include host
+  payloadHash: string;
+  amzDate: string;
+}
+
+const sign = (config: S3StorageConfig, input: SigningInput) => {
+  const dateStamp = input.amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+
+  const headerNames = Object.keys(input.headers).sort();
+  const canonicalHeaders = headerNames
+    .map((name) => `${name}:${input.headers[name].trim()}\n`)
+    .join('');
+  const signedHeaders = headerNames.join(';');
+
+  const canonicalRequest = [
+    input.method,
+    input.url.pathname,
+    canonicalQueryString(input.query),
+    canonicalHeaders,
+    signedHeaders,
+    input.payloadHash,
+  ].join('\n');
+
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    input.amzDate,
+    scope,
+    sha256Hex(canonicalRequest),
+  ].join('\n');
+
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region), 's3'),
+    'aws4_request'
+  );
+
+  return {
+    credential: `${config.accessKeyId}/${scope}`,
+    signedHeaders,
+    signature: hmac(signingKey, stringToSign).toString('hex'),
+  };
+};
+
+/**
+ * Build a presigned GET URL (query-string authentication)
+ * Exported separately so it can be checked against AWS's published examples
+ */
+export const presignGetUrl = (
+  config: S3StorageConfig,
+  url: URL,
+  expiresInSeconds: number,
+  now: Date = new Date()
+): string => {
+  const amzDate = toAmzDate(now);
+  const query: Record<string, string> = {
+    'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+    'X-Amz-Credential': `${config.accessKeyId}/${amzDate.slice(0, 8)}/${config.region}/s3/aws4_request`,
+    'X-Amz-Date': amzDate,
+    'X-Amz-Expires': String(expiresInSeconds),
+    'X-Amz-SignedHeaders': 'host',
+  };
+
+  const { signature } = sign(config, {
+    method: 'GET',
+    url,
+    query,
+    headers: { host: url.host },
+    payloadHash: 'UNSIGNED-PAYLOAD',
+    amzDate,
+  });
+
+  return `${url.origin}${url.pathname}?${canonicalQueryString(query)}&X-Amz-Signature=${signature}`;
+};
+
+// ============================================
+// Storage backend
+// ============================================
+
+// Stores files in an S3 bucket (or any S3-compatible server such as MinIO)
+// using plain HTTP requests signed with SigV4
+export const createS3Storage = (config: S3StorageConfig): StorageBackend => {
+  const objectUrl = (key: string): URL => {
+    if (config.forcePathStyle) {
+      const endpoint = (config.endpoint || `https://s3.${config.region}.amazonaws.com`).replace(/\/$/, '');
+      return new URL(`${endpoint}/${encodeRfc3986(config.bucket)}/${encodeKey(key)}`);
+    }
+
+    const endpoint = new URL(config.endpoint || `https://s3.${config.region}.amazonaws.com`);
+    return new URL(`${endpoint.protocol}//${config.bucket}.${endpoint.host}/${encodeKey(key)}`);
+  };
+
+  // Send a header-signed request to the object at `key`
+  const request = async (
+    method: 'GET' | 'PUT' | 'DELETE',
+    key: string,
+    body?: Buffer,
+    contentType?: string
+  ): Promise<globalThis.Response> => {
+    const url = objectUrl(key);
+    const amzDate = toAmzDate(new Date());
+    const payloadHash = sha256Hex(body || '');
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    if (contentType) {
+      headers['content-type'] = contentType;
+    }
+
+    const { credential, signedHeaders, signature } = sign(config, {
+      method,
+      url,
+      query: {},
+      headers,
+      payloadHash,
+      amzDate,
+    });
+
+    // fetch sets Host itself from the URL
+    const { host, ...sentHeaders } = headers;
+
+    return fetch(url, {
+      method,
+      headers: {
+        ...sentHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${credential}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+      body,
+    });
+  };
+
+  const fail = async (response: globalThis.Response, action: string): Promise<never> => {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`S3 ${action} failed with status ${response.status}: ${detail.slice(0, 200)}`);
+  };
+
+  return {
+    name: 's3',
+
+    put: async (key, body, contentType) => {
+      const response = await request('PUT', key, body, contentType);
+      if (!response.ok) await fail(response, 'upload');
+    },
+
+    get: async (key) => {
+      const response = await request('GET', key);
+
+      if (response.status === 404) {
+        throw new NotFoundError('Stored file', key);
+      }
+      if (!response.ok || !response.body) return fail(response, 'download');
+
+      const length = response.headers.get('content-length');
+      return {
+        stream: Readable.fromWeb(response.body),
+        contentType: response.headers.get('content-type'),
+        size: length ? parseInt(length) : null,
+      };
+    },
+
+    delete: async (key) => {
+      const response = await request('DELETE', key);
+      // S3 answers 204 even for missing keys; some compatible servers send 404
+      if (!response.ok && response.status !== 404) await fail(response, 'delete');
+    },
+
+    getSignedUrl: async (key, expiresInSeconds) =>
+      presignGetUrl(config, objectUrl(key), expiresInSeconds),
+  };
+};
@@ -0,0 +1,205 @@
+import * as workspaceQueries from '../db/workspaceQueries';
+import { getWorkspaceExportData, importWorkspaceData } from '../db/workspaceTransferQueries';
+import { loadScreenshotImage } from './screenshotService';
+import { applyScreenshotRedactions, maskScreenshot, scanChangedScreenshot } from './screenshotRedactionService';
+import { enqueueOcrJob } from '../db/ocrJobQueries';
+import { getStorage, createStorageKey } from './storage';
+import { validateWorkspaceExportData } from '../utils/validation';
+import { ValidationError } from '../utils/errors';
+import {
+  ImportConflictStrategy,
+  Screenshot,
+  WorkspaceExport,
+  WorkspaceImportResult,
+} from '../types/models';
+
+export const WORKSPACE_EXPORT_FORMAT = 'techledger-workspace';
+
+// Bump when the export shape changes; imports accept this version and older.
+// 2: screenshots' OCR text is masked, and they say whether they were scanned
+export const WORKSPACE_EXPORT_VERSION = 2;
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Export a workspace as JSON
+ * @param options.includeFiles - Embed each screenshot's image as base64.
+ *   Imports only take embedded images, so without files the screenshots
+ *   aren't restored.
+ * @throws NotFoundError if the workspace doesn't exist
+ */
+export const exportWorkspace = async (
+  workspaceId: number,
+  options: { includeFiles: boolean }
+): Promise<WorkspaceExport> => {
+  const workspace = await workspaceQueries.getWorkspaceById(workspaceId);
+  const data = await getWorkspaceExportData(workspaceId);
+
+  // Sensitive text stays in the images, where the exported redactions
+  // cover it
+  data.screenshots = data.screenshots.map((row) => maskScreenshot(row as Screenshot));
+
+  if (options.includeFiles) {
+    for (const row of data.screenshots) {
+      try {
+        row.file = (await loadScreenshotImage(row as Screenshot)).toString('base64');
+      } catch (error) {
+        // Exported without its image; importing it reports it as skipped
+        console.error(`Failed to read image for screenshot ${row.id}:`, error);
+        row.file = null;
+      }
+    }
+  }
+
+  return {
+    format: WORKSPACE_EXPORT_FORMAT,
+    version: WORKSPACE_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    workspace: { id: workspace.id, name: workspace.name },
+    data,
+  };
+};
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+// Content types served back as given; anything else is stored as plain bytes
+const IMPORTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif'];
+
+/**
+ * Check an uploaded document is a workspace export this version can read
+ * @throws ValidationError if not
+ */
+const assertWorkspaceExport = (input: any): WorkspaceExport => {
+  if (!input || typeof input !== 'object' || input.format !== WORKSPACE_EXPORT_FORMAT) {
+    throw new ValidationError(`Not a workspace export (expected format '${WORKSPACE_EXPORT_FORMAT}')`);
+  }
+
+  if (!Number.isInteger(input.version) || input.version < 1 || input.version > WORKSPACE_EXPORT_VERSION) {
+    throw new ValidationError(
+      `Unsupported workspace export version ${input.version} (this server reads up to ${WORKSPACE_EXPORT_VERSION})`
+    );
+  }
+
+  if (!input.data || typeof input.data !== 'object') {
+    throw new ValidationError('Workspace export has no data');
+  }
+
+  const workspace = input.workspace;
+  if (!workspace || !Number.isInteger(workspace.id) || typeof workspace.name !== 'string'
+    || workspace.name.length > 255 || typeof input.exported_at !== 'string' || isNaN(Date.parse(input.exported_at))) {
+    throw new ValidationError('Workspace export has no valid source workspace or export date');
+  }
+
+  return input as WorkspaceExport;
+};
+
+/**
+ * Import a workspace export into a workspace, under new IDs, as the given
+ * user. All rows go in one transaction. Embedded screenshot images are
+ * stored under new keys first; screenshots without one are skipped with a
+ * warning. Storage keys and server paths in the document are never read,
+ * since whoever made it could point them at any file.
+ * @param options.dryRun - Validate and report without writing anything
+ * @throws ValidationError if the document isn't a valid export
+ */
+export const importWorkspace = async (
+  target: { workspaceId: number; userId: number },
+  input: any,
+  options: { onConflict: ImportConflictStrategy; dryRun: boolean }
+): Promise<WorkspaceImportResult> => {
+  const document = assertWorkspaceExport(input);
+  validateWorkspaceExportData(document.data, { workspace_id: target.workspaceId, user_id: target.userId });
+
+  const storage = getStorage();
+  const storedKeys = new Map<number, string>();  // Screenshot ID in the export -> new key
+  const warnings: string[] = [];
+  const screenshots: Array<Record<string, any>> = [];
+
+  const removeStored = async (keys: string[]) => {
+    for (const key of keys) {
+      await storage.delete(key).catch((error) => {
+        console.error(`Failed to clean up stored file '${key}':`, error);
+      });
+    }
+  };
+
+  try {
+    for (const row of document.data.screenshots || []) {
+      if (typeof row.file !== 'string' || row.file.length === 0) {
+        warnings.push(`screenshots ${row.id}: image not embedded, skipped`);
+        continue;
+      }
+
+      const image = Buffer.from(row.file, 'base64');
+      const key = createStorageKey(row.original_filename || '');
+      const contentType = IMPORTED_IMAGE_TYPES.includes(row.content_type)
+        ? row.content_type
+        : 'application/octet-stream';
+
+      if (!options.dryRun) {
+        await storage.put(key, image, contentType);
+        storedKeys.set(row.id, key);
+      }
+
+      const { file: _file, storage_key: _key, file_path: _path, ...columns } = row;
+      screenshots.push({ ...columns, storage_key: key, file_path: null, content_type: contentType, file_size: image.length });
+    }
+  } catch (error) {
+    await removeStored([...storedKeys.values()]);
+    throw error;
+  }
+
+  let result: WorkspaceImportResult;
+  try {
+    result = {
+      source: { workspace: document.workspace, exported_at: document.exported_at },
+      ...await importWorkspaceData(
+        target.workspaceId,
+        target.userId,
+        { ...document.data, screenshots },
+        options
+      ),
+    };
+  } catch (error) {
+    await removeStored([...storedKeys.values()]);
+    throw error;
+  }
+
+  // Images for screenshots that didn't go in (conflicts stopped the import,
+  // or their action was skipped)
+  const imported = result.imported ? result.id_map.screenshots || {} : {};
+  await removeStored([...storedKeys].filter(([id]) => !(id in imported)).map(([, key]) => key));
+
+  // Redacted copies aren't exported; make them for the imported screenshots
+  // from their redactions. One that wasn't scanned can only be scanned from
+  // OCR text older exports kept raw; otherwise OCR runs again first.
+  const withRedactions = new Set((document.data.screenshot_redactions || []).map((row) => row.screenshot_id));
+  for (const row of screenshots) {
+    if (!(row.id in imported)) continue;
+    const id = imported[row.id];
+
+    if (row.scanned === true || withRedactions.has(row.id)) {
+      await applyScreenshotRedactions(id).catch((error) => {
+        console.error(`❌ Redacting imported screenshot ${id} failed:`, error);
+      });
+    } else if (document.version < 2 && row.ocr_data) {
+      await scanChangedScreenshot(id);
+    } else {
+      await enqueueOcrJob(id).catch((error) => {
+        console.error(`Failed to queue OCR for screenshot ${id}:`, error);
+      });
+    }
+  }
+
+  const missing = (document.data.screenshots || []).length - screenshots.length;
+  if (missing > 0) {
+    result.skipped.screenshots = (result.skipped.screenshots || 0) + missing;
+  }
+  result.warnings = [...warnings, ...result.warnings];
+
+  return result;
+};
@@ -0,0 +1,412 @@
+import * as zohoWorkflowQueries from '../db/zohoWorkflowQueries';
+import { ZohoWorkflowImportResult, ZohoWorkflowTriggerType } from '../types/models';
+import {
+  Criteria,
+  FieldUpdate,
+  WorkflowCondition,
+  WorkflowTrigger,
+  ZOHO_EMPTY_VALUE,
+  ZOHO_EXECUTION_TIME,
+  ZohoWorkflow,
+  ZohoWorkflowAction,
+  normalizeZohoOperator,
+} from '../types/zohoWorkflow';
+import { formatCriteriaExpression, getReferencedCriteria, parseCriteriaPattern } from '../utils/criteriaPattern';
+import { validateZohoWorkflow } from '../utils/validation';
+import { ValidationError } from '../utils/errors';
+import { escapeMarkdown } from './siteExport/markdown';
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/**
+ * Read when a rule runs from Zoho's trigger description
+ */
+export const classifyZohoTrigger = (trigger: WorkflowTrigger): ZohoWorkflowTriggerType => {
+  const when = trigger.when.toLowerCase();
+
+  if ((trigger.modified_fields && trigger.modified_fields.length > 0) || when.includes('fields are modified')) {
+    return 'on_field_modify';
+  }
+  if (/created or (is )?edited/.test(when)) return 'on_create_or_edit';
+  if (when.includes('created')) return 'on_create';
+  if (when.includes('edited')) return 'on_edit';
+  return 'other';
+};
+
+const unique = (values: string[]): string[] => [...new Set(values.map((value) => value.trim()))];
+
+// Every action a condition runs, instant or scheduled
+const allActions = (condition: WorkflowCondition): ZohoWorkflowAction[] => [
+  ...condition.actions.instant_actions,
+  ...(condition.actions.scheduled_actions || []).map((scheduled) => scheduled.action),
+];
+
+/**
+ * The fields a rule reads (criteria and watched fields) and writes, and the
+ * functions it calls
+ */
+export const extractZohoRelationships = (workflow: ZohoWorkflow) => {
+  const actions = workflow.conditions.flatMap(allActions);
+
+  return {
+    fields_read: unique([
+      ...(workflow.trigger.modified_fields || []).map((modified) => modified.field),
+      ...workflow.conditions.flatMap((condition) => condition.criteria.map((criterion) => criterion.field)),
+    ]),
+    fields_written: unique(actions.flatMap((action) =>
+      action.type === 'Field Update' ? action.updates.map((update) => update.field) : [])),
+    functions_called: unique(actions.flatMap((action) =>
+      action.type === 'Function' ? [action.function_name] : [])),
+  };
+};
+
+// The Zoho UI cuts long names short; a transcribed name ending like this
+// won't match the real field update or function
+const isTruncated = (name: string): boolean => /(\.\.\.|…)$/.test(name.trim());
+
+/**
+ * Things in a valid rule that are probably transcription mistakes
+ */
+export const getZohoWorkflowWarnings = (workflow: ZohoWorkflow): string[] => {
+  const warnings: string[] = [];
+
+  workflow.conditions.forEach((condition, index) => {
+    const path = `conditions[${index}]`;
+
+    if (condition.criteria_pattern) {
+      const used = new Set(getReferencedCriteria(parseCriteriaPattern(condition.criteria_pattern)));
+      const unused = condition.criteria.filter((criterion) => !used.has(criterion.number));
+      if (unused.length > 0) {
+        warnings.push(`${path}.criteria_pattern: criteria ${unused.map((criterion) => criterion.number).join(', ')} are not used`);
+      }
+    }
+
+    allActions(condition).forEach((action) => {
+      if (action.type === 'Function' && isTruncated(action.function_name)) {
+        warnings.push(`${path}: function name '${action.function_name}' looks truncated`);
+      }
+      if (action.type === 'Field Update') {
+        action.updates.forEach((update) => {
+          if (isTruncated(update.name)) {
+            warnings.push(`${path}: field update name '${update.name}' looks truncated`);
+          }
+          if (update.set_as_empty && update.value !== undefined && update.value !== null && update.value !== ZOHO_EMPTY_VALUE) {
+            warnings.push(`${path}: field update '${update.name}' clears ${update.field} but also gives a value`);
+          }
+        });
+      }
+    });
+  });
+
+  return warnings;
+};
+
+// ============================================================================
+// DOCUMENTATION
+// ============================================================================
+
+// "a", "a or b", "a, b or c"
+const listOf = (items: string[], conjunction: string): string =>
+  items.length <= 1
+    ? items.join('')
+    : `${items.slice(0, -1).join(', ')} ${conjunction} ${items[items.length - 1]}`;
+
+/**
+ * How descriptions mark up field names, quoted values, function names and
+ * asides: Markdown for documentation pages, plain text for action steps
+ */
+export interface ZohoTextStyle {
+  field(name: string): string;
+  text(value: string): string;
+  code(name: string): string;
+  aside(text: string): string;
+}
+
+const MARKDOWN_STYLE: ZohoTextStyle = {
+  field: (name) => `**${escapeMarkdown(name)}**`,
+  text: escapeMarkdown,
+  code: (name) => `\`${name}\``,
+  aside: (text) => `*(${escapeMarkdown(text)})*`,
+};
+
+export const PLAIN_TEXT_STYLE: ZohoTextStyle = {
+  field: (name) => name,
+  text: (value) => value,
+  code: (name) => name,
+  aside: (text) => `(${text})`,
+};
+
+/**
+ * A criterion as a sentence fragment, e.g. **Lead Status** is "Inbound Request"
+ */
+export const describeZohoCriterion = (criterion: Criteria, style: ZohoTextStyle = MARKDOWN_STYLE): string => {
+  const quote = (text: string) => `"${style.text(text)}"`;
+  const field = style.field(criterion.field);
+  const operator = normalizeZohoOperator(criterion.operator);
+  const value = criterion.value === undefined || criterion.value === null ? '' : String(criterion.value).trim();
+  // Picklist criteria list several values, comma-separated
+  const values = value.split(',').map((part) => part.trim()).filter(Boolean).map(quote);
+
+  switch (operator) {
+    case 'IS EMPTY':
+      return `${field} is empty`;
+    case 'IS NOT EMPTY':
+      return `${field} is not empty`;
+    case 'IS':
+      if (/^selected$/i.test(value)) return `${field} is selected`;
+      if (/^not selected$/i.test(value)) return `${field} is not selected`;
+      return values.length > 1 ? `${field} is ${listOf(values, 'or')}` : `${field} is ${quote(value)}`;
+    case "ISN'T":
+      return values.length > 1 ? `${field} is neither ${listOf(values, 'nor')}` : `${field} is not ${quote(value)}`;
+    case 'CONTAINS':
+      return `${field} contains ${quote(value)}`;
+    case "DOESN'T CONTAIN":
+      return `${field} doesn't contain ${quote(value)}`;
+    case 'STARTS WITH':
+      return `${field} starts with ${quote(value)}`;
+    case 'ENDS WITH':
+      return `${field} ends with ${quote(value)}`;
+    default:
+      return `${field} ${style.text(operator.toLowerCase())}${value ? ` ${quote(value)}` : ''}`;
+  }
+};
+
+const describeFieldUpdate = (update: FieldUpdate, workflowModule: string, style: ZohoTextStyle): string => {
+  const field = style.field(update.field);
+  const where = update.module.trim() !== workflowModule.trim() ? ` on the ${style.text(update.module)} record` : '';
+  const name = ` ${style.aside(update.name)}`;
+
+  if (update.set_as_empty || update.value === ZOHO_EMPTY_VALUE) {
+    return `Clear ${field}${where}${name}`;
+  }
+
+  let value = update.value === ZOHO_EXECUTION_TIME
+    ? 'the time the rule runs'
+    : typeof update.value === 'boolean'
+      ? (update.value ? 'selected' : 'not selected')
+      : `"${style.text(String(update.value))}"`;
+
+  if (update.calculation) {
+    value += ` ${update.calculation.operator} ${update.calculation.amount} ${update.calculation.unit}`;
+  }
+
+  return `Set ${field}${where} to ${value}${name}`;
+};
+
+/**
+ * What an action does, one line per effect
+ */
+export const describeZohoAction = (
+  action: ZohoWorkflowAction,
+  workflowModule: string,
+  style: ZohoTextStyle = MARKDOWN_STYLE
+): string[] => {
+  switch (action.type) {
+    case 'Field Update':
+      return action.updates.map((update) => describeFieldUpdate(update, workflowModule, style));
+    case 'Function':
+      return [`Run the function ${style.code(action.function_name)}`];
+    case 'Assign Owner':
+      return [`Assign the record owner (${style.text(action.assignment_rule)})`];
+    case 'Zoho Cliq Notification': {
+      const recipients = action.users.length > 0
+        ? listOf(action.users.map(style.text), 'and')
+        : style.text(action.notify_to || 'no one');
+      return [`Notify ${recipients} in Zoho Cliq ${style.aside(action.notification_name)}: "${style.text(action.message)}"`];
+    }
+  }
+};
+
+/**
+ * A condition's actions, instant ones first, scheduled ones prefixed with
+ * their delay
+ */
+export const describeZohoConditionActions = (
+  condition: WorkflowCondition,
+  workflowModule: string,
+  style: ZohoTextStyle = MARKDOWN_STYLE
+): { instant: string[]; scheduled: string[] } => ({
+  instant: condition.actions.instant_actions.flatMap((action) => describeZohoAction(action, workflowModule, style)),
+  scheduled: (condition.actions.scheduled_actions || []).flatMap(({ action, schedule }) => {
+    const when = `After ${schedule.delay} ${schedule.unit}${schedule.condition ? ` (${style.text(schedule.condition)})` : ''}`;
+    return describeZohoAction(action, workflowModule, style)
+      .map((line) => `${when}: ${line.charAt(0).toLowerCase()}${line.slice(1)}`);
+  }),
+});
+
+const TRIGGER_SUMMARIES: Record<ZohoWorkflowTriggerType, string> = {
+  on_create: 'Runs when a record is created.',
+  on_edit: 'Runs when a record is edited.',
+  on_create_or_edit: 'Runs when a record is created, and whenever it is edited to meet a condition.',
+  on_field_modify: 'Runs when any of these fields change:',
+  other: 'Runs as described by Zoho:',
+};
+
+const renderCondition = (condition: WorkflowCondition, workflowModule: string): string[] => {
+  const lines = [`## Condition ${condition.condition_number}`, ''];
+  const byNumber = new Map(condition.criteria.map((criterion) => [criterion.number, criterion]));
+
+  if (condition.criteria.length === 0) {
+    lines.push(condition.note ? escapeMarkdown(condition.note) : 'Applies to every record.', '');
+  } else {
+    const expression = condition.criteria_pattern
+      ? parseCriteriaPattern(condition.criteria_pattern)
+      : { type: 'criterion' as const, number: condition.criteria[0].number };
+    const describe = (number: number) => describeZohoCriterion(byNumber.get(number)!);
+
+    if (expression.type === 'criterion') {
+      lines.push(`Applies when ${describe(expression.number)}.`, '');
+    } else if (expression.operands.every((operand) => operand.type === 'criterion')) {
+      lines.push(`Applies when ${expression.type === 'and' ? 'all' : 'any'} of these are true:`, '');
+      lines.push(...getReferencedCriteria(expression).map((number) => `- ${describe(number)}`), '');
+    } else {
+      lines.push(`Applies when \`${formatCriteriaExpression(expression)}\`, where:`, '');
+      lines.push(...getReferencedCriteria(expression)
+        .sort((a, b) => a - b)
+        .map((number) => `${number}. ${describe(number)}`), '');
+    }
+
+    if (condition.note) {
+      lines.push(`*${escapeMarkdown(condition.note)}*`, '');
+    }
+  }
+
+  const { instant, scheduled } = describeZohoConditionActions(condition, workflowModule);
+
+  if (instant.length === 0 && scheduled.length === 0) {
+    lines.push('Does nothing.', '');
+  }
+  if (instant.length > 0) {
+    lines.push('**Then, straight away:**', '', ...instant.map((line) => `- ${line}`), '');
+  }
+  if (scheduled.length > 0) {
+    lines.push('**Later:**', '', ...scheduled.map((line) => `- ${line}`), '');
+  }
+
+  return lines;
+};
+
+/**
+ * A rule as a Markdown page: when it runs, what each condition checks and
+ * what it then does, and what the rule touches. Zoho checks conditions in
+ * order and runs the actions of the first one that matches.
+ */
+export const renderZohoWorkflowDocumentation = (workflow: ZohoWorkflow): string => {
+  const triggerType = classifyZohoTrigger(workflow.trigger);
+  const relationships = extractZohoRelationships(workflow);
+  const lines = [
+    `# ${escapeMarkdown(workflow.workflow_name)}`,
+    '',
+    `Zoho CRM workflow rule on **${escapeMarkdown(workflow.module)}**.`,
+    '',
+    '## When it runs',
+    '',
+    TRIGGER_SUMMARIES[triggerType],
+    '',
+  ];
+
+  if (triggerType === 'on_field_modify' && workflow.trigger.modified_fields) {
+    lines.push(...workflow.trigger.modified_fields.map((modified) =>
+      `- **${escapeMarkdown(modified.field)}** ${escapeMarkdown(modified.modification)}`), '');
+    if (workflow.trigger.repeat_on_modification !== undefined) {
+      lines.push(workflow.trigger.repeat_on_modification
+        ? 'It runs every time they change.'
+        : 'It only runs the first time they change.', '');
+    }
+  }
+
+  lines.push(`> ${escapeMarkdown(workflow.trigger.when)}`, '');
+
+  if (workflow.conditions.length === 0) {
+    lines.push('The rule has no conditions and does nothing.', '');
+  } else if (workflow.conditions.length > 1) {
+    lines.push('Conditions are checked in order; only the first that applies runs its actions.', '');
+  }
+
+  workflow.conditions.forEach((condition) => lines.push(...renderCondition(condition, workflow.module)));
+
+  const touches = [
+    relationships.fields_read.length > 0 ? `- Reads: ${relationships.fields_read.map(escapeMarkdown).join(', ')}` : null,
+    relationships.fields_written.length > 0 ? `- Writes: ${relationships.fields_written.map(escapeMarkdown).join(', ')}` : null,
+    relationships.functions_called.length > 0 ? `- Calls: ${relationships.functions_called.map((name) => `\`${name}\``).join(', ')}` : null,
+  ].filter((line): line is string => line !== null);
+
+  if (touches.length > 0) {
+    lines.push('## What it touches', '', ...touches, '');
+  }
+
+  return lines.join('\n');
+};
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * The workflows in an import body: one workflow, an array, or
+ * { workflows: [...] }
+ */
+export const zohoWorkflowsIn = (input: any): any[] =>
+  Array.isArray(input) ? input : Array.isArray(input?.workflows) ? input.workflows : [input];
+
+/**
+ * Validate and store Zoho workflows against a system. Accepts one workflow,
+ * an array, or { workflows: [...] }. Either every workflow is stored or
+ * none is; one already documented under the same name is replaced.
+ * @throws ValidationError listing invalid fields (prefixed `workflows[i].`
+ *   when several were sent)
+ */
+export const importZohoWorkflows = async (
+  systemId: number,
+  input: any,
+  userId: number | null
+): Promise<ZohoWorkflowImportResult> => {
+  const batch = Array.isArray(input) || Array.isArray(input?.workflows);
+  const workflows = zohoWorkflowsIn(input);
+
+  if (workflows.length === 0) {
+    throw new ValidationError('No workflows to import');
+  }
+
+  const errors: Record<string, string> = {};
+  const names = new Map<string, number>();
+
+  workflows.forEach((workflow, index) => {
+    const prefix = batch ? `workflows[${index}].` : '';
+
+    try {
+      validateZohoWorkflow(workflow);
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      Object.entries(error.errors).forEach(([field, message]) => { errors[`${prefix}${field}`] = message; });
+      return;
+    }
+
+    const name = workflow.workflow_name.trim().toLowerCase();
+    if (names.has(name)) {
+      errors[`${prefix}workflow_name`] = `Same name as workflows[${names.get(name)}]`;
+    }
+    names.set(name, index);
+  });
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError('Invalid Zoho workflow', errors);
+  }
+
+  const { created, updated } = await zohoWorkflowQueries.saveZohoWorkflows(
+    systemId,
+    (workflows as ZohoWorkflow[]).map((workflow) => ({
+      definition: workflow,
+      trigger_type: classifyZohoTrigger(workflow.trigger),
+      ...extractZohoRelationships(workflow),
+    })),
+    userId
+  );
+
+  const warnings = (workflows as ZohoWorkflow[]).flatMap((workflow, index) =>
+    getZohoWorkflowWarnings(workflow).map((warning) => `${batch ? `workflows[${index}].` : ''}${warning}`));
+
+  return { created, updated, warnings };
+};
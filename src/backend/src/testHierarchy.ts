@@ -13,6 +13,8 @@ import {
   getSystemHierarchy,
 } from './db/hierarchyQueries';
 
+import { getOrCreatePersonalWorkspace } from './db/workspaceQueries';
+
 async function testFullHierarchy() {
   console.log('🧪 Testing Full Hierarchy...\n');
 
@@ -24,7 +26,11 @@ async function testFullHierarchy() {
     });
     console.log('✅ User created:', user.id);
 
+    const workspace = await getOrCreatePersonalWorkspace(user);
+    console.log('✅ Workspace ready:', workspace.id);
+
     const system = await createSystem({
+      workspace_id: workspace.id,
       user_id: user.id,
       name: 'Salesforce',
       description: 'CRM System'
@@ -53,6 +53,9 @@ import {
   validateCreateScreenshot,
 } from '../utils/validation';
 
+import { getOrCreatePersonalWorkspace } from '../db/workspaceQueries';
+import { createStorageKey } from '../services/storage';
+
 // Test tracking
 let testsRun = 0;
 let testsPassed = 0;
@@ -138,7 +141,9 @@ async function main() {
   log('\n--- System Tests ---', 'info');
 
   await runTest('Create System', async () => {
+    const workspace = await getOrCreatePersonalWorkspace(testUser);
     const input = {
+      workspace_id: workspace.id,
       user_id: testUser.id,
       name: 'Test System',
       description: 'A test business system',
@@ -249,7 +254,7 @@ async function main() {
   await runTest('Create Screenshot', async () => {
     const input = {
       action_id: testAction.id,
-      file_path: '/uploads/test-screenshot.png',
+      storage_key: createStorageKey('test-screenshot.png'),
       original_filename: 'test-screenshot.png',
       ocr_data: {
         full_text: 'Sample OCR text',
@@ -267,6 +272,17 @@ async function main() {
     if (!testScreenshot.ocr_data) throw new Error('OCR data not saved');
   });
 
+  await runTest('Reject Screenshot Storage Keys Not From an Upload', async () => {
+    for (const storage_key of ['../../etc/passwd', 'screenshots/redacted/copy.png']) {
+      try {
+        validateCreateScreenshot({ action_id: testAction.id, storage_key });
+        throw new Error(`Accepted storage key '${storage_key}'`);
+      } catch (error: any) {
+        if (!error.errors?.storage_key) throw error;
+      }
+    }
+  });
+
   await runTest('Get Screenshot by ID', async () => {
     const screenshot = await getScreenshotById(testScreenshot.id);
     if (screenshot.id !== testScreenshot.id) {
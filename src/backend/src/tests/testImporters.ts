@@ -0,0 +1,158 @@
+/**
+ * TechLedger Importer Plugin Test Script
+ *
+ * Replays recorded extractor replies through each importer plugin and
+ * checks what it makes of them. Every plugin needs at least one fixture in
+ * src/tests/fixtures/importers/<plugin name>/. No database or model is used.
+ *
+ * Fixture format:
+ * {
+ *   "description": "...",
+ *   "input": { "title", "description", "screenshots": [...] },
+ *   "llm_response": the reply the extractor gets, as JSON,
+ *   "expected": {
+ *     "output"?: the checked output,
+ *     "steps"?: the rendered steps,
+ *     "warnings"?: [...],
+ *     "error"?: the ExtractionError's problems by path
+ *   }
+ * }
+ * Usage: ts-node src/tests/testImporters.ts [plugin name]
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import { isDeepStrictEqual } from 'util';
+import { ImporterInput, listImporters, runImporter } from '../services/importers';
+import { LlmProvider } from '../services/llm';
+import { ExtractionError } from '../utils/errors';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'importers');
+
+interface ImporterFixture {
+  description: string;
+  input: ImporterInput;
+  llm_response: unknown;
+  expected: {
+    output?: unknown;
+    steps?: unknown;
+    warnings?: string[];
+    error?: Record<string, string>;
+  };
+}
+
+// Test tracking
+let testsRun = 0;
+let testsPassed = 0;
+let testsFailed = 0;
+
+function log(message: string, type: 'info' | 'success' | 'error' = 'info') {
+  const colors = {
+    info: '\x1b[36m',    // Cyan
+    success: '\x1b[32m', // Green
+    error: '\x1b[31m',   // Red
+  };
+  const reset = '\x1b[0m';
+  console.log(`${colors[type]}${message}${reset}`);
+}
+
+async function runTest(name: string, testFn: () => Promise<void>) {
+  testsRun++;
+  try {
+    await testFn();
+    testsPassed++;
+    log(`✓ ${name}`, 'success');
+  } catch (error: any) {
+    testsFailed++;
+    log(`✗ ${name}`, 'error');
+    log(`  Error: ${error.message}`, 'error');
+  }
+}
+
+// Answers every request with the fixture's recorded reply
+const replay = (response: unknown): LlmProvider => ({
+  name: 'stub',
+  complete: async () => ({ text: JSON.stringify(response), model: 'fixture' }),
+});
+
+function assertEqual(label: string, actual: unknown, expected: unknown) {
+  if (!isDeepStrictEqual(actual, expected)) {
+    throw new Error(`${label} differ\n    expected: ${JSON.stringify(expected)}\n    actual:   ${JSON.stringify(actual)}`);
+  }
+}
+
+async function loadFixtures(importerName: string): Promise<Array<{ file: string; fixture: ImporterFixture }>> {
+  const dir = path.join(FIXTURES_DIR, importerName);
+  const files = (await fs.readdir(dir).catch(() => [] as string[]))
+    .filter((file) => file.endsWith('.json'))
+    .sort();
+
+  return Promise.all(files.map(async (file) => ({
+    file,
+    fixture: JSON.parse(await fs.readFile(path.join(dir, file), 'utf8')) as ImporterFixture,
+  })));
+}
+
+async function main() {
+  log('\n=== TechLedger Importer Plugin Tests ===\n', 'info');
+
+  const only = process.argv[2];
+  const importers = listImporters().filter((importer) => !only || importer.name === only);
+
+  if (importers.length === 0) {
+    log(`No importer named '${only}'`, 'error');
+    process.exit(1);
+  }
+
+  for (const importer of importers) {
+    log(`${importer.name} (${importer.platform})`, 'info');
+    const fixtures = await loadFixtures(importer.name);
+
+    if (fixtures.length === 0) {
+      await runTest(`${importer.name} has fixtures`, async () => {
+        throw new Error(`Add at least one to ${path.join(FIXTURES_DIR, importer.name)}`);
+      });
+      continue;
+    }
+
+    for (const { file, fixture } of fixtures) {
+      await runTest(`${file}: ${fixture.description}`, async () => {
+        const { expected } = fixture;
+        let run;
+
+        try {
+          run = await runImporter(importer, fixture.input, replay(fixture.llm_response));
+        } catch (error) {
+          if (!(error instanceof ExtractionError) || !expected.error) throw error;
+          assertEqual('Errors', error.errors, expected.error);
+          return;
+        }
+
+        if (expected.error) throw new Error('Expected the run to fail');
+        if (expected.output !== undefined) assertEqual('Outputs', run.output, expected.output);
+        if (expected.steps !== undefined) assertEqual('Steps', run.rendering.steps, expected.steps);
+        if (expected.warnings !== undefined) assertEqual('Warnings', run.warnings, expected.warnings);
+      });
+    }
+  }
+
+  log('\n=== Test Results ===', 'info');
+  log(`Total Tests: ${testsRun}`, 'info');
+  log(`Passed: ${testsPassed}`, 'success');
+  log(`Failed: ${testsFailed}`, testsFailed > 0 ? 'error' : 'success');
+
+  if (testsFailed === 0) {
+    log('\n🎉 All importer tests passed!', 'success');
+  } else {
+    log('\n❌ Some tests failed. Check the errors above.', 'error');
+  }
+
+  process.exit(testsFailed > 0 ? 1 : 0);
+}
+
+// Run tests
+main().catch((error) => {
+  log(`\n❌ Fatal error: ${error.message}`, 'error');
+  console.error(error);
+  process.exit(1);
+});
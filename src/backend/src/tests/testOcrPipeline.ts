@@ -0,0 +1,135 @@
+/**
+ * TechLedger Screenshot Pipeline Test Script
+ *
+ * Runs the upload → OCR queue → worker pipeline end to end using local
+ * storage in a temp directory and the fake OCR provider, so no network
+ * access or Google credentials are needed (only the database)
+ * Usage: ts-node src/tests/testOcrPipeline.ts
+ */
+
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+
+// Must be set before the storage/OCR backends are first used
+const storageDir = path.join(os.tmpdir(), `techledger-test-${Date.now()}`);
+process.env.STORAGE_BACKEND = 'local';
+process.env.STORAGE_LOCAL_DIR = storageDir;
+process.env.OCR_PROVIDER = 'fake';
+
+import { createUser, createSystem, createAction, getScreenshotById, deleteUser } from '../db/queries';
+import { getOrCreatePersonalWorkspace } from '../db/workspaceQueries';
+import { getLatestOcrJobForScreenshot, enqueueOcrJob } from '../db/ocrJobQueries';
+import { uploadActionScreenshot } from '../services/screenshotService';
+import { drainOcrQueue } from '../services/ocrWorker';
+import { getOcrProvider } from '../services/ocr';
+
+// Test tracking
+let testsRun = 0;
+let testsPassed = 0;
+let testsFailed = 0;
+
+function log(message: string, type: 'info' | 'success' | 'error' = 'info') {
+  const colors = {
+    info: '\x1b[36m',    // Cyan
+    success: '\x1b[32m', // Green
+    error: '\x1b[31m',   // Red
+  };
+  const reset = '\x1b[0m';
+  console.log(`${colors[type]}${message}${reset}`);
+}
+
+async function runTest(name: string, testFn: () => Promise<void>) {
+  testsRun++;
+  try {
+    await testFn();
+    testsPassed++;
+    log(`✓ ${name}`, 'success');
+  } catch (error: any) {
+    testsFailed++;
+    log(`✗ ${name}`, 'error');
+    log(`  Error: ${error.message}`, 'error');
+  }
+}
+
+async function main() {
+  log('\n=== TechLedger Screenshot Pipeline Tests ===\n', 'info');
+
+  const user = await createUser({ email: `pipeline-${Date.now()}@example.com`, name: 'Pipeline User' });
+  const workspace = await getOrCreatePersonalWorkspace(user);
+  const system = await createSystem({ workspace_id: workspace.id, user_id: user.id, name: 'Pipeline System' });
+  const action = await createAction({ system_id: system.id, title: 'Pipeline Action' });
+
+  const image = Buffer.from('not really a png, but the fake provider does not care');
+  const expected = await getOcrProvider().recognize(image);
+  let screenshotId: number;
+
+  await runTest('Fake provider is deterministic', async () => {
+    const again = await getOcrProvider().recognize(image);
+    if (JSON.stringify(again) !== JSON.stringify(expected)) throw new Error('Results differ');
+  });
+
+  await runTest('Upload stores the file, attaches it and queues OCR', async () => {
+    const result = await uploadActionScreenshot(
+      action.id,
+      { buffer: image, originalname: 'step-1.png', mimetype: 'image/png', size: image.length },
+      'First step'
+    );
+    screenshotId = result.screenshot.id;
+
+    if (!result.screenshot.storage_key) throw new Error('No storage key');
+    await fs.access(path.join(storageDir, result.screenshot.storage_key));
+
+    const ref = result.action.screenshots?.find((r) => r.screenshot_id === screenshotId);
+    if (!ref || ref.caption !== 'First step') throw new Error('Screenshot not attached to action');
+    if (result.ocr_job?.status !== 'queued') throw new Error('OCR job not queued');
+  });
+
+  await runTest('Worker fills in OCR data', async () => {
+    await drainOcrQueue();
+
+    const job = await getLatestOcrJobForScreenshot(screenshotId);
+    if (job?.status !== 'succeeded') throw new Error(`Job status is ${job?.status}`);
+
+    const screenshot = await getScreenshotById(screenshotId);
+    if (screenshot.ocr_data?.full_text !== expected.full_text) throw new Error('OCR text mismatch');
+  });
+
+  await runTest('Re-queueing while a job is pending returns the same job', async () => {
+    const first = await enqueueOcrJob(screenshotId);
+    const second = await enqueueOcrJob(screenshotId);
+    if (first.id !== second.id) throw new Error('Duplicate pending job created');
+    await drainOcrQueue();
+  });
+
+  // ============================================================================
+  // CLEANUP
+  // ============================================================================
+
+  await deleteUser(user.id);
+  await fs.rm(storageDir, { recursive: true, force: true });
+
+  // ============================================================================
+  // RESULTS
+  // ============================================================================
+
+  log('\n=== Test Results ===', 'info');
+  log(`Total Tests: ${testsRun}`, 'info');
+  log(`Passed: ${testsPassed}`, 'success');
+  log(`Failed: ${testsFailed}`, testsFailed > 0 ? 'error' : 'success');
+
+  if (testsFailed === 0) {
+    log('\n🎉 All pipeline tests passed!', 'success');
+  } else {
+    log('\n❌ Some tests failed. Check the errors above.', 'error');
+  }
+
+  process.exit(testsFailed > 0 ? 1 : 0);
+}
+
+// Run tests
+main().catch((error) => {
+  log(`\n❌ Fatal error: ${error.message}`, 'error');
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,297 @@
+/**
+ * TechLedger Permission Test Script
+ *
+ * Verifies that workspace roles and per-system overrides are enforced
+ * by the permission middleware, and that viewers only see screenshots
+ * published actions show
+ * Usage: ts-node src/tests/testPermissions.ts
+ *
+ * EXPLANATION FOR NODE.JS NEWCOMERS:
+ * - Middleware is just a function (req, res, next)
+ * - We call it with fake req/res objects and check whether it
+ *   called next() (allowed) or sent an error status (blocked)
+ */
+
+import { Request, Response } from 'express';
+import {
+  createUser,
+  createSystem,
+  createAction,
+  createScreenshot,
+  updateAction,
+  deleteUser,
+} from '../db/queries';
+import {
+  createWorkspace,
+  getOrCreatePersonalWorkspace,
+  addWorkspaceMember,
+  setSystemPermission,
+} from '../db/workspaceQueries';
+import { authorize, authorizePublishedScreenshot, Permission } from '../middleware/permissions';
+import { approveReview, submitForReview } from '../services/publishingService';
+import { createStorageKey } from '../services/storage';
+import { WorkspaceEntityType, WorkspaceRole } from '../types/models';
+
+// Test tracking
+let testsRun = 0;
+let testsPassed = 0;
+let testsFailed = 0;
+
+function log(message: string, type: 'info' | 'success' | 'error' = 'info') {
+  const colors = {
+    info: '\x1b[36m',    // Cyan
+    success: '\x1b[32m', // Green
+    error: '\x1b[31m',   // Red
+  };
+  const reset = '\x1b[0m';
+  console.log(`${colors[type]}${message}${reset}`);
+}
+
+async function runTest(name: string, testFn: () => Promise<void>) {
+  testsRun++;
+  try {
+    await testFn();
+    testsPassed++;
+    log(`✓ ${name}`, 'success');
+  } catch (error: any) {
+    testsFailed++;
+    log(`✗ ${name}`, 'error');
+    log(`  Error: ${error.message}`, 'error');
+  }
+}
+
+type Member = { workspaceId: number; userId: number; role: WorkspaceRole };
+
+/**
+ * Run a middleware on a fake request from a given member
+ * @returns The HTTP status it responded with, or 200 if it called next()
+ */
+async function runAs(
+  member: Member,
+  middleware: (req: Request, res: Response, next: () => void) => Promise<unknown>,
+  input: { params?: object; body?: object; query?: object }
+): Promise<number> {
+  const req = {
+    params: {},
+    body: {},
+    query: {},
+    ...input,
+    workspace: { id: member.workspaceId, userId: member.userId, role: member.role },
+  } as unknown as Request;
+
+  let status = 200;
+  const res = {
+    status(code: number) {
+      status = code;
+      return this;
+    },
+    json() {
+      return this;
+    },
+  } as unknown as Response;
+
+  await middleware(req, res, () => {});
+  return status;
+}
+
+/**
+ * Run the authorize() middleware as a given member
+ * @returns The HTTP status it responded with, or 200 if it called next()
+ */
+async function checkAccess(
+  member: Member,
+  permission: Permission,
+  entityType: WorkspaceEntityType,
+  field: string,
+  value: number,
+  source: 'params' | 'body' = 'params'
+): Promise<number> {
+  return runAs(member, authorize(permission, entityType, field, source), {
+    [source]: { [field]: String(value) },
+  });
+}
+
+/**
+ * Run the authorizePublishedScreenshot() middleware as a given member
+ */
+async function checkScreenshotVisible(member: Member, screenshotId: number): Promise<number> {
+  return runAs(member, authorizePublishedScreenshot(), { params: { id: String(screenshotId) } });
+}
+
+function expectStatus(actual: number, expected: number) {
+  if (actual !== expected) {
+    throw new Error(`Expected status ${expected}, got ${actual}`);
+  }
+}
+
+async function main() {
+  log('\n=== TechLedger Permission Tests ===\n', 'info');
+
+  const stamp = Date.now();
+  const owner = await createUser({ email: `owner-${stamp}@example.com`, name: 'Owner' });
+  const viewer = await createUser({ email: `viewer-${stamp}@example.com`, name: 'Viewer' });
+  const editor = await createUser({ email: `editor-${stamp}@example.com`, name: 'Editor' });
+
+  const workspace = await getOrCreatePersonalWorkspace(owner);
+  await addWorkspaceMember({ workspace_id: workspace.id, user_id: viewer.id, role: 'viewer' });
+  await addWorkspaceMember({ workspace_id: workspace.id, user_id: editor.id, role: 'editor' });
+
+  const system = await createSystem({
+    workspace_id: workspace.id,
+    user_id: owner.id,
+    name: 'Permission Test System',
+  });
+  const action = await createAction({ system_id: system.id, title: 'Permission Test Action' });
+  const screenshot = await createScreenshot({
+    action_id: action.id,
+    storage_key: createStorageKey('permission-test.png'),
+  });
+
+  const asOwner = { workspaceId: workspace.id, userId: owner.id, role: 'owner' as const };
+  const asViewer = { workspaceId: workspace.id, userId: viewer.id, role: 'viewer' as const };
+  const asEditor = { workspaceId: workspace.id, userId: editor.id, role: 'editor' as const };
+
+  // ============================================================================
+  // VIEWER TESTS
+  // ============================================================================
+
+  log('\n--- Viewer Tests ---', 'info');
+
+  await runTest('Viewer can read actions', async () => {
+    expectStatus(await checkAccess(asViewer, 'read', 'action', 'id', action.id), 200);
+  });
+
+  await runTest('Viewer cannot update or delete actions', async () => {
+    expectStatus(await checkAccess(asViewer, 'write', 'action', 'id', action.id), 403);
+  });
+
+  await runTest('Viewer cannot create actions in a system', async () => {
+    expectStatus(await checkAccess(asViewer, 'write', 'system', 'system_id', system.id, 'body'), 403);
+  });
+
+  await runTest('Viewer can read screenshots', async () => {
+    expectStatus(await checkAccess(asViewer, 'read', 'screenshot', 'id', screenshot.id), 200);
+  });
+
+  await runTest('Viewer cannot update or delete screenshots', async () => {
+    expectStatus(await checkAccess(asViewer, 'write', 'screenshot', 'id', screenshot.id), 403);
+  });
+
+  await runTest('Viewer cannot add screenshots to an action', async () => {
+    expectStatus(await checkAccess(asViewer, 'write', 'action', 'action_id', action.id, 'body'), 403);
+  });
+
+  // ============================================================================
+  // PUBLISHED SCREENSHOT TESTS
+  // ============================================================================
+
+  log('\n--- Published Screenshot Tests ---', 'info');
+
+  // Publish the action showing the screenshot, then add another in a draft
+  const draftScreenshot = await createScreenshot({
+    action_id: action.id,
+    storage_key: createStorageKey('permission-test-draft.png'),
+  });
+  await updateAction(action.id, { screenshots: [{ screenshot_id: screenshot.id, order: 1 }] });
+  await submitForReview('action', action.id, workspace.id, editor.id);
+  await approveReview('action', action.id, editor.id, 'editor');
+  await updateAction(action.id, {
+    screenshots: [
+      { screenshot_id: screenshot.id, order: 1 },
+      { screenshot_id: draftScreenshot.id, order: 2 },
+    ],
+  });
+
+  await runTest('Viewer can read a screenshot the published action shows', async () => {
+    expectStatus(await checkScreenshotVisible(asViewer, screenshot.id), 200);
+  });
+
+  await runTest('Viewer cannot read a screenshot only a draft shows', async () => {
+    expectStatus(await checkScreenshotVisible(asViewer, draftScreenshot.id), 404);
+  });
+
+  await runTest('Editor can read a screenshot only a draft shows', async () => {
+    expectStatus(await checkScreenshotVisible(asEditor, draftScreenshot.id), 200);
+  });
+
+  // ============================================================================
+  // EDITOR & OWNER TESTS
+  // ============================================================================
+
+  log('\n--- Editor & Owner Tests ---', 'info');
+
+  await runTest('Editor can modify actions', async () => {
+    expectStatus(await checkAccess(asEditor, 'write', 'action', 'id', action.id), 200);
+  });
+
+  await runTest('Editor cannot delete systems', async () => {
+    expectStatus(await checkAccess(asEditor, 'admin', 'system', 'id', system.id), 403);
+  });
+
+  await runTest('Owner can delete systems', async () => {
+    expectStatus(await checkAccess(asOwner, 'admin', 'system', 'id', system.id), 200);
+  });
+
+  // ============================================================================
+  // PER-SYSTEM OVERRIDE TESTS
+  // ============================================================================
+
+  log('\n--- Per-System Override Tests ---', 'info');
+
+  await runTest('Viewer with editor override can modify actions in that system', async () => {
+    await setSystemPermission({ system_id: system.id, user_id: viewer.id, role: 'editor' });
+    expectStatus(await checkAccess(asViewer, 'write', 'action', 'id', action.id), 200);
+    expectStatus(await checkAccess(asViewer, 'write', 'screenshot', 'id', screenshot.id), 200);
+  });
+
+  await runTest('Editor with viewer override cannot modify screenshots in that system', async () => {
+    await setSystemPermission({ system_id: system.id, user_id: editor.id, role: 'viewer' });
+    expectStatus(await checkAccess(asEditor, 'write', 'screenshot', 'id', screenshot.id), 403);
+  });
+
+  // ============================================================================
+  // WORKSPACE ISOLATION TESTS
+  // ============================================================================
+
+  log('\n--- Workspace Isolation Tests ---', 'info');
+
+  await runTest('Entities in other workspaces are reported as not found', async () => {
+    // The viewer owns this workspace, but the action lives in the shared one
+    const outsiderWorkspace = await createWorkspace({ name: 'Outsider Workspace', created_by: viewer.id });
+    const outsider = { workspaceId: outsiderWorkspace.id, userId: viewer.id, role: 'owner' as const };
+    expectStatus(await checkAccess(outsider, 'read', 'action', 'id', action.id), 404);
+  });
+
+  // ============================================================================
+  // CLEANUP
+  // ============================================================================
+
+  // Deleting the users cascades to their systems, actions and screenshots
+  await deleteUser(viewer.id);
+  await deleteUser(editor.id);
+  await deleteUser(owner.id);
+
+  // ============================================================================
+  // RESULTS
+  // ============================================================================
+
+  log('\n=== Test Results ===', 'info');
+  log(`Total Tests: ${testsRun}`, 'info');
+  log(`Passed: ${testsPassed}`, 'success');
+  log(`Failed: ${testsFailed}`, testsFailed > 0 ? 'error' : 'success');
+
+  if (testsFailed === 0) {
+    log('\n🎉 All permission tests passed!', 'success');
+  } else {
+    log('\n❌ Some tests failed. Check the errors above.', 'error');
+  }
+
+  process.exit(testsFailed > 0 ? 1 : 0);
+}
+
+// Run tests
+main().catch((error) => {
+  log(`\n❌ Fatal error: ${error.message}`, 'error');
+  console.error(error);
+  process.exit(1);
+});
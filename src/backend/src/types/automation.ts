@@ -0,0 +1,190 @@
+// ============================================
+// TechLedger Automations - TypeScript Types
+// src/types/automation.ts
+// Business rules a system runs by itself: what sets them off, what they
+// check and what they then do
+// ============================================
+
+export type AutomationTriggerType =
+  | 'record_created'
+  | 'record_updated'
+  | 'record_created_or_updated'
+  | 'field_changed'
+  | 'record_deleted'
+  | 'schedule'          // Runs on `schedule`
+  | 'webhook'           // Another system calls in
+  | 'manual';           // Someone runs it by hand
+
+export interface AutomationTrigger {
+  type: AutomationTriggerType;
+  record_type?: string;  // What it watches (Lead, Invoice...)
+  fields?: string[];     // For field_changed: any of these changing
+  description?: string;  // Anything the type doesn't say, e.g. the platform's own wording
+}
+
+export type AutomationConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'starts_with'
+  | 'greater_than'
+  | 'less_than'
+  | 'is_empty'
+  | 'is_not_empty'
+  | 'changed_to';
+
+export interface AutomationCondition {
+  field: string;
+  operator: AutomationConditionOperator;
+  value?: string | number | boolean | null;  // Not for is_empty / is_not_empty
+}
+
+export type AutomationActionType =
+  | 'update_field'
+  | 'create_record'
+  | 'send_email'
+  | 'send_notification'
+  | 'assign_owner'
+  | 'call_function'
+  | 'call_webhook'
+  | 'other';
+
+export type AutomationDelayUnit = 'minutes' | 'hours' | 'days' | 'weeks';
+
+/**
+ * One thing the automation does. `target` is whatever the type acts on:
+ * the field, the record type, the recipients, the function or the URL.
+ */
+export interface AutomationAction {
+  type: AutomationActionType;
+  target?: string;
+  value?: string | number | boolean | null;  // For update_field
+  description?: string;
+  delay?: { amount: number; unit: AutomationDelayUnit };  // Runs this long after the trigger
+}
+
+export type AutomationFrequency = 'hourly' | 'daily' | 'weekly' | 'monthly';
+
+/**
+ * When a scheduled automation runs: every `interval` hours/days/weeks/months
+ * (default 1), at `time` on `day_of_week` (0 = Sunday) or `day_of_month`
+ */
+export interface AutomationSchedule {
+  frequency: AutomationFrequency;
+  interval?: number;
+  time?: string;          // HH:MM, 24-hour
+  day_of_week?: number;   // Weekly
+  day_of_month?: number;  // Monthly
+  timezone?: string;      // e.g. Europe/London
+}
+
+/**
+ * Automation - a business rule documented against the system that runs it
+ */
+export interface Automation {
+  id: number;
+  system_id: number;
+  name: string;
+  description: string | null;
+  trigger: AutomationTrigger;
+  conditions: AutomationCondition[];  // Empty: applies every time it's triggered
+  condition_match: 'all' | 'any';
+  actions: AutomationAction[];
+  schedule: AutomationSchedule | null;  // Only for schedule triggers
+  is_active: boolean;
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateAutomationInput {
+  system_id: number;
+  name: string;
+  description?: string;
+  trigger: AutomationTrigger;
+  conditions?: AutomationCondition[];
+  condition_match?: 'all' | 'any';
+  actions: AutomationAction[];
+  schedule?: AutomationSchedule | null;
+  is_active?: boolean;
+  created_by?: number;
+}
+
+export type UpdateAutomationInput = Partial<Omit<CreateAutomationInput, 'system_id' | 'created_by'>>;
+
+/**
+ * How a documented action relates to an automation:
+ * - triggers: doing the action sets the automation off
+ * - affects: the automation changes what the action works with
+ */
+export type AutomationActionRelationship = 'triggers' | 'affects';
+
+/**
+ * Action Automation - links a documented action to an automation
+ */
+export interface ActionAutomation {
+  id: number;
+  action_id: number;
+  automation_id: number;
+  relationship: AutomationActionRelationship;
+  notes: string | null;
+  created_at: Date;
+}
+
+export interface CreateActionAutomationInput {
+  action_id: number;
+  automation_id: number;
+  relationship?: AutomationActionRelationship;
+  notes?: string;
+}
+
+/**
+ * Automation with the actions it's linked to
+ */
+export interface AutomationWithActions extends Automation {
+  linked_actions: Array<{
+    action_id: number;
+    title: string;
+    relationship: AutomationActionRelationship;
+    notes: string | null;
+  }>;
+}
+
+export interface AutomationFilters {
+  trigger_type?: AutomationTriggerType;
+  is_active?: boolean;
+}
+
+export const AUTOMATION_TRIGGER_TYPES: AutomationTriggerType[] = [
+  'record_created', 'record_updated', 'record_created_or_updated', 'field_changed',
+  'record_deleted', 'schedule', 'webhook', 'manual',
+];
+
+export const AUTOMATION_CONDITION_OPERATORS: AutomationConditionOperator[] = [
+  'equals', 'not_equals', 'contains', 'not_contains', 'starts_with',
+  'greater_than', 'less_than', 'is_empty', 'is_not_empty', 'changed_to',
+];
+
+// Operators that take no value
+export const AUTOMATION_VALUELESS_OPERATORS: AutomationConditionOperator[] = ['is_empty', 'is_not_empty'];
+
+export const AUTOMATION_ACTION_TYPES: AutomationActionType[] = [
+  'update_field', 'create_record', 'send_email', 'send_notification',
+  'assign_owner', 'call_function', 'call_webhook', 'other',
+];
+
+export const AUTOMATION_DELAY_UNITS: AutomationDelayUnit[] = ['minutes', 'hours', 'days', 'weeks'];
+
+export const AUTOMATION_FREQUENCIES: AutomationFrequency[] = ['hourly', 'daily', 'weekly', 'monthly'];
+
+export const AUTOMATION_ACTION_RELATIONSHIPS: AutomationActionRelationship[] = ['triggers', 'affects'];
+
+// Validation helpers
+export const isAutomationTriggerType = (type: unknown): type is AutomationTriggerType => {
+  return AUTOMATION_TRIGGER_TYPES.some((known) => known === type);
+};
+
+export const isAutomationActionRelationship = (relationship: unknown): relationship is AutomationActionRelationship => {
+  return AUTOMATION_ACTION_RELATIONSHIPS.some((known) => known === relationship);
+};
@@ -6,5 +6,11 @@ declare namespace Express {
       sessionId: string;
       claims?: any;
     };
+    // Set by resolveWorkspace middleware
+    workspace?: {
+      id: number;
+      userId: number;  // TechLedger users.id of the caller
+      role: 'owner' | 'editor' | 'viewer';  // Workspace-wide role (before per-system overrides)
+    };
   }
 }
@@ -40,6 +40,7 @@ export interface Link {
   thumbnail_url?: string;
   open_in_new_tab: boolean;
   created_by?: number;
+  workspace_id: number;
   created_at: Date;
   updated_at: Date;
 }
@@ -142,9 +143,12 @@ export interface GetLinksResponse {
   per_page: number;
 }
 
+// What links can be attached to
+export type LinkObjectType = 'system' | 'action' | 'role' | 'task';
+
 export interface GetObjectLinksResponse {
   links: LinkWithContext[];
-  object_type: 'system' | 'action' | 'role' | 'task';
+  object_type: LinkObjectType;
   object_id: number;
 }
 
@@ -171,6 +175,10 @@ export const isValidLinkStatus = (status: string): status is LinkStatus => {
   return ['active', 'inactive', 'broken', 'outdated'].includes(status);
 };
 
+export const isValidLinkObjectType = (type: string): type is LinkObjectType => {
+  return ['system', 'action', 'role', 'task'].includes(type);
+};
+
 // Display helpers
 export const getLinkTypeLabel = (type: LinkType): string => {
   const labels: Record<LinkType, string> = {
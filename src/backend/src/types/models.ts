@@ -8,6 +8,8 @@
  * - Use them to ensure you're passing the right data to functions
  */
 
+import { ZohoWorkflow } from './zohoWorkflow';
+
 // ============================================================================
 // USER MODEL
 // ============================================================================
@@ -32,13 +34,125 @@ export interface UpdateUserInput {
   name?: string;
 }
 
+// ============================================================================
+// WORKSPACE MODEL
+// ============================================================================
+
+/**
+ * Workspace - organization/team that owns a shared body of documentation
+ * Systems, roles, tasks and links belong to a workspace; everything below
+ * a system (departments, practice groups, actions...) inherits it
+ */
+export interface Workspace {
+  id: number;
+  name: string;
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateWorkspaceInput {
+  name: string;
+  created_by: number;  // Becomes the first member
+}
+
+export interface UpdateWorkspaceInput {
+  name?: string;
+}
+
+/**
+ * Workspace roles, from most to least privileged
+ * - owner: manage the workspace, its members and per-system overrides
+ * - editor: create and edit documentation
+ * - viewer: read only
+ */
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+/**
+ * WorkspaceMember - links a user to a workspace with a role
+ */
+export interface WorkspaceMember {
+  id: number;
+  workspace_id: number;
+  user_id: number;
+  role: WorkspaceRole;
+  joined_at: Date;
+}
+
+export interface CreateWorkspaceMemberInput {
+  workspace_id: number;
+  user_id: number;
+  role?: WorkspaceRole;  // Defaults to 'viewer'
+}
+
+/**
+ * Member with the user's profile included (for member lists)
+ */
+export interface WorkspaceMemberWithUser extends WorkspaceMember {
+  name: string;
+  email: string | null;
+}
+
+/**
+ * SystemPermission - overrides a member's workspace role for one system
+ * Applies to the system and everything documented inside it.
+ * Owners are never overridden, so only editor/viewer are allowed.
+ */
+export interface SystemPermission {
+  id: number;
+  system_id: number;
+  user_id: number;
+  role: Exclude<WorkspaceRole, 'owner'>;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SetSystemPermissionInput {
+  system_id: number;
+  user_id: number;
+  role: Exclude<WorkspaceRole, 'owner'>;
+}
+
+export interface SystemPermissionWithUser extends SystemPermission {
+  name: string;
+  email: string | null;
+}
+
+/**
+ * Entity types whose owning workspace can be resolved from their ID
+ */
+export type WorkspaceEntityType =
+  | 'system'
+  | 'department'
+  | 'practice_group'
+  | 'action'
+  | 'action_sequence'
+  | 'screenshot'
+  | 'role'
+  | 'task'
+  | 'link'
+  | 'step_draft'
+  | 'capture_session'
+  | 'zoho_workflow'
+  | 'automation'
+  | 'drift_check';
+
+/**
+ * Where an entity lives: its workspace and, if any, the system it's part of
+ */
+export interface EntityScope {
+  workspace_id: number | null;  // Null for legacy rows never backfilled
+  system_id: number | null;     // Null for roles, tasks and links
+}
+
 // ============================================================================
 // SYSTEM MODEL
 // ============================================================================
 
 export interface System {
   id: number;
-  user_id: number;
+  workspace_id: number;
+  user_id: number;  // Creator
   name: string;
   description: string | null;  // Can be string OR null
   created_at: Date;
@@ -46,6 +160,7 @@ export interface System {
 }
 
 export interface CreateSystemInput {
+  workspace_id: number;
   user_id: number;
   name: string;
   description?: string;
@@ -81,7 +196,12 @@ export interface ActionScreenshotRef {
   caption?: string;
 }
 
-export interface Action {
+/**
+ * How often an action or sequence is performed
+ */
+export type ActionFrequency = 'ad_hoc' | 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+export interface Action extends WorkflowFields {
   id: number;
   system_id: number | null;  // Now nullable for backwards compatibility
   practice_group_id: number | null;  // New: primary parent
@@ -90,6 +210,13 @@ export interface Action {
   steps: ActionStep[] | null;  // Array of step objects (JSONB)
   screenshots: ActionScreenshotRef[] | null;  // Array of screenshot refs (JSONB)
   display_order: number;  // New: order within parent
+  frequency: ActionFrequency | null;
+  average_duration_minutes: number | null;
+  trigger_event: string | null;        // What starts it (event, request, schedule)
+  responsible_role_id: number | null;  // Role that usually performs it
+  systems_touched: number[];           // Other systems used while performing it
+  published_revision: number | null;   // Revision viewers see; null = never published
+  possibly_outdated_since: Date | null;  // Set by drift checks that found its screenshots changed
   created_at: Date;
   updated_at: Date;
 }
@@ -102,14 +229,244 @@ export interface CreateActionInput {
   steps?: ActionStep[];
   screenshots?: ActionScreenshotRef[];
   display_order?: number;
+  frequency?: ActionFrequency;
+  average_duration_minutes?: number;
+  trigger_event?: string;
+  responsible_role_id?: number;
+  systems_touched?: number[];
 }
 
 export interface UpdateActionInput {
   title?: string;
-  description?: string;
+  description?: string | null;  // null clears it
   steps?: ActionStep[];
   screenshots?: ActionScreenshotRef[];
   display_order?: number;
+  // null clears an operational attribute
+  frequency?: ActionFrequency | null;
+  average_duration_minutes?: number | null;
+  trigger_event?: string | null;
+  responsible_role_id?: number | null;
+  systems_touched?: number[];
+}
+
+// ============================================================================
+// ACTION REVISION MODEL
+// ============================================================================
+
+/**
+ * Action fields tracked in revision history
+ */
+export type ActionRevisionField =
+  | 'title'
+  | 'description'
+  | 'steps'
+  | 'screenshots'
+  | 'frequency'
+  | 'average_duration_minutes'
+  | 'trigger_event'
+  | 'responsible_role_id'
+  | 'systems_touched';
+
+/**
+ * An action's documented content as of one revision
+ */
+export type ActionSnapshot = Pick<Action, ActionRevisionField>;
+
+export interface ActionRevision {
+  id: number;
+  action_id: number;
+  revision_number: number;  // 1 = first recorded state, counts up per action
+  snapshot: ActionSnapshot;  // State after this change (JSONB)
+  changed_fields: ActionRevisionField[];  // Compared with the previous revision
+  summary: string | null;
+  restored_from_revision: number | null;
+  created_by: number | null;
+  created_at: Date;
+}
+
+/**
+ * Revision list entry (no snapshot)
+ */
+export type ActionRevisionSummary = Omit<ActionRevision, 'snapshot'>;
+
+/**
+ * Who made a change to an action and why; recorded with the revision
+ */
+export interface RevisionContext {
+  authorId?: number | null;
+  summary?: string;
+  restoredFrom?: number;
+}
+
+export type StepChangeType = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface StepDiff {
+  change: StepChangeType;
+  before: ActionStep | null;
+  after: ActionStep | null;
+  changed_keys: Array<'instruction' | 'screenshot_id' | 'notes'>;  // For modified steps
+}
+
+export interface ActionRevisionDiff {
+  action_id: number;
+  from_revision: number;
+  to_revision: number;
+  fields: Array<{ field: ActionRevisionField; before: unknown; after: unknown }>;  // Everything but steps
+  steps: StepDiff[];
+}
+
+// ============================================================================
+// PUBLISHING WORKFLOW
+// ============================================================================
+
+/**
+ * Lifecycle of an action or sequence
+ * - draft: being edited; any edit to a non-draft item sends it back here
+ * - in_review: submitted to a reviewer, unchanged since
+ * - published: approved; this content is what viewers see
+ * - archived: withdrawn; viewers no longer see it
+ */
+export type PublicationStatus = 'draft' | 'in_review' | 'published' | 'archived';
+
+export type WorkflowEntityType = 'action' | 'action_sequence';
+
+/**
+ * Review and publication state shared by actions and sequences
+ * Viewers see the last published version while editors work on the current one
+ */
+export interface WorkflowFields {
+  status: PublicationStatus;
+  reviewer_id: number | null;   // Assigned on submission
+  submitted_at: Date | null;
+  reviewed_by: number | null;
+  reviewed_at: Date | null;
+  review_notes: string | null;  // Latest approval or change-request comment
+  published_at: Date | null;
+}
+
+/**
+ * A sequence as of its last approval (sequences have no revision history)
+ */
+export interface PublishedSequenceSnapshot {
+  name: string;
+  description: string | null;
+  frequency: ActionFrequency | null;
+  average_duration_minutes: number | null;
+  trigger_event: string | null;
+  responsible_role_id: number | null;
+  actions: Array<{ action_id: number; order_number: number; notes: string | null }>;
+}
+
+/**
+ * An item waiting on a reviewer
+ */
+export interface ReviewQueueItem {
+  entity_type: WorkflowEntityType;
+  id: number;
+  title: string;
+  reviewer_id: number;
+  submitted_at: Date;
+  system_id: number | null;
+  system_name: string | null;
+}
+
+// ============================================================================
+// STEP DRAFT MODEL
+// ============================================================================
+
+export type StepDraftStatus = 'pending' | 'applied' | 'discarded';
+
+export type DraftStepDecision = 'pending' | 'accepted' | 'rejected';
+
+/**
+ * A proposed step plus the author's review of it
+ */
+export interface DraftStep extends ActionStep {
+  decision: DraftStepDecision;
+  edited: boolean;  // Reviewer changed the proposed text or notes
+}
+
+/**
+ * StepDraft - LLM-proposed steps for an action, reviewed step by step
+ * before the accepted ones are written to Action.steps
+ */
+export interface StepDraft {
+  id: number;
+  action_id: number;
+  status: StepDraftStatus;
+  steps: DraftStep[];
+  provider: string;
+  model: string | null;
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+  applied_at: Date | null;
+}
+
+export interface CreateStepDraftInput {
+  action_id: number;
+  steps: DraftStep[];
+  provider: string;
+  model?: string;
+  created_by: number;
+}
+
+// ============================================================================
+// CAPTURE SESSION MODEL
+// ============================================================================
+
+export type CaptureSessionStatus = 'open' | 'completed' | 'abandoned';
+
+export type CaptureTargetType = 'action' | 'sequence';
+
+/**
+ * What a capture question asks about; each maps to a structured field on the target
+ */
+export type CaptureQuestionKey = 'owner_role' | 'frequency' | 'duration' | 'trigger';
+
+/**
+ * Structured field an answer is written to
+ */
+export type CaptureField = 'responsible_role_id' | 'frequency' | 'average_duration_minutes' | 'trigger_event';
+
+/**
+ * CaptureSession - a clarifying-question dialogue held while documenting
+ * an action or a sequence (exactly one of action_id / sequence_id is set)
+ */
+export interface CaptureSession {
+  id: number;
+  action_id: number | null;
+  sequence_id: number | null;
+  status: CaptureSessionStatus;
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+}
+
+export interface CaptureQuestion {
+  id: number;
+  session_id: number;
+  question_key: CaptureQuestionKey;
+  prompt: string;
+  display_order: number;
+  answer: string | null;             // Verbatim answer
+  answer_value: unknown | null;      // Parsed value (JSONB), null if not understood
+  applied_field: CaptureField | null;  // Set once the value is written back
+  answered_at: Date | null;
+  created_at: Date;
+}
+
+export interface CaptureSessionWithQuestions extends CaptureSession {
+  questions: CaptureQuestion[];
+}
+
+export interface CreateCaptureSessionInput {
+  action_id?: number;
+  sequence_id?: number;
+  created_by: number;
+  questions: Array<{ question_key: CaptureQuestionKey; prompt: string }>;
 }
 
 // ============================================================================
@@ -157,16 +514,25 @@ export interface VisionData {
 export interface Screenshot {
   id: number;
   action_id: number;
-  file_path: string;
+  storage_key: string | null;   // Opaque key in the storage backend
+  file_path: string | null;     // Deprecated: server path (pre-storage-key rows)
+  content_type: string | null;
+  file_size: number | null;     // Bytes
   original_filename: string | null;
   ocr_data: OCRData | null;
   vision_data: VisionData | null;
+  redaction_status: RedactionStatus | null;  // Null until scanned for sensitive text
+  redacted_storage_key: string | null;       // Copy with sensitive text blacked out
+  redacted_at: Date | null;
+  ocr_search_text: string | null;            // OCR text with sensitive text masked, for search
   uploaded_at: Date;
 }
 
 export interface CreateScreenshotInput {
   action_id: number;
-  file_path: string;
+  storage_key: string;  // Key of a file stored by an upload
+  content_type?: string;
+  file_size?: number;
   original_filename?: string;
   ocr_data?: OCRData;
   vision_data?: VisionData;
@@ -177,6 +543,217 @@ export interface UpdateScreenshotInput {
   vision_data?: VisionData;
 }
 
+// ============================================================================
+// OCR JOB MODEL
+// ============================================================================
+
+/**
+ * queued → running → succeeded
+ *                  ↘ queued again (retry after backoff) … → failed
+ */
+export type OcrJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface OcrJob {
+  id: number;
+  screenshot_id: number;
+  status: OcrJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_after: Date;
+  locked_at: Date | null;
+  last_error: string | null;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+}
+
+// ============================================================================
+// SCREENSHOT DRIFT CHECK MODEL
+// ============================================================================
+
+/**
+ * A label as OCR read it: consecutive words on one line. region is null
+ * when OCR gave no bounding boxes.
+ */
+export interface DriftLabel {
+  text: string;
+  region: ScreenshotRegion | null;
+}
+
+/**
+ * What changed between a screenshot's stored capture and a fresh one.
+ * Labels are compared case-insensitively; ones without letters (dates,
+ * counts, amounts) are data rather than UI and are left out.
+ */
+export interface ScreenshotDriftReport {
+  added: DriftLabel[];    // Only in the fresh capture
+  removed: DriftLabel[];  // Only in the stored capture
+  moved: Array<{ text: string; from: ScreenshotRegion; to: ScreenshotRegion }>;
+  unchanged: number;      // Labels found in the same place
+  similarity: number;     // 0-1: share of labels unchanged
+}
+
+/**
+ * open → accepted (the fresh capture replaced the screenshot)
+ *      ↘ dismissed (the change doesn't matter)
+ */
+export type DriftCheckStatus = 'open' | 'accepted' | 'dismissed';
+
+export interface ScreenshotDriftCheck {
+  id: number;
+  screenshot_id: number;
+  storage_key: string | null;  // The fresh capture; once accepted, the one it replaced
+  content_type: string | null;
+  file_size: number | null;
+  original_filename: string | null;
+  ocr_data: OCRData;
+  report: ScreenshotDriftReport;
+  has_drift: boolean;
+  affected_action_ids: number[];  // Actions showing the screenshot when checked
+  status: DriftCheckStatus;
+  checked_by: number | null;
+  checked_at: Date;
+  resolved_by: number | null;
+  resolved_at: Date | null;
+}
+
+export interface CreateDriftCheckInput {
+  screenshot_id: number;
+  storage_key: string;
+  content_type?: string;
+  file_size?: number;
+  original_filename?: string;
+  ocr_data: OCRData;
+  report: ScreenshotDriftReport;
+  has_drift: boolean;
+  checked_by?: number;
+}
+
+/**
+ * Drift check with the actions it covers and the steps in them that show
+ * the screenshot
+ */
+export interface ScreenshotDriftCheckWithActions extends ScreenshotDriftCheck {
+  affected_actions: Array<{
+    id: number;
+    title: string;
+    step_numbers: number[];
+    possibly_outdated_since: Date | null;
+  }>;
+}
+
+/**
+ * An action flagged as possibly outdated, with the checks behind the flag
+ */
+export interface PossiblyOutdatedAction {
+  id: number;
+  title: string;
+  system_id: number | null;
+  system_name: string | null;
+  possibly_outdated_since: Date;
+  open_check_ids: number[];
+}
+
+// ============================================================================
+// SCREENSHOT ANNOTATION MODEL
+// ============================================================================
+
+/**
+ * - callout: numbered marker at (x, y) for one of the action's steps
+ * - arrow: from (x, y) to (end_x, end_y)
+ * - highlight: rectangle outlined and tinted
+ * - blur / redact: rectangle blurred / covered in solid colour
+ */
+export type ScreenshotAnnotationType = 'callout' | 'arrow' | 'highlight' | 'blur' | 'redact';
+
+/**
+ * A mark drawn over a screenshot. Coordinates are image pixels; which ones
+ * are set depends on the type.
+ */
+export interface ScreenshotAnnotation {
+  id: number;
+  screenshot_id: number;
+  type: ScreenshotAnnotationType;
+  step_number: number | null;  // Callouts only: ActionStep.step_number
+  x: number;
+  y: number;
+  width: number | null;        // Highlight, blur and redact
+  height: number | null;
+  end_x: number | null;        // Arrows only
+  end_y: number | null;
+  color: string | null;        // '#RRGGBB'; null = the type's default
+  note: string | null;
+  display_order: number;
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateScreenshotAnnotationInput {
+  screenshot_id: number;
+  type: ScreenshotAnnotationType;
+  step_number?: number;
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  end_x?: number;
+  end_y?: number;
+  color?: string;
+  note?: string;
+  display_order?: number;
+  created_by?: number;
+}
+
+/**
+ * The type can't change; delete and recreate instead
+ */
+export interface UpdateScreenshotAnnotationInput {
+  step_number?: number | null;
+  x?: number;
+  y?: number;
+  width?: number | null;
+  height?: number | null;
+  end_x?: number | null;
+  end_y?: number | null;
+  color?: string | null;
+  note?: string | null;
+  display_order?: number;
+}
+
+// ============================================================================
+// SCREENSHOT REDACTION MODEL
+// ============================================================================
+
+export type SensitiveTextKind = 'email' | 'phone' | 'card' | 'token';
+
+/**
+ * - clean: nothing sensitive found; the original is served
+ * - redacted: redacted_storage_key has the sensitive regions blacked out
+ * - unrenderable: something was found but the image format can't be drawn
+ *   on, so only users who may see the original get the image at all
+ */
+export type RedactionStatus = 'clean' | 'redacted' | 'unrenderable';
+
+/**
+ * Sensitive text found in a screenshot's OCR words
+ */
+export interface SensitiveTextMatch {
+  kind: SensitiveTextKind;
+  region: ScreenshotRegion;  // The words' boxes, padded a little
+  preview: string;           // Masked, e.g. 'jo•••••••om'; the text itself is never stored
+}
+
+export interface ScreenshotRedaction extends ScreenshotRegion {
+  id: number;
+  screenshot_id: number;
+  kind: SensitiveTextKind;
+  preview: string;
+  dismissed_by: number | null;  // Set when marked as a false positive
+  dismissed_at: Date | null;
+  created_at: Date;
+}
+
 // ============================================================================
 // DEPARTMENT MODEL
 // ============================================================================
@@ -247,11 +824,16 @@ export interface UpdatePracticeGroupInput {
  * Action Sequence - ordered workflow/procedure
  * Example: "Complete Lead Creation" = Login → Navigate → Create → Save
  */
-export interface ActionSequence {
+export interface ActionSequence extends WorkflowFields {
   id: number;
   practice_group_id: number;
   name: string;
   description: string | null;
+  frequency: ActionFrequency | null;
+  average_duration_minutes: number | null;
+  trigger_event: string | null;
+  responsible_role_id: number | null;
+  published_snapshot: PublishedSequenceSnapshot | null;  // What viewers see; null = never published
   created_at: Date;
   updated_at: Date;
 }
@@ -311,7 +893,8 @@ export interface ActionSequenceWithActions extends ActionSequence {
  */
 export interface Role {
   id: number;
-  user_id: number;
+  workspace_id: number;
+  user_id: number;  // Creator
   name: string;
   description: string | null;
   display_order: number;
@@ -319,6 +902,7 @@ export interface Role {
 }
 
 export interface CreateRoleInput {
+  workspace_id: number;
   user_id: number;
   name: string;
   description?: string;
@@ -341,7 +925,8 @@ export interface UpdateRoleInput {
  */
 export interface Task {
   id: number;
-  user_id: number;
+  workspace_id: number;
+  user_id: number;  // Creator
   name: string;
   description: string | null;
   display_order: number;
@@ -349,6 +934,7 @@ export interface Task {
 }
 
 export interface CreateTaskInput {
+  workspace_id: number;
   user_id: number;
   name: string;
   description?: string;
@@ -441,6 +1027,387 @@ export interface NavigationPath {
   actions: Array<Action & { display_order: number; notes: string | null }>;
 }
 
+// ============================================================================
+// OPERATIONS ANALYTICS
+// ============================================================================
+
+/**
+ * Workload attributed to one group of actions (a role, practice group...)
+ * estimated_minutes_per_month only counts actions with both a scheduled
+ * frequency (not ad hoc) and an average duration
+ */
+export interface OperationsRollup {
+  action_count: number;
+  estimated_minutes_per_month: number;
+}
+
+/**
+ * Roll-up of action operational metadata for a practice group or system
+ */
+export interface OperationsSummary extends OperationsRollup {
+  scope: {
+    type: 'practice_group' | 'system';
+    id: number;
+    name: string;
+  };
+  // Actions with a frequency and an average duration recorded
+  actions_with_metadata: number;
+  frequency_breakdown: Record<ActionFrequency | 'unspecified', number>;
+  average_duration_minutes: number | null;
+  by_role: Array<OperationsRollup & { role_id: number | null; role_name: string | null }>;
+  systems_touched: Array<{ system_id: number; system_name: string | null; action_count: number }>;
+  triggers: Array<{ trigger_event: string; action_count: number }>;
+  // Only for system summaries
+  by_practice_group?: Array<OperationsRollup & { practice_group_id: number | null; practice_group_name: string | null }>;
+}
+
+/**
+ * Kinds of risk the bottleneck report flags
+ */
+export type RiskFindingType =
+  | 'single_role_action'       // Only one role performs the action
+  | 'unassigned_task'          // No role is assigned the task
+  | 'multi_system_sequence'    // Sequence spans many systems with hand-offs
+  | 'undocumented_action';     // Action has no steps
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export interface RiskFinding {
+  type: RiskFindingType;
+  entity_type: 'action' | 'task' | 'action_sequence';
+  entity_id: number;
+  title: string;
+  score: number;
+  detail: string;
+}
+
+export interface RiskReportDepartment {
+  department_id: number | null;  // Null for legacy actions attached directly to the system
+  department_name: string | null;
+  score: number;
+  risk_level: RiskLevel;
+  findings: RiskFinding[];
+}
+
+export interface RiskReportSystem {
+  system_id: number;
+  system_name: string;
+  score: number;
+  risk_level: RiskLevel;
+  departments: RiskReportDepartment[];
+}
+
+/**
+ * Bottleneck / single-point-of-failure report, scored per system and department
+ */
+export interface RiskReport {
+  workspace_id: number;
+  system_id: number | null;  // Set when the report was limited to one system
+  generated_at: string;      // ISO timestamp
+  score: number;
+  findings_by_type: Record<RiskFindingType, number>;
+  systems: RiskReportSystem[];
+  // Findings with no system, e.g. unassigned tasks that have no actions yet
+  unscoped_findings: RiskFinding[];
+}
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+
+export type SearchEntityType =
+  | 'system'
+  | 'department'
+  | 'practice_group'
+  | 'action'
+  | 'screenshot'
+  | 'role'
+  | 'task'
+  | 'link';
+
+/**
+ * One full-text search hit. Highlights are HTML-escaped text with matches
+ * wrapped in <mark> tags.
+ */
+export interface SearchResult {
+  type: SearchEntityType;
+  id: number;
+  title: string;
+  title_highlight: string;
+  snippet: string;
+  rank: number;
+  system_id: number | null;    // System the hit lives in, if any
+  system_name: string | null;
+  action_id: number | null;    // For screenshots: the action they belong to
+}
+
+export interface SearchResponse {
+  query: string;
+  results: SearchResult[];
+  total: number;
+  counts_by_type: Partial<Record<SearchEntityType, number>>;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Pixel rectangle on a screenshot
+ */
+export interface ScreenshotRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Where a searched label appears in one screenshot
+ */
+export interface ScreenshotTextMatch {
+  screenshot_id: number;
+  action_id: number;
+  action_title: string;
+  system_id: number | null;
+  system_name: string | null;
+  original_filename: string | null;
+  regions: Array<{
+    text: string;        // The words as OCR read them
+    confidence: number;  // Lowest word confidence in the match
+    region: ScreenshotRegion;
+  }>;
+}
+
+// ============================================================================
+// AUDIT LOG
+// ============================================================================
+
+export type AuditOperation = 'create' | 'update' | 'delete';
+
+/**
+ * Entity types recorded in the audit log
+ */
+export type AuditEntityType =
+  | 'system'
+  | 'action_sequence'
+  | 'action'
+  | 'screenshot'
+  | 'drift_check'
+  | 'role'
+  | 'task'
+  | 'link'
+  | 'step_draft'
+  | 'capture_session'
+  | 'zoho_workflow'
+  | 'automation'
+  | 'workspace_member'
+  | 'workspace'   // Imports; the state after is what was imported
+  | 'trash_item';  // Purges; the state is everything the item held
+
+/**
+ * One recorded mutation; entries are never changed or removed
+ */
+export interface AuditLogEntry {
+  id: number;
+  workspace_id: number | null;
+  actor_user_id: number | null;
+  actor_clerk_id: string | null;
+  operation: AuditOperation;
+  entity_type: AuditEntityType;
+  entity_id: number;
+  before_state: unknown;  // Entity (or its link list) before; null for creates
+  after_state: unknown;   // ...and after; null for deletes
+  request_method: string | null;
+  request_path: string | null;
+  created_at: Date;
+}
+
+export type CreateAuditLogInput = Omit<AuditLogEntry, 'id' | 'created_at'>;
+
+export interface AuditLogFilters {
+  entity_type?: AuditEntityType;
+  entity_id?: number;
+  actor_user_id?: number;
+  operation?: AuditOperation;
+  from?: Date;
+  to?: Date;
+}
+
+// ============================================================================
+// TRASH
+// ============================================================================
+
+/**
+ * Entity types that are moved to the trash when deleted
+ */
+export type TrashEntityType =
+  | 'system'
+  | 'department'
+  | 'practice_group'
+  | 'action'
+  | 'action_sequence'
+  | 'screenshot'
+  | 'role'
+  | 'task'
+  | 'link'
+  | 'zoho_workflow'
+  | 'automation';
+
+/**
+ * A reference from a row outside a deleted subtree that the delete set to
+ * NULL (e.g. actions.responsible_role_id when the role was deleted)
+ */
+export interface NullifiedReference {
+  table: string;
+  column: string;
+  value: number;
+  ids: number[];
+}
+
+/**
+ * A deleted entity in the trash; its rows are kept but not returned
+ */
+export interface TrashItem {
+  id: number;
+  workspace_id: number | null;
+  system_id: number | null;
+  entity_type: TrashEntityType;
+  entity_id: number;
+  label: string | null;
+  row_counts: Record<string, number>;
+  deleted_by: number | null;
+  deleted_at: Date;
+  purge_at: Date;  // When the retention job will remove it for good
+}
+
+export interface TrashRestoreResult {
+  entity_type: TrashEntityType;
+  entity_id: number;
+  restored: Record<string, number>;  // Rows put back per table
+  skipped: Record<string, number>;   // Junction rows whose other side no longer exists
+}
+
+// ============================================================================
+// ZOHO CRM WORKFLOWS
+// ============================================================================
+
+/**
+ * When a workflow rule runs, read from its trigger description
+ */
+export type ZohoWorkflowTriggerType =
+  | 'on_create'
+  | 'on_edit'
+  | 'on_create_or_edit'
+  | 'on_field_modify'
+  | 'other';
+
+/**
+ * A Zoho CRM workflow rule documented against a system. `definition` is the
+ * rule as imported; the other fields are derived from it so rules can be
+ * found by the fields they read or write and the functions they call.
+ */
+export interface ZohoWorkflowRecord {
+  id: number;
+  system_id: number;
+  name: string;                  // definition.workflow_name; unique per system
+  module: string;
+  trigger_type: ZohoWorkflowTriggerType;
+  definition: ZohoWorkflow;
+  fields_read: string[];         // Criteria fields and watched fields
+  fields_written: string[];      // Field update targets
+  functions_called: string[];
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ZohoWorkflowFilters {
+  module?: string;
+  field?: string;     // Reads or writes this field
+  function?: string;  // Calls this function
+}
+
+export interface ZohoWorkflowImportResult {
+  created: ZohoWorkflowRecord[];
+  updated: ZohoWorkflowRecord[];  // Same name already documented; replaced
+  warnings: string[];
+}
+
+// ============================================================================
+// WORKSPACE EXPORT / IMPORT
+// ============================================================================
+
+/**
+ * Tables in a workspace export, in the order they are imported (referenced
+ * tables first)
+ */
+export type WorkspaceExportTable =
+  | 'systems'
+  | 'departments'
+  | 'practice_groups'
+  | 'roles'
+  | 'tasks'
+  | 'links'
+  | 'actions'
+  | 'screenshots'
+  | 'action_sequences'
+  | 'sequence_actions'
+  | 'task_actions'
+  | 'role_tasks'
+  | 'system_links'
+  | 'action_links'
+  | 'role_links'
+  | 'task_links'
+  | 'zoho_workflows'
+  | 'automations'
+  | 'action_automations'
+  | 'screenshot_annotations'
+  | 'screenshot_redactions';
+
+/**
+ * A whole workspace as JSON. Rows keep their original IDs and reference
+ * each other by them; users are left out (imported rows belong to whoever
+ * imports them).
+ * Actions also carry `published_snapshot`, the version viewers see, and
+ * screenshots `file`, the image as base64, unless exported without files.
+ */
+export interface WorkspaceExport {
+  format: 'techledger-workspace';
+  version: number;
+  exported_at: string;
+  workspace: { id: number; name: string };
+  data: Record<WorkspaceExportTable, Array<Record<string, any>>>;
+}
+
+/**
+ * What to do when an imported system, role or task has the same name as
+ * one already in the workspace (or a link the same URL):
+ * - fail: import nothing and report the conflicts
+ * - skip: keep the existing one - roles, tasks and links are reused,
+ *   systems are left out along with everything in them
+ * - rename: import it anyway, with " (imported)" added to the name
+ */
+export type ImportConflictStrategy = 'fail' | 'skip' | 'rename';
+
+export interface WorkspaceImportConflict {
+  entity_type: 'system' | 'role' | 'task' | 'link';
+  source_id: number;    // ID in the export
+  name: string;         // Name, or URL for links
+  existing_id: number;
+  resolution: 'reused' | 'skipped' | 'renamed' | null;  // null when the import stopped
+}
+
+export interface WorkspaceImportResult {
+  source: Pick<WorkspaceExport, 'workspace' | 'exported_at'>;  // The export it read
+  imported: boolean;   // false for a dry run or an import stopped by conflicts
+  dry_run: boolean;
+  on_conflict: ImportConflictStrategy;
+  created: Partial<Record<WorkspaceExportTable, number>>;
+  skipped: Partial<Record<WorkspaceExportTable, number>>;  // Left out by conflicts or missing files
+  conflicts: WorkspaceImportConflict[];
+  warnings: string[];
+  id_map: Partial<Record<WorkspaceExportTable, Record<number, number>>>;  // Export ID -> new ID
+}
+
 // ============================================================================
 // UTILITY TYPES
 // ============================================================================
@@ -0,0 +1,134 @@
+// ============================================
+// TechLedger Zoho CRM Workflows - TypeScript Types
+// src/types/zohoWorkflow.ts
+// The import format described in
+// docs/sort-these-files/zoho-workflow-json-schema.md
+// ============================================
+
+export interface ZohoWorkflow {
+  workflow_name: string;
+  module: string;                     // Zoho module (Leads, Contacts, Deals...)
+  trigger: WorkflowTrigger;
+  conditions: WorkflowCondition[];    // Can be empty
+}
+
+export interface WorkflowTrigger {
+  when: string;                       // Zoho's description, e.g. "This rule will be executed when a lead is created."
+  modified_fields?: ModifiedField[];  // For field-modification triggers
+  repeat_on_modification?: boolean;   // Run every time the fields change, or only the first time
+}
+
+export interface ModifiedField {
+  field: string;
+  modification: string;               // "is modified to any value", "is modified to X"...
+}
+
+export interface WorkflowCondition {
+  condition_number: number;           // 1-indexed
+  criteria: Criteria[];
+  criteria_pattern: string | null;    // e.g. "((1 and 2) or 3)"; null without criteria
+  note?: string;                      // e.g. "This rule will be executed for all leads"
+  actions: WorkflowActions;
+}
+
+export interface Criteria {
+  number: number;                     // Position in the pattern, 1-indexed
+  field: string;
+  operator: string;                   // IS, ISN'T, IS EMPTY, CONTAINS...
+  value?: string | null;              // Several values are comma-separated
+}
+
+export interface WorkflowActions {
+  instant_actions: ZohoWorkflowAction[];
+  scheduled_actions?: ScheduledAction[];
+}
+
+export type ZohoWorkflowAction =
+  | FieldUpdateAction
+  | FunctionAction
+  | AssignOwnerAction
+  | NotificationAction;
+
+export type ZohoWorkflowActionType = ZohoWorkflowAction['type'];
+
+export interface FieldUpdateAction {
+  type: 'Field Update';
+  updates: FieldUpdate[];
+}
+
+export interface FieldUpdate {
+  name: string;                       // Name of the field update configuration
+  module: string;
+  field: string;                      // Field being updated
+  value: any;                         // "${EMPTY}" clears, "${EXECUTION_TIME}" is the run time
+  field_type?: string;                // "checkbox", "text", "number", "date"...
+  set_as_empty: boolean;
+  calculation?: FieldUpdateCalculation;
+}
+
+export interface FieldUpdateCalculation {
+  operator: 'plus' | 'minus';
+  amount: number;
+  unit: ZohoTimeUnit;
+}
+
+export interface FunctionAction {
+  type: 'Function';
+  function_name: string;              // Deluge function
+  parameters?: Record<string, any>;
+}
+
+export interface AssignOwnerAction {
+  type: 'Assign Owner';
+  assignment_rule: string;
+}
+
+export interface NotificationAction {
+  type: 'Zoho Cliq Notification';
+  notification_name: string;
+  message: string;                    // May include merge fields
+  notify_to?: string;
+  users: string[];
+}
+
+export interface ScheduledAction {
+  action: ZohoWorkflowAction;
+  schedule: {
+    delay: number;
+    unit: ZohoTimeUnit;
+    condition?: string;
+  };
+}
+
+export type ZohoTimeUnit = 'minutes' | 'hours' | 'days' | 'weeks' | 'months' | 'years';
+
+export const ZOHO_ACTION_TYPES: ZohoWorkflowActionType[] = [
+  'Field Update',
+  'Function',
+  'Assign Owner',
+  'Zoho Cliq Notification',
+];
+
+export const ZOHO_TIME_UNITS: ZohoTimeUnit[] = ['minutes', 'hours', 'days', 'weeks', 'months', 'years'];
+
+// Operators that compare against a value, and the ones that take none.
+// Other operators are accepted as they are; Zoho has more than these.
+export const ZOHO_VALUE_OPERATORS = ['IS', "ISN'T", 'CONTAINS', "DOESN'T CONTAIN", 'STARTS WITH', 'ENDS WITH'];
+export const ZOHO_VALUELESS_OPERATORS = ['IS EMPTY', 'IS NOT EMPTY'];
+
+// Special field update values
+export const ZOHO_EMPTY_VALUE = '${EMPTY}';
+export const ZOHO_EXECUTION_TIME = '${EXECUTION_TIME}';
+
+// Validation helpers
+export const isZohoActionType = (type: string): type is ZohoWorkflowActionType => {
+  return (ZOHO_ACTION_TYPES as string[]).includes(type);
+};
+
+export const isZohoTimeUnit = (unit: string): unit is ZohoTimeUnit => {
+  return (ZOHO_TIME_UNITS as string[]).includes(unit);
+};
+
+// Operators compare case-insensitively and with straight apostrophes
+export const normalizeZohoOperator = (operator: string): string =>
+  operator.trim().toUpperCase().replace(/[‘’]/g, "'").replace(/\s+/g, ' ');
@@ -0,0 +1,156 @@
+/**
+ * Criteria patterns: the logical expressions CRM rules use to combine
+ * numbered criteria, e.g. "((1 and 2) or 3)"
+ *
+ * Syntax: criterion numbers, `and` / `or` (any case) and parentheses.
+ * Mixing `and` and `or` at the same level needs parentheses, since the
+ * rule builders that write these always add them and reading "1 and 2 or 3"
+ * either way would be a guess.
+ */
+
+export type CriteriaExpression =
+  | { type: 'criterion'; number: number }
+  | { type: 'and' | 'or'; operands: CriteriaExpression[] };
+
+/**
+ * A malformed pattern; `position` is the 1-based character it was found at
+ */
+export class CriteriaPatternError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'CriteriaPatternError';
+  }
+}
+
+interface Token {
+  kind: 'number' | 'and' | 'or' | '(' | ')';
+  text: string;
+  position: number;
+}
+
+function tokenize(pattern: string): Token[] {
+  const tokens: Token[] = [];
+  const matcher = /\s*(?:(\d+)|(and|or)\b|([()])|(\S))/giy;
+  let match: RegExpExecArray | null;
+
+  while (matcher.lastIndex < pattern.length && (match = matcher.exec(pattern))) {
+    const [whole, number, operator, paren, unexpected] = match;
+    const position = match.index + whole.length - whole.trimStart().length + 1;
+
+    if (number) tokens.push({ kind: 'number', text: number, position });
+    else if (operator) tokens.push({ kind: operator.toLowerCase() as 'and' | 'or', text: operator, position });
+    else if (paren) tokens.push({ kind: paren as '(' | ')', text: paren, position });
+    else if (unexpected) {
+      const word = pattern.slice(position - 1).match(/^\w+/);
+      throw new CriteriaPatternError(`Unexpected '${word ? word[0] : unexpected}'`, position);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a criteria pattern. Nested groups of the same operator are
+ * flattened: "((1 or 2) or 3)" is one `or` of 1, 2 and 3.
+ * @throws CriteriaPatternError describing the first problem found
+ */
+export function parseCriteriaPattern(pattern: string): CriteriaExpression {
+  const tokens = tokenize(pattern);
+  let index = 0;
+
+  const end = pattern.trimEnd().length + 1;
+  const peek = (): Token | undefined => tokens[index];
+
+  const parseOperand = (): CriteriaExpression => {
+    const token = tokens[index++];
+
+    if (!token) {
+      throw new CriteriaPatternError("Expected a criterion number or '('", end);
+    }
+
+    if (token.kind === 'number') {
+      const number = parseInt(token.text);
+      if (number < 1) throw new CriteriaPatternError('Criterion numbers start at 1', token.position);
+      return { type: 'criterion', number };
+    }
+
+    if (token.kind === '(') {
+      const inner = parseGroup();
+      const closing = tokens[index++];
+      if (!closing) {
+        throw new CriteriaPatternError("'(' is never closed", token.position);
+      }
+      if (closing.kind !== ')') {
+        throw new CriteriaPatternError(`Expected 'and', 'or' or ')' but found '${closing.text}'`, closing.position);
+      }
+      return inner;
+    }
+
+    throw new CriteriaPatternError(`Expected a criterion number or '(' but found '${token.text}'`, token.position);
+  };
+
+  const parseGroup = (): CriteriaExpression => {
+    const operands = [parseOperand()];
+    let operator: 'and' | 'or' | null = null;
+
+    while (peek() && (peek()!.kind === 'and' || peek()!.kind === 'or')) {
+      const token = tokens[index++];
+      const kind = token.kind as 'and' | 'or';
+
+      if (operator && kind !== operator) {
+        throw new CriteriaPatternError(`'${operator}' and '${kind}' mixed without parentheses`, token.position);
+      }
+
+      operator = kind;
+      operands.push(parseOperand());
+    }
+
+    if (!operator) return operands[0];
+
+    return {
+      type: operator,
+      operands: operands.flatMap((operand) => operand.type === operator ? operand.operands : [operand]),
+    };
+  };
+
+  if (tokens.length === 0) {
+    throw new CriteriaPatternError('Pattern is empty', 1);
+  }
+
+  const expression = parseGroup();
+  const trailing = peek();
+
+  if (trailing) {
+    throw new CriteriaPatternError(
+      trailing.kind === ')' ? "Unexpected ')'" : `Expected 'and' or 'or' but found '${trailing.text}'`,
+      trailing.position
+    );
+  }
+
+  return expression;
+}
+
+/**
+ * Criterion numbers an expression uses, in order of first appearance
+ */
+export function getReferencedCriteria(expression: CriteriaExpression): number[] {
+  if (expression.type === 'criterion') return [expression.number];
+  return [...new Set(expression.operands.flatMap(getReferencedCriteria))];
+}
+
+/**
+ * Write an expression out with each criterion described, e.g.
+ * "(Phone is not empty OR Mobile is not empty) AND Email is empty"
+ */
+export function formatCriteriaExpression(
+  expression: CriteriaExpression,
+  describe: (number: number) => string = String
+): string {
+  if (expression.type === 'criterion') return describe(expression.number);
+
+  return expression.operands
+    .map((operand) => operand.type === 'criterion'
+      ? describe(operand.number)
+      : `(${formatCriteriaExpression(operand, describe)})`)
+    .join(` ${expression.type.toUpperCase()} `);
+}
@@ -0,0 +1,37 @@
+/**
+ * TechLedger CSV Helpers
+ * Build RFC 4180 CSV for report downloads
+ */
+
+/**
+ * Quote a value if it contains a delimiter, quote or newline.
+ * Values that spreadsheet apps would run as formulas are prefixed with '
+ */
+function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = value instanceof Date ? value.toISOString() : String(value);
+
+  if (/^[=+\-@]/.test(text) && !/^-?\d/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render rows as CSV with a header line, in the given column order
+ */
+export function toCsv<T extends Record<string, unknown>>(
+  columns: Array<keyof T & string>,
+  rows: T[]
+): string {
+  const lines = [
+    columns.map(escapeCsvValue).join(','),
+    ...rows.map((row) => columns.map((column) => escapeCsvValue(row[column])).join(',')),
+  ];
+
+  return lines.join('\r\n') + '\r\n';
+}
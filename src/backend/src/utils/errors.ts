@@ -88,6 +88,19 @@ export class ForbiddenError extends AppError {
   }
 }
 
+/**
+ * 502 - An external service (OCR, LLM) returned something unusable
+ * Example: Model reply that doesn't match the importer's output schema
+ */
+export class ExtractionError extends AppError {
+  public errors: Record<string, string>;
+
+  constructor(message: string, errors: Record<string, string> = {}) {
+    super(message, 502);
+    this.errors = errors;
+  }
+}
+
 // ============================================================================
 // ERROR HANDLER FUNCTION
 // ============================================================================
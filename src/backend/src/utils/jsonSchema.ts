@@ -0,0 +1,104 @@
+/**
+ * A small JSON Schema checker, for the subset of keywords importers use to
+ * describe their output: type, properties, required, additionalProperties
+ * (false), items, enum, minLength, minimum and minItems
+ */
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minLength?: number;
+  minimum?: number;
+  minItems?: number;
+}
+
+const typeOf = (value: unknown): JsonSchemaType => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+};
+
+const matchesType = (value: unknown, type: JsonSchemaType): boolean => {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+/**
+ * Check a value against a schema
+ * @returns Problems keyed by path (e.g. `steps[2].instruction`); empty if valid
+ */
+export function validateJsonSchema(
+  schema: JsonSchema,
+  value: unknown,
+  path: string = ''
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const at = path || '(root)';
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      errors[at] = `Expected ${types.join(' or ')}, got ${typeOf(value)}`;
+      return errors;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((allowed) => allowed === value)) {
+    errors[at] = `Must be one of: ${schema.enum.map((allowed) => JSON.stringify(allowed)).join(', ')}`;
+    return errors;
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.trim().length < schema.minLength) {
+    errors[at] = schema.minLength === 1 ? 'Must not be empty' : `Must be at least ${schema.minLength} characters`;
+  }
+
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    errors[at] = `Must be at least ${schema.minimum}`;
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors[at] = `Must have at least ${schema.minItems} item(s)`;
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        Object.assign(errors, validateJsonSchema(schema.items!, item, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const child = (key: string) => (path ? `${path}.${key}` : key);
+
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) {
+        errors[child(key)] = 'Required';
+      }
+    }
+
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (object[key] !== undefined) {
+        Object.assign(errors, validateJsonSchema(propertySchema, object[key], child(key)));
+      }
+    }
+
+    if (schema.additionalProperties === false) {
+      for (const key of Object.keys(object)) {
+        if (!schema.properties || !(key in schema.properties)) {
+          errors[child(key)] = 'Not allowed';
+        }
+      }
+    }
+  }
+
+  return errors;
+}
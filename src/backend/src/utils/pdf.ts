@@ -0,0 +1,481 @@
+/**
+ * Minimal PDF writer
+ * Enough for generated documents: text in the standard Helvetica fonts
+ * (WinAnsi encoding, so Latin characters only - anything else prints as
+ * '?'), lines, filled boxes, JPEG and PNG images, and web links. Coordinates
+ * are in points from the top-left corner of the page.
+ */
+
+import { deflateSync, inflateSync } from 'zlib';
+import { MAX_IMAGE_PIXELS } from './raster';
+
+export type PdfFont = 'regular' | 'bold' | 'italic';
+export type Rgb = [number, number, number];  // 0-1 per channel
+
+export const A4 = { width: 595.28, height: 841.89 };
+
+// ============================================================================
+// FONTS
+// ============================================================================
+
+// Advance widths (1/1000 em) of characters 32-126, from the Adobe AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+const FONTS: Record<PdfFont, { resource: string; baseFont: string; widths: number[] }> = {
+  regular: { resource: 'F1', baseFont: 'Helvetica', widths: HELVETICA_WIDTHS },
+  bold: { resource: 'F2', baseFont: 'Helvetica-Bold', widths: HELVETICA_BOLD_WIDTHS },
+  italic: { resource: 'F3', baseFont: 'Helvetica-Oblique', widths: HELVETICA_WIDTHS },
+};
+
+// Unicode punctuation WinAnsiEncoding has outside Latin-1, with its width
+const WIN_ANSI_EXTRAS: Record<string, { code: number; width: number }> = {
+  '€': { code: 0x80, width: 556 },
+  '‚': { code: 0x82, width: 222 },
+  '„': { code: 0x84, width: 333 },
+  '…': { code: 0x85, width: 1000 },
+  '‘': { code: 0x91, width: 222 },
+  '’': { code: 0x92, width: 222 },
+  '“': { code: 0x93, width: 333 },
+  '”': { code: 0x94, width: 333 },
+  '•': { code: 0x95, width: 350 },
+  '–': { code: 0x96, width: 556 },
+  '—': { code: 0x97, width: 1000 },
+  '™': { code: 0x99, width: 1000 },
+};
+const EXTRA_WIDTHS = new Map(Object.values(WIN_ANSI_EXTRAS).map(({ code, width }) => [code, width]));
+
+// Text as WinAnsi bytes (one char per byte)
+const encode = (text: string): string => {
+  let encoded = '';
+  for (const char of text.replace(/\t/g, ' ')) {
+    const code = char.codePointAt(0)!;
+    if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) {
+      encoded += char;
+    } else if (WIN_ANSI_EXTRAS[char]) {
+      encoded += String.fromCharCode(WIN_ANSI_EXTRAS[char].code);
+    } else {
+      encoded += '?';
+    }
+  }
+  return encoded;
+};
+
+const charWidth = (code: number, font: PdfFont): number => {
+  if (code >= 32 && code <= 126) return FONTS[font].widths[code - 32];
+  return EXTRA_WIDTHS.get(code) ?? 556;  // Accented letters are close enough to 'a'
+};
+
+/**
+ * Width of a line of text in points
+ */
+export const measureText = (text: string, font: PdfFont, size: number): number => {
+  let width = 0;
+  for (const char of encode(text)) {
+    width += charWidth(char.charCodeAt(0), font);
+  }
+  return (width * size) / 1000;
+};
+
+/**
+ * Break text into lines no wider than maxWidth, keeping its own line breaks.
+ * Words too long for a line (URLs, mostly) are split wherever they overflow.
+ */
+export const wrapText = (text: string, font: PdfFont, size: number, maxWidth: number): string[] => {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+
+    for (const word of paragraph.split(/ +/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureText(candidate, font, size) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+
+      if (line) lines.push(line);
+      line = '';
+
+      for (const char of word) {
+        if (line && measureText(line + char, font, size) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+
+    lines.push(line);
+  }
+
+  return lines;
+};
+
+// PDF literal string: escape delimiters, write non-ASCII bytes as octal
+const pdfString = (text: string): string =>
+  `(${encode(text).replace(/[\\()]/g, '\\$&').replace(/[\x80-\xff]/g, (char) => `\\${char.charCodeAt(0).toString(8)}`)})`;
+
+const num = (n: number): string => Number(n.toFixed(2)).toString();
+
+const color = ([r, g, b]: Rgb): string => `${num(r)} ${num(g)} ${num(b)}`;
+
+// ============================================================================
+// IMAGES
+// ============================================================================
+
+export interface PdfImage {
+  readonly width: number;
+  readonly height: number;
+  readonly dictionary: string;  // Colour space, filter etc.
+  readonly data: Buffer;
+  readonly mask?: { dictionary: string; data: Buffer };  // Alpha channel
+}
+
+const JPEG_COLOR_SPACES: Record<number, string> = {
+  1: '/DeviceGray',
+  3: '/DeviceRGB',
+  4: '/DeviceCMYK /Decode [1 0 1 0 1 0 1 0]',  // Adobe writes CMYK inverted
+};
+
+const parseJpeg = (data: Buffer): PdfImage | null => {
+  let pos = 2;
+
+  while (pos + 9 < data.length) {
+    if (data[pos] !== 0xff) return null;
+    const marker = data[pos + 1];
+    const length = data.readUInt16BE(pos + 2);
+
+    // Start-of-frame markers carry the size (C4, C8 and CC are other tables)
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      const colorSpace = JPEG_COLOR_SPACES[data[pos + 9]];
+      if (!colorSpace) return null;
+
+      return {
+        width: data.readUInt16BE(pos + 7),
+        height: data.readUInt16BE(pos + 5),
+        dictionary: `/ColorSpace ${colorSpace} /BitsPerComponent ${data[pos + 4]} /Filter /DCTDecode`,
+        data,
+      };
+    }
+
+    pos += 2 + length;
+  }
+
+  return null;
+};
+
+const paeth = (a: number, b: number, c: number): number => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+};
+
+// Undo PNG's per-row filters (8-bit samples)
+const unfilterPng = (data: Buffer, width: number, height: number, bytesPerPixel: number): Buffer => {
+  const stride = width * bytesPerPixel;
+  const out = Buffer.alloc(stride * height);
+  let pos = 0;
+
+  for (let y = 0; y < height; y++) {
+    const filter = data[pos++];
+    const row = y * stride;
+
+    for (let x = 0; x < stride; x++) {
+      const raw = data[pos++];
+      const a = x >= bytesPerPixel ? out[row + x - bytesPerPixel] : 0;
+      const b = y > 0 ? out[row + x - stride] : 0;
+      const c = x >= bytesPerPixel && y > 0 ? out[row + x - stride - bytesPerPixel] : 0;
+
+      switch (filter) {
+        case 1: out[row + x] = raw + a; break;
+        case 2: out[row + x] = raw + b; break;
+        case 3: out[row + x] = raw + ((a + b) >> 1); break;
+        case 4: out[row + x] = raw + paeth(a, b, c); break;
+        default: out[row + x] = raw;
+      }
+    }
+  }
+
+  return out;
+};
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const parsePng = (data: Buffer): PdfImage | null => {
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlaced = false;
+  let palette: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  for (let pos = 8; pos + 8 <= data.length;) {
+    const length = data.readUInt32BE(pos);
+    const type = data.toString('latin1', pos + 4, pos + 8);
+    const chunk = data.subarray(pos + 8, pos + 8 + length);
+
+    if (type === 'IHDR') {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      interlaced = chunk[12] === 1;
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+
+    pos += 12 + length;
+  }
+
+  if (!width || !height || interlaced || width * height > MAX_IMAGE_PIXELS) return null;
+
+  const compressed = Buffer.concat(idat);
+  const predictor = (colors: number) =>
+    `/DecodeParms << /Predictor 15 /Colors ${colors} /BitsPerComponent ${bitDepth} /Columns ${width} >>`;
+
+  // Without alpha PDF can read PNG's compressed rows as they are
+  if (colorType === 0 || colorType === 2 || (colorType === 3 && palette)) {
+    const colorSpace = colorType === 0
+      ? '/DeviceGray'
+      : colorType === 2
+        ? '/DeviceRGB'
+        : `[/Indexed /DeviceRGB ${palette!.length / 3 - 1} <${palette!.toString('hex')}>]`;
+    const colors = colorType === 2 ? 3 : 1;
+
+    return {
+      width,
+      height,
+      dictionary: `/ColorSpace ${colorSpace} /BitsPerComponent ${bitDepth} /Filter /FlateDecode ${predictor(colors)}`,
+      data: compressed,
+    };
+  }
+
+  // With alpha the channel has to be split out into a soft mask
+  if ((colorType === 4 || colorType === 6) && bitDepth === 8) {
+    const colors = colorType === 6 ? 3 : 1;
+    const pixels = unfilterPng(
+      inflateSync(compressed, { maxOutputLength: height * (1 + width * (colors + 1)) }),
+      width,
+      height,
+      colors + 1
+    );
+    const color = Buffer.alloc(width * height * colors);
+    const alpha = Buffer.alloc(width * height);
+
+    for (let i = 0, c = 0; i < width * height; i++) {
+      const pixel = i * (colors + 1);
+      for (let k = 0; k < colors; k++) color[c++] = pixels[pixel + k];
+      alpha[i] = pixels[pixel + colors];
+    }
+
+    return {
+      width,
+      height,
+      dictionary: `/ColorSpace ${colors === 3 ? '/DeviceRGB' : '/DeviceGray'} /BitsPerComponent 8 /Filter /FlateDecode`,
+      data: deflateSync(color),
+      mask: {
+        dictionary: '/ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode',
+        data: deflateSync(alpha),
+      },
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Read a JPEG or PNG for embedding
+ * @returns null for other formats and PNG variants PDF can't take directly
+ *   (interlaced, or 16-bit with alpha)
+ */
+export const loadPdfImage = (data: Buffer): PdfImage | null => {
+  try {
+    if (data[0] === 0xff && data[1] === 0xd8) return parseJpeg(data);
+    if (data.subarray(0, 8).equals(PNG_SIGNATURE)) return parsePng(data);
+  } catch (error) {
+    // Truncated or corrupt file
+  }
+  return null;
+};
+
+// ============================================================================
+// DOCUMENT
+// ============================================================================
+
+export interface PdfPage {
+  readonly width: number;
+  readonly height: number;
+  // y is the text baseline
+  text(x: number, y: number, text: string, font: PdfFont, size: number, fill?: Rgb): void;
+  line(x1: number, y1: number, x2: number, y2: number, stroke?: Rgb, lineWidth?: number): void;
+  rect(x: number, y: number, width: number, height: number, fill: Rgb): void;
+  image(image: PdfImage, x: number, y: number, width: number, height: number): void;
+  // Make an area of the page open a URL when clicked
+  link(x: number, y: number, width: number, height: number, url: string): void;
+}
+
+export interface PdfDocument {
+  addPage(): PdfPage;
+  readonly pages: PdfPage[];
+  toBuffer(): Buffer;
+}
+
+const BLACK: Rgb = [0, 0, 0];
+
+/**
+ * Start an empty document; pages are A4 unless a size is given
+ */
+export const createPdf = (
+  info: { title?: string } = {},
+  size: { width: number; height: number } = A4
+): PdfDocument => {
+  const pages: Array<PdfPage & { ops: string[]; images: PdfImage[]; links: Array<{ rect: number[]; url: string }> }> = [];
+
+  const addPage = (): PdfPage => {
+    const ops: string[] = [];
+    const images: PdfImage[] = [];
+    const links: Array<{ rect: number[]; url: string }> = [];
+    const flip = (y: number) => size.height - y;
+
+    const page = {
+      width: size.width,
+      height: size.height,
+      ops,
+      images,
+      links,
+      text(x: number, y: number, text: string, font: PdfFont, fontSize: number, fill: Rgb = BLACK) {
+        ops.push(`BT /${FONTS[font].resource} ${num(fontSize)} Tf ${color(fill)} rg ${num(x)} ${num(flip(y))} Td ${pdfString(text)} Tj ET`);
+      },
+      line(x1: number, y1: number, x2: number, y2: number, stroke: Rgb = BLACK, lineWidth = 0.5) {
+        ops.push(`${color(stroke)} RG ${num(lineWidth)} w ${num(x1)} ${num(flip(y1))} m ${num(x2)} ${num(flip(y2))} l S`);
+      },
+      rect(x: number, y: number, width: number, height: number, fill: Rgb) {
+        ops.push(`${color(fill)} rg ${num(x)} ${num(flip(y + height))} ${num(width)} ${num(height)} re f`);
+      },
+      image(image: PdfImage, x: number, y: number, width: number, height: number) {
+        if (!images.includes(image)) images.push(image);
+        ops.push(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(flip(y + height))} cm /Im${images.indexOf(image) + 1} Do Q`);
+      },
+      link(x: number, y: number, width: number, height: number, url: string) {
+        links.push({ rect: [x, flip(y + height), x + width, flip(y)], url });
+      },
+    };
+
+    pages.push(page);
+    return page;
+  };
+
+  const toBuffer = (): Buffer => {
+    const objects: Array<string | Buffer> = [];
+    const reserve = () => objects.push('');  // Object numbers start at 1
+    const set = (id: number, body: string | Buffer) => { objects[id - 1] = body; };
+    const stream = (dictionary: string, data: Buffer) =>
+      Buffer.concat([
+        Buffer.from(`<< ${dictionary} /Length ${data.length} >>\nstream\n`, 'latin1'),
+        data,
+        Buffer.from('\nendstream', 'latin1'),
+      ]);
+
+    const catalogId = reserve();
+    const pagesId = reserve();
+    const fontIds = Object.fromEntries(
+      Object.values(FONTS).map((font) => [
+        font.resource,
+        objects.push(`<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} /Encoding /WinAnsiEncoding >>`),
+      ])
+    );
+    const fontResources = Object.entries(fontIds).map(([resource, id]) => `/${resource} ${id} 0 R`).join(' ');
+
+    // Each image is written once however many pages show it
+    const imageIds = new Map<PdfImage, number>();
+    const imageId = (image: PdfImage): number => {
+      if (!imageIds.has(image)) {
+        const maskId = image.mask
+          ? objects.push(stream(`/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ${image.mask.dictionary}`, image.mask.data))
+          : null;
+        imageIds.set(image, objects.push(stream(
+          `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ${image.dictionary}${maskId ? ` /SMask ${maskId} 0 R` : ''}`,
+          image.data
+        )));
+      }
+      return imageIds.get(image)!;
+    };
+
+    const pageIds = pages.map((page) => {
+      const contentId = objects.push(stream('/Filter /FlateDecode', deflateSync(Buffer.from(page.ops.join('\n'), 'latin1'))));
+      const xObjects = page.images.map((image, index) => `/Im${index + 1} ${imageId(image)} 0 R`).join(' ');
+      const annotIds = page.links.map(({ rect, url }) =>
+        objects.push(`<< /Type /Annot /Subtype /Link /Rect [${rect.map(num).join(' ')}] /Border [0 0 0] /A << /S /URI /URI ${pdfString(url)} >> >>`));
+
+      return objects.push(
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}]`
+        + ` /Resources << /Font << ${fontResources} >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >>`
+        + ` /Contents ${contentId} 0 R${annotIds.length ? ` /Annots [${annotIds.map((id) => `${id} 0 R`).join(' ')}]` : ''} >>`
+      );
+    });
+
+    set(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+    set(pagesId, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+
+    const created = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14);
+    const infoId = objects.push(`<< ${info.title ? `/Title ${pdfString(info.title)} ` : ''}/CreationDate (D:${created}Z) >>`);
+
+    // Header, numbered objects, then the cross-reference table of their offsets
+    const parts: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+    const offsets: number[] = [];
+    let offset = parts[0].length;
+
+    objects.forEach((body, index) => {
+      const object = Buffer.concat([
+        Buffer.from(`${index + 1} 0 obj\n`, 'latin1'),
+        typeof body === 'string' ? Buffer.from(body, 'latin1') : body,
+        Buffer.from('\nendobj\n', 'latin1'),
+      ]);
+      offsets.push(offset);
+      parts.push(object);
+      offset += object.length;
+    });
+
+    const xref = [
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map((position) => `${String(position).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+      'startxref',
+      String(offset),
+      '%%EOF',
+      '',
+    ].join('\n');
+
+    parts.push(Buffer.from(xref, 'latin1'));
+    return Buffer.concat(parts);
+  };
+
+  return { addPage, pages, toBuffer };
+};
@@ -0,0 +1,864 @@
+/**
+ * Minimal raster image toolkit
+ * Decodes PNG (non-interlaced, any bit depth and colour type) and baseline
+ * JPEG (greyscale or YCbCr) to RGBA pixels, draws simple shapes, softens or
+ * covers rectangles, and encodes the result as PNG. Progressive JPEGs,
+ * interlaced PNGs, GIF and other formats aren't supported.
+ */
+
+import { deflateSync, inflateSync } from 'zlib';
+import { crc32 } from './zip';
+
+export interface RasterImage {
+  readonly width: number;
+  readonly height: number;
+  readonly data: Uint8Array;  // RGBA, 8 bits per channel, row by row
+}
+
+export interface RasterColor {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export interface RasterRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Parse a '#RRGGBB' colour
+ */
+export const parseHexColor = (hex: string): RasterColor => ({
+  r: parseInt(hex.slice(1, 3), 16),
+  g: parseInt(hex.slice(3, 5), 16),
+  b: parseInt(hex.slice(5, 7), 16),
+});
+
+const clampByte = (value: number): number => (value < 0 ? 0 : value > 255 ? 255 : Math.round(value));
+
+// Largest image decoded (about 5000 x 5000). A small compressed file can
+// claim any size, and decoding allocates 4 bytes per pixel up front.
+export const MAX_IMAGE_PIXELS = 25_000_000;
+
+// ============================================================================
+// PNG
+// ============================================================================
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Samples per pixel by colour type: grey, RGB, palette, grey + alpha, RGBA
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+const paeth = (left: number, up: number, upLeft: number): number => {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  return toLeft <= toUp && toLeft <= toUpLeft ? left : toUp <= toUpLeft ? up : upLeft;
+};
+
+const decodePng = (data: Buffer): RasterImage | null => {
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlaced = false;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  for (let pos = 8; pos + 8 <= data.length;) {
+    const length = data.readUInt32BE(pos);
+    const type = data.toString('latin1', pos + 4, pos + 8);
+    const chunk = data.subarray(pos + 8, pos + 8 + length);
+
+    if (type === 'IHDR') {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      interlaced = chunk[12] === 1;
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'tRNS') {
+      transparency = chunk;
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+
+    pos += 12 + length;
+  }
+
+  const channels = PNG_CHANNELS[colorType];
+  if (!width || !height || !channels || interlaced || (colorType === 3 && !palette)) return null;
+  if (![1, 2, 4, 8, 16].includes(bitDepth) || width * height > MAX_IMAGE_PIXELS) return null;
+
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  // A filter byte then the pixels for each row; a stream that inflates to
+  // more is refused rather than allocated
+  const raw = inflateSync(Buffer.concat(idat), { maxOutputLength: height * (stride + 1) });
+  if (raw.length < height * (stride + 1)) return null;
+
+  // Undo each row's filter
+  const rows = new Uint8Array(height * stride);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const source = y * (stride + 1) + 1;
+    const row = y * stride;
+
+    for (let x = 0; x < stride; x++) {
+      const left = x >= bytesPerPixel ? rows[row + x - bytesPerPixel] : 0;
+      const up = y > 0 ? rows[row - stride + x] : 0;
+      const upLeft = x >= bytesPerPixel && y > 0 ? rows[row - stride + x - bytesPerPixel] : 0;
+      const value = raw[source + x];
+
+      switch (filter) {
+        case 0: rows[row + x] = value; break;
+        case 1: rows[row + x] = value + left; break;
+        case 2: rows[row + x] = value + up; break;
+        case 3: rows[row + x] = value + ((left + up) >> 1); break;
+        case 4: rows[row + x] = value + paeth(left, up, upLeft); break;
+        default: return null;
+      }
+    }
+  }
+
+  // A sample at its stored precision (up to 16 bits), and scaled to 8 bits
+  const sample = (row: number, index: number): number => {
+    if (bitDepth === 8) return rows[row + index];
+    if (bitDepth === 16) return (rows[row + index * 2] << 8) | rows[row + index * 2 + 1];
+    const bit = index * bitDepth;
+    return (rows[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
+  };
+  const toByte = (value: number): number =>
+    bitDepth === 16 ? value >> 8 : bitDepth < 8 ? Math.round((value * 255) / ((1 << bitDepth) - 1)) : value;
+
+  // tRNS for grey and RGB images names one transparent colour
+  const transparentKey = transparency && (colorType === 0 || colorType === 2)
+    ? Array.from({ length: colorType === 0 ? 1 : 3 }, (_, i) => transparency!.readUInt16BE(i * 2))
+    : null;
+
+  const pixels = new Uint8Array(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      const first = x * channels;
+
+      if (colorType === 3) {
+        const index = sample(row, x);
+        pixels[out] = palette![index * 3] ?? 0;
+        pixels[out + 1] = palette![index * 3 + 1] ?? 0;
+        pixels[out + 2] = palette![index * 3 + 2] ?? 0;
+        pixels[out + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+        continue;
+      }
+
+      const values = Array.from({ length: channels }, (_, i) => sample(row, first + i));
+      const color = colorType === 0 || colorType === 4 ? [values[0], values[0], values[0]] : values.slice(0, 3);
+
+      pixels[out] = toByte(color[0]);
+      pixels[out + 1] = toByte(color[1]);
+      pixels[out + 2] = toByte(color[2]);
+
+      if (colorType === 4 || colorType === 6) {
+        pixels[out + 3] = toByte(values[channels - 1]);
+      } else {
+        const keyed = transparentKey && transparentKey.every((key, i) => key === values[i]);
+        pixels[out + 3] = keyed ? 0 : 255;
+      }
+    }
+  }
+
+  return { width, height, data: pixels };
+};
+
+/**
+ * Encode pixels as an 8-bit PNG (RGB when fully opaque, otherwise RGBA).
+ * Each row uses whichever of the Sub and Up filters leaves smaller values.
+ */
+export const encodePng = (image: RasterImage): Buffer => {
+  const { width, height, data } = image;
+
+  let opaque = true;
+  for (let i = 3; i < data.length && opaque; i += 4) {
+    if (data[i] !== 255) opaque = false;
+  }
+
+  const channels = opaque ? 3 : 4;
+  const stride = width * channels;
+  const raw = Buffer.alloc(height * (stride + 1));
+  const line = new Uint8Array(stride);
+  const previous = new Uint8Array(stride);
+  const sub = new Uint8Array(stride);
+  const up = new Uint8Array(stride);
+
+  // Filtered bytes are signed; smaller magnitudes compress better
+  const cost = (bytes: Uint8Array): number => bytes.reduce((sum, value) => sum + (value < 128 ? value : 256 - value), 0);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < channels; c++) {
+        line[x * channels + c] = data[(y * width + x) * 4 + c];
+      }
+    }
+
+    for (let i = 0; i < stride; i++) {
+      sub[i] = line[i] - (i >= channels ? line[i - channels] : 0);
+      up[i] = line[i] - previous[i];
+    }
+
+    const useUp = y > 0 && cost(up) < cost(sub);
+    raw[y * (stride + 1)] = useUp ? 2 : 1;
+    raw.set(useUp ? up : sub, y * (stride + 1) + 1);
+    previous.set(line);
+  }
+
+  const chunk = (type: string, body: Buffer): Buffer => {
+    const typed = Buffer.concat([Buffer.from(type, 'latin1'), body]);
+    const length = Buffer.alloc(4);
+    const crc = Buffer.alloc(4);
+    length.writeUInt32BE(body.length);
+    crc.writeUInt32BE(crc32(typed));
+    return Buffer.concat([length, typed, crc]);
+  };
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;                  // Bit depth
+  header[9] = opaque ? 2 : 6;     // Colour type
+  // Compression, filter and interlace methods stay 0
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+};
+
+// ============================================================================
+// JPEG (baseline)
+// ============================================================================
+
+// Position in the 8x8 block of each coefficient, in the order they're stored
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+];
+
+// IDCT_BASIS[u * 8 + x] = C(u) cos((2x + 1)uπ / 16) / 2
+const IDCT_BASIS = (() => {
+  const basis = new Float64Array(64);
+  for (let u = 0; u < 8; u++) {
+    for (let x = 0; x < 8; x++) {
+      basis[u * 8 + x] = ((u === 0 ? Math.SQRT1_2 : 1) * Math.cos(((2 * x + 1) * u * Math.PI) / 16)) / 2;
+    }
+  }
+  return basis;
+})();
+
+interface HuffmanTable {
+  maxCode: Int32Array;    // Largest code of each length, -1 if none
+  valueOffset: Int32Array;
+  values: Uint8Array;
+}
+
+interface JpegComponent {
+  id: number;
+  h: number;
+  v: number;
+  quantTable: number;
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  pixels: Uint8Array;     // blocksPerLine * 8 wide
+  prediction: number;
+  dcTable?: HuffmanTable;
+  acTable?: HuffmanTable;
+}
+
+const buildHuffmanTable = (counts: Uint8Array, values: Uint8Array): HuffmanTable => {
+  const maxCode = new Int32Array(17).fill(-1);
+  const valueOffset = new Int32Array(17);
+  let code = 0;
+  let index = 0;
+
+  for (let length = 1; length <= 16; length++) {
+    const count = counts[length - 1];
+    valueOffset[length] = index - code;
+    code += count;
+    index += count;
+    if (count > 0) maxCode[length] = code - 1;
+    code <<= 1;
+  }
+
+  return { maxCode, valueOffset, values };
+};
+
+// Inverse DCT of one block of coefficients into 8-bit samples
+const inverseDct = (coefficients: Float64Array, out: Uint8Array, offset: number, lineWidth: number) => {
+  const rows = new Float64Array(64);
+
+  for (let v = 0; v < 8; v++) {
+    for (let x = 0; x < 8; x++) {
+      let sum = 0;
+      for (let u = 0; u < 8; u++) sum += IDCT_BASIS[u * 8 + x] * coefficients[v * 8 + u];
+      rows[v * 8 + x] = sum;
+    }
+  }
+
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      let sum = 0;
+      for (let v = 0; v < 8; v++) sum += IDCT_BASIS[v * 8 + y] * rows[v * 8 + x];
+      out[offset + y * lineWidth + x] = clampByte(sum + 128);
+    }
+  }
+};
+
+const isRestartMarker = (marker: number) => marker >= 0xd0 && marker <= 0xd7;
+
+const decodeJpeg = (data: Buffer): RasterImage | null => {
+  const quantTables: Uint16Array[] = [];
+  const dcTables: HuffmanTable[] = [];
+  const acTables: HuffmanTable[] = [];
+  let components: JpegComponent[] = [];
+  let width = 0;
+  let height = 0;
+  let maxH = 1;
+  let maxV = 1;
+  let mcusPerLine = 0;
+  let mcusPerColumn = 0;
+  let restartInterval = 0;
+  let adobeTransform: number | null = null;
+
+  // Decode one scan's entropy-coded data, starting at `start`
+  // @returns Where the data ends (the next marker)
+  const decodeScan = (start: number, scanComponents: JpegComponent[]): number => {
+    let pos = start;
+    let bitBuffer = 0;
+    let bitCount = 0;
+
+    const readBit = (): number => {
+      if (bitCount === 0) {
+        let byte = pos < data.length ? data[pos++] : 0;
+        if (byte === 0xff) {
+          if (data[pos] === 0x00) {
+            pos++;  // Stuffed zero
+          } else {
+            pos--;  // A marker: leave it, and pad with zero bits
+            byte = 0;
+          }
+        }
+        bitBuffer = byte;
+        bitCount = 8;
+      }
+      bitCount--;
+      return (bitBuffer >> bitCount) & 1;
+    };
+
+    const receive = (length: number): number => {
+      let value = 0;
+      for (let i = 0; i < length; i++) value = (value << 1) | readBit();
+      return value;
+    };
+
+    // Sign-extend a `length`-bit magnitude category value
+    const receiveExtend = (length: number): number => {
+      if (length === 0) return 0;
+      const value = receive(length);
+      return value < 1 << (length - 1) ? value - (1 << length) + 1 : value;
+    };
+
+    const decodeHuffman = (table: HuffmanTable): number => {
+      let code = 0;
+      for (let length = 1; length <= 16; length++) {
+        code = (code << 1) | readBit();
+        if (code <= table.maxCode[length]) return table.values[code + table.valueOffset[length]];
+      }
+      throw new Error('Invalid Huffman code in JPEG data');
+    };
+
+    const coefficients = new Float64Array(64);
+
+    const decodeBlock = (component: JpegComponent, blockRow: number, blockColumn: number) => {
+      if (blockRow >= component.blocksPerColumn || blockColumn >= component.blocksPerLine) return;
+      const quant = quantTables[component.quantTable];
+      coefficients.fill(0);
+
+      component.prediction += receiveExtend(decodeHuffman(component.dcTable!));
+      coefficients[0] = component.prediction * quant[0];
+
+      for (let k = 1; k < 64;) {
+        const symbol = decodeHuffman(component.acTable!);
+        const size = symbol & 15;
+        const run = symbol >> 4;
+
+        if (size === 0) {
+          if (run !== 15) break;  // End of block
+          k += 16;
+          continue;
+        }
+
+        k += run;
+        if (k > 63) break;
+        coefficients[ZIGZAG[k]] = receiveExtend(size) * quant[k];
+        k++;
+      }
+
+      const lineWidth = component.blocksPerLine * 8;
+      inverseDct(coefficients, component.pixels, blockRow * 8 * lineWidth + blockColumn * 8, lineWidth);
+    };
+
+    // One component on its own: each block is an MCU, and only the blocks
+    // covering the image are coded
+    const single = scanComponents.length === 1 ? scanComponents[0] : null;
+    const columns = single ? Math.ceil(Math.ceil((width * single.h) / maxH) / 8) : mcusPerLine;
+    const rows = single ? Math.ceil(Math.ceil((height * single.v) / maxV) / 8) : mcusPerColumn;
+    const total = columns * rows;
+
+    for (let mcu = 0; mcu < total; mcu++) {
+      if (restartInterval && mcu > 0 && mcu % restartInterval === 0) {
+        // Byte-align, skip the RSTn marker and start predicting from zero
+        bitCount = 0;
+        while (pos + 1 < data.length && !(data[pos] === 0xff && isRestartMarker(data[pos + 1]))) pos++;
+        pos += 2;
+        scanComponents.forEach((component) => { component.prediction = 0; });
+      }
+
+      const row = Math.floor(mcu / columns);
+      const column = mcu % columns;
+
+      if (single) {
+        decodeBlock(single, row, column);
+        continue;
+      }
+
+      for (const component of scanComponents) {
+        for (let v = 0; v < component.v; v++) {
+          for (let h = 0; h < component.h; h++) {
+            decodeBlock(component, row * component.v + v, column * component.h + h);
+          }
+        }
+      }
+    }
+
+    while (pos + 1 < data.length && !(data[pos] === 0xff && data[pos + 1] !== 0 && !isRestartMarker(data[pos + 1]))) pos++;
+    return pos;
+  };
+
+  for (let pos = 2; pos + 4 <= data.length;) {
+    if (data[pos] !== 0xff) {
+      pos++;
+      continue;
+    }
+
+    const marker = data[pos + 1];
+    if (marker === 0xff || marker === 0x00 || marker === 0xd8 || marker === 0x01 || isRestartMarker(marker)) {
+      pos += marker === 0xff ? 1 : 2;
+      continue;
+    }
+    if (marker === 0xd9) break;  // End of image
+
+    const length = data.readUInt16BE(pos + 2);
+    const segment = data.subarray(pos + 4, pos + 2 + length);
+    pos += 2 + length;
+
+    switch (marker) {
+      case 0xdb: {  // Quantization tables
+        for (let i = 0; i < segment.length;) {
+          const precision = segment[i] >> 4;
+          const id = segment[i] & 15;
+          const table = new Uint16Array(64);
+          for (let k = 0; k < 64; k++) {
+            table[k] = precision ? segment.readUInt16BE(i + 1 + k * 2) : segment[i + 1 + k];
+          }
+          quantTables[id] = table;
+          i += 1 + 64 * (precision ? 2 : 1);
+        }
+        break;
+      }
+
+      case 0xc4: {  // Huffman tables
+        for (let i = 0; i < segment.length;) {
+          const tableClass = segment[i] >> 4;
+          const id = segment[i] & 15;
+          const counts = segment.subarray(i + 1, i + 17);
+          const total = counts.reduce((sum, count) => sum + count, 0);
+          const table = buildHuffmanTable(counts, segment.subarray(i + 17, i + 17 + total));
+          (tableClass === 0 ? dcTables : acTables)[id] = table;
+          i += 17 + total;
+        }
+        break;
+      }
+
+      case 0xc0:
+      case 0xc1: {  // Baseline / extended sequential, Huffman coded
+        if (segment[0] !== 8) return null;
+        height = segment.readUInt16BE(1);
+        width = segment.readUInt16BE(3);
+        const count = segment[5];
+        if (!width || !height || (count !== 1 && count !== 3) || width * height > MAX_IMAGE_PIXELS) return null;
+
+        components = Array.from({ length: count }, (_, i) => ({
+          id: segment[6 + i * 3],
+          h: segment[7 + i * 3] >> 4,
+          v: segment[7 + i * 3] & 15,
+          quantTable: segment[8 + i * 3],
+          blocksPerLine: 0,
+          blocksPerColumn: 0,
+          pixels: new Uint8Array(0),
+          prediction: 0,
+        }));
+
+        // Sampling factors are 1-4; anything else would size the planes wrongly
+        if (components.some((component) => component.h < 1 || component.h > 4 || component.v < 1 || component.v > 4)) {
+          return null;
+        }
+
+        maxH = Math.max(...components.map((component) => component.h));
+        maxV = Math.max(...components.map((component) => component.v));
+        mcusPerLine = Math.ceil(width / (8 * maxH));
+        mcusPerColumn = Math.ceil(height / (8 * maxV));
+
+        for (const component of components) {
+          component.blocksPerLine = mcusPerLine * component.h;
+          component.blocksPerColumn = mcusPerColumn * component.v;
+          component.pixels = new Uint8Array(component.blocksPerLine * component.blocksPerColumn * 64);
+        }
+        break;
+      }
+
+      case 0xdd:  // Restart interval
+        restartInterval = segment.readUInt16BE(0);
+        break;
+
+      case 0xee:  // Adobe: says whether 3 components are YCbCr or RGB
+        if (segment.toString('latin1', 0, 5) === 'Adobe') adobeTransform = segment[11];
+        break;
+
+      case 0xda: {  // Start of scan
+        if (components.length === 0) return null;
+        const count = segment[0];
+        const scanComponents: JpegComponent[] = [];
+
+        for (let i = 0; i < count; i++) {
+          const component = components.find((candidate) => candidate.id === segment[1 + i * 2]);
+          if (!component) return null;
+          component.dcTable = dcTables[segment[2 + i * 2] >> 4];
+          component.acTable = acTables[segment[2 + i * 2] & 15];
+          if (!component.dcTable || !component.acTable) return null;
+          component.prediction = 0;
+          scanComponents.push(component);
+        }
+
+        pos = decodeScan(pos, scanComponents);
+        break;
+      }
+
+      default:
+        // Progressive, lossless and arithmetic-coded frames aren't supported
+        if (marker >= 0xc2 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) return null;
+    }
+  }
+
+  if (components.length === 0) return null;
+
+  const pixels = new Uint8Array(width * height * 4);
+  const sampleAt = (component: JpegComponent, x: number, y: number): number => {
+    const sx = Math.floor((x * component.h) / maxH);
+    const sy = Math.floor((y * component.v) / maxV);
+    return component.pixels[sy * component.blocksPerLine * 8 + sx];
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      pixels[out + 3] = 255;
+
+      if (components.length === 1) {
+        pixels[out] = pixels[out + 1] = pixels[out + 2] = sampleAt(components[0], x, y);
+        continue;
+      }
+
+      const [first, second, third] = components.map((component) => sampleAt(component, x, y));
+
+      if (adobeTransform === 0) {
+        pixels[out] = first;
+        pixels[out + 1] = second;
+        pixels[out + 2] = third;
+      } else {
+        pixels[out] = clampByte(first + 1.402 * (third - 128));
+        pixels[out + 1] = clampByte(first - 0.344136 * (second - 128) - 0.714136 * (third - 128));
+        pixels[out + 2] = clampByte(first + 1.772 * (second - 128));
+      }
+    }
+  }
+
+  return { width, height, data: pixels };
+};
+
+/**
+ * Decode a PNG or baseline JPEG to RGBA pixels
+ * @returns null for other formats and unsupported variants
+ */
+export const decodeImage = (data: Buffer): RasterImage | null => {
+  try {
+    if (data[0] === 0xff && data[1] === 0xd8) return decodeJpeg(data);
+    if (data.subarray(0, 8).equals(PNG_SIGNATURE)) return decodePng(data);
+  } catch (error) {
+    // Truncated or corrupt file
+  }
+  return null;
+};
+
+// ============================================================================
+// DRAWING
+// ============================================================================
+
+// Blend a colour over one pixel; `coverage` (0-1) softens edges
+const blendPixel = (image: RasterImage, x: number, y: number, color: RasterColor, coverage: number) => {
+  if (x < 0 || y < 0 || x >= image.width || y >= image.height || coverage <= 0) return;
+  const out = (y * image.width + x) * 4;
+  const alpha = Math.min(coverage, 1);
+  const data = image.data;
+
+  data[out] = clampByte(data[out] + (color.r - data[out]) * alpha);
+  data[out + 1] = clampByte(data[out + 1] + (color.g - data[out + 1]) * alpha);
+  data[out + 2] = clampByte(data[out + 2] + (color.b - data[out + 2]) * alpha);
+  data[out + 3] = clampByte(data[out + 3] + (255 - data[out + 3]) * alpha);
+};
+
+// The part of a rectangle inside the image, in whole pixels
+const clipRect = (image: RasterImage, rect: RasterRect) => {
+  const left = Math.max(0, Math.floor(rect.x));
+  const top = Math.max(0, Math.floor(rect.y));
+  const right = Math.min(image.width, Math.ceil(rect.x + rect.width));
+  const bottom = Math.min(image.height, Math.ceil(rect.y + rect.height));
+  return { left, top, right, bottom };
+};
+
+/**
+ * Fill a rectangle, optionally see-through (opacity 0-1)
+ */
+export const fillRect = (image: RasterImage, rect: RasterRect, color: RasterColor, opacity = 1) => {
+  const { left, top, right, bottom } = clipRect(image, rect);
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) blendPixel(image, x, y, color, opacity);
+  }
+};
+
+/**
+ * Outline a rectangle, the stroke running just inside its edges
+ */
+export const strokeRect = (image: RasterImage, rect: RasterRect, color: RasterColor, thickness: number) => {
+  const t = Math.min(thickness, rect.width / 2, rect.height / 2);
+  fillRect(image, { x: rect.x, y: rect.y, width: rect.width, height: t }, color);
+  fillRect(image, { x: rect.x, y: rect.y + rect.height - t, width: rect.width, height: t }, color);
+  fillRect(image, { x: rect.x, y: rect.y + t, width: t, height: rect.height - 2 * t }, color);
+  fillRect(image, { x: rect.x + rect.width - t, y: rect.y + t, width: t, height: rect.height - 2 * t }, color);
+};
+
+/**
+ * Draw a straight line with round ends
+ */
+export const drawLine = (
+  image: RasterImage,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  thickness: number,
+  color: RasterColor
+) => {
+  const half = thickness / 2;
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const lengthSquared = dx * dx + dy * dy || 1;
+  const { left, top, right, bottom } = clipRect(image, {
+    x: Math.min(from.x, to.x) - half - 1,
+    y: Math.min(from.y, to.y) - half - 1,
+    width: Math.abs(dx) + thickness + 2,
+    height: Math.abs(dy) + thickness + 2,
+  });
+
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      const px = x + 0.5;
+      const py = y + 0.5;
+      const along = Math.max(0, Math.min(1, ((px - from.x) * dx + (py - from.y) * dy) / lengthSquared));
+      const distance = Math.hypot(px - (from.x + along * dx), py - (from.y + along * dy));
+      blendPixel(image, x, y, color, half + 0.5 - distance);
+    }
+  }
+};
+
+/**
+ * Fill a triangle
+ */
+export const fillTriangle = (
+  image: RasterImage,
+  points: [{ x: number; y: number }, { x: number; y: number }, { x: number; y: number }],
+  color: RasterColor
+) => {
+  const [a, b, c] = points;
+  const edge = (p: { x: number; y: number }, q: { x: number; y: number }, x: number, y: number) =>
+    (q.x - p.x) * (y - p.y) - (q.y - p.y) * (x - p.x);
+  const area = edge(a, b, c.x, c.y);
+  if (area === 0) return;
+
+  const { left, top, right, bottom } = clipRect(image, {
+    x: Math.min(a.x, b.x, c.x),
+    y: Math.min(a.y, b.y, c.y),
+    width: Math.max(a.x, b.x, c.x) - Math.min(a.x, b.x, c.x),
+    height: Math.max(a.y, b.y, c.y) - Math.min(a.y, b.y, c.y),
+  });
+
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      const px = x + 0.5;
+      const py = y + 0.5;
+      const w0 = edge(b, c, px, py) / area;
+      const w1 = edge(c, a, px, py) / area;
+      const w2 = edge(a, b, px, py) / area;
+      if (w0 >= 0 && w1 >= 0 && w2 >= 0) blendPixel(image, x, y, color, 1);
+    }
+  }
+};
+
+/**
+ * Fill a circle, with a softened edge
+ */
+export const fillCircle = (
+  image: RasterImage,
+  center: { x: number; y: number },
+  radius: number,
+  color: RasterColor
+) => {
+  const { left, top, right, bottom } = clipRect(image, {
+    x: center.x - radius - 1,
+    y: center.y - radius - 1,
+    width: radius * 2 + 2,
+    height: radius * 2 + 2,
+  });
+
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      const distance = Math.hypot(x + 0.5 - center.x, y + 0.5 - center.y);
+      blendPixel(image, x, y, color, radius + 0.5 - distance);
+    }
+  }
+};
+
+/**
+ * Blur a rectangle beyond recognition: three box-blur passes each way,
+ * reading only pixels inside the rectangle so nothing around it bleeds in
+ */
+export const blurRect = (image: RasterImage, rect: RasterRect, radius: number) => {
+  const { left, top, right, bottom } = clipRect(image, rect);
+  const width = right - left;
+  const height = bottom - top;
+  if (width <= 0 || height <= 0) return;
+
+  const r = Math.max(1, Math.round(radius));
+  const region = new Float64Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < 4; c++) region[(y * width + x) * 4 + c] = image.data[((top + y) * image.width + left + x) * 4 + c];
+    }
+  }
+
+  // One pass along lines of `count` pixels, `step` apart, keeping a running
+  // sum of the window so the cost doesn't grow with the radius
+  const pass = (lines: number, count: number, start: (line: number) => number, step: number) => {
+    const values = new Float64Array(count * 4);
+    const sums = new Float64Array(4);
+
+    for (let line = 0; line < lines; line++) {
+      const first = start(line);
+      for (let i = 0; i < count; i++) {
+        for (let c = 0; c < 4; c++) values[i * 4 + c] = region[first + i * step + c];
+      }
+
+      sums.fill(0);
+      for (let k = 0; k < Math.min(r, count); k++) {
+        for (let c = 0; c < 4; c++) sums[c] += values[k * 4 + c];
+      }
+
+      for (let i = 0; i < count; i++) {
+        if (i + r < count) {
+          for (let c = 0; c < 4; c++) sums[c] += values[(i + r) * 4 + c];
+        }
+        if (i - r - 1 >= 0) {
+          for (let c = 0; c < 4; c++) sums[c] -= values[(i - r - 1) * 4 + c];
+        }
+        const size = Math.min(count - 1, i + r) - Math.max(0, i - r) + 1;
+        for (let c = 0; c < 4; c++) region[first + i * step + c] = sums[c] / size;
+      }
+    }
+  };
+
+  for (let round = 0; round < 3; round++) {
+    pass(height, width, (y) => y * width * 4, 4);
+    pass(width, height, (x) => x * 4, width * 4);
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < 4; c++) image.data[((top + y) * image.width + left + x) * 4 + c] = clampByte(region[(y * width + x) * 4 + c]);
+    }
+  }
+};
+
+// 5x7 bitmap digits, one string per row
+const DIGITS: Record<string, string[]> = {
+  0: ['01110', '10001', '10011', '10101', '11001', '10001', '01110'],
+  1: ['00100', '01100', '00100', '00100', '00100', '00100', '01110'],
+  2: ['01110', '10001', '00001', '00010', '00100', '01000', '11111'],
+  3: ['11111', '00010', '00100', '00010', '00001', '10001', '01110'],
+  4: ['00010', '00110', '01010', '10010', '11111', '00010', '00010'],
+  5: ['11111', '10000', '11110', '00001', '00001', '10001', '01110'],
+  6: ['00110', '01000', '10000', '11110', '10001', '10001', '01110'],
+  7: ['11111', '00001', '00010', '00100', '01000', '01000', '01000'],
+  8: ['01110', '10001', '10001', '01110', '10001', '10001', '01110'],
+  9: ['01110', '10001', '10001', '01111', '00001', '00010', '01100'],
+};
+
+/**
+ * Draw a whole number centred on a point, `height` pixels tall (rounded
+ * down to a multiple of 7)
+ */
+export const drawNumber = (
+  image: RasterImage,
+  value: number,
+  center: { x: number; y: number },
+  height: number,
+  color: RasterColor
+) => {
+  const digits = String(Math.abs(Math.trunc(value))).split('');
+  const cell = Math.max(1, Math.floor(height / 7));
+  const width = digits.length * 5 * cell + (digits.length - 1) * cell;
+  const left = Math.round(center.x - width / 2);
+  const top = Math.round(center.y - (7 * cell) / 2);
+
+  digits.forEach((digit, index) => {
+    const originX = left + index * 6 * cell;
+    DIGITS[digit].forEach((row, y) => {
+      for (let x = 0; x < 5; x++) {
+        if (row[x] === '1') {
+          fillRect(image, { x: originX + x * cell, y: top + y * cell, width: cell, height: cell }, color);
+        }
+      }
+    });
+  });
+};
@@ -19,7 +19,42 @@ import {
   UpdateScreenshotInput,
   ActionStep,
   ActionScreenshotRef,
+  ActionFrequency,
+  ScreenshotAnnotation,
+  ScreenshotAnnotationType,
+  CreateScreenshotAnnotationInput,
+  UpdateScreenshotAnnotationInput,
+  SensitiveTextKind,
+  WorkspaceExportTable,
 } from '../types/models';
+import { isValidUrl, isValidLinkType, isValidAuthRequired, isValidLinkStatus } from '../types/links';
+import {
+  ZOHO_ACTION_TYPES,
+  ZOHO_EMPTY_VALUE,
+  ZOHO_TIME_UNITS,
+  ZOHO_VALUE_OPERATORS,
+  ZOHO_VALUELESS_OPERATORS,
+  isZohoActionType,
+  isZohoTimeUnit,
+  normalizeZohoOperator,
+} from '../types/zohoWorkflow';
+import {
+  AUTOMATION_ACTION_RELATIONSHIPS,
+  AUTOMATION_ACTION_TYPES,
+  AUTOMATION_CONDITION_OPERATORS,
+  AUTOMATION_DELAY_UNITS,
+  AUTOMATION_FREQUENCIES,
+  AUTOMATION_TRIGGER_TYPES,
+  AUTOMATION_VALUELESS_OPERATORS,
+  Automation,
+  AutomationSchedule,
+  AutomationTrigger,
+  CreateAutomationInput,
+  UpdateAutomationInput,
+  isAutomationActionRelationship,
+  isAutomationTriggerType,
+} from '../types/automation';
+import { CriteriaPatternError, getReferencedCriteria, parseCriteriaPattern } from './criteriaPattern';
 
 // ============================================================================
 // VALIDATION HELPERS
@@ -152,6 +187,13 @@ export function validateUpdateUser(input: UpdateUserInput): void {
 export function validateCreateSystem(input: CreateSystemInput): void {
   const errors = new ErrorCollector();
 
+  // Workspace ID validation
+  if (!input.workspace_id) {
+    errors.add('workspace_id', 'Workspace ID is required');
+  } else if (!isPositiveInteger(input.workspace_id)) {
+    errors.add('workspace_id', 'Workspace ID must be a positive integer');
+  }
+
   // User ID validation
   if (!input.user_id) {
     errors.add('user_id', 'User ID is required');
@@ -264,6 +306,47 @@ function validateActionScreenshots(screenshots: ActionScreenshotRef[]): string |
   return null;
 }
 
+export const ACTION_FREQUENCIES: ActionFrequency[] = ['ad_hoc', 'daily', 'weekly', 'monthly', 'quarterly', 'yearly'];
+
+/**
+ * Validate the operational attributes shared by action create and update
+ * (null clears an attribute on update, so it is always accepted here)
+ */
+function validateOperationalAttributes(
+  input: CreateActionInput | UpdateActionInput,
+  errors: ErrorCollector
+): void {
+  if (input.frequency !== undefined && input.frequency !== null) {
+    if (!ACTION_FREQUENCIES.includes(input.frequency)) {
+      errors.add('frequency', `Frequency must be one of: ${ACTION_FREQUENCIES.join(', ')}`);
+    }
+  }
+
+  if (input.average_duration_minutes !== undefined && input.average_duration_minutes !== null) {
+    if (!Number.isInteger(input.average_duration_minutes) || input.average_duration_minutes < 0) {
+      errors.add('average_duration_minutes', 'Average duration must be a non-negative whole number of minutes');
+    }
+  }
+
+  if (input.trigger_event !== undefined && input.trigger_event !== null) {
+    if (typeof input.trigger_event !== 'string' || !isValidLength(input.trigger_event, 1, 500)) {
+      errors.add('trigger_event', 'Trigger event must be between 1 and 500 characters');
+    }
+  }
+
+  if (input.responsible_role_id !== undefined && input.responsible_role_id !== null) {
+    if (!isPositiveInteger(input.responsible_role_id)) {
+      errors.add('responsible_role_id', 'Responsible role ID must be a positive integer');
+    }
+  }
+
+  if (input.systems_touched !== undefined) {
+    if (!Array.isArray(input.systems_touched) || !input.systems_touched.every(isPositiveInteger)) {
+      errors.add('systems_touched', 'Systems touched must be an array of system IDs');
+    }
+  }
+}
+
 /**
  * Validate data for creating a new action
  */
@@ -324,6 +407,9 @@ export function validateCreateAction(input: CreateActionInput): void {
     }
   }
 
+  // Operational attributes (optional)
+  validateOperationalAttributes(input, errors);
+
   if (errors.hasErrors()) {
     errors.throw('Invalid action data');
   }
@@ -367,12 +453,21 @@ export function validateUpdateAction(input: UpdateActionInput): void {
     }
   }
 
+  // Operational attributes (if provided)
+  validateOperationalAttributes(input, errors);
+
   // At least one field must be provided
   const hasAnyField = 
     input.title !== undefined ||
     input.description !== undefined ||
     input.steps !== undefined ||
-    input.screenshots !== undefined;
+    input.screenshots !== undefined ||
+    input.display_order !== undefined ||
+    input.frequency !== undefined ||
+    input.average_duration_minutes !== undefined ||
+    input.trigger_event !== undefined ||
+    input.responsible_role_id !== undefined ||
+    input.systems_touched !== undefined;
 
   if (!hasAnyField) {
     errors.add('_general', 'At least one field must be provided for update');
@@ -387,6 +482,9 @@ export function validateUpdateAction(input: UpdateActionInput): void {
 // SCREENSHOT VALIDATION
 // ============================================================================
 
+// Keys made by createStorageKey for an uploaded file
+const UPLOADED_STORAGE_KEY = /^screenshots\/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}(\.[a-z0-9]{1,10})?$/;
+
 /**
  * Validate data for creating a new screenshot
  */
@@ -400,11 +498,11 @@ export function validateCreateScreenshot(input: CreateScreenshotInput): void {
     errors.add('action_id', 'Action ID must be a positive integer');
   }
 
-  // File path validation
-  if (!input.file_path) {
-    errors.add('file_path', 'File path is required');
-  } else if (!isValidLength(input.file_path, 1, 500)) {
-    errors.add('file_path', 'File path must be between 1 and 500 characters');
+  // Files only come from uploads, so the key must be one an upload makes
+  if (!input.storage_key) {
+    errors.add('storage_key', 'Storage key is required');
+  } else if (typeof input.storage_key !== 'string' || !UPLOADED_STORAGE_KEY.test(input.storage_key)) {
+    errors.add('storage_key', 'Storage key must be one returned by POST /api/upload');
   }
 
   // Original filename validation (optional)
@@ -438,6 +536,179 @@ export function validateUpdateScreenshot(input: UpdateScreenshotInput): void {
   }
 }
 
+// ============================================================================
+// SCREENSHOT ANNOTATION VALIDATION
+// ============================================================================
+
+export const SCREENSHOT_ANNOTATION_TYPES: ScreenshotAnnotationType[] = ['callout', 'arrow', 'highlight', 'blur', 'redact'];
+
+// Which of the optional coordinates each type uses; the rest must be empty
+const ANNOTATION_FIELDS: Record<ScreenshotAnnotationType, Array<'step_number' | 'width' | 'height' | 'end_x' | 'end_y'>> = {
+  callout: ['step_number'],
+  arrow: ['end_x', 'end_y'],
+  highlight: ['width', 'height'],
+  blur: ['width', 'height'],
+  redact: ['width', 'height'],
+};
+
+const ANNOTATION_FIELD_RULES = {
+  step_number: { check: isPositiveInteger, message: 'Step number must be a positive integer' },
+  width: { check: isPositiveInteger, message: 'Width must be a positive whole number of pixels' },
+  height: { check: isPositiveInteger, message: 'Height must be a positive whole number of pixels' },
+  end_x: { check: (value: any) => Number.isInteger(value) && value >= 0, message: 'end_x must be a non-negative whole number of pixels' },
+  end_y: { check: (value: any) => Number.isInteger(value) && value >= 0, message: 'end_y must be a non-negative whole number of pixels' },
+};
+
+/**
+ * Check a whole annotation (as created, or as it will be after an update)
+ */
+function validateAnnotationShape(annotation: any, errors: ErrorCollector): void {
+  const type: ScreenshotAnnotationType = annotation.type;
+
+  if (!SCREENSHOT_ANNOTATION_TYPES.includes(type)) {
+    errors.add('type', `Type must be one of: ${SCREENSHOT_ANNOTATION_TYPES.join(', ')}`);
+    return;
+  }
+
+  for (const field of ['x', 'y'] as const) {
+    if (!Number.isInteger(annotation[field]) || annotation[field] < 0) {
+      errors.add(field, `${field} must be a non-negative whole number of pixels`);
+    }
+  }
+
+  const label = `${type.charAt(0).toUpperCase()}${type.slice(1)} annotations`;
+
+  for (const [field, rule] of Object.entries(ANNOTATION_FIELD_RULES)) {
+    const value = annotation[field];
+    const used = ANNOTATION_FIELDS[type].includes(field as keyof typeof ANNOTATION_FIELD_RULES);
+
+    if (used && (value === undefined || value === null)) {
+      errors.add(field, `${label} need ${field}`);
+    } else if (used && !rule.check(value)) {
+      errors.add(field, rule.message);
+    } else if (!used && value !== undefined && value !== null) {
+      errors.add(field, `${label} have no ${field}`);
+    }
+  }
+
+  if (annotation.color !== undefined && annotation.color !== null) {
+    if (typeof annotation.color !== 'string' || !/^#[0-9A-Fa-f]{6}$/.test(annotation.color)) {
+      errors.add('color', "Color must be a hex colour like '#E53935'");
+    }
+  }
+
+  if (annotation.note !== undefined && annotation.note !== null) {
+    if (typeof annotation.note !== 'string' || !isValidLength(annotation.note, 0, 1000)) {
+      errors.add('note', 'Note must not exceed 1000 characters');
+    }
+  }
+
+  if (annotation.display_order !== undefined && !Number.isInteger(annotation.display_order)) {
+    errors.add('display_order', 'Display order must be an integer');
+  }
+}
+
+/**
+ * Validate data for creating a screenshot annotation
+ */
+export function validateCreateScreenshotAnnotation(input: CreateScreenshotAnnotationInput): void {
+  const errors = new ErrorCollector();
+
+  if (!input.screenshot_id) {
+    errors.add('screenshot_id', 'Screenshot ID is required');
+  } else if (!isPositiveInteger(input.screenshot_id)) {
+    errors.add('screenshot_id', 'Screenshot ID must be a positive integer');
+  }
+
+  validateAnnotationShape(input, errors);
+
+  if (errors.hasErrors()) {
+    errors.throw('Invalid annotation data');
+  }
+}
+
+/**
+ * Validate data for updating a screenshot annotation, against what it
+ * will be combined with
+ */
+export function validateUpdateScreenshotAnnotation(
+  input: UpdateScreenshotAnnotationInput & { type?: unknown },
+  current: ScreenshotAnnotation
+): void {
+  const errors = new ErrorCollector();
+
+  if (input.type !== undefined && input.type !== current.type) {
+    errors.add('type', 'An annotation\'s type can\'t be changed; delete it and create a new one');
+  }
+
+  const defined = Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined));
+  validateAnnotationShape({ ...current, ...defined, type: current.type }, errors);
+
+  if (Object.keys(defined).length === 0) {
+    errors.add('_general', 'At least one field must be provided for update');
+  }
+
+  if (errors.hasErrors()) {
+    errors.throw('Invalid update data');
+  }
+}
+
+// ============================================================================
+// SCREENSHOT REDACTION VALIDATION
+// ============================================================================
+
+export const SENSITIVE_TEXT_KINDS: SensitiveTextKind[] = ['email', 'phone', 'card', 'token'];
+
+/**
+ * Validate a stored screenshot redaction (e.g. from a workspace export)
+ */
+export function validateScreenshotRedaction(redaction: any): void {
+  const errors = new ErrorCollector();
+
+  if (!isPositiveInteger(redaction.screenshot_id)) {
+    errors.add('screenshot_id', 'Screenshot ID must be a positive integer');
+  }
+
+  if (!SENSITIVE_TEXT_KINDS.includes(redaction.kind)) {
+    errors.add('kind', `Kind must be one of: ${SENSITIVE_TEXT_KINDS.join(', ')}`);
+  }
+
+  for (const field of ['x', 'y'] as const) {
+    if (!Number.isInteger(redaction[field]) || redaction[field] < 0) {
+      errors.add(field, `${field} must be a non-negative whole number of pixels`);
+    }
+  }
+
+  for (const field of ['width', 'height'] as const) {
+    if (!isPositiveInteger(redaction[field])) {
+      errors.add(field, `${field.charAt(0).toUpperCase()}${field.slice(1)} must be a positive whole number of pixels`);
+    }
+  }
+
+  if (typeof redaction.preview !== 'string' || !isValidLength(redaction.preview, 0, 100)) {
+    errors.add('preview', 'Preview must be a string of at most 100 characters');
+  }
+
+  if (errors.hasErrors()) {
+    errors.throw('Invalid redaction data');
+  }
+}
+
+/**
+ * Validate a change to whether a redaction is dismissed as a false positive
+ */
+export function validateUpdateScreenshotRedaction(input: { dismissed?: unknown }): void {
+  const errors = new ErrorCollector();
+
+  if (typeof input.dismissed !== 'boolean') {
+    errors.add('dismissed', 'dismissed must be true or false');
+  }
+
+  if (errors.hasErrors()) {
+    errors.throw('Invalid update data');
+  }
+}
+
 // ============================================================================
 // QUERY OPTIONS VALIDATION
 // ============================================================================
@@ -732,6 +1003,598 @@ export function validateAddActionToSequence(input: any): void {
     errors.throw('Invalid sequence action data');
   }
 }
+// ============================================================================
+// ZOHO WORKFLOW VALIDATION
+// ============================================================================
+
+const isNonEmptyString = (value: any): boolean =>
+  typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Validate one instant or scheduled workflow action, adding errors under `path`
+ */
+function validateZohoAction(action: any, path: string, errors: ErrorCollector): void {
+  if (!action || typeof action !== 'object') {
+    errors.add(path, 'Action must be an object');
+    return;
+  }
+
+  if (!isZohoActionType(action.type)) {
+    errors.add(`${path}.type`, `Action type must be one of: ${ZOHO_ACTION_TYPES.join(', ')}`);
+    return;
+  }
+
+  switch (action.type) {
+    case 'Field Update':
+      if (!Array.isArray(action.updates) || action.updates.length === 0) {
+        errors.add(`${path}.updates`, 'A field update needs at least one update');
+        break;
+      }
+
+      action.updates.forEach((update: any, index: number) => {
+        const updatePath = `${path}.updates[${index}]`;
+
+        if (!update || typeof update !== 'object') {
+          errors.add(updatePath, 'Update must be an object');
+          return;
+        }
+
+        for (const field of ['name', 'module', 'field']) {
+          if (!isNonEmptyString(update[field])) {
+            errors.add(`${updatePath}.${field}`, `Update ${field} is required`);
+          }
+        }
+
+        if (update.set_as_empty !== undefined && typeof update.set_as_empty !== 'boolean') {
+          errors.add(`${updatePath}.set_as_empty`, 'set_as_empty must be a boolean');
+        }
+
+        if (update.value === undefined && update.set_as_empty !== true) {
+          errors.add(`${updatePath}.value`, `Value is required unless set_as_empty is true (use "${ZOHO_EMPTY_VALUE}" to clear)`);
+        }
+
+        if (update.calculation !== undefined) {
+          const calculation = update.calculation;
+
+          if (!calculation || typeof calculation !== 'object') {
+            errors.add(`${updatePath}.calculation`, 'Calculation must be an object');
+          } else {
+            if (!['plus', 'minus'].includes(calculation.operator)) {
+              errors.add(`${updatePath}.calculation.operator`, "Calculation operator must be 'plus' or 'minus'");
+            }
+            if (typeof calculation.amount !== 'number' || !Number.isFinite(calculation.amount) || calculation.amount < 0) {
+              errors.add(`${updatePath}.calculation.amount`, 'Calculation amount must be a non-negative number');
+            }
+            if (!isZohoTimeUnit(calculation.unit)) {
+              errors.add(`${updatePath}.calculation.unit`, `Calculation unit must be one of: ${ZOHO_TIME_UNITS.join(', ')}`);
+            }
+          }
+        }
+      });
+      break;
+
+    case 'Function':
+      if (!isNonEmptyString(action.function_name)) {
+        errors.add(`${path}.function_name`, 'Function name is required');
+      }
+      if (action.parameters !== undefined && (typeof action.parameters !== 'object' || Array.isArray(action.parameters))) {
+        errors.add(`${path}.parameters`, 'Parameters must be an object');
+      }
+      break;
+
+    case 'Assign Owner':
+      if (!isNonEmptyString(action.assignment_rule)) {
+        errors.add(`${path}.assignment_rule`, 'Assignment rule is required');
+      }
+      break;
+
+    case 'Zoho Cliq Notification':
+      if (!isNonEmptyString(action.notification_name)) {
+        errors.add(`${path}.notification_name`, 'Notification name is required');
+      }
+      if (typeof action.message !== 'string') {
+        errors.add(`${path}.message`, 'Message is required');
+      }
+      if (action.notify_to !== undefined && typeof action.notify_to !== 'string') {
+        errors.add(`${path}.notify_to`, 'notify_to must be a string');
+      }
+      if (!Array.isArray(action.users) || !action.users.every(isNonEmptyString)) {
+        errors.add(`${path}.users`, 'Users must be an array of names');
+      }
+      break;
+  }
+}
+
+/**
+ * Validate a condition's criteria and pattern, adding errors under `path`
+ */
+function validateZohoCriteria(condition: any, path: string, errors: ErrorCollector): void {
+  if (!Array.isArray(condition.criteria)) {
+    errors.add(`${path}.criteria`, 'Criteria must be an array (empty for conditions that match every record)');
+    return;
+  }
+
+  const numbers = new Set<number>();
+
+  condition.criteria.forEach((criterion: any, index: number) => {
+    const criterionPath = `${path}.criteria[${index}]`;
+
+    if (!criterion || typeof criterion !== 'object') {
+      errors.add(criterionPath, 'Criterion must be an object');
+      return;
+    }
+
+    if (!isPositiveInteger(criterion.number)) {
+      errors.add(`${criterionPath}.number`, 'Criterion number must be a positive integer');
+    } else if (numbers.has(criterion.number)) {
+      errors.add(`${criterionPath}.number`, `Criterion number ${criterion.number} is used twice`);
+    } else {
+      numbers.add(criterion.number);
+    }
+
+    if (!isNonEmptyString(criterion.field)) {
+      errors.add(`${criterionPath}.field`, 'Criterion field is required');
+    }
+
+    if (!isNonEmptyString(criterion.operator)) {
+      errors.add(`${criterionPath}.operator`, 'Criterion operator is required');
+    } else {
+      const operator = normalizeZohoOperator(criterion.operator);
+      const hasValue = criterion.value !== undefined && criterion.value !== null && String(criterion.value).trim() !== '';
+
+      if (ZOHO_VALUE_OPERATORS.includes(operator) && !hasValue) {
+        errors.add(`${criterionPath}.value`, `Operator ${operator} needs a value`);
+      } else if (ZOHO_VALUELESS_OPERATORS.includes(operator) && hasValue) {
+        errors.add(`${criterionPath}.value`, `Operator ${operator} takes no value`);
+      }
+    }
+
+    if (criterion.value !== undefined && criterion.value !== null && !['string', 'number', 'boolean'].includes(typeof criterion.value)) {
+      errors.add(`${criterionPath}.value`, 'Criterion value must be text');
+    }
+  });
+
+  const pattern = condition.criteria_pattern;
+  const patternPath = `${path}.criteria_pattern`;
+
+  if (pattern === null || pattern === undefined || pattern === '') {
+    // A single criterion needs no pattern; several must say how they combine
+    if (condition.criteria.length > 1) {
+      errors.add(patternPath, 'A pattern is required to combine several criteria');
+    }
+    return;
+  }
+
+  if (typeof pattern !== 'string') {
+    errors.add(patternPath, 'Criteria pattern must be a string or null');
+    return;
+  }
+
+  if (condition.criteria.length === 0) {
+    errors.add(patternPath, 'Criteria pattern must be null when there are no criteria');
+    return;
+  }
+
+  try {
+    const missing = getReferencedCriteria(parseCriteriaPattern(pattern)).filter((number) => !numbers.has(number));
+
+    if (missing.length > 0) {
+      errors.add(patternPath, `Pattern refers to criteria that don't exist: ${missing.join(', ')}`);
+    }
+  } catch (error) {
+    if (!(error instanceof CriteriaPatternError)) throw error;
+    errors.add(patternPath, error.message);
+  }
+}
+
+/**
+ * Validate a Zoho CRM workflow in the documented import format
+ * (docs/sort-these-files/zoho-workflow-json-schema.md)
+ * @throws ValidationError listing each invalid field by path, e.g.
+ *   `conditions[0].criteria_pattern`
+ */
+export function validateZohoWorkflow(input: any): void {
+  const errors = new ErrorCollector();
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    errors.add('workflow', 'Workflow must be an object');
+    errors.throw('Invalid Zoho workflow');
+  }
+
+  if (!isNonEmptyString(input.workflow_name)) {
+    errors.add('workflow_name', 'Workflow name is required');
+  } else if (!isValidLength(input.workflow_name, 1, 255)) {
+    errors.add('workflow_name', 'Workflow name must be between 1 and 255 characters');
+  }
+
+  if (!isNonEmptyString(input.module)) {
+    errors.add('module', 'Module is required');
+  } else if (!isValidLength(input.module, 1, 100)) {
+    errors.add('module', 'Module must be between 1 and 100 characters');
+  }
+
+  // Trigger
+  const trigger = input.trigger;
+
+  if (!trigger || typeof trigger !== 'object') {
+    errors.add('trigger', 'Trigger is required');
+  } else {
+    if (!isNonEmptyString(trigger.when)) {
+      errors.add('trigger.when', 'Trigger description is required');
+    }
+
+    if (trigger.modified_fields !== undefined) {
+      if (!Array.isArray(trigger.modified_fields)) {
+        errors.add('trigger.modified_fields', 'Modified fields must be an array');
+      } else {
+        trigger.modified_fields.forEach((modified: any, index: number) => {
+          if (!modified || !isNonEmptyString(modified.field)) {
+            errors.add(`trigger.modified_fields[${index}].field`, 'Field is required');
+          }
+          if (!modified || !isNonEmptyString(modified.modification)) {
+            errors.add(`trigger.modified_fields[${index}].modification`, 'Modification is required');
+          }
+        });
+      }
+    }
+
+    if (trigger.repeat_on_modification !== undefined && typeof trigger.repeat_on_modification !== 'boolean') {
+      errors.add('trigger.repeat_on_modification', 'repeat_on_modification must be a boolean');
+    }
+  }
+
+  // Conditions
+  if (!Array.isArray(input.conditions)) {
+    errors.add('conditions', 'Conditions must be an array (can be empty)');
+  } else {
+    const conditionNumbers = new Set<number>();
+
+    input.conditions.forEach((condition: any, index: number) => {
+      const path = `conditions[${index}]`;
+
+      if (!condition || typeof condition !== 'object') {
+        errors.add(path, 'Condition must be an object');
+        return;
+      }
+
+      if (!isPositiveInteger(condition.condition_number)) {
+        errors.add(`${path}.condition_number`, 'Condition number must be a positive integer');
+      } else if (conditionNumbers.has(condition.condition_number)) {
+        errors.add(`${path}.condition_number`, `Condition number ${condition.condition_number} is used twice`);
+      } else {
+        conditionNumbers.add(condition.condition_number);
+      }
+
+      validateZohoCriteria(condition, path, errors);
+
+      if (condition.note !== undefined && condition.note !== null && typeof condition.note !== 'string') {
+        errors.add(`${path}.note`, 'Note must be a string');
+      }
+
+      const actions = condition.actions;
+
+      if (!actions || typeof actions !== 'object') {
+        errors.add(`${path}.actions`, 'Actions are required');
+        return;
+      }
+
+      if (!Array.isArray(actions.instant_actions)) {
+        errors.add(`${path}.actions.instant_actions`, 'Instant actions must be an array');
+      } else {
+        actions.instant_actions.forEach((action: any, actionIndex: number) => {
+          validateZohoAction(action, `${path}.actions.instant_actions[${actionIndex}]`, errors);
+        });
+      }
+
+      if (actions.scheduled_actions !== undefined) {
+        if (!Array.isArray(actions.scheduled_actions)) {
+          errors.add(`${path}.actions.scheduled_actions`, 'Scheduled actions must be an array');
+        } else {
+          actions.scheduled_actions.forEach((scheduled: any, actionIndex: number) => {
+            const scheduledPath = `${path}.actions.scheduled_actions[${actionIndex}]`;
+            const schedule = scheduled?.schedule;
+
+            validateZohoAction(scheduled?.action, `${scheduledPath}.action`, errors);
+
+            if (!schedule || typeof schedule !== 'object') {
+              errors.add(`${scheduledPath}.schedule`, 'Schedule is required');
+              return;
+            }
+            if (typeof schedule.delay !== 'number' || !Number.isFinite(schedule.delay) || schedule.delay < 0) {
+              errors.add(`${scheduledPath}.schedule.delay`, 'Delay must be a non-negative number');
+            }
+            if (!isZohoTimeUnit(schedule.unit)) {
+              errors.add(`${scheduledPath}.schedule.unit`, `Unit must be one of: ${ZOHO_TIME_UNITS.join(', ')}`);
+            }
+            if (schedule.condition !== undefined && typeof schedule.condition !== 'string') {
+              errors.add(`${scheduledPath}.schedule.condition`, 'Schedule condition must be a string');
+            }
+          });
+        }
+      }
+    });
+  }
+
+  if (errors.hasErrors()) {
+    errors.throw('Invalid Zoho workflow');
+  }
+}
+
+// ============================================================================
+// AUTOMATION VALIDATION
+// ============================================================================
+
+const isAutomationValue = (value: any): boolean =>
+  value === null || ['string', 'number', 'boolean'].includes(typeof value);
+
+function validateAutomationTrigger(trigger: any, errors: ErrorCollector): void {
+  if (!trigger || typeof trigger !== 'object' || Array.isArray(trigger)) {
+    errors.add('trigger', 'Trigger is required');
+    return;
+  }
+
+  if (!isAutomationTriggerType(trigger.type)) {
+    errors.add('trigger.type', `Trigger type must be one of: ${AUTOMATION_TRIGGER_TYPES.join(', ')}`);
+  }
+
+  if (trigger.record_type !== undefined && (!isNonEmptyString(trigger.record_type) || !isValidLength(trigger.record_type, 1, 100))) {
+    errors.add('trigger.record_type', 'Record type must be between 1 and 100 characters');
+  }
+
+  if (trigger.fields !== undefined && (!Array.isArray(trigger.fields) || !trigger.fields.every(isNonEmptyString))) {
+    errors.add('trigger.fields', 'Fields must be an array of field names');
+  } else if (trigger.type === 'field_changed' && (!trigger.fields || trigger.fields.length === 0)) {
+    errors.add('trigger.fields', 'A field_changed trigger needs the fields it watches');
+  }
+
+  if (trigger.description !== undefined && (typeof trigger.description !== 'string' || !isValidLength(trigger.description, 0, 2000))) {
+    errors.add('trigger.description', 'Trigger description must not exceed 2000 characters');
+  }
+}
+
+function validateAutomationConditions(conditions: any, errors: ErrorCollector): void {
+  if (!Array.isArray(conditions)) {
+    errors.add('conditions', 'Conditions must be an array (empty to apply every time)');
+    return;
+  }
+
+  conditions.forEach((condition: any, index: number) => {
+    const path = `conditions[${index}]`;
+
+    if (!condition || typeof condition !== 'object') {
+      errors.add(path, 'Condition must be an object');
+      return;
+    }
+
+    if (!isNonEmptyString(condition.field)) {
+      errors.add(`${path}.field`, 'Condition field is required');
+    }
+
+    if (!AUTOMATION_CONDITION_OPERATORS.includes(condition.operator)) {
+      errors.add(`${path}.operator`, `Operator must be one of: ${AUTOMATION_CONDITION_OPERATORS.join(', ')}`);
+    } else if (AUTOMATION_VALUELESS_OPERATORS.includes(condition.operator)) {
+      if (condition.value !== undefined && condition.value !== null) {
+        errors.add(`${path}.value`, `Operator ${condition.operator} takes no value`);
+      }
+    } else if (condition.value === undefined || condition.value === null || !isAutomationValue(condition.value)) {
+      errors.add(`${path}.value`, `Operator ${condition.operator} needs a value`);
+    }
+  });
+}
+
+function validateAutomationActions(actions: any, errors: ErrorCollector): void {
+  if (!Array.isArray(actions) || actions.length === 0) {
+    errors.add('actions', 'An automation needs at least one action');
+    return;
+  }
+
+  actions.forEach((action: any, index: number) => {
+    const path = `actions[${index}]`;
+
+    if (!action || typeof action !== 'object') {
+      errors.add(path, 'Action must be an object');
+      return;
+    }
+
+    if (!AUTOMATION_ACTION_TYPES.includes(action.type)) {
+      errors.add(`${path}.type`, `Action type must be one of: ${AUTOMATION_ACTION_TYPES.join(', ')}`);
+    } else if (action.type === 'other' ? !isNonEmptyString(action.description) : !isNonEmptyString(action.target)) {
+      errors.add(
+        action.type === 'other' ? `${path}.description` : `${path}.target`,
+        action.type === 'other' ? 'Describe what the action does' : `A ${action.type} action needs a target`
+      );
+    }
+
+    if (action.target !== undefined && (typeof action.target !== 'string' || !isValidLength(action.target, 0, 500))) {
+      errors.add(`${path}.target`, 'Target must not exceed 500 characters');
+    }
+
+    if (action.value !== undefined && !isAutomationValue(action.value)) {
+      errors.add(`${path}.value`, 'Value must be text, a number or true/false');
+    }
+
+    if (action.description !== undefined && (typeof action.description !== 'string' || !isValidLength(action.description, 0, 2000))) {
+      errors.add(`${path}.description`, 'Description must not exceed 2000 characters');
+    }
+
+    if (action.delay !== undefined) {
+      const delay = action.delay;
+
+      if (!delay || !isPositiveInteger(delay.amount) || !AUTOMATION_DELAY_UNITS.includes(delay.unit)) {
+        errors.add(`${path}.delay`, `Delay must be a positive whole amount of ${AUTOMATION_DELAY_UNITS.join(', ')}`);
+      }
+    }
+  });
+}
+
+function validateAutomationSchedule(schedule: any, errors: ErrorCollector): void {
+  if (!schedule || typeof schedule !== 'object' || Array.isArray(schedule)) {
+    errors.add('schedule', 'Schedule must be an object');
+    return;
+  }
+
+  if (!AUTOMATION_FREQUENCIES.includes(schedule.frequency)) {
+    errors.add('schedule.frequency', `Frequency must be one of: ${AUTOMATION_FREQUENCIES.join(', ')}`);
+  }
+
+  if (schedule.interval !== undefined && !isPositiveInteger(schedule.interval)) {
+    errors.add('schedule.interval', 'Interval must be a positive integer');
+  }
+
+  if (schedule.time !== undefined && !(typeof schedule.time === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(schedule.time))) {
+    errors.add('schedule.time', 'Time must be HH:MM (24-hour)');
+  }
+
+  if (schedule.day_of_week !== undefined) {
+    if (schedule.frequency !== 'weekly') {
+      errors.add('schedule.day_of_week', 'Only weekly schedules have a day of the week');
+    } else if (!Number.isInteger(schedule.day_of_week) || schedule.day_of_week < 0 || schedule.day_of_week > 6) {
+      errors.add('schedule.day_of_week', 'Day of the week must be 0 (Sunday) to 6 (Saturday)');
+    }
+  }
+
+  if (schedule.day_of_month !== undefined) {
+    if (schedule.frequency !== 'monthly') {
+      errors.add('schedule.day_of_month', 'Only monthly schedules have a day of the month');
+    } else if (!Number.isInteger(schedule.day_of_month) || schedule.day_of_month < 1 || schedule.day_of_month > 31) {
+      errors.add('schedule.day_of_month', 'Day of the month must be 1 to 31');
+    }
+  }
+
+  if (schedule.timezone !== undefined && !isNonEmptyString(schedule.timezone)) {
+    errors.add('schedule.timezone', 'Timezone must be a name like Europe/London');
+  }
+}
+
+/**
+ * Check the fields shared by create and update, where given
+ */
+function validateAutomationFields(input: UpdateAutomationInput, errors: ErrorCollector): void {
+  if (input.name !== undefined) {
+    if (!isNonEmptyString(input.name)) {
+      errors.add('name', 'Automation name is required');
+    } else if (!isValidLength(input.name, 1, 255)) {
+      errors.add('name', 'Automation name must be between 1 and 255 characters');
+    }
+  }
+
+  if (input.description !== undefined && input.description) {
+    if (!isValidLength(input.description, 0, 5000)) {
+      errors.add('description', 'Description must not exceed 5000 characters');
+    }
+  }
+
+  if (input.trigger !== undefined) validateAutomationTrigger(input.trigger, errors);
+  if (input.conditions !== undefined) validateAutomationConditions(input.conditions, errors);
+  if (input.actions !== undefined) validateAutomationActions(input.actions, errors);
+  if (input.schedule !== undefined && input.schedule !== null) validateAutomationSchedule(input.schedule, errors);
+
+  if (input.condition_match !== undefined && !['all', 'any'].includes(input.condition_match)) {
+    errors.add('condition_match', "Condition match must be 'all' or 'any'");
+  }
+
+  if (input.is_active !== undefined && typeof input.is_active !== 'boolean') {
+    errors.add('is_active', 'is_active must be a boolean');
+  }
+}
+
+// A schedule goes with a schedule trigger, and only with one
+function validateScheduleMatchesTrigger(
+  trigger: AutomationTrigger | undefined,
+  schedule: AutomationSchedule | null | undefined,
+  errors: ErrorCollector
+): void {
+  if (!trigger || !isAutomationTriggerType(trigger.type)) return;
+
+  if (trigger.type === 'schedule' && !schedule) {
+    errors.add('schedule', 'A schedule trigger needs a schedule');
+  } else if (trigger.type !== 'schedule' && schedule) {
+    errors.add('schedule', 'Only schedule triggers have a schedule');
+  }
+}
+
+/**
+ * Validate data for creating an automation
+ */
+export function validateCreateAutomation(input: CreateAutomationInput): void {
+  const errors = new ErrorCollector();
+
+  if (!input.system_id) {
+    errors.add('system_id', 'System ID is required');
+  } else if (!isPositiveInteger(input.system_id)) {
+    errors.add('system_id', 'System ID must be a positive integer');
+  }
+
+  if (input.name === undefined) {
+    errors.add('name', 'Automation name is required');
+  }
+  if (input.trigger === undefined) {
+    errors.add('trigger', 'Trigger is required');
+  }
+  if (input.actions === undefined) {
+    errors.add('actions', 'An automation needs at least one action');
+  }
+
+  validateAutomationFields(input, errors);
+  validateScheduleMatchesTrigger(input.trigger, input.schedule, errors);
+
+  if (errors.hasErrors()) {
+    errors.throw('Invalid automation data');
+  }
+}
+
+/**
+ * Validate data for updating an automation, against what it will be
+ * combined with
+ */
+export function validateUpdateAutomation(input: UpdateAutomationInput, current: Automation): void {
+  const errors = new ErrorCollector();
+
+  validateAutomationFields(input, errors);
+  validateScheduleMatchesTrigger(
+    input.trigger ?? current.trigger,
+    input.schedule !== undefined ? input.schedule : current.schedule,
+    errors
+  );
+
+  const hasAnyField = Object.values(input).some((value) => value !== undefined);
+
+  if (!hasAnyField) {
+    errors.add('_general', 'At least one field must be provided for update');
+  }
+
+  if (errors.hasErrors()) {
+    errors.throw('Invalid update data');
+  }
+}
+
+/**
+ * Validate data for linking an action to an automation
+ */
+export function validateLinkActionToAutomation(input: any): void {
+  const errors = new ErrorCollector();
+
+  if (!input.action_id) {
+    errors.add('action_id', 'Action ID is required');
+  } else if (!isPositiveInteger(input.action_id)) {
+    errors.add('action_id', 'Action ID must be a positive integer');
+  }
+
+  if (input.relationship !== undefined && !isAutomationActionRelationship(input.relationship)) {
+    errors.add('relationship', `Relationship must be one of: ${AUTOMATION_ACTION_RELATIONSHIPS.join(', ')}`);
+  }
+
+  if (input.notes !== undefined && input.notes) {
+    if (typeof input.notes !== 'string' || !isValidLength(input.notes, 0, 2000)) {
+      errors.add('notes', 'Notes must not exceed 2000 characters');
+    }
+  }
+
+  if (errors.hasErrors()) {
+    errors.throw('Invalid automation link data');
+  }
+}
+
 // ============================================================================
 // GENERIC VALIDATION FUNCTIONS (for routes)
 // ============================================================================
@@ -768,4 +1631,224 @@ export function validateEmail(email: string): boolean {
  */
 export function validatePositiveInteger(value: any): boolean {
   return isPositiveInteger(value);
-}
\ No newline at end of file
+}
+/**
+ * Validate a workspace role name
+ * Per-system overrides can't grant ownership, so pass allowOwner=false for those
+ * @returns true if role is valid, false otherwise
+ */
+export function validateWorkspaceRole(role: any, allowOwner: boolean = true): boolean {
+  const roles = allowOwner ? ['owner', 'editor', 'viewer'] : ['editor', 'viewer'];
+  return roles.includes(role);
+}
+
+// ============================================================================
+// WORKSPACE IMPORT VALIDATION
+// ============================================================================
+
+// Export rows write absent values as null; the create validators expect
+// them left out
+const withoutNulls = (row: Record<string, any>): any =>
+  Object.fromEntries(Object.entries(row).filter(([, value]) => value !== null));
+
+/**
+ * Validate a role or task row (no create validator exists for these; the
+ * routes only require a name)
+ */
+function validateNamedRow(row: any, label: string): void {
+  const errors = new ErrorCollector();
+
+  if (!row.name || typeof row.name !== 'string') {
+    errors.add('name', `${label} name is required`);
+  } else if (!isValidLength(row.name, 1, 255)) {
+    errors.add('name', `${label} name must be between 1 and 255 characters`);
+  }
+
+  if (row.display_order !== undefined && row.display_order !== null && !Number.isInteger(row.display_order)) {
+    errors.add('display_order', 'Display order must be an integer');
+  }
+
+  if (errors.hasErrors()) {
+    errors.throw(`Invalid ${label.toLowerCase()} data`);
+  }
+}
+
+/**
+ * Validate a screenshot row. Its file is the embedded image, stored under a
+ * new key on import; the key or path the export names is never used.
+ */
+function validateScreenshotRow(row: any): void {
+  const errors = new ErrorCollector();
+
+  if (!isPositiveInteger(row.action_id)) {
+    errors.add('action_id', 'Action ID must be a positive integer');
+  }
+
+  if (row.file !== undefined && row.file !== null && typeof row.file !== 'string') {
+    errors.add('file', 'File must be base64 image data');
+  }
+
+  if (row.original_filename && (typeof row.original_filename !== 'string' || !isValidLength(row.original_filename, 1, 255))) {
+    errors.add('original_filename', 'Original filename must be between 1 and 255 characters');
+  }
+
+  if (errors.hasErrors()) {
+    errors.throw('Invalid screenshot data');
+  }
+}
+
+function validateLinkRow(row: any): void {
+  const errors = new ErrorCollector();
+
+  if (!row.url || typeof row.url !== 'string' || !isValidUrl(row.url)) {
+    errors.add('url', 'URL must be a valid http(s) address');
+  }
+
+  if (!row.title || typeof row.title !== 'string' || !isValidLength(row.title, 1, 255)) {
+    errors.add('title', 'Link title must be between 1 and 255 characters');
+  }
+
+  if (row.link_type && !isValidLinkType(row.link_type)) {
+    errors.add('link_type', 'Invalid link type');
+  }
+
+  if (row.auth_required && !isValidAuthRequired(row.auth_required)) {
+    errors.add('auth_required', 'Invalid auth_required value');
+  }
+
+  if (row.status && !isValidLinkStatus(row.status)) {
+    errors.add('status', 'Invalid link status');
+  }
+
+  if (errors.hasErrors()) {
+    errors.throw('Invalid link data');
+  }
+}
+
+// Junction rows only hold the IDs of the two rows they join
+function validateJunctionRow(columns: string[]) {
+  return (row: any): void => {
+    const errors = new ErrorCollector();
+
+    for (const column of columns) {
+      if (!isPositiveInteger(row[column])) {
+        errors.add(column, `${column} must be a positive integer`);
+      }
+    }
+
+    if (errors.hasErrors()) {
+      errors.throw('Invalid association data');
+    }
+  };
+}
+
+// A stored Zoho workflow: its system and the rule itself
+function validateZohoWorkflowRow(row: any): void {
+  const errors = new ErrorCollector();
+
+  if (!isPositiveInteger(row.system_id)) {
+    errors.add('system_id', 'System ID must be a positive integer');
+  }
+
+  try {
+    validateZohoWorkflow(row.definition);
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw error;
+    Object.entries(error.errors).forEach(([field, message]) => errors.add(`definition.${field}`, message));
+  }
+
+  if (errors.hasErrors()) {
+    errors.throw('Invalid Zoho workflow data');
+  }
+}
+
+// A stored automation, validated as it would be created
+function validateAutomationRow(row: any): void {
+  const { schedule, ...rest } = row;
+  validateCreateAutomation({ ...withoutNulls(rest), schedule });
+}
+
+/**
+ * Validate every row of a workspace export as it will be created in the
+ * target workspace, using the same rules as the create endpoints. References
+ * between rows are checked by the import itself, which resolves them.
+ * @param target - The workspace and user the rows will belong to
+ * @throws ValidationError listing each invalid field as `table[index].field`
+ */
+export function validateWorkspaceExportData(
+  data: any,
+  target: { workspace_id: number; user_id: number }
+): void {
+  const validators: Record<WorkspaceExportTable, (row: any) => void> = {
+    systems: (row) => validateCreateSystem({ ...withoutNulls(row), ...target }),
+    departments: (row) => validateCreateDepartment(withoutNulls(row)),
+    practice_groups: (row) => validateCreatePracticeGroup(withoutNulls(row)),
+    roles: (row) => validateNamedRow(row, 'Role'),
+    tasks: (row) => validateNamedRow(row, 'Task'),
+    links: validateLinkRow,
+    actions: (row) => validateCreateAction(withoutNulls(row)),
+    screenshots: validateScreenshotRow,
+    action_sequences: (row) => validateCreateActionSequence(withoutNulls(row)),
+    sequence_actions: (row) => validateAddActionToSequence(withoutNulls(row)),
+    task_actions: validateJunctionRow(['task_id', 'action_id']),
+    role_tasks: validateJunctionRow(['role_id', 'task_id']),
+    system_links: validateJunctionRow(['system_id', 'link_id']),
+    action_links: validateJunctionRow(['action_id', 'link_id']),
+    role_links: validateJunctionRow(['role_id', 'link_id']),
+    task_links: validateJunctionRow(['task_id', 'link_id']),
+    zoho_workflows: validateZohoWorkflowRow,
+    automations: validateAutomationRow,
+    action_automations: validateJunctionRow(['action_id', 'automation_id']),
+    screenshot_annotations: validateCreateScreenshotAnnotation,
+    screenshot_redactions: validateScreenshotRedaction,
+  };
+
+  const errors = new ErrorCollector();
+
+  if (!data || typeof data !== 'object') {
+    errors.add('data', 'Export data is required');
+    errors.throw('Invalid workspace export');
+  }
+
+  for (const [table, validate] of Object.entries(validators)) {
+    const rows = data[table];
+
+    if (rows === undefined) continue;
+    if (!Array.isArray(rows)) {
+      errors.add(table, `${table} must be an array`);
+      continue;
+    }
+
+    const ids = new Set<number>();
+
+    rows.forEach((row: any, index: number) => {
+      const prefix = `${table}[${index}]`;
+
+      if (!row || typeof row !== 'object') {
+        errors.add(prefix, 'Row must be an object');
+        return;
+      }
+
+      if (!isPositiveInteger(row.id)) {
+        errors.add(`${prefix}.id`, 'ID must be a positive integer');
+      } else if (ids.has(row.id)) {
+        errors.add(`${prefix}.id`, `Duplicate ID ${row.id}`);
+      } else {
+        ids.add(row.id);
+      }
+
+      try {
+        validate(row);
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error;
+        const fields = Object.entries(error.errors);
+        if (fields.length === 0) errors.add(prefix, error.message);
+        fields.forEach(([field, message]) => errors.add(`${prefix}.${field}`, message));
+      }
+    });
+  }
+
+  if (errors.hasErrors()) {
+    errors.throw('Invalid workspace export');
+  }
+}